@@ -10,6 +10,7 @@ import {
   DocumentTextIcon, CreditCardIcon, TrashIcon, PlusCircleIcon,
   ArrowPathIcon, DocumentArrowDownIcon, ClipboardDocumentIcon
 } from '@heroicons/react/24/outline';
+import { getApiBaseUrl } from '@/app/services/apiClient';
 
 interface BookingRecord {
   _id?: string;
@@ -307,7 +308,7 @@ export default function BookingDiagnosticPage() {
     const token = localStorage.getItem('token');
     if (token) {
       try {
-        const baseURL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000';
+        const baseURL = getApiBaseUrl();
         const response = await fetch(`${baseURL}/api/bookings/${booking._id}/cancel`, {
           method: 'PUT',
           headers: {
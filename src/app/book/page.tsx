@@ -1,36 +1,23 @@
 // src/app/book/page.tsx - FULLY STYLED & INTEGRATED VERSION (WITH ALL VEHICLES)
 "use client";
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import Link from 'next/link';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { useTheme } from '@/app/context/ThemeContext';
 import ThemeSwitcher from '@/app/components/ThemeSwitcher';
 import AnimatedBackground from '@/app/components/AnimatedBackground';
+import SeatMap from '@/app/components/SeatMap';
+import SeatHoldTimer from '@/app/components/SeatHoldTimer';
+import seatService, { type SeatHold, type SeatInventory, type SeatPosition } from '@/app/services/seatService';
+import itineraryService, { type Itinerary, type PendingBooking } from '@/app/services/itineraryService';
+import apiClient from '@/app/services/apiClient';
+import { DecodeError, type Route } from '@/app/domain';
 import { ShieldCheckIcon } from '@heroicons/react/24/outline';
 
 // --- Data Interfaces (unchanged) ---
-interface Route {
-  _id: string;
-  name: string;
-  startLocation: { name: string; address: string; };
-  endLocation: { name: string; address: string; };
-  schedules: Array<{
-    departureTime: string;
-    arrivalTime: string;
-    daysOfWeek: string[];
-    isActive: boolean;
-  }>;
-  operatorInfo: { companyName: string; contactNumber: string; };
-  vehicleInfo: { type: 'bus' | 'train'; capacity: number; amenities: string[]; };
-  pricing: { basePrice: number; discounts: Array<{ type: 'student' | 'senior' | 'military'; percentage: number; }>; };
-}
 
-interface BookingData {
-  routeId: string;
-  scheduleId: string;
-  travelDate: string;
-  departureTime: string;
+interface Passenger {
   passengerInfo: {
     name: string;
     phone: string;
@@ -44,14 +31,46 @@ interface BookingData {
     seatType: 'window' | 'aisle' | 'middle';
     preferences: string[];
   };
+}
+
+interface BookingData {
+  routeId: string;
+  scheduleId: string;
+  travelDate: string;
+  departureTime: string;
+  passengers: Passenger[];
   paymentMethod: 'card' | 'bank' | 'digital_wallet' | 'cash';
 }
 
+// What the payment gateway receives for one leg of the journey
+interface LegBooking extends Omit<BookingData, 'passengers'> {
+  passengerInfo: Passenger['passengerInfo'];
+  seatInfo: Passenger['seatInfo'];
+  passengers: Array<Passenger & { fare: { basePrice: number; discount: number; amount: number } }>;
+  seatHold: SeatHold | null;
+  pricing: { basePrice: number; discounts: number; taxes: number; totalAmount: number };
+}
+
+const MAX_PASSENGERS = 6;
+const TAX_RATE = 0.02;
+
+const emptyPassenger = (): Passenger => ({
+  passengerInfo: { name: '', phone: '', email: '', idType: 'nic', idNumber: '', passengerType: 'regular' },
+  seatInfo: { seatNumber: '', seatType: 'window', preferences: [] },
+});
+
 export default function BookingPage() {
   const router = useRouter();
   const searchParams = useSearchParams();
-  const routeId = searchParams.get('routeId');
+  const itineraryId = searchParams.get('itineraryId');
   const { theme } = useTheme();
+  // Itineraries are booked one leg at a time; each leg keeps its own seat hold until payment
+  const [itinerary] = useState<Itinerary | null>(() => itineraryId ? itineraryService.getPending(itineraryId) : null);
+  const [legIndex, setLegIndex] = useState(0);
+  const [legBookings, setLegBookings] = useState<LegBooking[]>([]);
+  const currentLeg = itinerary?.legs[legIndex];
+  const routeId = currentLeg?.routeId || searchParams.get('routeId');
+  const isLastLeg = !itinerary || legIndex === itinerary.legs.length - 1;
 
   // --- State Management (unchanged logic, just adding theme) ---
   const [route, setRoute] = useState<Route | null>(null);
@@ -65,10 +84,35 @@ export default function BookingPage() {
     scheduleId: '',
     travelDate: new Date().toISOString().split('T')[0],
     departureTime: '',
-    passengerInfo: { name: '', phone: '', email: '', idType: 'nic', idNumber: '', passengerType: 'regular' },
-    seatInfo: { seatNumber: '', seatType: 'window', preferences: [] },
+    passengers: [emptyPassenger()],
     paymentMethod: 'card'
   });
+  const [activePassenger, setActivePassenger] = useState(0);
+  const [seatInventory, setSeatInventory] = useState<SeatInventory>({ taken: [], held: [] });
+  const [seatsLoading, setSeatsLoading] = useState(false);
+  const [seatHold, setSeatHold] = useState<SeatHold | null>(null);
+  const [holdingSeat, setHoldingSeat] = useState(false);
+  // Holds taken on this page; given back if the passenger leaves before the payment page takes them over
+  const openHoldsRef = useRef<SeatHold[]>([]);
+  const handedOffRef = useRef(false);
+
+  useEffect(() => {
+    openHoldsRef.current = [...legBookings.map(leg => leg.seatHold), seatHold].filter((hold): hold is SeatHold => !!hold);
+  }, [legBookings, seatHold]);
+
+  useEffect(() => {
+    // A page kept in the back/forward cache comes back with its holds, so those are left alone
+    const release = (event?: PageTransitionEvent) => {
+      if (handedOffRef.current || event?.persisted) return;
+      openHoldsRef.current.forEach(hold => seatService.releaseHold(hold, { keepalive: true }));
+      openHoldsRef.current = [];
+    };
+    window.addEventListener('pagehide', release);
+    return () => {
+      window.removeEventListener('pagehide', release);
+      release();
+    };
+  }, []);
   
   // --- Style Definitions from Dashboard ---
   const lightTheme = { mainBg: '#fffbeb', bgGradient: 'linear-gradient(to bottom right, #fffbeb, #fef3c7, #fde68a)', glassPanelBg: 'rgba(255, 255, 255, 0.92)', glassPanelBorder: '1px solid rgba(251, 191, 36, 0.3)', glassPanelShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.25), 0 10px 20px -5px rgba(0, 0, 0, 0.1)', textPrimary: '#1f2937', textSecondary: '#4B5563', textMuted: '#6B7280', quickActionBg: 'rgba(249, 250, 251, 0.8)', quickActionBorder: '1px solid rgba(209, 213, 219, 0.5)', alertBg: 'rgba(249, 250, 251, 0.6)' };
@@ -92,117 +136,244 @@ export default function BookingPage() {
   };
   
   // --- Data Logic (unchanged) ---
-  const getToken = () => localStorage.getItem('token');
   const getUserInfo = () => {
     const userStr = localStorage.getItem('user');
     return userStr ? JSON.parse(userStr) : null;
   };
   
-  const apiCall = useCallback(async (endpoint: string, options: RequestInit = {}) => {
-    const token = getToken();
-    if (!token) { router.push('/login'); return null; }
-    const baseURL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000';
-    const fullURL = `${baseURL}/api${endpoint}`;
-    
-    try {
-      const response = await fetch(fullURL, {
-        ...options,
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-          ...options.headers,
-        },
-      });
-
-      if (!response.ok) {
-        if (response.status === 401) { router.push('/login'); return null; }
-        const errorData = await response.text();
-        throw new Error(`API Error ${response.status}: ${errorData}`);
-      }
-      return await response.json();
-    } catch (err) {
-      console.error('💥 API call error:', err);
-      throw err;
-    }
-  }, [router]);
-  
   useEffect(() => {
     const loadRouteDetails = async () => {
+      if (itineraryId && !itinerary) { setError('This itinerary is no longer available, please search again'); setLoading(false); return; }
       if (!routeId) { setError('No route selected'); setLoading(false); return; }
       setLoading(true);
       try {
-        const response = await apiCall(`/routes/${routeId}`);
+        const response = await apiClient.routes.get(routeId, { auth: 'required' });
         if (response && response.route) {
           setRoute(response.route);
-          setBookingData(prev => ({ ...prev, routeId }));
+          setBookingData(prev => ({
+            ...prev,
+            routeId,
+            ...(currentLeg && { travelDate: currentLeg.travelDate, scheduleId: currentLeg.scheduleId || '', departureTime: currentLeg.departureTime || '' })
+          }));
           const user = getUserInfo();
-          if (user) setBookingData(prev => ({ ...prev, passengerInfo: { ...prev.passengerInfo, name: user.name || '', email: user.email || '', phone: user.phone || '' }}));
+          if (user) setBookingData(prev => prev.passengers[0].passengerInfo.name ? prev : ({ ...prev, passengers: prev.passengers.map((p, i) => i === 0 ? { ...p, passengerInfo: { ...p.passengerInfo, name: user.name || '', email: user.email || '', phone: user.phone || '' } } : p) }));
         } else {
           setError('Failed to load route details');
         }
-      } catch { 
-        setError('Failed to load route details');
+      } catch (error) { 
+        setError(error instanceof DecodeError ? error.message : 'Failed to load route details');
       } finally { 
         setLoading(false); 
       }
     };
     loadRouteDetails();
-  }, [routeId, apiCall]);
+  }, [routeId, currentLeg, itineraryId, itinerary]);
+
+  const seatLayout = useMemo(
+    () => route ? seatService.buildLayout(route.vehicleInfo.type, route.vehicleInfo.capacity) : [],
+    [route]
+  );
+
+  // Reload seat availability whenever the schedule or travel date changes
+  useEffect(() => {
+    if (!route || !bookingData.scheduleId || !bookingData.travelDate) return;
+    let cancelled = false;
+    const loadSeats = async () => {
+      setSeatsLoading(true);
+      const inventory = await seatService.getSeatInventory({ routeId: route._id, scheduleId: bookingData.scheduleId, travelDate: bookingData.travelDate }, seatHold?.holdId);
+      if (cancelled) return;
+      setSeatInventory(inventory);
+      setSeatsLoading(false);
+    };
+    loadSeats();
+    return () => { cancelled = true; };
+  }, [route, bookingData.scheduleId, bookingData.travelDate, seatHold?.holdId]);
+
+  const seatQuery = () => ({ routeId: bookingData.routeId, scheduleId: bookingData.scheduleId, travelDate: bookingData.travelDate });
+
+  const updatePassenger = (index: number, info: Partial<Passenger['passengerInfo']>) => {
+    setBookingData(prev => ({ ...prev, passengers: prev.passengers.map((p, i) => i === index ? { ...p, passengerInfo: { ...p.passengerInfo, ...info } } : p) }));
+  };
+
+  // Drop every selected seat (and the hold) when the schedule or date changes or the hold lapses
+  const clearSeats = () => {
+    if (seatHold) seatService.releaseHold(seatHold);
+    setSeatHold(null);
+    setActivePassenger(0);
+    setBookingData(prev => ({ ...prev, passengers: prev.passengers.map(p => ({ ...p, seatInfo: { ...p.seatInfo, seatNumber: '' } })) }));
+  };
+
+  // One hold covers the whole group, so it is replaced whenever the set of seats changes
+  const holdSeats = async (seatNumbers: string[]): Promise<SeatHold | null> => {
+    if (seatHold) await seatService.releaseHold(seatHold);
+    setSeatHold(null);
+    if (seatNumbers.length === 0) return null;
+    const hold = await seatService.createHold(seatQuery(), seatNumbers);
+    setSeatHold(hold);
+    return hold;
+  };
+
+  const handleSeatSelect = async (seat: SeatPosition) => {
+    const passengers = bookingData.passengers;
+    if (holdingSeat || passengers[activePassenger].seatInfo.seatNumber === seat.seatNumber) return;
+    if (passengers.some(p => p.seatInfo.seatNumber === seat.seatNumber)) return;
+
+    const otherSeats = passengers.filter((_, i) => i !== activePassenger).map(p => p.seatInfo.seatNumber).filter(Boolean);
+    setHoldingSeat(true);
+    setError('');
+    try {
+      await holdSeats([...otherSeats, seat.seatNumber]);
+      const updated = passengers.map((p, i) => i === activePassenger ? { ...p, seatInfo: { ...p.seatInfo, seatNumber: seat.seatNumber, seatType: seat.seatType } } : p);
+      setBookingData(prev => ({ ...prev, passengers: updated }));
+      const nextWithoutSeat = updated.findIndex(p => !p.seatInfo.seatNumber);
+      if (nextWithoutSeat !== -1) setActivePassenger(nextWithoutSeat);
+    } catch (err) {
+      setSeatInventory(prev => ({ ...prev, held: [...prev.held, seat.seatNumber] }));
+      setError(err instanceof Error ? err.message : 'Could not hold this seat, please choose another');
+      // Keep the rest of the group's seats reserved
+      try {
+        await holdSeats(otherSeats);
+        setBookingData(prev => ({ ...prev, passengers: prev.passengers.map((p, i) => i === activePassenger ? { ...p, seatInfo: { ...p.seatInfo, seatNumber: '' } } : p) }));
+      } catch {
+        clearSeats();
+      }
+    } finally {
+      setHoldingSeat(false);
+    }
+  };
 
-  const validateBookingData = (): string[] => { /* ... Unchanged validation logic ... */ 
+  const addPassenger = () => {
+    if (bookingData.passengers.length >= MAX_PASSENGERS) return;
+    setBookingData(prev => ({ ...prev, passengers: [...prev.passengers, emptyPassenger()] }));
+  };
+
+  const removePassenger = async (index: number) => {
+    if (bookingData.passengers.length <= 1) return;
+    const remaining = bookingData.passengers.filter((_, i) => i !== index);
+    setBookingData(prev => ({ ...prev, passengers: remaining }));
+    setActivePassenger(0);
+    if (bookingData.passengers[index].seatInfo.seatNumber) {
+      try {
+        await holdSeats(remaining.map(p => p.seatInfo.seatNumber).filter(Boolean));
+      } catch {
+        clearSeats();
+      }
+    }
+  };
+
+  const handleHoldExpired = () => {
+    clearSeats();
+    setError('Your seat hold has expired. Please select your seats again.');
+  };
+
+  const validateBookingData = (): string[] => {
     const errors: string[] = [];
     if (!bookingData.routeId) errors.push('Route ID is required');
     if (!bookingData.scheduleId) errors.push('Please select a schedule');
     if (!bookingData.travelDate) errors.push('Travel date is required');
     if (!bookingData.departureTime) errors.push('Departure time is required');
-    if (!bookingData.passengerInfo.name.trim()) errors.push('Passenger name is required');
-    if (!bookingData.passengerInfo.phone.trim()) errors.push('Phone number is required');
-    if (!bookingData.passengerInfo.email.trim()) errors.push('Email is required');
-    if (!bookingData.passengerInfo.idNumber.trim()) errors.push('ID number is required');
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (bookingData.passengerInfo.email && !emailRegex.test(bookingData.passengerInfo.email)) errors.push('Please enter a valid email address');
     const phoneRegex = /^[0-9+\-\s()]{10,}$/;
-    if (bookingData.passengerInfo.phone && !phoneRegex.test(bookingData.passengerInfo.phone)) errors.push('Please enter a valid phone number');
-    if (!bookingData.seatInfo.seatNumber) bookingData.seatInfo.seatNumber = `${Math.floor(Math.random() * 50) + 1}${bookingData.seatInfo.seatType[0].toUpperCase()}`;
+    bookingData.passengers.forEach(({ passengerInfo, seatInfo }, index) => {
+      const label = bookingData.passengers.length > 1 ? `Passenger ${index + 1}: ` : '';
+      const isLead = index === 0;
+      if (!passengerInfo.name.trim()) errors.push(`${label}Passenger name is required`);
+      if (isLead && !passengerInfo.phone.trim()) errors.push(`${label}Phone number is required`);
+      if (isLead && !passengerInfo.email.trim()) errors.push(`${label}Email is required`);
+      if (!passengerInfo.idNumber.trim()) errors.push(`${label}ID number is required`);
+      if (passengerInfo.email && !emailRegex.test(passengerInfo.email)) errors.push(`${label}Please enter a valid email address`);
+      if (passengerInfo.phone && !phoneRegex.test(passengerInfo.phone)) errors.push(`${label}Please enter a valid phone number`);
+      if (!seatInfo.seatNumber) errors.push(`${label}Please select a seat`);
+      else if (seatInventory.taken.includes(seatInfo.seatNumber) || seatInventory.held.includes(seatInfo.seatNumber)) errors.push(`${label}Seat ${seatInfo.seatNumber} is no longer available, please choose another`);
+    });
+    const seatNumbers = bookingData.passengers.map(p => p.seatInfo.seatNumber).filter(Boolean);
+    if (seatNumbers.length > 0 && (!seatService.isHoldActive(seatHold) || !seatNumbers.every(seat => seatHold.seatNumbers.includes(seat)))) errors.push('Your seat hold has expired, please select your seats again');
     if (!bookingData.paymentMethod) errors.push('Payment method is required');
     return errors;
   };
 
-  const handleSubmit = async () => {
-    const errors = validateBookingData();
-    if (errors.length > 0) { setValidationErrors(errors); setError(`Validation failed: ${errors.join(', ')}`); return; }
-    
-    // Redirect to payment gateway with booking data
-    const submitData = {
+  const buildLegBooking = (): LegBooking => {
+    const passengers = bookingData.passengers.map(p => ({
+      passengerInfo: { ...p.passengerInfo },
+      seatInfo: { seatNumber: p.seatInfo.seatNumber, seatType: p.seatInfo.seatType, preferences: p.seatInfo.preferences || [] },
+      fare: calculateFare(p.passengerInfo.passengerType)
+    }));
+    return {
       routeId: bookingData.routeId,
       scheduleId: bookingData.scheduleId,
       travelDate: bookingData.travelDate,
       departureTime: bookingData.departureTime,
-      passengerInfo: { ...bookingData.passengerInfo },
-      seatInfo: { seatNumber: bookingData.seatInfo.seatNumber || `${Math.floor(Math.random() * 50) + 1}W`, seatType: bookingData.seatInfo.seatType, preferences: bookingData.seatInfo.preferences || [] },
+      // The lead passenger stays in passengerInfo/seatInfo for screens that show a single traveller
+      passengerInfo: passengers[0].passengerInfo,
+      seatInfo: passengers[0].seatInfo,
+      passengers,
       paymentMethod: bookingData.paymentMethod,
-      pricing: {
-        basePrice: route?.pricing.basePrice || 0,
-        totalAmount: calculatePrice() + Math.round(calculatePrice() * 0.02),
-        taxes: Math.round(calculatePrice() * 0.02),
-        discounts: (route?.pricing.basePrice || 0) - calculatePrice()
-      }
+      seatHold,
+      pricing: calculateTotals()
     };
+  };
+
+  const checkBookingData = (): boolean => {
+    const errors = validateBookingData();
+    if (errors.length > 0) { setValidationErrors(errors); setError(`Validation failed: ${errors.join(', ')}`); return false; }
+    setValidationErrors([]);
+    setError('');
+    return true;
+  };
+
+  // Keep this leg's seats held and move the same passengers on to the next leg
+  const handleNextLeg = () => {
+    if (!checkBookingData()) return;
+    setLegBookings(prev => [...prev, buildLegBooking()]);
+    setSeatHold(null);
+    setActivePassenger(0);
+    setBookingData(prev => ({ ...prev, passengers: prev.passengers.map(p => ({ ...p, seatInfo: { ...p.seatInfo, seatNumber: '' } })) }));
+    setLegIndex(prev => prev + 1);
+    setStep(1);
+  };
+
+  const handleSubmit = async () => {
+    if (!checkBookingData()) return;
+    
+    // Redirect to payment gateway with booking data
+    const currentBooking = buildLegBooking();
+    let submitData: PendingBooking = currentBooking;
+    if (itinerary) {
+      const legs = [...legBookings, currentBooking];
+      submitData = {
+        ...legs[0],
+        itinerary: { itineraryId: itinerary.itineraryId, type: itinerary.type },
+        legs,
+        pricing: {
+          basePrice: legs.reduce((sum, leg) => sum + leg.pricing.basePrice, 0),
+          discounts: legs.reduce((sum, leg) => sum + leg.pricing.discounts, 0),
+          taxes: legs.reduce((sum, leg) => sum + leg.pricing.taxes, 0),
+          totalAmount: legs.reduce((sum, leg) => sum + leg.pricing.totalAmount, 0)
+        }
+      };
+    }
     
     // Store booking data in localStorage for payment gateway
     localStorage.setItem('pendingBooking', JSON.stringify(submitData));
+    handedOffRef.current = true;
     
     // Redirect to payment gateway
     router.push('/payment-gateway');
   };
   
   // --- Helper and Render Functions ---
-  const calculatePrice = () => { /* ... Unchanged ... */ 
-    if (!route) return 0;
-    let price = route.pricing.basePrice;
-    const discount = route.pricing.discounts.find(d => d.type === bookingData.passengerInfo.passengerType);
-    if (discount) { price -= (price * discount.percentage / 100); }
-    return Math.round(price);
+  const calculateFare = (passengerType: Passenger['passengerInfo']['passengerType']) => {
+    const basePrice = route?.pricing.basePrice || 0;
+    const discount = route?.pricing.discounts.find(d => d.type === passengerType);
+    const amount = Math.round(discount ? basePrice - (basePrice * discount.percentage / 100) : basePrice);
+    return { basePrice, discount: basePrice - amount, amount };
+  };
+  const calculateTotals = () => {
+    const fares = bookingData.passengers.map(p => calculateFare(p.passengerInfo.passengerType));
+    const basePrice = fares.reduce((sum, f) => sum + f.basePrice, 0);
+    const subtotal = fares.reduce((sum, f) => sum + f.amount, 0);
+    const taxes = Math.round(subtotal * TAX_RATE);
+    return { basePrice, discounts: basePrice - subtotal, taxes, totalAmount: subtotal + taxes };
   };
   const formatPrice = (price: number) => `Rs. ${price.toLocaleString()}`;
 
@@ -211,13 +382,13 @@ export default function BookingPage() {
       <h3 style={{ fontSize: '1.2rem', fontWeight: '600', marginBottom: '1rem', color: currentThemeStyles.textPrimary }}>Select Schedule</h3>
       <div style={{ marginBottom: '1rem' }}>
         <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '600', color: currentThemeStyles.textSecondary }}>Travel Date *</label>
-        <input type="date" value={bookingData.travelDate} onChange={(e) => setBookingData(prev => ({ ...prev, travelDate: e.target.value }))} min={new Date().toISOString().split('T')[0]} style={inputStyle} />
+        <input type="date" value={bookingData.travelDate} disabled={!!currentLeg} onChange={(e) => { clearSeats(); setBookingData(prev => ({ ...prev, travelDate: e.target.value })); }} min={new Date().toISOString().split('T')[0]} style={inputStyle} />
       </div>
       <div style={{ marginBottom: '1.5rem' }}>
         <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '600', color: currentThemeStyles.textSecondary }}>Available Schedules *</label>
         <div style={{ display: 'grid', gap: '0.5rem' }}>
           {route?.schedules.filter(s => s.isActive).map((schedule, index) => (
-            <div key={index} onClick={() => setBookingData(prev => ({ ...prev, scheduleId: index.toString(), departureTime: schedule.departureTime }))} style={{ padding: '1rem', border: '2px solid', borderColor: bookingData.scheduleId === index.toString() ? '#F59E0B' : currentThemeStyles.quickActionBorder, borderRadius: '0.5rem', cursor: 'pointer', backgroundColor: bookingData.scheduleId === index.toString() ? 'rgba(254, 243, 199, 0.8)' : currentThemeStyles.alertBg, transition: 'all 0.2s' }}>
+            <div key={index} onClick={() => { if (bookingData.scheduleId !== index.toString()) clearSeats(); setBookingData(prev => ({ ...prev, scheduleId: index.toString(), departureTime: schedule.departureTime })); }} style={{ padding: '1rem', border: '2px solid', borderColor: bookingData.scheduleId === index.toString() ? '#F59E0B' : currentThemeStyles.quickActionBorder, borderRadius: '0.5rem', cursor: 'pointer', backgroundColor: bookingData.scheduleId === index.toString() ? 'rgba(254, 243, 199, 0.8)' : currentThemeStyles.alertBg, transition: 'all 0.2s' }}>
               <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
                 <div>
                   <div style={{ fontWeight: '600', color: currentThemeStyles.textPrimary }}>{schedule.departureTime} - {schedule.arrivalTime}</div>
@@ -236,48 +407,76 @@ export default function BookingPage() {
   const renderStep2 = () => (
     <div className="animate-fade-in-up">
       <h3 style={{ fontSize: '1.2rem', fontWeight: '600', marginBottom: '1rem', color: currentThemeStyles.textPrimary }}>Passenger Information</h3>
-      <div style={{ display: 'grid', gap: '1rem' }}>
-        <div>
-          <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '600', color: currentThemeStyles.textSecondary }}>Full Name *</label>
-          <input type="text" value={bookingData.passengerInfo.name} onChange={(e) => setBookingData(prev => ({ ...prev, passengerInfo: { ...prev.passengerInfo, name: e.target.value } }))} placeholder="Enter your full name" style={inputStyle} />
-        </div>
-        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1rem' }}>
-          <div>
-            <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '600', color: currentThemeStyles.textSecondary }}>Phone Number *</label>
-            <input type="tel" value={bookingData.passengerInfo.phone} onChange={(e) => setBookingData(prev => ({ ...prev, passengerInfo: { ...prev.passengerInfo, phone: e.target.value } }))} placeholder="+94 XX XXX XXXX" style={inputStyle} />
-          </div>
-          <div>
-            <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '600', color: currentThemeStyles.textSecondary }}>Email Address *</label>
-            <input type="email" value={bookingData.passengerInfo.email} onChange={(e) => setBookingData(prev => ({ ...prev, passengerInfo: { ...prev.passengerInfo, email: e.target.value } }))} placeholder="your.email@example.com" style={inputStyle} />
-          </div>
-        </div>
-        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1rem' }}>
-          <div>
-            <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '600', color: currentThemeStyles.textSecondary }}>ID Type *</label>
-            <select value={bookingData.passengerInfo.idType} onChange={(e) => setBookingData(prev => ({ ...prev, passengerInfo: { ...prev.passengerInfo, idType: e.target.value as 'nic' | 'passport' } }))} style={inputStyle}><option value="nic">National ID Card</option><option value="passport">Passport</option></select>
-          </div>
-          <div>
-            <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '600', color: currentThemeStyles.textSecondary }}>ID Number *</label>
-            <input type="text" value={bookingData.passengerInfo.idNumber} onChange={(e) => setBookingData(prev => ({ ...prev, passengerInfo: { ...prev.passengerInfo, idNumber: e.target.value } }))} placeholder={bookingData.passengerInfo.idType === 'nic' ? 'XXXXXXXXXX' : 'Passport Number'} style={inputStyle} />
+      <div style={{ display: 'grid', gap: '1.5rem' }}>
+        {bookingData.passengers.map(({ passengerInfo }, index) => (
+          <div key={index} style={{ display: 'grid', gap: '1rem', padding: bookingData.passengers.length > 1 ? '1rem' : 0, borderRadius: '0.75rem', border: bookingData.passengers.length > 1 ? currentThemeStyles.quickActionBorder : 'none', backgroundColor: bookingData.passengers.length > 1 ? currentThemeStyles.quickActionBg : 'transparent' }}>
+            {bookingData.passengers.length > 1 && (
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                <h4 style={{ margin: 0, fontSize: '1rem', fontWeight: '600', color: currentThemeStyles.textPrimary }}>Passenger {index + 1}{index === 0 ? ' (Lead contact)' : ''}</h4>
+                {index > 0 && <button type="button" onClick={() => removePassenger(index)} style={{ backgroundColor: 'transparent', color: '#DC2626', border: '1px solid #FCA5A5', borderRadius: '0.5rem', padding: '0.25rem 0.75rem', cursor: 'pointer', fontWeight: '500' }}>Remove</button>}
+              </div>
+            )}
+            <div>
+              <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '600', color: currentThemeStyles.textSecondary }}>Full Name *</label>
+              <input type="text" value={passengerInfo.name} onChange={(e) => updatePassenger(index, { name: e.target.value })} placeholder={index === 0 ? 'Enter your full name' : 'Enter passenger full name'} style={inputStyle} />
+            </div>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1rem' }}>
+              <div>
+                <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '600', color: currentThemeStyles.textSecondary }}>Phone Number {index === 0 ? '*' : '(optional)'}</label>
+                <input type="tel" value={passengerInfo.phone} onChange={(e) => updatePassenger(index, { phone: e.target.value })} placeholder="+94 XX XXX XXXX" style={inputStyle} />
+              </div>
+              <div>
+                <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '600', color: currentThemeStyles.textSecondary }}>Email Address {index === 0 ? '*' : '(optional)'}</label>
+                <input type="email" value={passengerInfo.email} onChange={(e) => updatePassenger(index, { email: e.target.value })} placeholder="your.email@example.com" style={inputStyle} />
+              </div>
+            </div>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1rem' }}>
+              <div>
+                <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '600', color: currentThemeStyles.textSecondary }}>ID Type *</label>
+                <select value={passengerInfo.idType} onChange={(e) => updatePassenger(index, { idType: e.target.value as 'nic' | 'passport' })} style={inputStyle}><option value="nic">National ID Card</option><option value="passport">Passport</option></select>
+              </div>
+              <div>
+                <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '600', color: currentThemeStyles.textSecondary }}>ID Number *</label>
+                <input type="text" value={passengerInfo.idNumber} onChange={(e) => updatePassenger(index, { idNumber: e.target.value })} placeholder={passengerInfo.idType === 'nic' ? 'XXXXXXXXXX' : 'Passport Number'} style={inputStyle} />
+              </div>
+            </div>
+            <div>
+              <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '600', color: currentThemeStyles.textSecondary }}>Passenger Type</label>
+              <select value={passengerInfo.passengerType} onChange={(e) => updatePassenger(index, { passengerType: e.target.value as 'regular' | 'student' | 'senior' | 'military' })} style={inputStyle}>
+                <option value="regular">Regular</option><option value="student">Student (Discount Available)</option><option value="senior">Senior Citizen (Discount Available)</option><option value="military">Military (Discount Available)</option>
+              </select>
+            </div>
           </div>
-        </div>
-        <div>
-          <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '600', color: currentThemeStyles.textSecondary }}>Passenger Type</label>
-          <select value={bookingData.passengerInfo.passengerType} onChange={(e) => setBookingData(prev => ({ ...prev, passengerInfo: { ...prev.passengerInfo, passengerType: e.target.value as 'regular' | 'student' | 'senior' | 'military' } }))} style={inputStyle}>
-            <option value="regular">Regular</option><option value="student">Student (Discount Available)</option><option value="senior">Senior Citizen (Discount Available)</option><option value="military">Military (Discount Available)</option>
-          </select>
-        </div>
+        ))}
+        {bookingData.passengers.length < MAX_PASSENGERS && (
+          <button type="button" onClick={addPassenger} style={{ backgroundColor: 'transparent', color: '#F59E0B', border: '2px dashed #F59E0B', borderRadius: '0.5rem', padding: '0.75rem', cursor: 'pointer', fontWeight: '600' }}>+ Add Another Passenger</button>
+        )}
       </div>
     </div>
   );
 
   const renderStep3 = () => (
     <div className="animate-fade-in-up">
-      <h3 style={{ fontSize: '1.2rem', fontWeight: '600', marginBottom: '1rem', color: currentThemeStyles.textPrimary }}>Seat Preferences & Payment</h3>
+      <h3 style={{ fontSize: '1.2rem', fontWeight: '600', marginBottom: '1rem', color: currentThemeStyles.textPrimary }}>Seat Selection & Payment</h3>
       <div style={{ display: 'grid', gap: '1rem', marginBottom: '1.5rem' }}>
         <div>
-          <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '600', color: currentThemeStyles.textSecondary }}>Seat Preference</label>
-          <select value={bookingData.seatInfo.seatType} onChange={(e) => setBookingData(prev => ({ ...prev, seatInfo: { ...prev.seatInfo, seatType: e.target.value as 'window' | 'aisle' | 'middle' } }))} style={inputStyle}><option value="window">Window Seat</option><option value="aisle">Aisle Seat</option><option value="middle">Middle Seat</option></select>
+          <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '600', color: currentThemeStyles.textSecondary }}>{bookingData.passengers.length > 1 ? 'Choose a Seat for Each Passenger *' : 'Choose Your Seat *'}</label>
+          {seatHold && <div style={{ marginBottom: '0.75rem' }}><SeatHoldTimer hold={seatHold} onExpire={handleHoldExpired} /></div>}
+          {bookingData.passengers.length > 1 && (
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem', marginBottom: '0.75rem' }}>
+              {bookingData.passengers.map((p, index) => (
+                <button key={index} type="button" onClick={() => setActivePassenger(index)} style={{ padding: '0.4rem 0.8rem', borderRadius: '999px', border: '2px solid', borderColor: activePassenger === index ? '#F59E0B' : 'rgba(156, 163, 175, 0.5)', backgroundColor: activePassenger === index ? 'rgba(254, 243, 199, 0.8)' : 'transparent', color: activePassenger === index ? '#92400E' : currentThemeStyles.textSecondary, cursor: 'pointer', fontSize: '0.85rem', fontWeight: '500' }}>
+                  {p.passengerInfo.name || `Passenger ${index + 1}`}: {p.seatInfo.seatNumber || '—'}
+                </button>
+              ))}
+            </div>
+          )}
+          <SeatMap sections={seatLayout} takenSeats={seatInventory.taken} heldSeats={seatInventory.held} selectedSeats={bookingData.passengers.map(p => p.seatInfo.seatNumber).filter(Boolean)} activeSeat={bookingData.passengers[activePassenger]?.seatInfo.seatNumber} onSelect={handleSeatSelect} loading={seatsLoading} currentThemeStyles={currentThemeStyles} />
+          <div style={{ marginTop: '0.5rem', fontSize: '0.9rem', color: currentThemeStyles.textSecondary }}>
+            {bookingData.passengers[activePassenger]?.seatInfo.seatNumber
+              ? <>Selected seat{bookingData.passengers.length > 1 ? ` for ${bookingData.passengers[activePassenger].passengerInfo.name || `Passenger ${activePassenger + 1}`}` : ''}: <strong style={{ color: currentThemeStyles.textPrimary }}>{bookingData.passengers[activePassenger].seatInfo.seatNumber}</strong> ({bookingData.passengers[activePassenger].seatInfo.seatType})</>
+              : 'No seat selected yet'}
+          </div>
         </div>
         <div>
           <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '600', color: currentThemeStyles.textSecondary }}>Payment Method *</label>
@@ -286,10 +485,18 @@ export default function BookingPage() {
       </div>
       <div style={{ backgroundColor: currentThemeStyles.quickActionBg, padding: '1rem', borderRadius: '0.5rem', border: currentThemeStyles.quickActionBorder }}>
         <h4 style={{ fontSize: '1rem', fontWeight: '600', marginBottom: '0.5rem', color: currentThemeStyles.textPrimary }}>Price Summary</h4>
-        <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '0.5rem', color: currentThemeStyles.textSecondary }}><span>Base Price:</span><span>{formatPrice(route?.pricing.basePrice || 0)}</span></div>
-        {bookingData.passengerInfo.passengerType !== 'regular' && (<div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '0.5rem', color: '#10B981' }}><span>Discount ({bookingData.passengerInfo.passengerType}):</span><span>-{formatPrice((route?.pricing.basePrice || 0) - calculatePrice())}</span></div>)}
-        <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '0.5rem', color: currentThemeStyles.textSecondary }}><span>Taxes & Fees:</span><span>{formatPrice(Math.round(calculatePrice() * 0.02))}</span></div>
-        <div style={{ display: 'flex', justifyContent: 'space-between', fontWeight: 'bold', fontSize: '1.1rem', paddingTop: '0.5rem', borderTop: `1px solid ${currentThemeStyles.quickActionBorder}`, color: currentThemeStyles.textPrimary }}><span>Total:</span><span style={{ color: '#F59E0B' }}>{formatPrice(calculatePrice() + Math.round(calculatePrice() * 0.02))}</span></div>
+        {bookingData.passengers.map((p, index) => {
+          const fare = calculateFare(p.passengerInfo.passengerType);
+          return (
+            <div key={index} style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '0.5rem', color: currentThemeStyles.textSecondary }}>
+              <span>{p.passengerInfo.name || `Passenger ${index + 1}`} ({p.passengerInfo.passengerType}){fare.discount > 0 && <span style={{ color: '#10B981' }}> −{formatPrice(fare.discount)}</span>}:</span>
+              <span>{formatPrice(fare.amount)}</span>
+            </div>
+          );
+        })}
+        {calculateTotals().discounts > 0 && (<div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '0.5rem', color: '#10B981' }}><span>Total Discounts:</span><span>-{formatPrice(calculateTotals().discounts)}</span></div>)}
+        <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '0.5rem', color: currentThemeStyles.textSecondary }}><span>Taxes & Fees:</span><span>{formatPrice(calculateTotals().taxes)}</span></div>
+        <div style={{ display: 'flex', justifyContent: 'space-between', fontWeight: 'bold', fontSize: '1.1rem', paddingTop: '0.5rem', borderTop: `1px solid ${currentThemeStyles.quickActionBorder}`, color: currentThemeStyles.textPrimary }}><span>Total ({bookingData.passengers.length} passenger{bookingData.passengers.length > 1 ? 's' : ''}):</span><span style={{ color: '#F59E0B' }}>{formatPrice(calculateTotals().totalAmount)}</span></div>
       </div>
     </div>
   );
@@ -362,6 +569,12 @@ export default function BookingPage() {
                 textShadow: '0 2px 4px rgba(0, 0, 0, 0.5)',
                 fontWeight: '500'
               }}>{route?.name} - {route?.startLocation.name} to {route?.endLocation.name}</p>
+              {itinerary && (
+                <p style={{ color: '#FCD34D', margin: '0.5rem 0 0 0', fontWeight: '600', textShadow: '0 2px 4px rgba(0, 0, 0, 0.5)' }}>
+                  {itinerary.type === 'round_trip' ? 'Round trip' : 'Connecting journey'} · Leg {legIndex + 1} of {itinerary.legs.length}
+                  {!isLastLeg && ` · next: ${itinerary.legs[legIndex + 1].from} → ${itinerary.legs[legIndex + 1].to}`}
+                </p>
+              )}
             </div>
 
             {/* Booking Form Card */}
@@ -395,6 +608,8 @@ export default function BookingPage() {
               <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: '2rem', paddingTop: '1rem', borderTop: `1px solid ${currentThemeStyles.quickActionBorder}` }}>
                 <button onClick={() => setStep(Math.max(1, step - 1))} disabled={step === 1} style={{ backgroundColor: step === 1 ? 'rgba(156, 163, 175, 0.4)' : '#6B7280', color: 'white', padding: '0.75rem 1.5rem', border: 'none', borderRadius: '0.5rem', cursor: step === 1 ? 'not-allowed' : 'pointer', fontWeight: '500', opacity: step === 1 ? 0.6 : 1, transition: 'all 0.3s' }}>Previous</button>
                 {step < 3 ? (<button onClick={() => setStep(step + 1)} style={{ backgroundColor: '#F59E0B', color: 'white', padding: '0.75rem 1.5rem', border: 'none', borderRadius: '0.5rem', cursor: 'pointer', fontWeight: '500', transition: 'all 0.3s' }}>Next</button>
+                ) : !isLastLeg ? (
+                <button onClick={handleNextLeg} disabled={holdingSeat} style={{ backgroundColor: '#F59E0B', color: 'white', padding: '0.75rem 1.5rem', border: 'none', borderRadius: '0.5rem', cursor: holdingSeat ? 'not-allowed' : 'pointer', fontWeight: '500', transition: 'all 0.3s' }}>Continue to Leg {legIndex + 2} →</button>
                 ) : (
                 <button onClick={handleSubmit} disabled={submitting} style={{ backgroundColor: submitting ? '#9CA3AF' : '#10B981', color: 'white', padding: '0.75rem 1.5rem', border: 'none', borderRadius: '0.5rem', cursor: submitting ? 'not-allowed' : 'pointer', fontWeight: '500', transition: 'all 0.3s' }}>{submitting ? 'Processing...' : '🎫 Confirm Booking'}</button>)}
               </div>
@@ -3,10 +3,12 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import Link from 'next/link';
-import { useRouter, useParams } from 'next/navigation';
+import { useParams } from 'next/navigation';
 import { useTheme } from '@/app/context/ThemeContext';
 import ThemeSwitcher from '@/app/components/ThemeSwitcher';
 import AnimatedBackground from '@/app/components/AnimatedBackground';
+import apiClient from '@/app/services/apiClient';
+import { DecodeError, type Booking, type BookingPassenger } from '@/app/domain';
 import { 
   ShieldCheckIcon, ArrowLeftIcon, QrCodeIcon, XCircleIcon, MapPinIcon, 
   CreditCardIcon, InformationCircleIcon, CalendarDaysIcon, ClockIcon, 
@@ -15,10 +17,8 @@ import {
 } from '@heroicons/react/24/outline';
 
 // --- Data Interfaces ---
-interface Booking { _id: string; bookingId: string; userId: string; routeId: string; scheduleId: string; travelDate: string; departureTime: string; passengerInfo: { name: string; phone: string; email: string; idType: 'nic' | 'passport'; idNumber: string; passengerType: 'regular' | 'student' | 'senior' | 'military'; }; seatInfo: { seatNumber: string; seatType: 'window' | 'aisle' | 'middle'; preferences: string[]; }; pricing: { basePrice: number; taxes: number; discounts: number; totalAmount: number; currency: string; }; paymentInfo: { paymentId: string; method: 'card' | 'bank' | 'digital_wallet' | 'cash'; status: 'pending' | 'completed' | 'failed' | 'refunded'; paidAt?: string; transactionId: string; }; status: 'confirmed' | 'pending' | 'cancelled' | 'completed' | 'no_show'; qrCode?: string; cancellationInfo?: { reason: string; cancelledAt: string; refundAmount: number; refundStatus: 'pending' | 'processed'; processedBy?: string; }; checkInInfo: { checkedIn: boolean; checkInTime?: string; checkInLocation?: string; }; routeInfo?: { name: string; startLocation: { name: string; address: string }; endLocation: { name: string; address: string }; operatorInfo: { companyName: string; contactNumber: string }; }; isActive: boolean; createdAt: string; updatedAt: string; }
 
 export default function BookingDetailsPage() {
-  const router = useRouter();
   const params = useParams();
   const { theme } = useTheme();
   const bookingId = params.id as string;
@@ -26,7 +26,7 @@ export default function BookingDetailsPage() {
   const [booking, setBooking] = useState<Booking | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
-  const [qrLoading, setQrLoading] = useState(false);
+  const [qrLoading, setQrLoading] = useState<number | null>(null);
   const [showCancelModal, setShowCancelModal] = useState(false);
   const [cancelling, setCancelling] = useState(false);
   const [cancelReason, setCancelReason] = useState('');
@@ -43,18 +43,6 @@ export default function BookingDetailsPage() {
   `;
 
   // --- API and Data Logic ---
-  const getToken = () => typeof window !== 'undefined' ? localStorage.getItem('token') : null;
-  const apiCall = useCallback(async (endpoint: string, options: RequestInit = {}) => {
-    const token = getToken();
-    if (!token) { router.push('/login'); return null; }
-    const baseURL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000';
-    const fullURL = `${baseURL}/api${endpoint}`;
-    try {
-      const response = await fetch(fullURL, { ...options, headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}`, ...options.headers } });
-      if (!response.ok) { if (response.status === 401) { localStorage.removeItem('token'); localStorage.removeItem('user'); router.push('/login'); return null; } throw new Error(`API Error: ${response.status}`); }
-      return await response.json();
-    } catch (error) { console.error('API call error:', error); return null; }
-  }, [router]);
 
   const loadBookingDetails = useCallback(async () => {
     if (!bookingId) return;
@@ -64,12 +52,12 @@ export default function BookingDetailsPage() {
       
       // Try to load from API first
       try {
-        const response = await apiCall(`/bookings/${bookingId}`);
-        if (response && response.booking) { 
-          booking = response.booking;
-          console.log('✅ Booking loaded from API:', booking);
-        }
+        const response = await apiClient.bookings.get(bookingId);
+        booking = response.booking;
+        if (booking) console.log('✅ Booking loaded from API:', booking);
       } catch (apiError) {
+        // A malformed booking surfaces instead of falling through to local data
+        if (apiError instanceof DecodeError) throw apiError;
         console.log('⚠️ API not available, checking local storage...');
       }
       
@@ -92,11 +80,17 @@ export default function BookingDetailsPage() {
         
         // Try API first
         try {
-          const paymentsResponse = await apiCall('/payments/history');
-          if (paymentsResponse && paymentsResponse.payments) {
-            paymentsData = paymentsResponse.payments;
-            console.log('✅ Payments loaded from API:', paymentsData.length);
-          }
+          const paymentsResponse = await apiClient.payments.history();
+          // In the shape payment-gateway stores local payment records in, which the repair below reads
+          paymentsData = paymentsResponse.payments.map(payment => ({
+            ...payment,
+            amount: payment.amount.total,
+            currency: payment.amount.currency,
+            method: payment.paymentMethod.type,
+            transactionId: payment.transactionInfo.transactionId,
+            paidAt: payment.timestamps.completedAt,
+          }));
+          console.log('✅ Payments loaded from API:', paymentsData.length);
         } catch (apiError) {
           console.log('⚠️ Payments API not available, checking local storage...');
         }
@@ -143,6 +137,7 @@ export default function BookingDetailsPage() {
                 seatType: 'window' as const,
                 preferences: []
               },
+              passengers: payment.booking?.passengers,
               pricing: {
                 basePrice: payment.amount || 0,
                 taxes: payment.booking?.pricing?.taxes || 0,
@@ -208,37 +203,40 @@ export default function BookingDetailsPage() {
       }
     } catch (error) { 
       console.error('Error loading booking details:', error); 
-      setError('Failed to load booking details'); 
+      setError(error instanceof DecodeError ? error.message : 'Failed to load booking details'); 
     } finally { 
       setLoading(false); 
     }
-  }, [bookingId, apiCall]);
+  }, [bookingId]);
 
   useEffect(() => { loadBookingDetails(); }, [loadBookingDetails]);
 
-  const handleGenerateQR = async () => {
+  // Every passenger on a group booking gets their own ticket QR, keyed by seat
+  const handleGenerateQR = async (passengerIndex: number = 0) => {
     if (!booking) return;
-    setQrLoading(true);
+    const passenger = getPassengers(booking)[passengerIndex];
+    setQrLoading(passengerIndex);
     try {
-      const response = await apiCall(`/bookings/${booking._id}/qr`, { method: 'POST' });
-      if (response && response.qrCode) {
-        setBooking(prev => prev ? { ...prev, qrCode: response.qrCode } : null);
+      const response = await apiClient.bookings.generateQR(booking._id, { passengerIndex, seatNumber: passenger.seatInfo.seatNumber });
+      if (response.qrCode) {
+        setBooking(prev => prev ? (prev.passengers?.length ? { ...prev, passengers: prev.passengers.map((p, i) => i === passengerIndex ? { ...p, qrCode: response.qrCode } : p) } : { ...prev, qrCode: response.qrCode }) : null);
         const newWindow = window.open('', '_blank');
-        if (newWindow) newWindow.document.write(`<html><body style="text-align: center; padding: 2rem; font-family: sans-serif; background: #f0f0f0;"><h2>Your Ticket QR Code</h2><p><strong>Booking ID:</strong> ${booking.bookingId}</p><p><strong>Passenger:</strong> ${booking.passengerInfo.name}</p><p><strong>Travel Date:</strong> ${new Date(booking.travelDate).toLocaleDateString()}</p><img src="${response.qrCode}" alt="QR Code" style="max-width: 300px; margin: 2rem 0;" /><p>Show this to the conductor</p><button onclick="window.print()" style="background: #F59E0B; color: white; padding: 0.5rem 1rem; border: none; border-radius: 0.5rem; cursor: pointer;">Print Ticket</button></body></html>`);
+        if (newWindow) newWindow.document.write(`<html><body style="text-align: center; padding: 2rem; font-family: sans-serif; background: #f0f0f0;"><h2>Your Ticket QR Code</h2><p><strong>Booking ID:</strong> ${booking.bookingId}</p><p><strong>Passenger:</strong> ${passenger.passengerInfo.name}</p><p><strong>Seat:</strong> ${passenger.seatInfo.seatNumber}</p><p><strong>Travel Date:</strong> ${new Date(booking.travelDate).toLocaleDateString()}</p><img src="${response.qrCode}" alt="QR Code" style="max-width: 300px; margin: 2rem 0;" /><p>Show this to the conductor</p><button onclick="window.print()" style="background: #F59E0B; color: white; padding: 0.5rem 1rem; border: none; border-radius: 0.5rem; cursor: pointer;">Print Ticket</button></body></html>`);
       } else { alert('Failed to generate QR code'); }
-    } catch (error) { console.error('Error generating QR code:', error); alert('Failed to generate QR code'); } finally { setQrLoading(false); }
+    } catch (error) { console.error('Error generating QR code:', error); alert('Failed to generate QR code'); } finally { setQrLoading(null); }
   };
 
   const handleCancelBooking = async () => {
     if (!booking || !cancelReason) return;
     setCancelling(true);
     try {
-      const response = await apiCall(`/bookings/${booking._id}/cancel`, { method: 'PUT', body: JSON.stringify({ reason: cancelReason }) });
-      if (response) { setShowCancelModal(false); loadBookingDetails(); } else { alert('Failed to cancel booking'); }
+      await apiClient.bookings.cancel(booking._id, cancelReason);
+      setShowCancelModal(false); loadBookingDetails();
     } catch (error) { console.error('Error cancelling booking:', error); alert('Failed to cancel booking'); } finally { setCancelling(false); }
   };
 
   // --- Helper Functions ---
+  const getPassengers = (booking: Booking): BookingPassenger[] => booking.passengers?.length ? booking.passengers : [{ passengerInfo: booking.passengerInfo, seatInfo: booking.seatInfo, qrCode: booking.qrCode }];
   const getStatusStyle = (status: string) => { const styles = { confirmed: { color: '#10B981', label: 'Confirmed' }, pending: { color: '#F59E0B', label: 'Pending' }, cancelled: { color: '#EF4444', label: 'Cancelled' }, completed: { color: '#3B82F6', label: 'Completed' }, no_show: { color: '#6B7280', label: 'No Show' } }; return styles[status as keyof typeof styles] || { color: '#6B7280', label: 'Unknown' }; };
   const getPaymentStatusStyle = (status: string) => { const styles = { completed: { color: '#10B981' }, pending: { color: '#F59E0B' }, failed: { color: '#EF4444' }, refunded: { color: '#8B5CF6' } }; return styles[status as keyof typeof styles] || { color: '#6B7280' }; };
   const canCancelBooking = (booking: Booking) => new Date(booking.travelDate).getTime() - new Date().getTime() > 7200000 && booking.status === 'confirmed';
@@ -346,16 +344,36 @@ export default function BookingDetailsPage() {
             </div>
 
             <div style={{ backgroundColor: currentThemeStyles.glassPanelBg, padding: '1.5rem', borderRadius: '1rem', boxShadow: currentThemeStyles.glassPanelShadow, backdropFilter: 'blur(16px)', border: currentThemeStyles.glassPanelBorder, marginBottom: '2rem', display: 'flex', gap: '1rem', flexWrap: 'wrap' }}>
-              {booking.status === 'confirmed' && <button onClick={handleGenerateQR} disabled={qrLoading} style={{ backgroundColor: '#10B981', color: 'white', padding: '0.75rem 1.5rem', border: 'none', borderRadius: '0.5rem', cursor: 'pointer', fontWeight: '500', display: 'flex', alignItems: 'center', gap: '0.5rem' }}>{qrLoading ? 'Generating...' : <><QrCodeIcon width={20}/> Get QR Code</>}</button>}
+              {booking.status === 'confirmed' && getPassengers(booking).length === 1 && <button onClick={() => handleGenerateQR(0)} disabled={qrLoading !== null} style={{ backgroundColor: '#10B981', color: 'white', padding: '0.75rem 1.5rem', border: 'none', borderRadius: '0.5rem', cursor: 'pointer', fontWeight: '500', display: 'flex', alignItems: 'center', gap: '0.5rem' }}>{qrLoading !== null ? 'Generating...' : <><QrCodeIcon width={20}/> Get QR Code</>}</button>}
               {canCancelBooking(booking) && <button onClick={() => setShowCancelModal(true)} style={{ backgroundColor: '#EF4444', color: 'white', padding: '0.75rem 1.5rem', border: 'none', borderRadius: '0.5rem', cursor: 'pointer', fontWeight: '500', display: 'flex', alignItems: 'center', gap: '0.5rem' }}><XCircleIcon width={20}/> Cancel Booking</button>}
               <Link href="/track" style={{ backgroundColor: '#3B82F6', color: 'white', padding: '0.75rem 1.5rem', borderRadius: '0.5rem', textDecoration: 'none', fontWeight: '500', display: 'flex', alignItems: 'center', gap: '0.5rem' }}><MapPinIcon width={20}/> Track Vehicle</Link>
               <Link href={`/payments`} style={{ backgroundColor: '#8B5CF6', color: 'white', padding: '0.75rem 1.5rem', borderRadius: '0.5rem', textDecoration: 'none', fontWeight: '500', display: 'flex', alignItems: 'center', gap: '0.5rem' }}><CreditCardIcon width={20}/> View Payments</Link>
             </div>
 
             <div style={{ display: 'grid', gap: '2rem' }}>
+              {getPassengers(booking).length > 1 && (
+                <div style={{ backgroundColor: currentThemeStyles.glassPanelBg, padding: '2rem', borderRadius: '1rem', boxShadow: currentThemeStyles.glassPanelShadow, backdropFilter: 'blur(16px)', border: currentThemeStyles.glassPanelBorder }}>
+                  <h3 style={{ fontSize: '1.5rem', fontWeight: '600', color: currentThemeStyles.textPrimary, marginBottom: '1rem', paddingBottom: '1rem', borderBottom: `1px solid ${currentThemeStyles.quickActionBorder}` }}>Passengers ({getPassengers(booking).length})</h3>
+                  <div className="details-grid" style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(240px, 1fr))', gap: '1rem' }}>
+                    {getPassengers(booking).map((passenger, index) => (
+                      <div key={index} style={{ backgroundColor: currentThemeStyles.alertBg, padding: '1rem', borderRadius: '0.75rem', border: currentThemeStyles.quickActionBorder, fontSize: '0.9rem', color: currentThemeStyles.textMuted, lineHeight: '1.8' }}>
+                        <div style={{ fontWeight: '600', color: currentThemeStyles.textPrimary, display: 'flex', alignItems: 'center', gap: '0.5rem' }}><UserIcon width={16} /> {passenger.passengerInfo.name}</div>
+                        <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}><TicketIcon width={16} /> Seat {passenger.seatInfo.seatNumber} ({passenger.seatInfo.seatType})</div>
+                        <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}><InformationCircleIcon width={16} /> {passenger.passengerInfo.passengerType} · {passenger.passengerInfo.idType}: {passenger.passengerInfo.idNumber}</div>
+                        {passenger.fare && <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}><CurrencyDollarIcon width={16} /> {formatPrice(passenger.fare.amount)}{passenger.fare.discount > 0 && <span style={{ color: '#10B981' }}> (−{formatPrice(passenger.fare.discount)})</span>}</div>}
+                        {booking.status === 'confirmed' && (
+                          <button onClick={() => handleGenerateQR(index)} disabled={qrLoading !== null} style={{ marginTop: '0.75rem', width: '100%', backgroundColor: '#10B981', color: 'white', padding: '0.5rem 1rem', border: 'none', borderRadius: '0.5rem', cursor: qrLoading !== null ? 'not-allowed' : 'pointer', fontWeight: '500', display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '0.5rem', opacity: qrLoading !== null && qrLoading !== index ? 0.7 : 1 }}>
+                            {qrLoading === index ? 'Generating...' : <><QrCodeIcon width={18}/> {passenger.qrCode ? 'Show QR Code' : 'Get QR Code'}</>}
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
               {[
-                { title: 'Trip Information', details: [ { label: 'Journey Details', items: [ { icon: InformationCircleIcon, text: `From: ${booking.routeInfo?.startLocation.name}` }, { icon: InformationCircleIcon, text: `To: ${booking.routeInfo?.endLocation.name}` }, { icon: CalendarDaysIcon, text: `Travel Date: ${formatDate(booking.travelDate)}` }, { icon: ClockIcon, text: `Departure: ${booking.departureTime}` } ] }, { label: 'Seat Information', items: [ { icon: TicketIcon, text: `Seat Number: ${booking.seatInfo.seatNumber}` }, { icon: TicketIcon, text: `Seat Type: ${booking.seatInfo.seatType}` } ] }, { label: 'Operator', items: [ { icon: BuildingOffice2Icon, text: `Company: ${booking.routeInfo?.operatorInfo.companyName}` }, { icon: PhoneIcon, text: `Contact: ${booking.routeInfo?.operatorInfo.contactNumber}` } ] } ] },
-                { title: 'Passenger Information', details: [ { label: 'Personal Details', items: [ { icon: UserIcon, text: `Name: ${booking.passengerInfo.name}` }, { icon: UserIcon, text: `Type: ${booking.passengerInfo.passengerType}` }, { icon: InformationCircleIcon, text: `ID Type: ${booking.passengerInfo.idType}` }, { icon: InformationCircleIcon, text: `ID Number: ${booking.passengerInfo.idNumber}` } ] }, { label: 'Contact Information', items: [ { icon: DevicePhoneMobileIcon, text: `Phone: ${booking.passengerInfo.phone}` }, { icon: AtSymbolIcon, text: `Email: ${booking.passengerInfo.email}` } ] } ] },
+                { title: 'Trip Information', details: [ { label: 'Journey Details', items: [ { icon: InformationCircleIcon, text: `From: ${booking.routeInfo?.startLocation.name}` }, { icon: InformationCircleIcon, text: `To: ${booking.routeInfo?.endLocation.name}` }, { icon: CalendarDaysIcon, text: `Travel Date: ${formatDate(booking.travelDate)}` }, { icon: ClockIcon, text: `Departure: ${booking.departureTime}` } ] }, { label: 'Seat Information', items: [ ...(getPassengers(booking).length > 1 ? [ { icon: TicketIcon, text: `Seats: ${getPassengers(booking).map(p => p.seatInfo.seatNumber).join(', ')}` } ] : [ { icon: TicketIcon, text: `Seat Number: ${booking.seatInfo.seatNumber}` }, { icon: TicketIcon, text: `Seat Type: ${booking.seatInfo.seatType}` } ]) ] }, { label: 'Operator', items: [ { icon: BuildingOffice2Icon, text: `Company: ${booking.routeInfo?.operatorInfo.companyName}` }, { icon: PhoneIcon, text: `Contact: ${booking.routeInfo?.operatorInfo.contactNumber}` } ] } ] },
+                { title: getPassengers(booking).length > 1 ? 'Lead Passenger' : 'Passenger Information', details: [ { label: 'Personal Details', items: [ { icon: UserIcon, text: `Name: ${booking.passengerInfo.name}` }, { icon: UserIcon, text: `Type: ${booking.passengerInfo.passengerType}` }, { icon: InformationCircleIcon, text: `ID Type: ${booking.passengerInfo.idType}` }, { icon: InformationCircleIcon, text: `ID Number: ${booking.passengerInfo.idNumber}` } ] }, { label: 'Contact Information', items: [ { icon: DevicePhoneMobileIcon, text: `Phone: ${booking.passengerInfo.phone}` }, { icon: AtSymbolIcon, text: `Email: ${booking.passengerInfo.email}` } ] } ] },
                 { title: 'Payment Information', details: [ { label: 'Amount Breakdown', items: [ { icon: CurrencyDollarIcon, text: `Base Price: ${formatPrice(booking.pricing.basePrice)}` }, { icon: CurrencyDollarIcon, text: `Taxes: ${formatPrice(booking.pricing.taxes)}` }, ...(booking.pricing.discounts > 0 ? [{ icon: CurrencyDollarIcon, text: `Discount: -${formatPrice(booking.pricing.discounts)}`, color: '#10B981' }] : []), { icon: CurrencyDollarIcon, text: `Total: ${formatPrice(booking.pricing.totalAmount)}`, isTotal: true } ] }, { label: 'Payment Details', items: [ { icon: CreditCardIcon, text: `Method: ${booking.paymentInfo.method}` }, { icon: InformationCircleIcon, text: `Transaction ID: ${booking.paymentInfo.transactionId}` }, { icon: InformationCircleIcon, text: `Payment ID: ${booking.paymentInfo.paymentId}` }, ...(booking.paymentInfo.paidAt ? [{ icon: ClockIcon, text: `Paid At: ${formatDateTime(booking.paymentInfo.paidAt)}` }] : []) ] } ] }
               ].map(section => (
                 <div key={section.title} style={{ backgroundColor: currentThemeStyles.glassPanelBg, padding: '2rem', borderRadius: '1rem', boxShadow: currentThemeStyles.glassPanelShadow, backdropFilter: 'blur(16px)', border: currentThemeStyles.glassPanelBorder }}>
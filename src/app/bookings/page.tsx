@@ -3,18 +3,17 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import Link from 'next/link';
-import { useRouter } from 'next/navigation';
 import { useTheme } from '@/app/context/ThemeContext';
 import ThemeSwitcher from '@/app/components/ThemeSwitcher';
 import AnimatedBackground from '@/app/components/AnimatedBackground';
+import apiClient, { type BookingStats } from '@/app/services/apiClient';
+import { DecodeError, type Booking as DomainBooking } from '@/app/domain';
 import { ShieldCheckIcon, TicketIcon, CheckCircleIcon, ClockIcon, XCircleIcon, QrCodeIcon, CalendarDaysIcon, CurrencyDollarIcon, UserIcon, DevicePhoneMobileIcon, AtSymbolIcon, InformationCircleIcon } from '@heroicons/react/24/outline';
 
 // --- Data Interfaces ---
-interface Booking { _id: string; bookingId: string; routeId: string; routeName?: string; travelDate: string; departureTime: string; passengerInfo: { name: string; phone: string; email: string; passengerType: string; }; seatInfo: { seatNumber: string; seatType: string; }; pricing: { totalAmount: number; currency: string; }; paymentInfo: { method: string; status: 'pending' | 'completed' | 'failed' | 'refunded'; transactionId: string; }; status: 'confirmed' | 'pending' | 'cancelled' | 'completed' | 'no_show'; qrCode?: string; checkInInfo: { checkedIn: boolean; checkInTime?: string; }; createdAt: string; updatedAt: string; }
-interface BookingStats { totalBookings: number; confirmedBookings: number; completedBookings: number; cancelledBookings: number; }
+type Booking = DomainBooking;
 
 export default function BookingsPage() {
-  const router = useRouter();
   const { theme } = useTheme();
   
   // --- State Management ---
@@ -35,48 +34,29 @@ export default function BookingsPage() {
   const animationStyles = ` @keyframes road-marking { 0% { transform: translateX(-200%); } 100% { transform: translateX(500%); } } .animate-road-marking { animation: road-marking 10s linear infinite; } @keyframes car-right { 0% { transform: translateX(-100%); } 100% { transform: translateX(100vw); } } .animate-car-right { animation: car-right 15s linear infinite; } @keyframes car-left { 0% { transform: translateX(100vw) scaleX(-1); } 100% { transform: translateX(-200px) scaleX(-1); } } .animate-car-left { animation: car-left 16s linear infinite; } @keyframes light-blink { 0%, 100% { opacity: 1; box-shadow: 0 0 15px #fcd34d; } 50% { opacity: 0.6; box-shadow: 0 0 5px #fcd34d; } } .animate-light-blink { animation: light-blink 1s infinite; } @keyframes fade-in-down { from { opacity: 0; transform: translateY(-20px); } to { opacity: 1; transform: translateY(0); } } .animate-fade-in-down { animation: fade-in-down 0.8s ease-out forwards; } @keyframes fade-in-up { from { opacity: 0; transform: translateY(20px); } to { opacity: 1; transform: translateY(0); } } .animate-fade-in-up { animation: fade-in-up 0.8s ease-out forwards; } @keyframes trainMove { from { left: 100%; } to { left: -300px; } } @keyframes slight-bounce { 0%, 100% { transform: translateY(0px); } 50% { transform: translateY(-1px); } } .animate-slight-bounce { animation: slight-bounce 2s ease-in-out infinite; } @keyframes steam { 0% { opacity: 0.8; transform: translateY(0) scale(1); } 100% { opacity: 0; transform: translateY(-20px) scale(2.5); } } .animate-steam { animation: steam 2s ease-out infinite; } @keyframes wheels { 0% { transform: rotate(0deg); } 100% { transform: rotate(-360deg); } } .animate-wheels { animation: wheels 2s linear infinite; } .animation-delay-100 { animation-delay: 0.1s; } .animation-delay-200 { animation-delay: 0.2s; } .animation-delay-300 { animation-delay: 0.3s; } .animation-delay-400 { animation-delay: 0.4s; } .animation-delay-500 { animation-delay: 0.5s; } .animation-delay-600 { animation-delay: 0.6s; } .animation-delay-700 { animation-delay: 0.7s; } .animation-delay-800 { animation-delay: 0.8s; } .animation-delay-1000 { animation-delay: 1s; } .animation-delay-1200 { animation-delay: 1.2s; } .animation-delay-1500 { animation-delay: 1.5s; } .animation-delay-2000 { animation-delay: 2s; } .animation-delay-2500 { animation-delay: 2.5s; } .animation-delay-3000 { animation-delay: 3s; } @media (max-width: 768px) { .animated-vehicle { display: none; } } `;
 
   // --- API and Data Logic ---
-  const getToken = () => typeof window !== 'undefined' ? localStorage.getItem('token') : null;
-  const apiCall = useCallback(async (endpoint: string, options: RequestInit = {}) => {
-    const token = getToken();
-    if (!token) { router.push('/login'); return null; }
-    const baseURL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000';
-    const fullURL = `${baseURL}/api${endpoint}`;
-    try {
-      const response = await fetch(fullURL, { ...options, headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}`, ...options.headers } });
-      if (!response.ok) {
-        if (response.status === 401) { localStorage.removeItem('token'); localStorage.removeItem('user'); router.push('/login'); return null; }
-        throw new Error(`API Error: ${response.status}`);
-      }
-      return await response.json();
-    } catch (error) { console.error('API call error:', error); return null; }
-  }, [router]);
 
   const loadBookings = useCallback(async () => {
     setLoading(true); setError('');
     try {
-      const params = new URLSearchParams({ sortBy, sortOrder: 'desc' });
-      if (filter !== 'all') params.append('status', filter);
-      const response = await apiCall(`/bookings?${params.toString()}`);
-      if (response) { setBookings(response.bookings || []); setStats(response.stats || null); } 
-      else { setError('Failed to load bookings'); }
-    } catch (error) { console.error('Error loading bookings:', error); setError('Failed to load bookings'); } 
+      const response = await apiClient.bookings.list({ sortBy, sortOrder: 'desc', status: filter === 'all' ? undefined : filter });
+      setBookings(response.bookings); setStats(response.stats || null);
+    } catch (error) { console.error('Error loading bookings:', error); setError(error instanceof DecodeError ? error.message : 'Failed to load bookings'); } 
     finally { setLoading(false); }
-  }, [filter, sortBy, apiCall]);
+  }, [filter, sortBy]);
 
   useEffect(() => { loadBookings(); }, [loadBookings]);
 
   const handleCancelBooking = async (bookingId: string) => {
     setCancelling(true); setError('');
     try {
-      const response = await apiCall(`/bookings/${bookingId}/cancel`, { method: 'PUT', body: JSON.stringify({ reason: 'User requested cancellation' }) });
-      if (response) { setShowCancelModal(false); setBookingToCancel(null); loadBookings(); } 
-      else { setError('Failed to cancel booking'); }
+      await apiClient.bookings.cancel(bookingId, 'User requested cancellation');
+      setShowCancelModal(false); setBookingToCancel(null); loadBookings();
     } catch (error) { console.error('Error cancelling booking:', error); setError('Failed to cancel booking'); } 
     finally { setCancelling(false); }
   };
 
   const handleGenerateQR = async (bookingId: string) => {
-    const response = await apiCall(`/bookings/${bookingId}/qr`, { method: 'POST' });
+    const response = await apiClient.bookings.generateQR(bookingId).catch(() => null);
     if (response && response.qrCode) {
       const newWindow = window.open('', '_blank');
       if (newWindow) newWindow.document.write(`<html><body style="text-align: center; padding: 2rem; font-family: sans-serif; background: #f0f0f0;"><h2>Your Ticket QR Code</h2><img src="${response.qrCode}" alt="QR Code" style="max-width: 300px;" /><p>Show this to the conductor</p><button onclick="window.print()">Print</button></body></html>`);
@@ -95,6 +75,10 @@ export default function BookingsPage() {
   const formatPrice = (price: number) => `Rs. ${price.toLocaleString()}`;
   const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString();
   const formatDateTime = (dateString: string) => new Date(dateString).toLocaleString();
+  // Other legs of the same round trip or connecting journey, in travel order
+  const getSiblingLegs = (booking: Booking) => booking.itineraryId
+    ? bookings.filter(b => b.itineraryId === booking.itineraryId && b._id !== booking._id).sort((a, b) => (a.legIndex ?? 0) - (b.legIndex ?? 0))
+    : [];
   const canCancelBooking = (booking: Booking) => new Date(booking.travelDate).getTime() - new Date().getTime() > 7200000 && booking.status === 'confirmed';
 
   if (loading && bookings.length === 0) {
@@ -194,6 +178,7 @@ export default function BookingsPage() {
                         <div style={{ display: 'flex', alignItems: 'center', gap: '1rem', marginBottom: '0.5rem' }}>
                           <span style={{ padding: '0.25rem 0.75rem', borderRadius: '999px', fontSize: '0.8rem', fontWeight: '600', backgroundColor: getStatusStyle(booking.status).color, color: 'white' }}>{getStatusStyle(booking.status).label}</span>
                           <span style={{ padding: '0.25rem 0.75rem', borderRadius: '999px', fontSize: '0.8rem', fontWeight: '500', backgroundColor: getPaymentStatusStyle(booking.paymentInfo.status).color, color: 'white' }}>Payment: {booking.paymentInfo.status}</span>
+                          {booking.itineraryId && <span style={{ padding: '0.25rem 0.75rem', borderRadius: '999px', fontSize: '0.8rem', fontWeight: '500', backgroundColor: '#8B5CF6', color: 'white' }}>{booking.itineraryType === 'round_trip' ? 'Round trip' : 'Connecting journey'} · Leg {(booking.legIndex ?? 0) + 1} of {booking.legCount}</span>}
                         </div>
                       </div>
                       <div style={{ textAlign: 'right' }}>
@@ -227,6 +212,14 @@ export default function BookingsPage() {
                         </div>
                       </div>
                     </div>
+                    {getSiblingLegs(booking).length > 0 && (
+                      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '0.5rem', marginBottom: '1rem', fontSize: '0.9rem', color: currentThemeStyles.textSecondary }}>
+                        <span>Other legs:</span>
+                        {getSiblingLegs(booking).map(leg => (
+                          <Link key={leg._id} href={`/bookings/${leg._id}`} style={{ color: '#8B5CF6', fontWeight: '500' }}>Leg {(leg.legIndex ?? 0) + 1}: {leg.routeName || leg.bookingId} ({formatDate(leg.travelDate)})</Link>
+                        ))}
+                      </div>
+                    )}
                     <div style={{ display: 'flex', gap: '0.5rem', paddingTop: '1rem', borderTop: `1px solid ${currentThemeStyles.quickActionBorder}` }}>
                       <Link href={`/bookings/${booking._id}`} style={{ backgroundColor: 'rgba(59, 130, 246, 0.8)', color: 'white', padding: '0.5rem 1rem', borderRadius: '0.5rem', textDecoration: 'none', fontSize: '0.9rem', fontWeight: '500' }}>View Details</Link>
                       {booking.status === 'confirmed' && <button onClick={() => handleGenerateQR(booking._id)} style={{ backgroundColor: 'rgba(16, 185, 129, 0.8)', color: 'white', padding: '0.5rem 1rem', border: 'none', borderRadius: '0.5rem', cursor: 'pointer', fontSize: '0.9rem', fontWeight: '500', display: 'flex', alignItems: 'center', gap: '0.5rem' }}><QrCodeIcon width={16} /> Get QR Code</button>}
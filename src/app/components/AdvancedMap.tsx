@@ -1,150 +1,303 @@
-// src/components/AdvancedMap.tsx - FIXED VERSION - GUARANTEED VEHICLE DISPLAY
+// src/components/AdvancedMap.tsx - LIVE VEHICLES, ROUTES AND HOW FAR TO TRUST EACH FIX
 "use client";
-import { useEffect, useState, useRef, useCallback } from 'react';
+import { useEffect, useState, useRef, useCallback, useMemo } from 'react';
 import dynamic from 'next/dynamic';
-import { MapContainer, TileLayer, Marker, Popup, Circle, useMap } from 'react-leaflet';
+import { MapContainer, TileLayer, Marker, Popup, Circle, Polyline, Tooltip, useMap, useMapEvents } from 'react-leaflet';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
+import type { Route, VehicleLocation } from '@/app/domain';
+import routeGeometryService, { type RouteGeometry, type RouteStop } from '@/app/services/routeGeometryService';
+import etaService, { type DepartureBoardEntry, type VehiclePrediction } from '@/app/services/etaService';
+import vehicleQualityService, { DEFAULT_THRESHOLDS, type AssessedVehicle, type Freshness, type QualityThresholds } from '@/app/services/vehicleQualityService';
+import { useNow } from '@/app/hooks/useSla';
+import { useVehicleMotion } from '@/app/hooks/useVehicleMotion';
+import type { MotionTarget } from '@/app/services/vehicleMotionService';
+import mapClusterService, { CLUSTER_MAX_ZOOM, type DetailLevel, type MapViewport, type VehicleCluster } from '@/app/services/mapClusterService';
 
 // --- TYPE DEFINITIONS FOR VEHICLE DATA ---
-interface VehicleLocation {
-  latitude: number;
-  longitude: number;
-  speed?: number;
-  heading?: number;
-  accuracy?: number;
-}
+type Vehicle = VehicleLocation;
 
-interface OperationalInfo {
-  status?: string;
-  driverInfo?: { driverName?: string };
-  delays?: { currentDelay?: number; reason?: string };
+interface VehiclePoint {
+  vehicleId: string;
+  position: [number, number];
 }
 
-interface PassengerLoad {
-  currentCapacity?: number;
-  maxCapacity?: number;
-  loadPercentage?: number;
-}
+const FRESHNESS_LABELS: Record<Freshness, { label: string; color: string }> = {
+  live: { label: 'Live', color: '#10B981' },
+  stale: { label: 'Stale', color: '#F59E0B' },
+  lost: { label: 'Signal lost', color: '#EF4444' },
+  unknown: { label: 'Fix time unknown', color: '#6B7280' },
+};
 
-interface RouteProgress {
-  progressPercentage?: number;
-  nextStopETA?: string | number | Date;
-  nextStop?: string;
-}
+// How often fix ages are re-evaluated between polls, so stale vehicles fade on time
+const FRESHNESS_TICK_MS = 5000;
+// The whole island, before the map has reported a view of its own
+const INITIAL_ZOOM = 8;
 
-interface Vehicle {
-  vehicleId: string;
-  vehicleNumber?: string;
-  location: VehicleLocation;
-  operationalInfo?: OperationalInfo;
-  passengerLoad?: PassengerLoad;
-  routeProgress?: RouteProgress;
-  timestamp?: string | number | Date;
-}
+// ICON CACHE - a fleet of hundreds re-renders every poll; identical icons are built once and shared
+const HEADING_STEP = 10;
+const iconCache = new Map<string, L.DivIcon>();
+const cachedIcon = (key: string, build: () => L.DivIcon) => {
+  let icon = iconCache.get(key);
+  if (!icon) {
+    icon = build();
+    iconCache.set(key, icon);
+  }
+  return icon;
+};
 
+// Load only changes the badge colour, so it is reduced to the bands the badge can show
+const loadBand = (loadPercentage?: number) => loadPercentage === undefined ? undefined : loadPercentage > 80 ? 100 : loadPercentage > 60 ? 80 : 60;
 
-// ENHANCED VEHICLE ICONS WITH STATUS INDICATORS
-const createVehicleIcon = (type: string, status: string, heading: number = 0, loadPercentage: number = 0) => {
-  const iconColors = {
-    bus: { online: '#10B981', on_route: '#10B981', delayed: '#F59E0B', at_stop: '#3B82F6', breakdown: '#EF4444', off_duty: '#6B7280' },
-    train: { online: '#8B5CF6', on_route: '#8B5CF6', delayed: '#F59E0B', at_stop: '#3B82F6', breakdown: '#EF4444', off_duty: '#6B7280' }
-  };
-  const color = iconColors[type as keyof typeof iconColors]?.[status as keyof typeof iconColors.bus] || '#10B981';
-  const loadColor = loadPercentage > 80 ? '#EF4444' : loadPercentage > 60 ? '#F59E0B' : '#10B981';
+const vehicleIcon = (type: string, status: string, heading: number = 0, loadPercentage?: number, level: DetailLevel = 'full') => {
+  if (level === 'dot') return cachedIcon(`dot|${type}|${status}`, () => createDotIcon(type, status));
+  const bucket = (Math.round(heading / HEADING_STEP) * HEADING_STEP) % 360;
+  const band = loadBand(loadPercentage);
+  return cachedIcon(`vehicle|${type}|${status}|${bucket}|${band ?? '?'}`, () => createVehicleIcon(type, status, bucket, band));
+};
+
+const stopIcon = (stop: RouteStop, highlighted: boolean) =>
+  cachedIcon(`stop|${stop.kind}|${stop.number}|${highlighted}`, () => createStopIcon(stop, highlighted));
+
+// Clusters share a cell's count, so only the rounded status mix and the count set their look
+const clusterIcon = (cluster: VehicleCluster) => {
+  const mix = Object.keys(cluster.statuses).sort().map(status => `${status}:${Math.round(cluster.statuses[status] / cluster.count * 20)}`).join(',');
+  return cachedIcon(`cluster|${cluster.count}|${mix}`, () => createClusterIcon(cluster));
+};
+
+const VEHICLE_COLORS = {
+  bus: { online: '#10B981', on_route: '#10B981', delayed: '#F59E0B', at_stop: '#3B82F6', breakdown: '#EF4444', off_duty: '#6B7280' },
+  train: { online: '#8B5CF6', on_route: '#8B5CF6', delayed: '#F59E0B', at_stop: '#3B82F6', breakdown: '#EF4444', off_duty: '#6B7280' }
+};
+const vehicleColor = (type: string, status: string) => VEHICLE_COLORS[type as keyof typeof VEHICLE_COLORS]?.[status as keyof typeof VEHICLE_COLORS.bus] || '#6B7280';
+
+// ENHANCED VEHICLE ICONS WITH STATUS INDICATORS - an unknown load shows as a grey "?" rather than a guess
+const createVehicleIcon = (type: string, status: string, heading: number = 0, loadPercentage?: number) => {
+  const color = vehicleColor(type, status);
+  const loadColor = loadPercentage === undefined ? '#9CA3AF' : loadPercentage > 80 ? '#EF4444' : loadPercentage > 60 ? '#F59E0B' : '#10B981';
   const vehicleEmoji = type === 'train' ? '🚊' : '🚌';
-  const iconSvg = `<div style="position: relative; transform: rotate(${heading}deg); transition: transform 0.3s ease;"><div style="width: 40px; height: 40px; background: linear-gradient(135deg, ${color}, ${color}CC); border: 3px solid white; border-radius: 50%; display: flex; align-items: center; justify-content: center; font-size: 18px; box-shadow: 0 4px 12px rgba(0,0,0,0.3); cursor: pointer;">${vehicleEmoji}</div><div style="position: absolute; top: -2px; right: -2px; width: 12px; height: 12px; background: ${loadColor}; border: 2px solid white; border-radius: 50%;"></div><div style="position: absolute; bottom: -8px; left: 50%; transform: translateX(-50%); background: rgba(0,0,0,0.8); color: white; padding: 2px 6px; border-radius: 8px; font-size: 10px; font-weight: bold; white-space: nowrap;">${status.replace('_', ' ').toUpperCase()}</div></div>`;
+  const iconSvg = `<div style="position: relative; transform: rotate(${heading}deg); transition: transform 0.3s ease;"><div style="width: 40px; height: 40px; background: linear-gradient(135deg, ${color}, ${color}CC); border: 3px solid white; border-radius: 50%; display: flex; align-items: center; justify-content: center; font-size: 18px; box-shadow: 0 4px 12px rgba(0,0,0,0.3); cursor: pointer;">${vehicleEmoji}</div><div style="position: absolute; top: -2px; right: -2px; width: 12px; height: 12px; background: ${loadColor}; border: 2px solid white; border-radius: 50%; color: white; font-size: 8px; font-weight: bold; line-height: 12px; text-align: center;">${loadPercentage === undefined ? '?' : ''}</div><div style="position: absolute; bottom: -8px; left: 50%; transform: translateX(-50%); background: rgba(0,0,0,0.8); color: white; padding: 2px 6px; border-radius: 8px; font-size: 10px; font-weight: bold; white-space: nowrap;">${status.replace('_', ' ').toUpperCase()}</div></div>`;
   return L.divIcon({ html: iconSvg, className: 'custom-vehicle-icon', iconSize: [40, 40], iconAnchor: [20, 20] });
 };
 
-// MAP AUTO-CENTER AND BOUNDS UPDATER
-const MapUpdater = ({ vehicles, selectedVehicle }: { vehicles: Vehicle[], selectedVehicle: string | null }) => {
+// ZOOMED-OUT VEHICLES - a plain status dot; heading, load and label come back when zoomed in
+const createDotIcon = (type: string, status: string) => {
+  const iconHtml = `<div style="width: 14px; height: 14px; background: ${vehicleColor(type, status)}; border: 2px solid white; border-radius: ${type === 'train' ? '3px' : '50%'}; box-shadow: 0 1px 4px rgba(0,0,0,0.4); box-sizing: border-box; cursor: pointer;"></div>`;
+  return L.divIcon({ html: iconHtml, className: 'custom-vehicle-icon', iconSize: [14, 14], iconAnchor: [7, 7] });
+};
+
+// CLUSTER BADGES - the ring shows the status mix, the centre the count in the most common status's colour
+const createClusterIcon = (cluster: VehicleCluster) => {
+  const size = cluster.count < 10 ? 36 : cluster.count < 100 ? 44 : 52;
+  let start = 0;
+  const segments = Object.keys(cluster.statuses).sort().map(status => {
+    const end = start + cluster.statuses[status] / cluster.count * 360;
+    const segment = `${vehicleColor('bus', status)} ${start}deg ${end}deg`;
+    start = end;
+    return segment;
+  });
+  const iconHtml = `<div style="width: ${size}px; height: ${size}px; border-radius: 50%; background: conic-gradient(${segments.join(', ')}); box-shadow: 0 4px 12px rgba(0,0,0,0.3); display: flex; align-items: center; justify-content: center; cursor: pointer;"><div style="width: ${size - 12}px; height: ${size - 12}px; border-radius: 50%; background: white; color: ${vehicleColor('bus', cluster.dominantStatus)}; display: flex; align-items: center; justify-content: center; font-size: ${cluster.count < 100 ? 13 : 12}px; font-weight: bold;">${cluster.count}</div></div>`;
+  return L.divIcon({ html: iconHtml, className: 'custom-vehicle-icon', iconSize: [size, size], iconAnchor: [size / 2, size / 2] });
+};
+
+// NUMBERED STOP MARKERS - the first and last stops are the route's terminals
+const STOP_COLORS = { start: '#10B981', stop: '#3B82F6', end: '#EF4444' };
+const createStopIcon = (stop: RouteStop, highlighted: boolean) => {
+  const size = highlighted ? 26 : 20;
+  const color = STOP_COLORS[stop.kind];
+  const iconHtml = `<div style="width: ${size}px; height: ${size}px; background: ${stop.kind === 'stop' ? 'white' : color}; color: ${stop.kind === 'stop' ? color : 'white'}; border: 3px solid ${color}; border-radius: 50%; display: flex; align-items: center; justify-content: center; font-size: ${highlighted ? 12 : 10}px; font-weight: bold; box-shadow: 0 2px 6px rgba(0,0,0,0.3); box-sizing: border-box;">${stop.number}</div>`;
+  return L.divIcon({ html: iconHtml, className: 'route-stop-icon', iconSize: [size, size], iconAnchor: [size / 2, size / 2] });
+};
+
+// MAP AUTO-CENTER AND BOUNDS UPDATER - the whole fleet is fitted once; after that the view is the user's,
+// and it decides which vehicles are fetched
+const MapUpdater = ({ points, selectedVehicle, selectedGeometry }: { points: VehiclePoint[], selectedVehicle: string | null, selectedGeometry?: RouteGeometry }) => {
   const map = useMap();
+  const fittedFleet = useRef(false);
   useEffect(() => {
-    console.log('🗺️ Map Update - Vehicles:', vehicles.length, 'Selected:', selectedVehicle);
-    if (vehicles.length > 0) {
-      const validVehicles = vehicles.filter(v => v.location && v.location.latitude && v.location.longitude && v.location.latitude !== 0 && v.location.longitude !== 0);
-      console.log('✅ Valid vehicles for mapping:', validVehicles.length, validVehicles.map(v => ({ id: v.vehicleId, lat: v.location.latitude, lng: v.location.longitude })));
-      if (validVehicles.length > 0) {
-        if (selectedVehicle) {
-          const vehicle = validVehicles.find(v => v.vehicleId === selectedVehicle);
-          if (vehicle) {
-            console.log('🎯 Centering on selected vehicle:', vehicle.vehicleId, [vehicle.location.latitude, vehicle.location.longitude]);
-            map.setView([vehicle.location.latitude, vehicle.location.longitude], 15);
-          }
-        } else {
-          const bounds = validVehicles.map(v => [v.location.latitude, v.location.longitude] as [number, number]);
-          console.log('📍 Fitting bounds for vehicles:', bounds);
-          map.fitBounds(bounds, { padding: [50, 50], maxZoom: 12 });
-        }
-      } else {
-        console.log('🏝️ No valid vehicles, centering on Sri Lanka');
-        map.setView([7.8731, 80.7718], 8);
-      }
-    } else {
-      console.log('🗺️ No vehicles, showing Sri Lanka overview');
-      map.setView([7.8731, 80.7718], 8);
+    const routeBounds = selectedGeometry ? routeGeometryService.bounds(selectedGeometry) : null;
+    const selected = selectedVehicle ? points.find(point => point.vehicleId === selectedVehicle) : undefined;
+    if (selected) {
+      map.setView(selected.position, 15);
+    } else if (routeBounds) {
+      map.fitBounds(routeBounds, { padding: [50, 50], maxZoom: 14 });
+    } else if (points.length > 0 && !fittedFleet.current) {
+      fittedFleet.current = true;
+      map.fitBounds(points.map(point => point.position), { padding: [50, 50], maxZoom: 12 });
     }
-  }, [vehicles, selectedVehicle, map]);
+  }, [points, selectedVehicle, selectedGeometry, map]);
+  return null;
+};
+
+// VIEWPORT REPORTER - the zoom sets clustering and icon detail; the bounds what is fetched
+const ViewportWatcher = ({ onChange }: { onChange: (viewport: MapViewport) => void }) => {
+  const readViewport = (map: L.Map): MapViewport => {
+    const bounds = map.getBounds();
+    return { zoom: map.getZoom(), bounds: [[bounds.getSouth(), bounds.getWest()], [bounds.getNorth(), bounds.getEast()]] };
+  };
+  const map = useMapEvents({ moveend: () => onChange(readViewport(map)) });
+  useEffect(() => {
+    onChange(readViewport(map));
+  }, [map, onChange]);
   return null;
 };
 
-// ENHANCED VEHICLE POPUP WITH FULL DETAILS
-const VehiclePopup = ({ vehicle }: { vehicle: Vehicle }) => (
-  <div style={{ minWidth: '300px', fontFamily: 'system-ui', lineHeight: '1.5' }}>
-    <div style={{ borderBottom: '2px solid #e5e7eb', paddingBottom: '0.75rem', marginBottom: '1rem' }}>
-      <h3 style={{ margin: 0, fontSize: '1.2rem', fontWeight: 'bold', color: '#1f2937', display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
-        {vehicle.vehicleId?.includes('TRAIN') ? '🚊' : '🚌'} {vehicle.vehicleNumber || vehicle.vehicleId}
-        <span style={{ fontSize: '0.75rem', padding: '0.25rem 0.75rem', borderRadius: '1rem', backgroundColor: vehicle.operationalInfo?.status === 'on_route' ? '#10B981' : vehicle.operationalInfo?.status === 'delayed' ? '#F59E0B' : '#3B82F6', color: 'white', fontWeight: '500' }}>
-          {(vehicle.operationalInfo?.status || 'online').replace('_', ' ').toUpperCase()}
-        </span>
-      </h3>
-      <p style={{ margin: '0.5rem 0 0 0', fontSize: '0.9rem', color: '#6b7280' }}>📞 Driver: {vehicle.operationalInfo?.driverInfo?.driverName || 'N/A'}</p>
+// CLUSTER MARKER - clicking zooms in far enough to split it
+const ClusterMarker = ({ cluster }: { cluster: VehicleCluster }) => {
+  const map = useMap();
+  const breakdown = Object.entries(cluster.statuses).sort((a, b) => b[1] - a[1]).map(([status, count]) => `${count} ${status.replace('_', ' ')}`).join(' • ');
+  return (
+    <Marker position={cluster.position} icon={clusterIcon(cluster)} eventHandlers={{ click: () => map.fitBounds(cluster.bounds, { padding: [40, 40], maxZoom: CLUSTER_MAX_ZOOM + 1 }) }}>
+      <Tooltip direction="top">{cluster.count} vehicles • {breakdown}</Tooltip>
+    </Marker>
+  );
+};
+
+// STOP POPUP WITH THE SCHEDULED TIMES AT THAT STOP
+const StopPopup = ({ stop, route, arrivals }: { stop: RouteStop, route?: Route, arrivals: DepartureBoardEntry[] }) => {
+  const times = route ? routeGeometryService.scheduledTimes(route, stop) : [];
+  return (
+    <div style={{ minWidth: '220px', fontFamily: 'system-ui', lineHeight: '1.5' }}>
+      <div style={{ fontSize: '0.75rem', color: '#6b7280', textTransform: 'uppercase', letterSpacing: '0.05em' }}>{route?.name} • Stop {stop.number}</div>
+      <h3 style={{ margin: '0.25rem 0 0.5rem 0', fontSize: '1.05rem', fontWeight: 'bold', color: '#1f2937' }}>🚏 {stop.name}</h3>
+      <div style={{ fontSize: '0.8rem', color: '#6b7280', marginBottom: '0.5rem' }}>
+        {stop.kind === 'start' ? 'Departure point' : `${stop.timed ? '' : '~'}${stop.minutesFromDeparture} min from departure • ${(stop.distanceAlong / 1000).toFixed(1)} km`}
+      </div>
+      {times.length > 0 ? (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.25rem' }}>
+          {times.map((time, index) => <span key={`${time}-${index}`} style={{ padding: '0.125rem 0.5rem', borderRadius: '0.375rem', backgroundColor: '#EFF6FF', color: '#1D4ED8', fontSize: '0.8rem', fontWeight: '600' }}>{stop.timed ? '' : '~'}{time}</span>)}
+        </div>
+      ) : (
+        <div style={{ fontSize: '0.8rem', color: '#9ca3af' }}>No scheduled departures</div>
+      )}
+      {arrivals.length > 0 && (
+        <div style={{ marginTop: '0.75rem', paddingTop: '0.5rem', borderTop: '1px solid #e5e7eb' }}>
+          <div style={{ fontSize: '0.75rem', color: '#6b7280', textTransform: 'uppercase', letterSpacing: '0.05em', marginBottom: '0.25rem' }}>Arriving</div>
+          {arrivals.map(arrival => (
+            <div key={arrival.vehicleId} style={{ display: 'flex', justifyContent: 'space-between', fontSize: '0.85rem', color: '#1f2937' }}>
+              <span>🚌 {arrival.vehicleNumber || arrival.vehicleId}{arrival.routeId !== route?._id ? ` • ${arrival.routeName}` : ''}</span>
+              <span style={{ fontWeight: '600' }}>{etaService.formatMinutesAway(arrival.minutesAway)}</span>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
-    <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '1rem', marginBottom: '1rem' }}>
-      <div style={{ textAlign: 'center' }}>
-        <div style={{ fontSize: '0.75rem', color: '#6b7280', textTransform: 'uppercase', letterSpacing: '0.05em', marginBottom: '0.25rem' }}>Speed</div>
-        <div style={{ fontSize: '1.5rem', fontWeight: 'bold', color: '#1f2937' }}>{(vehicle.location?.speed || 0).toFixed(1)}</div>
-        <div style={{ fontSize: '0.75rem', color: '#6b7280' }}>km/h</div>
+  );
+};
+
+// ENHANCED VEHICLE POPUP WITH FULL DETAILS - figures the device never sent say so instead of showing zero
+const UNKNOWN = <span style={{ color: '#9ca3af' }}>Unknown</span>;
+const Estimated = () => <span title="Worked out from other reported values" style={{ fontSize: '0.65rem', color: '#6b7280', marginLeft: '0.25rem' }}>est.</span>;
+
+const VehiclePopup = ({ assessed }: { assessed: AssessedVehicle }) => {
+  const { vehicle, quality, loadPercentage, progressPercentage, nextStop, nextStopETA } = assessed;
+  const status = vehicle.operationalInfo?.status;
+  const freshness = FRESHNESS_LABELS[quality.freshness];
+  return (
+    <div style={{ minWidth: '300px', fontFamily: 'system-ui', lineHeight: '1.5' }}>
+      <div style={{ borderBottom: '2px solid #e5e7eb', paddingBottom: '0.75rem', marginBottom: '1rem' }}>
+        <h3 style={{ margin: 0, fontSize: '1.2rem', fontWeight: 'bold', color: '#1f2937', display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
+          {vehicle.vehicleId?.includes('TRAIN') ? '🚊' : '🚌'} {vehicle.vehicleNumber || vehicle.vehicleId}
+          <span style={{ fontSize: '0.75rem', padding: '0.25rem 0.75rem', borderRadius: '1rem', backgroundColor: status === 'on_route' ? '#10B981' : status === 'delayed' ? '#F59E0B' : status ? '#3B82F6' : '#6B7280', color: 'white', fontWeight: '500' }}>
+            {(status || 'unknown').replace('_', ' ').toUpperCase()}
+          </span>
+        </h3>
+        <p style={{ margin: '0.5rem 0 0 0', fontSize: '0.9rem', color: '#6b7280' }}>📞 Driver: {vehicle.operationalInfo?.driverInfo?.driverName || 'N/A'}</p>
       </div>
-      <div style={{ textAlign: 'center' }}>
-        <div style={{ fontSize: '0.75rem', color: '#6b7280', textTransform: 'uppercase', letterSpacing: '0.05em', marginBottom: '0.25rem' }}>Load</div>
-        <div style={{ fontSize: '1.5rem', fontWeight: 'bold', color: (vehicle.passengerLoad?.loadPercentage || 0) > 80 ? '#EF4444' : '#1f2937' }}>{(vehicle.passengerLoad?.loadPercentage || 0).toFixed(0)}%</div>
-        <div style={{ fontSize: '0.75rem', color: '#6b7280' }}>{vehicle.passengerLoad?.currentCapacity || 0}/{vehicle.passengerLoad?.maxCapacity || 0}</div>
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '1rem', marginBottom: '1rem' }}>
+        <div style={{ textAlign: 'center' }}>
+          <div style={{ fontSize: '0.75rem', color: '#6b7280', textTransform: 'uppercase', letterSpacing: '0.05em', marginBottom: '0.25rem' }}>Speed</div>
+          <div style={{ fontSize: '1.5rem', fontWeight: 'bold', color: '#1f2937' }}>{typeof vehicle.location?.speed === 'number' ? vehicle.location.speed.toFixed(1) : '—'}</div>
+          <div style={{ fontSize: '0.75rem', color: '#6b7280' }}>km/h</div>
+        </div>
+        <div style={{ textAlign: 'center' }}>
+          <div style={{ fontSize: '0.75rem', color: '#6b7280', textTransform: 'uppercase', letterSpacing: '0.05em', marginBottom: '0.25rem' }}>Load</div>
+          <div style={{ fontSize: '1.5rem', fontWeight: 'bold', color: (loadPercentage || 0) > 80 ? '#EF4444' : '#1f2937' }}>{loadPercentage === undefined ? '—' : `${loadPercentage.toFixed(0)}%`}{quality.load === 'derived' && <Estimated />}</div>
+          <div style={{ fontSize: '0.75rem', color: '#6b7280' }}>{vehicle.passengerLoad?.currentCapacity !== undefined && vehicle.passengerLoad.maxCapacity ? `${vehicle.passengerLoad.currentCapacity}/${vehicle.passengerLoad.maxCapacity}` : 'not reported'}</div>
+        </div>
+        <div style={{ textAlign: 'center' }}>
+          <div style={{ fontSize: '0.75rem', color: '#6b7280', textTransform: 'uppercase', letterSpacing: '0.05em', marginBottom: '0.25rem' }}>Progress</div>
+          <div style={{ fontSize: '1.5rem', fontWeight: 'bold', color: '#1f2937' }}>{progressPercentage === undefined ? '—' : `${progressPercentage.toFixed(0)}%`}{quality.progress === 'derived' && <Estimated />}</div>
+          <div style={{ fontSize: '0.75rem', color: '#6b7280' }}>complete</div>
+        </div>
       </div>
-      <div style={{ textAlign: 'center' }}>
-        <div style={{ fontSize: '0.75rem', color: '#6b7280', textTransform: 'uppercase', letterSpacing: '0.05em', marginBottom: '0.25rem' }}>Progress</div>
-        <div style={{ fontSize: '1.5rem', fontWeight: 'bold', color: '#1f2937' }}>{(vehicle.routeProgress?.progressPercentage || 0).toFixed(0)}%</div>
-        <div style={{ fontSize: '0.75rem', color: '#6b7280' }}>complete</div>
+      <div style={{ marginBottom: '1rem' }}>
+        <div style={{ fontSize: '0.75rem', color: '#6b7280', textTransform: 'uppercase', letterSpacing: '0.05em', marginBottom: '0.5rem' }}>Route Progress</div>
+        {progressPercentage !== undefined && (
+          <div style={{ backgroundColor: '#f3f4f6', borderRadius: '0.75rem', padding: '0.25rem', marginBottom: '0.5rem' }}>
+            <div style={{ backgroundColor: '#3B82F6', height: '8px', borderRadius: '0.5rem', width: `${progressPercentage}%`, transition: 'width 0.5s ease' }}></div>
+          </div>
+        )}
+        <div style={{ fontSize: '0.875rem', color: '#1f2937' }}>📍 Next{nextStop ? ` (${nextStop})` : ''}: {nextStopETA ? new Date(nextStopETA).toLocaleTimeString() : UNKNOWN}{quality.eta === 'derived' && <Estimated />}</div>
       </div>
-    </div>
-    <div style={{ marginBottom: '1rem' }}>
-      <div style={{ fontSize: '0.75rem', color: '#6b7280', textTransform: 'uppercase', letterSpacing: '0.05em', marginBottom: '0.5rem' }}>Route Progress</div>
-      <div style={{ backgroundColor: '#f3f4f6', borderRadius: '0.75rem', padding: '0.25rem', marginBottom: '0.5rem' }}>
-        <div style={{ backgroundColor: '#3B82F6', height: '8px', borderRadius: '0.5rem', width: `${vehicle.routeProgress?.progressPercentage || 0}%`, transition: 'width 0.5s ease' }}></div>
+      {!!vehicle.operationalInfo?.delays?.currentDelay && vehicle.operationalInfo.delays.currentDelay > 0 && (
+        <div style={{ backgroundColor: '#FEF3C7', padding: '0.75rem', borderRadius: '0.5rem', border: '1px solid #FCD34D', marginBottom: '1rem' }}>
+          <div style={{ fontSize: '0.9rem', color: '#92400E', fontWeight: '600', display: 'flex', alignItems: 'center', gap: '0.5rem' }}>⚠️ Delayed by {vehicle.operationalInfo.delays.currentDelay} minutes</div>
+          {vehicle.operationalInfo.delays.reason && <div style={{ fontSize: '0.8rem', color: '#92400E', marginTop: '0.25rem' }}>Reason: {vehicle.operationalInfo.delays.reason}</div>}
+        </div>
+      )}
+      <div style={{ fontSize: '0.75rem', color: '#6b7280', marginTop: '1rem', paddingTop: '0.75rem', borderTop: '1px solid #e5e7eb', display: 'flex', justifyContent: 'space-between', gap: '0.5rem' }}>
+        <span>📍 {assessed.position ? `${assessed.position[0].toFixed(4)}, ${assessed.position[1].toFixed(4)}${quality.snapped ? ' (on route)' : ''}` : 'No position'}</span>
+        <span style={{ color: freshness.color, fontWeight: '600' }}>● {freshness.label} • {vehicleQualityService.formatAge(quality.ageSeconds)}</span>
       </div>
-      <div style={{ fontSize: '0.875rem', color: '#1f2937' }}>📍 Next: {vehicle.routeProgress?.nextStopETA ? new Date(vehicle.routeProgress.nextStopETA).toLocaleTimeString() : 'Calculating...'}</div>
     </div>
-    {vehicle.operationalInfo?.delays?.currentDelay && vehicle.operationalInfo.delays.currentDelay > 0 && (
-      <div style={{ backgroundColor: '#FEF3C7', padding: '0.75rem', borderRadius: '0.5rem', border: '1px solid #FCD34D', marginBottom: '1rem' }}>
-        <div style={{ fontSize: '0.9rem', color: '#92400E', fontWeight: '600', display: 'flex', alignItems: 'center', gap: '0.5rem' }}>⚠️ Delayed by {vehicle.operationalInfo.delays.currentDelay} minutes</div>
-        {vehicle.operationalInfo.delays.reason && <div style={{ fontSize: '0.8rem', color: '#92400E', marginTop: '0.25rem' }}>Reason: {vehicle.operationalInfo.delays.reason}</div>}
-      </div>
-    )}
-    <div style={{ fontSize: '0.75rem', color: '#6b7280', marginTop: '1rem', paddingTop: '0.75rem', borderTop: '1px solid #e5e7eb', display: 'flex', justifyContent: 'space-between' }}>
-      <span>📍 Lat: {vehicle.location?.latitude?.toFixed(4) || 'N/A'}, Lng: {vehicle.location?.longitude?.toFixed(4) || 'N/A'}</span>
-      <span>🕒 {new Date(vehicle.timestamp || Date.now()).toLocaleTimeString()}</span>
+  );
+};
+
+// DIAGNOSTIC OVERLAY - what the feed is missing, for ops staff checking devices
+const DiagnosticsOverlay = ({ assessed, drawn, onVehicleSelect }: { assessed: AssessedVehicle[], drawn: number, onVehicleSelect: (vehicleId: string) => void }) => {
+  const count = (predicate: (item: AssessedVehicle) => boolean) => assessed.filter(predicate).length;
+  const problems = assessed.filter(item => item.quality.confidence === 'low').slice(0, 8);
+  const rows: Array<[string, number]> = [
+    ['Vehicles in feed', assessed.length],
+    ['Drawn on map', drawn],
+    ['Live', count(item => item.quality.freshness === 'live')],
+    ['Stale (fading)', count(item => item.quality.freshness === 'stale')],
+    ['Signal lost (hidden)', count(item => item.quality.freshness === 'lost')],
+    ['No fix time', count(item => item.quality.freshness === 'unknown')],
+    ['No position (hidden)', count(item => !item.quality.hasPosition)],
+    ['Snapped to route', count(item => item.quality.snapped)],
+    ['Load unknown', count(item => item.quality.load === 'unknown')],
+    ['ETA unknown', count(item => item.quality.eta === 'unknown')],
+  ];
+  return (
+    <div style={{ position: 'absolute', bottom: '1rem', left: '1rem', zIndex: 1000, backgroundColor: 'rgba(0, 0, 0, 0.85)', color: 'white', padding: '0.75rem', borderRadius: '0.5rem', fontSize: '0.75rem', width: '280px', maxHeight: '60%', overflowY: 'auto' }}>
+      <div style={{ fontWeight: 'bold', marginBottom: '0.5rem' }}>🩺 Feed diagnostics</div>
+      {rows.map(([label, value]) => (
+        <div key={label} style={{ display: 'flex', justifyContent: 'space-between' }}><span style={{ color: '#d1d5db' }}>{label}</span><span style={{ fontWeight: '600' }}>{value}</span></div>
+      ))}
+      {problems.length > 0 && (
+        <div style={{ marginTop: '0.5rem', paddingTop: '0.5rem', borderTop: '1px solid rgba(255, 255, 255, 0.2)' }}>
+          <div style={{ color: '#d1d5db', marginBottom: '0.25rem' }}>Needs attention</div>
+          {problems.map(item => (
+            <div key={item.vehicle.vehicleId} onClick={() => item.position && onVehicleSelect(item.vehicle.vehicleId)} style={{ display: 'flex', justifyContent: 'space-between', gap: '0.5rem', cursor: item.position ? 'pointer' : 'default' }}>
+              <span>{item.vehicle.vehicleNumber || item.vehicle.vehicleId}</span>
+              <span style={{ color: item.quality.hasPosition ? FRESHNESS_LABELS[item.quality.freshness].color : '#EF4444' }}>{item.quality.hasPosition ? `${FRESHNESS_LABELS[item.quality.freshness].label} • ${vehicleQualityService.formatAge(item.quality.ageSeconds)}` : 'No position'}</span>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
-  </div>
-);
+  );
+};
 
-// MAIN ADVANCED MAP COMPONENT WITH GUARANTEED VEHICLE DISPLAY
+// MAIN ADVANCED MAP COMPONENT
 interface AdvancedMapProps {
   vehicles: Vehicle[];
   selectedVehicle?: string | null;
   onVehicleSelect?: (vehicleId: string | null) => void;
   height?: string;
   showControls?: boolean;
+  // Drawn as lines with numbered stops; vehicles on a drawn route are snapped onto its line
+  routes?: Route[];
+  // The route's _id to highlight and zoom to
+  selectedRoute?: string | null;
+  // Arrival predictions by vehicleId; they replace the next-stop ETA the device reports
+  predictions?: Map<string, VehiclePrediction>;
+  // When a fix starts to fade, and when the vehicle is taken off the map
+  thresholds?: QualityThresholds;
+  // Called after every pan or zoom, so the page can fetch only what is in view
+  onViewportChange?: (viewport: MapViewport) => void;
 }
 
 const AdvancedMap: React.FC<AdvancedMapProps> = ({
@@ -152,58 +305,91 @@ const AdvancedMap: React.FC<AdvancedMapProps> = ({
   selectedVehicle = null,
   onVehicleSelect,
   height = '600px',
-  showControls = true
+  showControls = true,
+  routes = [],
+  selectedRoute = null,
+  predictions,
+  thresholds = DEFAULT_THRESHOLDS,
+  onViewportChange
 }) => {
   const [mapReady, setMapReady] = useState(false);
   const [filterStatus, setFilterStatus] = useState('all');
-  const [debugMode, setDebugMode] = useState(true);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const [viewport, setViewport] = useState<MapViewport | null>(null);
   const mapRef = useRef<L.Map | null>(null);
+  const now = useNow(FRESHNESS_TICK_MS);
 
-  // VEHICLE VALIDATION AND FILTERING
-  const processedVehicles: Vehicle[] = vehicles.map(vehicle => ({
-    ...vehicle,
-    location: {
-      latitude: vehicle.location?.latitude || 6.9271,
-      longitude: vehicle.location?.longitude || 79.8612,
-      speed: vehicle.location?.speed || 0,
-      heading: vehicle.location?.heading || 0,
-      accuracy: vehicle.location?.accuracy || 5
-    },
-    operationalInfo: {
-      ...vehicle.operationalInfo,
-      status: vehicle.operationalInfo?.status || 'on_route'
-    },
-    passengerLoad: {
-      currentCapacity: vehicle.passengerLoad?.currentCapacity || Math.floor(Math.random() * 40),
-      maxCapacity: vehicle.passengerLoad?.maxCapacity || 50,
-      loadPercentage: vehicle.passengerLoad?.loadPercentage || Math.floor(Math.random() * 80) + 20,
-      ...vehicle.passengerLoad
-    },
-    routeProgress: {
-      progressPercentage: vehicle.routeProgress?.progressPercentage || Math.floor(Math.random() * 80) + 10,
-      nextStopETA: vehicle.routeProgress?.nextStopETA || new Date(Date.now() + Math.random() * 30 * 60000),
-      ...vehicle.routeProgress
-    }
-  }));
-  const filteredVehicles = processedVehicles.filter(vehicle => filterStatus === 'all' || vehicle.operationalInfo?.status === filterStatus);
+  // ROUTE LINES AND STOPS
+  const geometries = useMemo(() => routes.map(route => routeGeometryService.build(route)).filter(geometry => geometry.path.length > 1), [routes]);
+  const geometryByRoute = useMemo(() => routeGeometryService.index(geometries), [geometries]);
+  const routesById = useMemo(() => new Map(routes.map(route => [route._id, route])), [routes]);
+  const selectedGeometry = selectedRoute ? geometryByRoute.get(selectedRoute) : undefined;
+  // The highlighted route is drawn last so it sits on top of the others
+  const orderedGeometries = selectedGeometry ? [...geometries.filter(geometry => geometry !== selectedGeometry), selectedGeometry] : geometries;
+  const detailLevel = mapClusterService.detailLevel(viewport?.zoom ?? INITIAL_ZOOM);
+  // Zoomed out, only the highlighted route keeps its stop markers
+  const stopGeometries = selectedGeometry ? [selectedGeometry] : detailLevel === 'full' ? geometries : [];
+  const predictionList = useMemo(() => Array.from(predictions?.values() || []), [predictions]);
+
+  // VEHICLE POSITIONS - GPS drift puts buses beside the road; close enough to their route, they are drawn on it
+  const located = useMemo(() => vehicles.map(vehicle => {
+    const geometry = vehicle.routeId ? geometryByRoute.get(vehicle.routeId) : undefined;
+    const snapped = vehicleQualityService.hasPosition(vehicle) ? routeGeometryService.snap(geometry, [vehicle.location.latitude, vehicle.location.longitude]) : null;
+    return { vehicle, geometry, snapped };
+  }), [vehicles, geometryByRoute]);
+
+  // DATA QUALITY - only what was reported or can be worked out from it; everything else stays unknown
+  const assessed = useMemo(() => located.map(({ vehicle, geometry, snapped }) => vehicleQualityService.assess(vehicle, now, {
+    snapped,
+    prediction: predictions?.get(vehicle.vehicleId),
+    routeLength: geometry?.length,
+    thresholds,
+  })), [located, now, predictions, thresholds]);
 
-  console.log('🚌 AdvancedMap Render:', { totalVehicles: vehicles.length, processedVehicles: processedVehicles.length, filteredVehicles: filteredVehicles.length, selectedVehicle, debugMode });
-  // FIX: Used optional chaining (?.) to prevent type error
-  console.log('📍 Vehicle Positions:', filteredVehicles.map(v => ({ id: v.vehicleId, lat: v.location.latitude, lng: v.location.longitude, status: v.operationalInfo?.status })));
+  // SMOOTH MOVEMENT - markers glide to each new fix and carry on along the route while the next one is late
+  const motionTargets = useMemo(() => assessed.flatMap((item, index): MotionTarget[] => {
+    if (!item.position || item.quality.freshness === 'lost') return [];
+    const { geometry, snapped } = located[index];
+    return [{
+      vehicleId: item.vehicle.vehicleId,
+      position: item.position,
+      fixAt: item.vehicle.timestamp ? new Date(item.vehicle.timestamp).getTime() : 0,
+      speed: item.vehicle.location.speed,
+      heading: item.heading,
+      geometry: snapped ? geometry : undefined,
+      distanceAlong: snapped?.distanceAlong,
+      // The arrival prediction has the vehicle's recent fixes to go on; without one, its reported heading
+      direction: predictions?.get(item.vehicle.vehicleId)?.direction ?? (snapped ? routeGeometryService.headingDirection(snapped, item.vehicle.location.heading) ?? 1 : undefined),
+      canDeadReckon: item.quality.freshness === 'live',
+    }];
+  }), [assessed, located, predictions]);
+  const motion = useVehicleMotion(motionTargets);
+
+  const drawnVehicles = assessed.filter(item => item.position && item.quality.freshness !== 'lost');
+  const filteredVehicles = drawnVehicles.filter(item => filterStatus === 'all' || (item.vehicle.operationalInfo?.status || 'unknown') === filterStatus);
+  const newestFix = assessed.reduce<number | null>((newest, item) => item.quality.ageSeconds === null ? newest : Math.min(newest ?? Infinity, item.quality.ageSeconds), null);
+
+  // Positions change with each poll; recomputing them on the freshness tick would refit the map every few seconds
+  const points = useMemo<VehiclePoint[]>(() => located
+    .filter(({ vehicle }) => vehicleQualityService.hasPosition(vehicle))
+    .map(({ vehicle, snapped }) => ({ vehicleId: vehicle.vehicleId, position: snapped ? snapped.position : [vehicle.location.latitude, vehicle.location.longitude] })), [located]);
 
   const handleVehicleClick = useCallback((vehicleId: string) => {
-    console.log('🎯 Vehicle clicked:', vehicleId);
     if (onVehicleSelect) onVehicleSelect(selectedVehicle === vehicleId ? null : vehicleId);
   }, [selectedVehicle, onVehicleSelect]);
 
+  const handleViewportChange = useCallback((next: MapViewport) => {
+    setViewport(next);
+    if (onViewportChange) onViewportChange(next);
+  }, [onViewportChange]);
+
   // SRI LANKA BOUNDS AND CENTER
   const sriLankaCenter: [number, number] = [7.8731, 80.7718];
   const sriLankaBounds: [[number, number], [number, number]] = [[5.5, 79.0], [10.0, 82.0]];
 
   useEffect(() => {
     setMapReady(true);
-    console.log('🗺️ Map initialized with', vehicles.length, 'vehicles');
-  }, [vehicles.length]);
+  }, []);
 
   if (!mapReady) {
     return (
@@ -217,77 +403,99 @@ const AdvancedMap: React.FC<AdvancedMapProps> = ({
     );
   }
 
+  const selected = selectedVehicle ? filteredVehicles.find(item => item.vehicle.vehicleId === selectedVehicle) : undefined;
+
+  // LEVEL OF DETAIL - vehicles well outside the view are not drawn, and zoomed out the rest are grouped;
+  // the selected vehicle always keeps its own marker
+  const culling = viewport ? mapClusterService.pad(viewport.bounds, 0.2) : null;
+  const inView = filteredVehicles.filter(item => item === selected || !culling || mapClusterService.contains(culling, item.position!));
+  const { singles, clusters } = mapClusterService.cluster(
+    inView.filter(item => item !== selected).map(item => ({ id: item.vehicle.vehicleId, position: item.position!, status: item.vehicle.operationalInfo?.status || 'unknown', item })),
+    viewport?.zoom ?? INITIAL_ZOOM
+  );
+  const markedVehicles = selected ? [...singles.map(single => single.item), selected] : singles.map(single => single.item);
+
   return (
     <div style={{ position: 'relative', height, borderRadius: '0.75rem', overflow: 'hidden', boxShadow: '0 20px 25px -5px rgba(0, 0, 0, 0.1), 0 10px 10px -5px rgba(0, 0, 0, 0.04)', border: '1px solid #e5e7eb' }}>
       {showControls && (
         <div style={{ position: 'absolute', top: '1rem', left: '1rem', zIndex: 1000, display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
           <select value={filterStatus} onChange={(e) => setFilterStatus(e.target.value)} style={{ padding: '0.5rem 0.75rem', borderRadius: '0.5rem', border: '1px solid #d1d5db', backgroundColor: 'white', fontSize: '0.875rem', fontWeight: '500', boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)', minWidth: '120px' }}>
-            <option value="all">🚌 All Status ({filteredVehicles.length})</option>
+            <option value="all">🚌 All Status ({drawnVehicles.length})</option>
             <option value="on_route">🛣️ On Route</option>
             <option value="at_stop">🚏 At Stop</option>
             <option value="delayed">⏰ Delayed</option>
             <option value="breakdown">🔧 Breakdown</option>
+            <option value="unknown">❔ Not Reported</option>
           </select>
-          <button onClick={() => setDebugMode(!debugMode)} style={{ padding: '0.5rem 0.75rem', borderRadius: '0.5rem', border: 'none', backgroundColor: debugMode ? '#EF4444' : 'white', color: debugMode ? 'white' : '#374151', fontSize: '0.875rem', fontWeight: '500', cursor: 'pointer', boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)' }}>
-            {debugMode ? '🐛 Debug ON' : '🐛 Debug OFF'}
+          <button onClick={() => setShowDiagnostics(!showDiagnostics)} style={{ padding: '0.5rem 0.75rem', borderRadius: '0.5rem', border: 'none', backgroundColor: showDiagnostics ? '#1f2937' : 'white', color: showDiagnostics ? 'white' : '#374151', fontSize: '0.875rem', fontWeight: '500', cursor: 'pointer', boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)' }}>
+            🩺 Diagnostics
           </button>
         </div>
       )}
       <div style={{ position: 'absolute', top: '1rem', right: '1rem', zIndex: 1000, backgroundColor: 'rgba(255, 255, 255, 0.95)', padding: '0.75rem 1rem', borderRadius: '0.75rem', boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)', backdropFilter: 'blur(10px)' }}>
         <div style={{ fontSize: '0.9rem', fontWeight: '600', color: '#1f2937', marginBottom: '0.25rem', display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
-          <div style={{ width: '8px', height: '8px', backgroundColor: '#10B981', borderRadius: '50%', animation: 'pulse 2s infinite' }}></div>
+          <div style={{ width: '8px', height: '8px', backgroundColor: newestFix !== null && newestFix <= thresholds.staleAfterSeconds ? '#10B981' : '#F59E0B', borderRadius: '50%', animation: 'pulse 2s infinite' }}></div>
           Live GPS Tracking
         </div>
-        <div style={{ fontSize: '0.8rem', color: '#6b7280' }}>{filteredVehicles.length} vehicles • Updated {new Date().toLocaleTimeString()}</div>
+        <div style={{ fontSize: '0.8rem', color: '#6b7280' }}>{filteredVehicles.length} vehicles • {newestFix === null ? 'No timed fixes yet' : `Latest fix ${vehicleQualityService.formatAge(newestFix)}`}</div>
       </div>
-      {debugMode && (
-        <div style={{ position: 'absolute', bottom: '1rem', left: '1rem', zIndex: 1000, backgroundColor: 'rgba(0, 0, 0, 0.8)', color: 'white', padding: '0.75rem', borderRadius: '0.5rem', fontSize: '0.75rem', maxWidth: '300px' }}>
-          <div style={{ fontWeight: 'bold', marginBottom: '0.25rem' }}>🐛 Debug Info:</div>
-          <div>Total Vehicles: {vehicles.length}</div>
-          <div>Filtered: {filteredVehicles.length}</div>
-          <div>Selected: {selectedVehicle || 'None'}</div>
-          <div>Valid Coords: {filteredVehicles.filter(v => v.location.latitude && v.location.longitude).length}</div>
-        </div>
-      )}
-      <MapContainer ref={mapRef} center={sriLankaCenter} zoom={8} style={{ height: '100%', width: '100%', zIndex: 1 }} maxBounds={sriLankaBounds} maxBoundsViscosity={0.7}>
+      {showDiagnostics && <DiagnosticsOverlay assessed={assessed} drawn={drawnVehicles.length} onVehicleSelect={handleVehicleClick} />}
+      <MapContainer ref={mapRef} center={sriLankaCenter} zoom={INITIAL_ZOOM} style={{ height: '100%', width: '100%', zIndex: 1 }} maxBounds={sriLankaBounds} maxBoundsViscosity={0.7}>
         <TileLayer attribution='© OpenStreetMap contributors' url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png" maxZoom={18} />
-        <MapUpdater vehicles={filteredVehicles} selectedVehicle={selectedVehicle} />
-        {filteredVehicles.map((vehicle, index) => {
-          const position: [number, number] = [vehicle.location.latitude, vehicle.location.longitude];
+        <MapUpdater points={points} selectedVehicle={selectedVehicle} selectedGeometry={selectedGeometry} />
+        <ViewportWatcher onChange={handleViewportChange} />
+        {orderedGeometries.map(geometry => {
+          const highlighted = geometry === selectedGeometry;
+          return (
+            <Polyline
+              key={`route-${geometry.id}`}
+              positions={geometry.path}
+              pathOptions={highlighted ? { color: '#2563EB', weight: 7, opacity: 0.9 } : selectedGeometry ? { color: '#6B7280', weight: 3, opacity: 0.35, dashArray: '6, 8' } : { color: '#3B82F6', weight: 4, opacity: 0.6 }}
+            >
+              <Tooltip sticky>{geometry.name} • {(geometry.length / 1000).toFixed(1)} km</Tooltip>
+            </Polyline>
+          );
+        })}
+        {stopGeometries.flatMap(geometry => geometry.stops.map(stop => (
+          <Marker key={`stop-${geometry.id}-${stop.number}`} position={stop.coordinates} icon={stopIcon(stop, geometry === selectedGeometry)} zIndexOffset={-1000}>
+            <Popup maxWidth={280} closeButton={true}>
+              <StopPopup stop={stop} route={routesById.get(geometry.id)} arrivals={etaService.departures(predictionList, etaService.stopKey(stop.name), vehicles, 3)} />
+            </Popup>
+          </Marker>
+        )))}
+        {clusters.map(cluster => <ClusterMarker key={`cluster-${cluster.id}`} cluster={cluster} />)}
+        {markedVehicles.map((item, index) => {
+          const { vehicle } = item;
           const vehicleType = vehicle.vehicleId?.includes('TRAIN') ? 'train' : 'bus';
-          const status = vehicle.operationalInfo?.status || 'on_route';
-          const loadPercentage = vehicle.passengerLoad?.loadPercentage || 0;
-          const heading = vehicle.location?.heading || 0;
-          console.log(`🎯 Rendering vehicle ${index + 1}:`, { id: vehicle.vehicleId, position, type: vehicleType, status });
+          const status = vehicle.operationalInfo?.status || 'unknown';
           return (
             <Marker
               key={vehicle.vehicleId || index}
-              position={position}
-              icon={createVehicleIcon(vehicleType, status, heading, loadPercentage)}
+              ref={motion.markerRef(vehicle.vehicleId)}
+              position={motion.initialPosition(vehicle.vehicleId, item.position!)}
+              opacity={item.quality.opacity}
+              icon={vehicleIcon(vehicleType, status, item.heading, item.loadPercentage, item === selected ? 'full' : detailLevel)}
               eventHandlers={{ click: () => handleVehicleClick(vehicle.vehicleId) }}
             >
               <Popup maxWidth={320} closeButton={true}>
-                <VehiclePopup vehicle={vehicle} />
+                <VehiclePopup assessed={item} />
               </Popup>
             </Marker>
           );
         })}
-        {selectedVehicle && (() => {
-          const vehicle = filteredVehicles.find(v => v.vehicleId === selectedVehicle);
-          if (!vehicle) return null;
-          return (
-            <Circle
-              center={[vehicle.location.latitude, vehicle.location.longitude]}
-              radius={500}
-              pathOptions={{ color: '#3B82F6', fillColor: '#3B82F6', fillOpacity: 0.1, weight: 3, dashArray: '10, 5' }}
-            />
-          );
-        })()}
+        {selected && (
+          <Circle
+            center={selected.position!}
+            radius={500}
+            pathOptions={{ color: '#3B82F6', fillColor: '#3B82F6', fillOpacity: 0.1, weight: 3, dashArray: '10, 5' }}
+          />
+        )}
       </MapContainer>
       <style jsx>{`
         @keyframes spin { 0% { transform: rotate(0deg); } 100% { transform: rotate(360deg); } }
         @keyframes pulse { 0%, 100% { opacity: 1; } 50% { opacity: 0.5; } }
         .custom-vehicle-icon { background: none !important; border: none !important; }
+        .route-stop-icon { background: none !important; border: none !important; }
         .leaflet-popup-content-wrapper { border-radius: 12px !important; }
         .leaflet-popup-tip { display: none !important; }
       `}</style>
@@ -0,0 +1,33 @@
+// src/app/components/ArticleSuggestions.tsx
+'use client';
+import React from 'react';
+import type { ArticleMatch } from '@/app/services/knowledgeBaseService';
+
+interface ThemeStyles {
+  textSecondary: string;
+  cardBg: string;
+  cardBorder: string;
+}
+
+interface ArticleSuggestionsProps {
+  matches: ArticleMatch[];
+  currentThemeStyles: ThemeStyles;
+}
+
+// Help articles offered while a passenger describes their problem. They open in a new tab so a
+// half-written message is not lost.
+export default function ArticleSuggestions({ matches, currentThemeStyles }: ArticleSuggestionsProps) {
+  if (matches.length === 0) return null;
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem', padding: '0.75rem', borderRadius: '0.5rem', backgroundColor: currentThemeStyles.cardBg, border: currentThemeStyles.cardBorder }}>
+      <span style={{ fontSize: '0.8rem', fontWeight: 600, color: currentThemeStyles.textSecondary }}>💡 These articles might answer your question</span>
+      {matches.map(({ article, localized, excerpt }) => (
+        <a key={article._id} href={`/help?article=${encodeURIComponent(article.slug)}`} target="_blank" rel="noopener noreferrer" style={{ textDecoration: 'none' }}>
+          <div style={{ fontSize: '0.875rem', fontWeight: 600, color: '#3b82f6' }}>{localized.title}</div>
+          {excerpt && <div style={{ fontSize: '0.75rem', color: currentThemeStyles.textSecondary, marginTop: '0.125rem' }}>{excerpt}</div>}
+        </a>
+      ))}
+    </div>
+  );
+}
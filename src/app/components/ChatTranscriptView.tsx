@@ -0,0 +1,52 @@
+// src/app/components/ChatTranscriptView.tsx
+'use client';
+import React from 'react';
+import { CHAT_STATUS_DISPLAY } from '@/app/services/supportRequestService';
+import type { ChatTranscript } from '@/app/domain';
+
+interface ThemeStyles {
+  textPrimary: string;
+  textSecondary: string;
+  textMuted: string;
+  quickActionBg: string;
+  quickActionBorder: string;
+}
+
+interface ChatTranscriptViewProps {
+  transcript: ChatTranscript;
+  currentThemeStyles: ThemeStyles;
+}
+
+const SENDER_NAMES = { agent: 'Agent', ai_bot: 'Assistant' };
+
+// A past chat read back as a transcript; live chats carry on in the chat widget
+export default function ChatTranscriptView({ transcript, currentThemeStyles }: ChatTranscriptViewProps) {
+  const status = CHAT_STATUS_DISPLAY[transcript.status];
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: '1rem' }}>
+        <div>
+          <h3 style={{ color: currentThemeStyles.textPrimary, fontSize: '1.2rem', fontWeight: 600, margin: 0 }}>Chat on {new Date(transcript.createdAt).toLocaleDateString()}</h3>
+          <p style={{ color: currentThemeStyles.textMuted, fontSize: '0.8rem', margin: '0.25rem 0 0 0' }}>
+            {transcript.sessionId}{transcript.assignedAgent && ` · with ${transcript.assignedAgent.name}`}
+          </p>
+        </div>
+        <span style={{ backgroundColor: `${status.color}20`, color: status.color, padding: '0.2rem 0.6rem', borderRadius: '9999px', fontSize: '0.75rem', fontWeight: 600, whiteSpace: 'nowrap' }}>{status.label}</span>
+      </div>
+
+      {transcript.messages.length === 0 && <p style={{ color: currentThemeStyles.textSecondary, margin: 0 }}>No messages in this chat.</p>}
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+        {transcript.messages.map(message => message.sender === 'system' ? (
+          <div key={message.messageId} style={{ textAlign: 'center', fontSize: '0.8rem', color: currentThemeStyles.textMuted }}>{message.content}</div>
+        ) : (
+          <div key={message.messageId} style={{ alignSelf: message.sender === 'customer' ? 'flex-end' : 'flex-start', maxWidth: '80%', padding: '0.5rem 0.75rem', borderRadius: '0.75rem', backgroundColor: message.sender === 'customer' ? '#F59E0B' : currentThemeStyles.quickActionBg, border: message.sender === 'customer' ? 'none' : currentThemeStyles.quickActionBorder, color: message.sender === 'customer' ? 'white' : currentThemeStyles.textPrimary }}>
+            {message.sender !== 'customer' && <div style={{ fontSize: '0.75rem', fontWeight: 600, color: '#3b82f6', marginBottom: '0.125rem' }}>{message.sender === 'agent' && transcript.assignedAgent ? transcript.assignedAgent.name : SENDER_NAMES[message.sender]}</div>}
+            <div style={{ fontSize: '0.9rem', whiteSpace: 'pre-wrap' }}>{message.content}</div>
+            <div style={{ fontSize: '0.7rem', opacity: 0.75, marginTop: '0.25rem', textAlign: 'right' }}>{new Date(message.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,29 +1,15 @@
 // src/components/CustomerChatWidget.tsx (or your path)
 'use client';
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import apiClient, { type SupportChatMessage, type SupportChatSession } from '@/app/services/apiClient';
+import { useChatChannel } from '@/app/hooks/useChatChannel';
+import SatisfactionSurvey from '@/app/components/SatisfactionSurvey';
+import ArticleSuggestions from '@/app/components/ArticleSuggestions';
+import { useArticleLanguage, useArticleSuggestions } from '@/app/hooks/useKnowledgeBase';
 
-// --- Interfaces (Unchanged) ---
-interface Message {
-  messageId: string;
-  sender: 'customer' | 'agent' | 'ai_bot' | 'system';
-  content: string;
-  timestamp: string;
-  isRead: boolean;
-}
-
-interface ChatSession {
-  _id: string;
-  sessionId: string;
-  status: 'waiting' | 'active' | 'ended' | 'transferred';
-  messages: Message[];
-  customerInfo: {
-    name: string;
-    email: string;
-  };
-  assignedAgent?: {
-    name:string;
-  };
-}
+// --- Interfaces ---
+type Message = SupportChatMessage;
+type ChatSession = SupportChatSession;
 
 interface CustomerChatWidgetProps {
   userId?: string;
@@ -31,6 +17,10 @@ interface CustomerChatWidgetProps {
   userEmail?: string;
 }
 
+// Polling is only used while the chat channel is unavailable
+const POLL_INTERVAL_MS = 3000;
+const DEFAULT_OPENING_MESSAGE = 'Hello! I need help with my booking.';
+
 export default function CustomerChatWidget({ userId, userName, userEmail }: CustomerChatWidgetProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
@@ -38,6 +28,12 @@ export default function CustomerChatWidget({ userId, userName, userEmail }: Cust
   const [messages, setMessages] = useState<Message[]>([]);
   const [newMessage, setNewMessage] = useState('');
   const [error, setError] = useState<string | null>(null);
+  // Set once the customer sends or skips the survey shown after the chat ends
+  const [surveyClosed, setSurveyClosed] = useState(false);
+  // What the customer needs help with, typed before the chat starts; matching help articles are offered meanwhile
+  const [question, setQuestion] = useState('');
+  const [articleLanguage] = useArticleLanguage();
+  const suggestions = useArticleSuggestions(chatSession ? '' : question, articleLanguage);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   // --- Logic and Functions (Largely Unchanged) ---
@@ -45,60 +41,80 @@ export default function CustomerChatWidget({ userId, userName, userEmail }: Cust
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
+  // The survey appears below the last message when the chat ends, so scroll to it then too
+  const chatStatus = chatSession?.status;
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [messages, chatStatus]);
 
-  useEffect(() => {
-    if (!chatSession || !isOpen) return;
-
-    const pollMessages = async () => {
-      try {
-        const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000'}/api/cs/chat/sessions/${chatSession._id}`);
-        if (response.ok) {
-          const data = await response.json();
-          if (data.success && data.data.chat) {
-            // Only update if there are new messages to prevent re-renders
-            if (JSON.stringify(messages) !== JSON.stringify(data.data.chat.messages)) {
-              setMessages(data.data.chat.messages || []);
-            }
-            setChatSession(prev => prev ? { ...prev, ...data.data.chat } : null);
-          }
-        }
-      } catch (error) {
-        console.error('Failed to poll messages:', error);
+  // Re-reads the session over REST: the fallback while the chat channel is down and a catch-up after it reconnects
+  const chatId = chatSession?._id;
+  const refreshSession = useCallback(async () => {
+    if (!chatId) return;
+    try {
+      const response = await apiClient.support.chats.get(chatId);
+      const chat = response.data?.chat;
+      if (response.success && chat) {
+        const latest: Message[] = chat.messages || [];
+        // Only update if there are new messages to prevent re-renders
+        setMessages(prev => JSON.stringify(prev) === JSON.stringify(latest) ? prev : latest);
+        setChatSession(prev => prev ? { ...prev, ...chat } : null);
       }
-    };
+    } catch (error) {
+      console.error('Failed to poll messages:', error);
+    }
+  }, [chatId]);
+
+  const channel = useChatChannel<Message>(chatId ?? null, 'customer', {
+    onMessage: (message, clientMessageId) => {
+      setMessages(prev => {
+        const index = prev.findIndex(m => m.messageId === message.messageId || (!!clientMessageId && m.messageId === clientMessageId));
+        if (index === -1) return [...prev, message];
+        const next = [...prev];
+        next[index] = message;
+        return next;
+      });
+    },
+    onStatus: ({ status, assignedAgent }) => {
+      setChatSession(prev => prev ? { ...prev, status: status as ChatSession['status'], assignedAgent: assignedAgent ?? prev.assignedAgent } : null);
+    },
+  });
+
+  useEffect(() => {
+    if (channel.connected) refreshSession();
+  }, [channel.connected, refreshSession]);
 
-    const interval = setInterval(pollMessages, 3000);
+  useEffect(() => {
+    if (!chatId || !isOpen || channel.connected) return;
+    const interval = setInterval(refreshSession, POLL_INTERVAL_MS);
     return () => clearInterval(interval);
-  }, [chatSession, isOpen, messages]);
+  }, [chatId, isOpen, channel.connected, refreshSession]);
+
+  // Agent replies count as read once the widget is open
+  const { markRead } = channel;
+  useEffect(() => {
+    if (!isOpen) return;
+    const unread = messages.filter(m => m.sender === 'agent' && !m.isRead).map(m => m.messageId);
+    if (unread.length > 0) markRead(unread);
+  }, [isOpen, messages, markRead]);
 
   const startChat = async () => {
     setIsConnecting(true);
     setError(null);
     
     try {
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000'}/api/cs/chat/sessions`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          customerId: userId || 'anonymous-' + Date.now(),
-          channel: 'web',
-          initialMessage: 'Hello! I need help with my booking.',
-          customerInfo: { name: userName || 'Guest', email: userEmail || 'not-provided' }
-        })
+      const response = await apiClient.support.chats.start({
+        customerId: userId || 'anonymous-' + Date.now(),
+        channel: 'web',
+        initialMessage: question.trim() || DEFAULT_OPENING_MESSAGE,
+        customerInfo: { name: userName || 'Guest', email: userEmail || 'not-provided' }
       });
-
-      if (response.ok) {
-        const data = await response.json();
-        if (data.data?.chat) {
-          setChatSession(data.data.chat);
-          setMessages(data.data.chat.messages || []);
-        }
-      } else {
-        const errorData = await response.text();
-        throw new Error(`Failed to start chat: ${response.status} - ${errorData}`);
+      const chat = response.data?.chat;
+      if (chat) {
+        setSurveyClosed(false);
+        setQuestion('');
+        setChatSession(chat);
+        setMessages(chat.messages || []);
       }
     } catch (error) {
       console.error('Chat start error:', error);
@@ -112,6 +128,7 @@ export default function CustomerChatWidget({ userId, userName, userEmail }: Cust
     if (!newMessage.trim() || !chatSession || isConnecting) return;
 
     const tempMessage: Message = {
+      // Sent along as clientMessageId so the channel's echo replaces this copy
       messageId: 'temp-' + Date.now(),
       sender: 'customer',
       content: newMessage,
@@ -122,18 +139,12 @@ export default function CustomerChatWidget({ userId, userName, userEmail }: Cust
     setMessages(prev => [...prev, tempMessage]);
     const messageToSend = newMessage;
     setNewMessage('');
+    channel.stopTyping();
     setIsConnecting(true);
 
     try {
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000'}/api/cs/chat/sessions/${chatSession._id}/messages`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ content: messageToSend, sender: 'customer' })
-      });
-
-      if (!response.ok) throw new Error('Failed to send message');
-      
-      // The polling will handle updating the message list, removing the temp message
+      await apiClient.support.chats.send(chatSession._id, messageToSend, tempMessage.messageId);
+      // The channel (or polling, while it is down) replaces the temp message with the stored one
     } catch (error) {
       console.error('Send message error:', error);
       setError('Failed to send message');
@@ -154,12 +165,29 @@ export default function CustomerChatWidget({ userId, userName, userEmail }: Cust
     if (!chatSession) return { text: 'Not Connected', color: '#f87171' };
     switch (chatSession.status) {
       case 'waiting': return { text: 'Waiting for agent...', color: '#facc15' };
-      case 'active': return { text: `Connected to ${chatSession.assignedAgent?.name || 'Agent'}`, color: '#4ade80' };
+      case 'active': {
+        const agentName = chatSession.assignedAgent?.name || 'Agent';
+        switch (channel.agentPresence?.status) {
+          case 'away':
+          case 'busy': return { text: `${agentName} is away`, color: '#facc15' };
+          case 'offline': return { text: `${agentName} is offline`, color: '#9ca3af' };
+          default: return { text: `Connected to ${agentName}`, color: '#4ade80' };
+        }
+      }
       case 'ended': return { text: 'Chat ended', color: '#9ca3af' };
       default: return { text: 'Unknown Status', color: '#9ca3af' };
     }
   };
 
+  // Ticks on the customer's own messages: sending, sent, delivered, read
+  const getReceiptMark = (message: Message) => {
+    if (message.messageId.startsWith('temp-')) return { mark: '🕓', color: 'rgba(255,255,255,0.6)' };
+    const receipt = channel.receipts[message.messageId] ?? (message.isRead ? 'read' : undefined);
+    if (receipt === 'read') return { mark: '✓✓', color: '#a5f3fc' };
+    if (receipt === 'delivered') return { mark: '✓✓', color: 'rgba(255,255,255,0.6)' };
+    return { mark: '✓', color: 'rgba(255,255,255,0.6)' };
+  };
+
   // ✅ STYLE: Added a style tag for pseudo-elements like scrollbars and focus rings
   const customStyles = `
     .chat-messages::-webkit-scrollbar {
@@ -272,9 +300,34 @@ export default function CustomerChatWidget({ userId, userName, userEmail }: Cust
             <h4 style={{ color: '#f1f5f9', marginBottom: '12px', fontSize: '1.1rem' }}>
               👋 Welcome to Sri Express!
             </h4>
-            <p style={{ fontSize: '14px', marginBottom: '24px', lineHeight: 1.5 }}>
+            <p style={{ fontSize: '14px', marginBottom: '16px', lineHeight: 1.5 }}>
               Get instant help with your bookings, payments, and travel questions.
             </p>
+            <textarea
+              className="chat-input"
+              value={question}
+              onChange={(e) => setQuestion(e.target.value)}
+              rows={3}
+              placeholder="What do you need help with?"
+              style={{
+                width: '100%',
+                padding: '10px 14px',
+                marginBottom: '12px',
+                border: '1px solid rgba(255, 255, 255, 0.15)',
+                borderRadius: '8px',
+                fontSize: '14px',
+                backgroundColor: 'rgba(0,0,0,0.2)',
+                color: '#f1f5f9',
+                resize: 'none',
+                boxSizing: 'border-box',
+                fontFamily: 'inherit'
+              }}
+            />
+            {suggestions.length > 0 && (
+              <div style={{ textAlign: 'left', marginBottom: '16px' }}>
+                <ArticleSuggestions matches={suggestions} currentThemeStyles={{ textSecondary: '#9ca3af', cardBg: 'rgba(255, 255, 255, 0.08)', cardBorder: '1px solid rgba(255, 255, 255, 0.15)' }} />
+              </div>
+            )}
             <button
               onClick={startChat}
               disabled={isConnecting}
@@ -325,10 +378,34 @@ export default function CustomerChatWidget({ userId, userName, userEmail }: Cust
                   {message.content}
                   <div style={{ fontSize: '10px', opacity: 0.6, marginTop: '5px', textAlign: 'right' }}>
                     {new Date(message.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    {message.sender === 'customer' && (
+                      <span style={{ marginLeft: '4px', color: getReceiptMark(message).color }}>{getReceiptMark(message).mark}</span>
+                    )}
                   </div>
                 </div>
               </div>
             ))}
+            {channel.remoteTyping && (
+              <div style={{ alignSelf: 'flex-start', fontSize: '12px', fontStyle: 'italic', color: '#d1d5db', padding: '4px 8px' }}>
+                {chatSession.assignedAgent?.name || 'Agent'} is typing...
+              </div>
+            )}
+            {chatSession.status === 'ended' && !surveyClosed && (
+              <div style={{
+                padding: '12px',
+                borderRadius: '12px',
+                backgroundColor: 'rgba(255, 255, 255, 0.08)',
+                border: '1px solid rgba(255, 255, 255, 0.15)'
+              }}>
+                <SatisfactionSurvey
+                  source="chat"
+                  sourceId={chatSession._id}
+                  agentName={chatSession.assignedAgent?.name}
+                  onDismiss={() => setSurveyClosed(true)}
+                  currentThemeStyles={{ textPrimary: '#f1f5f9', textSecondary: '#9ca3af', inputBg: 'rgba(0,0,0,0.2)', inputBorder: '1px solid rgba(255, 255, 255, 0.15)' }}
+                />
+              </div>
+            )}
             <div ref={messagesEndRef} />
           </>
         )}
@@ -360,7 +437,7 @@ export default function CustomerChatWidget({ userId, userName, userEmail }: Cust
               type="text"
               className="chat-input"
               value={newMessage}
-              onChange={(e) => setNewMessage(e.target.value)}
+              onChange={(e) => { setNewMessage(e.target.value); channel.notifyTyping(); }}
               onKeyPress={handleKeyPress}
               placeholder="Type your message..."
               disabled={isConnecting || chatSession.status === 'ended'}
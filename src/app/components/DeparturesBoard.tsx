@@ -0,0 +1,74 @@
+// src/app/components/DeparturesBoard.tsx
+'use client';
+import React from 'react';
+import { ClockIcon } from '@heroicons/react/24/outline';
+import etaService, { type BoardStop, type DepartureBoardEntry, type PredictionBasis } from '@/app/services/etaService';
+
+interface ThemeStyles {
+  textPrimary: string;
+  textSecondary: string;
+  textMuted: string;
+  cardBg: string;
+  cardBorder: string;
+  selectBg: string;
+  selectBorder: string;
+  selectText: string;
+}
+
+interface DeparturesBoardProps {
+  stops: BoardStop[];
+  stopKey: string | null;
+  onStopChange: (stopKey: string | null) => void;
+  entries: DepartureBoardEntry[];
+  selectedVehicle?: string | null;
+  onVehicleSelect?: (vehicleId: string) => void;
+  currentThemeStyles: ThemeStyles;
+}
+
+const BASIS_LABELS: Record<PredictionBasis, string> = {
+  observed: 'Live',
+  reported: 'GPS speed',
+  scheduled: 'Timetable',
+};
+
+// Vehicles due at one stop, soonest first, with how each prediction was made
+export default function DeparturesBoard({ stops, stopKey, onStopChange, entries, selectedVehicle, onVehicleSelect, currentThemeStyles }: DeparturesBoardProps) {
+  const stop = stops.find(item => item.key === stopKey);
+
+  return (
+    <div>
+      <select value={stopKey || ''} onChange={(e) => onStopChange(e.target.value || null)} style={{ width: '100%', padding: '0.75rem 1rem', border: `1px solid ${currentThemeStyles.selectBorder}`, borderRadius: '0.5rem', backgroundColor: currentThemeStyles.selectBg, color: currentThemeStyles.selectText, fontSize: '1rem' }}>
+        <option value="">Choose a stop...</option>
+        {stops.map(item => <option key={item.key} value={item.key}>{item.name}</option>)}
+      </select>
+      {stop && <div style={{ fontSize: '0.8rem', color: currentThemeStyles.textMuted, marginTop: '0.5rem' }}>Served by {stop.routeNames.join(', ')}</div>}
+
+      {stop && (
+        entries.length > 0 ? (
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem', marginTop: '1rem' }}>
+            {entries.map(entry => (
+              <div key={`${entry.vehicleId}-${entry.stop.number}`} onClick={() => onVehicleSelect?.(entry.vehicleId)} style={{ display: 'flex', alignItems: 'center', gap: '1rem', padding: '0.75rem 1rem', borderRadius: '0.75rem', backgroundColor: selectedVehicle === entry.vehicleId ? 'rgba(59, 130, 246, 0.2)' : currentThemeStyles.cardBg, border: selectedVehicle === entry.vehicleId ? '2px solid #3B82F6' : currentThemeStyles.cardBorder, cursor: onVehicleSelect ? 'pointer' : 'default' }}>
+                <div style={{ minWidth: '4.5rem', textAlign: 'center' }}>
+                  <div style={{ fontSize: '1.25rem', fontWeight: 'bold', color: entry.minutesAway < 1 ? '#10B981' : currentThemeStyles.textPrimary }}>{etaService.formatMinutesAway(entry.minutesAway)}</div>
+                  <div style={{ fontSize: '0.75rem', color: currentThemeStyles.textMuted }}>{new Date(entry.arrivesAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</div>
+                </div>
+                <div style={{ flex: 1, minWidth: 0 }}>
+                  <div style={{ fontWeight: 600, color: currentThemeStyles.textPrimary }}>{entry.vehicleNumber || entry.vehicleId}</div>
+                  <div style={{ fontSize: '0.8rem', color: currentThemeStyles.textSecondary, whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>{entry.routeName}{entry.terminates ? ' • terminates here' : ''}</div>
+                </div>
+                <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'flex-end', gap: '0.25rem' }}>
+                  {entry.delayMinutes > 0 && <span style={{ padding: '0.125rem 0.5rem', borderRadius: '99px', fontSize: '0.7rem', fontWeight: 600, backgroundColor: '#F59E0B', color: 'white' }}>+{entry.delayMinutes} min</span>}
+                  <span title="How this time was predicted" style={{ fontSize: '0.7rem', color: currentThemeStyles.textMuted }}>{BASIS_LABELS[entry.basis]}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginTop: '1rem', color: currentThemeStyles.textSecondary, fontSize: '0.9rem' }}>
+            <ClockIcon width={18} height={18} /> No tracked vehicles are heading to this stop right now.
+          </div>
+        )
+      )}
+    </div>
+  );
+}
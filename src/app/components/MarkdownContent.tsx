@@ -0,0 +1,45 @@
+// src/app/components/MarkdownContent.tsx
+'use client';
+import React from 'react';
+import knowledgeBaseService from '@/app/services/knowledgeBaseService';
+
+interface MarkdownContentProps {
+  markdown: string;
+  linkColor?: string;
+  codeBackground?: string;
+}
+
+// Renders the markdown subset help articles are written in. Everything becomes React elements, so
+// article text can never inject HTML.
+export default function MarkdownContent({ markdown, linkColor = '#3b82f6', codeBackground = 'rgba(107, 114, 128, 0.15)' }: MarkdownContentProps) {
+  const codeStyle: React.CSSProperties = { backgroundColor: codeBackground, borderRadius: '0.25rem', padding: '0.1rem 0.3rem', fontFamily: 'monospace', fontSize: '0.9em' };
+
+  const inline = (text: string) => knowledgeBaseService.parseInline(text).map((part, index) => {
+    switch (part.type) {
+      case 'bold': return <strong key={index}>{part.text}</strong>;
+      case 'italic': return <em key={index}>{part.text}</em>;
+      case 'code': return <code key={index} style={codeStyle}>{part.text}</code>;
+      case 'link': return <a key={index} href={part.href} target={part.href.startsWith('http') ? '_blank' : undefined} rel="noopener noreferrer" style={{ color: linkColor }}>{part.text}</a>;
+      default: return <React.Fragment key={index}>{part.text}</React.Fragment>;
+    }
+  });
+
+  return (
+    <div style={{ lineHeight: 1.6 }}>
+      {knowledgeBaseService.parseMarkdown(markdown).map((block, index) => {
+        switch (block.type) {
+          case 'heading': {
+            const Heading = `h${block.level + 2}` as 'h3' | 'h4' | 'h5';
+            return <Heading key={index} style={{ margin: '1rem 0 0.5rem 0', fontSize: `${1.2 - block.level * 0.1}rem` }}>{inline(block.text)}</Heading>;
+          }
+          case 'list': {
+            const List = block.ordered ? 'ol' : 'ul';
+            return <List key={index} style={{ margin: '0.5rem 0', paddingLeft: '1.5rem', listStyle: block.ordered ? 'decimal' : 'disc' }}>{block.items.map((item, i) => <li key={i}>{inline(item)}</li>)}</List>;
+          }
+          case 'code': return <pre key={index} style={{ ...codeStyle, display: 'block', padding: '0.75rem', overflowX: 'auto', whiteSpace: 'pre-wrap' }}>{block.text}</pre>;
+          default: return <p key={index} style={{ margin: '0.5rem 0' }}>{inline(block.text)}</p>;
+        }
+      })}
+    </div>
+  );
+}
@@ -1,32 +1,37 @@
 import { useState, useEffect } from 'react';
+import apiClient, { ApiError, type GatewayBooking, type GatewayPaymentMethod } from '@/app/services/apiClient';
+import type { PendingBooking } from '@/app/services/itineraryService';
+
+// What a completed (simulated) payment reports back to the page that opened the gateway
+export interface PaymentResult {
+  paymentId: string;
+  transactionId: string;
+  method: string;
+  status: string;
+  amount: number;
+  currency: string;
+  paidAt: string;
+  gateway: string;
+  authCode: string;
+  reference: string;
+}
 
 interface PaymentGatewayProps {
-  bookingData?: any;
+  bookingData?: PendingBooking;
   bookingId?: string;
-  onPaymentSuccess: (paymentResult?: any) => void;
+  holdExpiresAt?: string;
+  onPaymentSuccess: (paymentResult: PaymentResult) => void;
   onPaymentCancel?: () => void;
   onPaymentError?: (error: string) => void;
 }
 
-interface BookingData {
-  id: string;
-  bookingId: string;
-  amount: number;
-  currency: string;
-  status: string;
-  paymentStatus: string;
-}
-
-interface PaymentMethod {
-  id: string;
-  name: string;
-  fee: number;
-  available: boolean;
-}
+type BookingData = GatewayBooking;
+type PaymentMethod = GatewayPaymentMethod;
 
 const PaymentGateway: React.FC<PaymentGatewayProps> = ({ 
   bookingData,
   bookingId, 
+  holdExpiresAt,
   onPaymentSuccess, 
   onPaymentCancel,
   onPaymentError 
@@ -38,7 +43,7 @@ const PaymentGateway: React.FC<PaymentGatewayProps> = ({
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
 
-  const getToken = () => localStorage.getItem('token');
+  const isHoldLapsed = () => !!holdExpiresAt && new Date(holdExpiresAt).getTime() <= Date.now();
 
   // Load payment gateway data
   useEffect(() => {
@@ -74,35 +79,19 @@ const PaymentGateway: React.FC<PaymentGatewayProps> = ({
           return;
         }
 
-        const token = getToken();
-        if (!token) {
-          setError('Authentication required');
-          setLoading(false);
-          return;
-        }
-
-        const response = await fetch(`http://localhost:5000/api/payment-simulation/gateway/${bookingId}`, {
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json'
-          }
-        });
-
-        if (response.ok) {
-          const data = await response.json();
-          setBooking(data.booking);
-          setPaymentMethods(data.paymentMethods || [
-            { id: 'card', name: '💳 Credit/Debit Card', fee: 0, available: true },
-            { id: 'bank', name: '🏦 Bank Transfer', fee: 0, available: true },
-            { id: 'digital_wallet', name: '📱 Digital Wallet', fee: 25, available: true },
-            { id: 'cash', name: '💵 Cash on Booking', fee: 0, available: true }
-          ]);
-        } else {
-          setError('Failed to load payment information');
-        }
+        const data = await apiClient.payments.gateway(bookingId);
+        setBooking(data.booking);
+        setPaymentMethods(data.paymentMethods || [
+          { id: 'card', name: '💳 Credit/Debit Card', fee: 0, available: true },
+          { id: 'bank', name: '🏦 Bank Transfer', fee: 0, available: true },
+          { id: 'digital_wallet', name: '📱 Digital Wallet', fee: 25, available: true },
+          { id: 'cash', name: '💵 Cash on Booking', fee: 0, available: true }
+        ]);
       } catch (error) {
         console.error('Error loading payment gateway:', error);
-        setError('Failed to load payment gateway');
+        if (error instanceof ApiError && error.code === 'unauthorized') setError('Authentication required');
+        else if (error instanceof ApiError && error.status > 0) setError('Failed to load payment information');
+        else setError('Failed to load payment gateway');
       } finally {
         setLoading(false);
       }
@@ -115,6 +104,16 @@ const PaymentGateway: React.FC<PaymentGatewayProps> = ({
   const handlePayment = async () => {
     if (!booking) return;
 
+    // Never charge for a seat that is no longer reserved for this passenger
+    if (isHoldLapsed()) {
+      const errorMsg = 'Your seat hold has expired, so no payment was taken. Please select your seat again.';
+      setError(errorMsg);
+      if (onPaymentError) {
+        onPaymentError(errorMsg);
+      }
+      return;
+    }
+
     setProcessing(true);
     setError('');
 
@@ -127,12 +126,16 @@ const PaymentGateway: React.FC<PaymentGatewayProps> = ({
       await new Promise(resolve => setTimeout(resolve, 800));
       console.log('✅ Payment method validated...');
 
+      if (isHoldLapsed()) {
+        throw new Error('Seat hold expired during payment');
+      }
+
       // Step 2: Process payment (SIMULATION - no real money charged)
       await new Promise(resolve => setTimeout(resolve, 1200));
       console.log('✅ Payment processed (SIMULATED)...');
 
       // Step 3: Create realistic payment result
-      const paymentResult = {
+      const paymentResult: PaymentResult = {
         paymentId: `PAY_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
         transactionId: `TXN_${Date.now()}_mpwln${Math.floor(Math.random() * 1000)}`,
         method: selectedMethod,
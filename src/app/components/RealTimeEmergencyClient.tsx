@@ -3,6 +3,7 @@
 
 import { useEffect, useState, useRef, useCallback, createContext, useContext } from 'react';
 import { io, Socket } from 'socket.io-client';
+import { getApiBaseUrl } from '@/app/services/apiClient';
 
 // Defines the structure for the nested 'emergency' object.
 export interface EmergencyDetails {
@@ -182,7 +183,7 @@ export default function RealTimeEmergencyClient({
       const token = localStorage.getItem('token');
       if (!token) return;
 
-      const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000';
+      const API_BASE_URL = getApiBaseUrl();
       const response = await fetch(`${API_BASE_URL}/api/admin/emergency/user-alerts`, {
         headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' }
       });
@@ -212,7 +213,7 @@ export default function RealTimeEmergencyClient({
       return;
     }
 
-    const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000';
+    const API_BASE_URL = getApiBaseUrl();
     const socketUrl = API_BASE_URL.replace(/^http/, 'ws');
     const newSocket = io(socketUrl, {
       auth: { token },
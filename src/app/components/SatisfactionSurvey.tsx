@@ -0,0 +1,108 @@
+// src/app/components/SatisfactionSurvey.tsx
+'use client';
+import React, { useState } from 'react';
+import { CSAT_MAX, CSAT_MIN, NPS_MAX, NPS_MIN, type SurveySource } from '@/app/domain';
+import satisfactionService, { CSAT_LABELS, COMMENT_MAX_LENGTH } from '@/app/services/satisfactionService';
+import { useSubmitSurvey } from '@/app/hooks/useSurveys';
+
+interface ThemeStyles {
+  textPrimary: string;
+  textSecondary: string;
+  inputBg: string;
+  inputBorder: string;
+}
+
+interface SatisfactionSurveyProps {
+  source: SurveySource;
+  sourceId: string;
+  agentName?: string;
+  onSubmitted?: () => void;
+  onDismiss?: () => void;
+  currentThemeStyles: ThemeStyles;
+}
+
+const NPS_COLORS = { promoter: '#10b981', passive: '#f59e0b', detractor: '#ef4444' };
+const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+export default function SatisfactionSurvey({ source, sourceId, agentName, onSubmitted, onDismiss, currentThemeStyles }: SatisfactionSurveyProps) {
+  const submitSurvey = useSubmitSurvey();
+  const [csat, setCsat] = useState<number | null>(null);
+  const [hovered, setHovered] = useState<number | null>(null);
+  const [nps, setNps] = useState<number | null>(null);
+  const [comment, setComment] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  const submit = async () => {
+    if (csat === null) return;
+    const response = { source, sourceId, csat, nps: nps ?? undefined, comment: comment.trim() || undefined };
+    const invalid = satisfactionService.validate(response);
+    if (invalid) { setSubmitError(invalid); return; }
+    setSubmitting(true);
+    setSubmitError(null);
+    try {
+      await submitSurvey(response);
+      setSubmitted(true);
+      onSubmitted?.();
+    } catch (error) {
+      setSubmitError(error instanceof Error ? error.message : 'Could not send your feedback');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (submitted) {
+    return (
+      <div style={{ textAlign: 'center', padding: '0.75rem 0', color: currentThemeStyles.textPrimary }}>
+        <div style={{ fontSize: '1.5rem' }}>🙏</div>
+        <p style={{ margin: '0.25rem 0 0 0', fontWeight: 600 }}>Thanks for your feedback!</p>
+      </div>
+    );
+  }
+
+  const shownRating = hovered ?? csat;
+  const subject = source === 'chat' ? 'this chat' : 'how we handled your request';
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem', color: currentThemeStyles.textPrimary }}>
+      <div>
+        <p style={{ margin: 0, fontWeight: 600, fontSize: '0.9rem' }}>How would you rate {subject}{agentName ? ` with ${agentName}` : ''}?</p>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '0.25rem', marginTop: '0.375rem' }} onMouseLeave={() => setHovered(null)}>
+          {range(CSAT_MIN, CSAT_MAX).map(star => (
+            <button key={star} onClick={() => setCsat(star)} onMouseEnter={() => setHovered(star)} aria-label={`${star} star${star === 1 ? '' : 's'}`} style={{ background: 'none', border: 'none', cursor: 'pointer', padding: 0, fontSize: '1.5rem', lineHeight: 1, color: shownRating !== null && star <= shownRating ? '#f59e0b' : currentThemeStyles.textSecondary, opacity: shownRating !== null && star <= shownRating ? 1 : 0.4 }}>★</button>
+          ))}
+          {shownRating !== null && <span style={{ marginLeft: '0.5rem', fontSize: '0.8rem', color: currentThemeStyles.textSecondary }}>{CSAT_LABELS[shownRating]}</span>}
+        </div>
+      </div>
+
+      {csat !== null && (
+        <>
+          <div>
+            <p style={{ margin: 0, fontSize: '0.8rem', color: currentThemeStyles.textSecondary }}>How likely are you to recommend Sri Express to a friend? (optional)</p>
+            <div style={{ display: 'flex', gap: '0.2rem', marginTop: '0.375rem' }}>
+              {range(NPS_MIN, NPS_MAX).map(score => {
+                const selected = nps === score;
+                const color = NPS_COLORS[satisfactionService.npsCategory(score)];
+                return (
+                  <button key={score} onClick={() => setNps(selected ? null : score)} style={{ flex: 1, minWidth: 0, padding: '0.3rem 0', fontSize: '0.75rem', fontWeight: 600, borderRadius: '0.25rem', cursor: 'pointer', border: selected ? `1px solid ${color}` : currentThemeStyles.inputBorder, backgroundColor: selected ? color : currentThemeStyles.inputBg, color: selected ? 'white' : currentThemeStyles.textPrimary }}>{score}</button>
+                );
+              })}
+            </div>
+            <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '0.7rem', color: currentThemeStyles.textSecondary, marginTop: '0.2rem' }}>
+              <span>Not likely</span>
+              <span>Very likely</span>
+            </div>
+          </div>
+          <textarea value={comment} onChange={(e) => setComment(e.target.value)} maxLength={COMMENT_MAX_LENGTH} rows={2} placeholder="Anything we could have done better? (optional)" style={{ width: '100%', padding: '0.5rem', fontSize: '0.85rem', borderRadius: '0.5rem', border: currentThemeStyles.inputBorder, backgroundColor: currentThemeStyles.inputBg, color: currentThemeStyles.textPrimary, resize: 'vertical', boxSizing: 'border-box' }} />
+        </>
+      )}
+
+      {submitError && <div style={{ fontSize: '0.8rem', color: '#ef4444' }}>{submitError}</div>}
+      <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end' }}>
+        {onDismiss && <button onClick={onDismiss} disabled={submitting} style={{ background: 'none', border: 'none', color: currentThemeStyles.textSecondary, cursor: 'pointer', fontSize: '0.8rem' }}>Not now</button>}
+        <button onClick={submit} disabled={csat === null || submitting} style={{ padding: '0.4rem 1rem', backgroundColor: '#3b82f6', color: 'white', border: 'none', borderRadius: '0.5rem', fontSize: '0.85rem', fontWeight: 600, cursor: csat === null || submitting ? 'not-allowed' : 'pointer', opacity: csat === null || submitting ? 0.5 : 1 }}>{submitting ? 'Sending...' : 'Send feedback'}</button>
+      </div>
+    </div>
+  );
+}
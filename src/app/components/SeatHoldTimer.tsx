@@ -0,0 +1,52 @@
+// src/app/components/SeatHoldTimer.tsx
+'use client';
+import React, { useEffect, useRef, useState } from 'react';
+import seatService, { type SeatHold } from '@/app/services/seatService';
+
+interface SeatHoldTimerProps {
+  hold: SeatHold;
+  onExpire: () => void;
+}
+
+export default function SeatHoldTimer({ hold, onExpire }: SeatHoldTimerProps) {
+  const [remaining, setRemaining] = useState(() => seatService.getRemainingSeconds(hold));
+  const onExpireRef = useRef(onExpire);
+  onExpireRef.current = onExpire;
+
+  useEffect(() => {
+    setRemaining(seatService.getRemainingSeconds(hold));
+    const interval = setInterval(() => {
+      const seconds = seatService.getRemainingSeconds(hold);
+      setRemaining(seconds);
+      if (seconds <= 0) {
+        clearInterval(interval);
+        onExpireRef.current();
+      }
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [hold]);
+
+  const minutes = Math.floor(remaining / 60);
+  const seconds = remaining % 60;
+  const urgent = remaining < 120;
+
+  return (
+    <div style={{
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      gap: '1rem',
+      padding: '0.75rem 1rem',
+      borderRadius: '0.5rem',
+      backgroundColor: urgent ? 'rgba(254, 226, 226, 0.9)' : 'rgba(254, 243, 199, 0.9)',
+      border: `1px solid ${urgent ? '#FCA5A5' : '#FCD34D'}`,
+      color: urgent ? '#B91C1C' : '#92400E',
+      fontSize: '0.9rem'
+    }}>
+      <span>⏳ {hold.seatNumbers.length > 1 ? `Seats ${hold.seatNumbers.join(', ')} are` : `Seat ${hold.seatNumbers[0]} is`} held for you</span>
+      <strong style={{ fontFamily: 'monospace', fontSize: '1.1rem' }}>
+        {remaining > 0 ? `${minutes}:${seconds.toString().padStart(2, '0')}` : 'Expired'}
+      </strong>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+// src/app/components/SeatMap.tsx
+'use client';
+import React from 'react';
+import type { SeatPosition, SeatSection, SeatStatus } from '@/app/services/seatService';
+
+interface ThemeStyles {
+  textPrimary: string;
+  textSecondary: string;
+  quickActionBg: string;
+  quickActionBorder: string;
+}
+
+interface SeatMapProps {
+  sections: SeatSection[];
+  takenSeats: string[];
+  heldSeats: string[];
+  selectedSeats: string[];
+  // Seat of the passenger currently choosing, highlighted among the group's seats
+  activeSeat?: string;
+  onSelect: (seat: SeatPosition) => void;
+  loading?: boolean;
+  currentThemeStyles: ThemeStyles;
+}
+
+const seatColors: Record<SeatStatus, { bg: string; border: string; text: string }> = {
+  free: { bg: 'rgba(16, 185, 129, 0.15)', border: '#10B981', text: '#047857' },
+  taken: { bg: 'rgba(156, 163, 175, 0.35)', border: '#9CA3AF', text: '#6B7280' },
+  held: { bg: 'rgba(251, 191, 36, 0.25)', border: '#F59E0B', text: '#92400E' },
+  selected: { bg: '#F59E0B', border: '#D97706', text: '#ffffff' },
+};
+
+const seatLegend: Array<{ status: SeatStatus; label: string }> = [
+  { status: 'free', label: 'Available' },
+  { status: 'selected', label: 'Your seats' },
+  { status: 'held', label: 'On hold' },
+  { status: 'taken', label: 'Booked' },
+];
+
+export default function SeatMap({ sections, takenSeats, heldSeats, selectedSeats, activeSeat, onSelect, loading, currentThemeStyles }: SeatMapProps) {
+  const getStatus = (seatNumber: string): SeatStatus => {
+    if (selectedSeats.includes(seatNumber)) return 'selected';
+    if (takenSeats.includes(seatNumber)) return 'taken';
+    if (heldSeats.includes(seatNumber)) return 'held';
+    return 'free';
+  };
+
+  if (loading) {
+    return <div style={{ padding: '1rem', textAlign: 'center', color: currentThemeStyles.textSecondary }}>Loading seat availability...</div>;
+  }
+
+  if (sections.length === 0) {
+    return <div style={{ padding: '1rem', textAlign: 'center', color: currentThemeStyles.textSecondary }}>Seat layout is not available for this vehicle</div>;
+  }
+
+  return (
+    <div>
+      {/* Legend */}
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '1rem', marginBottom: '1rem', fontSize: '0.85rem', color: currentThemeStyles.textSecondary }}>
+        {seatLegend.map(({ status, label }) => (
+          <div key={status} style={{ display: 'flex', alignItems: 'center', gap: '0.4rem' }}>
+            <span style={{ width: '16px', height: '16px', borderRadius: '4px', border: `2px solid ${seatColors[status].border}`, backgroundColor: seatColors[status].bg, display: 'inline-block' }}></span>
+            {label}
+          </div>
+        ))}
+      </div>
+
+      <div style={{ display: 'grid', gap: '1rem', maxHeight: '420px', overflowY: 'auto' }}>
+        {sections.map(section => (
+          <div key={section.label} style={{ backgroundColor: currentThemeStyles.quickActionBg, border: currentThemeStyles.quickActionBorder, borderRadius: '0.75rem', padding: '1rem' }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '0.75rem', fontSize: '0.85rem', fontWeight: 600, color: currentThemeStyles.textSecondary }}>
+              <span>{section.label}</span>
+              <span>🚪 Front</span>
+            </div>
+            <div style={{ display: 'grid', gap: '0.4rem', justifyContent: 'center' }}>
+              {section.rows.map((row, rowIndex) => (
+                <div key={rowIndex} style={{ display: 'flex', gap: '0.4rem' }}>
+                  {row.map((seat, cellIndex) => {
+                    if (!seat) return <div key={`aisle-${cellIndex}`} style={{ width: '24px' }}></div>;
+                    const status = getStatus(seat.seatNumber);
+                    const disabled = status === 'taken' || status === 'held';
+                    return (
+                      <button
+                        key={seat.seatNumber}
+                        type="button"
+                        disabled={disabled}
+                        onClick={() => onSelect(seat)}
+                        title={`Seat ${seat.seatNumber} (${seat.seatType})${disabled ? ` – ${status === 'taken' ? 'booked' : 'on hold'}` : ''}`}
+                        style={{
+                          width: '40px',
+                          height: '40px',
+                          borderRadius: '0.4rem',
+                          border: `2px solid ${seatColors[status].border}`,
+                          backgroundColor: seatColors[status].bg,
+                          color: seatColors[status].text,
+                          boxShadow: seat.seatNumber === activeSeat ? '0 0 0 3px rgba(245, 158, 11, 0.45)' : 'none',
+                          fontSize: '0.7rem',
+                          fontWeight: 600,
+                          cursor: disabled ? 'not-allowed' : 'pointer',
+                          transition: 'all 0.2s'
+                        }}
+                      >
+                        {seat.row}{seat.column}
+                      </button>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
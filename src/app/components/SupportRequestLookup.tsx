@@ -0,0 +1,61 @@
+// src/app/components/SupportRequestLookup.tsx
+'use client';
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { useTrackedTicket } from '@/app/hooks/useSupportTickets';
+import { TICKET_STATUS_DISPLAY } from '@/app/services/supportRequestService';
+import { TICKET_CATEGORY_LABELS } from '@/app/domain';
+
+interface ThemeStyles {
+  textPrimary: string;
+  textSecondary: string;
+  quickActionBg: string;
+  quickActionBorder: string;
+}
+
+interface SupportRequestLookupProps {
+  currentThemeStyles: ThemeStyles;
+}
+
+// Looks up a request sent through the contact form by the reference number it was given
+export default function SupportRequestLookup({ currentThemeStyles }: SupportRequestLookupProps) {
+  const [input, setInput] = useState('');
+  const [reference, setReference] = useState<string | null>(null);
+  const { ticket, error, isLoading } = useTrackedTicket(reference);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = input.trim().toUpperCase();
+    setReference(trimmed || null);
+  };
+
+  const status = ticket ? TICKET_STATUS_DISPLAY[ticket.status] : null;
+
+  return (
+    <div>
+      <form onSubmit={handleSubmit} style={{ display: 'flex', gap: '0.5rem' }}>
+        <input value={input} onChange={(e) => setInput(e.target.value)} placeholder="Reference number, e.g. TKT-000123" style={{ flex: 1, padding: '0.6rem 0.75rem', borderRadius: '0.5rem', border: currentThemeStyles.quickActionBorder, backgroundColor: currentThemeStyles.quickActionBg, color: currentThemeStyles.textPrimary, fontSize: '0.9rem' }} />
+        <button type="submit" disabled={!input.trim() || isLoading} style={{ backgroundColor: '#F59E0B', color: 'white', padding: '0.6rem 1rem', border: 'none', borderRadius: '0.5rem', cursor: !input.trim() || isLoading ? 'not-allowed' : 'pointer', fontWeight: 600, fontSize: '0.9rem' }}>
+          {isLoading ? 'Looking up...' : 'Track'}
+        </button>
+      </form>
+      {reference && !isLoading && error != null && !ticket && (
+        <p style={{ color: '#dc2626', fontSize: '0.85rem', margin: '0.75rem 0 0 0' }}>We couldn&apos;t find a request with reference {reference} on your account.</p>
+      )}
+      {ticket && status && (
+        <div style={{ marginTop: '0.75rem', padding: '1rem', borderRadius: '0.75rem', backgroundColor: currentThemeStyles.quickActionBg, border: currentThemeStyles.quickActionBorder }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem' }}>
+            <span style={{ color: currentThemeStyles.textPrimary, fontWeight: 600 }}>{ticket.subject}</span>
+            <span style={{ backgroundColor: `${status.color}20`, color: status.color, padding: '0.2rem 0.6rem', borderRadius: '9999px', fontSize: '0.75rem', fontWeight: 600, whiteSpace: 'nowrap' }}>{status.label}</span>
+          </div>
+          <p style={{ color: currentThemeStyles.textSecondary, fontSize: '0.8rem', margin: '0.5rem 0 0 0' }}>
+            {ticket.ticketId} · {TICKET_CATEGORY_LABELS[ticket.category] || ticket.category} · last updated {new Date(ticket.updatedAt).toLocaleString()}
+          </p>
+          <Link href={`/dashboard/support?ticket=${encodeURIComponent(ticket.ticketId)}`} style={{ display: 'inline-block', marginTop: '0.5rem', color: '#F59E0B', textDecoration: 'none', fontSize: '0.85rem', fontWeight: 600 }}>
+            View conversation →
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+}
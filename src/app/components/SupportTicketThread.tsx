@@ -0,0 +1,161 @@
+// src/app/components/SupportTicketThread.tsx
+'use client';
+import React, { useState } from 'react';
+import { PaperClipIcon } from '@heroicons/react/24/outline';
+import { useTicketActions, useTrackedTicket } from '@/app/hooks/useSupportTickets';
+import contactService, { ATTACHMENT_TYPES, MAX_ATTACHMENTS } from '@/app/services/contactService';
+import supportRequestService, { REPLY_MAX_LENGTH, TICKET_STATUS_DISPLAY } from '@/app/services/supportRequestService';
+import { TICKET_CATEGORY_LABELS } from '@/app/domain';
+
+interface ThemeStyles {
+  textPrimary: string;
+  textSecondary: string;
+  textMuted: string;
+  quickActionBg: string;
+  quickActionBorder: string;
+}
+
+interface SupportTicketThreadProps {
+  reference: string;
+  currentThemeStyles: ThemeStyles;
+}
+
+const AUTHOR_COLORS = { passenger: '#F59E0B', agent: '#3b82f6', system: '#6b7280' };
+
+const fileName = (url: string) => decodeURIComponent(url.split('?')[0].split('/').pop() || url);
+
+// One ticket's conversation with support, where the passenger replies or reopens it once resolved
+export default function SupportTicketThread({ reference, currentThemeStyles }: SupportTicketThreadProps) {
+  const { ticket, error, isLoading } = useTrackedTicket(reference);
+  const { reply, reopen } = useTicketActions();
+  const [message, setMessage] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+  const [sending, setSending] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [reopening, setReopening] = useState(false);
+
+  if (!ticket) {
+    return (
+      <p style={{ color: error ? '#dc2626' : currentThemeStyles.textSecondary, margin: 0 }}>
+        {isLoading || !error ? 'Loading conversation...' : 'This request could not be loaded. Please try again.'}
+      </p>
+    );
+  }
+
+  const status = TICKET_STATUS_DISPLAY[ticket.status];
+  const canReply = supportRequestService.canReply(ticket);
+  const canReopen = supportRequestService.canReopen(ticket);
+  const reopenDeadline = supportRequestService.reopenDeadline(ticket);
+
+  const handleFilesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const next = [...files, ...Array.from(e.target.files || [])];
+    e.target.value = '';
+    const invalid = contactService.validateAttachments(next);
+    setActionError(invalid);
+    if (!invalid) setFiles(next);
+  };
+
+  const send = async (action: 'reply' | 'reopen') => {
+    const invalid = action === 'reply' ? supportRequestService.validateReply(message, files.length) : (message.trim() ? null : 'Tell us why the problem is not solved');
+    if (invalid) { setActionError(invalid); return; }
+    setSending(true);
+    setActionError(null);
+    try {
+      if (action === 'reopen') {
+        // The reason becomes the reopened ticket's first new message; files follow as a reply of their own
+        await reopen(ticket.ticketId, message);
+        if (files.length) await reply(ticket.ticketId, '', files);
+      } else {
+        await reply(ticket.ticketId, message, files);
+      }
+      setMessage('');
+      setFiles([]);
+      setReopening(false);
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Your reply could not be sent');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const inputStyle: React.CSSProperties = { width: '100%', padding: '0.75rem', borderRadius: '0.5rem', border: currentThemeStyles.quickActionBorder, backgroundColor: currentThemeStyles.quickActionBg, color: currentThemeStyles.textPrimary, fontSize: '0.9rem', resize: 'vertical', boxSizing: 'border-box' };
+  const buttonStyle = (color: string): React.CSSProperties => ({ backgroundColor: color, color: 'white', padding: '0.6rem 1.25rem', border: 'none', borderRadius: '0.5rem', cursor: sending ? 'not-allowed' : 'pointer', opacity: sending ? 0.6 : 1, fontWeight: 600, fontSize: '0.9rem' });
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+      <div>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: '1rem' }}>
+          <h3 style={{ color: currentThemeStyles.textPrimary, fontSize: '1.2rem', fontWeight: 600, margin: 0 }}>{ticket.subject}</h3>
+          <span style={{ backgroundColor: `${status.color}20`, color: status.color, padding: '0.2rem 0.6rem', borderRadius: '9999px', fontSize: '0.75rem', fontWeight: 600, whiteSpace: 'nowrap' }}>{status.label}</span>
+        </div>
+        <p style={{ color: currentThemeStyles.textMuted, fontSize: '0.8rem', margin: '0.25rem 0 0 0' }}>
+          {ticket.ticketId} · {TICKET_CATEGORY_LABELS[ticket.category] || ticket.category}{ticket.assignedAgent && ` · handled by ${ticket.assignedAgent.name}`}
+        </p>
+        {ticket.mergedInto && (
+          <p style={{ color: currentThemeStyles.textSecondary, fontSize: '0.85rem', margin: '0.5rem 0 0 0' }}>
+            This request was combined with {ticket.mergedInto.ticketId}; the conversation continues there.
+          </p>
+        )}
+      </div>
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+        {supportRequestService.conversation(ticket).map(entry => entry.author === 'system' ? (
+          <div key={entry.id} style={{ textAlign: 'center', fontSize: '0.8rem', color: currentThemeStyles.textMuted }}>
+            {entry.text} · {new Date(entry.timestamp).toLocaleString()}
+          </div>
+        ) : (
+          <div key={entry.id} style={{ alignSelf: entry.author === 'passenger' ? 'flex-end' : 'flex-start', maxWidth: '85%', padding: '0.75rem 1rem', borderRadius: '0.75rem', backgroundColor: currentThemeStyles.quickActionBg, border: currentThemeStyles.quickActionBorder, borderLeft: `3px solid ${AUTHOR_COLORS[entry.author]}` }}>
+            <div style={{ fontSize: '0.8rem', fontWeight: 600, color: AUTHOR_COLORS[entry.author], marginBottom: '0.25rem' }}>
+              {entry.author === 'passenger' ? 'You' : entry.name}
+            </div>
+            <div style={{ color: currentThemeStyles.textPrimary, fontSize: '0.9rem', whiteSpace: 'pre-wrap' }}>{entry.text}</div>
+            {entry.attachments.map(url => (
+              <a key={url} href={url} target="_blank" rel="noopener noreferrer" style={{ display: 'flex', alignItems: 'center', gap: '0.25rem', marginTop: '0.375rem', fontSize: '0.8rem', color: '#3b82f6' }}>
+                <PaperClipIcon width={14} height={14} /> {fileName(url)}
+              </a>
+            ))}
+            <div style={{ fontSize: '0.7rem', color: currentThemeStyles.textMuted, marginTop: '0.375rem' }}>{new Date(entry.timestamp).toLocaleString()}</div>
+          </div>
+        ))}
+      </div>
+
+      {ticket.status === 'resolved' && !reopening && (
+        <div style={{ padding: '1rem', borderRadius: '0.75rem', backgroundColor: 'rgba(16, 185, 129, 0.1)', border: '1px solid rgba(16, 185, 129, 0.3)', fontSize: '0.875rem', color: currentThemeStyles.textSecondary }}>
+          {ticket.resolution?.solution && <p style={{ margin: '0 0 0.5rem 0', color: currentThemeStyles.textPrimary }}>{ticket.resolution.solution}</p>}
+          {canReopen && reopenDeadline ? (
+            <>
+              Not solved? You can reopen this request until {reopenDeadline.toLocaleDateString()}.{' '}
+              <button onClick={() => setReopening(true)} style={{ background: 'none', border: 'none', padding: 0, color: '#3b82f6', cursor: 'pointer', fontWeight: 600, fontSize: '0.875rem' }}>Reopen</button>
+            </>
+          ) : (
+            <>This request can no longer be reopened. If you still need help, please send us a new message.</>
+          )}
+        </div>
+      )}
+
+      {(canReply || reopening) && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+          <textarea value={message} onChange={(e) => setMessage(e.target.value)} rows={4} maxLength={REPLY_MAX_LENGTH} placeholder={reopening ? 'What is still not working?' : 'Write a reply...'} style={inputStyle} />
+          <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', flexWrap: 'wrap' }}>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '0.25rem', fontSize: '0.85rem', color: '#3b82f6', cursor: files.length >= MAX_ATTACHMENTS ? 'not-allowed' : 'pointer', fontWeight: 600 }}>
+              <PaperClipIcon width={16} height={16} /> Attach
+              <input type="file" multiple accept={ATTACHMENT_TYPES.join(',')} onChange={handleFilesChange} disabled={files.length >= MAX_ATTACHMENTS} style={{ display: 'none' }} />
+            </label>
+            {files.map((file, index) => (
+              <span key={`${file.name}-${index}`} style={{ fontSize: '0.8rem', color: currentThemeStyles.textSecondary }}>
+                {file.name}{' '}
+                <button onClick={() => setFiles(prev => prev.filter((_, i) => i !== index))} aria-label={`Remove ${file.name}`} style={{ background: 'none', border: 'none', color: '#dc2626', cursor: 'pointer', padding: 0 }}>✕</button>
+              </span>
+            ))}
+            <span style={{ flex: 1 }} />
+            {reopening && <button onClick={() => { setReopening(false); setActionError(null); }} disabled={sending} style={buttonStyle('#6b7280')}>Cancel</button>}
+            <button onClick={() => send(reopening ? 'reopen' : 'reply')} disabled={sending} style={buttonStyle('#F59E0B')}>
+              {sending ? 'Sending...' : reopening ? 'Reopen request' : 'Send reply'}
+            </button>
+          </div>
+        </div>
+      )}
+      {actionError && <p style={{ color: '#dc2626', fontSize: '0.85rem', margin: 0 }}>{actionError}</p>}
+    </div>
+  );
+}
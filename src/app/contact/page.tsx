@@ -1,20 +1,51 @@
 "use client";
 
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import Link from 'next/link';
 import styles from './contact.module.css';
+import ArticleSuggestions from '@/app/components/ArticleSuggestions';
+import { useArticleLanguage, useArticleSuggestions } from '@/app/hooks/useKnowledgeBase';
+import { useSubmitContactForm } from '@/app/hooks/useSupportTickets';
+import contactService, { ATTACHMENT_TYPES, CONTACT_CATEGORIES, MAX_ATTACHMENTS, type ContactCategory, type ContactCustomer, type ContactForm } from '@/app/services/contactService';
+
+const emptyForm = (): ContactForm => ({
+  name: '',
+  email: '',
+  phone: '',
+  subject: '',
+  category: '',
+  message: '',
+  website: ''
+});
 
 export default function ContactPage() {
-  const [formData, setFormData] = useState({
-    name: '',
-    email: '',
-    phone: '',
-    subject: '',
-    category: '',
-    message: ''
-  });
+  const [formData, setFormData] = useState<ContactForm>(emptyForm);
+  const [attachments, setAttachments] = useState<File[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showSuccess, setShowSuccess] = useState(false);
+  const [reference, setReference] = useState<string | null>(null);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [customer, setCustomer] = useState<ContactCustomer>({});
+  const [signedIn, setSignedIn] = useState(false);
+  // When the form was shown, for the too-fast-to-be-human check
+  const openedAt = useRef(Date.now());
+  const submitContactForm = useSubmitContactForm();
+  const [articleLanguage] = useArticleLanguage();
+  // Help articles matching what they have written so far, offered before the message is sent
+  const suggestions = useArticleSuggestions(`${formData.subject} ${formData.message}`, articleLanguage, formData.category ? CONTACT_CATEGORIES[formData.category].category : undefined);
+
+  // Signed-in passengers get their details filled in and the ticket linked to their account
+  useEffect(() => {
+    try {
+      const user = JSON.parse(localStorage.getItem('user') || 'null');
+      if (!user || !localStorage.getItem('token')) return;
+      setSignedIn(true);
+      setCustomer({ customerId: user._id || user.id });
+      setFormData(prev => ({ ...prev, name: prev.name || user.name || '', email: prev.email || user.email || '', phone: prev.phone || user.phone || '' }));
+    } catch {
+      // A corrupt stored user just means the form starts empty
+    }
+  }, []);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
@@ -24,25 +55,31 @@ export default function ContactPage() {
     }));
   };
 
+  const handleFilesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = [...attachments, ...Array.from(e.target.files || [])];
+    e.target.value = '';
+    const invalid = contactService.validateAttachments(files);
+    setSubmitError(invalid);
+    if (!invalid) setAttachments(files);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsSubmitting(true);
-    
-    // Simulate API call
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    
-    setIsSubmitting(false);
-    setShowSuccess(true);
-    setFormData({
-      name: '',
-      email: '',
-      phone: '',
-      subject: '',
-      category: '',
-      message: ''
-    });
-    
-    setTimeout(() => setShowSuccess(false), 5000);
+    setSubmitError(null);
+
+    try {
+      const ticketReference = await submitContactForm(formData, attachments, openedAt.current, customer);
+      setReference(ticketReference);
+      setShowSuccess(true);
+      setFormData(prev => ({ ...emptyForm(), name: prev.name, email: prev.email, phone: prev.phone }));
+      setAttachments([]);
+      openedAt.current = Date.now();
+    } catch (error) {
+      setSubmitError(error instanceof Error ? error.message : 'Your message could not be sent. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
   return (
@@ -405,10 +442,23 @@ export default function ContactPage() {
               {showSuccess && (
                 <div className={styles.successMessage}>
                   ✅ Thank you for your message! We&apos;ll get back to you within 2 hours.
+                  {reference && (
+                    <p className={styles.referenceNote}>
+                      Your reference number is <strong className={styles.referenceNumber}>{reference}</strong>.{' '}
+                      {signedIn ? <>You can follow it in <Link href={`/dashboard/support?ticket=${encodeURIComponent(reference)}`}>your support requests</Link>.</> : <>Keep it to follow your request from your dashboard once you <Link href="/login">sign in</Link>.</>}
+                    </p>
+                  )}
                 </div>
               )}
+              {submitError && (
+                <div className={styles.errorMessage}>{submitError}</div>
+              )}
 
               <form onSubmit={handleSubmit}>
+                {/* Honeypot: hidden from people and screen readers, so only bots fill it in */}
+                <div className={styles.honeypot} aria-hidden="true">
+                  <label>Website<input type="text" name="website" value={formData.website} onChange={handleChange} tabIndex={-1} autoComplete="off" /></label>
+                </div>
                 <div className={styles.formGroup}>
                   <label className={styles.formLabel}>Full Name *</label>
                   <input type="text" name="name" value={formData.name} onChange={handleChange} required placeholder="Your full name" className={`${styles.formInput} ${styles.inputFocus}`} />
@@ -425,12 +475,9 @@ export default function ContactPage() {
                      <label className={styles.formLabel}>Category *</label>
                      <select name="category" value={formData.category} onChange={handleChange} required className={`${styles.formInput} ${styles.inputFocus}`}>
                         <option value="">Select category</option>
-                        <option value="general">General Inquiry</option>
-                        <option value="technical">Technical Support</option>
-                        <option value="feedback">Feedback</option>
-                        <option value="partnership">Partnership</option>
-                        <option value="billing">Billing Issue</option>
-                        <option value="emergency">Emergency</option>
+                        {(Object.keys(CONTACT_CATEGORIES) as ContactCategory[]).map(category => (
+                          <option key={category} value={category}>{CONTACT_CATEGORIES[category].label}</option>
+                        ))}
                      </select>
                  </div>
                  <div className={styles.formGroup}>
@@ -441,6 +488,26 @@ export default function ContactPage() {
                     <label className={styles.formLabel}>Message *</label>
                     <textarea name="message" value={formData.message} onChange={handleChange} required rows={5} placeholder="Please provide details about your inquiry..." className={`${styles.formTextarea} ${styles.inputFocus}`} />
                  </div>
+                 <div className={styles.formGroup}>
+                    <label className={styles.formLabel}>Attachments</label>
+                    <input type="file" multiple accept={ATTACHMENT_TYPES.join(',')} onChange={handleFilesChange} disabled={attachments.length >= MAX_ATTACHMENTS} className={styles.fileInput} />
+                    <p className={styles.attachmentHint}>Screenshots, tickets or receipts — up to {MAX_ATTACHMENTS} JPG, PNG, WebP or PDF files, 5 MB each.</p>
+                    {attachments.length > 0 && (
+                      <ul className={styles.attachmentList}>
+                        {attachments.map((file, index) => (
+                          <li key={`${file.name}-${index}`} className={styles.attachmentItem}>
+                            <span>📎 {file.name}</span>
+                            <button type="button" onClick={() => setAttachments(prev => prev.filter((_, i) => i !== index))} className={styles.attachmentRemove}>Remove</button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                 </div>
+                 {suggestions.length > 0 && (
+                   <div className={styles.formGroup}>
+                     <ArticleSuggestions matches={suggestions} currentThemeStyles={{ textSecondary: '#4B5563', cardBg: 'rgba(254, 243, 199, 0.6)', cardBorder: '1px solid rgba(251, 191, 36, 0.4)' }} />
+                   </div>
+                 )}
 
                  <button type="submit" disabled={isSubmitting} className={`${styles.submitButton} ${styles.buttonHover}`} >
                    {isSubmitting ? 'Sending...' : 'Send Message'}
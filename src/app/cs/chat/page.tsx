@@ -1,55 +1,51 @@
 // app/cs/chat/page.tsx - REFACTORED VERSION
 'use client';
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
 import { useTheme } from '@/app/context/ThemeContext';
 import ThemeSwitcher from '@/app/components/ThemeSwitcher';
 import AnimatedBackground from '@/app/cs/components/AnimatedBackground'; // IMPORT THE NEW COMPONENT
+import ChatRoutingPanel from '@/app/cs/components/ChatRoutingPanel';
+import MacroSuggestions from '@/app/cs/components/MacroSuggestions';
+import ReplySuggestions from '@/app/cs/components/ReplySuggestions';
 import { 
   ShieldCheckIcon, ChatBubbleOvalLeftEllipsisIcon, ClockIcon, ListBulletIcon, ChartBarIcon, 
   CheckBadgeIcon, PaperAirplaneIcon, UserCircleIcon, ArrowUturnLeftIcon, PowerIcon,
   CpuChipIcon, Cog6ToothIcon
 } from '@heroicons/react/24/outline';
+import apiClient, { ApiError, type AgentChatMessage, type AgentChatSession, type ChatQueueStats } from '@/app/services/apiClient';
+import chatRouter, { DEFAULT_ROUTING_SETTINGS, type AgentStatus, type RoutingAgent, type RoutingDecision, type RoutingSettings } from '@/app/services/chatRouting';
+import { useCSWebSocket, type AgentStatusData } from '@/app/hooks/useCSWebSocket';
+import { useChatChannel } from '@/app/hooks/useChatChannel';
+import { useResource } from '@/app/hooks/useResource';
+import { useCoordinatorLease } from '@/app/hooks/useCoordinatorLease';
+import { useMacroLibrary, useSlashMacros } from '@/app/hooks/useMacros';
+import { useCustomerProfile } from '@/app/hooks/useCustomers';
+import { usePublishedArticles } from '@/app/hooks/useKnowledgeBase';
+import { useReplySuggestions } from '@/app/hooks/useReplySuggestions';
+import replySuggestionService, { type ReplyContext } from '@/app/services/replySuggestionService';
 
-// --- Data Interfaces (Unchanged) ---
-interface ChatSession {
-  _id: string;
-  sessionId: string;
-  customerInfo: {
-    name: string;
-    email: string;
-    id?: string;
-  };
-  assignedAgent?: {
-    id: string;
-    name: string;
-  };
-  status: 'waiting' | 'active' | 'ended' | 'escalated';
-  priority: 'low' | 'normal' | 'high' | 'urgent';
-  channel: string;
-  startedAt: string;
-  messages: ChatMessage[];
-  waitTime?: number;
-  lastMessage?: string;
-}
+// --- Data Interfaces ---
+type ChatSession = AgentChatSession;
+type ChatMessage = AgentChatMessage;
+type QueueStats = ChatQueueStats;
 
-interface ChatMessage {
-  _id: string;
-  sender: 'customer' | 'agent' | 'ai' | 'system';
-  message: string;
-  timestamp: string;
-  readBy?: string[];
-}
+// The queue is only polled while the CS socket is down; otherwise it refreshes when the socket says something changed
+const FALLBACK_REFRESH_MS = 5000;
+const QUEUE_REFRESH_DEBOUNCE_MS = 500;
 
-interface QueueStats {
-  active: number;
-  waiting: number;
-  ended: number;
-  total: number;
-  avgWaitTime: string;
-  avgResponseTime: string;
-  satisfactionRate: string;
-}
+// Waiting chats are re-planned this often so overflow deadlines are acted on without a queue change
+const ROUTING_TICK_MS = 15000;
+
+const AGENT_STATUS_COLORS: Record<AgentStatus, string> = { online: '#22c55e', busy: '#f59e0b', away: '#ef4444', offline: '#6b7280' };
+
+const describeDecision = (decision: RoutingDecision | undefined): string | null => {
+  if (!decision) return null;
+  if (decision.type === 'assign') return `Routing to ${decision.agentName}`;
+  if (decision.type === 'overflow') return 'Overflowing...';
+  if (decision.overflowInMs === null) return 'No agent free';
+  return `No agent free · overflows in ${Math.ceil(decision.overflowInMs / 60000)}m`;
+};
 
 // --- Main Component ---
 export default function CSChat() {
@@ -64,9 +60,30 @@ export default function CSChat() {
   const [newMessage, setNewMessage] = useState('');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [agentStatus, setAgentStatus] = useState('available');
+  const [agentStatus, setAgentStatus] = useState<AgentStatus>('online');
   const [autoRefresh] = useState(true);
+  const [currentAgentId, setCurrentAgentId] = useState<string | null>(null);
+  const [currentAgentName, setCurrentAgentName] = useState<string | undefined>(undefined);
+  const [queueTab, setQueueTab] = useState<'queue' | 'routing'>('queue');
+  const [routingClock, setRoutingClock] = useState(() => Date.now());
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const queueRefreshTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const routingInFlightRef = useRef(new Set<string>());
+  const agentStatusSyncedRef = useRef(false);
+  const { connected: csConnected, subscribe, sendMessage: sendCSMessage } = useCSWebSocket();
+
+  // Keys wait for the signed-in agent so the server render and first client render match
+  const agents = useResource<RoutingAgent[]>(
+    currentAgentId ? '/cs/agents' : null,
+    () => apiClient.cs.agents.list().then(response => response.data.agents || []),
+    { refreshInterval: csConnected ? 0 : FALLBACK_REFRESH_MS }
+  );
+  const routing = useResource<RoutingSettings>(
+    currentAgentId ? '/cs/routing/settings' : null,
+    () => apiClient.cs.routing.settings().then(response => ({ ...DEFAULT_ROUTING_SETTINGS, ...response.data.settings }))
+  );
+  const agentList = useMemo(() => agents.data || [], [agents.data]);
+  const routingSettings = routing.data || DEFAULT_ROUTING_SETTINGS;
 
   // --- Theme and Style Definitions ---
   const lightTheme = { mainBg: '#fffbeb', bgGradient: 'linear-gradient(to bottom right, #fffbeb, #fef3c7, #fde68a)', glassPanelBg: 'rgba(255, 255, 255, 0.92)', glassPanelBorder: '1px solid rgba(251, 191, 36, 0.3)', glassPanelShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.25), 0 10px 20px -5px rgba(0, 0, 0, 0.1)', textPrimary: '#1f2937', textSecondary: '#4B5563', textMuted: '#6B7280', quickActionBg: 'rgba(249, 250, 251, 0.8)', quickActionBorder: '1px solid rgba(209, 213, 219, 0.5)', alertBg: 'rgba(249, 250, 251, 0.6)' };
@@ -80,42 +97,179 @@ export default function CSChat() {
     .chat-item:hover { background-color: ${theme === 'dark' ? 'rgba(75, 85, 99, 0.5)' : 'rgba(243, 244, 246, 0.7)'} !important; }
   `;
 
-  // --- Data Fetching and Actions (Original Logic - Unchanged) ---
+  // --- Data Fetching and Actions ---
   useEffect(() => {
     const token = localStorage.getItem('cs_token');
     if (!token) {
       router.push('/cs/login');
       return;
     }
-    fetchChatData(token);
-    
-    const interval = autoRefresh ? setInterval(() => fetchChatData(token), 5000) : null;
-    return () => { if (interval) clearInterval(interval); };
-  }, [autoRefresh, router]);
+    try {
+      const user = JSON.parse(localStorage.getItem('cs_user') || 'null');
+      setCurrentAgentId(user?._id || user?.id || null);
+      setCurrentAgentName(user?.name);
+    } catch {
+      setCurrentAgentId(null);
+    }
+    fetchChatData();
+  }, [router]);
 
   useEffect(() => {
-    scrollToBottom();
-  }, [messages]);
+    const token = localStorage.getItem('cs_token');
+    if (!token || !autoRefresh || csConnected) return;
+    const interval = setInterval(() => fetchChatData(), FALLBACK_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [autoRefresh, csConnected]);
 
-  const fetchChatData = async (token: string) => {
-    setError(null);
+  // New chats and messages arrive in bursts (e.g. a replay after reconnecting), so refreshes are coalesced
+  const scheduleQueueRefresh = useCallback(() => {
+    const token = localStorage.getItem('cs_token');
+    if (!token) return;
+    if (queueRefreshTimerRef.current) clearTimeout(queueRefreshTimerRef.current);
+    queueRefreshTimerRef.current = setTimeout(() => fetchChatData(), QUEUE_REFRESH_DEBOUNCE_MS);
+  }, []);
+
+  const { mutate: mutateAgents, refresh: refreshAgents } = agents;
+  const agentsRef = useRef(agents.data);
+  agentsRef.current = agents.data;
+  useEffect(() => {
+    const unsubscribe = subscribe((event) => {
+      if (event.type === 'new_chat' || event.type === 'chat_message') {
+        scheduleQueueRefresh();
+      } else if (event.type === 'agent_status') {
+        const update = event.data as AgentStatusData;
+        const current = agentsRef.current;
+        if (!current?.some(agent => agent.id === update.agentId)) {
+          refreshAgents();
+          return;
+        }
+        mutateAgents(current.map(agent => agent.id === update.agentId ? {
+          ...agent,
+          status: update.status,
+          activeChats: update.activeChats ?? agent.activeChats,
+          maxConcurrentChats: update.maxConcurrentChats ?? agent.maxConcurrentChats,
+        } : agent));
+      }
+    });
+    return () => {
+      unsubscribe();
+      if (queueRefreshTimerRef.current) clearTimeout(queueRefreshTimerRef.current);
+    };
+  }, [subscribe, scheduleQueueRefresh, mutateAgents, refreshAgents]);
+
+  // Pick up the status this agent left the console with, once
+  useEffect(() => {
+    const me = agentList.find(agent => agent.id === currentAgentId);
+    if (!me || agentStatusSyncedRef.current) return;
+    agentStatusSyncedRef.current = true;
+    if (me.status !== 'offline') setAgentStatus(me.status);
+  }, [agentList, currentAgentId]);
+
+  const changeAgentStatus = async (status: AgentStatus) => {
+    setAgentStatus(status);
+    sendCSMessage({ type: 'agent_status', data: { agentId: currentAgentId, status } });
     try {
-      const [sessionsRes, statsRes] = await Promise.all([
-        fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/cs/chat/sessions`, {
-          headers: { Authorization: `Bearer ${token}` }
-        }),
-        fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/cs/chat/sessions/stats`, {
-          headers: { Authorization: `Bearer ${token}` }
+      await apiClient.cs.agents.setStatus(status);
+    } catch (statusError) {
+      console.error('Failed to update agent status:', statusError);
+      setError('Failed to update your status');
+    }
+  };
+
+  // --- Automatic routing ---
+  useEffect(() => {
+    const interval = setInterval(() => setRoutingClock(Date.now()), ROUTING_TICK_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const routingPlan = useMemo(
+    () => chatRouter.plan(chatSessions, agentList, routingSettings, routingClock),
+    [chatSessions, agentList, routingSettings, routingClock]
+  );
+  const routingByChat = useMemo(() => new Map(routingPlan.map(decision => [decision.chatId, decision])), [routingPlan]);
+  // Any open console can hold the lease, so routing and overflow keep running when every agent is busy or away
+  const { isCoordinator, holderAgentId: coordinatorId } = useCoordinatorLease('chat_routing', !!currentAgentId);
+
+  useEffect(() => {
+    if (!isCoordinator) return;
+    routingPlan.forEach(decision => {
+      if (decision.type === 'wait' || (decision.type === 'assign' && !routingSettings.autoAssign)) return;
+      if (routingInFlightRef.current.has(decision.chatId)) return;
+      routingInFlightRef.current.add(decision.chatId);
+      const request = decision.type === 'assign'
+        ? apiClient.cs.chat.assign(decision.chatId, decision.agentId)
+        : apiClient.cs.chat.overflow(decision.chatId, decision.action);
+      request
+        .catch(routingError => {
+          // Conflict means the chat was picked up or closed in the meantime
+          if (!(routingError instanceof ApiError && routingError.code === 'conflict')) console.error('Chat routing failed:', routingError);
         })
-      ]);
+        .finally(() => {
+          routingInFlightRef.current.delete(decision.chatId);
+          scheduleQueueRefresh();
+        });
+    });
+  }, [isCoordinator, routingPlan, routingSettings.autoAssign, scheduleQueueRefresh]);
 
-      if (!sessionsRes.ok || !statsRes.ok) {
-        throw new Error('Failed to fetch chat data');
-      }
+  const selectedChatId = selectedChat?._id;
+  // Messages that arrive after the agent has moved to another chat are dropped
+  const selectedChatIdRef = useRef(selectedChatId);
+  selectedChatIdRef.current = selectedChatId;
+  const loadMessages = useCallback(async (chatId: string) => {
+    try {
+      const response = await apiClient.cs.chat.session(chatId);
+      if (chatId !== selectedChatIdRef.current) return;
+      if (response.success) setMessages(response.data.messages || []);
+    } catch (fetchError) {
+      console.error('Failed to fetch messages:', fetchError);
+      setError('Failed to load chat messages');
+    }
+  }, []);
+
+  const channel = useChatChannel<ChatMessage>(selectedChatId ?? null, 'agent', {
+    onMessage: (message) => {
+      setMessages(prev => prev.some(m => m._id === message._id) ? prev : [...prev, message]);
+    },
+    onStatus: ({ sessionId, status, assignedAgent }) => {
+      const applyUpdate = (chat: ChatSession): ChatSession => chat._id === sessionId
+        ? { ...chat, status: status as ChatSession['status'], assignedAgent: assignedAgent ? { id: assignedAgent.id || '', name: assignedAgent.name } : chat.assignedAgent }
+        : chat;
+      setSelectedChat(prev => prev ? applyUpdate(prev) : prev);
+      setChatSessions(prev => prev.map(applyUpdate));
+    },
+  });
+
+  // Messages sent while the channel was down are picked up once it is back; until then the open chat is polled
+  useEffect(() => {
+    if (selectedChatId && channel.connected) loadMessages(selectedChatId);
+  }, [selectedChatId, channel.connected, loadMessages]);
 
+  useEffect(() => {
+    if (!selectedChatId || channel.connected) return;
+    const interval = setInterval(() => loadMessages(selectedChatId), FALLBACK_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [selectedChatId, channel.connected, loadMessages]);
+
+  const { markRead, setPresence } = channel;
+  useEffect(() => {
+    const unread = messages.filter(m => m.sender === 'customer').map(m => m._id);
+    if (unread.length > 0) markRead(unread);
+  }, [messages, markRead]);
+
+  useEffect(() => {
+    if (channel.connected) setPresence(agentStatus);
+  }, [agentStatus, channel.connected, setPresence]);
+
+  useEffect(() => {
+    scrollToBottom();
+  }, [messages]);
+
+  const fetchChatData = async () => {
+    setError(null);
+    try {
       const [sessionsData, statsData] = await Promise.all([
-        sessionsRes.json(),
-        statsRes.json()
+        apiClient.cs.chat.sessions(),
+        apiClient.cs.chat.stats()
       ]);
 
       if (sessionsData.success && statsData.success) {
@@ -134,64 +288,32 @@ export default function CSChat() {
 
   const selectChat = async (chat: ChatSession) => {
     setSelectedChat(chat);
+    selectedChatIdRef.current = chat._id;
     setMessages([]);
-    const token = localStorage.getItem('cs_token');
-    if (!token) return;
-    
-    try {
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/cs/chat/sessions/${chat._id}`, {
-        headers: { Authorization: `Bearer ${token}` }
-      });
-      
-      if (response.ok) {
-        const data = await response.json();
-        if (data.success) {
-          setMessages(data.data.messages || []);
-        }
-      } else {
-        setError('Failed to load chat messages');
-      }
-    } catch (fetchError) {
-      console.error('Failed to fetch messages:', fetchError);
-      setError('Failed to load chat messages');
-    }
+    // With the channel up, loading happens when the room is joined
+    if (!channel.connected) await loadMessages(chat._id);
   };
 
   const sendMessage = async () => {
     if (!newMessage.trim() || !selectedChat) return;
 
-    const token = localStorage.getItem('cs_token');
-    if (!token) return;
-    const messageData = {
-      message: newMessage,
-      sender: 'agent'
-    };
+    const text = newMessage;
+    channel.stopTyping();
 
     try {
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/cs/chat/sessions/${selectedChat._id}/messages`, {
-        method: 'POST',
-        headers: {
-          Authorization: `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(messageData)
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        if (data.success) {
-          const newMsg: ChatMessage = {
-            _id: data.data.messageId || Date.now().toString(),
-            sender: 'agent',
-            message: newMessage,
-            timestamp: new Date().toISOString()
-          };
-          setMessages(prev => [...prev, newMsg]);
-          setNewMessage('');
-          fetchChatData(token);
-        }
-      } else {
-        setError('Failed to send message');
+      const response = await apiClient.cs.chat.sendMessage(selectedChat._id, text);
+      if (response.success) {
+        const newMsg: ChatMessage = {
+          _id: response.data?.messageId || Date.now().toString(),
+          sender: 'agent',
+          message: text,
+          timestamp: new Date().toISOString()
+        };
+        // The channel may already have delivered this message
+        setMessages(prev => prev.some(m => m._id === newMsg._id) ? prev : [...prev, newMsg]);
+        setNewMessage('');
+        replies.recordSent(text);
+        fetchChatData();
       }
     } catch (sendError) {
       console.error('Failed to send message:', sendError);
@@ -200,26 +322,9 @@ export default function CSChat() {
   };
 
   const assignChat = async (chatId: string) => {
-    const token = localStorage.getItem('cs_token');
-    if (!token) return;
     try {
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/cs/chat/sessions/${chatId}/assign`, {
-        method: 'PUT',
-        headers: {
-          Authorization: `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({ agentId: 'current_agent' })
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        if (data.success) {
-          fetchChatData(token);
-        }
-      } else {
-        setError('Failed to assign chat');
-      }
+      const response = await apiClient.cs.chat.assign(chatId, currentAgentId || 'current_agent');
+      if (response.success) fetchChatData();
     } catch (assignError) {
       console.error('Failed to assign chat:', assignError);
       setError('Failed to assign chat');
@@ -227,27 +332,13 @@ export default function CSChat() {
   };
 
   const endChat = async (chatId: string) => {
-    const token = localStorage.getItem('cs_token');
-    if (!token) return;
     try {
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/cs/chat/sessions/${chatId}/end`, {
-        method: 'PUT',
-        headers: {
-          Authorization: `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({ reason: 'resolved' })
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        if (data.success) {
-          setSelectedChat(null);
-          setMessages([]);
-          fetchChatData(token);
-        }
-      } else {
-        setError('Failed to end chat');
+      const response = await apiClient.cs.chat.end(chatId);
+      if (response.success) {
+        setSelectedChat(null);
+        selectedChatIdRef.current = undefined;
+        setMessages([]);
+        fetchChatData();
       }
     } catch (endError) {
       console.error('Failed to end chat:', endError);
@@ -255,6 +346,32 @@ export default function CSChat() {
     }
   };
 
+  const { macros } = useMacroLibrary();
+  const replyMacros = useSlashMacros({
+    value: newMessage,
+    onChange: setNewMessage,
+    macros,
+    context: {
+      customerName: selectedChat?.customerInfo.name,
+      agentName: currentAgentName,
+      bookingId: selectedChat?.relatedBooking?.bookingId,
+      refundAmount: selectedChat?.relatedBooking?.refundAmount,
+    },
+  });
+
+  const { profile: customerProfile } = useCustomerProfile(selectedChat?.customerInfo.id ?? null);
+  const { articles } = usePublishedArticles();
+  const replyContext = useMemo<ReplyContext | null>(() => selectedChat ? {
+    channel: 'chat',
+    referenceId: selectedChat._id,
+    customerName: selectedChat.customerInfo.name,
+    agentName: currentAgentName,
+    history: messages.map(m => ({ from: m.sender === 'ai' ? 'agent' : m.sender, text: m.message })),
+    ...replySuggestionService.customerContext(customerProfile, selectedChat.relatedBooking?.bookingId),
+    articles,
+  } : null, [selectedChat, currentAgentName, messages, customerProfile, articles]);
+  const replies = useReplySuggestions(replyContext);
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
@@ -286,6 +403,13 @@ export default function CSChat() {
     }
   };
 
+  const getReceiptLabel = (message: ChatMessage) => {
+    const receipt = channel.receipts[message._id] ?? (message.readBy?.length ? 'read' : undefined);
+    if (receipt === 'read') return '✓✓ Read';
+    if (receipt === 'delivered') return '✓✓ Delivered';
+    return '✓ Sent';
+  };
+
   // --- Loading State ---
   if (loading) {
     return (
@@ -321,15 +445,15 @@ export default function CSChat() {
             <div style={{ display: 'flex', gap: '1rem', alignItems: 'center' }}>
               <ThemeSwitcher />
               <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', backgroundColor: currentThemeStyles.quickActionBg, padding: '0.25rem 0.75rem', borderRadius: '999px', border: currentThemeStyles.quickActionBorder }}>
-                <span style={{ width: '8px', height: '8px', borderRadius: '50%', backgroundColor: agentStatus === 'available' ? '#22c55e' : agentStatus === 'busy' ? '#f59e0b' : '#ef4444' }}></span>
-                <select value={agentStatus} onChange={(e) => setAgentStatus(e.target.value)} style={{ background: 'none', border: 'none', color: currentThemeStyles.textPrimary, fontSize: '0.875rem', outline: 'none' }}>
-                  <option value="available">Available</option>
+                <span style={{ width: '8px', height: '8px', borderRadius: '50%', backgroundColor: AGENT_STATUS_COLORS[agentStatus] }}></span>
+                <select value={agentStatus} onChange={(e) => changeAgentStatus(e.target.value as AgentStatus)} style={{ background: 'none', border: 'none', color: currentThemeStyles.textPrimary, fontSize: '0.875rem', outline: 'none' }}>
+                  <option value="online">Online</option>
                   <option value="busy">Busy</option>
                   <option value="away">Away</option>
                 </select>
               </div>
               <span style={{ color: '#94a3b8' }}>Support Agent</span>
-              <button onClick={() => { localStorage.removeItem('cs_token'); router.push('/cs/login'); }} style={{ backgroundColor: '#374151', color: '#f9fafb', padding: '0.5rem 1rem', border: 'none', borderRadius: '0.5rem', cursor: 'pointer', display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+              <button onClick={() => { apiClient.clearSession('cs'); router.push('/cs/login'); }} style={{ backgroundColor: '#374151', color: '#f9fafb', padding: '0.5rem 1rem', border: 'none', borderRadius: '0.5rem', cursor: 'pointer', display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
                 <PowerIcon width={16} /> Logout
               </button>
             </div>
@@ -370,10 +494,28 @@ export default function CSChat() {
             <div style={{ backgroundColor: currentThemeStyles.glassPanelBg, borderRadius: '1rem', boxShadow: currentThemeStyles.glassPanelShadow, backdropFilter: 'blur(12px)', border: currentThemeStyles.glassPanelBorder, display: 'flex', flexDirection: 'column', overflow: 'hidden' }}>
               <div style={{ padding: '1rem', borderBottom: currentThemeStyles.quickActionBorder, display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
                 <ListBulletIcon width={24} height={24} color={currentThemeStyles.textPrimary} />
-                <h3 style={{ fontSize: '1.25rem', fontWeight: '600', color: currentThemeStyles.textPrimary, margin: 0 }}>Chat Queue</h3>
+                {(['queue', 'routing'] as const).map(tab => (
+                  <button key={tab} onClick={() => setQueueTab(tab)} style={{ background: 'none', border: 'none', padding: 0, cursor: 'pointer', fontSize: queueTab === tab ? '1.25rem' : '0.95rem', fontWeight: '600', color: queueTab === tab ? currentThemeStyles.textPrimary : currentThemeStyles.textMuted }}>
+                    {tab === 'queue' ? 'Chat Queue' : 'Routing'}
+                  </button>
+                ))}
+                <span title={csConnected ? 'Updates are pushed as they happen' : 'Live updates unavailable; refreshing every few seconds'} style={{ marginLeft: 'auto', display: 'flex', alignItems: 'center', gap: '0.375rem', fontSize: '0.75rem', color: currentThemeStyles.textMuted }}>
+                  <span style={{ width: '8px', height: '8px', borderRadius: '50%', backgroundColor: csConnected ? '#22c55e' : '#f59e0b' }}></span>
+                  {csConnected ? 'Live' : 'Polling'}
+                </span>
               </div>
               <div style={{ flex: 1, overflowY: 'auto', padding: '0.5rem' }}>
-                {chatSessions.filter(c => c.status !== 'ended').length > 0 ? chatSessions.filter(c => c.status !== 'ended').map(chat => (
+                {queueTab === 'routing' ? (
+                  <ChatRoutingPanel
+                    agents={agentList}
+                    settings={routingSettings}
+                    currentAgentId={currentAgentId}
+                    coordinatorId={coordinatorId}
+                    currentThemeStyles={currentThemeStyles}
+                    onCapacityChange={async (agentId, maxConcurrentChats) => { await apiClient.cs.agents.setCapacity(agentId, maxConcurrentChats); }}
+                    onSettingsChange={async (settings) => { await apiClient.cs.routing.updateSettings(settings); }}
+                  />
+                ) : chatSessions.filter(c => c.status !== 'ended').length > 0 ? chatSessions.filter(c => c.status !== 'ended').map(chat => (
                   <div key={chat._id} onClick={() => selectChat(chat)} className="chat-item" style={{ padding: '1rem', margin: '0.5rem', borderRadius: '0.75rem', cursor: 'pointer', transition: 'all 0.2s ease', backgroundColor: selectedChat?._id === chat._id ? 'rgba(59, 130, 246, 0.2)' : 'transparent', borderLeft: `4px solid ${selectedChat?._id === chat._id ? '#3b82f6' : 'transparent'}` }}>
                     <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.5rem' }}>
                       <strong style={{ color: currentThemeStyles.textPrimary }}>{chat.customerInfo.name}</strong>
@@ -384,6 +526,11 @@ export default function CSChat() {
                       <span>Wait: {calculateWaitTime(chat.startedAt)}m</span>
                       <span style={{ padding: '0.125rem 0.5rem', borderRadius: '999px', backgroundColor: getStatusColor(chat.status) + '30', color: getStatusColor(chat.status) }}>{chat.status}</span>
                     </div>
+                    {chat.status === 'waiting' && describeDecision(routingByChat.get(chat._id)) && (
+                      <p style={{ fontSize: '0.75rem', color: routingByChat.get(chat._id)?.type === 'assign' ? '#22c55e' : '#f59e0b', margin: '0.5rem 0 0 0' }}>
+                        {describeDecision(routingByChat.get(chat._id))}
+                      </p>
+                    )}
                     {chat.status === 'waiting' && (
                       <button onClick={(e) => { e.stopPropagation(); assignChat(chat._id); }} style={{ marginTop: '0.75rem', width: '100%', padding: '0.5rem', backgroundColor: '#22c55e', color: 'white', border: 'none', borderRadius: '0.5rem', cursor: 'pointer', fontWeight: '600' }}>Accept Chat</button>
                     )}
@@ -422,14 +569,27 @@ export default function CSChat() {
                             <span style={{ marginLeft: '0.5rem' }}>{new Date(message.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
                           </div>
                           <div style={{ lineHeight: 1.5 }}>{message.message}</div>
+                          {message.sender === 'agent' && (
+                            <div style={{ fontSize: '0.65rem', marginTop: '0.25rem', textAlign: 'right', opacity: 0.8 }}>
+                              {getReceiptLabel(message)}
+                            </div>
+                          )}
                         </div>
                       </div>
                     ))}
+                    {channel.remoteTyping && (
+                      <div style={{ fontSize: '0.8rem', fontStyle: 'italic', color: currentThemeStyles.textSecondary, padding: '0 0.5rem 0.5rem' }}>
+                        {selectedChat.customerInfo.name} is typing...
+                      </div>
+                    )}
                     <div ref={messagesEndRef} />
                   </div>
                   <div style={{ padding: '1rem', borderTop: currentThemeStyles.quickActionBorder }}>
-                    <div style={{ display: 'flex', gap: '1rem' }}>
-                      <input type="text" value={newMessage} onChange={(e) => setNewMessage(e.target.value)} onKeyPress={(e) => e.key === 'Enter' && sendMessage()} placeholder="Type your message..." style={{ flex: 1, padding: '0.75rem 1rem', border: currentThemeStyles.quickActionBorder, borderRadius: '0.75rem', fontSize: '1rem', backgroundColor: currentThemeStyles.alertBg, color: currentThemeStyles.textPrimary, outline: 'none' }} />
+                    <ReplySuggestions suggestions={replies.suggestions} isLoading={replies.isLoading} provider={replies.provider} onInsert={suggestion => setNewMessage(replies.insert(suggestion))} onDismiss={replies.dismiss} currentThemeStyles={currentThemeStyles} />
+                    {replyMacros.missing.length > 0 && newMessage && <p style={{ fontSize: '0.75rem', color: '#f59e0b', margin: '0 0 0.5rem 0' }}>Fill in before sending: {replyMacros.missing.join(', ')}</p>}
+                    <div style={{ display: 'flex', gap: '1rem', position: 'relative' }}>
+                      <MacroSuggestions suggestions={replyMacros.suggestions} activeIndex={replyMacros.activeIndex} onSelect={replyMacros.insert} currentThemeStyles={currentThemeStyles} />
+                      <input type="text" value={newMessage} onChange={(e) => { setNewMessage(e.target.value); replyMacros.clearMissing(); channel.notifyTyping(); }} onKeyDown={(e) => { if (!replyMacros.handleKeyDown(e) && e.key === 'Enter') sendMessage(); }} placeholder="Type your message... (/ for macros)" style={{ flex: 1, padding: '0.75rem 1rem', border: currentThemeStyles.quickActionBorder, borderRadius: '0.75rem', fontSize: '1rem', backgroundColor: currentThemeStyles.alertBg, color: currentThemeStyles.textPrimary, outline: 'none' }} />
                       <button onClick={sendMessage} disabled={!newMessage.trim()} style={{ padding: '0.75rem 1.5rem', backgroundColor: '#22c55e', color: 'white', border: 'none', borderRadius: '0.75rem', cursor: newMessage.trim() ? 'pointer' : 'not-allowed', opacity: newMessage.trim() ? 1 : 0.6, display: 'flex', alignItems: 'center', gap: '0.5rem', fontWeight: '600' }}>
                         <PaperAirplaneIcon width={20} /> Send
                       </button>
@@ -0,0 +1,99 @@
+// src/app/cs/components/ArticleEditor.tsx
+'use client';
+import React, { useState } from 'react';
+import MarkdownContent from '@/app/components/MarkdownContent';
+import knowledgeBaseService from '@/app/services/knowledgeBaseService';
+import { ARTICLE_LANGUAGES, ARTICLE_LANGUAGE_LABELS, TICKET_CATEGORIES, TICKET_CATEGORY_LABELS, type Article, type ArticleDraft, type ArticleLanguage, type ArticleStatus, type TicketCategory } from '@/app/domain';
+
+interface ThemeStyles {
+  textPrimary: string;
+  textSecondary: string;
+  textMuted: string;
+  inputBg: string;
+  inputBorder: string;
+}
+
+interface ArticleEditorProps {
+  article: Article | null;
+  onSave: (draft: ArticleDraft) => Promise<void>;
+  onCancel: () => void;
+  currentThemeStyles: ThemeStyles;
+}
+
+const emptyDraft = (): ArticleDraft => ({ category: 'other', status: 'draft', tags: [], translations: {} });
+
+export default function ArticleEditor({ article, onSave, onCancel, currentThemeStyles }: ArticleEditorProps) {
+  const [draft, setDraft] = useState<ArticleDraft>(() => article ? { category: article.category, status: article.status, tags: article.tags, translations: article.translations } : emptyDraft());
+  const [tagsText, setTagsText] = useState(() => article?.tags.join(', ') || '');
+  const [language, setLanguage] = useState<ArticleLanguage>('en');
+  const [preview, setPreview] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const translation = draft.translations[language] || { title: '', body: '' };
+  const updateTranslation = (changes: Partial<typeof translation>) =>
+    setDraft(prev => ({ ...prev, translations: { ...prev.translations, [language]: { ...translation, ...changes } } }));
+
+  const save = async (status: ArticleStatus) => {
+    const next = { ...draft, status, tags: tagsText.split(',') };
+    const invalid = knowledgeBaseService.validate(next);
+    if (invalid) { setSaveError(invalid); return; }
+    setSaving(true);
+    setSaveError(null);
+    try {
+      await onSave(next);
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'Failed to save article');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputStyle: React.CSSProperties = { width: '100%', padding: '0.5rem', border: currentThemeStyles.inputBorder, borderRadius: '0.5rem', fontSize: '0.875rem', backgroundColor: currentThemeStyles.inputBg, color: currentThemeStyles.textPrimary, boxSizing: 'border-box' };
+  const tabStyle = (active: boolean): React.CSSProperties => ({ padding: '0.375rem 0.75rem', borderRadius: '0.5rem', fontSize: '0.875rem', fontWeight: 600, cursor: 'pointer', border: active ? '1px solid #3b82f6' : currentThemeStyles.inputBorder, backgroundColor: active ? 'rgba(59, 130, 246, 0.15)' : currentThemeStyles.inputBg, color: active ? '#3b82f6' : currentThemeStyles.textPrimary });
+  const buttonStyle = (color: string): React.CSSProperties => ({ padding: '0.5rem 1rem', backgroundColor: color, color: 'white', border: 'none', borderRadius: '0.5rem', cursor: saving ? 'not-allowed' : 'pointer', opacity: saving ? 0.5 : 1, fontSize: '0.875rem', fontWeight: 600 });
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '0.75rem' }}>
+        <label style={{ fontSize: '0.875rem', color: currentThemeStyles.textSecondary }}>
+          Category
+          <select value={draft.category} onChange={(e) => setDraft(prev => ({ ...prev, category: e.target.value as TicketCategory }))} style={{ ...inputStyle, marginTop: '0.25rem' }}>
+            {TICKET_CATEGORIES.map(category => <option key={category} value={category}>{TICKET_CATEGORY_LABELS[category]}</option>)}
+          </select>
+        </label>
+        <label style={{ fontSize: '0.875rem', color: currentThemeStyles.textSecondary }}>
+          Tags
+          <input value={tagsText} onChange={(e) => setTagsText(e.target.value)} placeholder="refund, cancellation" style={{ ...inputStyle, marginTop: '0.25rem' }} />
+        </label>
+      </div>
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', flexWrap: 'wrap' }}>
+        {ARTICLE_LANGUAGES.map(lang => (
+          <button key={lang} onClick={() => setLanguage(lang)} style={tabStyle(lang === language)}>
+            {ARTICLE_LANGUAGE_LABELS[lang]}{draft.translations[lang]?.title ? ' ✓' : ''}
+          </button>
+        ))}
+        <span style={{ flex: 1 }} />
+        <button onClick={() => setPreview(!preview)} style={{ background: 'none', border: 'none', color: '#3b82f6', cursor: 'pointer', fontSize: '0.875rem' }}>{preview ? 'Edit' : 'Preview'}</button>
+      </div>
+
+      <input value={translation.title} onChange={(e) => updateTranslation({ title: e.target.value })} placeholder={`Title (${ARTICLE_LANGUAGE_LABELS[language]})`} style={{ ...inputStyle, fontSize: '1rem', fontWeight: 600 }} />
+      {preview ? (
+        <div style={{ minHeight: '240px', padding: '0.75rem', border: currentThemeStyles.inputBorder, borderRadius: '0.5rem', color: currentThemeStyles.textPrimary }}>
+          {translation.body ? <MarkdownContent markdown={translation.body} /> : <span style={{ color: currentThemeStyles.textMuted }}>Nothing to preview yet.</span>}
+        </div>
+      ) : (
+        <textarea value={translation.body} onChange={(e) => updateTranslation({ body: e.target.value })} rows={12} placeholder={'Write in markdown: # Heading, **bold**, - list item, [link](https://...)'} style={{ ...inputStyle, fontFamily: 'monospace', resize: 'vertical' }} />
+      )}
+      <p style={{ fontSize: '0.75rem', color: currentThemeStyles.textMuted, margin: 0 }}>Languages left empty fall back to English for passengers.</p>
+
+      {saveError && <div style={{ fontSize: '0.875rem', color: '#dc2626' }}>{saveError}</div>}
+      <div style={{ display: 'flex', gap: '0.5rem' }}>
+        <button onClick={() => save('published')} disabled={saving} style={buttonStyle('#10b981')}>{saving ? 'Saving...' : 'Publish'}</button>
+        <button onClick={() => save('draft')} disabled={saving} style={buttonStyle('#3b82f6')}>Save as draft</button>
+        <button onClick={onCancel} disabled={saving} style={buttonStyle('#6b7280')}>Cancel</button>
+      </div>
+    </div>
+  );
+}
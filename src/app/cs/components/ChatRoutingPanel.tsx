@@ -0,0 +1,132 @@
+// src/app/cs/components/ChatRoutingPanel.tsx
+'use client';
+import React, { useState } from 'react';
+import chatRouter, { type RoutingAgent, type RoutingSettings, type RoutingStrategy, type OverflowAction } from '@/app/services/chatRouting';
+
+interface ThemeStyles {
+  textPrimary: string;
+  textSecondary: string;
+  textMuted: string;
+  quickActionBg: string;
+  quickActionBorder: string;
+}
+
+interface ChatRoutingPanelProps {
+  agents: RoutingAgent[];
+  settings: RoutingSettings;
+  currentAgentId: string | null;
+  coordinatorId: string | null;
+  currentThemeStyles: ThemeStyles;
+  onCapacityChange: (agentId: string, maxConcurrentChats: number | null) => Promise<void>;
+  onSettingsChange: (settings: RoutingSettings) => Promise<void>;
+}
+
+const STATUS_COLORS: Record<RoutingAgent['status'], string> = {
+  online: '#22c55e',
+  busy: '#f59e0b',
+  away: '#a855f7',
+  offline: '#6b7280',
+};
+
+const OVERFLOW_LABELS: Record<OverflowAction, string> = {
+  wait: 'Keep waiting',
+  ai_bot: 'Hand to AI assistant',
+  ticket: 'Convert to ticket',
+  escalate: 'Escalate to supervisors',
+};
+
+export default function ChatRoutingPanel({ agents, settings, currentAgentId, coordinatorId, currentThemeStyles, onCapacityChange, onSettingsChange }: ChatRoutingPanelProps) {
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const save = async (action: () => Promise<void>) => {
+    setSaving(true);
+    setSaveError(null);
+    try {
+      await action();
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'Failed to save routing changes');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateSettings = (changes: Partial<RoutingSettings>) => save(() => onSettingsChange({ ...settings, ...changes }));
+
+  const freeSlots = agents
+    .filter(agent => agent.status === 'online')
+    .reduce((total, agent) => total + Math.max(0, chatRouter.capacityOf(agent, settings) - agent.activeChats), 0);
+
+  const labelStyle: React.CSSProperties = { fontSize: '0.75rem', color: currentThemeStyles.textMuted, display: 'block', marginBottom: '0.25rem' };
+  const inputStyle: React.CSSProperties = { width: '100%', padding: '0.375rem 0.5rem', borderRadius: '0.5rem', border: currentThemeStyles.quickActionBorder, backgroundColor: currentThemeStyles.quickActionBg, color: currentThemeStyles.textPrimary, fontSize: '0.8rem' };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem', padding: '0.5rem' }}>
+      {/* Routing rules */}
+      <div style={{ padding: '0.75rem', borderRadius: '0.75rem', backgroundColor: currentThemeStyles.quickActionBg, border: currentThemeStyles.quickActionBorder }}>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', color: currentThemeStyles.textPrimary, fontWeight: 600, fontSize: '0.875rem', marginBottom: '0.75rem' }}>
+          <input type="checkbox" checked={settings.autoAssign} disabled={saving} onChange={(e) => updateSettings({ autoAssign: e.target.checked })} />
+          Auto-assign new chats
+        </label>
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '0.75rem' }}>
+          <div>
+            <span style={labelStyle}>Strategy</span>
+            <select value={settings.strategy} disabled={saving} onChange={(e) => updateSettings({ strategy: e.target.value as RoutingStrategy })} style={inputStyle}>
+              <option value="least_load">Least load</option>
+              <option value="round_robin">Round robin</option>
+            </select>
+          </div>
+          <div>
+            <span style={labelStyle}>Default capacity</span>
+            <input type="number" min={1} max={20} value={settings.defaultMaxConcurrentChats} disabled={saving}
+              onChange={(e) => { const value = Number(e.target.value); if (value >= 1) updateSettings({ defaultMaxConcurrentChats: value }); }} style={inputStyle} />
+          </div>
+          <div>
+            <span style={labelStyle}>When no agent is free</span>
+            <select value={settings.overflowAction} disabled={saving} onChange={(e) => updateSettings({ overflowAction: e.target.value as OverflowAction })} style={inputStyle}>
+              {Object.entries(OVERFLOW_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+            </select>
+          </div>
+          <div>
+            <span style={labelStyle}>After (minutes)</span>
+            <input type="number" min={1} max={120} value={settings.overflowAfterMinutes} disabled={saving || settings.overflowAction === 'wait'}
+              onChange={(e) => { const value = Number(e.target.value); if (value >= 1) updateSettings({ overflowAfterMinutes: value }); }} style={inputStyle} />
+          </div>
+        </div>
+        {saveError && <p style={{ color: '#ef4444', fontSize: '0.75rem', margin: '0.5rem 0 0 0' }}>{saveError}</p>}
+      </div>
+
+      {/* Agent roster */}
+      <div>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.5rem' }}>
+          <strong style={{ color: currentThemeStyles.textPrimary, fontSize: '0.875rem' }}>Agents</strong>
+          <span style={{ fontSize: '0.75rem', color: freeSlots > 0 ? '#22c55e' : '#ef4444' }}>{freeSlots} free slot{freeSlots === 1 ? '' : 's'}</span>
+        </div>
+        {agents.length === 0 && <p style={{ fontSize: '0.8rem', color: currentThemeStyles.textSecondary }}>No agents found.</p>}
+        {agents.map(agent => {
+          const capacity = chatRouter.capacityOf(agent, settings);
+          return (
+            <div key={agent.id} style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', padding: '0.5rem', borderRadius: '0.5rem', borderBottom: currentThemeStyles.quickActionBorder }}>
+              <span title={agent.status} style={{ width: '8px', height: '8px', borderRadius: '50%', backgroundColor: STATUS_COLORS[agent.status], flexShrink: 0 }}></span>
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <div style={{ color: currentThemeStyles.textPrimary, fontSize: '0.875rem', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                  {agent.name}{agent.id === currentAgentId ? ' (you)' : ''}
+                </div>
+                <div style={{ fontSize: '0.7rem', color: currentThemeStyles.textMuted }}>
+                  {agent.status}{agent.id === coordinatorId ? ' · routing' : ''}
+                </div>
+              </div>
+              <span style={{ fontSize: '0.8rem', color: agent.activeChats >= capacity ? '#ef4444' : currentThemeStyles.textSecondary }}>{agent.activeChats}/</span>
+              <input type="number" min={1} max={20} title="Concurrent chat capacity" value={capacity} disabled={saving}
+                onChange={(e) => {
+                  const value = Number(e.target.value);
+                  if (value >= 1) save(() => onCapacityChange(agent.id, value === settings.defaultMaxConcurrentChats ? null : value));
+                }}
+                style={{ ...inputStyle, width: '3.5rem' }} />
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
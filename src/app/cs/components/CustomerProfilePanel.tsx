@@ -0,0 +1,176 @@
+// src/app/cs/components/CustomerProfilePanel.tsx
+'use client';
+import React, { useState } from 'react';
+import { XMarkIcon, PaperClipIcon } from '@heroicons/react/24/outline';
+import { useCustomerProfile } from '@/app/hooks/useCustomers';
+import customerService from '@/app/services/customerService';
+import type { RelatedBooking, RelatedPayment } from '@/app/domain';
+
+interface ThemeStyles {
+  textPrimary: string;
+  textSecondary: string;
+  textMuted: string;
+  inputBg: string;
+  inputBorder: string;
+  glassPanelBg: string;
+  glassPanelBorder: string;
+  glassPanelShadow: string;
+}
+
+interface CustomerProfilePanelProps {
+  customerId: string;
+  attachedBookingId?: string;
+  attachedPaymentId?: string;
+  // null detaches
+  onAttachBooking: (booking: RelatedBooking | null) => void;
+  onAttachPayment: (payment: RelatedPayment | null) => void;
+  onClose: () => void;
+  currentThemeStyles: ThemeStyles;
+}
+
+type ProfileTab = 'bookings' | 'payments' | 'refunds' | 'tickets' | 'chats';
+
+const TABS: Array<{ id: ProfileTab; label: string }> = [
+  { id: 'bookings', label: 'Bookings' },
+  { id: 'payments', label: 'Payments' },
+  { id: 'refunds', label: 'Refunds' },
+  { id: 'tickets', label: 'Tickets' },
+  { id: 'chats', label: 'Chats' },
+];
+
+const STATUS_COLORS: Record<string, string> = {
+  confirmed: '#16a34a', completed: '#16a34a', paid: '#16a34a', approved: '#16a34a', resolved: '#16a34a', closed: '#6b7280',
+  pending: '#d97706', processing: '#d97706', open: '#d97706', in_progress: '#3b82f6', waiting: '#d97706', active: '#3b82f6',
+  cancelled: '#dc2626', failed: '#dc2626', rejected: '#dc2626', refunded: '#8b5cf6',
+};
+
+const formatDate = (value?: string) => value ? new Date(value).toLocaleDateString() : '—';
+
+// Slide-in customer 360 view for the ticket form; bookings and payments can be attached to the new ticket
+export default function CustomerProfilePanel({ customerId, attachedBookingId, attachedPaymentId, onAttachBooking, onAttachPayment, onClose, currentThemeStyles }: CustomerProfilePanelProps) {
+  const { profile, isLoading, error, refresh } = useCustomerProfile(customerId);
+  const [tab, setTab] = useState<ProfileTab>('bookings');
+  const [openChatId, setOpenChatId] = useState<string | null>(null);
+
+  const rowStyle: React.CSSProperties = { padding: '0.75rem', backgroundColor: currentThemeStyles.inputBg, border: currentThemeStyles.inputBorder, borderRadius: '0.5rem', display: 'flex', flexDirection: 'column', gap: '0.25rem' };
+  const statusPill = (status: string) => {
+    const color = STATUS_COLORS[status] || '#6b7280';
+    return <span style={{ padding: '0.125rem 0.5rem', fontSize: '0.7rem', fontWeight: 600, borderRadius: '9999px', backgroundColor: color + '20', color, textTransform: 'capitalize' }}>{status.replace('_', ' ')}</span>;
+  };
+  const attachButton = (attached: boolean, onClick: () => void) => (
+    <button type="button" onClick={onClick} style={{ alignSelf: 'flex-start', marginTop: '0.25rem', padding: '0.25rem 0.75rem', fontSize: '0.75rem', fontWeight: 600, borderRadius: '0.375rem', cursor: 'pointer', display: 'flex', alignItems: 'center', gap: '0.25rem', border: attached ? '1px solid #16a34a' : '1px solid #3b82f6', backgroundColor: attached ? 'rgba(22, 163, 74, 0.15)' : 'transparent', color: attached ? '#16a34a' : '#3b82f6' }}>
+      <PaperClipIcon width={14} height={14} /> {attached ? 'Attached — detach' : 'Attach to ticket'}
+    </button>
+  );
+  const empty = (text: string) => <p style={{ fontSize: '0.875rem', color: currentThemeStyles.textSecondary, margin: 0 }}>{text}</p>;
+
+  const counts: Record<ProfileTab, number> = {
+    bookings: profile?.bookings.length ?? 0,
+    payments: profile?.payments.length ?? 0,
+    refunds: profile?.refunds.length ?? 0,
+    tickets: profile?.tickets.length ?? 0,
+    chats: profile?.chats.length ?? 0,
+  };
+
+  return (
+    <aside role="dialog" aria-label="Customer profile" style={{ position: 'fixed', top: 0, right: 0, bottom: 0, width: 'min(440px, 100vw)', zIndex: 50, backgroundColor: currentThemeStyles.glassPanelBg, borderLeft: currentThemeStyles.glassPanelBorder, boxShadow: currentThemeStyles.glassPanelShadow, backdropFilter: 'blur(16px)', display: 'flex', flexDirection: 'column' }}>
+      <div style={{ padding: '1.25rem 1.5rem', borderBottom: currentThemeStyles.inputBorder, display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: '1rem' }}>
+        <div>
+          <h3 style={{ fontSize: '1.25rem', fontWeight: 600, color: currentThemeStyles.textPrimary, margin: 0 }}>{profile?.customer.name || 'Customer'}</h3>
+          {profile && (
+            <div style={{ fontSize: '0.8rem', color: currentThemeStyles.textSecondary, marginTop: '0.25rem', display: 'flex', flexDirection: 'column', gap: '0.125rem' }}>
+              <span>{profile.customer.email}</span>
+              {profile.customer.phone && <span>{profile.customer.phone}</span>}
+              {profile.customer.nic && <span>NIC {profile.customer.nic}</span>}
+            </div>
+          )}
+        </div>
+        <button type="button" onClick={onClose} aria-label="Close customer profile" style={{ background: 'none', border: 'none', cursor: 'pointer', color: currentThemeStyles.textSecondary }}><XMarkIcon width={24} height={24} /></button>
+      </div>
+
+      <div style={{ display: 'flex', gap: '0.25rem', padding: '0.75rem 1.5rem', borderBottom: currentThemeStyles.inputBorder, flexWrap: 'wrap' }}>
+        {TABS.map(({ id, label }) => (
+          <button key={id} type="button" onClick={() => setTab(id)} style={{ padding: '0.375rem 0.75rem', fontSize: '0.8rem', fontWeight: 600, borderRadius: '9999px', border: 'none', cursor: 'pointer', backgroundColor: tab === id ? '#3b82f6' : 'transparent', color: tab === id ? 'white' : currentThemeStyles.textSecondary }}>
+            {label} {profile ? `(${counts[id]})` : ''}
+          </button>
+        ))}
+      </div>
+
+      <div style={{ flex: 1, overflowY: 'auto', padding: '1rem 1.5rem', display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+        {isLoading && empty('Loading customer history...')}
+        {!profile && !isLoading && error !== undefined && (
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+            <p style={{ fontSize: '0.875rem', color: '#dc2626', margin: 0 }}>{error instanceof Error ? error.message : 'Could not load this customer.'}</p>
+            <button type="button" onClick={() => refresh()} style={{ alignSelf: 'flex-start', padding: '0.375rem 0.75rem', fontSize: '0.8rem', border: 'none', borderRadius: '0.375rem', backgroundColor: '#3b82f6', color: 'white', cursor: 'pointer' }}>Retry</button>
+          </div>
+        )}
+
+        {profile && tab === 'bookings' && (profile.bookings.length === 0 ? empty('No bookings.') : profile.bookings.map(booking => (
+          <div key={booking._id} style={rowStyle}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', gap: '0.5rem' }}>
+              <span style={{ fontFamily: 'monospace', color: currentThemeStyles.textPrimary, fontWeight: 600 }}>{booking.bookingId}</span>
+              {statusPill(booking.status)}
+            </div>
+            <span style={{ fontSize: '0.8rem', color: currentThemeStyles.textSecondary }}>{booking.routeName || 'Route not recorded'} · travel {formatDate(booking.travelDate)}{booking.seatNumbers?.length ? ` · seats ${booking.seatNumbers.join(', ')}` : ''}</span>
+            <span style={{ fontSize: '0.8rem', color: currentThemeStyles.textMuted }}>{customerService.formatAmount(booking.totalAmount)} · booked {formatDate(booking.createdAt)}</span>
+            {attachButton(attachedBookingId === booking.bookingId, () => onAttachBooking(attachedBookingId === booking.bookingId ? null : customerService.toRelatedBooking(booking, profile.refunds)))}
+          </div>
+        )))}
+
+        {profile && tab === 'payments' && (profile.payments.length === 0 ? empty('No payments.') : profile.payments.map(payment => (
+          <div key={payment._id} style={rowStyle}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', gap: '0.5rem' }}>
+              <span style={{ fontFamily: 'monospace', color: currentThemeStyles.textPrimary, fontWeight: 600 }}>{payment.paymentId}</span>
+              {statusPill(payment.status)}
+            </div>
+            <span style={{ fontSize: '0.8rem', color: currentThemeStyles.textSecondary }}>{customerService.formatAmount(payment.amount)}{payment.method ? ` · ${payment.method}` : ''}{payment.bookingId ? ` · for ${payment.bookingId}` : ''}</span>
+            <span style={{ fontSize: '0.8rem', color: currentThemeStyles.textMuted }}>{new Date(payment.createdAt).toLocaleString()}</span>
+            {attachButton(attachedPaymentId === payment.paymentId, () => onAttachPayment(attachedPaymentId === payment.paymentId ? null : customerService.toRelatedPayment(payment)))}
+          </div>
+        )))}
+
+        {profile && tab === 'refunds' && (profile.refunds.length === 0 ? empty('No refunds.') : profile.refunds.map(refund => (
+          <div key={refund._id} style={rowStyle}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', gap: '0.5rem' }}>
+              <span style={{ fontFamily: 'monospace', color: currentThemeStyles.textPrimary, fontWeight: 600 }}>{refund.refundId}</span>
+              {statusPill(refund.status)}
+            </div>
+            <span style={{ fontSize: '0.8rem', color: currentThemeStyles.textSecondary }}>{customerService.formatAmount(refund.amount)}{refund.bookingId ? ` · booking ${refund.bookingId}` : ''}</span>
+            {refund.reason && <span style={{ fontSize: '0.8rem', color: currentThemeStyles.textMuted }}>{refund.reason}</span>}
+            <span style={{ fontSize: '0.8rem', color: currentThemeStyles.textMuted }}>{new Date(refund.createdAt).toLocaleString()}</span>
+          </div>
+        )))}
+
+        {profile && tab === 'tickets' && (profile.tickets.length === 0 ? empty('No previous tickets.') : profile.tickets.map(ticket => (
+          <a key={ticket._id} href={`/cs/tickets/${ticket._id}`} target="_blank" rel="noreferrer" style={{ ...rowStyle, textDecoration: 'none' }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', gap: '0.5rem' }}>
+              <span style={{ fontFamily: 'monospace', color: '#3b82f6', fontWeight: 600 }}>{ticket.ticketId}</span>
+              {statusPill(ticket.status)}
+            </div>
+            <span style={{ fontSize: '0.875rem', color: currentThemeStyles.textPrimary }}>{ticket.subject}</span>
+            <span style={{ fontSize: '0.8rem', color: currentThemeStyles.textMuted }}>{ticket.priority} priority · {formatDate(ticket.createdAt)}</span>
+          </a>
+        )))}
+
+        {profile && tab === 'chats' && (profile.chats.length === 0 ? empty('No chat transcripts.') : profile.chats.map(chat => (
+          <div key={chat.sessionId} style={rowStyle}>
+            <button type="button" onClick={() => setOpenChatId(openChatId === chat.sessionId ? null : chat.sessionId)} style={{ background: 'none', border: 'none', padding: 0, cursor: 'pointer', textAlign: 'left', display: 'flex', justifyContent: 'space-between', gap: '0.5rem' }}>
+              <span style={{ color: currentThemeStyles.textPrimary, fontSize: '0.875rem', fontWeight: 600 }}>{new Date(chat.startedAt).toLocaleString()}</span>
+              {statusPill(chat.status)}
+            </button>
+            <span style={{ fontSize: '0.8rem', color: currentThemeStyles.textMuted }}>{chat.agentName ? `with ${chat.agentName} · ` : ''}{chat.messages.length} messages</span>
+            {openChatId === chat.sessionId && (
+              <div style={{ marginTop: '0.5rem', display: 'flex', flexDirection: 'column', gap: '0.375rem', maxHeight: '300px', overflowY: 'auto' }}>
+                {chat.messages.map((message, index) => (
+                  <div key={index} style={{ fontSize: '0.8rem', color: message.sender === 'system' ? currentThemeStyles.textMuted : currentThemeStyles.textPrimary, fontStyle: message.sender === 'system' ? 'italic' : 'normal' }}>
+                    <strong style={{ color: message.sender === 'agent' ? '#3b82f6' : currentThemeStyles.textSecondary, textTransform: 'capitalize' }}>{message.sender}:</strong> {message.message}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )))}
+      </div>
+    </aside>
+  );
+}
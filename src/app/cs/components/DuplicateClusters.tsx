@@ -0,0 +1,120 @@
+// src/app/cs/components/DuplicateClusters.tsx
+'use client';
+import React, { useState } from 'react';
+import Link from 'next/link';
+import ticketDuplicateService, { DUPLICATE_REASON_LABELS, type DuplicateCluster } from '@/app/services/ticketDuplicateService';
+import type { Ticket } from '@/app/domain';
+
+interface ThemeStyles {
+  textPrimary: string;
+  textSecondary: string;
+  textMuted: string;
+  inputBg: string;
+  inputBorder: string;
+}
+
+interface DuplicateClustersProps {
+  clusters: DuplicateCluster[];
+  onMerge: (parent: Ticket, duplicates: Ticket[], notifyCustomers: boolean) => Promise<void>;
+  currentThemeStyles: ThemeStyles;
+}
+
+export default function DuplicateClusters({ clusters, onMerge, currentThemeStyles }: DuplicateClustersProps) {
+  const [openKey, setOpenKey] = useState<string | null>(null);
+  const [parentId, setParentId] = useState<string | null>(null);
+  // Tickets the agent unticked because they only look alike
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [notifyCustomers, setNotifyCustomers] = useState(true);
+  const [merging, setMerging] = useState(false);
+  const [mergeError, setMergeError] = useState<string | null>(null);
+
+  if (clusters.length === 0) return null;
+
+  const openCluster = (cluster: DuplicateCluster) => {
+    const closing = openKey === cluster.key;
+    setOpenKey(closing ? null : cluster.key);
+    setParentId(closing ? null : ticketDuplicateService.suggestParent(cluster)._id);
+    setExcluded(new Set());
+    setMergeError(null);
+  };
+
+  const toggleExcluded = (ticketId: string) => setExcluded(prev => {
+    const next = new Set(prev);
+    if (next.has(ticketId)) next.delete(ticketId); else next.add(ticketId);
+    return next;
+  });
+
+  const merge = async (parent: Ticket, duplicates: Ticket[]) => {
+    setMerging(true);
+    setMergeError(null);
+    try {
+      await onMerge(parent, duplicates, notifyCustomers);
+      setOpenKey(null);
+    } catch (error) {
+      setMergeError(error instanceof Error ? error.message : 'Failed to merge tickets');
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  const chipStyle: React.CSSProperties = { padding: '0.125rem 0.5rem', borderRadius: '9999px', fontSize: '0.75rem', fontWeight: 600, backgroundColor: 'rgba(234, 88, 12, 0.15)', color: '#ea580c' };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+      {clusters.map(cluster => {
+        const isOpen = openKey === cluster.key;
+        const parent = cluster.tickets.find(ticket => ticket._id === parentId) || ticketDuplicateService.suggestParent(cluster);
+        const duplicates = cluster.tickets.filter(ticket => ticket._id !== parent._id && !excluded.has(ticket._id));
+        const preview = isOpen ? ticketDuplicateService.previewMerge(parent, duplicates) : null;
+
+        return (
+          <div key={cluster.key} style={{ padding: '1rem', borderRadius: '0.75rem', backgroundColor: currentThemeStyles.inputBg, border: currentThemeStyles.inputBorder }}>
+            <button onClick={() => openCluster(cluster)} style={{ width: '100%', display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '1rem', background: 'none', border: 'none', cursor: 'pointer', padding: 0, textAlign: 'left' }}>
+              <div>
+                <div style={{ fontWeight: 600, color: currentThemeStyles.textPrimary }}>{cluster.tickets.length} tickets · {cluster.tickets[0].subject}</div>
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.375rem', marginTop: '0.375rem' }}>
+                  {cluster.reasons.map(reason => <span key={reason} style={chipStyle}>{DUPLICATE_REASON_LABELS[reason]}</span>)}
+                </div>
+              </div>
+              <span style={{ fontSize: '0.875rem', color: '#3b82f6', whiteSpace: 'nowrap' }}>{isOpen ? 'Hide' : 'Review'}</span>
+            </button>
+
+            {isOpen && preview && (
+              <div style={{ marginTop: '1rem', display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+                <div style={{ fontSize: '0.75rem', color: currentThemeStyles.textMuted }}>Choose the parent ticket; untick any that are not the same issue.</div>
+                {cluster.tickets.map(ticket => {
+                  const isParent = ticket._id === parent._id;
+                  return (
+                    <div key={ticket._id} style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', fontSize: '0.875rem' }}>
+                      <input type="radio" name={`parent-${cluster.key}`} checked={isParent} onChange={() => { setParentId(ticket._id); setExcluded(prev => { const next = new Set(prev); next.delete(ticket._id); return next; }); }} title="Make this the parent ticket" />
+                      <input type="checkbox" checked={isParent || !excluded.has(ticket._id)} disabled={isParent} onChange={() => toggleExcluded(ticket._id)} title="Include in the merge" />
+                      <Link href={`/cs/tickets/${ticket._id}`} style={{ color: '#3b82f6', fontWeight: 600, textDecoration: 'none' }}>#{ticket.ticketId}</Link>
+                      <span style={{ flex: 1, color: currentThemeStyles.textPrimary, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{ticket.subject}</span>
+                      <span style={{ color: currentThemeStyles.textMuted }}>{ticket.customerInfo.name}</span>
+                      {ticket.relatedBooking && <span style={{ color: currentThemeStyles.textMuted, fontFamily: 'monospace' }}>{ticket.relatedBooking.bookingId}</span>}
+                      {isParent && <span style={{ ...chipStyle, backgroundColor: 'rgba(59, 130, 246, 0.15)', color: '#3b82f6' }}>Parent</span>}
+                    </div>
+                  );
+                })}
+
+                <div style={{ fontSize: '0.875rem', color: currentThemeStyles.textSecondary, borderTop: currentThemeStyles.inputBorder, paddingTop: '0.75rem' }}>
+                  <div>Parent keeps #{parent.ticketId}; {preview.timeline.length} timeline entries from {duplicates.length + 1} tickets are combined.</div>
+                  {preview.tags.length > 0 && <div>Tags: {preview.tags.join(', ')}</div>}
+                  <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginTop: '0.5rem' }}>
+                    <input type="checkbox" checked={notifyCustomers} onChange={(e) => setNotifyCustomers(e.target.checked)} />
+                    Notify {preview.customers.length} customer{preview.customers.length === 1 ? '' : 's'} that their tickets were merged
+                  </label>
+                </div>
+
+                {mergeError && <div style={{ fontSize: '0.875rem', color: '#dc2626' }}>{mergeError}</div>}
+                <button onClick={() => merge(parent, duplicates)} disabled={merging || duplicates.length === 0} style={{ alignSelf: 'flex-start', padding: '0.5rem 1rem', backgroundColor: '#ea580c', color: 'white', border: 'none', borderRadius: '0.5rem', cursor: merging || duplicates.length === 0 ? 'not-allowed' : 'pointer', opacity: merging || duplicates.length === 0 ? 0.5 : 1, fontWeight: 600 }}>
+                  {merging ? 'Merging...' : `Merge ${duplicates.length} into #${parent.ticketId}`}
+                </button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
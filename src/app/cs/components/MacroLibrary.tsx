@@ -0,0 +1,58 @@
+// src/app/cs/components/MacroLibrary.tsx
+'use client';
+import React, { useState } from 'react';
+import macroService, { type Macro } from '@/app/services/macroService';
+
+interface ThemeStyles {
+  textPrimary: string;
+  textSecondary: string;
+  textMuted: string;
+  inputBg: string;
+  inputBorder: string;
+}
+
+interface MacroLibraryProps {
+  macros: Macro[];
+  onApply: (macro: Macro) => void;
+  disabled?: boolean;
+  currentThemeStyles: ThemeStyles;
+}
+
+// Browsable list of macros by category; one click inserts the text and applies the macro's ticket changes
+export default function MacroLibrary({ macros, onApply, disabled = false, currentThemeStyles }: MacroLibraryProps) {
+  const [filter, setFilter] = useState('');
+  const groups = macroService.groupByCategory(filter ? macroService.search(macros, filter, macros.length) : macros);
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+      <input value={filter} onChange={(e) => setFilter(e.target.value)} placeholder="Search macros..." style={{ width: '100%', padding: '0.5rem 0.75rem', backgroundColor: currentThemeStyles.inputBg, border: currentThemeStyles.inputBorder, borderRadius: '0.5rem', fontSize: '0.875rem', color: currentThemeStyles.textPrimary }} />
+      {groups.length === 0 && <p style={{ fontSize: '0.875rem', color: currentThemeStyles.textSecondary, margin: 0 }}>No macros match.</p>}
+      {groups.map(group => (
+        <div key={group.category}>
+          <div style={{ fontSize: '0.75rem', fontWeight: 600, textTransform: 'uppercase', letterSpacing: '0.05em', color: currentThemeStyles.textMuted, marginBottom: '0.375rem' }}>{group.label}</div>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '0.375rem' }}>
+            {group.macros.map(macro => (
+              <button
+                key={macro.id}
+                onClick={() => onApply(macro)}
+                disabled={disabled}
+                title={macro.body}
+                style={{ textAlign: 'left', padding: '0.5rem 0.75rem', backgroundColor: currentThemeStyles.inputBg, border: currentThemeStyles.inputBorder, borderRadius: '0.5rem', cursor: disabled ? 'not-allowed' : 'pointer', opacity: disabled ? 0.6 : 1 }}
+              >
+                <div style={{ display: 'flex', justifyContent: 'space-between', gap: '0.5rem' }}>
+                  <span style={{ color: currentThemeStyles.textPrimary, fontSize: '0.875rem', fontWeight: 500 }}>{macro.title}</span>
+                  <code style={{ color: '#3b82f6', fontSize: '0.75rem' }}>/{macro.shortcut}</code>
+                </div>
+                {macro.actions && (
+                  <div style={{ fontSize: '0.7rem', color: currentThemeStyles.textMuted, marginTop: '0.125rem' }}>
+                    {[macro.actions.status && `Sets status: ${macro.actions.status.replace('_', ' ')}`, macro.actions.priority && `Priority: ${macro.actions.priority}`].filter(Boolean).join(' · ')}
+                  </div>
+                )}
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
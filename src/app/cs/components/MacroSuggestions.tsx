@@ -0,0 +1,48 @@
+// src/app/cs/components/MacroSuggestions.tsx
+'use client';
+import React from 'react';
+import type { Macro } from '@/app/services/macroService';
+
+interface ThemeStyles {
+  textPrimary: string;
+  textMuted: string;
+  glassPanelBg: string;
+  glassPanelBorder: string;
+}
+
+interface MacroSuggestionsProps {
+  suggestions: Macro[];
+  activeIndex: number;
+  onSelect: (macro: Macro) => void;
+  currentThemeStyles: ThemeStyles;
+  // Ticket editors apply status/priority changes; chat just inserts text
+  showActions?: boolean;
+}
+
+// Pop-up list for slash commands; the parent positions it (relative) above the text box
+export default function MacroSuggestions({ suggestions, activeIndex, onSelect, currentThemeStyles, showActions = false }: MacroSuggestionsProps) {
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div role="listbox" style={{ position: 'absolute', bottom: '100%', left: 0, right: 0, marginBottom: '0.5rem', backgroundColor: currentThemeStyles.glassPanelBg, border: currentThemeStyles.glassPanelBorder, borderRadius: '0.75rem', boxShadow: '0 10px 25px rgba(0, 0, 0, 0.25)', backdropFilter: 'blur(12px)', overflow: 'hidden', zIndex: 20 }}>
+      {suggestions.map((macro, index) => (
+        <div
+          key={macro.id}
+          role="option"
+          aria-selected={index === activeIndex}
+          // mousedown keeps focus in the text box
+          onMouseDown={(e) => { e.preventDefault(); onSelect(macro); }}
+          style={{ padding: '0.5rem 0.75rem', cursor: 'pointer', backgroundColor: index === activeIndex ? 'rgba(59, 130, 246, 0.2)' : 'transparent', display: 'flex', alignItems: 'center', gap: '0.75rem' }}
+        >
+          <code style={{ color: '#3b82f6', fontSize: '0.8rem', minWidth: '5.5rem' }}>/{macro.shortcut}</code>
+          <span style={{ flex: 1, color: currentThemeStyles.textPrimary, fontSize: '0.875rem', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{macro.title}</span>
+          {showActions && macro.actions && (
+            <span style={{ fontSize: '0.7rem', color: currentThemeStyles.textMuted, whiteSpace: 'nowrap' }}>
+              {[macro.actions.status && `→ ${macro.actions.status.replace('_', ' ')}`, macro.actions.priority && `${macro.actions.priority} priority`].filter(Boolean).join(', ')}
+            </span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
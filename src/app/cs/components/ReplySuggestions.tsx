@@ -0,0 +1,57 @@
+// src/app/cs/components/ReplySuggestions.tsx
+'use client';
+import React, { useState } from 'react';
+import { SparklesIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import type { ReplySuggestion, SuggestionProvider } from '@/app/domain';
+
+interface ThemeStyles {
+  textPrimary: string;
+  textSecondary: string;
+  textMuted: string;
+}
+
+interface ReplySuggestionsProps {
+  suggestions: ReplySuggestion[];
+  isLoading: boolean;
+  provider: SuggestionProvider;
+  onInsert: (suggestion: ReplySuggestion) => void;
+  onDismiss: (suggestion: ReplySuggestion) => void;
+  currentThemeStyles: ThemeStyles;
+}
+
+// Drafted replies shown above the reply box. Inserting puts the text in the box to edit; nothing is sent without the agent.
+export default function ReplySuggestions({ suggestions, isLoading, provider, onInsert, onDismiss, currentThemeStyles }: ReplySuggestionsProps) {
+  const [collapsed, setCollapsed] = useState(false);
+  if (!isLoading && suggestions.length === 0) return null;
+
+  return (
+    <div style={{ marginBottom: '0.75rem', padding: '0.75rem', borderRadius: '0.75rem', backgroundColor: 'rgba(20, 184, 166, 0.08)', border: '1px solid rgba(20, 184, 166, 0.3)' }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.8rem', fontWeight: 600, color: '#14b8a6' }}>
+        <SparklesIcon width={16} height={16} />
+        Suggested replies
+        {provider === 'local' && <span title="Drafted by the local stand-in, not the model" style={{ fontSize: '0.65rem', padding: '0.1rem 0.4rem', borderRadius: '999px', border: '1px solid rgba(20, 184, 166, 0.5)' }}>LOCAL</span>}
+        {isLoading && <span style={{ fontWeight: 400, color: currentThemeStyles.textMuted }}>Drafting...</span>}
+        <button onClick={() => setCollapsed(!collapsed)} style={{ marginLeft: 'auto', background: 'none', border: 'none', color: currentThemeStyles.textMuted, cursor: 'pointer', fontSize: '0.75rem' }}>{collapsed ? 'Show' : 'Hide'}</button>
+      </div>
+      {!collapsed && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem', marginTop: '0.5rem', maxHeight: '12rem', overflowY: 'auto' }}>
+          {suggestions.map(suggestion => (
+            <div key={suggestion.id} style={{ display: 'flex', gap: '0.5rem', alignItems: 'flex-start' }}>
+              <button onClick={() => onInsert(suggestion)} title="Insert into the reply box" style={{ flex: 1, textAlign: 'left', padding: '0.5rem 0.75rem', borderRadius: '0.5rem', border: '1px solid rgba(20, 184, 166, 0.25)', backgroundColor: 'transparent', color: currentThemeStyles.textPrimary, fontSize: '0.85rem', lineHeight: 1.4, cursor: 'pointer' }}>
+                {suggestion.text}
+                {suggestion.sources.length > 0 && (
+                  <span style={{ display: 'block', marginTop: '0.25rem', fontSize: '0.7rem', color: currentThemeStyles.textSecondary }}>
+                    From: {suggestion.sources.map(source => source.title).join(', ')}
+                  </span>
+                )}
+              </button>
+              <button onClick={() => onDismiss(suggestion)} aria-label="Dismiss suggestion" style={{ background: 'none', border: 'none', color: currentThemeStyles.textMuted, cursor: 'pointer', padding: '0.25rem' }}>
+                <XMarkIcon width={16} height={16} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
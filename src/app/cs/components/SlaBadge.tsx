@@ -0,0 +1,46 @@
+// src/app/cs/components/SlaBadge.tsx
+'use client';
+import React from 'react';
+import slaService, { type SlaEvaluation, type SlaState } from '@/app/services/slaService';
+
+interface SlaBadgeProps {
+  evaluation: SlaEvaluation;
+}
+
+const STATE_COLORS: Record<SlaState, string> = {
+  on_track: '#16a34a',
+  at_risk: '#d97706',
+  breached: '#dc2626',
+  met: '#16a34a',
+  missed: '#6b7280',
+};
+
+const TIMER_LABELS = { firstResponse: 'Response', resolution: 'Resolve' };
+
+const describeTimer = (label: string, timer: SlaEvaluation['firstResponse']) => {
+  if (timer.state === 'met') return `${label}: met`;
+  if (timer.state === 'missed') return `${label}: missed by ${slaService.formatRemaining(-timer.remainingMs)}`;
+  return `${label}: due ${new Date(timer.dueAt).toLocaleString()}`;
+};
+
+// Countdown to the ticket's next SLA deadline; the parent re-renders it as time passes
+export default function SlaBadge({ evaluation }: SlaBadgeProps) {
+  const { worst } = evaluation;
+  const title = [describeTimer('First response', evaluation.firstResponse), describeTimer('Resolution', evaluation.resolution)].join('\n');
+
+  if (!worst) {
+    const missed = evaluation.firstResponse.state === 'missed' || evaluation.resolution.state === 'missed';
+    const color = missed ? STATE_COLORS.missed : STATE_COLORS.met;
+    return <span title={title} style={{ padding: '0.25rem 0.75rem', fontSize: '0.8rem', fontWeight: '600', borderRadius: '9999px', backgroundColor: color + '20', color }}>{missed ? 'SLA missed' : 'SLA met'}</span>;
+  }
+
+  const color = STATE_COLORS[worst.state];
+  const text = worst.state === 'breached'
+    ? `${TIMER_LABELS[worst.timer]} overdue ${slaService.formatRemaining(-worst.remainingMs)}`
+    : `${TIMER_LABELS[worst.timer]} in ${slaService.formatRemaining(worst.remainingMs)}`;
+  return (
+    <span title={title} style={{ padding: '0.25rem 0.75rem', fontSize: '0.8rem', fontWeight: '600', borderRadius: '9999px', backgroundColor: color + '20', color, whiteSpace: 'nowrap', fontVariantNumeric: 'tabular-nums' }}>
+      ⏱ {text}
+    </span>
+  );
+}
@@ -0,0 +1,98 @@
+// src/app/cs/components/TicketBulkActions.tsx
+'use client';
+import React, { useState } from 'react';
+import { TICKET_PRIORITIES, TICKET_STATUSES, type TicketBulkUpdate } from '@/app/domain';
+import type { RoutingAgent } from '@/app/services/chatRouting';
+
+interface ThemeStyles {
+  textPrimary: string;
+  textSecondary: string;
+  inputBg: string;
+  inputBorder: string;
+}
+
+interface BulkResult {
+  updated: number;
+  failed?: Array<{ ticketId: string; message: string }>;
+}
+
+interface TicketBulkActionsProps {
+  selectedCount: number;
+  agents: RoutingAgent[];
+  onApply: (changes: TicketBulkUpdate['changes']) => Promise<BulkResult>;
+  onClear: () => void;
+  currentThemeStyles: ThemeStyles;
+}
+
+const STATUS_LABELS: Record<string, string> = { open: 'Open', in_progress: 'In Progress', pending_customer: 'Pending Customer', resolved: 'Resolved', closed: 'Closed' };
+
+const describeChanges = (changes: TicketBulkUpdate['changes']) => [
+  changes.assignedTo !== undefined && (changes.assignedTo ? 'reassigned' : 'unassigned'),
+  changes.status && `set to ${STATUS_LABELS[changes.status]}`,
+  changes.priority && `set to ${changes.priority} priority`,
+  changes.addTags && `tagged ${changes.addTags.join(', ')}`,
+  changes.removeTags && `untagged ${changes.removeTags.join(', ')}`,
+].filter(Boolean).join(', ');
+
+export default function TicketBulkActions({ selectedCount, agents, onApply, onClear, currentThemeStyles }: TicketBulkActionsProps) {
+  const [tag, setTag] = useState('');
+  const [applying, setApplying] = useState(false);
+  const [notice, setNotice] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const apply = async (changes: TicketBulkUpdate['changes']) => {
+    setApplying(true);
+    setNotice(null);
+    try {
+      const result = await onApply(changes);
+      const failed = result.failed || [];
+      setNotice(failed.length
+        ? { text: `${result.updated} updated; ${failed.length} could not be changed (${failed.map(failure => `#${failure.ticketId}: ${failure.message}`).join('; ')})`, isError: true }
+        : { text: `${result.updated} ticket${result.updated === 1 ? '' : 's'} ${describeChanges(changes)}`, isError: false });
+      setTag('');
+    } catch (error) {
+      setNotice({ text: error instanceof Error ? error.message : 'Bulk update failed', isError: true });
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const closeSelected = () => {
+    if (confirm(`Close ${selectedCount} ticket${selectedCount === 1 ? '' : 's'}?`)) apply({ status: 'closed' });
+  };
+
+  const selectStyle: React.CSSProperties = { padding: '0.5rem', backgroundColor: currentThemeStyles.inputBg, border: currentThemeStyles.inputBorder, borderRadius: '0.5rem', fontSize: '0.875rem', color: currentThemeStyles.textPrimary };
+  const buttonStyle: React.CSSProperties = { padding: '0.5rem 0.75rem', border: 'none', borderRadius: '0.5rem', fontSize: '0.875rem', fontWeight: 600, cursor: applying ? 'not-allowed' : 'pointer', opacity: applying ? 0.5 : 1 };
+  const trimmedTag = tag.trim();
+
+  if (selectedCount === 0 && !notice) return null;
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem', padding: '1rem 1.5rem', borderBottom: `1px solid ${currentThemeStyles.inputBorder}` }}>
+      {selectedCount > 0 && (
+        <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '0.75rem' }}>
+          <span style={{ fontWeight: 600, color: currentThemeStyles.textPrimary }}>{selectedCount} selected</span>
+          {/* Each select applies as soon as a value is picked, then resets */}
+          <select value="" disabled={applying} onChange={(e) => apply({ assignedTo: e.target.value === 'unassigned' ? null : e.target.value })} style={selectStyle}>
+            <option value="" disabled>Assign to...</option>
+            <option value="unassigned">Unassign</option>
+            {agents.map(agent => <option key={agent.id} value={agent.id}>{agent.name}</option>)}
+          </select>
+          <select value="" disabled={applying} onChange={(e) => apply({ status: e.target.value as TicketBulkUpdate['changes']['status'] })} style={selectStyle}>
+            <option value="" disabled>Set status...</option>
+            {TICKET_STATUSES.map(status => <option key={status} value={status}>{STATUS_LABELS[status]}</option>)}
+          </select>
+          <select value="" disabled={applying} onChange={(e) => apply({ priority: e.target.value as TicketBulkUpdate['changes']['priority'] })} style={{ ...selectStyle, textTransform: 'capitalize' }}>
+            <option value="" disabled>Set priority...</option>
+            {TICKET_PRIORITIES.map(priority => <option key={priority} value={priority}>{priority}</option>)}
+          </select>
+          <input value={tag} onChange={(e) => setTag(e.target.value)} placeholder="Tag" style={{ ...selectStyle, width: '120px' }} />
+          <button onClick={() => apply({ addTags: [trimmedTag] })} disabled={applying || !trimmedTag} style={{ ...buttonStyle, backgroundColor: 'rgba(59, 130, 246, 0.15)', color: '#3b82f6' }}>+ Tag</button>
+          <button onClick={() => apply({ removeTags: [trimmedTag] })} disabled={applying || !trimmedTag} style={{ ...buttonStyle, backgroundColor: 'rgba(107, 114, 128, 0.15)', color: currentThemeStyles.textSecondary }}>− Tag</button>
+          <button onClick={closeSelected} disabled={applying} style={{ ...buttonStyle, backgroundColor: '#6b7280', color: 'white' }}>Close</button>
+          <button onClick={onClear} disabled={applying} style={{ background: 'none', border: 'none', color: '#3b82f6', cursor: 'pointer', fontSize: '0.875rem', textDecoration: 'underline' }}>Clear selection</button>
+        </div>
+      )}
+      {notice && <div style={{ fontSize: '0.875rem', color: notice.isError ? '#dc2626' : '#16a34a' }}>{notice.text}</div>}
+    </div>
+  );
+}
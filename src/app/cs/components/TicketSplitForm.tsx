@@ -0,0 +1,77 @@
+// src/app/cs/components/TicketSplitForm.tsx
+'use client';
+import React, { useState } from 'react';
+import ticketDuplicateService, { type SplitPart } from '@/app/services/ticketDuplicateService';
+import { TICKET_CATEGORIES, TICKET_CATEGORY_LABELS, TICKET_PRIORITIES, type Ticket, type TicketPriority, type TicketSplit } from '@/app/domain';
+
+interface ThemeStyles {
+  textPrimary: string;
+  textSecondary: string;
+  textMuted: string;
+  inputBg: string;
+  inputBorder: string;
+}
+
+interface TicketSplitFormProps {
+  ticket: Ticket;
+  onSplit: (split: TicketSplit) => Promise<void>;
+  onCancel: () => void;
+  currentThemeStyles: ThemeStyles;
+}
+
+// Each part starts with the original ticket's category and priority
+const emptyPart = (ticket: Ticket): SplitPart => ({ subject: '', description: '', category: ticket.category, priority: ticket.priority });
+
+export default function TicketSplitForm({ ticket, onSplit, onCancel, currentThemeStyles }: TicketSplitFormProps) {
+  const [parts, setParts] = useState<SplitPart[]>(() => [emptyPart(ticket), emptyPart(ticket)]);
+  const [splitting, setSplitting] = useState(false);
+  const [splitError, setSplitError] = useState<string | null>(null);
+
+  const updatePart = (index: number, changes: Partial<SplitPart>) => setParts(prev => prev.map((part, i) => i === index ? { ...part, ...changes } : part));
+
+  const submit = async () => {
+    const invalid = ticketDuplicateService.validateSplit(parts);
+    if (invalid) { setSplitError(invalid); return; }
+    setSplitting(true);
+    setSplitError(null);
+    try {
+      await onSplit({ children: parts.map(part => ({ ...part, subject: part.subject.trim(), description: part.description.trim() })), note: `Split into ${parts.length} tickets` });
+    } catch (error) {
+      setSplitError(error instanceof Error ? error.message : 'Failed to split ticket');
+    } finally {
+      setSplitting(false);
+    }
+  };
+
+  const inputStyle: React.CSSProperties = { width: '100%', padding: '0.5rem', border: currentThemeStyles.inputBorder, borderRadius: '0.5rem', fontSize: '0.875rem', backgroundColor: currentThemeStyles.inputBg, color: currentThemeStyles.textPrimary };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+      <p style={{ fontSize: '0.875rem', color: currentThemeStyles.textSecondary, margin: 0 }}>Each part becomes its own ticket for {ticket.customerInfo.name}, linked back to #{ticket.ticketId}.</p>
+      {parts.map((part, index) => (
+        <div key={index} style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem', padding: '0.75rem', borderRadius: '0.5rem', border: currentThemeStyles.inputBorder }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <span style={{ fontSize: '0.875rem', fontWeight: 600, color: currentThemeStyles.textPrimary }}>Part {index + 1}</span>
+            {parts.length > 2 && <button onClick={() => setParts(prev => prev.filter((_, i) => i !== index))} style={{ background: 'none', border: 'none', color: '#dc2626', cursor: 'pointer', fontSize: '0.75rem' }}>Remove</button>}
+          </div>
+          <input value={part.subject} onChange={(e) => updatePart(index, { subject: e.target.value })} placeholder="Subject" style={inputStyle} />
+          <textarea value={part.description} onChange={(e) => updatePart(index, { description: e.target.value })} placeholder="What this part is about" rows={2} style={{ ...inputStyle, resize: 'vertical' }} />
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '0.5rem' }}>
+            <select value={part.category} onChange={(e) => updatePart(index, { category: e.target.value })} style={inputStyle}>
+              {TICKET_CATEGORIES.map(category => <option key={category} value={category}>{TICKET_CATEGORY_LABELS[category]}</option>)}
+            </select>
+            <select value={part.priority} onChange={(e) => updatePart(index, { priority: e.target.value as TicketPriority })} style={{ ...inputStyle, textTransform: 'capitalize' }}>
+              {TICKET_PRIORITIES.map(priority => <option key={priority} value={priority}>{priority}</option>)}
+            </select>
+          </div>
+        </div>
+      ))}
+      <button onClick={() => setParts(prev => [...prev, emptyPart(ticket)])} style={{ alignSelf: 'flex-start', background: 'none', border: 'none', color: '#3b82f6', cursor: 'pointer', fontSize: '0.875rem', padding: 0 }}>+ Add another part</button>
+      {splitError && <div style={{ fontSize: '0.875rem', color: '#dc2626' }}>{splitError}</div>}
+      <div style={{ display: 'flex', gap: '0.5rem' }}>
+        <button onClick={submit} disabled={splitting} style={{ padding: '0.5rem 1rem', backgroundColor: '#7c3aed', color: 'white', border: 'none', borderRadius: '0.5rem', cursor: splitting ? 'not-allowed' : 'pointer', opacity: splitting ? 0.5 : 1, fontSize: '0.875rem', fontWeight: 600 }}>{splitting ? 'Splitting...' : `Split into ${parts.length} tickets`}</button>
+        <button onClick={onCancel} disabled={splitting} style={{ padding: '0.5rem 1rem', backgroundColor: '#6b7280', color: 'white', border: 'none', borderRadius: '0.5rem', cursor: 'pointer', fontSize: '0.875rem' }}>Cancel</button>
+      </div>
+    </div>
+  );
+}
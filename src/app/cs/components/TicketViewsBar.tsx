@@ -0,0 +1,98 @@
+// src/app/cs/components/TicketViewsBar.tsx
+'use client';
+import React, { useState } from 'react';
+import type { SavedTicketView } from '@/app/services/ticketViewService';
+
+interface ThemeStyles {
+  textPrimary: string;
+  textSecondary: string;
+  textMuted: string;
+  inputBg: string;
+  inputBorder: string;
+}
+
+interface TicketViewsBarProps {
+  views: SavedTicketView[];
+  activeViewId: string | null;
+  onSelect: (view: SavedTicketView) => void;
+  onSave: (name: string, shared: boolean) => Promise<void>;
+  onDelete: (view: SavedTicketView) => Promise<void>;
+  onCopyLink: () => Promise<void>;
+  // Resolves with a line for the agent, e.g. how many tickets went into the file
+  onExport: () => Promise<string>;
+  currentThemeStyles: ThemeStyles;
+}
+
+export default function TicketViewsBar({ views, activeViewId, onSelect, onSave, onDelete, onCopyLink, onExport, currentThemeStyles }: TicketViewsBarProps) {
+  const [saving, setSaving] = useState(false);
+  const [showSaveForm, setShowSaveForm] = useState(false);
+  const [name, setName] = useState('');
+  const [shared, setShared] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const run = async (action: () => Promise<string | void>, success?: string) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const result = await action();
+      if (result || success) setMessage({ text: result || success || '', isError: false });
+    } catch (error) {
+      setMessage({ text: error instanceof Error ? error.message : 'Something went wrong', isError: true });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const save = async () => {
+    if (!name.trim()) return;
+    setSaving(true);
+    await run(async () => {
+      await onSave(name.trim(), shared);
+      setShowSaveForm(false);
+      setName('');
+      setShared(false);
+    }, 'View saved');
+    setSaving(false);
+  };
+
+  const chipStyle = (active: boolean): React.CSSProperties => ({
+    display: 'flex', alignItems: 'center', gap: '0.375rem', padding: '0.375rem 0.75rem', borderRadius: '9999px', fontSize: '0.875rem', fontWeight: 600, cursor: 'pointer',
+    border: active ? '1px solid #3b82f6' : currentThemeStyles.inputBorder,
+    backgroundColor: active ? 'rgba(59, 130, 246, 0.15)' : currentThemeStyles.inputBg,
+    color: active ? '#3b82f6' : currentThemeStyles.textPrimary,
+  });
+  const linkButtonStyle: React.CSSProperties = { background: 'none', border: 'none', color: '#3b82f6', cursor: busy ? 'not-allowed' : 'pointer', fontSize: '0.875rem', padding: 0 };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '0.5rem' }}>
+        <span style={{ fontSize: '0.875rem', color: currentThemeStyles.textSecondary, marginRight: '0.25rem' }}>Views:</span>
+        {views.map(view => (
+          <span key={view.id} style={chipStyle(view.id === activeViewId)} onClick={() => onSelect(view)} title={view.ownerName && !view.builtIn ? `Saved by ${view.ownerName}` : undefined}>
+            {view.name}
+            {view.shared && !view.builtIn && <span style={{ fontSize: '0.7rem', color: currentThemeStyles.textMuted }}>shared</span>}
+            {!view.builtIn && (
+              <button onClick={(e) => { e.stopPropagation(); if (confirm(`Delete the view "${view.name}"?`)) run(() => onDelete(view)); }} disabled={busy} title="Delete view" style={{ background: 'none', border: 'none', color: currentThemeStyles.textMuted, cursor: 'pointer', padding: 0, fontSize: '0.875rem' }}>×</button>
+            )}
+          </span>
+        ))}
+        <span style={{ flex: 1 }} />
+        <button onClick={() => setShowSaveForm(!showSaveForm)} disabled={busy} style={linkButtonStyle}>Save view</button>
+        <button onClick={() => run(onCopyLink, 'Link copied')} disabled={busy} style={linkButtonStyle}>Copy link</button>
+        <button onClick={() => run(onExport)} disabled={busy} style={linkButtonStyle}>{busy ? 'Working...' : 'Export CSV'}</button>
+      </div>
+      {showSaveForm && (
+        <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '0.75rem' }}>
+          <input value={name} onChange={(e) => setName(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter') save(); }} placeholder="View name, e.g. Refunds waiting on me" style={{ flex: 1, minWidth: '220px', padding: '0.5rem', backgroundColor: currentThemeStyles.inputBg, border: currentThemeStyles.inputBorder, borderRadius: '0.5rem', fontSize: '0.875rem', color: currentThemeStyles.textPrimary }} />
+          <label style={{ display: 'flex', alignItems: 'center', gap: '0.375rem', fontSize: '0.875rem', color: currentThemeStyles.textSecondary }}>
+            <input type="checkbox" checked={shared} onChange={(e) => setShared(e.target.checked)} />
+            Share with the team
+          </label>
+          <button onClick={save} disabled={saving || !name.trim()} style={{ padding: '0.5rem 1rem', backgroundColor: '#3b82f6', color: 'white', border: 'none', borderRadius: '0.5rem', cursor: saving || !name.trim() ? 'not-allowed' : 'pointer', opacity: saving || !name.trim() ? 0.5 : 1, fontSize: '0.875rem', fontWeight: 600 }}>{saving ? 'Saving...' : 'Save'}</button>
+        </div>
+      )}
+      {message && <div style={{ fontSize: '0.875rem', color: message.isError ? '#dc2626' : '#16a34a' }}>{message.text}</div>}
+    </div>
+  );
+}
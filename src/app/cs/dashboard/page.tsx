@@ -1,32 +1,48 @@
 // app/cs/dashboard/page.tsx - REFACTORED VERSION
 'use client';
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
 import { useTheme } from '@/app/context/ThemeContext';
 import ThemeSwitcher from '@/app/components/ThemeSwitcher';
 import AnimatedBackground from '@/app/cs/components/AnimatedBackground'; // IMPORT THE NEW COMPONENT
-import { TicketIcon, ChatBubbleLeftRightIcon, ArrowPathIcon, PowerIcon, StarIcon, ClockIcon, ShieldCheckIcon } from '@heroicons/react/24/outline';
+import SlaBadge from '@/app/cs/components/SlaBadge';
+import { TicketIcon, ChatBubbleLeftRightIcon, ArrowPathIcon, PowerIcon, StarIcon, ClockIcon, ShieldCheckIcon, HeartIcon, BookOpenIcon } from '@heroicons/react/24/outline';
+import apiClient, { type CSDashboard, type CSQueueItem } from '@/app/services/apiClient';
+import { cacheKey } from '@/app/services/requestCache';
+import slaService from '@/app/services/slaService';
+import satisfactionService from '@/app/services/satisfactionService';
+import { type AgentWorkload, type Ticket, type TicketStatus } from '@/app/domain';
+import { useResource } from '@/app/hooks/useResource';
+import { useNow, useSlaAutoEscalation, useSlaPolicies } from '@/app/hooks/useSla';
 
 // --- Data Interfaces ---
 interface User { name: string; }
-interface AlertItem { priority: 'critical' | 'high' | 'low'; message: string; action: string; }
-interface QueueItem { _id: string; subject?: string; customerInfo?: { name: string; }; ticketId?: string; sessionId?: string; priority?: 'urgent' | 'high' | 'normal'; }
-interface ActivityItem { action: string; userId?: { name: string; }; timestamp: string; category: string; }
-interface DashboardData {
-  overview: {
-    tickets: { open: number; in_progress: number; resolved: number; closed: number; total: number; };
-    chats: { waiting: number; active: number; ended: number; total: number; avgDuration: number; };
-    agentWorkload: { assignedTickets: number; activeChats: number; };
-    satisfaction: { avgSatisfaction: number; totalRatings: number; };
-  };
-  performance?: {
-    tickets: { totalHandled: number; resolved: number; avgResolutionTime: number; avgSatisfaction: number; };
-    chats: { totalChats: number; avgDuration: number; avgResponseTime: number; avgSatisfaction: number; };
-  };
-  queues: { urgent: QueueItem[]; waiting: QueueItem[]; escalated: QueueItem[]; };
-  alerts: AlertItem[];
-  recentActivity?: ActivityItem[];
-}
+type QueueItem = CSQueueItem;
+type SlaQueueTicket = Ticket;
+type DashboardData = CSDashboard;
+
+// Open work the SLA queue is drawn from, oldest first since those deadlines come up soonest.
+// The list filters on one status at a time, so each open status is paged through on its own.
+const SLA_OPEN_STATUSES: TicketStatus[] = ['open', 'in_progress', 'pending_customer'];
+const SLA_TICKET_QUERY = { limit: 100, sortBy: 'createdAt', sortOrder: 'asc' };
+// A guard against a server that never reports the last page
+const SLA_MAX_PAGES = 50;
+const SLA_REFRESH_MS = 60000;
+const SLA_QUEUE_SIZE = 8;
+
+const fetchOpenTickets = async (): Promise<Ticket[]> => {
+  const byStatus = await Promise.all(SLA_OPEN_STATUSES.map(async status => {
+    const tickets: Ticket[] = [];
+    for (let page = 1; page <= SLA_MAX_PAGES; page++) {
+      const response = await apiClient.cs.tickets.list({ ...SLA_TICKET_QUERY, status, page });
+      tickets.push(...response.data.tickets);
+      const pageInfo = response.data.pagination as { hasNext?: boolean } | undefined;
+      if (!pageInfo?.hasNext) break;
+    }
+    return tickets;
+  }));
+  return byStatus.flat();
+};
 
 export default function CSDashboard() {
   const { theme } = useTheme();
@@ -39,18 +55,40 @@ export default function CSDashboard() {
   const [user, setUser] = useState<User | null>(null);
   const [period, setPeriod] = useState('7');
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const slaPolicies = useSlaPolicies();
+  const now = useNow();
+  const slaTickets = useResource<SlaQueueTicket[]>(
+    user ? cacheKey('/cs/tickets', { ...SLA_TICKET_QUERY, status: SLA_OPEN_STATUSES.join(',') }) : null,
+    fetchOpenTickets,
+    { refreshInterval: SLA_REFRESH_MS }
+  );
+  // A ticket closed between pages can still come back with a later page
+  const openTickets = useMemo(
+    () => (slaTickets.data || []).filter(ticket => SLA_OPEN_STATUSES.includes(ticket.status)),
+    [slaTickets.data]
+  );
+  // Breached tickets first, then whatever is closest to its deadline
+  const slaAtRisk = openTickets
+    .map(ticket => ({ ticket, evaluation: slaService.evaluate(ticket, slaPolicies, now) }))
+    .filter(({ evaluation }) => evaluation.worst && (evaluation.worst.state === 'at_risk' || evaluation.worst.state === 'breached'))
+    .sort((a, b) => (a.evaluation.worst?.remainingMs ?? 0) - (b.evaluation.worst?.remainingMs ?? 0))
+    .slice(0, SLA_QUEUE_SIZE);
+  useSlaAutoEscalation(openTickets, slaPolicies, now, slaTickets.refresh);
+  const workload = useResource<AgentWorkload[]>(
+    user ? cacheKey('/cs/dashboard/workload', { period }) : null,
+    () => apiClient.cs.dashboard.workload(period).then(response => response.data.agents)
+  );
+  // Agents with survey responses first, best rated at the top
+  const agentScores = [...(workload.data || [])].sort((a, b) =>
+    (b.satisfaction.csatAverage ?? -1) - (a.satisfaction.csatAverage ?? -1) || b.satisfaction.responses - a.satisfaction.responses);
 
   // --- Data Fetching ---
-  const fetchDashboardData = useCallback(async (token: string, isRefresh: boolean = false) => {
+  const fetchDashboardData = useCallback(async (isRefresh: boolean = false) => {
     if (!isRefresh) setLoading(true);
     else setIsRefreshing(true);
     setError(null);
     try {
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/cs/dashboard?period=${period}`, {
-        headers: { Authorization: `Bearer ${token}` }
-      });
-      if (!response.ok) throw new Error(`Failed to fetch data: ${response.statusText}`);
-      const result = await response.json();
+      const result = await apiClient.cs.dashboard.summary(period);
       if (result.success) setData(result.data);
       else throw new Error(result.message || 'An unknown error occurred');
     } catch (err) {
@@ -71,12 +109,11 @@ export default function CSDashboard() {
       return;
     }
     setUser(JSON.parse(userData));
-    fetchDashboardData(token);
+    fetchDashboardData();
   }, [fetchDashboardData, router]);
 
   const logout = () => {
-    localStorage.removeItem('cs_token');
-    localStorage.removeItem('cs_user');
+    apiClient.clearSession('cs');
     router.push('/cs/login');
   };
 
@@ -99,7 +136,7 @@ export default function CSDashboard() {
         <div style={{ textAlign: 'center', color: currentThemeStyles.textPrimary }}>
           <div style={{ width: '40px', height: '40px', border: '4px solid #f3f4f6', borderTop: '4px solid #3b82f6', borderRadius: '50%', animation: 'spin 1s linear infinite', margin: '0 auto 1rem' }}></div>
           <p>{error ? `Error: ${error}` : 'Loading Dashboard...'}</p>
-          {error && <button onClick={() => { const token = localStorage.getItem('cs_token'); if (token) fetchDashboardData(token); }} style={{ marginTop: '1rem', padding: '0.5rem 1rem', border: 'none', borderRadius: '0.5rem', backgroundColor: '#3b82f6', color: 'white', cursor: 'pointer' }}>Retry</button>}
+          {error && <button onClick={() => fetchDashboardData()} style={{ marginTop: '1rem', padding: '0.5rem 1rem', border: 'none', borderRadius: '0.5rem', backgroundColor: '#3b82f6', color: 'white', cursor: 'pointer' }}>Retry</button>}
         </div>
         <style jsx>{`@keyframes spin { 0% { transform: rotate(0deg); } 100% { transform: rotate(360deg); } }`}</style>
       </div>
@@ -151,12 +188,15 @@ export default function CSDashboard() {
                 <option value="7">Last 7 days</option>
                 <option value="30">Last 30 days</option>
               </select>
-              <button onClick={() => fetchDashboardData(localStorage.getItem('cs_token') || '', true)} disabled={isRefreshing} style={{ padding: '0.75rem 1.5rem', fontSize: '1rem', fontWeight: '600', color: currentThemeStyles.textPrimary, backgroundColor: currentThemeStyles.cardBg, border: currentThemeStyles.cardBorder, borderRadius: '0.5rem', cursor: 'pointer', opacity: isRefreshing ? 0.5 : 1, display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+              <button onClick={() => { fetchDashboardData(true); workload.refresh(); }} disabled={isRefreshing} style={{ padding: '0.75rem 1.5rem', fontSize: '1rem', fontWeight: '600', color: currentThemeStyles.textPrimary, backgroundColor: currentThemeStyles.cardBg, border: currentThemeStyles.cardBorder, borderRadius: '0.5rem', cursor: 'pointer', opacity: isRefreshing ? 0.5 : 1, display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
                 <ArrowPathIcon width={20} height={20} className={isRefreshing ? 'animate-spin' : ''}/> Refresh
               </button>
               <button onClick={() => router.push('/cs/chat')} style={{ padding: '0.75rem 1.5rem', fontSize: '1rem', fontWeight: '600', color: 'white', backgroundColor: '#10b981', border: 'none', borderRadius: '0.5rem', cursor: 'pointer', display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
                 <ChatBubbleLeftRightIcon width={20} height={20}/> Live Chat
               </button>
+              <button onClick={() => router.push('/cs/knowledge-base')} style={{ padding: '0.75rem 1.5rem', fontSize: '1rem', fontWeight: '600', color: currentThemeStyles.textPrimary, backgroundColor: currentThemeStyles.cardBg, border: currentThemeStyles.cardBorder, borderRadius: '0.5rem', cursor: 'pointer', display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                <BookOpenIcon width={20} height={20}/> Knowledge Base
+              </button>
               <button onClick={() => router.push('/cs/tickets')} style={{ padding: '0.75rem 1.5rem', fontSize: '1rem', fontWeight: '600', color: 'white', backgroundColor: '#3b82f6', border: 'none', borderRadius: '0.5rem', cursor: 'pointer' }}>View Tickets</button>
             </div>
           </header>
@@ -165,7 +205,8 @@ export default function CSDashboard() {
           <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(250px, 1fr))', gap: '1.5rem', marginBottom: '2rem' }}>
             <StatCard title="Open Tickets" value={overview.tickets.open} icon={TicketIcon} color="#ef4444" subtitle={`${overview.tickets.total} total`} />
             <StatCard title="Active Chats" value={overview.chats.active} icon={ChatBubbleLeftRightIcon} color="#10b981" subtitle={`${overview.chats.total} total`} />
-            <StatCard title="Avg. Satisfaction" value={`${(overview.satisfaction.avgSatisfaction * 20).toFixed(1)}%`} icon={StarIcon} color="#3b82f6" subtitle={`${overview.satisfaction.totalRatings} ratings`} />
+            <StatCard title="Avg. Satisfaction" value={satisfactionService.formatCsat(overview.satisfaction.avgSatisfaction)} icon={StarIcon} color="#3b82f6" subtitle={`${overview.satisfaction.totalRatings} ratings`} />
+            <StatCard title="Net Promoter Score" value={satisfactionService.formatNps(overview.satisfaction.nps)} icon={HeartIcon} color={satisfactionService.npsColor(overview.satisfaction.nps)} subtitle={`${overview.satisfaction.promoters ?? 0} promoters, ${overview.satisfaction.detractors ?? 0} detractors`} />
             <StatCard title="Your Active Tasks" value={overview.agentWorkload.assignedTickets + overview.agentWorkload.activeChats} icon={ClockIcon} color="#8b5cf6" subtitle={`${overview.agentWorkload.assignedTickets} tickets, ${overview.agentWorkload.activeChats} chats`} />
           </div>
 
@@ -184,6 +225,30 @@ export default function CSDashboard() {
             </div>
           )}
 
+          {/* SLA at risk */}
+          <div style={{ backgroundColor: currentThemeStyles.glassPanelBg, padding: '2rem', borderRadius: '1rem', boxShadow: currentThemeStyles.glassPanelShadow, backdropFilter: 'blur(12px)', border: currentThemeStyles.glassPanelBorder, marginBottom: '2rem' }}>
+            <h3 style={{ fontSize: '1.5rem', fontWeight: 'bold', color: currentThemeStyles.textPrimary, margin: '0 0 1.5rem 0' }}>⏱ SLA at Risk</h3>
+            {slaAtRisk.length > 0 ? (
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+                {slaAtRisk.map(({ ticket, evaluation }) => (
+                  <div key={ticket._id} onClick={() => router.push(`/cs/tickets/${ticket._id}`)} style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '1rem', padding: '0.75rem 1rem', backgroundColor: currentThemeStyles.cardBg, borderRadius: '0.5rem', cursor: 'pointer' }}>
+                    <div style={{ minWidth: 0 }}>
+                      <p style={{ fontWeight: '600', color: currentThemeStyles.textPrimary, margin: 0, whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>{ticket.subject}</p>
+                      <p style={{ fontSize: '0.75rem', color: currentThemeStyles.textSecondary, margin: '0.25rem 0 0 0' }}>
+                        ID: {ticket.ticketId} · {ticket.priority} priority{ticket.customerInfo?.name ? ` · ${ticket.customerInfo.name}` : ''}{ticket.escalation?.escalated ? ' · escalated' : ''}
+                      </p>
+                    </div>
+                    <SlaBadge evaluation={evaluation} />
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p style={{ fontSize: '0.875rem', color: currentThemeStyles.textSecondary, textAlign: 'center', padding: '1rem', backgroundColor: currentThemeStyles.cardBg, borderRadius: '0.5rem', margin: 0 }}>
+                {slaTickets.error ? 'Could not load tickets for SLA tracking.' : 'All open tickets are on track ✅'}
+              </p>
+            )}
+          </div>
+
           {/* Priority Queues */}
           <div style={{ backgroundColor: currentThemeStyles.glassPanelBg, padding: '2rem', borderRadius: '1rem', boxShadow: currentThemeStyles.glassPanelShadow, backdropFilter: 'blur(12px)', border: currentThemeStyles.glassPanelBorder, marginBottom: '2rem' }}>
             <h3 style={{ fontSize: '1.5rem', fontWeight: 'bold', color: currentThemeStyles.textPrimary, margin: '0 0 1.5rem 0' }}>Priority Queues</h3>
@@ -203,10 +268,41 @@ export default function CSDashboard() {
                   <PerformanceMetric value={performance.tickets.totalHandled} label="Tickets Handled" color="#3b82f6" />
                   <PerformanceMetric value={performance.tickets.resolved} label="Resolved" color="#10b981" />
                   <PerformanceMetric value={performance.tickets.avgResolutionTime ? `${performance.tickets.avgResolutionTime.toFixed(1)}h` : 'N/A'} label="Avg Resolution" color="#8b5cf6" />
-                  <PerformanceMetric value={performance.tickets.avgSatisfaction ? `${(performance.tickets.avgSatisfaction * 20).toFixed(1)}%` : 'N/A'} label="Satisfaction" color="#f59e0b" />
+                  <PerformanceMetric value={satisfactionService.formatCsat(performance.tickets.avgSatisfaction)} label="Satisfaction" color="#f59e0b" />
                 </div>
               </div>
             )}
+            <div style={{ backgroundColor: currentThemeStyles.glassPanelBg, padding: '2rem', borderRadius: '1rem', boxShadow: currentThemeStyles.glassPanelShadow, backdropFilter: 'blur(12px)', border: currentThemeStyles.glassPanelBorder }}>
+              <h3 style={{ fontSize: '1.5rem', fontWeight: 'bold', color: currentThemeStyles.textPrimary, marginBottom: '1.5rem' }}>⭐ Agent Satisfaction (Last {period} days)</h3>
+              {agentScores.length > 0 ? (
+                <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.875rem' }}>
+                  <thead>
+                    <tr style={{ color: currentThemeStyles.textMuted, textAlign: 'left' }}>
+                      <th style={{ padding: '0.5rem', fontWeight: 600 }}>Agent</th>
+                      <th style={{ padding: '0.5rem', fontWeight: 600, textAlign: 'right' }}>CSAT</th>
+                      <th style={{ padding: '0.5rem', fontWeight: 600, textAlign: 'right' }}>NPS</th>
+                      <th style={{ padding: '0.5rem', fontWeight: 600, textAlign: 'right' }}>Responses</th>
+                      <th style={{ padding: '0.5rem', fontWeight: 600, textAlign: 'right' }}>Open Work</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {agentScores.map(agent => (
+                      <tr key={agent.agentId} style={{ borderTop: currentThemeStyles.cardBorder, color: currentThemeStyles.textPrimary }}>
+                        <td style={{ padding: '0.5rem', fontWeight: 500 }}>{agent.name}</td>
+                        <td style={{ padding: '0.5rem', textAlign: 'right' }}>{satisfactionService.formatCsat(agent.satisfaction.csatAverage)}</td>
+                        <td style={{ padding: '0.5rem', textAlign: 'right', fontWeight: 600, color: satisfactionService.npsColor(agent.satisfaction.nps) }}>{satisfactionService.formatNps(agent.satisfaction.nps)}</td>
+                        <td style={{ padding: '0.5rem', textAlign: 'right', color: currentThemeStyles.textSecondary }}>{agent.satisfaction.responses}</td>
+                        <td style={{ padding: '0.5rem', textAlign: 'right', color: currentThemeStyles.textSecondary }}>{agent.assignedTickets + agent.activeChats}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <p style={{ fontSize: '0.875rem', color: currentThemeStyles.textSecondary, textAlign: 'center', padding: '1rem', backgroundColor: currentThemeStyles.cardBg, borderRadius: '0.5rem', margin: 0 }}>
+                  {workload.error ? 'Could not load agent scores.' : workload.isLoading ? 'Loading agent scores...' : 'No survey responses yet.'}
+                </p>
+              )}
+            </div>
             {recentActivity && recentActivity.length > 0 && (
               <div style={{ backgroundColor: currentThemeStyles.glassPanelBg, padding: '2rem', borderRadius: '1rem', boxShadow: currentThemeStyles.glassPanelShadow, backdropFilter: 'blur(12px)', border: currentThemeStyles.glassPanelBorder }}>
                 <h3 style={{ fontSize: '1.5rem', fontWeight: 'bold', color: currentThemeStyles.textPrimary, marginBottom: '1.5rem' }}>📝 Recent Activity</h3>
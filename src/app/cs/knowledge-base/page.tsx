@@ -0,0 +1,151 @@
+// app/cs/knowledge-base/page.tsx
+'use client';
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { useTheme } from '@/app/context/ThemeContext';
+import ThemeSwitcher from '@/app/components/ThemeSwitcher';
+import AnimatedBackground from '@/app/cs/components/AnimatedBackground';
+import ArticleEditor from '@/app/cs/components/ArticleEditor';
+import { BookOpenIcon, Squares2X2Icon, PlusIcon, PencilSquareIcon, TrashIcon } from '@heroicons/react/24/outline';
+import apiClient from '@/app/services/apiClient';
+import knowledgeBaseService from '@/app/services/knowledgeBaseService';
+import { ARTICLE_LANGUAGES, TICKET_CATEGORIES, TICKET_CATEGORY_LABELS, type Article, type ArticleDraft } from '@/app/domain';
+import { useArticleAuthoring } from '@/app/hooks/useKnowledgeBase';
+
+export default function CSKnowledgeBase() {
+  const router = useRouter();
+  const { theme } = useTheme();
+  const [signedIn, setSignedIn] = useState(false);
+  const [search, setSearch] = useState('');
+  const [category, setCategory] = useState('');
+  // null while browsing, 'new' for a blank article, or the article being edited
+  const [editing, setEditing] = useState<Article | 'new' | null>(null);
+  const [notice, setNotice] = useState<{ text: string; isError: boolean } | null>(null);
+  const { articles, error, isLoading, saveArticle, deleteArticle } = useArticleAuthoring(signedIn);
+
+  useEffect(() => {
+    if (!localStorage.getItem('cs_token')) {
+      router.push('/cs/login');
+      return;
+    }
+    setSignedIn(true);
+  }, [router]);
+
+  const results = knowledgeBaseService.search(articles, search, { category: category || undefined, includeDrafts: true });
+
+  const save = async (draft: ArticleDraft) => {
+    const saved = await saveArticle(draft, editing && editing !== 'new' ? editing._id : undefined);
+    const title = knowledgeBaseService.localize(saved, 'en')?.title || 'Article';
+    setEditing(null);
+    setNotice({ text: `"${title}" ${saved.status === 'published' ? 'published' : 'saved as a draft'}`, isError: false });
+  };
+
+  const remove = async (article: Article) => {
+    const title = knowledgeBaseService.localize(article, 'en')?.title || 'this article';
+    if (!confirm(`Delete "${title}"? Passengers will no longer see it.`)) return;
+    try {
+      await deleteArticle(article._id);
+      setNotice({ text: `"${title}" deleted`, isError: false });
+    } catch (err) {
+      setNotice({ text: err instanceof Error ? err.message : 'Failed to delete article', isError: true });
+    }
+  };
+
+  const handleLogout = () => {
+    apiClient.clearSession('cs');
+    router.push('/cs/login');
+  };
+
+  // --- Theme & Style Definitions ---
+  const lightTheme = { mainBg: '#fffbeb', bgGradient: 'linear-gradient(to bottom right, #fffbeb, #fef3c7, #fde68a)', glassPanelBg: 'rgba(255, 255, 255, 0.92)', glassPanelBorder: '1px solid rgba(251, 191, 36, 0.3)', glassPanelShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.25), 0 10px 20px -5px rgba(0, 0, 0, 0.1)', textPrimary: '#1f2937', textSecondary: '#4B5563', textMuted: '#6B7280', inputBg: 'rgba(249, 250, 251, 0.8)', inputBorder: '1px solid rgba(209, 213, 219, 0.5)', cardBg: 'rgba(249, 250, 251, 0.8)' };
+  const darkTheme = { mainBg: '#0f172a', bgGradient: 'linear-gradient(to bottom right, #0f172a, #1e293b, #334155)', glassPanelBg: 'rgba(30, 41, 59, 0.8)', glassPanelBorder: '1px solid rgba(251, 191, 36, 0.3)', glassPanelShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.35), 0 10px 20px -5px rgba(0, 0, 0, 0.2)', textPrimary: '#f9fafb', textSecondary: '#9ca3af', textMuted: '#9ca3af', inputBg: 'rgba(51, 65, 85, 0.8)', inputBorder: '1px solid rgba(75, 85, 99, 0.5)', cardBg: 'rgba(51, 65, 85, 0.8)' };
+  const currentThemeStyles = theme === 'dark' ? darkTheme : lightTheme;
+  const panelStyle: React.CSSProperties = { backgroundColor: currentThemeStyles.glassPanelBg, padding: '1.5rem', borderRadius: '1rem', boxShadow: currentThemeStyles.glassPanelShadow, backdropFilter: 'blur(12px)', border: currentThemeStyles.glassPanelBorder };
+  const inputStyle: React.CSSProperties = { padding: '0.75rem', backgroundColor: currentThemeStyles.inputBg, border: currentThemeStyles.inputBorder, borderRadius: '0.5rem', fontSize: '1rem', color: currentThemeStyles.textPrimary };
+
+  return (
+    <div style={{ backgroundColor: currentThemeStyles.mainBg, minHeight: '100vh', position: 'relative', overflow: 'hidden', fontFamily: 'system-ui, -apple-system, sans-serif' }}>
+      <AnimatedBackground currentThemeStyles={currentThemeStyles} />
+
+      {/* --- Navigation Bar --- */}
+      <nav style={{ backgroundColor: 'rgba(30, 41, 59, 0.92)', backdropFilter: 'blur(12px)', borderBottom: '1px solid rgba(251, 191, 36, 0.3)', padding: '1rem 0', position: 'relative', zIndex: 10 }}>
+        <div style={{ maxWidth: '1600px', margin: '0 auto', padding: '0 1.5rem', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '1rem' }}>
+            <BookOpenIcon width={32} height={32} color="#10b981" />
+            <div>
+              <h1 style={{ fontSize: '1.5rem', fontWeight: 'bold', color: '#ffffff', margin: 0, textShadow: '0 2px 4px rgba(0, 0, 0, 0.5)' }}>
+                <span style={{ fontSize: '2rem', marginRight: '0.5rem' }}>ශ්‍රී</span> E<span style={{ color: '#DC2626' }}>x</span>press Support
+              </h1>
+              <p style={{ fontSize: '0.875rem', color: '#94a3b8', margin: 0 }}>Knowledge Base</p>
+            </div>
+          </div>
+          <div style={{ display: 'flex', gap: '1rem', alignItems: 'center' }}>
+            <ThemeSwitcher />
+            <button onClick={() => router.push('/cs/dashboard')} style={{ backgroundColor: '#374151', color: '#f9fafb', padding: '0.5rem 1rem', border: 'none', borderRadius: '0.5rem', cursor: 'pointer', display: 'flex', alignItems: 'center', gap: '0.5rem' }}><Squares2X2Icon width={16} height={16}/> Dashboard</button>
+            <button onClick={handleLogout} style={{ backgroundColor: '#374151', color: '#f9fafb', padding: '0.5rem 1rem', border: 'none', borderRadius: '0.5rem', cursor: 'pointer' }}>Logout</button>
+          </div>
+        </div>
+      </nav>
+
+      {/* --- Main Content --- */}
+      <main style={{ width: '100%', minHeight: 'calc(100vh - 90px)', display: 'flex', justifyContent: 'center', padding: '2rem 1.5rem', position: 'relative', zIndex: 5 }}>
+        <div style={{ width: '100%', maxWidth: '1200px', margin: '0 auto', display: 'flex', flexDirection: 'column', gap: '1.5rem' }}>
+          <header style={{ ...panelStyle, display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+            <div>
+              <h2 style={{ fontSize: '2rem', fontWeight: 'bold', color: currentThemeStyles.textPrimary, margin: 0 }}>Knowledge Base</h2>
+              <p style={{ color: currentThemeStyles.textSecondary, margin: '0.25rem 0 0 0' }}>Published articles appear in the Help Center and are suggested to passengers before they contact us.</p>
+            </div>
+            {!editing && <button onClick={() => { setEditing('new'); setNotice(null); }} style={{ padding: '0.75rem 1.5rem', fontSize: '1rem', fontWeight: 600, color: 'white', backgroundColor: '#3b82f6', border: 'none', borderRadius: '0.5rem', cursor: 'pointer', display: 'flex', alignItems: 'center', gap: '0.5rem' }}><PlusIcon width={20} height={20}/> New Article</button>}
+          </header>
+
+          {notice && <div style={{ ...panelStyle, padding: '1rem', color: notice.isError ? '#dc2626' : '#16a34a' }}>{notice.text}</div>}
+
+          {editing ? (
+            <div style={panelStyle}>
+              <h3 style={{ fontSize: '1.25rem', fontWeight: 'bold', color: currentThemeStyles.textPrimary, margin: '0 0 1rem 0' }}>{editing === 'new' ? 'New Article' : 'Edit Article'}</h3>
+              <ArticleEditor key={editing === 'new' ? 'new' : editing._id} article={editing === 'new' ? null : editing} onSave={save} onCancel={() => setEditing(null)} currentThemeStyles={currentThemeStyles} />
+            </div>
+          ) : (
+            <div style={panelStyle}>
+              <div style={{ display: 'grid', gridTemplateColumns: '2fr 1fr', gap: '1rem', marginBottom: '1.5rem' }}>
+                <input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search articles in any language..." style={inputStyle} />
+                <select value={category} onChange={(e) => setCategory(e.target.value)} style={inputStyle}>
+                  <option value="">All categories</option>
+                  {TICKET_CATEGORIES.map(value => <option key={value} value={value}>{TICKET_CATEGORY_LABELS[value]}</option>)}
+                </select>
+              </div>
+              {isLoading ? (
+                <p style={{ color: currentThemeStyles.textSecondary, margin: 0 }}>Loading articles...</p>
+              ) : error ? (
+                <p style={{ color: '#dc2626', margin: 0 }}>Could not load articles.</p>
+              ) : results.length === 0 ? (
+                <p style={{ color: currentThemeStyles.textSecondary, margin: 0, textAlign: 'center', padding: '2rem' }}>{articles.length ? 'No articles match.' : 'No articles yet. Write the first one!'}</p>
+              ) : (
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+                  {results.map(({ article, localized, excerpt }) => (
+                    <div key={article._id} style={{ display: 'flex', alignItems: 'flex-start', justifyContent: 'space-between', gap: '1rem', padding: '1rem', backgroundColor: currentThemeStyles.cardBg, borderRadius: '0.5rem' }}>
+                      <div style={{ minWidth: 0 }}>
+                        <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', flexWrap: 'wrap' }}>
+                          <span style={{ fontWeight: 600, color: currentThemeStyles.textPrimary }}>{localized.title}</span>
+                          <span style={{ fontSize: '0.7rem', fontWeight: 600, padding: '0.125rem 0.5rem', borderRadius: '9999px', backgroundColor: article.status === 'published' ? 'rgba(16, 185, 129, 0.15)' : 'rgba(107, 114, 128, 0.15)', color: article.status === 'published' ? '#10b981' : currentThemeStyles.textSecondary }}>{article.status}</span>
+                          <span style={{ fontSize: '0.75rem', color: currentThemeStyles.textMuted }}>{TICKET_CATEGORY_LABELS[article.category]}</span>
+                          <span style={{ fontSize: '0.75rem', color: currentThemeStyles.textMuted }}>{ARTICLE_LANGUAGES.filter(language => article.translations[language]).map(language => language.toUpperCase()).join(' · ')}</span>
+                        </div>
+                        <p style={{ fontSize: '0.875rem', color: currentThemeStyles.textSecondary, margin: '0.25rem 0 0 0' }}>{excerpt}</p>
+                        <p style={{ fontSize: '0.75rem', color: currentThemeStyles.textMuted, margin: '0.25rem 0 0 0' }}>Updated {new Date(article.updatedAt).toLocaleString()}{article.authorName ? ` by ${article.authorName}` : ''}</p>
+                      </div>
+                      <div style={{ display: 'flex', gap: '0.5rem', flexShrink: 0 }}>
+                        <button onClick={() => { setEditing(article); setNotice(null); }} title="Edit" style={{ background: 'none', border: 'none', cursor: 'pointer', color: '#3b82f6' }}><PencilSquareIcon width={20} height={20} /></button>
+                        <button onClick={() => remove(article)} title="Delete" style={{ background: 'none', border: 'none', cursor: 'pointer', color: '#dc2626' }}><TrashIcon width={20} height={20} /></button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
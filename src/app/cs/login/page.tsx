@@ -7,6 +7,7 @@ import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { EnvelopeIcon, KeyIcon, EyeIcon, EyeSlashIcon, SunIcon, MoonIcon } from '@heroicons/react/24/outline';
 import { useTheme } from '@/app/context/ThemeContext'; // Make sure this path is correct
+import { getApiBaseUrl } from '@/app/services/apiClient';
 
 // A simple ThemeSwitcher component
 const ThemeSwitcher = () => {
@@ -71,7 +72,7 @@ export default function CSLoginPage() {
     setError('');
 
     try {
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/auth/login`, {
+      const response = await fetch(`${getApiBaseUrl()}/api/auth/login`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -1,32 +1,30 @@
 // app/cs/tickets/[id]/page.tsx - REFACTORED VERSION
 'use client';
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useRouter, useParams } from 'next/navigation';
 import Link from 'next/link';
 import { useTheme } from '@/app/context/ThemeContext';
 import ThemeSwitcher from '@/app/components/ThemeSwitcher';
 import AnimatedBackground from '@/app/cs/components/AnimatedBackground';
-import { ArrowLeftIcon, Squares2X2Icon, TicketIcon, UserCircleIcon, CalendarDaysIcon, PencilSquareIcon, CheckCircleIcon, ArrowUpCircleIcon, XCircleIcon, InformationCircleIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
-
-// --- Interfaces (Unchanged) ---
-interface ITicket {
-  _id: string;
-  ticketId: string;
-  subject: string;
-  description: string;
-  category: string;
-  priority: 'low' | 'medium' | 'high' | 'urgent';
-  status: 'open' | 'in_progress' | 'pending_customer' | 'resolved' | 'closed';
-  customerInfo: { name: string; email: string; phone?: string; customerId?: string; };
-  assignedAgent?: { id: string; name: string; email: string; };
-  source: string;
-  tags: string[];
-  timeline: Array<{ _id: string; action: string; description: string; performedBy: { name: string; role: string; }; timestamp: string; metadata?: Record<string, unknown>; }>;
-  resolution?: { solution: string; resolvedAt: string; customerSatisfaction?: number; };
-  escalation?: { escalated: boolean; escalatedAt?: string; reason?: string; escalatedTo?: string; };
-  createdAt: string;
-  updatedAt: string;
-}
+import MacroLibrary from '@/app/cs/components/MacroLibrary';
+import MacroSuggestions from '@/app/cs/components/MacroSuggestions';
+import ReplySuggestions from '@/app/cs/components/ReplySuggestions';
+import SlaBadge from '@/app/cs/components/SlaBadge';
+import TicketSplitForm from '@/app/cs/components/TicketSplitForm';
+import { ArrowLeftIcon, Squares2X2Icon, TicketIcon, UserCircleIcon, CalendarDaysIcon, PencilSquareIcon, CheckCircleIcon, ArrowUpCircleIcon, XCircleIcon, InformationCircleIcon, ExclamationTriangleIcon, BoltIcon, PaperClipIcon, LinkIcon } from '@heroicons/react/24/outline';
+import apiClient from '@/app/services/apiClient';
+import { useMacroLibrary, useSlashMacros } from '@/app/hooks/useMacros';
+import type { Macro, MacroActions } from '@/app/services/macroService';
+import slaService from '@/app/services/slaService';
+import { useNow, useSlaPolicies } from '@/app/hooks/useSla';
+import { usePublishedArticles } from '@/app/hooks/useKnowledgeBase';
+import { useReplySuggestions } from '@/app/hooks/useReplySuggestions';
+import type { ConversationTurn, ReplyContext } from '@/app/services/replySuggestionService';
+import customerService from '@/app/services/customerService';
+import type { Ticket, TicketLink, TicketSplit, TicketStatus } from '@/app/domain';
+
+// --- Interfaces ---
+type ITicket = Ticket;
 
 export default function TicketDetails() {
   const router = useRouter();
@@ -38,10 +36,17 @@ export default function TicketDetails() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [newNote, setNewNote] = useState('');
+  // Status and priority changes from macros in the note; they are saved with the note, not before it
+  const [pendingActions, setPendingActions] = useState<MacroActions | null>(null);
   const [addingNote, setAddingNote] = useState(false);
   const [updatingStatus, setUpdatingStatus] = useState(false);
   const [resolutionText, setResolutionText] = useState('');
   const [showResolutionForm, setShowResolutionForm] = useState(false);
+  const [showSplitForm, setShowSplitForm] = useState(false);
+  const [agentName, setAgentName] = useState<string | undefined>(undefined);
+  const { macros } = useMacroLibrary();
+  const slaPolicies = useSlaPolicies();
+  const now = useNow();
 
   // --- Logic and Handlers (Unchanged) ---
   useEffect(() => {
@@ -50,20 +55,21 @@ export default function TicketDetails() {
       router.push('/cs/login');
       return;
     }
+    try {
+      setAgentName(JSON.parse(localStorage.getItem('cs_user') || 'null')?.name);
+    } catch {
+      setAgentName(undefined);
+    }
     if (params.id) {
-      fetchTicket(token, params.id as string);
+      fetchTicket(params.id as string);
     }
   }, [params.id, router]);
 
-  const fetchTicket = async (token: string, ticketId: string) => {
+  const fetchTicket = async (ticketId: string) => {
     setLoading(true);
     setError(null);
     try {
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/cs/tickets/${ticketId}`, { headers: { Authorization: `Bearer ${token}` } });
-      if (!response.ok) throw new Error(`Failed to fetch ticket: ${response.statusText}`);
-      const result = await response.json();
-      if (result.success) setTicket(result.data);
-      else throw new Error(result.message || 'Failed to load ticket');
+      setTicket((await apiClient.cs.tickets.get(ticketId)).data);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load ticket');
     } finally {
@@ -73,14 +79,15 @@ export default function TicketDetails() {
 
   const addNote = async () => {
     if (!newNote.trim() || !ticket) return;
+    const text = newNote;
     setAddingNote(true);
     try {
-      const token = localStorage.getItem('cs_token');
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/cs/tickets/${ticket._id}/notes`, { method: 'POST', headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' }, body: JSON.stringify({ note: newNote }) });
-      if (response.ok) {
-        setNewNote('');
-        if (token) fetchTicket(token, ticket._id);
-      } else throw new Error('Failed to add note');
+      await apiClient.cs.tickets.addNote(ticket._id, text);
+      setNewNote('');
+      replies.recordSent(text);
+      if (pendingActions) await applyMacroActions(pendingActions);
+      setPendingActions(null);
+      fetchTicket(ticket._id);
     } catch (err) {
       setError('Failed to add note');
     } finally {
@@ -88,15 +95,12 @@ export default function TicketDetails() {
     }
   };
 
-  const updateStatus = async (newStatus: string) => {
+  const updateStatus = async (newStatus: TicketStatus) => {
     if (!ticket) return;
     setUpdatingStatus(true);
     try {
-      const token = localStorage.getItem('cs_token');
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/cs/tickets/${ticket._id}`, { method: 'PUT', headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' }, body: JSON.stringify({ status: newStatus }) });
-      if (response.ok) {
-        if (token) fetchTicket(token, ticket._id);
-      } else throw new Error('Failed to update status');
+      await apiClient.cs.tickets.update(ticket._id, { status: newStatus });
+      fetchTicket(ticket._id);
     } catch (err) {
       setError('Failed to update status');
     } finally {
@@ -108,13 +112,10 @@ export default function TicketDetails() {
     if (!resolutionText.trim() || !ticket) return;
     setUpdatingStatus(true);
     try {
-      const token = localStorage.getItem('cs_token');
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/cs/tickets/${ticket._id}/resolve`, { method: 'PUT', headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' }, body: JSON.stringify({ solution: resolutionText }) });
-      if (response.ok) {
-        setResolutionText('');
-        setShowResolutionForm(false);
-        if (token) fetchTicket(token, ticket._id);
-      } else throw new Error('Failed to resolve ticket');
+      await apiClient.cs.tickets.resolve(ticket._id, resolutionText);
+      setResolutionText('');
+      setShowResolutionForm(false);
+      fetchTicket(ticket._id);
     } catch (err) {
       setError('Failed to resolve ticket');
     } finally {
@@ -128,11 +129,8 @@ export default function TicketDetails() {
     if (!reason) return;
     setUpdatingStatus(true);
     try {
-      const token = localStorage.getItem('cs_token');
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/cs/tickets/${ticket._id}/escalate`, { method: 'PUT', headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' }, body: JSON.stringify({ reason }) });
-      if (response.ok) {
-        if (token) fetchTicket(token, ticket._id);
-      } else throw new Error('Failed to escalate ticket');
+      await apiClient.cs.tickets.escalate(ticket._id, reason);
+      fetchTicket(ticket._id);
     } catch (err) {
       setError('Failed to escalate ticket');
     } finally {
@@ -140,6 +138,67 @@ export default function TicketDetails() {
     }
   };
 
+  const splitTicket = async (split: TicketSplit) => {
+    if (!ticket) return;
+    await apiClient.cs.tickets.split(ticket._id, split);
+    setShowSplitForm(false);
+    fetchTicket(ticket._id);
+  };
+
+  // One macro can move the ticket along as well as fill in the note; the note has already been saved here
+  const applyMacroActions = async (actions: MacroActions) => {
+    if (!ticket) return;
+    setUpdatingStatus(true);
+    try {
+      await apiClient.cs.tickets.update(ticket._id, actions);
+    } catch (err) {
+      setError('Note added, but the macro\'s status and priority changes failed');
+    } finally {
+      setUpdatingStatus(false);
+    }
+  };
+
+  // Emptying the note box discards the macro changes that came with it
+  const changeNote = (value: string) => {
+    setNewNote(value);
+    if (!value.trim()) setPendingActions(null);
+  };
+
+  const noteMacros = useSlashMacros({
+    value: newNote,
+    onChange: changeNote,
+    macros,
+    context: {
+      customerName: ticket?.customerInfo.name,
+      agentName,
+      ticketId: ticket?.ticketId,
+      bookingId: ticket?.relatedBooking?.bookingId,
+      refundAmount: ticket?.relatedBooking?.refundAmount,
+    },
+    onActions: (actions) => setPendingActions(pending => ({ ...pending, ...actions })),
+  });
+
+  // The description opens the conversation; internal notes never reach the customer, so they are left out
+  const { articles } = usePublishedArticles();
+  const replyContext = useMemo<ReplyContext | null>(() => ticket ? {
+    channel: 'ticket',
+    referenceId: ticket._id,
+    customerName: ticket.customerInfo.name,
+    agentName,
+    subject: ticket.subject,
+    category: ticket.category,
+    history: [
+      { from: 'customer', text: ticket.description },
+      ...ticket.timeline
+        .filter(item => item.metadata?.internal !== true && item.action !== 'created' && item.description)
+        .map((item): ConversationTurn => ({ from: item.performedBy.role === 'customer' ? 'customer' : item.performedBy.role === 'system' ? 'system' : 'agent', text: item.description })),
+    ],
+    booking: ticket.relatedBooking,
+    payment: ticket.relatedPayment,
+    articles,
+  } : null, [ticket, agentName, articles]);
+  const replies = useReplySuggestions(replyContext);
+
   // --- Theme & Style Definitions ---
   const lightTheme = { mainBg: '#fffbeb', bgGradient: 'linear-gradient(to bottom right, #fffbeb, #fef3c7, #fde68a)', glassPanelBg: 'rgba(255, 255, 255, 0.92)', glassPanelBorder: '1px solid rgba(251, 191, 36, 0.3)', glassPanelShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.25), 0 10px 20px -5px rgba(0, 0, 0, 0.1)', textPrimary: '#1f2937', textSecondary: '#4B5563', textMuted: '#6B7280', inputBg: 'rgba(249, 250, 251, 0.8)', inputBorder: '1px solid rgba(209, 213, 219, 0.5)', tableHeaderBg: 'rgba(249, 250, 251, 0.6)', tableRowHover: 'rgba(249, 250, 251, 0.9)' };
   const darkTheme = { mainBg: '#0f172a', bgGradient: 'linear-gradient(to bottom right, #0f172a, #1e293b, #334155)', glassPanelBg: 'rgba(30, 41, 59, 0.8)', glassPanelBorder: '1px solid rgba(251, 191, 36, 0.3)', glassPanelShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.35), 0 10px 20px -5px rgba(0, 0, 0, 0.2)', textPrimary: '#f9fafb', textSecondary: '#9ca3af', textMuted: '#9ca3af', inputBg: 'rgba(51, 65, 85, 0.8)', inputBorder: '1px solid rgba(75, 85, 99, 0.5)', tableHeaderBg: 'rgba(51, 65, 85, 0.6)', tableRowHover: 'rgba(51, 65, 85, 0.9)' };
@@ -153,6 +212,14 @@ export default function TicketDetails() {
   const getStatusDisplay = (status: string) => ({ 'open': '🔴 Open', 'in_progress': '🟡 In Progress', 'pending_customer': '🔵 Pending Customer', 'resolved': '🟢 Resolved', 'closed': '⚪ Closed' }[status] || status);
   const getPriorityDisplay = (priority: string) => ({ 'urgent': '🚨 Urgent', 'high': '🔴 High', 'medium': '🟡 Medium', 'low': '🟢 Low' }[priority] || priority);
 
+  const renderTicketLink = (link: TicketLink) => (
+    <Link key={link._id} href={`/cs/tickets/${link._id}`} style={{ display: 'block', textDecoration: 'none' }}>
+      <span style={{ color: '#3b82f6', fontWeight: 600 }}>#{link.ticketId}</span>
+      {link.status && <span style={{ marginLeft: '0.5rem', fontSize: '0.75rem', color: getStatusColor(link.status) }}>{getStatusDisplay(link.status)}</span>}
+      {link.subject && <div style={{ color: currentThemeStyles.textMuted, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{link.subject}</div>}
+    </Link>
+  );
+
   if (loading) {
     return (
       <div style={{ backgroundColor: currentThemeStyles.mainBg, minHeight: '100vh', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
@@ -211,6 +278,13 @@ export default function TicketDetails() {
             <button onClick={() => router.push('/cs/tickets')} style={{ padding: '0.75rem 1.5rem', fontSize: '1rem', fontWeight: '600', color: currentThemeStyles.textPrimary, backgroundColor: currentThemeStyles.glassPanelBg, border: currentThemeStyles.glassPanelBorder, borderRadius: '0.5rem', cursor: 'pointer', display: 'flex', alignItems: 'center', gap: '0.5rem' }}><ArrowLeftIcon width={20} height={20}/> Back to Queue</button>
           </header>
 
+          {ticket.mergedInto && (
+            <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '2rem', padding: '1rem', borderRadius: '0.75rem', backgroundColor: 'rgba(234, 88, 12, 0.1)', border: '1px solid rgba(234, 88, 12, 0.4)', color: currentThemeStyles.textPrimary }}>
+              <LinkIcon width={20} height={20} color="#ea580c" />
+              This ticket was merged as a duplicate. Follow the conversation on <Link href={`/cs/tickets/${ticket.mergedInto._id}`} style={{ color: '#3b82f6', fontWeight: 600 }}>#{ticket.mergedInto.ticketId}</Link>.
+            </div>
+          )}
+
           <div style={{ display: 'grid', gridTemplateColumns: '2fr 1fr', gap: '2rem', alignItems: 'start' }}>
             {/* Main Content */}
             <div style={{ display: 'flex', flexDirection: 'column', gap: '2rem' }}>
@@ -256,7 +330,7 @@ export default function TicketDetails() {
                       <div style={{ flex: 1 }}>
                         <div style={{ fontSize: '1rem', fontWeight: '500', color: currentThemeStyles.textPrimary, marginBottom: '0.25rem' }}>{item.action}</div>
                         <div style={{ fontSize: '1rem', color: currentThemeStyles.textSecondary, marginBottom: '0.25rem' }}>{item.description}</div>
-                        <div style={{ fontSize: '0.875rem', color: currentThemeStyles.textMuted }}>{item.performedBy.name} • {new Date(item.timestamp).toLocaleString()}</div>
+                        <div style={{ fontSize: '0.875rem', color: currentThemeStyles.textMuted }}>{item.performedBy.name} • {new Date(item.timestamp).toLocaleString()}{typeof item.metadata?.sourceTicketId === 'string' && item.metadata.sourceTicketId !== ticket.ticketId && ` • from #${item.metadata.sourceTicketId}`}</div>
                       </div>
                     </div>
                   ))}
@@ -267,7 +341,18 @@ export default function TicketDetails() {
               <div style={{ backgroundColor: currentThemeStyles.glassPanelBg, padding: '2rem', borderRadius: '1rem', boxShadow: currentThemeStyles.glassPanelShadow, backdropFilter: 'blur(12px)', border: currentThemeStyles.glassPanelBorder }}>
                 <h3 style={{ fontSize: '1.5rem', fontWeight: '600', color: currentThemeStyles.textPrimary, marginBottom: '1.5rem', display: 'flex', alignItems: 'center', gap: '0.75rem' }}><PencilSquareIcon width={28} height={28} /> Add Note</h3>
                 <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
-                  <textarea value={newNote} onChange={(e) => setNewNote(e.target.value)} rows={4} style={{ width: '100%', padding: '0.75rem', backgroundColor: currentThemeStyles.inputBg, border: currentThemeStyles.inputBorder, borderRadius: '0.5rem', fontSize: '1rem', color: currentThemeStyles.textPrimary, resize: 'vertical' }} placeholder="Add a note to the ticket timeline..." />
+                  <ReplySuggestions suggestions={replies.suggestions} isLoading={replies.isLoading} provider={replies.provider} onInsert={suggestion => setNewNote(replies.insert(suggestion))} onDismiss={replies.dismiss} currentThemeStyles={currentThemeStyles} />
+                  <div style={{ position: 'relative' }}>
+                    <MacroSuggestions suggestions={noteMacros.suggestions} activeIndex={noteMacros.activeIndex} onSelect={noteMacros.insert} currentThemeStyles={currentThemeStyles} showActions />
+                    <textarea value={newNote} onChange={(e) => { changeNote(e.target.value); noteMacros.clearMissing(); }} onKeyDown={noteMacros.handleKeyDown} rows={4} style={{ width: '100%', padding: '0.75rem', backgroundColor: currentThemeStyles.inputBg, border: currentThemeStyles.inputBorder, borderRadius: '0.5rem', fontSize: '1rem', color: currentThemeStyles.textPrimary, resize: 'vertical' }} placeholder="Add a note to the ticket timeline... Type / for macros" />
+                  </div>
+                  {noteMacros.missing.length > 0 && newNote && <p style={{ fontSize: '0.875rem', color: '#d97706', margin: 0 }}>Fill in before sending: {noteMacros.missing.join(', ')}</p>}
+                  {pendingActions && (
+                    <p style={{ fontSize: '0.875rem', color: currentThemeStyles.textSecondary, margin: 0 }}>
+                      Adding this note will also set {[pendingActions.status && `status: ${pendingActions.status.replace('_', ' ')}`, pendingActions.priority && `priority: ${pendingActions.priority}`].filter(Boolean).join(' · ')}.{' '}
+                      <button onClick={() => setPendingActions(null)} style={{ background: 'none', border: 'none', padding: 0, color: '#3b82f6', cursor: 'pointer', fontSize: '0.875rem', textDecoration: 'underline' }}>Don&apos;t change</button>
+                    </p>
+                  )}
                   <button onClick={addNote} disabled={!newNote.trim() || addingNote} style={{ alignSelf: 'flex-start', padding: '0.75rem 1.5rem', backgroundColor: '#3b82f6', color: 'white', border: 'none', borderRadius: '0.5rem', cursor: !newNote.trim() || addingNote ? 'not-allowed' : 'pointer', opacity: !newNote.trim() || addingNote ? 0.5 : 1, fontWeight: 600 }}>{addingNote ? 'Adding...' : 'Add Note'}</button>
                 </div>
               </div>
@@ -285,6 +370,42 @@ export default function TicketDetails() {
                 </div>
               </div>
 
+              {(ticket.relatedBooking || ticket.relatedPayment) && (
+                <div style={{ backgroundColor: currentThemeStyles.glassPanelBg, padding: '2rem', borderRadius: '1rem', boxShadow: currentThemeStyles.glassPanelShadow, backdropFilter: 'blur(12px)', border: currentThemeStyles.glassPanelBorder }}>
+                  <h3 style={{ fontSize: '1.25rem', fontWeight: '600', color: currentThemeStyles.textPrimary, marginBottom: '1.5rem', display: 'flex', alignItems: 'center', gap: '0.75rem' }}><PaperClipIcon width={24} height={24} /> Attached</h3>
+                  <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem', fontSize: '0.875rem' }}>
+                    {ticket.relatedBooking && (
+                      <div>
+                        <div style={{ color: currentThemeStyles.textSecondary }}>Booking</div>
+                        <div style={{ color: currentThemeStyles.textPrimary, fontFamily: 'monospace', fontWeight: 600 }}>{ticket.relatedBooking.bookingId}</div>
+                        {(ticket.relatedBooking.routeName || ticket.relatedBooking.travelDate) && <div style={{ color: currentThemeStyles.textMuted }}>{[ticket.relatedBooking.routeName, ticket.relatedBooking.travelDate && `travel ${new Date(ticket.relatedBooking.travelDate).toLocaleDateString()}`].filter(Boolean).join(' · ')}</div>}
+                        <div style={{ color: currentThemeStyles.textMuted }}>{[ticket.relatedBooking.totalAmount !== undefined && customerService.formatAmount(ticket.relatedBooking.totalAmount), ticket.relatedBooking.refundAmount !== undefined && `${customerService.formatAmount(ticket.relatedBooking.refundAmount)} refunded`, ticket.relatedBooking.status].filter(Boolean).join(' · ')}</div>
+                      </div>
+                    )}
+                    {ticket.relatedPayment && (
+                      <div>
+                        <div style={{ color: currentThemeStyles.textSecondary }}>Payment</div>
+                        <div style={{ color: currentThemeStyles.textPrimary, fontFamily: 'monospace', fontWeight: 600 }}>{ticket.relatedPayment.paymentId}</div>
+                        <div style={{ color: currentThemeStyles.textMuted }}>{[customerService.formatAmount(ticket.relatedPayment.amount), ticket.relatedPayment.method, ticket.relatedPayment.status].filter(Boolean).join(' · ')}</div>
+                        {ticket.relatedPayment.bookingId && ticket.relatedPayment.bookingId !== ticket.relatedBooking?.bookingId && <div style={{ color: currentThemeStyles.textMuted }}>For booking {ticket.relatedPayment.bookingId}</div>}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {(ticket.parentTicket || ticket.childTickets.length > 0 || ticket.mergedInto || ticket.mergedTickets.length > 0) && (
+                <div style={{ backgroundColor: currentThemeStyles.glassPanelBg, padding: '2rem', borderRadius: '1rem', boxShadow: currentThemeStyles.glassPanelShadow, backdropFilter: 'blur(12px)', border: currentThemeStyles.glassPanelBorder }}>
+                  <h3 style={{ fontSize: '1.25rem', fontWeight: '600', color: currentThemeStyles.textPrimary, marginBottom: '1.5rem', display: 'flex', alignItems: 'center', gap: '0.75rem' }}><LinkIcon width={24} height={24} /> Linked Tickets</h3>
+                  <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem', fontSize: '0.875rem' }}>
+                    {ticket.parentTicket && <div><div style={{ color: currentThemeStyles.textSecondary, marginBottom: '0.25rem' }}>Split from</div>{renderTicketLink(ticket.parentTicket)}</div>}
+                    {ticket.childTickets.length > 0 && <div><div style={{ color: currentThemeStyles.textSecondary, marginBottom: '0.25rem' }}>Split into</div><div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>{ticket.childTickets.map(renderTicketLink)}</div></div>}
+                    {ticket.mergedInto && <div><div style={{ color: currentThemeStyles.textSecondary, marginBottom: '0.25rem' }}>Merged into</div>{renderTicketLink(ticket.mergedInto)}</div>}
+                    {ticket.mergedTickets.length > 0 && <div><div style={{ color: currentThemeStyles.textSecondary, marginBottom: '0.25rem' }}>Duplicates merged in</div><div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>{ticket.mergedTickets.map(renderTicketLink)}</div></div>}
+                  </div>
+                </div>
+              )}
+
               <div style={{ backgroundColor: currentThemeStyles.glassPanelBg, padding: '2rem', borderRadius: '1rem', boxShadow: currentThemeStyles.glassPanelShadow, backdropFilter: 'blur(12px)', border: currentThemeStyles.glassPanelBorder }}>
                 <h3 style={{ fontSize: '1.25rem', fontWeight: '600', color: currentThemeStyles.textPrimary, marginBottom: '1.5rem' }}>⚡ Actions</h3>
                 <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
@@ -294,8 +415,15 @@ export default function TicketDetails() {
                     <button onClick={() => updateStatus('pending_customer')} disabled={updatingStatus} style={{ padding: '0.75rem', backgroundColor: getStatusColor('pending_customer'), color: 'white', border: 'none', borderRadius: '0.5rem', cursor: 'pointer', fontWeight: 600 }}>Set to Pending</button>
                   </>}
                   {!ticket.escalation?.escalated && ticket.status !== 'resolved' && ticket.status !== 'closed' && <button onClick={escalateTicket} disabled={updatingStatus} style={{ padding: '0.75rem', backgroundColor: getPriorityColor('urgent'), color: 'white', border: 'none', borderRadius: '0.5rem', cursor: 'pointer', fontWeight: 600 }}>Escalate</button>}
+                  {!ticket.mergedInto && ticket.status !== 'resolved' && ticket.status !== 'closed' && <button onClick={() => setShowSplitForm(!showSplitForm)} disabled={updatingStatus} style={{ padding: '0.75rem', backgroundColor: '#7c3aed', color: 'white', border: 'none', borderRadius: '0.5rem', cursor: 'pointer', fontWeight: 600 }}>Split Ticket</button>}
                   {ticket.status === 'resolved' && <button onClick={() => updateStatus('closed')} disabled={updatingStatus} style={{ padding: '0.75rem', backgroundColor: getStatusColor('closed'), color: 'white', border: 'none', borderRadius: '0.5rem', cursor: 'pointer', fontWeight: 600 }}>Close Ticket</button>}
                 </div>
+                {showSplitForm && (
+                  <div style={{ marginTop: '1.5rem', padding: '1rem', backgroundColor: currentThemeStyles.inputBg, borderRadius: '0.5rem', border: '1px solid #7c3aed' }}>
+                    <h4 style={{ fontSize: '1rem', fontWeight: '600', color: '#7c3aed', marginBottom: '0.5rem' }}>Split Ticket</h4>
+                    <TicketSplitForm ticket={ticket} onSplit={splitTicket} onCancel={() => setShowSplitForm(false)} currentThemeStyles={currentThemeStyles} />
+                  </div>
+                )}
                 {showResolutionForm && (
                   <div style={{ marginTop: '1.5rem', padding: '1rem', backgroundColor: currentThemeStyles.inputBg, borderRadius: '0.5rem', border: `1px solid ${getStatusColor('resolved')}` }}>
                     <h4 style={{ fontSize: '1rem', fontWeight: '600', color: getStatusColor('resolved'), marginBottom: '0.5rem' }}>Resolve Ticket</h4>
@@ -308,9 +436,15 @@ export default function TicketDetails() {
                 )}
               </div>
 
+              <div style={{ backgroundColor: currentThemeStyles.glassPanelBg, padding: '2rem', borderRadius: '1rem', boxShadow: currentThemeStyles.glassPanelShadow, backdropFilter: 'blur(12px)', border: currentThemeStyles.glassPanelBorder }}>
+                <h3 style={{ fontSize: '1.25rem', fontWeight: '600', color: currentThemeStyles.textPrimary, marginBottom: '1.5rem', display: 'flex', alignItems: 'center', gap: '0.75rem' }}><BoltIcon width={24} height={24} /> Macros</h3>
+                <MacroLibrary macros={macros} onApply={(macro: Macro) => noteMacros.insert(macro)} disabled={updatingStatus} currentThemeStyles={currentThemeStyles} />
+              </div>
+
               <div style={{ backgroundColor: currentThemeStyles.glassPanelBg, padding: '2rem', borderRadius: '1rem', boxShadow: currentThemeStyles.glassPanelShadow, backdropFilter: 'blur(12px)', border: currentThemeStyles.glassPanelBorder }}>
                 <h3 style={{ fontSize: '1.25rem', fontWeight: '600', color: currentThemeStyles.textPrimary, marginBottom: '1.5rem', display: 'flex', alignItems: 'center', gap: '0.75rem' }}><InformationCircleIcon width={24} height={24} /> Metadata</h3>
                 <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem', fontSize: '0.875rem' }}>
+                  <div><div style={{ color: currentThemeStyles.textSecondary, marginBottom: '0.25rem' }}>SLA</div><SlaBadge evaluation={slaService.evaluate(ticket, slaPolicies, now)} /></div>
                   <div><div style={{ color: currentThemeStyles.textSecondary }}>Created</div><div style={{ color: currentThemeStyles.textPrimary }}>{new Date(ticket.createdAt).toLocaleString()}</div></div>
                   <div><div style={{ color: currentThemeStyles.textSecondary }}>Last Updated</div><div style={{ color: currentThemeStyles.textPrimary }}>{new Date(ticket.updatedAt).toLocaleString()}</div></div>
                   {ticket.escalation?.escalated && <div><div style={{ color: currentThemeStyles.textSecondary }}>Escalated</div><div style={{ color: getPriorityColor('urgent') }}>{new Date(ticket.escalation.escalatedAt!).toLocaleString()}</div><div style={{ fontSize: '0.75rem', color: currentThemeStyles.textMuted }}>Reason: {ticket.escalation.reason}</div></div>}
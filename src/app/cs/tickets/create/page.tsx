@@ -1,41 +1,25 @@
 // app/cs/tickets/create/page.tsx - REFACTORED VERSION
 'use client';
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { useTheme } from '@/app/context/ThemeContext';
 import ThemeSwitcher from '@/app/components/ThemeSwitcher';
 import AnimatedBackground from '@/app/cs/components/AnimatedBackground'; // IMPORT THE NEW COMPONENT
-import { ArrowLeftIcon, UserCircleIcon, TicketIcon, PlusIcon, TrashIcon, CheckIcon, ExclamationTriangleIcon, Squares2X2Icon } from '@heroicons/react/24/outline';
+import CustomerProfilePanel from '@/app/cs/components/CustomerProfilePanel';
+import { ArrowLeftIcon, UserCircleIcon, TicketIcon, PlusIcon, TrashIcon, CheckIcon, ExclamationTriangleIcon, Squares2X2Icon, IdentificationIcon, PaperClipIcon } from '@heroicons/react/24/outline';
+import apiClient from '@/app/services/apiClient';
+import { TICKET_CATEGORIES, TICKET_CATEGORY_LABELS, type NewTicket, type TicketCustomerInfo } from '@/app/domain';
+import customerService, { type CustomerSearchField, type CustomerSummary } from '@/app/services/customerService';
+import { useCustomerSearch } from '@/app/hooks/useCustomers';
 
-// --- Interfaces (Unchanged) ---
-interface CustomerInfo {
-  name: string;
-  email: string;
-  phone?: string;
-  customerId?: string;
-}
-
-interface TicketData {
-  subject: string;
-  description: string;
-  category: string;
-  priority: 'low' | 'medium' | 'high' | 'urgent';
-  customerInfo: CustomerInfo;
-  source: 'email' | 'phone' | 'chat' | 'manual' | 'web';
-  tags: string[];
-  attachments?: string[];
-}
-
-interface SearchedCustomer {
-    id: string;
-    name: string;
-    email: string;
-    phone: string;
-}
+// --- Interfaces ---
+type CustomerInfo = TicketCustomerInfo;
+type TicketData = NewTicket;
 
 // --- Constants (Unchanged) ---
-const CATEGORIES = ['booking_issue', 'payment_problem', 'route_information', 'schedule_inquiry', 'refund_request', 'account_support', 'technical_issue', 'complaint', 'suggestion', 'other'];
-const CATEGORY_LABELS: Record<string, string> = { booking_issue: 'Booking Issue', payment_problem: 'Payment Problem', route_information: 'Route Information', schedule_inquiry: 'Schedule Inquiry', refund_request: 'Refund Request', account_support: 'Account Support', technical_issue: 'Technical Issue', complaint: 'Complaint', suggestion: 'Suggestion', other: 'Other' };
+const CATEGORIES = TICKET_CATEGORIES;
+const CATEGORY_LABELS = TICKET_CATEGORY_LABELS;
+const SEARCH_FIELD_LABELS: Record<CustomerSearchField, string> = { email: 'email', phone: 'phone', nic: 'NIC', booking: 'booking ID', name: 'name' };
 
 export default function CreateTicket() {
   const router = useRouter();
@@ -44,9 +28,9 @@ export default function CreateTicket() {
   // --- State Management (Unchanged) ---
   const [formData, setFormData] = useState<TicketData>({ subject: '', description: '', category: '', priority: 'medium', customerInfo: { name: '', email: '', phone: '', customerId: '' }, source: 'manual', tags: [] });
   const [tagInput, setTagInput] = useState('');
-  const [existingCustomers, setExistingCustomers] = useState<SearchedCustomer[]>([]);
   const [customerSearch, setCustomerSearch] = useState('');
   const [showCustomerDropdown, setShowCustomerDropdown] = useState(false);
+  const [profileCustomerId, setProfileCustomerId] = useState<string | null>(null);
   const [creating, setCreating] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -73,33 +57,15 @@ export default function CreateTicket() {
     return () => clearTimeout(handler);
   }, [formData]);
 
-  const searchCustomers = useCallback(async (query: string) => {
-    try {
-      const mockCustomers: SearchedCustomer[] = [
-        { id: '1', name: 'Anjali Wickrama', email: 'anjali@example.com', phone: '+94701234567' },
-        { id: '2', name: 'Ranil Kumar', email: 'ranil@example.com', phone: '+94709876543' },
-        { id: '3', name: 'Priya De Silva', email: 'priya@example.com', phone: '+94715555555' }
-      ];
-      const filtered = mockCustomers.filter(c => c.name.toLowerCase().includes(query.toLowerCase()) || c.email.toLowerCase().includes(query.toLowerCase()));
-      setExistingCustomers(filtered);
-      setShowCustomerDropdown(filtered.length > 0);
-    } catch (err) { console.error('Failed to search customers:', err); }
-  }, []);
+  const customerLookup = useCustomerSearch(customerSearch);
+  const existingCustomers = customerLookup.customers;
 
-  useEffect(() => {
-    if (customerSearch.length > 2) {
-      const handler = setTimeout(() => searchCustomers(customerSearch), 300);
-      return () => clearTimeout(handler);
-    } else {
-      setExistingCustomers([]);
-      setShowCustomerDropdown(false);
-    }
-  }, [customerSearch, searchCustomers]);
-
-  const selectCustomer = (customer: SearchedCustomer) => {
-    setFormData(prev => ({ ...prev, customerInfo: { name: customer.name, email: customer.email, phone: customer.phone, customerId: customer.id } }));
+  const selectCustomer = (customer: CustomerSummary) => {
+    // Attachments belong to the previous customer's history
+    setFormData(prev => ({ ...prev, customerInfo: { name: customer.name, email: customer.email, phone: customer.phone || '', customerId: customer.id }, relatedBooking: undefined, relatedPayment: undefined }));
     setCustomerSearch(customer.name);
     setShowCustomerDropdown(false);
+    setProfileCustomerId(customer.id);
   };
 
   const handleInputChange = (field: string, value: string) => {
@@ -138,16 +104,9 @@ export default function CreateTicket() {
       return;
     }
     try {
-      const token = localStorage.getItem('cs_token');
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/cs/tickets`, { method: 'POST', headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' }, body: JSON.stringify(formData) });
-      if (!response.ok) throw new Error(`Failed to create ticket: ${response.statusText}`);
-      const result = await response.json();
-      if (result.success) {
-        localStorage.removeItem('cs_ticket_draft');
-        router.push(`/cs/tickets/${result.data._id}`);
-      } else {
-        throw new Error(result.message || 'Failed to create ticket');
-      }
+      const { data: ticket } = await apiClient.cs.tickets.create(formData);
+      localStorage.removeItem('cs_ticket_draft');
+      router.push(`/cs/tickets/${ticket._id}`);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An unknown error occurred.');
     } finally {
@@ -159,11 +118,12 @@ export default function CreateTicket() {
     localStorage.removeItem('cs_ticket_draft');
     setFormData({ subject: '', description: '', category: '', priority: 'medium', customerInfo: { name: '', email: '', phone: '', customerId: '' }, source: 'manual', tags: [] });
     setCustomerSearch('');
+    setProfileCustomerId(null);
     setTagInput('');
   };
   
   const handleLogout = () => {
-    localStorage.removeItem('cs_token');
+    apiClient.clearSession('cs');
     router.push('/cs/login');
   };
 
@@ -236,13 +196,19 @@ export default function CreateTicket() {
               <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(250px, 1fr))', gap: '1.5rem' }}>
                 <div style={{ position: 'relative' }}>
                   <label style={{ display: 'block', fontSize: '1rem', fontWeight: '500', color: currentThemeStyles.textSecondary, marginBottom: '0.5rem' }}>Customer Name / Search</label>
-                  <input type="text" value={customerSearch} onChange={(e) => { setCustomerSearch(e.target.value); handleInputChange('customerInfo.name', e.target.value); }} style={{ width: '100%', padding: '0.75rem', backgroundColor: currentThemeStyles.inputBg, border: currentThemeStyles.inputBorder, borderRadius: '0.5rem', fontSize: '1rem', color: currentThemeStyles.textPrimary }} placeholder="Search or enter new name" required />
+                  <input type="text" value={customerSearch} onChange={(e) => { setCustomerSearch(e.target.value); setShowCustomerDropdown(true); handleInputChange('customerInfo.name', e.target.value); }} onBlur={() => setTimeout(() => setShowCustomerDropdown(false), 150)} style={{ width: '100%', padding: '0.75rem', backgroundColor: currentThemeStyles.inputBg, border: currentThemeStyles.inputBorder, borderRadius: '0.5rem', fontSize: '1rem', color: currentThemeStyles.textPrimary }} placeholder="Name, email, phone, NIC or booking ID" required />
+                  {showCustomerDropdown && customerService.isSearchable(customerSearch) && (customerLookup.isSearching || existingCustomers.length === 0) && (
+                    <div style={{ fontSize: '0.8rem', color: currentThemeStyles.textMuted, marginTop: '0.375rem' }}>
+                      {customerLookup.isSearching ? `Searching by ${SEARCH_FIELD_LABELS[customerLookup.field]}...` : customerLookup.error ? 'Customer search is unavailable; enter the details by hand.' : `No customer with that ${SEARCH_FIELD_LABELS[customerLookup.field]} — a new one will be recorded.`}
+                    </div>
+                  )}
                   {showCustomerDropdown && existingCustomers.length > 0 && (
                     <div style={{ position: 'absolute', zIndex: 10, width: '100%', marginTop: '0.5rem', backgroundColor: currentThemeStyles.glassPanelBg, border: currentThemeStyles.glassPanelBorder, borderRadius: '0.5rem', boxShadow: currentThemeStyles.glassPanelShadow, backdropFilter: 'blur(10px)', overflow: 'hidden' }}>
                       {existingCustomers.map((customer) => (
-                        <div key={customer.id} onClick={() => selectCustomer(customer)} style={{ padding: '0.75rem 1rem', cursor: 'pointer', borderBottom: `1px solid ${currentThemeStyles.inputBorder}` }} onMouseOver={e => e.currentTarget.style.backgroundColor = currentThemeStyles.tableRowHover} onMouseOut={e => e.currentTarget.style.backgroundColor = 'transparent'}>
+                        <div key={customer.id} onMouseDown={(e) => { e.preventDefault(); selectCustomer(customer); }} style={{ padding: '0.75rem 1rem', cursor: 'pointer', borderBottom: `1px solid ${currentThemeStyles.inputBorder}` }} onMouseOver={e => e.currentTarget.style.backgroundColor = currentThemeStyles.tableRowHover} onMouseOut={e => e.currentTarget.style.backgroundColor = 'transparent'}>
                           <div style={{ fontWeight: '600', color: currentThemeStyles.textPrimary }}>{customer.name}</div>
-                          <div style={{ fontSize: '0.875rem', color: currentThemeStyles.textMuted }}>{customer.email}</div>
+                          <div style={{ fontSize: '0.875rem', color: currentThemeStyles.textMuted }}>{[customer.email, customer.phone, customer.nic && `NIC ${customer.nic}`].filter(Boolean).join(' · ')}</div>
+                          {customer.matchedOn && customer.matchedOn !== 'name' && <div style={{ fontSize: '0.75rem', color: '#3b82f6' }}>Matched on {SEARCH_FIELD_LABELS[customer.matchedOn]}</div>}
                         </div>
                       ))}
                     </div>
@@ -261,6 +227,23 @@ export default function CreateTicket() {
                   <input type="text" value={formData.customerInfo.customerId} onChange={(e) => handleInputChange('customerInfo.customerId', e.target.value)} style={{ width: '100%', padding: '0.75rem', backgroundColor: currentThemeStyles.inputBg, border: currentThemeStyles.inputBorder, borderRadius: '0.5rem', fontSize: '1rem', color: currentThemeStyles.textPrimary }} placeholder="CUST001" />
                 </div>
               </div>
+              {formData.customerInfo.customerId && (
+                <div style={{ marginTop: '1.5rem', display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '0.75rem' }}>
+                  <button type="button" onClick={() => setProfileCustomerId(formData.customerInfo.customerId || null)} style={{ padding: '0.5rem 1rem', fontSize: '0.875rem', fontWeight: '600', color: '#3b82f6', backgroundColor: 'transparent', border: '1px solid #3b82f6', borderRadius: '0.5rem', cursor: 'pointer', display: 'flex', alignItems: 'center', gap: '0.5rem' }}><IdentificationIcon width={18} height={18}/> Customer history</button>
+                  {formData.relatedBooking && (
+                    <span style={{ display: 'inline-flex', alignItems: 'center', gap: '0.375rem', padding: '0.375rem 0.75rem', fontSize: '0.875rem', borderRadius: '9999px', backgroundColor: 'rgba(22, 163, 74, 0.15)', color: '#16a34a' }}>
+                      <PaperClipIcon width={14} height={14}/> Booking {formData.relatedBooking.bookingId}
+                      <button type="button" onClick={() => setFormData(prev => ({ ...prev, relatedBooking: undefined }))} aria-label="Detach booking" style={{ color: '#16a34a', background: 'none', border: 'none', cursor: 'pointer', fontSize: '1rem', lineHeight: 1 }}>×</button>
+                    </span>
+                  )}
+                  {formData.relatedPayment && (
+                    <span style={{ display: 'inline-flex', alignItems: 'center', gap: '0.375rem', padding: '0.375rem 0.75rem', fontSize: '0.875rem', borderRadius: '9999px', backgroundColor: 'rgba(22, 163, 74, 0.15)', color: '#16a34a' }}>
+                      <PaperClipIcon width={14} height={14}/> Payment {formData.relatedPayment.paymentId}
+                      <button type="button" onClick={() => setFormData(prev => ({ ...prev, relatedPayment: undefined }))} aria-label="Detach payment" style={{ color: '#16a34a', background: 'none', border: 'none', cursor: 'pointer', fontSize: '1rem', lineHeight: 1 }}>×</button>
+                    </span>
+                  )}
+                </div>
+              )}
             </div>
 
             {/* Ticket Details */}
@@ -327,6 +310,18 @@ export default function CreateTicket() {
           </form>
         </div>
       </main>
+
+      {profileCustomerId && (
+        <CustomerProfilePanel
+          customerId={profileCustomerId}
+          attachedBookingId={formData.relatedBooking?.bookingId}
+          attachedPaymentId={formData.relatedPayment?.paymentId}
+          onAttachBooking={(relatedBooking) => setFormData(prev => ({ ...prev, relatedBooking: relatedBooking || undefined }))}
+          onAttachPayment={(relatedPayment) => setFormData(prev => ({ ...prev, relatedPayment: relatedPayment || undefined }))}
+          onClose={() => setProfileCustomerId(null)}
+          currentThemeStyles={currentThemeStyles}
+        />
+      )}
     </div>
   );
 }
@@ -1,25 +1,29 @@
 // app/cs/tickets/page.tsx - REFACTORED VERSION
 'use client';
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { useTheme } from '@/app/context/ThemeContext';
 import ThemeSwitcher from '@/app/components/ThemeSwitcher';
 import AnimatedBackground from '@/app/cs/components/AnimatedBackground'; // IMPORT THE NEW COMPONENT
-import { TicketIcon, Squares2X2Icon, ArrowPathIcon, PlusIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import SlaBadge from '@/app/cs/components/SlaBadge';
+import DuplicateClusters from '@/app/cs/components/DuplicateClusters';
+import TicketBulkActions from '@/app/cs/components/TicketBulkActions';
+import TicketViewsBar from '@/app/cs/components/TicketViewsBar';
+import { TicketIcon, Squares2X2Icon, ArrowPathIcon, PlusIcon, ExclamationTriangleIcon, DocumentDuplicateIcon } from '@heroicons/react/24/outline';
+import apiClient from '@/app/services/apiClient';
+import slaService from '@/app/services/slaService';
+import ticketDuplicateService from '@/app/services/ticketDuplicateService';
+import ticketViewService, { EMPTY_TICKET_FILTERS, type SavedTicketView, type TicketViewFilters } from '@/app/services/ticketViewService';
+import type { RoutingAgent } from '@/app/services/chatRouting';
+import { TICKET_CATEGORIES, TICKET_CATEGORY_LABELS, type Ticket, type TicketBulkUpdate } from '@/app/domain';
+import { useNow, useSlaAutoEscalation, useSlaPolicies } from '@/app/hooks/useSla';
+import { useDuplicateClusters } from '@/app/hooks/useTicketDuplicates';
+import { useTicketViews } from '@/app/hooks/useTicketViews';
+import { useResource } from '@/app/hooks/useResource';
 
-// --- Interfaces (Unchanged) ---
-interface ITicket {
-  _id: string;
-  ticketId: string;
-  subject: string;
-  customerInfo: { name: string; email: string; };
-  assignedAgent?: { name: string; };
-  priority: 'low' | 'medium' | 'high' | 'urgent';
-  status: 'open' | 'in_progress' | 'pending_customer' | 'resolved' | 'closed';
-  createdAt: string;
-  updatedAt: string;
-}
+// --- Interfaces ---
+type ITicket = Ticket;
 
 interface IPagination {
   current: number;
@@ -29,6 +33,11 @@ interface IPagination {
   hasPrev: boolean;
 }
 
+const PAGE_SIZE = 15;
+// Exports are fetched a page at a time up to the cap; anything past it is reported rather than dropped silently
+const EXPORT_PAGE_SIZE = 500;
+const EXPORT_MAX_TICKETS = 10000;
+
 export default function CSTickets() {
   const router = useRouter();
   const { theme } = useTheme();
@@ -38,43 +47,33 @@ export default function CSTickets() {
   const [pagination, setPagination] = useState<IPagination | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [filters, setFilters] = useState({ 
-    status: '', 
-    priority: '', 
-    search: '', 
-    page: '1' 
-  });
+  const [filters, setFilters] = useState<TicketViewFilters>(EMPTY_TICKET_FILTERS);
+  const [page, setPage] = useState(1);
+  // Filters from a shared link are read before the first fetch so the list doesn't load twice
+  const [filtersReady, setFiltersReady] = useState(false);
+  const [agentId, setAgentId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const slaPolicies = useSlaPolicies();
+  const now = useNow();
+  const duplicates = useDuplicateClusters();
+  const { views, saveView, deleteView } = useTicketViews(agentId);
+  const agents = useResource<RoutingAgent[]>(
+    agentId ? '/cs/agents' : null,
+    () => apiClient.cs.agents.list().then(response => response.data.agents || [])
+  );
+  const activeView = useMemo(() => views.find(view => ticketViewService.isSameFilters(view.filters, filters)) || null, [views, filters]);
 
-  // --- Data Fetching (Unchanged) ---
-  const fetchTickets = useCallback(async (token: string, isRefresh: boolean = false) => {
+  // --- Data Fetching ---
+  const fetchTickets = useCallback(async (isRefresh: boolean = false) => {
     if (!isRefresh) setLoading(true);
     else setIsRefreshing(true);
     
     setError(null);
     try {
-      const params = new URLSearchParams();
-      if (filters.status) params.append('status', filters.status);
-      if (filters.priority) params.append('priority', filters.priority);
-      if (filters.search) params.append('search', filters.search);
-      if (filters.page) params.append('page', filters.page);
-      params.append('limit', '15');
-
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/cs/tickets?${params.toString()}`, {
-        headers: { Authorization: `Bearer ${token}` }
-      });
-      
-      if (!response.ok) {
-        throw new Error(`API Error: ${response.status} - ${response.statusText}`);
-      }
-      
-      const result = await response.json();
-      if (result.success) {
-        setTickets(result.data.tickets || []);
-        setPagination(result.data.pagination || null);
-      } else {
-        throw new Error(result.message || 'Failed to load tickets');
-      }
+      const response = await apiClient.cs.tickets.list({ ...ticketViewService.toQuery(filters, agentId), page, limit: PAGE_SIZE });
+      setTickets(response.data.tickets);
+      setPagination((response.data.pagination as IPagination | undefined) || null);
     } catch (err) {
       console.error('Failed to fetch tickets:', err);
       setError(err instanceof Error ? err.message : 'An unknown error occurred. Please check the API server.');
@@ -82,37 +81,123 @@ export default function CSTickets() {
       setLoading(false);
       setIsRefreshing(false);
     }
-  }, [filters]);
+  }, [filters, page, agentId]);
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    if (ticketViewService.hasFilters(params)) setFilters(ticketViewService.fromSearchParams(params));
+    try {
+      const user = JSON.parse(localStorage.getItem('cs_user') || 'null');
+      setAgentId(user?._id || user?.id || null);
+    } catch {
+      setAgentId(null);
+    }
+    setFiltersReady(true);
+  }, []);
 
   useEffect(() => {
+    if (!filtersReady) return;
     const token = localStorage.getItem('cs_token');
     if (!token) {
       router.push('/cs/login');
       return;
     }
-    fetchTickets(token);
-  }, [fetchTickets, router]);
+    fetchTickets();
+  }, [filtersReady, fetchTickets, router]);
+
+  // The address bar always holds the current filters, so it can be bookmarked or pasted to a teammate
+  useEffect(() => {
+    if (!filtersReady) return;
+    const query = ticketViewService.toSearchParams(filters);
+    window.history.replaceState(null, '', query ? `?${query}` : window.location.pathname);
+  }, [filters, filtersReady]);
+
+  // --- Event Handlers ---
+  const applyFilters = (next: TicketViewFilters) => {
+    setFilters(next);
+    setPage(1);
+    setSelectedIds(new Set());
+  };
 
-  // --- Event Handlers (Unchanged) ---
   const handleFilterChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
-    setFilters(prev => ({ ...prev, [e.target.name]: e.target.value, page: '1' }));
+    const { name, value } = e.target;
+    applyFilters({ ...filters, [name]: name === 'olderThanHours' ? (Number(value) || null) : value });
   };
   
   const handlePageChange = (newPage: number) => {
-    setFilters(prev => ({ ...prev, page: newPage.toString() }));
+    setPage(newPage);
+    setSelectedIds(new Set());
   };
 
-  const clearFilters = () => {
-    setFilters({ status: '', priority: '', search: '', page: '1' });
+  const clearFilters = () => applyFilters(EMPTY_TICKET_FILTERS);
+
+  const refreshTickets = () => fetchTickets(true);
+  
+  useSlaAutoEscalation(tickets, slaPolicies, now, refreshTickets);
+
+  const mergeTickets = async (parent: ITicket, duplicateTickets: ITicket[], notifyCustomers: boolean) => {
+    await apiClient.cs.tickets.merge(parent._id, ticketDuplicateService.buildMerge(parent, duplicateTickets, notifyCustomers));
+    refreshTickets();
   };
 
-  const refreshTickets = () => {
-    const token = localStorage.getItem('cs_token');
-    if (token) fetchTickets(token, true);
+  const toggleSelected = (ticketId: string) => setSelectedIds(prev => {
+    const next = new Set(prev);
+    if (next.has(ticketId)) next.delete(ticketId); else next.add(ticketId);
+    return next;
+  });
+  const allSelected = tickets.length > 0 && tickets.every(ticket => selectedIds.has(ticket._id));
+  const toggleAll = () => setSelectedIds(allSelected ? new Set() : new Set(tickets.map(ticket => ticket._id)));
+
+  const applyBulk = async (changes: TicketBulkUpdate['changes']) => {
+    const update: TicketBulkUpdate = { ticketIds: Array.from(selectedIds), changes };
+    const response = await apiClient.cs.tickets.bulkUpdate(update);
+    setSelectedIds(new Set());
+    refreshTickets();
+    return response.data;
   };
-  
+
+  const saveCurrentView = async (name: string, shared: boolean) => {
+    await saveView(name, filters, shared);
+  };
+
+  const deleteSavedView = async (view: SavedTicketView) => {
+    await deleteView(view.id);
+  };
+
+  const copyViewLink = async () => {
+    const query = ticketViewService.toSearchParams(filters);
+    await navigator.clipboard.writeText(`${window.location.origin}/cs/tickets${query ? `?${query}` : ''}`);
+  };
+
+  const exportCsv = async () => {
+    const query = ticketViewService.toQuery(filters, agentId);
+    const exported: ITicket[] = [];
+    let total: number | undefined;
+    for (let exportPage = 1; exported.length < EXPORT_MAX_TICKETS; exportPage++) {
+      const response = await apiClient.cs.tickets.list({ ...query, page: exportPage, limit: EXPORT_PAGE_SIZE });
+      const batch = response.data.tickets;
+      const pageInfo = response.data.pagination as IPagination | undefined;
+      total = pageInfo?.total ?? total;
+      exported.push(...batch.slice(0, EXPORT_MAX_TICKETS - exported.length));
+      // The server may cap `limit` below what was asked for, so only an unpaged response is judged by its size
+      if (batch.length === 0 || (pageInfo ? !pageInfo.hasNext : batch.length < EXPORT_PAGE_SIZE)) break;
+    }
+    const blob = new Blob([ticketViewService.toCsv(exported)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = ticketViewService.csvFileName(activeView?.name || 'tickets');
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+    if (total !== undefined && total > exported.length) return `Exported the first ${exported.length} of ${total} tickets; narrow the filters to export the rest`;
+    if (total === undefined && exported.length >= EXPORT_MAX_TICKETS) return `Exported the first ${exported.length} tickets; there may be more, so narrow the filters to export the rest`;
+    return `Exported ${exported.length} tickets`;
+  };
+
   const handleLogout = () => {
-    localStorage.removeItem('cs_token');
+    apiClient.clearSession('cs');
     router.push('/cs/login');
   };
 
@@ -215,6 +300,9 @@ export default function CSTickets() {
               <h3 style={{ fontSize: '1.25rem', fontWeight: '600', color: currentThemeStyles.textPrimary, margin: 0 }}>🔍 Filters</h3>
               <button onClick={clearFilters} style={{ fontSize: '0.875rem', color: '#3b82f6', background: 'none', border: 'none', cursor: 'pointer', textDecoration: 'underline' }}>Clear All</button>
             </div>
+            <div style={{ marginBottom: '1rem' }}>
+              <TicketViewsBar views={views} activeViewId={activeView?.id || null} onSelect={(view) => applyFilters(view.filters)} onSave={saveCurrentView} onDelete={deleteSavedView} onCopyLink={copyViewLink} onExport={exportCsv} currentThemeStyles={currentThemeStyles} />
+            </div>
             <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(220px, 1fr))', gap: '1rem' }}>
               <input type="text" name="search" placeholder="Search by ID, subject, customer..." value={filters.search} onChange={handleFilterChange} style={{ padding: '0.75rem', backgroundColor: currentThemeStyles.inputBg, border: currentThemeStyles.inputBorder, borderRadius: '0.5rem', fontSize: '1rem', color: currentThemeStyles.textPrimary }} />
               <select name="status" value={filters.status} onChange={handleFilterChange} style={{ padding: '0.75rem', backgroundColor: currentThemeStyles.inputBg, border: currentThemeStyles.inputBorder, borderRadius: '0.5rem', fontSize: '1rem', color: currentThemeStyles.textPrimary }}>
@@ -223,10 +311,29 @@ export default function CSTickets() {
               <select name="priority" value={filters.priority} onChange={handleFilterChange} style={{ padding: '0.75rem', backgroundColor: currentThemeStyles.inputBg, border: currentThemeStyles.inputBorder, borderRadius: '0.5rem', fontSize: '1rem', color: currentThemeStyles.textPrimary }}>
                 <option value="">All Priorities</option><option value="urgent">🚨 Urgent</option><option value="high">🔴 High</option><option value="medium">🟡 Medium</option><option value="low">🟢 Low</option>
               </select>
+              <select name="category" value={filters.category} onChange={handleFilterChange} style={{ padding: '0.75rem', backgroundColor: currentThemeStyles.inputBg, border: currentThemeStyles.inputBorder, borderRadius: '0.5rem', fontSize: '1rem', color: currentThemeStyles.textPrimary }}>
+                <option value="">All Categories</option>
+                {TICKET_CATEGORIES.map(category => <option key={category} value={category}>{TICKET_CATEGORY_LABELS[category]}</option>)}
+              </select>
+              <select name="assignee" value={filters.assignee} onChange={handleFilterChange} style={{ padding: '0.75rem', backgroundColor: currentThemeStyles.inputBg, border: currentThemeStyles.inputBorder, borderRadius: '0.5rem', fontSize: '1rem', color: currentThemeStyles.textPrimary }}>
+                <option value="">Anyone</option><option value="me">👤 Assigned to me</option><option value="unassigned">Unassigned</option>
+              </select>
+              <select name="olderThanHours" value={filters.olderThanHours ?? ''} onChange={handleFilterChange} style={{ padding: '0.75rem', backgroundColor: currentThemeStyles.inputBg, border: currentThemeStyles.inputBorder, borderRadius: '0.5rem', fontSize: '1rem', color: currentThemeStyles.textPrimary }}>
+                <option value="">Any age</option><option value="1">Older than 1h</option><option value="4">Older than 4h</option><option value="24">Older than 24h</option><option value="72">Older than 3 days</option>
+              </select>
               {pagination && <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', fontSize: '1rem', color: currentThemeStyles.textSecondary }}>📊 {tickets.length} of {pagination.total} tickets</div>}
             </div>
           </div>
 
+          {/* Possible duplicates */}
+          {duplicates.clusters.length > 0 && (
+            <div style={{ backgroundColor: currentThemeStyles.glassPanelBg, padding: '1.5rem', borderRadius: '1rem', boxShadow: currentThemeStyles.glassPanelShadow, backdropFilter: 'blur(12px)', border: currentThemeStyles.glassPanelBorder, marginBottom: '2rem' }}>
+              <h3 style={{ fontSize: '1.25rem', fontWeight: '600', color: currentThemeStyles.textPrimary, margin: '0 0 0.25rem 0', display: 'flex', alignItems: 'center', gap: '0.5rem' }}><DocumentDuplicateIcon width={22} height={22} /> Possible Duplicates</h3>
+              <p style={{ fontSize: '0.875rem', color: currentThemeStyles.textSecondary, margin: '0 0 1rem 0' }}>Open tickets that share a booking, a trip, or a route and subject.</p>
+              <DuplicateClusters clusters={duplicates.clusters} onMerge={mergeTickets} currentThemeStyles={currentThemeStyles} />
+            </div>
+          )}
+
           {/* Tickets List */}
           <div style={{ backgroundColor: currentThemeStyles.glassPanelBg, borderRadius: '1rem', boxShadow: currentThemeStyles.glassPanelShadow, backdropFilter: 'blur(12px)', border: currentThemeStyles.glassPanelBorder, overflow: 'hidden' }}>
             {tickets.length === 0 ? (
@@ -237,24 +344,33 @@ export default function CSTickets() {
               </div>
             ) : (
               <>
+                <TicketBulkActions selectedCount={selectedIds.size} agents={agents.data || []} onApply={applyBulk} onClear={() => setSelectedIds(new Set())} currentThemeStyles={currentThemeStyles} />
                 <div style={{ overflowX: 'auto' }}>
                   <table style={{ width: '100%', fontSize: '1rem', borderCollapse: 'collapse' }}>
                     <thead>
                       <tr style={{ fontSize: '0.75rem', textTransform: 'uppercase', backgroundColor: currentThemeStyles.tableHeaderBg, color: currentThemeStyles.textSecondary }}>
-                        {['Ticket ID', 'Subject', 'Customer', 'Status', 'Priority', 'Assigned To', 'Last Updated', 'Actions'].map(h => <th key={h} style={{ padding: '1rem 1.5rem', textAlign: 'left', fontWeight: '600' }}>{h}</th>)}
+                        <th style={{ padding: '1rem 0 1rem 1.5rem', textAlign: 'left' }}><input type="checkbox" checked={allSelected} onChange={toggleAll} title="Select all on this page" /></th>
+                        {['Ticket ID', 'Subject', 'Customer', 'Status', 'Priority', 'SLA', 'Assigned To', 'Last Updated', 'Actions'].map(h => <th key={h} style={{ padding: '1rem 1.5rem', textAlign: 'left', fontWeight: '600' }}>{h}</th>)}
                       </tr>
                     </thead>
                     <tbody>
                       {tickets.map(ticket => (
                         <tr key={ticket._id} style={{ borderBottom: `1px solid ${currentThemeStyles.inputBorder}`, transition: 'background-color 0.2s' }} onMouseOver={e => e.currentTarget.style.backgroundColor = currentThemeStyles.tableRowHover} onMouseOut={e => e.currentTarget.style.backgroundColor = 'transparent'}>
+                          <td style={{ padding: '1rem 0 1rem 1.5rem' }}><input type="checkbox" checked={selectedIds.has(ticket._id)} onChange={() => toggleSelected(ticket._id)} /></td>
                           <td style={{ padding: '1rem 1.5rem', fontWeight: '600' }}><Link href={`/cs/tickets/${ticket._id}`} style={{ color: '#3b82f6', textDecoration: 'none' }}>#{ticket.ticketId}</Link></td>
-                          <td style={{ padding: '1rem 1.5rem', fontWeight: '600', color: currentThemeStyles.textPrimary, maxWidth: '250px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{ticket.subject}</td>
+                          <td style={{ padding: '1rem 1.5rem', fontWeight: '600', color: currentThemeStyles.textPrimary, maxWidth: '250px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                            {ticket.subject}
+                            {ticket.mergedInto && <div style={{ fontSize: '0.75rem', fontWeight: 400, color: currentThemeStyles.textMuted }}>Merged into #{ticket.mergedInto.ticketId}</div>}
+                            {ticket.parentTicket && <div style={{ fontSize: '0.75rem', fontWeight: 400, color: currentThemeStyles.textMuted }}>Split from #{ticket.parentTicket.ticketId}</div>}
+                            {(ticket.mergedTickets.length > 0 || ticket.childTickets.length > 0) && <div style={{ fontSize: '0.75rem', fontWeight: 400, color: currentThemeStyles.textMuted }}>{[ticket.mergedTickets.length > 0 && `${ticket.mergedTickets.length} merged`, ticket.childTickets.length > 0 && `${ticket.childTickets.length} split off`].filter(Boolean).join(' · ')}</div>}
+                          </td>
                           <td style={{ padding: '1rem 1.5rem' }}>
                             <div style={{ fontWeight: '600', color: currentThemeStyles.textPrimary }}>{ticket.customerInfo.name}</div>
                             <div style={{ fontSize: '0.875rem', color: currentThemeStyles.textMuted }}>{ticket.customerInfo.email}</div>
                           </td>
                           <td style={{ padding: '1rem 1.5rem' }}><span style={{ padding: '0.25rem 0.75rem', fontSize: '0.875rem', fontWeight: '600', borderRadius: '9999px', backgroundColor: getStatusColor(ticket.status) + '20', color: getStatusColor(ticket.status) }}>{getStatusDisplay(ticket.status)}</span></td>
                           <td style={{ padding: '1rem 1.5rem' }}><span style={{ padding: '0.25rem 0.75rem', fontSize: '0.875rem', fontWeight: '600', borderRadius: '9999px', backgroundColor: getPriorityColor(ticket.priority) + '20', color: getPriorityColor(ticket.priority) }}>{getPriorityDisplay(ticket.priority)}</span></td>
+                          <td style={{ padding: '1rem 1.5rem' }}><SlaBadge evaluation={slaService.evaluate(ticket, slaPolicies, now)} /></td>
                           <td style={{ padding: '1rem 1.5rem', color: currentThemeStyles.textSecondary }}>{ticket.assignedAgent?.name ? `👤 ${ticket.assignedAgent.name}` : <span style={{ fontStyle: 'italic' }}>Unassigned</span>}</td>
                           <td style={{ padding: '1rem 1.5rem', fontSize: '0.875rem', color: currentThemeStyles.textMuted }}>{new Date(ticket.updatedAt).toLocaleString()}</td>
                           <td style={{ padding: '1rem 1.5rem' }}><Link href={`/cs/tickets/${ticket._id}`} style={{ padding: '0.5rem 1rem', fontSize: '0.875rem', fontWeight: '600', color: '#3b82f6', backgroundColor: 'rgba(59, 130, 246, 0.1)', borderRadius: '0.5rem', textDecoration: 'none' }}>View</Link></td>
@@ -7,15 +7,19 @@ import { useRouter } from 'next/navigation';
 import { useTheme } from '@/app/context/ThemeContext';
 import ThemeSwitcher from '@/app/components/ThemeSwitcher';
 import AnimatedBackground from '@/app/components/AnimatedBackground';
+import apiClient, { type UserProfile } from '@/app/services/apiClient';
+import { cacheKey } from '@/app/services/requestCache';
+import { useResource } from '@/app/hooks/useResource';
 import { 
   ExclamationTriangleIcon, ShieldCheckIcon, CheckCircleIcon,
   TicketIcon, CurrencyDollarIcon, CalendarDaysIcon, ClockIcon, 
   MagnifyingGlassIcon, MapPinIcon, CreditCardIcon, XCircleIcon, 
-  ArrowRightIcon, BellIcon, CloudIcon, ArrowPathIcon
+  ArrowRightIcon, BellIcon, CloudIcon, ArrowPathIcon, LifebuoyIcon
 } from '@heroicons/react/24/outline';
 import RealTimeEmergencyClient from '../components/RealTimeEmergencyClient';
 import UserEmergencyAlerts from '../components/UserEmergencyAlerts';
 import CustomerChatWidget from '../components/CustomerChatWidget';
+import SupportRequestLookup from '../components/SupportRequestLookup';
 
 // --- Custom Vector Icons for Tabs ---
 const OverviewIcon = ({ color = 'currentColor' }) => (
@@ -36,11 +40,10 @@ const ProfileIcon = ({ color = 'currentColor' }) => (
 );
 
 // --- Data Interfaces ---
-interface Trip { _id: string; route: string; fromLocation: string; toLocation: string; date: string; time?: string; seat?: string; price: number; status: 'upcoming' | 'completed' | 'cancelled'; }
-interface Booking { _id?: string; id?: string; bookingId?: string; routeId?: string; travelDate?: string; date?: string; departureTime?: string; passengerInfo?: { name: string; }; passenger?: { name: string; }; pricing?: { totalAmount: number; }; amount?: { total: number; }; price?: number; status?: 'confirmed' | 'pending' | 'cancelled' | 'completed' | 'no_show' | string; qrCode?: string; }
-interface Payment { _id?: string; id?: string; paymentId?: string; amount?: { total: number; currency: string; }; total?: number; currency?: string; status?: string; createdAt?: string; date?: string; }
-interface DashboardStats { totalTrips: number; totalSpent: number; upcomingTrips: number; onTimeRate: number; totalBookings?: number; confirmedBookings?: number; totalPayments?: number; averagePayment?: number; recentActivity?: number; favoriteRoutes?: string[]; }
-interface User { _id: string; name: string; email: string; phone?: string; role: string; }
+type User = UserProfile;
+
+const DASHBOARD_REFRESH_MS = 30000;
+
 interface WeatherData { current: { temp: number; condition: string; icon: string; }; forecast: { day: string; temp: number; }[]; }
 
 // --- Mock Weather Service (as per your architecture) ---
@@ -70,14 +73,7 @@ function DashboardContent() {
   // --- State Management ---
   const [user, setUser] = useState<User | null>(null);
   const [activeTab, setActiveTab] = useState('overview');
-  const [loading, setLoading] = useState(true);
-  const [refreshing, setRefreshing] = useState(false);
-  const [lastRefresh, setLastRefresh] = useState<Date>(new Date());
-  const [stats, setStats] = useState<DashboardStats | null>(null);
-  const [recentTrips, setRecentTrips] = useState<Trip[]>([]);
-  const [upcomingTrips, setUpcomingTrips] = useState<Trip[]>([]);
-  const [recentBookings, setRecentBookings] = useState<Booking[]>([]);
-  const [recentPayments, setRecentPayments] = useState<Payment[]>([]);
+  const [authorized, setAuthorized] = useState(false);
   const [profileLoading, setProfileLoading] = useState(false);
   const [profileError, setProfileError] = useState('');
   const [profileSuccess, setProfileSuccess] = useState('');
@@ -97,103 +93,51 @@ function DashboardContent() {
   // --- API and Data Logic ---
   const getToken = () => typeof window !== 'undefined' ? localStorage.getItem('token') : null;
 
-  const apiCall = useCallback(async (endpoint: string, options: RequestInit = {}) => {
-    const token = getToken();
-    if (!token) {
-      console.log('No token found, redirecting to login');
-      router.push('/login');
+  // Each dashboard panel loads independently; a failure is reported without blanking the others
+  const loadPanel = useCallback(<T,>(request: Promise<T>, label: string): Promise<T | null> =>
+    request.catch(error => {
+      console.error(`API call error for ${label}:`, error);
+      setApiErrors(prev => [...prev, `Failed to load data for ${label}`]);
       return null;
+    }), []);
+
+  // Panels read through the shared request cache: revisiting the dashboard shows the last data at once,
+  // and cancelling a booking elsewhere refreshes the panels that depend on it
+  const resourceOptions = { refreshInterval: DASHBOARD_REFRESH_MS };
+  const statsResource = useResource(authorized ? cacheKey('/dashboard/stats') : null, () => apiClient.dashboard.stats(), resourceOptions);
+  const recentTripsResource = useResource(authorized ? cacheKey('/dashboard/recent-trips') : null, () => apiClient.dashboard.recentTrips(), resourceOptions);
+  const upcomingTripsResource = useResource(authorized ? cacheKey('/dashboard/upcoming-trips') : null, () => apiClient.dashboard.upcomingTrips(), resourceOptions);
+  const bookingsResource = useResource(authorized ? cacheKey('/bookings', { limit: 5 }) : null, () => apiClient.bookings.list({ limit: 5 }), resourceOptions);
+  const paymentsResource = useResource(authorized ? cacheKey('/payments/history', { limit: 5 }) : null, () => apiClient.payments.history({ limit: 5 }), resourceOptions);
+  const panels = [
+    { label: 'stats', resource: statsResource },
+    { label: 'recent-trips', resource: recentTripsResource },
+    { label: 'upcoming-trips', resource: upcomingTripsResource },
+    { label: 'bookings', resource: bookingsResource },
+    { label: 'history', resource: paymentsResource },
+  ];
+
+  const stats = statsResource.data ?? null;
+  const recentTrips = Array.isArray(recentTripsResource.data) ? recentTripsResource.data : [];
+  const upcomingTrips = Array.isArray(upcomingTripsResource.data) ? upcomingTripsResource.data : [];
+  const recentBookings = bookingsResource.data?.bookings || [];
+  const recentPayments = paymentsResource.data?.payments || [];
+  const loading = !authorized || panels.some(({ resource }) => resource.isLoading);
+  const refreshing = !loading && panels.some(({ resource }) => resource.isValidating);
+  const lastRefresh = panels.reduce<Date | null>((latest, { resource }) => resource.updatedAt && (!latest || resource.updatedAt > latest) ? resource.updatedAt : latest, null) || new Date();
+  const panelErrors = panels.filter(({ resource }) => resource.error).map(({ label }) => `Failed to load data for ${label}`);
+
+  const refreshDashboard = () => Promise.all(panels.map(({ resource }) => resource.refresh()));
+
+  const loadUser = useCallback(async () => {
+    const storedUser = localStorage.getItem('user');
+    if (storedUser) { setUser(JSON.parse(storedUser)); return; }
+    const userProfileResponse = await loadPanel(apiClient.auth.profile(), 'profile');
+    if (userProfileResponse && userProfileResponse.user) { 
+      setUser(userProfileResponse.user); 
+      localStorage.setItem('user', JSON.stringify(userProfileResponse.user)); 
     }
-
-    let baseURL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000';
-    if (baseURL.endsWith('/api')) baseURL = baseURL.slice(0, -4);
-    
-    const fullURL = `${baseURL}/api${endpoint}`;
-
-    try {
-      const response = await fetch(fullURL, {
-        ...options,
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-          ...options.headers
-        }
-      });
-      
-      if (!response.ok) {
-        if (response.status === 401) {
-          console.log('Unauthorized, clearing token and redirecting');
-          localStorage.removeItem('token');
-          localStorage.removeItem('user');
-          router.push('/login');
-          return null;
-        }
-        throw new Error(`API Error: ${response.status} - ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      return data;
-    } catch (error) {
-      console.error(`API call error for ${endpoint}:`, error);
-      setApiErrors(prev => [...prev, `Failed to load data for ${endpoint.split('/').pop()}`]);
-      return null;
-    }
-  }, [router]);
-
-  const loadDashboardData = useCallback(async (isRefresh = false) => {
-    if (isRefresh) setRefreshing(true); else setLoading(true);
-    setApiErrors([]);
-  
-    try {
-      const storedUser = localStorage.getItem('user');
-      if (storedUser) setUser(JSON.parse(storedUser));
-      else {
-        const userProfileResponse = await apiCall('/auth/profile');
-        if (userProfileResponse && userProfileResponse.user) { 
-          setUser(userProfileResponse.user); 
-          localStorage.setItem('user', JSON.stringify(userProfileResponse.user)); 
-        }
-      }
-  
-      const [statsData, recentTripsData, upcomingTripsData, bookingsResponse, paymentsResponse] = await Promise.all([
-        apiCall('/dashboard/stats'),
-        apiCall('/dashboard/recent-trips'),
-        apiCall('/dashboard/upcoming-trips'),
-        apiCall('/bookings?limit=5'),
-        apiCall('/payments/history?limit=5')
-      ]);
-
-      if (statsData) setStats(statsData);
-      if (recentTripsData && Array.isArray(recentTripsData)) setRecentTrips(recentTripsData);
-      if (upcomingTripsData && Array.isArray(upcomingTripsData)) setUpcomingTrips(upcomingTripsData);
-
-      const extractArray = <T,>(response: unknown, key: string): T[] => {
-        if (!response) return [];
-        if (Array.isArray(response)) return response as T[];
-        if (typeof response === 'object' && response !== null) {
-          const res = response as Record<string, unknown>;
-          if (res[key] && Array.isArray(res[key])) {
-            return res[key] as T[];
-          }
-          if (res.data && Array.isArray(res.data)) {
-            return res.data as T[];
-          }
-        }
-        return [];
-      };
-
-      setRecentBookings(extractArray<Booking>(bookingsResponse, 'bookings'));
-      setRecentPayments(extractArray<Payment>(paymentsResponse, 'payments'));
-  
-      setLastRefresh(new Date());
-    } catch (error) {
-      console.error('💥 Error loading dashboard data:', error);
-      setApiErrors(prev => [...prev, 'A critical error occurred while loading dashboard data.']);
-    } finally {
-      setLoading(false);
-      setRefreshing(false);
-    }
-  }, [apiCall]);
+  }, [loadPanel]);
   
   // --- Weather API Functions ---
   const loadWeatherData = useCallback(async (location = userLocation) => {
@@ -217,18 +161,13 @@ function DashboardContent() {
   useEffect(() => {
     const token = getToken();
     if (!token) { router.push('/login'); return; }
-    loadDashboardData();
+    setAuthorized(true);
+    loadUser();
     loadWeatherData(); // Load weather data on initial mount
-  }, [loadDashboardData, loadWeatherData, router]);
-
-  useEffect(() => {
-    const interval = setInterval(() => loadDashboardData(true), 30000);
-    return () => clearInterval(interval);
-  }, [loadDashboardData]);
+  }, [loadUser, loadWeatherData, router]);
 
   const handleLogout = () => {
-    localStorage.removeItem('token');
-    localStorage.removeItem('user');
+    apiClient.clearSession();
     router.push('/');
   };
 
@@ -238,10 +177,7 @@ function DashboardContent() {
     setProfileLoading(true);
     setProfileError('');
     setProfileSuccess('');
-    const result = await apiCall('/dashboard/profile', {
-      method: 'PUT',
-      body: JSON.stringify({ name: user.name, email: user.email, phone: user.phone })
-    });
+    const result = await loadPanel(apiClient.dashboard.updateProfile({ name: user.name, email: user.email, phone: user.phone }), 'profile');
     if (result) {
       setProfileSuccess('Profile updated successfully!');
       setUser(result);
@@ -430,15 +366,15 @@ function DashboardContent() {
         </p>
       </div>
 
-      {apiErrors.length > 0 && (
+      {panelErrors.length + apiErrors.length > 0 && (
         <div style={{ backgroundColor: 'rgba(254, 226, 226, 0.8)', padding: '1rem', borderRadius: '0.5rem', marginBottom: '1rem', border: '1px solid #fecaca', backdropFilter: 'blur(5px)' }}>
           <h4 style={{ color: '#b91c1c', margin: '0 0 0.5rem 0', fontSize: '0.9rem', display: 'flex', alignItems: 'center', gap: '0.5rem' }}><ExclamationTriangleIcon width={20} />Connection Issues:</h4>
-          {apiErrors.map((error, index) => ( <div key={index} style={{ color: '#b91c1c', fontSize: '0.8rem' }}>• {error}</div> ))}
+          {[...panelErrors, ...apiErrors].map((error, index) => ( <div key={index} style={{ color: '#b91c1c', fontSize: '0.8rem' }}>• {error}</div> ))}
         </div>
       )}
       <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem', padding: '0 0.5rem' }}>
        <div style={{ fontSize: '0.9rem', color: currentThemeStyles.textPrimary, textShadow: theme === 'dark' ? '0 1px 3px rgba(0,0,0,0.5)' : '0 1px 3px rgba(255,255,255,0.5)' }}>Last updated: {formatDateTime(lastRefresh.toString())}</div>
-        <button onClick={() => loadDashboardData(true)} disabled={refreshing} style={{ backgroundColor: refreshing ? '#9CA3AF' : '#F59E0B', color: 'white', padding: '0.5rem 1rem', border: 'none', borderRadius: '0.5rem', cursor: refreshing ? 'not-allowed' : 'pointer', fontSize: '0.8rem', display: 'flex', alignItems: 'center', gap: '0.5rem', transition: 'background-color 0.3s' }}>
+        <button onClick={refreshDashboard} disabled={refreshing} style={{ backgroundColor: refreshing ? '#9CA3AF' : '#F59E0B', color: 'white', padding: '0.5rem 1rem', border: 'none', borderRadius: '0.5rem', cursor: refreshing ? 'not-allowed' : 'pointer', fontSize: '0.8rem', display: 'flex', alignItems: 'center', gap: '0.5rem', transition: 'background-color 0.3s' }}>
           {refreshing ? 'Refreshing...' : 'Refresh'}
         </button>
       </div>
@@ -469,7 +405,8 @@ function DashboardContent() {
             { name: 'Track Vehicle', href: '/track', icon: MapPinIcon },
             { name: 'Payment History', href: '/payments', icon: CreditCardIcon },
             { name: 'Weather & Travel', href: '/weather', icon: CloudIcon },
-            { name: 'Notifications', href: '/notifications', icon: BellIcon }
+            { name: 'Notifications', href: '/notifications', icon: BellIcon },
+            { name: 'Support Requests', href: '/dashboard/support', icon: LifebuoyIcon }
           ].map((action, index) => (
             <Link key={action.name} href={action.href} style={{ textDecoration: 'none' }}>
               <div className="quick-action-panel" style={{ height: '100%', display: 'flex', alignItems: 'center', backgroundColor: currentThemeStyles.quickActionBg, padding: '1.5rem', borderRadius: '0.75rem', border: currentThemeStyles.quickActionBorder, transition: 'all 0.3s ease', cursor: 'pointer', animation: `fade-in-up 0.6s ease-out ${index * 0.1 + 0.4}s both` }}>
@@ -482,22 +419,37 @@ function DashboardContent() {
           ))}
         </div>
       </div>
+      <div style={{ backgroundColor: currentThemeStyles.glassPanelBg, padding: '1.5rem', borderRadius: '1rem', boxShadow: currentThemeStyles.glassPanelShadow, backdropFilter: 'blur(12px)', border: currentThemeStyles.glassPanelBorder, marginBottom: '2rem' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem', gap: '1rem', flexWrap: 'wrap' }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
+            <LifebuoyIcon width={24} height={24} color="#f59e0b" />
+            <h3 style={{ color: currentThemeStyles.textPrimary, fontSize: '1.2rem', fontWeight: '600', margin: 0 }}>Support Requests</h3>
+          </div>
+          <Link href="/dashboard/support" style={{ color: '#F59E0B', textDecoration: 'none', fontSize: '0.9rem', fontWeight: '600', display: 'flex', alignItems: 'center', gap: '0.25rem' }}>
+            All my requests <ArrowRightIcon width={16} />
+          </Link>
+        </div>
+        <p style={{ color: currentThemeStyles.textSecondary, fontSize: '0.9rem', margin: '0 0 1rem 0' }}>
+          Enter the reference number you received after contacting us to see where your request is.
+        </p>
+        <SupportRequestLookup currentThemeStyles={currentThemeStyles} />
+      </div>
       <div style={{ backgroundColor: currentThemeStyles.glassPanelBg, padding: '2rem', borderRadius: '1rem', boxShadow: currentThemeStyles.glassPanelShadow, backdropFilter: 'blur(12px)', border: currentThemeStyles.glassPanelBorder }}>
         <div className="main-content-grid" style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '2rem' }}>
           <div style={{ display: 'flex', flexDirection: 'column' }}>
             <h3 style={{ color: currentThemeStyles.textPrimary, marginBottom: '1rem', fontSize: '1.2rem', fontWeight: '600' }}>Recent Bookings</h3>
             <div style={{ flex: '1 1 0%' }}>
-              {Array.isArray(recentBookings) && recentBookings.length > 0 ? (
+              {recentBookings.length > 0 ? (
                 recentBookings.slice(0, 3).map((booking) => {
-                  const bookingId = booking?.bookingId || booking?._id || booking?.id;
-                  const amount = booking?.pricing?.totalAmount || booking?.amount?.total || booking?.price || 0;
-                  const status = booking?.status || 'unknown';
-                  const travelDate = booking?.travelDate || booking?.date || new Date().toISOString();
+                  const bookingId = booking.bookingId || booking._id;
+                  const amount = booking.pricing.totalAmount;
+                  const status = booking.status;
+                  const travelDate = booking.travelDate;
                   return (
-                    <div key={bookingId as string} style={{ backgroundColor: currentThemeStyles.alertBg, padding: '1rem', borderRadius: '0.5rem', marginBottom: '1rem', borderLeft: `4px solid #3b82f6` }}>
+                    <div key={bookingId} style={{ backgroundColor: currentThemeStyles.alertBg, padding: '1rem', borderRadius: '0.5rem', marginBottom: '1rem', borderLeft: `4px solid #3b82f6` }}>
                       <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
                         <div>
-                          <div style={{ fontWeight: '600', color: currentThemeStyles.textPrimary, fontSize: '0.9rem' }}>Booking #{typeof bookingId === 'string' ? bookingId.slice(-8) : bookingId}</div>
+                          <div style={{ fontWeight: '600', color: currentThemeStyles.textPrimary, fontSize: '0.9rem' }}>Booking #{bookingId.slice(-8)}</div>
                           <div style={{ color: currentThemeStyles.textSecondary, fontSize: '0.8rem' }}>{formatDate(travelDate)}</div>
                         </div>
                         <div style={{ textAlign: 'right' }}>
@@ -510,7 +462,7 @@ function DashboardContent() {
                 })
               ) : ( <div style={{ textAlign: 'center', padding: '1rem', color: currentThemeStyles.textSecondary, fontSize: '0.9rem' }}>No recent bookings found.</div> )}
             </div>
-            {Array.isArray(recentBookings) && recentBookings.length > 0 && (
+            {recentBookings.length > 0 && (
               <Link href="/bookings" style={{ color: '#F59E0B', textDecoration: 'none', fontSize: '0.9rem', fontWeight: '600', display: 'flex', alignItems: 'center', gap: '0.25rem' }}>
                 View all bookings <ArrowRightIcon width={16} />
               </Link>
@@ -519,17 +471,17 @@ function DashboardContent() {
           <div style={{ display: 'flex', flexDirection: 'column' }}>
             <h3 style={{ color: currentThemeStyles.textPrimary, marginBottom: '1rem', fontSize: '1.2rem', fontWeight: '600' }}>Recent Payments</h3>
             <div style={{ flex: '1 1 0%' }}>
-              {Array.isArray(recentPayments) && recentPayments.length > 0 ? (
+              {recentPayments.length > 0 ? (
                 recentPayments.slice(0, 3).map((payment) => {
-                  const paymentId = payment?.paymentId || payment?._id || payment?.id;
-                  const amount = payment?.amount?.total || payment?.total || 0;
-                  const status = payment?.status || 'unknown';
-                  const createdAt = payment?.createdAt || payment?.date || new Date().toISOString();
+                  const paymentId = payment.paymentId || payment._id;
+                  const amount = payment.amount.total;
+                  const status = payment.status;
+                  const createdAt = payment.createdAt;
                   return (
-                    <div key={paymentId as string} style={{ backgroundColor: currentThemeStyles.alertBg, padding: '1rem', borderRadius: '0.5rem', marginBottom: '1rem', borderLeft: `4px solid #10b981` }}>
+                    <div key={paymentId} style={{ backgroundColor: currentThemeStyles.alertBg, padding: '1rem', borderRadius: '0.5rem', marginBottom: '1rem', borderLeft: `4px solid #10b981` }}>
                       <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
                         <div>
-                          <div style={{ fontWeight: '600', color: currentThemeStyles.textPrimary, fontSize: '0.9rem' }}>Payment #{typeof paymentId === 'string' ? paymentId.slice(-8) : paymentId}</div>
+                          <div style={{ fontWeight: '600', color: currentThemeStyles.textPrimary, fontSize: '0.9rem' }}>Payment #{paymentId.slice(-8)}</div>
                           <div style={{ color: currentThemeStyles.textSecondary, fontSize: '0.8rem' }}>{formatDate(createdAt)}</div>
                         </div>
                         <div style={{ textAlign: 'right' }}>
@@ -542,7 +494,7 @@ function DashboardContent() {
                 })
               ) : ( <div style={{ textAlign: 'center', padding: '1rem', color: currentThemeStyles.textSecondary, fontSize: '0.9rem' }}>No recent payments found.</div> )}
             </div>
-            {Array.isArray(recentPayments) && recentPayments.length > 0 && (
+            {recentPayments.length > 0 && (
               <Link href="/payments" style={{ color: '#F59E0B', textDecoration: 'none', fontSize: '0.9rem', fontWeight: '600', display: 'flex', alignItems: 'center', gap: '0.25rem' }}>
                 View all payments <ArrowRightIcon width={16} />
               </Link>
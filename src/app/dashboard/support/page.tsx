@@ -0,0 +1,186 @@
+// src/app/dashboard/support/page.tsx
+"use client";
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import {
+  ArrowLeftIcon,
+  LifebuoyIcon,
+  ChatBubbleLeftRightIcon,
+  TicketIcon,
+  WifiIcon,
+  PlusIcon
+} from '@heroicons/react/24/outline';
+import { useEmergencyAlerts } from '@/app/components/RealTimeEmergencyClient';
+import { useTheme } from '@/app/context/ThemeContext';
+import ThemeSwitcher from '@/app/components/ThemeSwitcher';
+import AnimatedBackground from '@/app/components/AnimatedBackground';
+import SupportTicketThread from '@/app/components/SupportTicketThread';
+import ChatTranscriptView from '@/app/components/ChatTranscriptView';
+import { useMyChatTranscripts, useMySupportTickets, useSupportUpdates } from '@/app/hooks/useSupportTickets';
+import { CHAT_STATUS_DISPLAY, TICKET_STATUS_DISPLAY } from '@/app/services/supportRequestService';
+
+type SupportTab = 'tickets' | 'chats';
+
+export default function SupportRequestsPage() {
+  const router = useRouter();
+  const { theme } = useTheme();
+  const { connected } = useEmergencyAlerts();
+  const [signedIn, setSignedIn] = useState(false);
+  const [tab, setTab] = useState<SupportTab>('tickets');
+  const [selectedTicket, setSelectedTicket] = useState<string | null>(null);
+  const [selectedChat, setSelectedChat] = useState<string | null>(null);
+  const { tickets, error: ticketsError, isLoading: ticketsLoading } = useMySupportTickets(signedIn);
+  const { transcripts, error: chatsError, isLoading: chatsLoading } = useMyChatTranscripts(signedIn);
+  useSupportUpdates();
+
+  // Check auth, and open the ticket a link pointed at (e.g. from the reference lookup)
+  useEffect(() => {
+    const token = localStorage.getItem('token');
+    if (!token) {
+      router.push('/login');
+      return;
+    }
+    setSignedIn(true);
+    setSelectedTicket(new URLSearchParams(window.location.search).get('ticket'));
+  }, [router]);
+
+  // --- Theme and Style Definitions ---
+  const lightTheme = { mainBg: '#fffbeb', bgGradient: 'linear-gradient(to bottom right, #fffbeb, #fef3c7, #fde68a)', glassPanelBg: 'rgba(255, 255, 255, 0.92)', glassPanelBorder: '1px solid rgba(251, 191, 36, 0.3)', glassPanelShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.25), 0 10px 20px -5px rgba(0, 0, 0, 0.1)', textPrimary: '#1f2937', textSecondary: '#4B5563', textMuted: '#6B7280', quickActionBg: 'rgba(249, 250, 251, 0.8)', quickActionBorder: '1px solid rgba(209, 213, 219, 0.5)', alertBg: 'rgba(255, 251, 235, 0.9)' };
+  const darkTheme = { mainBg: '#0f172a', bgGradient: 'linear-gradient(to bottom right, #0f172a, #1e293b, #334155)', glassPanelBg: 'rgba(30, 41, 59, 0.8)', glassPanelBorder: '1px solid rgba(251, 191, 36, 0.3)', glassPanelShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.35), 0 10px 20px -5px rgba(0, 0, 0, 0.2)', textPrimary: '#f9fafb', textSecondary: '#9ca3af', textMuted: '#9ca3af', quickActionBg: 'rgba(51, 65, 85, 0.8)', quickActionBorder: '1px solid rgba(75, 85, 99, 0.5)', alertBg: 'rgba(30, 41, 59, 0.9)' };
+  const currentThemeStyles = theme === 'dark' ? darkTheme : lightTheme;
+  const panelStyle: React.CSSProperties = { backgroundColor: currentThemeStyles.glassPanelBg, padding: '1.5rem', borderRadius: '0.75rem', boxShadow: currentThemeStyles.glassPanelShadow, backdropFilter: 'blur(12px)', border: currentThemeStyles.glassPanelBorder };
+  const listItemStyle = (selected: boolean): React.CSSProperties => ({ width: '100%', textAlign: 'left', padding: '0.75rem 1rem', borderRadius: '0.5rem', cursor: 'pointer', backgroundColor: selected ? 'rgba(245, 158, 11, 0.15)' : currentThemeStyles.quickActionBg, border: selected ? '1px solid #F59E0B' : currentThemeStyles.quickActionBorder });
+  const badgeStyle = (color: string): React.CSSProperties => ({ backgroundColor: `${color}20`, color, padding: '0.125rem 0.5rem', borderRadius: '9999px', fontSize: '0.7rem', fontWeight: 600, whiteSpace: 'nowrap' });
+
+  const waitingOnYou = tickets.filter(ticket => ticket.status === 'pending_customer').length;
+  const transcript = transcripts.find(session => session._id === selectedChat);
+
+  const renderTickets = () => (
+    tickets.length === 0 ? (
+      <p style={{ color: currentThemeStyles.textSecondary, margin: 0 }}>
+        {ticketsLoading ? 'Loading your requests...' : ticketsError ? 'Your requests could not be loaded.' : 'You have not sent us any requests yet.'}
+      </p>
+    ) : (
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+        {tickets.map(ticket => {
+          const status = TICKET_STATUS_DISPLAY[ticket.status];
+          return (
+            <button key={ticket._id} onClick={() => setSelectedTicket(ticket.ticketId)} style={listItemStyle(ticket.ticketId === selectedTicket)}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', gap: '0.5rem', alignItems: 'center' }}>
+                <span style={{ color: currentThemeStyles.textPrimary, fontWeight: 600, fontSize: '0.9rem', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{ticket.subject}</span>
+                <span style={badgeStyle(status.color)}>{status.label}</span>
+              </div>
+              <div style={{ color: currentThemeStyles.textMuted, fontSize: '0.75rem', marginTop: '0.25rem' }}>{ticket.ticketId} · {new Date(ticket.updatedAt).toLocaleDateString()}</div>
+            </button>
+          );
+        })}
+      </div>
+    )
+  );
+
+  const renderChats = () => (
+    transcripts.length === 0 ? (
+      <p style={{ color: currentThemeStyles.textSecondary, margin: 0 }}>
+        {chatsLoading ? 'Loading your chats...' : chatsError ? 'Your chats could not be loaded.' : 'You have not chatted with us yet.'}
+      </p>
+    ) : (
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+        {transcripts.map(session => {
+          const status = CHAT_STATUS_DISPLAY[session.status];
+          const lastMessage = session.messages[session.messages.length - 1];
+          return (
+            <button key={session._id} onClick={() => setSelectedChat(session._id)} style={listItemStyle(session._id === selectedChat)}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', gap: '0.5rem', alignItems: 'center' }}>
+                <span style={{ color: currentThemeStyles.textPrimary, fontWeight: 600, fontSize: '0.9rem' }}>{new Date(session.createdAt).toLocaleString()}</span>
+                <span style={badgeStyle(status.color)}>{status.label}</span>
+              </div>
+              {lastMessage && <div style={{ color: currentThemeStyles.textMuted, fontSize: '0.75rem', marginTop: '0.25rem', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{lastMessage.content}</div>}
+            </button>
+          );
+        })}
+      </div>
+    )
+  );
+
+  const renderDetail = () => {
+    if (tab === 'tickets' && selectedTicket) return <SupportTicketThread key={selectedTicket} reference={selectedTicket} currentThemeStyles={currentThemeStyles} />;
+    if (tab === 'chats' && transcript) return <ChatTranscriptView transcript={transcript} currentThemeStyles={currentThemeStyles} />;
+    return (
+      <div style={{ textAlign: 'center', color: currentThemeStyles.textSecondary, padding: '2rem 0' }}>
+        <LifebuoyIcon width={48} height={48} style={{ margin: '0 auto 1rem', opacity: 0.5 }} />
+        <div>Choose a {tab === 'tickets' ? 'request' : 'chat'} to see the conversation.</div>
+      </div>
+    );
+  };
+
+  return (
+    <div style={{ backgroundColor: currentThemeStyles.mainBg, minHeight: '100vh', position: 'relative', overflowX: 'hidden' }}>
+      <style jsx>{`
+        @media (max-width: 900px) {
+          .support-grid { grid-template-columns: 1fr !important; }
+        }
+      `}</style>
+
+      <AnimatedBackground currentThemeStyles={currentThemeStyles} />
+
+      <div style={{ position: 'relative', zIndex: 10 }}>
+        {/* Navigation */}
+        <nav style={{ backgroundColor: theme === 'dark' ? 'rgba(30, 41, 59, 0.92)' : 'rgba(255, 255, 255, 0.95)', backdropFilter: 'blur(12px)', borderBottom: '1px solid rgba(251, 191, 36, 0.3)', padding: '1rem 0' }}>
+          <div style={{ maxWidth: '1200px', margin: '0 auto', padding: '0 1.5rem', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '1rem' }}>
+              <Link href="/dashboard" style={{ color: currentThemeStyles.textPrimary, textDecoration: 'none', fontSize: '0.875rem', display: 'flex', alignItems: 'center', gap: '0.5rem', fontWeight: '500' }}>
+                <ArrowLeftIcon width={16} height={16} />
+                Back to Dashboard
+              </Link>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                <LifebuoyIcon width={24} height={24} color="#f59e0b" />
+                <h1 style={{ fontSize: '1.5rem', fontWeight: 'bold', color: currentThemeStyles.textPrimary, margin: 0 }}>My Support Requests</h1>
+              </div>
+            </div>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '1.5rem' }}>
+              <ThemeSwitcher />
+              <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', padding: '0.25rem 0.75rem', borderRadius: '0.5rem', backgroundColor: connected ? '#10b981' : '#ef4444', color: 'white', fontSize: '0.75rem', fontWeight: '600' }}>
+                <WifiIcon width={14} height={14} />
+                {connected ? 'LIVE' : 'Offline'}
+              </div>
+            </div>
+          </div>
+        </nav>
+
+        <div style={{ maxWidth: '1200px', margin: '0 auto', padding: '2rem 1.5rem' }}>
+          {waitingOnYou > 0 && (
+            <div style={{ ...panelStyle, marginBottom: '1.5rem', padding: '1rem 1.5rem', color: currentThemeStyles.textPrimary, borderLeft: '4px solid #8b5cf6' }}>
+              {waitingOnYou === 1 ? 'One request is' : `${waitingOnYou} requests are`} waiting for your reply.
+            </div>
+          )}
+
+          <div className="support-grid" style={{ display: 'grid', gridTemplateColumns: '1fr 2fr', gap: '1.5rem', alignItems: 'start' }}>
+            <div style={panelStyle}>
+              <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '1rem' }}>
+                {[
+                  { id: 'tickets' as SupportTab, name: 'Requests', icon: TicketIcon, count: tickets.length },
+                  { id: 'chats' as SupportTab, name: 'Chats', icon: ChatBubbleLeftRightIcon, count: transcripts.length }
+                ].map(item => (
+                  <button key={item.id} onClick={() => setTab(item.id)} style={{ flex: 1, padding: '0.5rem 0.75rem', border: 'none', backgroundColor: tab === item.id ? '#F59E0B' : 'transparent', color: tab === item.id ? 'white' : currentThemeStyles.textPrimary, cursor: 'pointer', borderRadius: '0.5rem', fontWeight: '600', display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '0.375rem' }}>
+                    <item.icon width={18} height={18} />
+                    {item.name} ({item.count})
+                  </button>
+                ))}
+              </div>
+              {tab === 'tickets' ? renderTickets() : renderChats()}
+              <Link href="/contact" style={{ marginTop: '1rem', display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '0.375rem', color: '#F59E0B', textDecoration: 'none', fontWeight: 600, fontSize: '0.9rem' }}>
+                <PlusIcon width={16} height={16} /> New request
+              </Link>
+            </div>
+
+            <div style={panelStyle}>
+              {renderDetail()}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+// /app/domain/article.ts
+// Knowledge base articles. Agents write them in markdown, in any of the three national languages.
+import * as d from '@/app/domain/decode';
+import { TICKET_CATEGORIES, type TicketCategory } from '@/app/domain/ticket';
+
+const ARTICLE_LANGUAGES = ['en', 'si', 'ta'] as const;
+const ARTICLE_LANGUAGE_LABELS: Record<string, string> = { en: 'English', si: 'සිංහල', ta: 'தமிழ்' };
+const ARTICLE_STATUSES = ['draft', 'published'] as const;
+
+type ArticleLanguage = typeof ARTICLE_LANGUAGES[number];
+type ArticleStatus = typeof ARTICLE_STATUSES[number];
+
+interface ArticleTranslation {
+  title: string;
+  // Markdown
+  body: string;
+}
+
+// Not every article is translated into every language; English is the usual fallback
+type ArticleTranslations = Partial<Record<ArticleLanguage, ArticleTranslation>>;
+
+interface Article {
+  _id: string;
+  slug: string;
+  // Uses the ticket categories so an article can be offered for the kind of problem being reported
+  category: TicketCategory;
+  status: ArticleStatus;
+  tags: string[];
+  translations: ArticleTranslations;
+  authorName?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Body of POST /cs/kb/articles and PUT /cs/kb/articles/:id
+type ArticleDraft = Pick<Article, 'category' | 'status' | 'tags' | 'translations'>;
+
+const translationDecoder = d.object<ArticleTranslation>({ title: d.string, body: d.withDefault(d.string, '') });
+
+const articleDecoder = d.object<Article>({
+  _id: d.string,
+  slug: d.string,
+  category: d.withDefault(d.oneOf(...TICKET_CATEGORIES), 'other'),
+  status: d.withDefault(d.oneOf(...ARTICLE_STATUSES), 'draft'),
+  tags: d.withDefault(d.array(d.string), []),
+  translations: d.object<ArticleTranslations>({
+    en: d.optional(translationDecoder),
+    si: d.optional(translationDecoder),
+    ta: d.optional(translationDecoder),
+  }),
+  authorName: d.optional(d.string),
+  createdAt: d.isoDate,
+  updatedAt: d.isoDate,
+});
+
+const decodeArticle = (input: unknown): Article => d.decode(articleDecoder, input, 'article');
+const decodeArticles = (input: unknown): Article[] => d.decodeList(articleDecoder, input, 'article');
+
+export {
+  ARTICLE_LANGUAGES,
+  ARTICLE_LANGUAGE_LABELS,
+  ARTICLE_STATUSES,
+  decodeArticle,
+  decodeArticles,
+};
+
+export type {
+  ArticleLanguage,
+  ArticleStatus,
+  ArticleTranslation,
+  ArticleTranslations,
+  Article,
+  ArticleDraft,
+};
@@ -0,0 +1,200 @@
+// /app/domain/booking.ts
+// Passenger bookings as /bookings returns them
+import * as d from '@/app/domain/decode';
+
+const BOOKING_STATUSES = ['confirmed', 'pending', 'cancelled', 'completed', 'no_show'] as const;
+const PASSENGER_TYPES = ['regular', 'student', 'senior', 'military'] as const;
+const BOOKING_PAYMENT_STATUSES = ['pending', 'completed', 'failed', 'refunded'] as const;
+
+type BookingStatus = typeof BOOKING_STATUSES[number];
+type PassengerType = typeof PASSENGER_TYPES[number];
+type BookingPaymentStatus = typeof BOOKING_PAYMENT_STATUSES[number];
+
+interface PassengerInfo {
+  name: string;
+  phone: string;
+  email: string;
+  idType?: 'nic' | 'passport';
+  idNumber?: string;
+  passengerType: PassengerType;
+}
+
+interface SeatInfo {
+  seatNumber: string;
+  seatType: string;
+  preferences: string[];
+}
+
+// One traveller on a group booking; single-passenger bookings only fill `passengerInfo`/`seatInfo`
+interface BookingPassenger {
+  passengerInfo: PassengerInfo;
+  seatInfo: SeatInfo;
+  fare?: { basePrice: number; discount: number; amount: number };
+  qrCode?: string;
+}
+
+interface Booking {
+  _id: string;
+  bookingId: string;
+  userId?: string;
+  routeId: string;
+  routeName?: string;
+  scheduleId?: string;
+  travelDate: string;
+  departureTime: string;
+  passengerInfo: PassengerInfo;
+  seatInfo: SeatInfo;
+  passengers?: BookingPassenger[];
+  pricing: { basePrice: number; taxes: number; discounts: number; totalAmount: number; currency: string };
+  paymentInfo: { paymentId?: string; method: string; status: BookingPaymentStatus; paidAt?: string; transactionId?: string };
+  status: BookingStatus;
+  qrCode?: string;
+  cancellationInfo?: { reason: string; cancelledAt: string; refundAmount: number; refundStatus: string; processedBy?: string };
+  checkInInfo: { checkedIn: boolean; checkInTime?: string; checkInLocation?: string };
+  routeInfo?: {
+    name: string;
+    startLocation: { name: string; address: string };
+    endLocation: { name: string; address: string };
+    operatorInfo: { companyName: string; contactNumber: string };
+  };
+  // Set on legs of a round trip or multi-leg journey
+  itineraryId?: string;
+  itineraryType?: 'round_trip' | 'multi_leg';
+  legIndex?: number;
+  legCount?: number;
+  isActive?: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Body of POST /bookings: one leg as the passenger filled it in; the server adds the rest
+interface NewBooking {
+  userId?: string;
+  routeId: string;
+  scheduleId?: string;
+  travelDate: string;
+  departureTime: string;
+  passengerInfo: PassengerInfo;
+  seatInfo: SeatInfo;
+  passengers?: BookingPassenger[];
+  paymentMethod: string;
+  pricing: { basePrice: number; taxes: number; discounts: number; totalAmount: number; currency?: string };
+}
+
+// A booking kept in localStorage on this device; only what the seat map reads from it is checked
+interface StoredBooking {
+  routeId: string;
+  scheduleId?: string;
+  travelDate: string;
+  status?: string;
+  seatInfo?: { seatNumber?: string };
+  passengers?: { seatInfo?: { seatNumber?: string } }[];
+}
+
+const passengerInfoDecoder = d.object<PassengerInfo>({
+  name: d.string,
+  phone: d.withDefault(d.string, ''),
+  email: d.withDefault(d.string, ''),
+  idType: d.optional(d.oneOf('nic', 'passport')),
+  idNumber: d.optional(d.string),
+  passengerType: d.withDefault(d.oneOf(...PASSENGER_TYPES), 'regular'),
+});
+
+const seatInfoDecoder = d.object<SeatInfo>({
+  seatNumber: d.string,
+  seatType: d.withDefault(d.string, ''),
+  preferences: d.withDefault(d.array(d.string), []),
+});
+
+const placeDecoder = d.object<{ name: string; address: string }>({ name: d.string, address: d.withDefault(d.string, '') });
+
+const bookingDecoder = d.object<Booking>({
+  _id: d.string,
+  bookingId: d.string,
+  userId: d.optional(d.reference('_id')),
+  routeId: d.reference('_id', 'routeId'),
+  routeName: d.optional(d.string),
+  scheduleId: d.optional(d.string),
+  travelDate: d.isoDate,
+  departureTime: d.string,
+  passengerInfo: passengerInfoDecoder,
+  seatInfo: seatInfoDecoder,
+  passengers: d.optional(d.array(d.object<BookingPassenger>({
+    passengerInfo: passengerInfoDecoder,
+    seatInfo: seatInfoDecoder,
+    fare: d.optional(d.object({ basePrice: d.numeric, discount: d.numeric, amount: d.numeric })),
+    qrCode: d.optional(d.string),
+  }))),
+  pricing: d.object({
+    basePrice: d.withDefault(d.numeric, 0),
+    taxes: d.withDefault(d.numeric, 0),
+    discounts: d.withDefault(d.numeric, 0),
+    totalAmount: d.numeric,
+    currency: d.withDefault(d.string, 'LKR'),
+  }),
+  paymentInfo: d.object({
+    paymentId: d.optional(d.string),
+    method: d.withDefault(d.string, ''),
+    status: d.oneOf(...BOOKING_PAYMENT_STATUSES),
+    paidAt: d.optional(d.isoDate),
+    transactionId: d.optional(d.string),
+  }),
+  status: d.oneOf(...BOOKING_STATUSES),
+  qrCode: d.optional(d.string),
+  cancellationInfo: d.optional(d.object({
+    reason: d.withDefault(d.string, ''),
+    cancelledAt: d.isoDate,
+    refundAmount: d.withDefault(d.numeric, 0),
+    refundStatus: d.withDefault(d.string, 'pending'),
+    processedBy: d.optional(d.string),
+  })),
+  checkInInfo: d.withDefault(d.object<Booking['checkInInfo']>({ checkedIn: d.boolean, checkInTime: d.optional(d.isoDate), checkInLocation: d.optional(d.string) }), { checkedIn: false }),
+  routeInfo: d.optional(d.object({
+    name: d.string,
+    startLocation: placeDecoder,
+    endLocation: placeDecoder,
+    operatorInfo: d.object({ companyName: d.string, contactNumber: d.withDefault(d.string, '') }),
+  })),
+  itineraryId: d.optional(d.string),
+  itineraryType: d.optional(d.oneOf('round_trip', 'multi_leg')),
+  legIndex: d.optional(d.number),
+  legCount: d.optional(d.number),
+  isActive: d.optional(d.boolean),
+  createdAt: d.isoDate,
+  updatedAt: d.isoDate,
+});
+
+const storedSeatDecoder = d.object<{ seatNumber?: string }>({ seatNumber: d.optional(d.string) });
+
+const storedBookingDecoder = d.object<StoredBooking>({
+  routeId: d.reference('_id', 'routeId'),
+  scheduleId: d.optional(d.string),
+  travelDate: d.withDefault(d.string, ''),
+  status: d.optional(d.string),
+  seatInfo: d.optional(storedSeatDecoder),
+  passengers: d.optional(d.array(d.object<{ seatInfo?: { seatNumber?: string } }>({ seatInfo: d.optional(storedSeatDecoder) }))),
+});
+
+const decodeBooking = (input: unknown): Booking => d.decode(bookingDecoder, input, 'booking');
+const decodeBookings = (input: unknown): Booking[] => d.decodeList(bookingDecoder, input, 'booking');
+const decodeStoredBookings = (input: unknown): StoredBooking[] => d.decodeList(storedBookingDecoder, input, 'stored booking');
+
+export {
+  BOOKING_STATUSES,
+  PASSENGER_TYPES,
+  decodeBooking,
+  decodeBookings,
+  decodeStoredBookings,
+};
+
+export type {
+  BookingStatus,
+  PassengerType,
+  BookingPaymentStatus,
+  PassengerInfo,
+  SeatInfo,
+  BookingPassenger,
+  Booking,
+  NewBooking,
+  StoredBooking,
+};
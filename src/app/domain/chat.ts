@@ -0,0 +1,59 @@
+// /app/domain/chat.ts
+// Chat sessions as the passenger sees them afterwards: a transcript with its status
+import * as d from '@/app/domain/decode';
+
+const CHAT_STATUSES = ['waiting', 'active', 'ended', 'transferred'] as const;
+const CHAT_SENDERS = ['customer', 'agent', 'ai_bot', 'system'] as const;
+
+type ChatStatus = typeof CHAT_STATUSES[number];
+type ChatSender = typeof CHAT_SENDERS[number];
+
+interface ChatTranscriptMessage {
+  messageId: string;
+  sender: ChatSender;
+  content: string;
+  timestamp: string;
+}
+
+// One of the passenger's chats from GET /cs/chat/sessions/mine
+interface ChatTranscript {
+  _id: string;
+  sessionId: string;
+  status: ChatStatus;
+  messages: ChatTranscriptMessage[];
+  assignedAgent?: { name: string };
+  createdAt: string;
+  endedAt?: string;
+}
+
+const chatTranscriptDecoder = d.object<ChatTranscript>({
+  _id: d.string,
+  sessionId: d.string,
+  status: d.oneOf(...CHAT_STATUSES),
+  messages: d.withDefault(d.array(d.object<ChatTranscriptMessage>({
+    messageId: d.string,
+    sender: d.oneOf(...CHAT_SENDERS),
+    content: d.withDefault(d.string, ''),
+    timestamp: d.isoDate,
+  })), []),
+  assignedAgent: d.optional(d.object({ name: d.string })),
+  createdAt: d.isoDate,
+  endedAt: d.optional(d.isoDate),
+});
+
+const decodeChatTranscript = (input: unknown): ChatTranscript => d.decode(chatTranscriptDecoder, input, 'chat transcript');
+const decodeChatTranscripts = (input: unknown): ChatTranscript[] => d.decodeList(chatTranscriptDecoder, input, 'chat transcript');
+
+export {
+  CHAT_STATUSES,
+  CHAT_SENDERS,
+  decodeChatTranscript,
+  decodeChatTranscripts,
+};
+
+export type {
+  ChatStatus,
+  ChatSender,
+  ChatTranscriptMessage,
+  ChatTranscript,
+};
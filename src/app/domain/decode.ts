@@ -0,0 +1,149 @@
+// /app/domain/decode.ts
+// Runtime checks for backend payloads. A decoder returns the typed value or throws a DecodeError that
+// names the offending field, so a malformed response fails loudly at the API boundary instead of as
+// `undefined` somewhere in a component.
+
+type Decoder<T> = (input: unknown, path: string) => T;
+
+// A decoder for every field of T, what `object` takes
+type Shape<T> = { [K in keyof T]-?: Decoder<T[K]> };
+
+class DecodeError extends Error {
+  path: string;
+
+  constructor(message: string, path: string) {
+    super(message);
+    this.name = 'DecodeError';
+    this.path = path;
+  }
+}
+
+const describe = (input: unknown): string => {
+  if (input === null) return 'null';
+  if (Array.isArray(input)) return 'an array';
+  if (typeof input === 'string') return input.length > 40 ? 'a string' : `"${input}"`;
+  return typeof input === 'object' ? 'an object' : `${typeof input} ${String(input)}`;
+};
+
+const fail = (path: string, expected: string, input: unknown): never => {
+  throw new DecodeError(`${path || 'response'} should be ${expected}, got ${describe(input)}`, path);
+};
+
+const isMissing = (input: unknown) => input === undefined || input === null;
+const join = (path: string, key: string | number) => typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+const string: Decoder<string> = (input, path) => typeof input === 'string' ? input : fail(path, 'a string', input);
+
+const number: Decoder<number> = (input, path) => typeof input === 'number' && Number.isFinite(input) ? input : fail(path, 'a number', input);
+
+// Amounts sometimes arrive as strings (e.g. Mongo decimals serialised by the payment gateway)
+const numeric: Decoder<number> = (input, path) => {
+  if (typeof input === 'string' && input.trim() !== '' && Number.isFinite(Number(input))) return Number(input);
+  return number(input, path);
+};
+
+const boolean: Decoder<boolean> = (input, path) => typeof input === 'boolean' ? input : fail(path, 'true or false', input);
+
+// An ISO timestamp, kept as the string the rest of the app already formats
+const isoDate: Decoder<string> = (input, path) => typeof input === 'string' && !Number.isNaN(Date.parse(input)) ? input : fail(path, 'a date', input);
+
+const oneOf = <T extends string>(...values: readonly T[]): Decoder<T> =>
+  (input, path) => values.includes(input as T) ? input as T : fail(path, `one of ${values.join(', ')}`, input);
+
+// For enums the server may grow: a value this build does not know reads as `fallback`, which may be undefined
+const oneOfOr = <T extends string, F extends T | undefined = T>(fallback: F, ...values: readonly T[]): Decoder<T | F> =>
+  (input, path) => {
+    if (values.includes(input as T)) return input as T;
+    console.warn(`${path || 'response'} has unknown value ${describe(input)}, read as ${fallback === undefined ? 'unknown' : `"${fallback}"`}`);
+    return fallback;
+  };
+
+const optional = <T>(decoder: Decoder<T>): Decoder<T | undefined> =>
+  (input, path) => isMissing(input) ? undefined : decoder(input, path);
+
+const withDefault = <T>(decoder: Decoder<T>, fallback: T): Decoder<T> =>
+  (input, path) => isMissing(input) ? fallback : decoder(input, path);
+
+const array = <T>(decoder: Decoder<T>): Decoder<T[]> =>
+  (input, path) => Array.isArray(input) ? input.map((item, index) => decoder(item, join(path, index))) : fail(path, 'a list', input);
+
+const tuple2 = <A, B>(first: Decoder<A>, second: Decoder<B>): Decoder<[A, B]> =>
+  (input, path) => Array.isArray(input) && input.length === 2 ? [first(input[0], join(path, 0)), second(input[1], join(path, 1))] : fail(path, 'a pair', input);
+
+const isRecord = (input: unknown): input is Record<string, unknown> => typeof input === 'object' && input !== null && !Array.isArray(input);
+
+// Free-form data such as timeline metadata, passed through unchecked
+const record: Decoder<Record<string, unknown>> = (input, path) => isRecord(input) ? input : fail(path, 'an object', input);
+
+// Keeps only the listed keys; anything else the server sends is dropped
+const object = <T>(shape: Shape<T>): Decoder<T> =>
+  (input, path) => {
+    if (!isRecord(input)) return fail(path, 'an object', input);
+    const result = {} as T;
+    (Object.keys(shape) as Array<keyof T>).forEach(key => {
+      const value = shape[key](input[key as string], join(path, key as string));
+      if (value !== undefined) result[key] = value;
+    });
+    return result;
+  };
+
+// An id that may come back populated, e.g. `bookingId: { _id, bookingId }` instead of the plain string
+const reference = (...keys: string[]): Decoder<string> =>
+  (input, path) => {
+    if (typeof input === 'string') return input;
+    if (isRecord(input)) {
+      const id = keys.map(key => input[key]).find(value => typeof value === 'string');
+      if (typeof id === 'string') return id;
+    }
+    return fail(path, `an id or an object with ${keys.join('/')}`, input);
+  };
+
+// Runs a decoder at the API boundary and words the failure for the screen showing it
+const decode = <T>(decoder: Decoder<T>, input: unknown, entity: string): T => {
+  try {
+    return decoder(input, '');
+  } catch (error) {
+    if (error instanceof DecodeError) {
+      console.error(`Malformed ${entity} payload:`, error.path, input);
+      throw new DecodeError(`The server sent an invalid ${entity}: ${error.message}`, error.path);
+    }
+    throw error;
+  }
+};
+
+// Decodes a list item by item: a malformed entry is logged and left out rather than failing the whole
+// screen over one record. A response that is not a list at all still throws.
+const decodeList = <T>(decoder: Decoder<T>, input: unknown, entity: string): T[] => {
+  if (!Array.isArray(input)) return decode(array(decoder), input, `${entity} list`);
+  return input.flatMap((item, index) => {
+    try {
+      return [decoder(item, join('', index))];
+    } catch (error) {
+      if (!(error instanceof DecodeError)) throw error;
+      console.warn(`Skipping malformed ${entity}:`, error.message, item);
+      return [];
+    }
+  });
+};
+
+export {
+  DecodeError,
+  decode,
+  decodeList,
+  string,
+  number,
+  numeric,
+  boolean,
+  isoDate,
+  oneOf,
+  oneOfOr,
+  optional,
+  withDefault,
+  array,
+  tuple2,
+  record,
+  object,
+  reference,
+};
+
+export type { Decoder, Shape };
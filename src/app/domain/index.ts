@@ -0,0 +1,13 @@
+// /app/domain/index.ts
+// The app's canonical entities. Pages import their types from here; apiClient runs API responses through the
+// matching decode* function, so every screen agrees on one shape and bad payloads fail with a clear error.
+export { DecodeError } from '@/app/domain/decode';
+export * from '@/app/domain/ticket';
+export * from '@/app/domain/booking';
+export * from '@/app/domain/payment';
+export * from '@/app/domain/route';
+export * from '@/app/domain/vehicle';
+export * from '@/app/domain/survey';
+export * from '@/app/domain/article';
+export * from '@/app/domain/chat';
+export * from '@/app/domain/replySuggestion';
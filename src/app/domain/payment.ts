@@ -0,0 +1,84 @@
+// /app/domain/payment.ts
+// Payment records as /payments/history returns them
+import * as d from '@/app/domain/decode';
+
+interface PaymentStatusChange {
+  status: string;
+  timestamp: string;
+  reason?: string;
+}
+
+interface Payment {
+  _id: string;
+  paymentId: string;
+  userId?: string;
+  // Sometimes populated with the booking document; only its id is kept
+  bookingId: string;
+  amount: { subtotal: number; taxes: number; fees: number; discounts: number; total: number; currency: string };
+  paymentMethod: { type: string; provider?: string; lastFourDigits?: string; walletType?: string };
+  transactionInfo: { transactionId?: string; gatewayTransactionId?: string; gatewayProvider?: string; authorizationCode?: string };
+  status: string;
+  statusHistory: PaymentStatusChange[];
+  billingInfo?: { name: string; email: string; phone?: string };
+  refundInfo?: { refundId?: string; refundAmount: number; refundReason?: string; refundMethod?: string; refundDate?: string };
+  timestamps: { initiatedAt: string; processedAt?: string; completedAt?: string; failedAt?: string; refundedAt?: string };
+  createdAt: string;
+  updatedAt: string;
+}
+
+const paymentDecoder: d.Decoder<Payment> = (input, path) => {
+  const payment = d.object<Omit<Payment, 'timestamps'> & { timestamps?: Partial<Payment['timestamps']> }>({
+    _id: d.string,
+    paymentId: d.string,
+    userId: d.optional(d.reference('_id')),
+    bookingId: d.withDefault(d.reference('bookingId', '_id', 'id'), ''),
+    amount: d.object({
+      subtotal: d.withDefault(d.numeric, 0),
+      taxes: d.withDefault(d.numeric, 0),
+      fees: d.withDefault(d.numeric, 0),
+      discounts: d.withDefault(d.numeric, 0),
+      total: d.numeric,
+      currency: d.withDefault(d.string, 'LKR'),
+    }),
+    paymentMethod: d.withDefault(d.object<Payment['paymentMethod']>({
+      type: d.string,
+      provider: d.optional(d.string),
+      lastFourDigits: d.optional(d.string),
+      walletType: d.optional(d.string),
+    }), { type: 'unknown' }),
+    transactionInfo: d.withDefault(d.object<Payment['transactionInfo']>({
+      transactionId: d.optional(d.string),
+      gatewayTransactionId: d.optional(d.string),
+      gatewayProvider: d.optional(d.string),
+      authorizationCode: d.optional(d.string),
+    }), {}),
+    status: d.string,
+    statusHistory: d.withDefault(d.array(d.object<PaymentStatusChange>({ status: d.string, timestamp: d.isoDate, reason: d.optional(d.string) })), []),
+    billingInfo: d.optional(d.object({ name: d.withDefault(d.string, ''), email: d.withDefault(d.string, ''), phone: d.optional(d.string) })),
+    refundInfo: d.optional(d.object({
+      refundId: d.optional(d.string),
+      refundAmount: d.numeric,
+      refundReason: d.optional(d.string),
+      refundMethod: d.optional(d.string),
+      refundDate: d.optional(d.isoDate),
+    })),
+    timestamps: d.optional(d.object({
+      initiatedAt: d.optional(d.isoDate),
+      processedAt: d.optional(d.isoDate),
+      completedAt: d.optional(d.isoDate),
+      failedAt: d.optional(d.isoDate),
+      refundedAt: d.optional(d.isoDate),
+    })),
+    createdAt: d.isoDate,
+    updatedAt: d.isoDate,
+  })(input, path);
+  // Older records have no timestamps block; creation is when the payment was initiated
+  return { ...payment, timestamps: { ...payment.timestamps, initiatedAt: payment.timestamps?.initiatedAt || payment.createdAt } };
+};
+
+const decodePayment = (input: unknown): Payment => d.decode(paymentDecoder, input, 'payment');
+const decodePayments = (input: unknown): Payment[] => d.decodeList(paymentDecoder, input, 'payment');
+
+export { decodePayment, decodePayments };
+
+export type { PaymentStatusChange, Payment };
@@ -0,0 +1,61 @@
+// /app/domain/replySuggestion.ts
+// Drafted replies offered to agents in chats and tickets, and what agents did with them
+import * as d from '@/app/domain/decode';
+
+const SUGGESTION_PROVIDERS = ['remote', 'local'] as const;
+// shown → inserted → sent unchanged or edited first; dismissed suggestions were never used
+const SUGGESTION_OUTCOMES = ['shown', 'inserted', 'sent', 'edited', 'dismissed'] as const;
+
+type SuggestionProvider = typeof SUGGESTION_PROVIDERS[number];
+type SuggestionOutcome = typeof SUGGESTION_OUTCOMES[number];
+
+// A knowledge base article a suggestion draws on, linked so the agent can check it
+interface SuggestionSource {
+  slug: string;
+  title: string;
+}
+
+interface ReplySuggestion {
+  id: string;
+  text: string;
+  provider: SuggestionProvider;
+  sources: SuggestionSource[];
+}
+
+// Body of POST /cs/ai/suggestions/feedback. `similarity` (0–1) compares the sent text with the suggestion.
+interface SuggestionFeedback {
+  suggestionId: string;
+  provider: SuggestionProvider;
+  channel: 'chat' | 'ticket';
+  referenceId: string;
+  outcome: SuggestionOutcome;
+  similarity?: number;
+}
+
+const suggestionSourceDecoder = d.object<SuggestionSource>({
+  slug: d.string,
+  title: d.string,
+});
+
+const replySuggestionDecoder = d.object<ReplySuggestion>({
+  id: d.string,
+  text: d.string,
+  provider: d.withDefault(d.oneOf(...SUGGESTION_PROVIDERS), 'remote'),
+  sources: d.withDefault(d.array(suggestionSourceDecoder), []),
+});
+
+const decodeReplySuggestions = (input: unknown): ReplySuggestion[] => d.decodeList(replySuggestionDecoder, input, 'reply suggestion');
+
+export {
+  SUGGESTION_PROVIDERS,
+  SUGGESTION_OUTCOMES,
+  decodeReplySuggestions,
+};
+
+export type {
+  SuggestionProvider,
+  SuggestionOutcome,
+  SuggestionSource,
+  ReplySuggestion,
+  SuggestionFeedback,
+};
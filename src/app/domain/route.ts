@@ -0,0 +1,133 @@
+// /app/domain/route.ts
+// Bus and train routes as /routes and /fleet/routes return them
+import * as d from '@/app/domain/decode';
+
+const ROUTE_STATUSES = ['active', 'inactive', 'maintenance'] as const;
+const VEHICLE_TYPES = ['bus', 'train'] as const;
+
+type RouteStatus = typeof ROUTE_STATUSES[number];
+type VehicleType = typeof VEHICLE_TYPES[number];
+
+interface RouteLocation {
+  name: string;
+  address: string;
+  // [latitude, longitude]
+  coordinates: [number, number];
+}
+
+interface RouteWaypoint {
+  name: string;
+  coordinates: [number, number];
+  // Minutes from departure, where the operator has set it
+  estimatedTime?: number;
+  order: number;
+}
+
+interface RouteSchedule {
+  departureTime: string;
+  arrivalTime: string;
+  // Minutes between departures
+  frequency?: number;
+  daysOfWeek: string[];
+  isActive: boolean;
+}
+
+interface RouteDiscount {
+  type: string;
+  percentage: number;
+}
+
+interface Route {
+  _id: string;
+  routeId: string;
+  name: string;
+  startLocation: RouteLocation;
+  endLocation: RouteLocation;
+  waypoints: RouteWaypoint[];
+  // Kilometres and minutes
+  distance: number;
+  estimatedDuration: number;
+  schedules: RouteSchedule[];
+  operatorInfo: { fleetId?: string; companyName: string; contactNumber: string };
+  vehicleInfo: { type: VehicleType; capacity: number; amenities: string[] };
+  pricing: { basePrice: number; pricePerKm?: number; discounts: RouteDiscount[] };
+  status: RouteStatus;
+  avgRating: number;
+  totalReviews: number;
+  isActive?: boolean;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+const coordinates = d.tuple2(d.number, d.number);
+
+const locationDecoder = d.object<RouteLocation>({
+  name: d.string,
+  address: d.withDefault(d.string, ''),
+  coordinates,
+});
+
+const routeDecoder = d.object<Route>({
+  _id: d.string,
+  routeId: d.string,
+  name: d.string,
+  startLocation: locationDecoder,
+  endLocation: locationDecoder,
+  waypoints: d.withDefault(d.array(d.object<RouteWaypoint>({
+    name: d.string,
+    coordinates,
+    estimatedTime: d.optional(d.number),
+    order: d.number,
+  })), []),
+  distance: d.numeric,
+  estimatedDuration: d.numeric,
+  schedules: d.withDefault(d.array(d.object<RouteSchedule>({
+    departureTime: d.string,
+    arrivalTime: d.string,
+    frequency: d.optional(d.number),
+    daysOfWeek: d.withDefault(d.array(d.string), []),
+    isActive: d.withDefault(d.boolean, true),
+  })), []),
+  operatorInfo: d.object({
+    fleetId: d.optional(d.reference('_id')),
+    companyName: d.string,
+    contactNumber: d.withDefault(d.string, ''),
+  }),
+  vehicleInfo: d.object({
+    type: d.oneOf(...VEHICLE_TYPES),
+    capacity: d.number,
+    amenities: d.withDefault(d.array(d.string), []),
+  }),
+  pricing: d.object({
+    basePrice: d.numeric,
+    pricePerKm: d.optional(d.numeric),
+    discounts: d.withDefault(d.array(d.object<RouteDiscount>({ type: d.string, percentage: d.number })), []),
+  }),
+  status: d.oneOf(...ROUTE_STATUSES),
+  // Routes nobody has reviewed yet come back without ratings
+  avgRating: d.withDefault(d.number, 0),
+  totalReviews: d.withDefault(d.number, 0),
+  isActive: d.optional(d.boolean),
+  createdAt: d.optional(d.isoDate),
+  updatedAt: d.optional(d.isoDate),
+});
+
+const decodeRoute = (input: unknown): Route => d.decode(routeDecoder, input, 'route');
+const decodeRoutes = (input: unknown): Route[] => d.decodeList(routeDecoder, input, 'route');
+
+export {
+  ROUTE_STATUSES,
+  VEHICLE_TYPES,
+  decodeRoute,
+  decodeRoutes,
+};
+
+export type {
+  RouteStatus,
+  VehicleType,
+  RouteLocation,
+  RouteWaypoint,
+  RouteSchedule,
+  RouteDiscount,
+  Route,
+};
@@ -0,0 +1,119 @@
+// /app/domain/survey.ts
+// Satisfaction surveys sent after a ticket is resolved or a chat ends, and the scores agents get from them
+import * as d from '@/app/domain/decode';
+
+const SURVEY_SOURCES = ['ticket', 'chat'] as const;
+// CSAT is a 1–5 rating of this conversation; NPS is the 0–10 "would you recommend us" question
+const CSAT_MIN = 1;
+const CSAT_MAX = 5;
+const NPS_MIN = 0;
+const NPS_MAX = 10;
+
+type SurveySource = typeof SURVEY_SOURCES[number];
+
+// Body of POST /cs/surveys. `sourceId` is the ticket's or chat session's _id.
+interface SurveyResponse {
+  source: SurveySource;
+  sourceId: string;
+  csat: number;
+  nps?: number;
+  comment?: string;
+}
+
+// A survey the passenger was sent, answered or not
+interface Survey {
+  _id: string;
+  source: SurveySource;
+  sourceId: string;
+  // The ticket number or chat session ID the passenger knows it by
+  reference: string;
+  subject?: string;
+  agentName?: string;
+  // When the ticket was resolved or the chat ended
+  closedAt: string;
+  completedAt?: string;
+  csat?: number;
+  nps?: number;
+  comment?: string;
+}
+
+// Aggregate over a set of responses. Averages are null until someone has answered.
+interface SatisfactionScore {
+  responses: number;
+  csatAverage: number | null;
+  nps: number | null;
+  promoters: number;
+  passives: number;
+  detractors: number;
+}
+
+// One agent's row from GET /cs/dashboard/workload
+interface AgentWorkload {
+  agentId: string;
+  name: string;
+  status?: string;
+  assignedTickets: number;
+  activeChats: number;
+  satisfaction: SatisfactionScore;
+}
+
+const EMPTY_SATISFACTION: SatisfactionScore = { responses: 0, csatAverage: null, nps: null, promoters: 0, passives: 0, detractors: 0 };
+
+const nullable = (decoder: d.Decoder<number>): d.Decoder<number | null> =>
+  (input, path) => input === undefined || input === null ? null : decoder(input, path);
+
+const surveyDecoder = d.object<Survey>({
+  _id: d.string,
+  source: d.oneOf(...SURVEY_SOURCES),
+  sourceId: d.reference('_id'),
+  reference: d.string,
+  subject: d.optional(d.string),
+  agentName: d.optional(d.string),
+  closedAt: d.isoDate,
+  completedAt: d.optional(d.isoDate),
+  csat: d.optional(d.number),
+  nps: d.optional(d.number),
+  comment: d.optional(d.string),
+});
+
+const satisfactionScoreDecoder = d.object<SatisfactionScore>({
+  responses: d.withDefault(d.number, 0),
+  csatAverage: nullable(d.numeric),
+  nps: nullable(d.numeric),
+  promoters: d.withDefault(d.number, 0),
+  passives: d.withDefault(d.number, 0),
+  detractors: d.withDefault(d.number, 0),
+});
+
+const agentWorkloadDecoder = d.object<AgentWorkload>({
+  agentId: d.reference('_id'),
+  name: d.withDefault(d.string, 'Agent'),
+  status: d.optional(d.string),
+  assignedTickets: d.withDefault(d.number, 0),
+  activeChats: d.withDefault(d.number, 0),
+  satisfaction: d.withDefault(satisfactionScoreDecoder, EMPTY_SATISFACTION),
+});
+
+const decodeSurvey = (input: unknown): Survey => d.decode(surveyDecoder, input, 'survey');
+const decodeSurveys = (input: unknown): Survey[] => d.decodeList(surveyDecoder, input, 'survey');
+const decodeAgentWorkloads = (input: unknown): AgentWorkload[] => d.decodeList(agentWorkloadDecoder, input, 'agent workload');
+
+export {
+  SURVEY_SOURCES,
+  CSAT_MIN,
+  CSAT_MAX,
+  NPS_MIN,
+  NPS_MAX,
+  EMPTY_SATISFACTION,
+  decodeSurvey,
+  decodeSurveys,
+  decodeAgentWorkloads,
+};
+
+export type {
+  SurveySource,
+  SurveyResponse,
+  Survey,
+  SatisfactionScore,
+  AgentWorkload,
+};
@@ -0,0 +1,264 @@
+// /app/domain/ticket.ts
+// Support tickets as the customer service API returns and accepts them
+import * as d from '@/app/domain/decode';
+
+const TICKET_CATEGORIES = ['booking_issue', 'payment_problem', 'route_information', 'schedule_inquiry', 'refund_request', 'account_support', 'technical_issue', 'complaint', 'suggestion', 'other'] as const;
+const TICKET_CATEGORY_LABELS: Record<string, string> = { booking_issue: 'Booking Issue', payment_problem: 'Payment Problem', route_information: 'Route Information', schedule_inquiry: 'Schedule Inquiry', refund_request: 'Refund Request', account_support: 'Account Support', technical_issue: 'Technical Issue', complaint: 'Complaint', suggestion: 'Suggestion', other: 'Other' };
+const TICKET_PRIORITIES = ['low', 'medium', 'high', 'urgent'] as const;
+const TICKET_STATUSES = ['open', 'in_progress', 'pending_customer', 'resolved', 'closed'] as const;
+const TICKET_SOURCES = ['email', 'phone', 'chat', 'manual', 'web'] as const;
+
+type TicketCategory = typeof TICKET_CATEGORIES[number];
+type TicketPriority = typeof TICKET_PRIORITIES[number];
+type TicketStatus = typeof TICKET_STATUSES[number];
+type TicketSource = typeof TICKET_SOURCES[number];
+
+interface TicketCustomerInfo {
+  name: string;
+  email: string;
+  phone?: string;
+  customerId?: string;
+}
+
+// What a ticket keeps of an attached booking or payment, so it reads without another lookup
+interface RelatedBooking {
+  bookingId: string;
+  routeId?: string;
+  // The scheduled departure the booking is for; tickets about one breakdown share it
+  tripId?: string;
+  totalAmount?: number;
+  refundAmount?: number;
+  routeName?: string;
+  travelDate?: string;
+  status?: string;
+}
+
+interface RelatedPayment {
+  paymentId: string;
+  bookingId?: string;
+  amount: number;
+  method?: string;
+  status?: string;
+}
+
+// Another ticket this one points at, with enough to show the link without loading it
+interface TicketLink {
+  _id: string;
+  ticketId: string;
+  subject?: string;
+  status?: string;
+}
+
+interface TicketTimelineEntry {
+  _id: string;
+  action: string;
+  description: string;
+  performedBy: { name: string; role: string };
+  timestamp: string;
+  metadata?: Record<string, unknown>;
+}
+
+interface Ticket {
+  _id: string;
+  ticketId: string;
+  subject: string;
+  description: string;
+  // Kept as a string: the server may know categories this build does not
+  category: string;
+  priority: TicketPriority;
+  status: TicketStatus;
+  source: string;
+  customerInfo: TicketCustomerInfo;
+  assignedAgent?: { id?: string; name: string; email?: string };
+  tags: string[];
+  timeline: TicketTimelineEntry[];
+  firstResponseAt?: string;
+  resolution?: { solution?: string; resolvedAt: string; customerSatisfaction?: number };
+  escalation?: { escalated: boolean; escalatedAt?: string; reason?: string; escalatedTo?: string };
+  relatedBooking?: RelatedBooking;
+  relatedPayment?: RelatedPayment;
+  // Set when this ticket was split off a multi-issue ticket, and on that ticket for each part
+  parentTicket?: TicketLink;
+  childTickets: TicketLink[];
+  // Set when this ticket was merged as a duplicate, and on the ticket it was merged into
+  mergedInto?: TicketLink;
+  mergedTickets: TicketLink[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Body of POST /cs/tickets
+interface NewTicket {
+  subject: string;
+  description: string;
+  category: string;
+  priority: TicketPriority;
+  customerInfo: TicketCustomerInfo;
+  source: TicketSource;
+  tags: string[];
+  attachments?: string[];
+  relatedBooking?: RelatedBooking;
+  relatedPayment?: RelatedPayment;
+}
+
+// Body of PUT /cs/tickets/:id
+interface TicketUpdate {
+  subject?: string;
+  description?: string;
+  status?: TicketStatus;
+  priority?: TicketPriority;
+  category?: string;
+  assignedTo?: string;
+  tags?: string[];
+  notes?: string;
+  resolution?: string;
+}
+
+// Body of POST /cs/tickets/track/:ticketId/replies, the passenger answering their own ticket. `attachments`
+// are URLs from POST /cs/attachments.
+interface TicketReply {
+  message: string;
+  attachments?: string[];
+}
+
+// Body of POST /cs/tickets/:id/merge. The server moves the duplicates' timelines onto the parent and
+// closes them; with `notifyCustomers` every duplicate's customer is told where their ticket went.
+interface TicketMerge {
+  ticketIds: string[];
+  tags: string[];
+  notifyCustomers: boolean;
+  note?: string;
+}
+
+// Body of POST /cs/tickets/:id/split; each part becomes a child ticket for the same customer
+interface TicketSplit {
+  children: Array<Pick<NewTicket, 'subject' | 'description' | 'category' | 'priority'>>;
+  note?: string;
+}
+
+// Body of POST /cs/tickets/bulk; fields left out are not touched on any ticket
+interface TicketBulkUpdate {
+  ticketIds: string[];
+  changes: {
+    // null unassigns
+    assignedTo?: string | null;
+    status?: TicketStatus;
+    priority?: TicketPriority;
+    addTags?: string[];
+    removeTags?: string[];
+  };
+}
+
+const relatedBookingDecoder = d.object<RelatedBooking>({
+  bookingId: d.string,
+  routeId: d.optional(d.reference('_id', 'routeId')),
+  tripId: d.optional(d.string),
+  totalAmount: d.optional(d.numeric),
+  refundAmount: d.optional(d.numeric),
+  routeName: d.optional(d.string),
+  travelDate: d.optional(d.string),
+  status: d.optional(d.string),
+});
+
+const relatedPaymentDecoder = d.object<RelatedPayment>({
+  paymentId: d.string,
+  bookingId: d.optional(d.string),
+  amount: d.numeric,
+  method: d.optional(d.string),
+  status: d.optional(d.string),
+});
+
+const ticketLinkDecoder = d.object<TicketLink>({
+  _id: d.string,
+  ticketId: d.string,
+  subject: d.optional(d.string),
+  status: d.optional(d.string),
+});
+
+const performedByDecoder = d.object({ name: d.string, role: d.string });
+
+const timelineEntryShape: d.Shape<TicketTimelineEntry> = {
+  _id: d.string,
+  action: d.string,
+  description: d.withDefault(d.string, ''),
+  performedBy: performedByDecoder,
+  timestamp: d.isoDate,
+  metadata: d.optional(d.record),
+};
+
+const ticketShape: d.Shape<Ticket> = {
+  _id: d.string,
+  ticketId: d.string,
+  subject: d.string,
+  description: d.withDefault(d.string, ''),
+  category: d.string,
+  priority: d.oneOf(...TICKET_PRIORITIES),
+  status: d.oneOf(...TICKET_STATUSES),
+  source: d.withDefault(d.string, 'manual'),
+  customerInfo: d.object<TicketCustomerInfo>({
+    name: d.string,
+    email: d.string,
+    phone: d.optional(d.string),
+    customerId: d.optional(d.string),
+  }),
+  assignedAgent: d.optional(d.object({ id: d.optional(d.string), name: d.string, email: d.optional(d.string) })),
+  tags: d.withDefault(d.array(d.string), []),
+  timeline: d.withDefault(d.array(d.object(timelineEntryShape)), []),
+  firstResponseAt: d.optional(d.isoDate),
+  resolution: d.optional(d.object({ solution: d.optional(d.string), resolvedAt: d.isoDate, customerSatisfaction: d.optional(d.number) })),
+  escalation: d.optional(d.object({ escalated: d.boolean, escalatedAt: d.optional(d.isoDate), reason: d.optional(d.string), escalatedTo: d.optional(d.string) })),
+  relatedBooking: d.optional(relatedBookingDecoder),
+  relatedPayment: d.optional(relatedPaymentDecoder),
+  parentTicket: d.optional(ticketLinkDecoder),
+  childTickets: d.withDefault(d.array(ticketLinkDecoder), []),
+  mergedInto: d.optional(ticketLinkDecoder),
+  mergedTickets: d.withDefault(d.array(ticketLinkDecoder), []),
+  createdAt: d.isoDate,
+  updatedAt: d.isoDate,
+};
+
+const ticketDecoder = d.object(ticketShape);
+
+// A queue should still show a ticket the server has moved ahead of this build: an unknown priority or
+// status reads as a default, and a timeline entry without its author (e.g. an automation) is kept
+const listedTicketDecoder = d.object<Ticket>({
+  ...ticketShape,
+  priority: d.oneOfOr('medium', ...TICKET_PRIORITIES),
+  status: d.oneOfOr('open', ...TICKET_STATUSES),
+  timeline: d.withDefault(d.array(d.object<TicketTimelineEntry>({
+    ...timelineEntryShape,
+    performedBy: d.withDefault(performedByDecoder, { name: 'System', role: 'system' }),
+  })), []),
+});
+
+const decodeTicket = (input: unknown): Ticket => d.decode(ticketDecoder, input, 'ticket');
+const decodeTickets = (input: unknown): Ticket[] => d.decodeList(listedTicketDecoder, input, 'ticket');
+
+export {
+  TICKET_CATEGORIES,
+  TICKET_CATEGORY_LABELS,
+  TICKET_PRIORITIES,
+  TICKET_STATUSES,
+  TICKET_SOURCES,
+  decodeTicket,
+  decodeTickets,
+};
+
+export type {
+  TicketCategory,
+  TicketPriority,
+  TicketStatus,
+  TicketSource,
+  TicketCustomerInfo,
+  RelatedBooking,
+  RelatedPayment,
+  TicketLink,
+  TicketTimelineEntry,
+  Ticket,
+  NewTicket,
+  TicketUpdate,
+  TicketReply,
+  TicketMerge,
+  TicketSplit,
+  TicketBulkUpdate,
+};
@@ -0,0 +1,108 @@
+// /app/domain/vehicle.ts
+// Live vehicle positions as /tracking returns them. Only the position is guaranteed; the rest depends on
+// what the on-board device reported.
+import * as d from '@/app/domain/decode';
+
+const VEHICLE_STATUSES = ['on_route', 'at_stop', 'delayed', 'breakdown', 'off_duty'] as const;
+
+type VehicleStatus = typeof VEHICLE_STATUSES[number];
+
+interface GeoPosition {
+  latitude: number;
+  longitude: number;
+  // Metres
+  accuracy?: number;
+  // Degrees clockwise from north
+  heading?: number;
+  // km/h
+  speed?: number;
+  altitude?: number;
+}
+
+interface VehicleRouteProgress {
+  currentWaypoint?: number;
+  distanceCovered?: number;
+  estimatedTimeToDestination?: number;
+  nextStop?: string;
+  nextStopETA?: string;
+  progressPercentage?: number;
+}
+
+interface VehiclePassengerLoad {
+  currentCapacity?: number;
+  maxCapacity?: number;
+  loadPercentage?: number;
+}
+
+interface VehicleOperationalInfo {
+  status?: VehicleStatus;
+  driverInfo?: { driverName?: string; contactNumber?: string };
+  tripInfo?: { tripId?: string; departureTime?: string; estimatedArrival?: string };
+  delays?: { currentDelay?: number; reason?: string };
+}
+
+interface VehicleLocation {
+  _id?: string;
+  deviceId?: string;
+  routeId?: string;
+  vehicleId: string;
+  vehicleNumber?: string;
+  location: GeoPosition;
+  routeProgress?: VehicleRouteProgress;
+  passengerLoad?: VehiclePassengerLoad;
+  operationalInfo?: VehicleOperationalInfo;
+  environmentalData?: { weather?: string; temperature?: number; trafficCondition?: string };
+  timestamp?: string;
+}
+
+const vehicleLocationDecoder = d.object<VehicleLocation>({
+  _id: d.optional(d.string),
+  deviceId: d.optional(d.reference('_id', 'deviceId')),
+  routeId: d.optional(d.reference('_id', 'routeId')),
+  vehicleId: d.string,
+  vehicleNumber: d.optional(d.string),
+  location: d.object<GeoPosition>({
+    latitude: d.number,
+    longitude: d.number,
+    accuracy: d.optional(d.number),
+    heading: d.optional(d.number),
+    speed: d.optional(d.number),
+    altitude: d.optional(d.number),
+  }),
+  routeProgress: d.optional(d.object<VehicleRouteProgress>({
+    currentWaypoint: d.optional(d.number),
+    distanceCovered: d.optional(d.number),
+    estimatedTimeToDestination: d.optional(d.number),
+    nextStop: d.optional(d.string),
+    nextStopETA: d.optional(d.isoDate),
+    progressPercentage: d.optional(d.number),
+  })),
+  passengerLoad: d.optional(d.object<VehiclePassengerLoad>({
+    currentCapacity: d.optional(d.number),
+    maxCapacity: d.optional(d.number),
+    loadPercentage: d.optional(d.number),
+  })),
+  operationalInfo: d.optional(d.object<VehicleOperationalInfo>({
+    // A status this build does not know leaves the vehicle on the map with its status unknown
+    status: d.optional(d.oneOfOr(undefined, ...VEHICLE_STATUSES)),
+    driverInfo: d.optional(d.object({ driverName: d.optional(d.string), contactNumber: d.optional(d.string) })),
+    tripInfo: d.optional(d.object({ tripId: d.optional(d.string), departureTime: d.optional(d.string), estimatedArrival: d.optional(d.string) })),
+    delays: d.optional(d.object({ currentDelay: d.optional(d.number), reason: d.optional(d.string) })),
+  })),
+  environmentalData: d.optional(d.object({ weather: d.optional(d.string), temperature: d.optional(d.number), trafficCondition: d.optional(d.string) })),
+  timestamp: d.optional(d.isoDate),
+});
+
+const decodeVehicleLocation = (input: unknown): VehicleLocation => d.decode(vehicleLocationDecoder, input, 'vehicle position');
+const decodeVehicleLocations = (input: unknown): VehicleLocation[] => d.decodeList(vehicleLocationDecoder, input, 'vehicle position');
+
+export { VEHICLE_STATUSES, decodeVehicleLocation, decodeVehicleLocations };
+
+export type {
+  VehicleStatus,
+  GeoPosition,
+  VehicleRouteProgress,
+  VehiclePassengerLoad,
+  VehicleOperationalInfo,
+  VehicleLocation,
+};
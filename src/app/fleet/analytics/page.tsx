@@ -11,6 +11,7 @@ import {
   CheckCircleIcon,
   ExclamationTriangleIcon
 } from '@heroicons/react/24/outline';
+import { getApiBaseUrl } from '@/app/services/apiClient';
 
 interface FleetAnalytics {
   fleet: {
@@ -49,7 +50,7 @@ export default function FleetAnalyticsPage() {
     const loadAnalytics = async () => {
       try {
         const token = localStorage.getItem('token');
-        const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/fleet/analytics?period=${timeframe}`, {
+        const response = await fetch(`${getApiBaseUrl()}/api/fleet/analytics?period=${timeframe}`, {
           headers: {
             'Authorization': `Bearer ${token}`,
             'Content-Type': 'application/json'
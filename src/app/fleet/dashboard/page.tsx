@@ -1,7 +1,7 @@
 // src/app/fleet/dashboard/page.tsx - Fleet Manager Dashboard with Theme Integration
 "use client";
 
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import Link from 'next/link';
 import { useTheme } from '@/app/context/ThemeContext';
 import { 
@@ -15,6 +15,9 @@ import {
   PlusIcon,
   ArrowPathIcon
 } from '@heroicons/react/24/outline';
+import apiClient from '@/app/services/apiClient';
+import { cacheKey } from '@/app/services/requestCache';
+import { useResource } from '@/app/hooks/useResource';
 
 interface FleetStats {
   complianceScore: number;
@@ -43,13 +46,16 @@ interface DashboardData {
   alerts: any[];
 }
 
+const DASHBOARD_REFRESH_MS = 60000;
+
 export default function FleetDashboardPage() {
   const { theme } = useTheme();
-  const [dashboardData, setDashboardData] = useState<DashboardData | null>(null);
-  const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
-  const [error, setError] = useState('');
-  const [lastRefresh, setLastRefresh] = useState<Date>(new Date());
+  const dashboard = useResource(cacheKey('/fleet/dashboard'), () => apiClient.get<DashboardData>('/fleet/dashboard'), { refreshInterval: DASHBOARD_REFRESH_MS });
+  const dashboardData = dashboard.data ?? null;
+  const loading = dashboard.isLoading;
+  const error = dashboard.error ? (dashboard.error instanceof Error ? dashboard.error.message : 'Failed to load dashboard') : '';
+  const lastRefresh = dashboard.updatedAt || new Date();
 
   // Theme and Style Definitions
   const lightTheme = { 
@@ -154,68 +160,10 @@ export default function FleetDashboardPage() {
     }
   `;
 
-  useEffect(() => {
-    const loadDashboard = async () => {
-      try {
-        const token = localStorage.getItem('token');
-        const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000';
-        const response = await fetch(`${apiUrl}/api/fleet/dashboard`, {
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json'
-          }
-        });
-
-        if (!response.ok) {
-          throw new Error('Failed to load dashboard');
-        }
-
-        const data = await response.json();
-        setDashboardData(data);
-        setLastRefresh(new Date());
-      } catch (error) {
-        console.error('Dashboard error:', error);
-        setError(error instanceof Error ? error.message : 'Failed to load dashboard');
-      } finally {
-        setLoading(false);
-        setRefreshing(false);
-      }
-    };
-
-    loadDashboard();
-  }, []);
-
-  const loadDashboard = async () => {
-    try {
-      const token = localStorage.getItem('token');
-      const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000';
-      const response = await fetch(`${apiUrl}/api/fleet/dashboard`, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        }
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to load dashboard');
-      }
-
-      const data = await response.json();
-      setDashboardData(data);
-      setLastRefresh(new Date());
-    } catch (error) {
-      console.error('Dashboard error:', error);
-      setError(error instanceof Error ? error.message : 'Failed to load dashboard');
-    } finally {
-      setLoading(false);
-      setRefreshing(false);
-    }
-  };
-
-  const handleRefresh = () => {
+  const handleRefresh = async () => {
     setRefreshing(true);
-    setError('');
-    loadDashboard();
+    await dashboard.refresh();
+    setRefreshing(false);
   };
 
   const getStatusColor = (status: string) => {
@@ -2,6 +2,7 @@
 "use client";
 
 import { useState } from 'react';
+import { getApiBaseUrl } from '@/app/services/apiClient';
 
 export default function FleetLoginPage() {
   const [email, setEmail] = useState('');
@@ -17,7 +18,7 @@ export default function FleetLoginPage() {
     setLoading(true);
 
     try {
-      const response = await fetch('http://localhost:5000/api/auth/login', {
+      const response = await fetch(`${getApiBaseUrl()}/api/auth/login`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ email, password })
@@ -76,7 +77,7 @@ export default function FleetLoginPage() {
           fontSize: '12px'
         }}>
           <strong>Debug Info:</strong><br/>
-          API: http://localhost:5000<br/>
+          API: {getApiBaseUrl()}<br/>
           Status: Ready
         </div>
 
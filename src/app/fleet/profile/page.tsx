@@ -14,35 +14,9 @@ import {
   PencilIcon,
   XMarkIcon
 } from '@heroicons/react/24/outline';
+import apiClient, { type FleetCompany, type FleetProfileUpdate } from '@/app/services/apiClient';
 
-interface Fleet {
-  _id: string;
-  companyName: string;
-  registrationNumber: string;
-  contactPerson: string;
-  email: string;
-  phone: string;
-  address: string;
-  status: string;
-  totalVehicles: number;
-  activeVehicles: number;
-  operatingRoutes: string[];
-  complianceScore: number;
-  applicationDate: string;
-  approvalDate?: string;
-  documents: {
-    businessLicense: boolean;
-    insuranceCertificate: boolean;
-    vehicleRegistrations: boolean;
-    driverLicenses: boolean;
-  };
-  operationalInfo?: {
-    yearsInOperation: number;
-    averageFleetAge: number;
-    maintenanceSchedule: string;
-    safetyRating?: number;
-  };
-}
+type Fleet = FleetCompany;
 
 export default function FleetProfilePage() {
   const { theme } = useTheme();
@@ -52,7 +26,7 @@ export default function FleetProfilePage() {
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
-  const [formData, setFormData] = useState({
+  const [formData, setFormData] = useState<FleetProfileUpdate>({
     contactPerson: '',
     phone: '',
     address: '',
@@ -144,19 +118,7 @@ export default function FleetProfilePage() {
   useEffect(() => {
     const loadProfile = async () => {
       try {
-        const token = localStorage.getItem('token');
-        const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/fleet/profile`, {
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json'
-          }
-        });
-
-        if (!response.ok) {
-          throw new Error('Failed to load fleet profile');
-        }
-
-        const data = await response.json();
+        const data = await apiClient.fleet.profile();
         setFleet(data.fleet);
         
         // Initialize form data
@@ -217,21 +179,7 @@ export default function FleetProfilePage() {
     setSuccess('');
 
     try {
-      const token = localStorage.getItem('token');
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/fleet/profile`, {
-        method: 'PUT',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(formData)
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to update profile');
-      }
-
-      const data = await response.json();
+      const data = await apiClient.fleet.updateProfile(formData);
       setFleet(data.fleet);
       setEditing(false);
       setSuccess('Profile updated successfully');
@@ -13,47 +13,8 @@ import {
   XCircleIcon,
   ExclamationTriangleIcon
 } from '@heroicons/react/24/outline';
-
-interface Route {
-  _id: string;
-  routeId: string;
-  name: string;
-  startLocation: {
-    name: string;
-    coordinates: [number, number];
-    address: string;
-  };
-  endLocation: {
-    name: string;
-    coordinates: [number, number];
-    address: string;
-  };
-  distance: number;
-  estimatedDuration: number;
-  status: 'active' | 'inactive' | 'maintenance';
-  avgRating: number;
-  totalReviews: number;
-  schedules: Array<{
-    departureTime: string;
-    arrivalTime: string;
-    frequency: number;
-    daysOfWeek: string[];
-    isActive: boolean;
-  }>;
-  pricing: {
-    basePrice: number;
-    pricePerKm: number;
-    discounts: Array<{
-      type: string;
-      percentage: number;
-    }>;
-  };
-  vehicleInfo: {
-    type: string;
-    capacity: number;
-    amenities: string[];
-  };
-}
+import { getApiBaseUrl } from '@/app/services/apiClient';
+import { decodeRoutes, type Route } from '@/app/domain';
 
 interface RouteStats {
   total: number;
@@ -157,7 +118,7 @@ export default function FleetRoutesPage() {
     const loadRoutes = async () => {
       try {
         const token = localStorage.getItem('token');
-        const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/fleet/routes`, {
+        const response = await fetch(`${getApiBaseUrl()}/api/fleet/routes`, {
           headers: {
             'Authorization': `Bearer ${token}`,
             'Content-Type': 'application/json'
@@ -169,7 +130,7 @@ export default function FleetRoutesPage() {
         }
 
         const data = await response.json();
-        setRoutes(data.routes || []);
+        setRoutes(decodeRoutes(data.routes || []));
         setStats(data.stats);
       } catch (error) {
         console.error('Load routes error:', error);
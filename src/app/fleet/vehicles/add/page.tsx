@@ -11,6 +11,7 @@ import {
   CheckCircleIcon,
   ArrowLeftIcon
 } from '@heroicons/react/24/outline';
+import { getApiBaseUrl } from '@/app/services/apiClient';
 
 interface VehicleFormData {
   vehicleNumber: string;
@@ -89,7 +90,7 @@ export default function AddVehiclePage() {
 
     try {
       const token = localStorage.getItem('token');
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/fleet/vehicles`, {
+      const response = await fetch(`${getApiBaseUrl()}/api/fleet/vehicles`, {
         method: 'POST',
         headers: {
           'Authorization': `Bearer ${token}`,
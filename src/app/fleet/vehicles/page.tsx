@@ -15,6 +15,7 @@ import {
   SignalIcon,
   Square3Stack3DIcon
 } from '@heroicons/react/24/outline';
+import { getApiBaseUrl } from '@/app/services/apiClient';
 
 interface Vehicle {
   _id: string;
@@ -54,7 +55,7 @@ export default function FleetVehiclesPage() {
     const loadVehicles = async () => {
       try {
         const token = localStorage.getItem('token');
-        const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/fleet/vehicles`, {
+        const response = await fetch(`${getApiBaseUrl()}/api/fleet/vehicles`, {
           headers: {
             'Authorization': `Bearer ${token}`,
             'Content-Type': 'application/json'
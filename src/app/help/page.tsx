@@ -1,68 +1,37 @@
 // src/app/help/page.tsx
 "use client";
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import styles from './help.module.css';
+import MarkdownContent from '@/app/components/MarkdownContent';
+import knowledgeBaseService from '@/app/services/knowledgeBaseService';
+import { ARTICLE_LANGUAGES, ARTICLE_LANGUAGE_LABELS, TICKET_CATEGORIES, TICKET_CATEGORY_LABELS } from '@/app/domain';
+import { useArticleLanguage, usePublishedArticles } from '@/app/hooks/useKnowledgeBase';
 
 export default function HelpPage() {
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedCategory, setSelectedCategory] = useState('all');
+  // Article linked from a suggestion (/help?article=slug), opened and scrolled to once loaded
+  const [linkedSlug, setLinkedSlug] = useState<string | null>(null);
+  const [language, setLanguage] = useArticleLanguage();
+  const { articles, error, isLoading } = usePublishedArticles();
 
+  useEffect(() => {
+    setLinkedSlug(new URLSearchParams(window.location.search).get('article'));
+  }, []);
+
+  useEffect(() => {
+    if (linkedSlug && articles.length) document.getElementById(`article-${linkedSlug}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [linkedSlug, articles.length]);
+
+  // Only categories that have articles get a button
   const categories = [
     { id: 'all', name: 'All Topics' },
-    { id: 'booking', name: 'Booking & Tickets' },
-    { id: 'tracking', name: 'Bus Tracking' },
-    { id: 'payment', name: 'Payments' },
-    { id: 'account', name: 'Account' },
-    { id: 'technical', name: 'Technical Issues' }
-  ];
-
-  const faqItems = [
-    {
-      id: 1,
-      category: 'tracking',
-      question: 'How do I track my bus in real-time?',
-      answer: 'Download our mobile app or visit our website. Enter your route number or search by destination to see live bus locations and arrival times.'
-    },
-    {
-      id: 2,
-      category: 'payment',
-      question: 'What payment methods do you accept?',
-      answer: 'We accept cash, credit/debit cards, mobile payments (PayHere, Dialog eZ Cash), and our digital wallet.'
-    },
-    {
-      id: 3,
-      category: 'booking',
-      question: 'How do I book a ticket?',
-      answer: 'You can book tickets through our mobile app, website, or at physical ticket counters. Online booking is available 24/7.'
-    },
-    {
-      id: 4,
-      category: 'account',
-      question: 'How do I reset my password?',
-      answer: 'Click "Forgot Password" on the login page, enter your email, and follow the OTP verification process.'
-    },
-    {
-      id: 5,
-      category: 'technical',
-      question: 'The app is not working properly',
-      answer: 'Try clearing app cache, updating to the latest version, or restarting your device. Contact support if issues persist.'
-    },
-    {
-      id: 6,
-      category: 'booking',
-      question: 'Can I cancel or modify my booking?',
-      answer: 'Yes, you can cancel or modify bookings up to 30 minutes before departure time through the app or website.'
-    }
+    ...TICKET_CATEGORIES.filter(category => articles.some(article => article.category === category)).map(category => ({ id: category, name: TICKET_CATEGORY_LABELS[category] })),
   ];
 
-  const filteredFAQs = faqItems.filter(item => {
-    const matchesCategory = selectedCategory === 'all' || item.category === selectedCategory;
-    const matchesSearch = item.question.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                         item.answer.toLowerCase().includes(searchQuery.toLowerCase());
-    return matchesCategory && matchesSearch;
-  });
+  const results = knowledgeBaseService.search(articles, searchQuery, { language, category: selectedCategory === 'all' ? undefined : selectedCategory });
 
   return (
     <div className={styles.helpPageContainer}>
@@ -407,6 +376,19 @@ export default function HelpPage() {
             className={`${styles.searchInput} ${styles.inputFocus}`}
           />
 
+          {/* Language */}
+          <div className={styles.languageContainer}>
+            {ARTICLE_LANGUAGES.map(lang => (
+              <button
+                key={lang}
+                onClick={() => setLanguage(lang)}
+                className={`${styles.languageButton} ${language === lang ? styles.active : ''}`}
+              >
+                {ARTICLE_LANGUAGE_LABELS[lang]}
+              </button>
+            ))}
+          </div>
+
           {/* Categories */}
           <div className={styles.categoriesContainer}>
             {categories.map(category => (
@@ -420,23 +402,35 @@ export default function HelpPage() {
             ))}
           </div>
 
-          {/* FAQ Items */}
+          {/* Articles */}
           <div>
-            {filteredFAQs.map(item => (
-              <details key={item.id} className={styles.faqItem}>
+            {results.map(({ article, localized, excerpt }) => (
+              <details key={article._id} id={`article-${article.slug}`} open={article.slug === linkedSlug || undefined} className={styles.faqItem}>
                 <summary className={styles.faqQuestion}>
-                  {item.question}
+                  <span>
+                    {localized.title}
+                    {searchQuery && <span className={styles.articleExcerpt}>{excerpt}</span>}
+                  </span>
                 </summary>
                 <div className={styles.faqAnswer}>
-                  {item.answer}
+                  {localized.language !== language && (
+                    <p className={styles.articleFallbackNote}>Not yet available in {ARTICLE_LANGUAGE_LABELS[language]}; showing {ARTICLE_LANGUAGE_LABELS[localized.language]}.</p>
+                  )}
+                  <MarkdownContent markdown={localized.body} linkColor="#D97706" />
                 </div>
               </details>
             ))}
           </div>
 
-          {filteredFAQs.length === 0 && (
+          {isLoading && (
+            <div className={styles.noResults}>
+              Loading help articles...
+            </div>
+          )}
+
+          {!isLoading && results.length === 0 && (
             <div className={styles.noResults}>
-              No help articles found. Try a different search term or category.
+              {error ? 'Help articles could not be loaded. Please try again shortly.' : 'No help articles found. Try a different search term or category.'}
             </div>
           )}
         </main>
@@ -0,0 +1,43 @@
+// hooks/useArrivalPredictions.ts
+import { useCallback, useMemo, useRef } from 'react';
+import etaService, { type SpeedSample, type VehiclePrediction } from '@/app/services/etaService';
+import routeGeometryService from '@/app/services/routeGeometryService';
+import vehicleQualityService from '@/app/services/vehicleQualityService';
+import type { Route, VehicleLocation } from '@/app/domain';
+
+// Predicted arrivals for every tracked vehicle on a known route. Each poll of `vehicles` adds to the
+// vehicles' speed history, so predictions firm up the longer the page is open.
+export function useArrivalPredictions(vehicles: VehicleLocation[], routes: Route[]) {
+  const histories = useRef(new Map<string, SpeedSample[]>());
+
+  const geometries = useMemo(() => routes.map(route => routeGeometryService.build(route)).filter(geometry => geometry.path.length > 1), [routes]);
+  const geometryByRoute = useMemo(() => routeGeometryService.index(geometries), [geometries]);
+  const durations = useMemo(() => new Map(routes.map(route => [route._id, route.estimatedDuration])), [routes]);
+  const boardStops = useMemo(() => etaService.boardStops(geometries), [geometries]);
+
+  const predictions = useMemo(() => {
+    const now = Date.now();
+    const byVehicle = new Map<string, VehiclePrediction>();
+    vehicles.forEach(vehicle => {
+      const geometry = vehicle.routeId ? geometryByRoute.get(vehicle.routeId) : undefined;
+      if (!geometry || !vehicleQualityService.hasPosition(vehicle)) return;
+      const projection = routeGeometryService.project(geometry, [vehicle.location.latitude, vehicle.location.longitude]);
+      if (!projection) return;
+      const at = vehicle.timestamp ? new Date(vehicle.timestamp).getTime() : now;
+      const previous = histories.current.get(vehicle.vehicleId) || [];
+      const direction = etaService.travelDirection(previous, projection, at, vehicle.location.heading);
+      const history = etaService.appendSample(previous, { at, distanceAlong: projection.distanceAlong, direction, reportedSpeed: vehicle.location.speed });
+      histories.current.set(vehicle.vehicleId, history);
+      const prediction = etaService.predict(vehicle, geometry, durations.get(geometry.id) || 0, history, now);
+      if (prediction) byVehicle.set(vehicle.vehicleId, prediction);
+    });
+    return byVehicle;
+  }, [vehicles, geometryByRoute, durations]);
+
+  const departures = useCallback(
+    (stopKey: string, limit?: number) => etaService.departures(Array.from(predictions.values()), stopKey, vehicles, limit),
+    [predictions, vehicles]
+  );
+
+  return { predictions, boardStops, departures };
+}
@@ -1,5 +1,7 @@
 // hooks/useCSWebSocket.ts
-import { useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { io, Socket } from 'socket.io-client';
+import { getApiBaseUrl } from '@/app/services/apiClient';
 
 // Define specific data types for different message types
 interface NewChatData {
@@ -31,8 +33,10 @@ interface TicketUpdateData {
 
 interface AgentStatusData {
   agentId: string;
-  status: 'online' | 'offline' | 'busy';
+  status: 'online' | 'offline' | 'busy' | 'away';
   timestamp: string;
+  activeChats?: number;
+  maxConcurrentChats?: number;
 }
 
 // Union type for all possible message data
@@ -47,6 +51,8 @@ interface WebSocketMessage {
   type: 'new_chat' | 'new_ticket' | 'chat_message' | 'ticket_update' | 'agent_status';
   data: WebSocketMessageData;
   timestamp: string;
+  // Server-assigned event id; used to ask for missed events after a reconnect and to drop duplicates
+  id?: string;
 }
 
 // Type for outgoing messages
@@ -56,105 +62,129 @@ interface OutgoingMessage {
   timestamp?: string;
 }
 
+type MessageListener = (message: WebSocketMessage) => void;
+
+const MESSAGE_TYPES: WebSocketMessage['type'][] = ['new_chat', 'new_ticket', 'chat_message', 'ticket_update', 'agent_status'];
+
+// Reconnect backoff: 1s doubling up to 30s, with jitter so agents don't all reconnect at once after an outage
+const RECONNECT_DELAY_MS = 1000;
+const RECONNECT_DELAY_MAX_MS = 30000;
+const RECONNECT_JITTER = 0.5;
+const REPLAY_TIMEOUT_MS = 10000;
+// Recent event ids kept to drop events that arrive both live and in a replay
+const SEEN_EVENT_LIMIT = 500;
+
 export function useCSWebSocket() {
   const [connected, setConnected] = useState(false);
+  const [connectionError, setConnectionError] = useState<string | null>(null);
   const [lastMessage, setLastMessage] = useState<WebSocketMessage | null>(null);
-  const wsRef = useRef<WebSocket | null>(null);
+  const socketRef = useRef<Socket | null>(null);
+  const listenersRef = useRef(new Set<MessageListener>());
+  const lastEventRef = useRef<{ id?: string; timestamp?: string }>({});
+  const seenEventIdsRef = useRef<string[]>([]);
 
   useEffect(() => {
     const token = localStorage.getItem('cs_token');
     if (!token) return;
 
-    // For now, we'll simulate WebSocket connection
-    // Replace this with actual WebSocket implementation when your backend supports it
-    const simulateConnection = () => {
-      setConnected(true);
-      console.log('CS WebSocket simulated connection');
-
-      // Simulate periodic messages
-      const interval = setInterval(() => {
-        const mockMessages: WebSocketMessage[] = [
-          {
-            type: 'new_ticket',
-            data: { ticketId: 'TKT' + Date.now(), priority: 'medium' } as NewTicketData,
-            timestamp: new Date().toISOString()
-          },
-          {
-            type: 'chat_message',
-            data: { 
-              sessionId: 'CH' + Date.now(), 
-              message: 'Hello!', 
-              senderId: 'user123',
-              senderType: 'user'
-            } as ChatMessageData,
-            timestamp: new Date().toISOString()
-          }
-        ];
-
-        const randomMessage = mockMessages[Math.floor(Math.random() * mockMessages.length)];
-        setLastMessage(randomMessage);
-      }, 60000); // Every minute
-
-      return () => {
-        clearInterval(interval);
-        setConnected(false);
-        console.log('CS WebSocket simulated disconnection');
-      };
+    const socket = io(`${process.env.NEXT_PUBLIC_WS_URL || getApiBaseUrl()}/cs`, {
+      auth: { token },
+      transports: ['websocket', 'polling'],
+      reconnection: true,
+      reconnectionDelay: RECONNECT_DELAY_MS,
+      reconnectionDelayMax: RECONNECT_DELAY_MAX_MS,
+      randomizationFactor: RECONNECT_JITTER,
+    });
+    socketRef.current = socket;
+    let hasConnected = false;
+
+    const deliver = (message: WebSocketMessage) => {
+      if (message.id) {
+        if (seenEventIdsRef.current.includes(message.id)) return;
+        seenEventIdsRef.current = [...seenEventIdsRef.current.slice(1 - SEEN_EVENT_LIMIT), message.id];
+      }
+      lastEventRef.current = { id: message.id ?? lastEventRef.current.id, timestamp: message.timestamp };
+      setLastMessage(message);
+      listenersRef.current.forEach(listener => listener(message));
     };
 
-    const cleanup = simulateConnection();
+    MESSAGE_TYPES.forEach(type => {
+      socket.on(type, (payload: Omit<WebSocketMessage, 'type'>) => {
+        deliver({ ...payload, type, timestamp: payload.timestamp || new Date().toISOString() });
+      });
+    });
 
-    // Uncomment this when you have actual WebSocket support:
-    /*
-    const wsUrl = process.env.NEXT_PUBLIC_WS_URL || 'ws://localhost:5000';
-    const ws = new WebSocket(`${wsUrl}/cs?token=${token}`);
-    
-    ws.onopen = () => {
+    socket.on('connect', () => {
       setConnected(true);
-      console.log('CS WebSocket connected');
-    };
-
-    ws.onmessage = (event) => {
-      try {
-        const message: WebSocketMessage = JSON.parse(event.data);
-        setLastMessage(message);
-      } catch (error) {
-        console.error('Failed to parse WebSocket message:', error);
+      setConnectionError(null);
+      // socket.io restores the missed packets itself when the server has connection state recovery enabled;
+      // otherwise ask the server for everything after the last event this console saw
+      const { id, timestamp } = lastEventRef.current;
+      if (hasConnected && !socket.recovered && (id || timestamp)) {
+        socket.timeout(REPLAY_TIMEOUT_MS).emit('replay', { sinceId: id, since: timestamp }, (error: Error | null, events?: WebSocketMessage[]) => {
+          if (error) {
+            console.error('CS WebSocket replay failed:', error);
+            return;
+          }
+          (events || []).forEach(deliver);
+        });
       }
-    };
+      hasConnected = true;
+    });
 
-    ws.onclose = () => {
+    socket.on('disconnect', () => {
       setConnected(false);
-      console.log('CS WebSocket disconnected');
-    };
+    });
 
-    ws.onerror = (error) => {
-      console.error('CS WebSocket error:', error);
+    socket.on('connect_error', (error) => {
       setConnected(false);
-    };
-
-    wsRef.current = ws;
+      setConnectionError(error.message);
+      console.error('CS WebSocket connection error:', error.message);
+    });
 
     return () => {
-      ws.close();
+      socket.removeAllListeners();
+      socket.disconnect();
+      socketRef.current = null;
+      setConnected(false);
     };
-    */
-
-    return cleanup;
   }, []);
 
-  const sendMessage = (message: OutgoingMessage) => {
-    if (wsRef.current?.readyState === WebSocket.OPEN) {
-      wsRef.current.send(JSON.stringify(message));
-    } else {
-      // Simulate sending message
-      console.log('Simulated WebSocket send:', message);
+  // Emitted as `{ data, timestamp }` under the message type; while reconnecting, socket.io buffers it
+  // and sends it as soon as the connection is back
+  const sendMessage = useCallback((message: OutgoingMessage) => {
+    const socket = socketRef.current;
+    if (!socket) {
+      console.warn('CS WebSocket is not connected; message not sent:', message.type);
+      return false;
     }
-  };
+    socket.emit(message.type, { data: message.data, timestamp: message.timestamp || new Date().toISOString() });
+    return true;
+  }, []);
+
+  // Every message, in order. `lastMessage` only shows the newest one when several arrive together (e.g. a replay).
+  const subscribe = useCallback((listener: MessageListener) => {
+    listenersRef.current.add(listener);
+    return () => {
+      listenersRef.current.delete(listener);
+    };
+  }, []);
 
   return {
     connected,
+    connectionError,
     lastMessage,
-    sendMessage
+    sendMessage,
+    subscribe
   };
-}
\ No newline at end of file
+}
+
+export type {
+  NewChatData,
+  NewTicketData,
+  ChatMessageData,
+  TicketUpdateData,
+  AgentStatusData,
+  WebSocketMessage,
+  OutgoingMessage,
+};
@@ -0,0 +1,261 @@
+// hooks/useChatChannel.ts
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { io, Socket } from 'socket.io-client';
+import { getApiBaseUrl } from '@/app/services/apiClient';
+
+// Which side of the conversation this client is
+type ChatParticipant = 'customer' | 'agent';
+type ReceiptStatus = 'delivered' | 'read';
+type AgentPresenceStatus = 'online' | 'busy' | 'away' | 'offline';
+
+interface ChatMessageEvent<TMessage> {
+  sessionId: string;
+  messageId: string;
+  from: ChatParticipant | 'ai' | 'system';
+  message: TMessage;
+  // Echo of the id the sender attached to its POST, so it can swap its optimistic copy for the stored one
+  clientMessageId?: string;
+}
+
+interface ChatTypingEvent {
+  sessionId: string;
+  from: ChatParticipant;
+  isTyping: boolean;
+}
+
+interface ChatReceiptEvent {
+  sessionId: string;
+  messageIds: string[];
+  status: ReceiptStatus;
+  by: ChatParticipant;
+}
+
+interface AgentPresence {
+  id?: string;
+  name?: string;
+  status: AgentPresenceStatus;
+}
+
+interface ChatPresenceEvent {
+  sessionId: string;
+  agent: AgentPresence | null;
+}
+
+interface ChatStatusEvent {
+  sessionId: string;
+  status: string;
+  assignedAgent?: { id?: string; name: string };
+}
+
+interface ChatChannelOptions<TMessage> {
+  onMessage?: (message: TMessage, clientMessageId?: string) => void;
+  onStatus?: (update: ChatStatusEvent) => void;
+}
+
+const RECONNECT_DELAY_MS = 1000;
+const RECONNECT_DELAY_MAX_MS = 30000;
+const RECONNECT_JITTER = 0.5;
+// A typing indicator is dropped if the other side goes quiet without saying it stopped (e.g. closed the tab)
+const REMOTE_TYPING_TIMEOUT_MS = 6000;
+// Our own "typing" state ends after this long without a keystroke
+const TYPING_IDLE_MS = 3000;
+
+const RECEIPT_RANK: Record<ReceiptStatus, number> = { delivered: 1, read: 2 };
+
+// Live channel for one chat session: messages, typing, delivered/read receipts and the assigned agent's
+// presence. `connected` is false while the socket is down so callers can fall back to polling the REST API.
+export function useChatChannel<TMessage>(sessionId: string | null, as: ChatParticipant, options: ChatChannelOptions<TMessage> = {}) {
+  const [connected, setConnected] = useState(false);
+  const [remoteTyping, setRemoteTyping] = useState(false);
+  const [receipts, setReceipts] = useState<Record<string, ReceiptStatus>>({});
+  const [agentPresence, setAgentPresence] = useState<AgentPresence | null>(null);
+  const socketRef = useRef<Socket | null>(null);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const sessionIdRef = useRef(sessionId);
+  sessionIdRef.current = sessionId;
+  const remoteTypingTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const typingIdleTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const isTypingRef = useRef(false);
+  const markedReadRef = useRef(new Set<string>());
+  const pendingReadRef = useRef(new Set<string>());
+  const hasSession = sessionId !== null;
+
+  const clearRemoteTyping = useCallback(() => {
+    if (remoteTypingTimerRef.current) clearTimeout(remoteTypingTimerRef.current);
+    remoteTypingTimerRef.current = null;
+    setRemoteTyping(false);
+  }, []);
+
+  // One socket per widget/console, opened once there is a session to join; switching sessions only changes rooms
+  useEffect(() => {
+    if (!hasSession) return;
+    // Agents must be signed in; customers may be guests, in which case the server authorises by session
+    const token = localStorage.getItem(as === 'agent' ? 'cs_token' : 'token');
+    if (as === 'agent' && !token) return;
+
+    const socket = io(`${process.env.NEXT_PUBLIC_WS_URL || getApiBaseUrl()}/chat`, {
+      auth: { token, role: as },
+      transports: ['websocket', 'polling'],
+      reconnection: true,
+      reconnectionDelay: RECONNECT_DELAY_MS,
+      reconnectionDelayMax: RECONNECT_DELAY_MAX_MS,
+      randomizationFactor: RECONNECT_JITTER,
+    });
+    socketRef.current = socket;
+    const isCurrentSession = (event: { sessionId: string }) => event.sessionId === sessionIdRef.current;
+
+    socket.on('connect', () => setConnected(true));
+    socket.on('disconnect', () => setConnected(false));
+    socket.on('connect_error', (error) => {
+      setConnected(false);
+      console.error('Chat channel connection error:', error.message);
+    });
+
+    socket.on('chat:message', (event: ChatMessageEvent<TMessage>) => {
+      if (!isCurrentSession(event)) return;
+      if (event.from !== as) {
+        clearRemoteTyping();
+        socket.emit('chat:receipt', { sessionId: event.sessionId, messageIds: [event.messageId], status: 'delivered' });
+      }
+      optionsRef.current.onMessage?.(event.message, event.clientMessageId);
+    });
+
+    socket.on('chat:typing', (event: ChatTypingEvent) => {
+      if (!isCurrentSession(event) || event.from === as) return;
+      if (remoteTypingTimerRef.current) clearTimeout(remoteTypingTimerRef.current);
+      remoteTypingTimerRef.current = event.isTyping ? setTimeout(clearRemoteTyping, REMOTE_TYPING_TIMEOUT_MS) : null;
+      setRemoteTyping(event.isTyping);
+    });
+
+    socket.on('chat:receipt', (event: ChatReceiptEvent) => {
+      if (!isCurrentSession(event) || event.by === as) return;
+      // Receipts can arrive out of order; a message that was read never goes back to delivered
+      setReceipts(prev => {
+        const next = { ...prev };
+        event.messageIds.forEach(id => {
+          if (!next[id] || RECEIPT_RANK[event.status] > RECEIPT_RANK[next[id]]) next[id] = event.status;
+        });
+        return next;
+      });
+    });
+
+    socket.on('chat:presence', (event: ChatPresenceEvent) => {
+      if (isCurrentSession(event)) setAgentPresence(event.agent);
+    });
+
+    socket.on('chat:status', (event: ChatStatusEvent) => {
+      if (isCurrentSession(event)) optionsRef.current.onStatus?.(event);
+    });
+
+    return () => {
+      socket.removeAllListeners();
+      socket.disconnect();
+      socketRef.current = null;
+      setConnected(false);
+    };
+  }, [as, hasSession, clearRemoteTyping]);
+
+  // (Re)join the room on every connect, since the server forgets rooms when the socket drops
+  useEffect(() => {
+    const socket = socketRef.current;
+    if (!socket || !connected || !sessionId) return;
+    socket.emit('chat:join', { sessionId }, (response?: { agent?: AgentPresence | null }) => {
+      if (response?.agent !== undefined && sessionIdRef.current === sessionId) setAgentPresence(response.agent);
+    });
+    return () => {
+      socket.emit('chat:leave', { sessionId });
+    };
+  }, [sessionId, connected]);
+
+  // Per-session state starts over when switching to another chat
+  useEffect(() => {
+    setReceipts({});
+    setAgentPresence(null);
+    clearRemoteTyping();
+    markedReadRef.current = new Set();
+    pendingReadRef.current = new Set();
+    isTypingRef.current = false;
+    if (typingIdleTimerRef.current) clearTimeout(typingIdleTimerRef.current);
+  }, [sessionId, clearRemoteTyping]);
+
+  useEffect(() => () => {
+    if (remoteTypingTimerRef.current) clearTimeout(remoteTypingTimerRef.current);
+    if (typingIdleTimerRef.current) clearTimeout(typingIdleTimerRef.current);
+  }, []);
+
+  const emitTyping = useCallback((isTyping: boolean) => {
+    isTypingRef.current = isTyping;
+    const currentSessionId = sessionIdRef.current;
+    if (currentSessionId) socketRef.current?.emit('chat:typing', { sessionId: currentSessionId, isTyping });
+  }, []);
+
+  // Call on every keystroke; the "started" event goes out once and "stopped" follows after a pause
+  const notifyTyping = useCallback(() => {
+    if (!isTypingRef.current) emitTyping(true);
+    if (typingIdleTimerRef.current) clearTimeout(typingIdleTimerRef.current);
+    typingIdleTimerRef.current = setTimeout(() => emitTyping(false), TYPING_IDLE_MS);
+  }, [emitTyping]);
+
+  const stopTyping = useCallback(() => {
+    if (typingIdleTimerRef.current) clearTimeout(typingIdleTimerRef.current);
+    if (isTypingRef.current) emitTyping(false);
+  }, [emitTyping]);
+
+  const flushReadReceipts = useCallback(() => {
+    const currentSessionId = sessionIdRef.current;
+    const socket = socketRef.current;
+    if (!currentSessionId || !socket?.connected || pendingReadRef.current.size === 0) return;
+    const messageIds = Array.from(pendingReadRef.current);
+    pendingReadRef.current = new Set();
+    messageIds.forEach(id => markedReadRef.current.add(id));
+    socket.emit('chat:receipt', { sessionId: currentSessionId, messageIds, status: 'read' });
+  }, []);
+
+  // Messages only count as read while the page is actually visible; ids already reported are skipped
+  const markRead = useCallback((messageIds: string[]) => {
+    messageIds.filter(id => !markedReadRef.current.has(id)).forEach(id => pendingReadRef.current.add(id));
+    if (document.visibilityState === 'visible') flushReadReceipts();
+  }, [flushReadReceipts]);
+
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') flushReadReceipts();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [flushReadReceipts]);
+
+  // Receipts queued while offline go out once the room is joined again
+  useEffect(() => {
+    if (connected && document.visibilityState === 'visible') flushReadReceipts();
+  }, [connected, flushReadReceipts]);
+
+  // Agents only: tells customers in the agent's chats whether they are available
+  const setPresence = useCallback((status: AgentPresenceStatus) => {
+    socketRef.current?.emit('chat:presence', { status });
+  }, []);
+
+  return {
+    connected,
+    remoteTyping,
+    receipts,
+    agentPresence,
+    notifyTyping,
+    stopTyping,
+    markRead,
+    setPresence,
+  };
+}
+
+export type {
+  ChatParticipant,
+  ReceiptStatus,
+  AgentPresence,
+  AgentPresenceStatus,
+  ChatMessageEvent,
+  ChatTypingEvent,
+  ChatReceiptEvent,
+  ChatPresenceEvent,
+  ChatStatusEvent,
+};
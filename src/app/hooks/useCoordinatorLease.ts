@@ -0,0 +1,53 @@
+// hooks/useCoordinatorLease.ts
+import { useEffect, useState } from 'react';
+import apiClient, { type CoordinatedJob, type CoordinatorLease } from '@/app/services/apiClient';
+
+// Renewed well inside the lease, so one slow or lost request does not hand the job on
+const LEASE_TTL_SECONDS = 30;
+const LEASE_RENEW_MS = 10000;
+
+const newConsoleId = () => `console_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 10)}`;
+
+// Whether this console runs `job` for the whole team. Every open console claims the lease, whatever
+// its agent's status; the server keeps it with one of them and moves it on when that console goes away.
+export function useCoordinatorLease(job: CoordinatedJob, enabled: boolean = true) {
+  const [consoleId] = useState(newConsoleId);
+  const [lease, setLease] = useState<CoordinatorLease | null>(null);
+
+  useEffect(() => {
+    if (!enabled) {
+      setLease(null);
+      return;
+    }
+    let cancelled = false;
+    const claim = () => apiClient.cs.coordination.claim(job, consoleId, LEASE_TTL_SECONDS)
+      .then(response => {
+        if (!cancelled) setLease(response.data.lease || null);
+      })
+      .catch(error => {
+        // Without a confirmed lease this console stops acting; another one takes over when ours lapses
+        if (!cancelled) setLease(null);
+        console.error(`Failed to claim the ${job} lease:`, error);
+      });
+    // Closing the tab hands the job on at once instead of after the lease runs out
+    const release = () => {
+      apiClient.cs.coordination.release(job, consoleId).catch(() => undefined);
+    };
+
+    claim();
+    const interval = setInterval(claim, LEASE_RENEW_MS);
+    window.addEventListener('pagehide', release);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+      window.removeEventListener('pagehide', release);
+      release();
+    };
+  }, [job, consoleId, enabled]);
+
+  return {
+    isCoordinator: !!lease && lease.consoleId === consoleId,
+    // The agent whose console holds the lease, if any
+    holderAgentId: lease?.agentId ?? null,
+  };
+}
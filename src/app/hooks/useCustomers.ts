@@ -0,0 +1,43 @@
+// hooks/useCustomers.ts
+import { useEffect, useState } from 'react';
+import apiClient from '@/app/services/apiClient';
+import { cacheKey } from '@/app/services/requestCache';
+import customerService, { type CustomerProfile, type CustomerSummary } from '@/app/services/customerService';
+import { useResource } from '@/app/hooks/useResource';
+
+const SEARCH_DEBOUNCE_MS = 300;
+const PROFILE_STALE_TIME_MS = 60000;
+
+// Customers matching `query` by name, email, phone, NIC or booking ID, once typing pauses
+export function useCustomerSearch(query: string) {
+  const [debouncedQuery, setDebouncedQuery] = useState(query.trim());
+
+  useEffect(() => {
+    const handler = setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(handler);
+  }, [query]);
+
+  const field = customerService.classifyQuery(debouncedQuery);
+  const searchable = customerService.isSearchable(debouncedQuery);
+  const search = useResource<CustomerSummary[]>(
+    searchable ? cacheKey('/cs/customers/search', { q: debouncedQuery, field }) : null,
+    () => apiClient.cs.customers.search(debouncedQuery, field).then(response => response.data.customers || [])
+  );
+
+  return {
+    customers: searchable ? search.data || [] : [],
+    field,
+    isSearching: search.isLoading || (query.trim() !== debouncedQuery && customerService.isSearchable(query)),
+    error: search.error,
+  };
+}
+
+// Everything support needs about one customer: bookings, payments, refunds, past tickets and chats
+export function useCustomerProfile(customerId: string | null) {
+  const profile = useResource<CustomerProfile>(
+    customerId ? `/cs/customers/${customerId}/profile` : null,
+    () => apiClient.cs.customers.profile(customerId!).then(response => response.data),
+    { staleTime: PROFILE_STALE_TIME_MS }
+  );
+  return { profile: profile.data, isLoading: profile.isLoading, error: profile.error, refresh: profile.refresh };
+}
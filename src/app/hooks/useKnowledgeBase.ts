@@ -0,0 +1,68 @@
+// hooks/useKnowledgeBase.ts
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import apiClient from '@/app/services/apiClient';
+import { cacheKey } from '@/app/services/requestCache';
+import knowledgeBaseService from '@/app/services/knowledgeBaseService';
+import { ARTICLE_LANGUAGES, type Article, type ArticleDraft, type ArticleLanguage } from '@/app/domain';
+import { useResource } from '@/app/hooks/useResource';
+
+const ARTICLES_STALE_TIME_MS = 5 * 60000;
+// Wait for a pause in typing before suggesting articles
+const SUGGESTION_DEBOUNCE_MS = 300;
+const LANGUAGE_STORAGE_KEY = 'kb_language';
+
+export function usePublishedArticles() {
+  const articles = useResource<Article[]>(
+    cacheKey('/cs/kb/articles', { status: 'published' }),
+    () => apiClient.support.articles.list().then(response => response.data.articles),
+    { staleTime: ARTICLES_STALE_TIME_MS }
+  );
+  return { articles: articles.data || [], error: articles.error, isLoading: articles.isLoading };
+}
+
+// The language a passenger reads help articles in, remembered on this device
+export function useArticleLanguage() {
+  const [language, setLanguageState] = useState<ArticleLanguage>('en');
+
+  useEffect(() => {
+    const stored = localStorage.getItem(LANGUAGE_STORAGE_KEY);
+    if ((ARTICLE_LANGUAGES as readonly string[]).includes(stored || '')) setLanguageState(stored as ArticleLanguage);
+  }, []);
+
+  const setLanguage = useCallback((next: ArticleLanguage) => {
+    localStorage.setItem(LANGUAGE_STORAGE_KEY, next);
+    setLanguageState(next);
+  }, []);
+
+  return [language, setLanguage] as const;
+}
+
+// Articles that may answer what the passenger is typing, before they open a chat or a ticket
+export function useArticleSuggestions(text: string, language: ArticleLanguage, category?: string) {
+  const { articles } = usePublishedArticles();
+  const [debounced, setDebounced] = useState(text);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebounced(text), SUGGESTION_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [text]);
+
+  return useMemo(() => knowledgeBaseService.suggest(articles, debounced, language, category), [articles, debounced, language, category]);
+}
+
+// Every article, drafts included, for agents writing the knowledge base
+export function useArticleAuthoring(enabled: boolean) {
+  const list = useResource<Article[]>(
+    enabled ? '/cs/kb/articles' : null,
+    () => apiClient.cs.articles.list().then(response => response.data.articles)
+  );
+
+  const saveArticle = useCallback(async (draft: ArticleDraft, id?: string) => {
+    const body = knowledgeBaseService.cleanDraft(draft);
+    const response = id ? await apiClient.cs.articles.update(id, body) : await apiClient.cs.articles.create(body);
+    return response.data.article;
+  }, []);
+  const deleteArticle = useCallback((id: string) => apiClient.cs.articles.remove(id).then(() => undefined), []);
+
+  return { articles: list.data || [], error: list.error, isLoading: list.isLoading, refresh: list.refresh, saveArticle, deleteArticle };
+}
@@ -0,0 +1,85 @@
+// hooks/useMacros.ts
+import { useState, type KeyboardEvent } from 'react';
+import apiClient from '@/app/services/apiClient';
+import macroService, { DEFAULT_MACROS, type Macro, type MacroActions, type MacroContext } from '@/app/services/macroService';
+import { useResource } from '@/app/hooks/useResource';
+
+// A slash command is a "/" at the start of the text or after a space, followed by the word being typed
+const SLASH_COMMAND_PATTERN = /(^|\s)\/([\w-]*)$/;
+const MACRO_STALE_TIME_MS = 5 * 60000;
+
+// Built-in macros plus the team's own. The built-ins are served until (or if) the server list loads.
+export function useMacroLibrary() {
+  const library = useResource<Macro[]>(
+    '/cs/macros',
+    () => apiClient.cs.macros.list().then(response => macroService.merge(response.data.macros || [])),
+    { staleTime: MACRO_STALE_TIME_MS }
+  );
+  return { macros: library.data || DEFAULT_MACROS, isLoading: library.isLoading };
+}
+
+interface SlashMacroOptions {
+  value: string;
+  onChange: (value: string) => void;
+  macros: Macro[];
+  context: MacroContext;
+  // Called with the macro's status/priority changes, where the editor belongs to something that has them.
+  // The caller holds on to them and saves them with the text, so a macro that is never sent changes nothing.
+  onActions?: (actions: MacroActions, macro: Macro) => void;
+}
+
+// Slash-command insertion for a text box: typing "/ref" offers matching macros, and picking one
+// replaces the command with the rendered text
+export function useSlashMacros({ value, onChange, macros, context, onActions }: SlashMacroOptions) {
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [dismissedFor, setDismissedFor] = useState<string | null>(null);
+  const [missing, setMissing] = useState<string[]>([]);
+
+  const command = SLASH_COMMAND_PATTERN.exec(value);
+  const suggestions = command && dismissedFor !== value ? macroService.search(macros, command[2]) : [];
+  const selectedIndex = Math.min(activeIndex, Math.max(0, suggestions.length - 1));
+
+  // Also used by the macro library, where there is no slash command to replace
+  const insert = (macro: Macro) => {
+    const rendered = macroService.render(macro, context);
+    const current = SLASH_COMMAND_PATTERN.exec(value);
+    const before = current ? value.slice(0, current.index + current[1].length) : value && !value.endsWith(' ') ? `${value} ` : value;
+    onChange(before + rendered.text);
+    setMissing(rendered.missing);
+    setActiveIndex(0);
+    if (macro.actions && onActions) onActions(macro.actions, macro);
+  };
+
+  // Returns true when the key was used to drive the suggestion list, so the caller skips its own handling
+  const handleKeyDown = (event: KeyboardEvent): boolean => {
+    if (suggestions.length === 0) return false;
+    switch (event.key) {
+      case 'ArrowDown':
+        setActiveIndex((selectedIndex + 1) % suggestions.length);
+        break;
+      case 'ArrowUp':
+        setActiveIndex((selectedIndex - 1 + suggestions.length) % suggestions.length);
+        break;
+      case 'Enter':
+      case 'Tab':
+        insert(suggestions[selectedIndex]);
+        break;
+      case 'Escape':
+        setDismissedFor(value);
+        break;
+      default:
+        return false;
+    }
+    event.preventDefault();
+    return true;
+  };
+
+  return {
+    suggestions,
+    activeIndex: selectedIndex,
+    missing,
+    insert,
+    handleKeyDown,
+    clearMissing: () => setMissing([]),
+  };
+}
@@ -0,0 +1,82 @@
+// hooks/useReplySuggestions.ts
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import apiClient from '@/app/services/apiClient';
+import { cacheKey } from '@/app/services/requestCache';
+import replySuggestionService, { localSuggestionProvider, type ReplyContext, type ReplySuggestionProvider } from '@/app/services/replySuggestionService';
+import type { ReplySuggestion, SuggestionOutcome } from '@/app/domain';
+import { useResource } from '@/app/hooks/useResource';
+
+const remoteSuggestionProvider: ReplySuggestionProvider = {
+  name: 'remote',
+  suggest: context => {
+    const request = replySuggestionService.buildRequest(context);
+    return apiClient.cs.ai.suggestions(request.message, request.context).then(response => response.data.suggestions);
+  },
+};
+
+// NEXT_PUBLIC_REPLY_SUGGESTIONS=local or =remote picks a provider; left unset, development gets the
+// deterministic stand-in and production the model
+const PROVIDER_SETTING = process.env.NEXT_PUBLIC_REPLY_SUGGESTIONS;
+const provider = PROVIDER_SETTING === 'local' || (!PROVIDER_SETTING && process.env.NODE_ENV === 'development') ? localSuggestionProvider : remoteSuggestionProvider;
+
+// Suggested replies to the customer's latest message, refreshed each time they write again. Every
+// suggestion shown, inserted, sent or dismissed is logged so acceptance can be compared across providers.
+export function useReplySuggestions(context: ReplyContext | null) {
+  const [dismissed, setDismissed] = useState<Set<string>>(() => new Set());
+  const contextRef = useRef(context);
+  contextRef.current = context;
+  const inserted = useRef<ReplySuggestion | null>(null);
+  const logged = useRef<Set<string>>(new Set());
+
+  const customerTurns = context ? context.history.filter(turn => turn.from === 'customer').length : 0;
+  const suggestions = useResource<ReplySuggestion[]>(
+    context && customerTurns > 0 ? cacheKey('/cs/ai/suggestions', { channel: context.channel, id: context.referenceId, turns: customerTurns, articles: context.articles.length }) : null,
+    () => contextRef.current ? provider.suggest(contextRef.current) : Promise.resolve([])
+  );
+
+  const log = useCallback((suggestion: ReplySuggestion, outcome: SuggestionOutcome, similarity?: number) => {
+    const current = contextRef.current;
+    if (!current) return;
+    apiClient.cs.ai.feedback({ suggestionId: suggestion.id, provider: suggestion.provider, channel: current.channel, referenceId: current.referenceId, outcome, similarity })
+      .catch(error => console.warn('Failed to log suggestion feedback:', error));
+  }, []);
+
+  const referenceId = context?.referenceId;
+  useEffect(() => {
+    setDismissed(new Set());
+    inserted.current = null;
+  }, [referenceId]);
+
+  const visible = useMemo(() => (suggestions.data || []).filter(suggestion => !dismissed.has(suggestion.id)), [suggestions.data, dismissed]);
+
+  useEffect(() => {
+    visible.forEach(suggestion => {
+      if (logged.current.has(suggestion.id)) return;
+      logged.current.add(suggestion.id);
+      log(suggestion, 'shown');
+    });
+  }, [visible, log]);
+
+  // Returns the text to put in the reply box; the agent can still edit it before sending
+  const insert = useCallback((suggestion: ReplySuggestion) => {
+    inserted.current = suggestion;
+    log(suggestion, 'inserted');
+    return suggestion.text;
+  }, [log]);
+
+  const dismiss = useCallback((suggestion: ReplySuggestion) => {
+    log(suggestion, 'dismissed');
+    setDismissed(prev => new Set(prev).add(suggestion.id));
+  }, [log]);
+
+  // Call with the text that was actually sent, after a successful send
+  const recordSent = useCallback((text: string) => {
+    const suggestion = inserted.current;
+    if (!suggestion) return;
+    inserted.current = null;
+    const unchanged = text.trim() === suggestion.text.trim();
+    log(suggestion, unchanged ? 'sent' : 'edited', unchanged ? 1 : replySuggestionService.similarity(suggestion.text, text));
+  }, [log]);
+
+  return { suggestions: visible, isLoading: suggestions.isLoading, error: suggestions.error, provider: provider.name, refresh: suggestions.refresh, insert, dismiss, recordSent };
+}
@@ -0,0 +1,82 @@
+// hooks/useResource.ts
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import requestCache, { type FetchOptions } from '@/app/services/requestCache';
+
+interface ResourceOptions {
+  // Poll every N ms while mounted; 0 turns polling off
+  refreshInterval?: number;
+  // How long cached data counts as fresh when the component mounts
+  staleTime?: number;
+  // Background tabs stop polling unless this is set
+  pollWhenHidden?: boolean;
+  // While a new key loads, keep returning the last key's data instead of nothing (e.g. a map being panned)
+  keepPreviousData?: boolean;
+}
+
+interface Resource<T> {
+  data: T | undefined;
+  error: unknown;
+  // No data yet and a request is on its way
+  isLoading: boolean;
+  isValidating: boolean;
+  updatedAt: Date | null;
+  refresh: () => Promise<T | undefined>;
+  mutate: (data: T) => void;
+}
+
+// Reads `key` through the shared request cache. Cached data is returned at once and revalidated
+// when stale; pass a null key to skip fetching (e.g. until a required parameter is known).
+export function useResource<T>(key: string | null, fetcher: () => Promise<T>, options: ResourceOptions = {}): Resource<T> {
+  const { refreshInterval = 0, staleTime, pollWhenHidden = false, keepPreviousData = false } = options;
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+  const previousRef = useRef<T | undefined>(undefined);
+
+  const subscribe = useCallback((listener: () => void) => key ? requestCache.subscribe(key, listener) : () => undefined, [key]);
+  const entry = useSyncExternalStore(subscribe, () => key ? requestCache.peek<T>(key) : undefined, () => undefined);
+
+  // Errors surface through `error`; callers that need to react to a failure read it from there
+  const revalidate = useCallback((fetchOptions: FetchOptions = {}) => {
+    if (!key) return Promise.resolve(undefined);
+    return requestCache.fetch(key, () => fetcherRef.current(), { staleTime, ...fetchOptions }).catch(() => undefined);
+  }, [key, staleTime]);
+
+  useEffect(() => {
+    revalidate();
+  }, [revalidate]);
+
+  useEffect(() => {
+    if (!key || refreshInterval <= 0) return;
+    const isHidden = () => !pollWhenHidden && document.visibilityState === 'hidden';
+    const interval = setInterval(() => {
+      if (!isHidden()) revalidate({ force: true });
+    }, refreshInterval);
+    // Coming back to the tab catches up at once if a poll was skipped while it was hidden
+    const handleVisibilityChange = () => {
+      if (!isHidden()) revalidate({ staleTime: refreshInterval });
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [key, refreshInterval, pollWhenHidden, revalidate]);
+
+  const refresh = useCallback(() => revalidate({ force: true }), [revalidate]);
+  const mutate = useCallback((data: T) => {
+    if (key) requestCache.set(key, data);
+  }, [key]);
+
+  if (entry?.data !== undefined) previousRef.current = entry.data;
+  const data = entry?.data ?? (keepPreviousData ? previousRef.current : undefined);
+
+  return {
+    data,
+    error: entry?.error,
+    isLoading: !!key && data === undefined && (entry?.isValidating ?? true),
+    isValidating: !!entry?.isValidating,
+    updatedAt: entry?.updatedAt ? new Date(entry.updatedAt) : null,
+    refresh,
+    mutate,
+  };
+}
@@ -0,0 +1,73 @@
+// hooks/useSla.ts
+import { useEffect, useRef, useState } from 'react';
+import apiClient, { ApiError } from '@/app/services/apiClient';
+import slaService, { DEFAULT_SLA_POLICIES, type SlaPolicy, type SlaTicket } from '@/app/services/slaService';
+import { useResource } from '@/app/hooks/useResource';
+import { useCoordinatorLease } from '@/app/hooks/useCoordinatorLease';
+
+const SLA_POLICY_STALE_TIME_MS = 10 * 60000;
+
+// The team's SLA policies, or the built-in ones until (or if) the server list loads
+export function useSlaPolicies(): SlaPolicy[] {
+  const policies = useResource<SlaPolicy[]>(
+    '/cs/sla/policies',
+    () => apiClient.cs.sla.policies().then(response => response.data.policies?.length ? response.data.policies : DEFAULT_SLA_POLICIES),
+    { staleTime: SLA_POLICY_STALE_TIME_MS }
+  );
+  return policies.data || DEFAULT_SLA_POLICIES;
+}
+
+// Current time, updated every `intervalMs`, for countdowns
+export function useNow(intervalMs: number = 1000): number {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(interval);
+  }, [intervalMs]);
+  return now;
+}
+
+interface EscalatableTicket extends SlaTicket {
+  _id: string;
+}
+
+// Escalates tickets whose SLA has been breached through the ticket's /escalate endpoint, which records it
+// in the timeline. Only the console holding the escalation lease does this, and each breach carries an
+// idempotency key, so a hand-over between consoles cannot escalate the same breach twice.
+export function useSlaAutoEscalation(tickets: EscalatableTicket[], policies: SlaPolicy[], now: number, onEscalated?: () => void) {
+  const { isCoordinator } = useCoordinatorLease('sla_escalation');
+  const attemptedRef = useRef(new Set<string>());
+  const onEscalatedRef = useRef(onEscalated);
+  onEscalatedRef.current = onEscalated;
+
+  useEffect(() => {
+    if (!isCoordinator) return;
+    tickets.forEach(ticket => {
+      if (ticket.escalation?.escalated || ticket.status === 'resolved' || ticket.status === 'closed') return;
+      if (attemptedRef.current.has(ticket._id)) return;
+      const evaluation = slaService.evaluate(ticket, policies, now);
+      if (!slaService.isBreached(evaluation)) return;
+
+      attemptedRef.current.add(ticket._id);
+      const timer = evaluation.firstResponse.state === 'breached' ? 'firstResponse' : 'resolution';
+      const dueAt = new Date(evaluation[timer].dueAt);
+      const reason = `SLA breached: ${timer === 'firstResponse' ? 'first response' : 'resolution'} was due ${dueAt.toLocaleString()}`;
+      apiClient.cs.tickets.escalate(ticket._id, reason, {
+        slaBreach: {
+          timer,
+          dueAt: dueAt.toISOString(),
+          detectedAt: new Date(now).toISOString(),
+          policy: evaluation.policy,
+        },
+      }, `sla-breach:${ticket._id}:${timer}:${dueAt.toISOString()}`)
+        .then(() => onEscalatedRef.current?.())
+        .catch(error => {
+          // Conflict means the ticket was escalated in the meantime
+          if (error instanceof ApiError && error.code === 'conflict') return;
+          // Anything else is tried again on a later tick; the idempotency key keeps a retry from escalating twice
+          attemptedRef.current.delete(ticket._id);
+          console.error('SLA auto-escalation failed:', error);
+        });
+    });
+  }, [isCoordinator, tickets, policies, now]);
+}
@@ -0,0 +1,91 @@
+// hooks/useSupportTickets.ts
+import { useCallback, useEffect } from 'react';
+import apiClient, { ApiError } from '@/app/services/apiClient';
+import requestCache from '@/app/services/requestCache';
+import contactService, { type ContactCustomer, type ContactForm } from '@/app/services/contactService';
+import supportRequestService from '@/app/services/supportRequestService';
+import { type ChatTranscript, type Ticket, type TicketReply } from '@/app/domain';
+import { useResource } from '@/app/hooks/useResource';
+import { useEmergencyContext } from '@/app/components/RealTimeEmergencyClient';
+
+// The socket pushes changes, so polling only covers a dropped connection
+const SUPPORT_REFRESH_MS = 5 * 60000;
+
+// Sends the contact form as a web ticket and resolves with the reference the passenger follows it by.
+// Submissions caught by the spam checks resolve with no reference and never reach the server.
+export function useSubmitContactForm() {
+  return useCallback(async (form: ContactForm, files: File[], openedAt: number, customer?: ContactCustomer): Promise<string | null> => {
+    const spam = contactService.checkSpam(form, openedAt);
+    if (spam?.silent) return null;
+    if (spam) throw new Error(spam.reason);
+
+    try {
+      const uploaded = files.length ? (await apiClient.support.attachments.upload(files)).data.attachments : [];
+      const response = await apiClient.support.tickets.create(contactService.toTicket(form, uploaded.map(file => file.url), customer));
+      contactService.recordSubmission();
+      return response.data.ticket.ticketId;
+    } catch (error) {
+      if (error instanceof ApiError && error.code === 'rate_limited') {
+        const retryAfterMs = (error.details as { retryAfterMs?: number } | undefined)?.retryAfterMs;
+        throw new Error(`Too many messages have been sent from your connection. Please try again${retryAfterMs ? ` in ${Math.ceil(retryAfterMs / 60000)} minutes` : ' later'}.`);
+      }
+      throw error;
+    }
+  }, []);
+}
+
+// A ticket the signed-in passenger looks up by its reference number
+export function useTrackedTicket(reference: string | null) {
+  const ticket = useResource<Ticket>(
+    reference ? `/cs/tickets/track/${reference}` : null,
+    () => apiClient.support.tickets.track(reference as string).then(response => response.data.ticket)
+  );
+  return { ticket: ticket.data, error: ticket.error, isLoading: ticket.isLoading, refresh: ticket.refresh };
+}
+
+// Every ticket on the signed-in passenger's account, the ones waiting on them first
+export function useMySupportTickets(signedIn: boolean) {
+  const tickets = useResource<Ticket[]>(
+    signedIn ? '/cs/tickets/mine' : null,
+    () => apiClient.support.tickets.mine().then(response => supportRequestService.sortTickets(response.data.tickets)),
+    { refreshInterval: SUPPORT_REFRESH_MS }
+  );
+  return { tickets: tickets.data || [], error: tickets.error, isLoading: tickets.isLoading, refresh: tickets.refresh };
+}
+
+export function useMyChatTranscripts(signedIn: boolean) {
+  const sessions = useResource<ChatTranscript[]>(
+    signedIn ? '/cs/chat/sessions/mine' : null,
+    () => apiClient.support.chats.mine().then(response => response.data.sessions),
+    { refreshInterval: SUPPORT_REFRESH_MS }
+  );
+  return { transcripts: sessions.data || [], error: sessions.error, isLoading: sessions.isLoading, refresh: sessions.refresh };
+}
+
+export function useTicketActions() {
+  const reply = useCallback(async (reference: string, message: string, files: File[]) => {
+    const uploaded = files.length ? (await apiClient.support.attachments.upload(files)).data.attachments : [];
+    const body: TicketReply = { message: message.trim(), attachments: uploaded.length ? uploaded.map(file => file.url) : undefined };
+    await apiClient.support.tickets.reply(reference, body);
+  }, []);
+  const reopen = useCallback((reference: string, reason: string) => apiClient.support.tickets.reopen(reference, reason.trim()).then(() => undefined), []);
+  return { reply, reopen };
+}
+
+// Agent replies and status changes arrive on the emergency socket the passenger is already connected to;
+// each one marks the cached lists and ticket as stale so the open views reload
+export function useSupportUpdates() {
+  const { socket } = useEmergencyContext();
+
+  useEffect(() => {
+    if (!socket) return;
+    const ticketUpdated = () => requestCache.invalidate('/cs/tickets');
+    const chatUpdated = () => requestCache.invalidate('/cs/chat/sessions/mine');
+    socket.on('support:ticket_updated', ticketUpdated);
+    socket.on('support:chat_updated', chatUpdated);
+    return () => {
+      socket.off('support:ticket_updated', ticketUpdated);
+      socket.off('support:chat_updated', chatUpdated);
+    };
+  }, [socket]);
+}
@@ -0,0 +1,21 @@
+// hooks/useSurveys.ts
+import { useCallback } from 'react';
+import apiClient from '@/app/services/apiClient';
+import { type Survey, type SurveyResponse } from '@/app/domain';
+import { useResource } from '@/app/hooks/useResource';
+
+const PENDING_STALE_TIME_MS = 60000;
+
+// Surveys the signed-in passenger has been sent for resolved tickets and has not answered yet
+export function usePendingSurveys(signedIn: boolean) {
+  const pending = useResource<Survey[]>(
+    signedIn ? '/cs/surveys/pending' : null,
+    () => apiClient.support.surveys.pending().then(response => response.data.surveys),
+    { staleTime: PENDING_STALE_TIME_MS }
+  );
+  return { surveys: (pending.data || []).filter(survey => !survey.completedAt), error: pending.error, refresh: pending.refresh };
+}
+
+export function useSubmitSurvey() {
+  return useCallback((response: SurveyResponse) => apiClient.support.surveys.submit(response).then(() => undefined), []);
+}
@@ -0,0 +1,23 @@
+// hooks/useTicketDuplicates.ts
+import { useMemo } from 'react';
+import apiClient from '@/app/services/apiClient';
+import { cacheKey } from '@/app/services/requestCache';
+import ticketDuplicateService from '@/app/services/ticketDuplicateService';
+import { type Ticket } from '@/app/domain';
+import { useResource } from '@/app/hooks/useResource';
+
+// Duplicates are looked for across the open queue, not just the page on screen; a breakdown can
+// produce more tickets than fit on one page
+const DUPLICATE_SCAN_QUERY = { status: 'open', limit: 200 };
+const DUPLICATE_REFRESH_MS = 60000;
+
+// Clusters of open tickets that look like reports of the same incident
+export function useDuplicateClusters() {
+  const openTickets = useResource<Ticket[]>(
+    cacheKey('/cs/tickets', DUPLICATE_SCAN_QUERY),
+    () => apiClient.cs.tickets.list(DUPLICATE_SCAN_QUERY).then(response => response.data.tickets),
+    { refreshInterval: DUPLICATE_REFRESH_MS }
+  );
+  const clusters = useMemo(() => ticketDuplicateService.findClusters(openTickets.data || []), [openTickets.data]);
+  return { clusters, isLoading: openTickets.isLoading, error: openTickets.error, refresh: openTickets.refresh };
+}
@@ -0,0 +1,26 @@
+// hooks/useTicketViews.ts
+import { useCallback, useMemo } from 'react';
+import apiClient from '@/app/services/apiClient';
+import { BUILT_IN_VIEWS, type SavedTicketView, type TicketViewFilters } from '@/app/services/ticketViewService';
+import { useResource } from '@/app/hooks/useResource';
+
+const VIEWS_STALE_TIME_MS = 5 * 60000;
+
+// Built-in views followed by the agent's saved views and those teammates shared. Waits for the signed-in
+// agent; signing out clears the cache, so the next agent on this tab never sees these views.
+export function useTicketViews(agentId: string | null) {
+  const saved = useResource<SavedTicketView[]>(
+    agentId ? '/cs/views' : null,
+    () => apiClient.cs.views.list().then(response => response.data.views || []),
+    { staleTime: VIEWS_STALE_TIME_MS }
+  );
+  const views = useMemo(() => [...BUILT_IN_VIEWS, ...(saved.data || [])], [saved.data]);
+
+  const saveView = useCallback(
+    (name: string, filters: TicketViewFilters, shared: boolean) => apiClient.cs.views.create({ name, filters, shared }).then(response => response.data.view),
+    []
+  );
+  const deleteView = useCallback((id: string) => apiClient.cs.views.remove(id).then(() => undefined), []);
+
+  return { views, error: saved.error, saveView, deleteView };
+}
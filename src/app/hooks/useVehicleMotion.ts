@@ -0,0 +1,97 @@
+// hooks/useVehicleMotion.ts
+import { useCallback, useEffect, useRef } from 'react';
+import type L from 'leaflet';
+import vehicleMotionService, { type MotionState, type MotionTarget } from '@/app/services/vehicleMotionService';
+import type { LatLng } from '@/app/services/routeGeometryService';
+
+// Moves vehicle markers between fixes without re-rendering React: one animation frame loop calls
+// setLatLng on the Leaflet markers directly. Markers are given a fixed `position` (from
+// `initialPosition`) so react-leaflet never snaps them back to the raw fix.
+export function useVehicleMotion(targets: MotionTarget[]) {
+  const states = useRef(new Map<string, MotionState>());
+  const markers = useRef(new Map<string, L.Marker>());
+  const initial = useRef(new Map<string, LatLng>());
+  const refs = useRef(new Map<string, (marker: L.Marker | null) => void>());
+  const frame = useRef<number | null>(null);
+  const active = useRef(new Set<string>());
+
+  const tick = useCallback(() => {
+    const now = Date.now();
+    active.current.forEach(vehicleId => {
+      const state = states.current.get(vehicleId);
+      const marker = markers.current.get(vehicleId);
+      // Vehicles without a marker (e.g. inside a cluster) pick up again when their marker is attached
+      if (!state || !marker) {
+        active.current.delete(vehicleId);
+        return;
+      }
+      const next = vehicleMotionService.frame(state, now);
+      marker.setLatLng(next.position);
+      if (next.settled) active.current.delete(vehicleId);
+    });
+    frame.current = active.current.size > 0 ? requestAnimationFrame(tick) : null;
+  }, []);
+
+  const wake = useCallback(() => {
+    if (frame.current === null && active.current.size > 0) frame.current = requestAnimationFrame(tick);
+  }, [tick]);
+
+  useEffect(() => {
+    const now = Date.now();
+    const seen = new Set<string>();
+    targets.forEach(target => {
+      seen.add(target.vehicleId);
+      const previous = states.current.get(target.vehicleId);
+      if (previous && !vehicleMotionService.isNewFix(previous, target)) {
+        states.current.set(target.vehicleId, vehicleMotionService.update(previous, target));
+        if (target.canDeadReckon !== previous.target.canDeadReckon) active.current.add(target.vehicleId);
+        return;
+      }
+      states.current.set(target.vehicleId, vehicleMotionService.start(target, previous, now));
+      active.current.add(target.vehicleId);
+    });
+    // Vehicles that left the feed are forgotten, so they start fresh if they come back
+    Array.from(states.current.keys()).forEach(vehicleId => {
+      if (seen.has(vehicleId)) return;
+      states.current.delete(vehicleId);
+      initial.current.delete(vehicleId);
+      active.current.delete(vehicleId);
+    });
+    wake();
+  }, [targets, wake]);
+
+  useEffect(() => () => {
+    if (frame.current !== null) cancelAnimationFrame(frame.current);
+  }, []);
+
+  // The position a marker is first created at; the same array every render so react-leaflet leaves it alone
+  const initialPosition = useCallback((vehicleId: string, fallback: LatLng): LatLng => {
+    const existing = initial.current.get(vehicleId);
+    if (existing) return existing;
+    initial.current.set(vehicleId, fallback);
+    return fallback;
+  }, []);
+
+  // A stable ref callback per vehicle, so markers are not detached and re-attached on every render
+  const markerRef = useCallback((vehicleId: string) => {
+    let ref = refs.current.get(vehicleId);
+    if (!ref) {
+      ref = (marker: L.Marker | null) => {
+        if (!marker) {
+          markers.current.delete(vehicleId);
+          return;
+        }
+        markers.current.set(vehicleId, marker);
+        // A marker created mid-glide (e.g. after a filter change) starts where the vehicle is drawn now
+        const state = states.current.get(vehicleId);
+        if (state) marker.setLatLng(vehicleMotionService.frame(state, Date.now()).position);
+        active.current.add(vehicleId);
+        wake();
+      };
+      refs.current.set(vehicleId, ref);
+    }
+    return ref;
+  }, [wake]);
+
+  return { initialPosition, markerRef };
+}
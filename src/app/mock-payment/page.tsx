@@ -3,6 +3,7 @@
 import { useState, useEffect, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
+import { getApiBaseUrl } from '@/app/services/apiClient';
 
 export default function MockPaymentGatewayPage() {
   const router = useRouter();
@@ -111,7 +112,7 @@ export default function MockPaymentGatewayPage() {
       const token = localStorage.getItem('token');
       
       // Create booking via API
-      const baseURL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000';
+      const baseURL = getApiBaseUrl();
       const bookingResponse = await fetch(`${baseURL}/api/bookings`, {
         method: 'POST',
         headers: {
@@ -12,12 +12,14 @@ import {
   CheckCircleIcon,
   WifiIcon,
   ArrowLeftIcon,
-  ClockIcon
+  ClockIcon,
+  StarIcon
 } from '@heroicons/react/24/outline';
 import { useEmergencyAlerts } from '../components/RealTimeEmergencyClient';
 import { useTheme } from '@/app/context/ThemeContext';
 import ThemeSwitcher from '@/app/components/ThemeSwitcher';
 import AnimatedBackground from '../components/AnimatedBackground';
+import { usePendingSurveys } from '@/app/hooks/useSurveys';
 
 // Type definitions
 interface Alert {
@@ -38,13 +40,17 @@ export default function NotificationsPage() {
   const { theme } = useTheme();
   const { alerts, unreadCount, criticalCount, markAsRead, connected } = useEmergencyAlerts();
   const [filter, setFilter] = useState<FilterType>('all');
+  const [signedIn, setSignedIn] = useState(false);
+  const { surveys } = usePendingSurveys(signedIn);
 
   // Check auth
   useEffect(() => {
     const token = localStorage.getItem('token');
     if (!token) {
       router.push('/login');
+      return;
     }
+    setSignedIn(true);
   }, [router]);
 
   // Filter alerts for users
@@ -149,6 +155,37 @@ export default function NotificationsPage() {
         </nav>
 
         <div className="animate-fade-in-up" style={{ maxWidth: '1200px', margin: '0 auto', padding: '2rem 1.5rem' }}>
+          {/* Surveys for resolved support requests */}
+          {surveys.length > 0 && (
+            <div style={{
+              marginBottom: '2rem',
+              backgroundColor: currentThemeStyles.glassPanelBg,
+              padding: '1.5rem',
+              borderRadius: '0.75rem',
+              boxShadow: currentThemeStyles.glassPanelShadow,
+              backdropFilter: 'blur(12px)',
+              border: currentThemeStyles.glassPanelBorder
+            }}>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '1rem' }}>
+                <StarIcon width={20} height={20} color="#f59e0b" />
+                <h2 style={{ color: currentThemeStyles.textPrimary, fontSize: '1.125rem', fontWeight: 'bold', margin: 0 }}>How did we do?</h2>
+              </div>
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+                {surveys.map(survey => (
+                  <Link key={survey._id} href={`/survey/${survey.source}/${survey.sourceId}`} style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem', padding: '0.75rem 1rem', borderRadius: '0.5rem', backgroundColor: currentThemeStyles.quickActionBg, border: currentThemeStyles.quickActionBorder, textDecoration: 'none' }}>
+                    <div style={{ minWidth: 0 }}>
+                      <div style={{ color: currentThemeStyles.textPrimary, fontWeight: 600, whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                        {survey.source === 'chat' ? 'Your chat' : 'Your request'} #{survey.reference}{survey.subject ? ` – ${survey.subject}` : ''} was {survey.source === 'chat' ? 'closed' : 'resolved'}
+                      </div>
+                      <div style={{ color: currentThemeStyles.textMuted, fontSize: '0.875rem' }}>{new Date(survey.closedAt).toLocaleString()}</div>
+                    </div>
+                    <span style={{ flexShrink: 0, color: '#f59e0b', fontWeight: 600, fontSize: '0.875rem' }}>Rate your support →</span>
+                  </Link>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Filter Tabs */}
           <div style={{
             display: 'flex',
@@ -1,18 +1,36 @@
 "use client";
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import { useTheme } from '@/app/context/ThemeContext';
-import PaymentGateway from '@/app/components/PaymentGateway';
+import PaymentGateway, { type PaymentResult } from '@/app/components/PaymentGateway';
+import SeatHoldTimer from '@/app/components/SeatHoldTimer';
+import seatService, { type SeatHold } from '@/app/services/seatService';
+import itineraryService, { type PendingBooking, type PendingLeg } from '@/app/services/itineraryService';
 import ThemeSwitcher from '@/app/components/ThemeSwitcher';
 import Link from 'next/link';
 import { ShieldCheckIcon } from '@heroicons/react/24/outline';
+import apiClient, { ApiError } from '@/app/services/apiClient';
+
+// Itinerary bookings carry one hold per leg; the earliest to expire bounds the whole payment
+const getHolds = (booking: PendingBooking): SeatHold[] =>
+  (booking.legs ? booking.legs.map(leg => leg.seatHold) : [booking.seatHold]).filter((hold): hold is SeatHold => !!hold);
+const getEarliestHold = (booking: PendingBooking): SeatHold | undefined =>
+  getHolds(booking).sort((a, b) => new Date(a.expiresAt).getTime() - new Date(b.expiresAt).getTime())[0];
+const releaseHolds = (booking: PendingBooking, { keepalive = false }: { keepalive?: boolean } = {}) =>
+  Promise.all(getHolds(booking).map(hold => seatService.releaseHold(hold, { keepalive })));
+const rebookHref = (booking: PendingBooking | null) => booking?.itinerary ? '/search' : booking?.routeId ? `/book?routeId=${booking.routeId}` : '/book';
 
 export default function PaymentGatewayPage() {
   const router = useRouter();
   const { theme } = useTheme();
-  const [bookingData, setBookingData] = useState<any>(null);
+  const [bookingData, setBookingData] = useState<PendingBooking | null>(null);
   const [error, setError] = useState('');
+  const [holdExpired, setHoldExpired] = useState(false);
+  // Set once the booking is paid, cancelled, lapsed or parked for sign-in; until then leaving the page gives the seats back
+  const settledRef = useRef(false);
+  const bookingRef = useRef<PendingBooking | null>(null);
+  bookingRef.current = bookingData;
 
   // Theme styles
   const lightTheme = { mainBg: '#fffbeb', bgGradient: 'linear-gradient(to bottom right, #fffbeb, #fef3c7, #fde68a)', glassPanelBg: 'rgba(255, 255, 255, 0.92)', glassPanelBorder: '1px solid rgba(251, 191, 36, 0.3)', glassPanelShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.25), 0 10px 20px -5px rgba(0, 0, 0, 0.1)', textPrimary: '#1f2937', textSecondary: '#4B5563' };
@@ -28,36 +46,59 @@ export default function PaymentGatewayPage() {
     }
     
     try {
-      const booking = JSON.parse(pendingBooking);
+      const booking: PendingBooking = JSON.parse(pendingBooking);
+      if (getHolds(booking).some(hold => !seatService.isHoldActive(hold))) {
+        releaseHolds(booking);
+        localStorage.removeItem('pendingBooking');
+        setError('Your seat hold has expired. Please start the booking process again.');
+        return;
+      }
       setBookingData(booking);
     } catch (err) {
       setError('Invalid booking data. Please start the booking process again.');
     }
   }, []);
 
-  const handlePaymentSuccess = async (paymentResult: any) => {
+  useEffect(() => {
+    // A page kept in the back/forward cache comes back with its holds, so those are left alone
+    const release = (event?: PageTransitionEvent) => {
+      const booking = bookingRef.current;
+      if (settledRef.current || event?.persisted || !booking) return;
+      settledRef.current = true;
+      releaseHolds(booking, { keepalive: true });
+      localStorage.removeItem('pendingBooking');
+    };
+    window.addEventListener('pagehide', release);
+    return () => {
+      window.removeEventListener('pagehide', release);
+      release();
+    };
+  }, []);
+
+  const handlePaymentSuccess = async (paymentResult: PaymentResult) => {
     if (!bookingData) return;
 
     try {
       console.log('🎉 Payment successful, processing booking...');
       
-      // Get token for API calls
-      const token = localStorage.getItem('token');
-      if (!token) {
+      // Bookings are created for the signed-in passenger
+      if (!localStorage.getItem('token')) {
+        settledRef.current = true;
         router.push('/login');
         return;
       }
 
-      // Generate a unique booking ID
-      const bookingId = `BK${Date.now()}${Math.floor(Math.random() * 1000)}`;
-      const baseURL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000';
-
-      console.log('🎫 Generated booking ID:', bookingId);
+      // Generate a unique booking ID per leg – a plain booking is a single leg
+      const { legs, itinerary, ...singleBooking } = bookingData;
+      const legBookings: PendingLeg[] = legs || [singleBooking];
+      const bookingIds: string[] = legBookings.map((_, index) => `BK${Date.now()}${Math.floor(Math.random() * 1000)}${legs ? `-${index + 1}` : ''}`);
+      const bookingId = bookingIds[0];
 
-      // Step 1: Create booking with payment info (confirmed status)
-      const bookingWithPayment = {
-        ...bookingData,
-        bookingId: bookingId,
+      // Step 1: Create bookings with payment info (confirmed status)
+      const bookingsWithPayment = legBookings.map((leg, index) => ({
+        ...leg,
+        bookingId: bookingIds[index],
+        ...(itinerary && { itineraryId: itinerary.itineraryId, itineraryType: itinerary.type, legIndex: index, legCount: legBookings.length }),
         paymentInfo: {
           paymentId: paymentResult.paymentId,
           transactionId: paymentResult.transactionId,
@@ -70,15 +111,15 @@ export default function PaymentGatewayPage() {
           checkedIn: false
         },
         isActive: true
-      };
+      }));
 
       // Step 2: Store locally FIRST (ensures data safety)
       console.log('💾 Storing booking locally (primary backup)...');
       const existingBookings = JSON.parse(localStorage.getItem('localBookings') || '[]');
       const filteredBookings = existingBookings.filter((b: any) => 
-        b.bookingId !== bookingId && b._id !== bookingId
+        !bookingIds.includes(b.bookingId) && !bookingIds.includes(b._id)
       );
-      filteredBookings.push(bookingWithPayment);
+      filteredBookings.push(...bookingsWithPayment);
       localStorage.setItem('localBookings', JSON.stringify(filteredBookings));
       console.log('✅ Booking safely stored locally');
 
@@ -86,6 +127,7 @@ export default function PaymentGatewayPage() {
       const paymentRecord = {
         _id: `payment_${Date.now()}`,
         bookingId: bookingId,
+        ...(legs && { bookingIds }),
         amount: bookingData.pricing.totalAmount,
         currency: bookingData.pricing.currency || 'LKR',
         method: paymentResult.method,
@@ -94,7 +136,8 @@ export default function PaymentGatewayPage() {
         paymentId: paymentResult.paymentId,
         userId: bookingData.userId,
         createdAt: paymentResult.paidAt,
-        booking: bookingWithPayment // Full booking data for recovery
+        booking: bookingsWithPayment[0], // Full booking data for recovery
+        ...(legs && { bookings: bookingsWithPayment })
       };
 
       const existingPayments = JSON.parse(localStorage.getItem('localPayments') || '[]');
@@ -107,50 +150,48 @@ export default function PaymentGatewayPage() {
       
       try {
         console.log('🔄 Attempting backend sync...');
-        
-        // 4a. Create booking via API
-        const bookingResponse = await fetch(`${baseURL}/api/bookings`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`
-          },
-          body: JSON.stringify(bookingWithPayment)
-        });
+        let syncedCount = 0;
+
+        for (const bookingWithPayment of bookingsWithPayment) {
+          // 4a. Create booking via API; a rejected leg stays local, an unreachable backend ends the sync
+          const bookingResult = await apiClient.bookings.create(bookingWithPayment).catch(error => {
+            if (error instanceof ApiError && error.status > 0) return null;
+            throw error;
+          });
 
-        if (bookingResponse.ok) {
-          const bookingResult = await bookingResponse.json();
+          if (!bookingResult) {
+            console.warn('⚠️ Backend booking creation failed, using local storage');
+            continue;
+          }
           console.log('✅ Booking synced to backend:', bookingResult.booking?.bookingId);
           
           // 4b. Confirm payment via API to ensure status is updated
-          const paymentConfirmResponse = await fetch(`${baseURL}/api/payments/confirm`, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${token}`
-            },
-            body: JSON.stringify({
-              bookingId: bookingId,
-              transactionId: paymentResult.transactionId,
-              paymentData: paymentResult
-            })
+          const paymentConfirmed = await apiClient.payments.confirm({
+            bookingId: bookingWithPayment.bookingId,
+            transactionId: paymentResult.transactionId,
+            paymentData: paymentResult
+          }).then(() => true, error => {
+            if (error instanceof ApiError && error.status > 0) return false;
+            throw error;
           });
 
-          if (paymentConfirmResponse.ok) {
+          if (paymentConfirmed) {
             console.log('✅ Payment status confirmed in backend');
-            backendSyncSuccess = true;
+            syncedCount++;
           } else {
             console.warn('⚠️ Payment confirmation failed, but booking exists');
           }
-        } else {
-          console.warn('⚠️ Backend booking creation failed, using local storage');
         }
+        backendSyncSuccess = syncedCount === bookingsWithPayment.length;
       } catch (apiError) {
         console.warn('⚠️ Backend sync failed, but data is safe locally:', apiError);
       }
 
-      // Step 5: Clean up and navigate
+      // Step 5: Clean up and navigate – the seats are now booked, so the holds are no longer needed
+      settledRef.current = true;
+      await releaseHolds(bookingData);
       localStorage.removeItem('pendingBooking');
+      if (itinerary) itineraryService.clearPending();
       
       console.log('🎊 Booking process completed!');
       console.log('📊 Backend sync status:', backendSyncSuccess ? 'Success' : 'Failed (using local storage)');
@@ -176,7 +217,17 @@ export default function PaymentGatewayPage() {
 
   const handlePaymentCancel = () => {
     console.log('❌ Payment cancelled by user');
-    router.push('/book');
+    settledRef.current = true;
+    if (bookingData) releaseHolds(bookingData);
+    localStorage.removeItem('pendingBooking');
+    router.push(rebookHref(bookingData));
+  };
+
+  const handleHoldExpired = () => {
+    settledRef.current = true;
+    if (bookingData) releaseHolds(bookingData);
+    localStorage.removeItem('pendingBooking');
+    setHoldExpired(true);
   };
 
   if (error) {
@@ -275,8 +326,19 @@ export default function PaymentGatewayPage() {
 
       {/* Payment Gateway */}
       <div style={{ padding: '2rem', maxWidth: '1200px', margin: '0 auto' }}>
+        {getEarliestHold(bookingData) && (
+          <div style={{ maxWidth: '500px', margin: '0 auto 1rem' }}>
+            <SeatHoldTimer hold={getEarliestHold(bookingData)!} onExpire={handleHoldExpired} />
+            {holdExpired && (
+              <p style={{ color: '#DC2626', fontSize: '0.9rem', margin: '0.5rem 0 0 0' }}>
+                Your seat hold has lapsed and the seat was released. <Link href={rebookHref(bookingData)} style={{ color: '#F59E0B', fontWeight: '600' }}>Choose a seat again</Link>
+              </p>
+            )}
+          </div>
+        )}
         <PaymentGateway
           bookingData={bookingData}
+          holdExpiresAt={getEarliestHold(bookingData)?.expiresAt}
           onPaymentSuccess={handlePaymentSuccess}
           onPaymentCancel={handlePaymentCancel}
           onPaymentError={handlePaymentError}
@@ -3,64 +3,14 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import Link from 'next/link';
-import { useRouter } from 'next/navigation';
 import { useTheme } from '@/app/context/ThemeContext';
 import ThemeSwitcher from '@/app/components/ThemeSwitcher';
 import AnimatedBackground from '@/app/components/AnimatedBackground';
+import apiClient, { type PaymentStats } from '@/app/services/apiClient';
+import { DecodeError, type Payment } from '@/app/domain';
 import { ShieldCheckIcon, TicketIcon, CurrencyDollarIcon, CheckCircleIcon, XCircleIcon } from '@heroicons/react/24/outline';
 
-// --- Data Interfaces ---
-interface Payment {
-  _id: string; 
-  paymentId: string; 
-  userId: string; 
-  bookingId: string;
-  amount: { subtotal: number; taxes: number; fees: number; discounts: number; total: number; currency: string; };
-  paymentMethod: { type: string; provider: string; lastFourDigits?: string; walletType?: string; };
-  transactionInfo: { transactionId: string; gatewayTransactionId: string; gatewayProvider: string; authorizationCode: string; };
-  status: string;
-  statusHistory: Array<{ status: string; timestamp: string; reason?: string; }>;
-  billingInfo: { name: string; email: string; phone: string; };
-  refundInfo?: { refundId: string; refundAmount: number; refundReason: string; refundMethod: string; refundDate: string; };
-  timestamps: { initiatedAt: string; processedAt?: string; completedAt?: string; failedAt?: string; refundedAt?: string; };
-  createdAt: string; 
-  updatedAt: string;
-}
-
-interface ApiStatusHistory {
-  status?: unknown;
-  timestamp?: unknown;
-  reason?: unknown;
-}
-
-interface ApiPayment {
-  _id?: unknown;
-  paymentId?: unknown;
-  userId?: unknown;
-  bookingId?: unknown | { bookingId?: string; _id?: string; id?: string };
-  amount?: { subtotal?: unknown; taxes?: unknown; fees?: unknown; discounts?: unknown; total?: unknown; currency?: unknown; };
-  paymentMethod?: { type?: unknown; provider?: unknown; lastFourDigits?: unknown; walletType?: unknown; };
-  transactionInfo?: { transactionId?: unknown; gatewayTransactionId?: unknown; gatewayProvider?: unknown; authorizationCode?: unknown; };
-  status?: unknown;
-  statusHistory?: unknown[];
-  billingInfo?: { name?: unknown; email?: unknown; phone?: unknown; };
-  refundInfo?: { refundId?: unknown; refundAmount?: unknown; refundReason?: unknown; refundMethod?: unknown; refundDate?: unknown; };
-  timestamps?: { initiatedAt?: unknown; processedAt?: unknown; completedAt?: unknown; failedAt?: unknown; refundedAt?: unknown; };
-  createdAt?: unknown;
-  updatedAt?: unknown;
-}
-
-interface PaymentStats {
-  totalPayments: number; 
-  totalAmount: number; 
-  successfulPayments: number; 
-  failedPayments: number; 
-  refundedPayments: number; 
-  pendingPayments: number;
-}
-
 export default function PaymentsPage() {
-  const router = useRouter();
   const { theme } = useTheme();
   
   // --- State Management ---
@@ -84,164 +34,21 @@ export default function PaymentsPage() {
     .animate-fade-in-up { animation: fade-in-up 0.8s ease-out forwards; }
   `;
 
-  const getToken = () => localStorage.getItem('token');
-
-  const apiCall = useCallback(async (endpoint: string, options: RequestInit = {}) => {
-    const token = getToken();
-    if (!token) { router.push('/login'); return null; }
-    
-    let baseURL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000';
-    if (baseURL.endsWith('/api')) baseURL = baseURL.slice(0, -4);
-    
-    const fullURL = `${baseURL}/api${endpoint}`;
-    
-    try {
-      const response = await fetch(fullURL, { 
-        ...options, 
-        headers: { 
-          'Content-Type': 'application/json', 
-          'Authorization': `Bearer ${token}`, 
-          ...options.headers 
-        } 
-      });
-      if (!response.ok) { 
-        if (response.status === 401) { 
-          localStorage.removeItem('token'); 
-          localStorage.removeItem('user'); 
-          router.push('/login'); 
-          return null; 
-        } 
-        throw new Error(`API Error: ${response.status}`); 
-      }
-      return await response.json();
-    } catch (error) { 
-      console.error('API call error:', error); 
-      return null; 
-    }
-  }, [router]);
-
   const loadPayments = useCallback(async () => {
     setLoading(true); 
     setError('');
     
     try {
-      const params = new URLSearchParams();
-      if (filter !== 'all') params.append('status', filter);
-      params.append('sortBy', sortBy); 
-      params.append('sortOrder', 'desc');
-      
-      const response = await apiCall(`/payments/history?${params.toString()}`);
-      
-      if (response) {
-        let paymentsArray: ApiPayment[] = [];
-        
-        if (Array.isArray(response)) {
-          paymentsArray = response;
-        } else if (response.payments && Array.isArray(response.payments)) {
-          paymentsArray = response.payments;
-        } else if (response.data && Array.isArray(response.data)) {
-          paymentsArray = response.data;
-        }
-        
-        const cleanPayments = paymentsArray.map((payment: ApiPayment, index: number): Payment => {
-          const safeString = (value: unknown): string => {
-            if (typeof value === 'string') return value;
-            if (typeof value === 'number') return value.toString();
-            return '';
-          };
-          
-          const safeNumber = (value: unknown): number => {
-            if (typeof value === 'number') return value;
-            if (typeof value === 'string') return parseFloat(value) || 0;
-            return 0;
-          };
-
-          const extractBookingId = (bookingData: ApiPayment['bookingId']): string => {
-            if (typeof bookingData === 'string') return bookingData;
-            if (bookingData && typeof bookingData === 'object') {
-              const bookingObj = bookingData as { bookingId?: string; _id?: string; id?: string };
-              return bookingObj.bookingId || bookingObj._id || bookingObj.id || '';
-            }
-            return '';
-          };
-          
-          return {
-            _id: safeString(payment?._id) || `payment-${index}`,
-            paymentId: safeString(payment?.paymentId) || `PAY-${Date.now()}-${index}`,
-            userId: safeString(payment?.userId),
-            bookingId: extractBookingId(payment?.bookingId),
-            
-            amount: {
-              subtotal: safeNumber(payment?.amount?.subtotal),
-              taxes: safeNumber(payment?.amount?.taxes),
-              fees: safeNumber(payment?.amount?.fees),
-              discounts: safeNumber(payment?.amount?.discounts),
-              total: safeNumber(payment?.amount?.total),
-              currency: safeString(payment?.amount?.currency) || 'LKR'
-            },
-            
-            paymentMethod: {
-              type: safeString(payment?.paymentMethod?.type) || 'card',
-              provider: safeString(payment?.paymentMethod?.provider) || 'Unknown',
-              lastFourDigits: safeString(payment?.paymentMethod?.lastFourDigits),
-              walletType: safeString(payment?.paymentMethod?.walletType)
-            },
-            
-            transactionInfo: {
-              transactionId: safeString(payment?.transactionInfo?.transactionId),
-              gatewayTransactionId: safeString(payment?.transactionInfo?.gatewayTransactionId),
-              gatewayProvider: safeString(payment?.transactionInfo?.gatewayProvider),
-              authorizationCode: safeString(payment?.transactionInfo?.authorizationCode)
-            },
-            
-            status: safeString(payment?.status) || 'pending',
-            
-            statusHistory: Array.isArray(payment?.statusHistory) ? 
-              (payment.statusHistory as ApiStatusHistory[]).map((s: ApiStatusHistory) => ({
-                status: safeString(s?.status),
-                timestamp: safeString(s?.timestamp),
-                reason: safeString(s?.reason)
-              })) : [],
-            
-            billingInfo: {
-              name: safeString(payment?.billingInfo?.name),
-              email: safeString(payment?.billingInfo?.email),
-              phone: safeString(payment?.billingInfo?.phone)
-            },
-            
-            refundInfo: payment?.refundInfo ? {
-              refundId: safeString(payment.refundInfo.refundId),
-              refundAmount: safeNumber(payment.refundInfo.refundAmount),
-              refundReason: safeString(payment.refundInfo.refundReason),
-              refundMethod: safeString(payment.refundInfo.refundMethod),
-              refundDate: safeString(payment.refundInfo.refundDate)
-            } : undefined,
-            
-            timestamps: {
-              initiatedAt: safeString(payment?.timestamps?.initiatedAt || payment?.createdAt) || new Date().toISOString(),
-              processedAt: safeString(payment?.timestamps?.processedAt),
-              completedAt: safeString(payment?.timestamps?.completedAt),
-              failedAt: safeString(payment?.timestamps?.failedAt),
-              refundedAt: safeString(payment?.timestamps?.refundedAt)
-            },
-            
-            createdAt: safeString(payment?.createdAt) || new Date().toISOString(),
-            updatedAt: safeString(payment?.updatedAt) || new Date().toISOString()
-          };
-        });
-        
-        setPayments(cleanPayments); 
-        setStats(response.stats || null); 
-      } else { 
-        setError('Failed to load payment history'); 
-      }
+      const response = await apiClient.payments.history({ status: filter === 'all' ? undefined : filter, sortBy, sortOrder: 'desc' });
+      setPayments(response.payments);
+      setStats(response.stats || null); 
     } catch (error) { 
       console.error('Error loading payments:', error); 
-      setError('Failed to load payment history'); 
+      setError(error instanceof DecodeError ? error.message : 'Failed to load payment history'); 
     } finally { 
       setLoading(false); 
     }
-  }, [filter, sortBy, apiCall]);
+  }, [filter, sortBy]);
 
   useEffect(() => { loadPayments(); }, [loadPayments]);
 
@@ -5,6 +5,7 @@ import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { EnvelopeIcon, KeyIcon, EyeIcon, EyeSlashIcon, UserIcon, SunIcon, MoonIcon } from '@heroicons/react/24/outline';
 import { useTheme } from '@/app/context/ThemeContext'; // Make sure this path is correct
+import { getApiBaseUrl } from '@/app/services/apiClient';
 
 // A simple ThemeSwitcher component
 const ThemeSwitcher = () => {
@@ -76,7 +77,7 @@ export default function RegisterPage() {
     }
 
     try {
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/auth/register`, {
+      const response = await fetch(`${getApiBaseUrl()}/api/auth/register`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
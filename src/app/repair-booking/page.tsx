@@ -3,6 +3,7 @@
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
+import apiClient from '@/app/services/apiClient';
 
 export default function RepairBookingPage() {
   const router = useRouter();
@@ -28,24 +29,8 @@ export default function RepairBookingPage() {
       }
 
       // Try to find payment with this booking ID
-      const paymentsResponse = await fetch('http://localhost:5000/api/payments/history', {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        }
-      });
-
-      if (!paymentsResponse.ok) {
-        throw new Error('Failed to load payments');
-      }
-
-      const paymentsData = await paymentsResponse.json();
-      console.log('Payments data:', paymentsData);
-
-      const payment = paymentsData.payments?.find((p: any) => 
-        p.bookingId === bookingId || 
-        (p.booking && (p.booking.bookingId === bookingId || p.booking._id === bookingId))
-      );
+      const paymentsResponse = await apiClient.payments.history();
+      const payment = paymentsResponse.payments.find(p => p.bookingId === bookingId);
 
       if (!payment) {
         setStatus(`No payment found for booking ID: ${bookingId}`);
@@ -59,36 +44,36 @@ export default function RepairBookingPage() {
       const bookingData = {
         bookingId: bookingId,
         userId: payment.userId || 'unknown',
-        routeId: payment.booking?.routeId || 'repair-route',
-        scheduleId: payment.booking?.scheduleId || 'repair-schedule',
-        travelDate: payment.booking?.travelDate || new Date().toISOString(),
-        departureTime: payment.booking?.departureTime || '08:00',
-        passengerInfo: payment.booking?.passengerInfo || {
-          name: 'Repaired Booking',
-          phone: 'N/A',
-          email: 'N/A',
+        routeId: 'repair-route',
+        scheduleId: 'repair-schedule',
+        travelDate: new Date().toISOString(),
+        departureTime: '08:00',
+        passengerInfo: {
+          name: payment.billingInfo?.name || 'Repaired Booking',
+          phone: payment.billingInfo?.phone || 'N/A',
+          email: payment.billingInfo?.email || 'N/A',
           idType: 'nic',
           idNumber: 'N/A',
           passengerType: 'regular'
         },
-        seatInfo: payment.booking?.seatInfo || {
+        seatInfo: {
           seatNumber: 'N/A',
           seatType: 'window',
           preferences: []
         },
         pricing: {
-          basePrice: payment.amount || 0,
+          basePrice: payment.amount.total,
           taxes: 0,
           discounts: 0,
-          totalAmount: payment.amount || 0,
-          currency: payment.currency || 'LKR'
+          totalAmount: payment.amount.total,
+          currency: payment.amount.currency
         },
         paymentInfo: {
-          paymentId: payment._id || payment.id,
-          method: payment.method || 'card',
+          paymentId: payment._id,
+          method: payment.paymentMethod.type === 'unknown' ? 'card' : payment.paymentMethod.type,
           status: 'completed',
-          paidAt: payment.createdAt || new Date().toISOString(),
-          transactionId: payment.transactionId || payment._id
+          paidAt: payment.timestamps.completedAt || payment.createdAt,
+          transactionId: payment.transactionInfo.transactionId || payment._id
         },
         status: 'confirmed',
         checkInInfo: {
@@ -112,22 +97,7 @@ export default function RepairBookingPage() {
       };
 
       // Create the booking
-      const bookingResponse = await fetch('http://localhost:5000/api/bookings', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(bookingData)
-      });
-
-      if (!bookingResponse.ok) {
-        const errorText = await bookingResponse.text();
-        throw new Error(`Failed to create booking: ${errorText}`);
-      }
-
-      const bookingResult = await bookingResponse.json();
-      console.log('Booking created:', bookingResult);
+      await apiClient.bookings.create(bookingData);
 
       setStatus('✅ Booking repaired successfully!');
       
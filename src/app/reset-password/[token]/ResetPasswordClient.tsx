@@ -2,6 +2,7 @@
 
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
+import { getApiBaseUrl } from '@/app/services/apiClient';
 
 // Export as named export, not default
 export function ResetPasswordClient({ token }: { token: string }) {
@@ -37,7 +38,7 @@ export function ResetPasswordClient({ token }: { token: string }) {
     }
 
     try {
-    const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/auth/reset-password/${token}`, {
+    const response = await fetch(`${getApiBaseUrl()}/api/auth/reset-password/${token}`, {
   method: 'POST',
   headers: {
     'Content-Type': 'application/json',
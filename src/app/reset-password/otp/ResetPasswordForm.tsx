@@ -5,6 +5,7 @@ import { useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import { EyeIcon, EyeSlashIcon, KeyIcon, EnvelopeIcon, SunIcon, MoonIcon, ShieldExclamationIcon } from '@heroicons/react/24/outline';
 import { useTheme } from '@/app/context/ThemeContext'; // Make sure this path is correct
+import { getApiBaseUrl } from '@/app/services/apiClient';
 
 // A simple ThemeSwitcher component
 const ThemeSwitcher = () => {
@@ -80,7 +81,7 @@ export default function ResetPasswordForm() {
     setLoading(true);
 
     try {
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/auth/reset-password`, {
+      const response = await fetch(`${getApiBaseUrl()}/api/auth/reset-password`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ email, otp, password }),
@@ -3,73 +3,14 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import Link from 'next/link';
-import { useRouter, useParams } from 'next/navigation';
+import { useParams } from 'next/navigation';
+import apiClient, { ApiError, type RouteRealtime } from '@/app/services/apiClient';
+import { DecodeError, type Route } from '@/app/domain';
 
-interface Route {
-  _id: string;
-  routeId: string;
-  name: string;
-  startLocation: {
-    name: string;
-    coordinates: [number, number];
-    address: string;
-  };
-  endLocation: {
-    name: string;
-    coordinates: [number, number];
-    address: string;
-  };
-  waypoints: Array<{
-    name: string;
-    coordinates: [number, number];
-    estimatedTime: number;
-    order: number;
-  }>;
-  distance: number;
-  estimatedDuration: number;
-  schedules: Array<{
-    departureTime: string;
-    arrivalTime: string;
-    frequency: number;
-    daysOfWeek: string[];
-    isActive: boolean;
-  }>;
-  operatorInfo: {
-    fleetId: string;
-    companyName: string;
-    contactNumber: string;
-  };
-  vehicleInfo: {
-    type: 'bus' | 'train';
-    capacity: number;
-    amenities?: string[]; // FIX: Made amenities optional
-  };
-  pricing: {
-    basePrice: number;
-    pricePerKm: number;
-    discounts: Array<{
-      type: 'student' | 'senior' | 'military';
-      percentage: number;
-    }>;
-  };
-  status: 'active' | 'inactive' | 'maintenance';
-  avgRating: number;
-  totalReviews: number;
-  isActive: boolean;
-  createdAt: string;
-  updatedAt: string;
-}
 
-interface RealtimeData {
-  activeVehicles: number;
-  averageDelay: number;
-  nextDeparture: string;
-  occupancyRate: number;
-  lastUpdate: string;
-}
+type RealtimeData = RouteRealtime;
 
 export default function RouteDetailsPage() {
-  const router = useRouter();
   const params = useParams();
   const routeId = params.id as string;
   
@@ -79,70 +20,22 @@ export default function RouteDetailsPage() {
   const [error, setError] = useState('');
   const [activeTab, setActiveTab] = useState('overview');
 
-  const getToken = () => localStorage.getItem('token');
-
-  const apiCall = useCallback(async (endpoint: string, options: RequestInit = {}) => {
-    const token = getToken();
-    const baseURL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000';
-    const fullURL = `${baseURL}/api${endpoint}`;
-    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
-    
-    // Add any additional headers from options
-    if (options.headers) {
-      const optionsHeaders = options.headers;
-      if (optionsHeaders instanceof Headers) {
-        optionsHeaders.forEach((value, key) => {
-          headers[key] = value;
-        });
-      } else if (Array.isArray(optionsHeaders)) {
-        optionsHeaders.forEach(([key, value]) => {
-          headers[key] = value;
-        });
-      } else {
-        Object.entries(optionsHeaders).forEach(([key, value]) => {
-          if (typeof value === 'string') {
-            headers[key] = value;
-          }
-        });
-      }
-    }
-    
-    // Add auth header only if token exists
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`;
-    }
-    
-    try {
-      const response = await fetch(fullURL, { ...options, headers });
-      if (!response.ok) { 
-        if (response.status === 401 && token) { 
-          localStorage.removeItem('token'); 
-          localStorage.removeItem('user'); 
-          router.push('/login'); 
-          return null; 
-        } 
-        throw new Error(`API Error: ${response.status}`); 
-      }
-      return await response.json();
-    } catch (error) { console.error('API call error:', error); return null; }
-  }, [router]);
-
   const loadRouteDetails = useCallback(async () => {
     if (!routeId) return;
     setLoading(true); setError('');
     try {
-      const response = await apiCall(`/routes/${routeId}`);
-      if (response) { setRoute(response.route); } else { setError('Route not found'); }
-    } catch (error) { console.error('Error loading route details:', error); setError('Failed to load route details'); } finally { setLoading(false); }
-  }, [routeId, apiCall]);
+      const response = await apiClient.routes.get(routeId);
+      setRoute(response.route);
+    } catch (error) { console.error('Error loading route details:', error); setError(error instanceof ApiError && error.code === 'not_found' ? 'Route not found' : error instanceof DecodeError ? error.message : 'Failed to load route details'); } finally { setLoading(false); }
+  }, [routeId]);
 
   const loadRealtimeData = useCallback(async () => {
     if (!routeId) return;
     try {
-      const response = await apiCall(`/routes/${routeId}/realtime`);
-      if (response) { setRealtimeData(response.realtimeData); }
+      const response = await apiClient.routes.realtime(routeId);
+      setRealtimeData(response.realtimeData);
     } catch (error) { console.error('Error loading realtime data:', error); }
-  }, [routeId, apiCall]);
+  }, [routeId]);
 
   useEffect(() => { loadRouteDetails(); loadRealtimeData(); }, [loadRouteDetails, loadRealtimeData]);
 
@@ -230,7 +123,7 @@ export default function RouteDetailsPage() {
               <div style={{ width: '8px', height: '8px', backgroundColor: '#6B7280', borderRadius: '50%', flexShrink: 0 }}></div>
               <div>
                 <div style={{ fontWeight: '600', color: '#374151' }}>{waypoint.name}</div>
-                <div style={{ fontSize: '0.85rem', color: '#6B7280' }}>Est. time: {waypoint.estimatedTime} min</div>
+                {waypoint.estimatedTime !== undefined && <div style={{ fontSize: '0.85rem', color: '#6B7280' }}>Est. time: {waypoint.estimatedTime} min</div>}
               </div>
             </div>
           ))}
@@ -321,7 +214,7 @@ export default function RouteDetailsPage() {
               <div>
                 <h4 style={{ fontSize: '0.9rem', fontWeight: '600', color: '#374151', marginBottom: '0.5rem' }}>Frequency</h4>
                 <div style={{ fontSize: '0.9rem', color: '#6B7280' }}>
-                  Every {schedule.frequency} minutes
+                  {schedule.frequency ? `Every ${schedule.frequency} minutes` : 'Not set'}
                 </div>
               </div>
             </div>
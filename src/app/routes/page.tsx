@@ -3,25 +3,14 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import Link from 'next/link';
-import { useRouter } from 'next/navigation';
 import { useTheme } from '@/app/context/ThemeContext';
 import ThemeSwitcher from '@/app/components/ThemeSwitcher';
 import AnimatedBackground from '@/app/components/AnimatedBackground';
+import apiClient from '@/app/services/apiClient';
+import { DecodeError, type Route } from '@/app/domain';
 import { ShieldCheckIcon } from '@heroicons/react/24/outline';
 
 // --- Data Interfaces ---
-interface Route {
-  _id: string; routeId: string; name: string;
-  startLocation: { name: string; coordinates: [number, number]; address: string; };
-  endLocation: { name: string; coordinates: [number, number]; address: string; };
-  waypoints: Array<{ name: string; coordinates: [number, number]; estimatedTime: number; order: number; }>;
-  distance: number; estimatedDuration: number;
-  schedules: Array<{ departureTime: string; arrivalTime: string; frequency: number; daysOfWeek: string[]; isActive: boolean; }>;
-  operatorInfo: { fleetId: string; companyName: string; contactNumber: string; };
-  vehicleInfo: { type: 'bus' | 'train'; capacity: number; amenities: string[]; };
-  pricing: { basePrice: number; pricePerKm: number; discounts: Array<{ type: 'student' | 'senior' | 'military'; percentage: number; }>; };
-  status: 'active' | 'inactive' | 'maintenance'; avgRating: number; totalReviews: number; isActive: boolean; createdAt: string; updatedAt: string;
-}
 
 interface RoutesFilters {
   vehicleType: 'all' | 'bus' | 'train'; status: 'all' | 'active' | 'inactive' | 'maintenance'; minPrice: number; maxPrice: number;
@@ -29,7 +18,6 @@ interface RoutesFilters {
 }
 
 export default function RoutesPage() {
-  const router = useRouter();
   const { theme } = useTheme();
   
   // --- State Management ---
@@ -52,64 +40,21 @@ export default function RoutesPage() {
     .animate-fade-in-up { animation: fade-in-up 0.8s ease-out forwards; }
   `;
 
-  const getToken = () => localStorage.getItem('token');
-
-  const apiCall = useCallback(async (endpoint: string, options: RequestInit = {}) => {
-    const token = getToken();
-    
-    let baseURL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5001';
-    if (baseURL.endsWith('/api')) baseURL = baseURL.slice(0, -4);
-    
-    const fullURL = `${baseURL}/api${endpoint}`;
-    
-    try {
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json',
-        ...(options.headers as Record<string, string> || {})
-      };
-      
-      if (token) {
-        headers['Authorization'] = `Bearer ${token}`;
-      }
-      
-      const response = await fetch(fullURL, { 
-        ...options, 
-        headers 
-      });
-      
-      if (!response.ok) { 
-        if (response.status === 401 && token) { 
-          localStorage.removeItem('token'); 
-          localStorage.removeItem('user'); 
-          router.push('/login'); 
-          return null; 
-        } 
-        console.error(`API Error: ${response.status} - ${response.statusText}`);
-        throw new Error(`API Error: ${response.status}`); 
-      }
-      return await response.json();
-    } catch (error) { 
-      console.error('API call error:', error); 
-      return null; 
-    }
-  }, [router]);
-
   const loadRoutes = useCallback(async () => {
     setLoading(true); setError('');
     try {
-      const params = new URLSearchParams();
-      if (filters.vehicleType !== 'all') params.append('vehicleType', filters.vehicleType);
-      if (filters.status !== 'all') params.append('status', filters.status);
-      if (filters.search) params.append('search', filters.search);
-      if (filters.minPrice > 0) params.append('minPrice', filters.minPrice.toString());
-      if (filters.maxPrice < 10000) params.append('maxPrice', filters.maxPrice.toString());
-      params.append('sortBy', filters.sortBy); params.append('sortOrder', filters.sortOrder);
-      params.append('page', page.toString()); params.append('limit', pageSize.toString());
-
-      const response = await apiCall(`/routes?${params.toString()}`);
-      if (response) { setRoutes(response.routes || []); setTotalRoutes(response.total || 0); } else { setError('Failed to load routes'); }
-    } catch (error) { console.error('Error loading routes:', error); setError('Failed to load routes'); } finally { setLoading(false); }
-  }, [filters, page, pageSize, apiCall]);
+      const response = await apiClient.routes.list({
+        vehicleType: filters.vehicleType !== 'all' ? filters.vehicleType : undefined,
+        status: filters.status !== 'all' ? filters.status : undefined,
+        search: filters.search,
+        minPrice: filters.minPrice > 0 ? filters.minPrice : undefined,
+        maxPrice: filters.maxPrice < 10000 ? filters.maxPrice : undefined,
+        sortBy: filters.sortBy, sortOrder: filters.sortOrder,
+        page, limit: pageSize
+      });
+      setRoutes(response.routes); setTotalRoutes(response.total || 0);
+    } catch (error) { console.error('Error loading routes:', error); setError(error instanceof DecodeError ? error.message : 'Failed to load routes'); } finally { setLoading(false); }
+  }, [filters, page, pageSize]);
 
   useEffect(() => { loadRoutes(); }, [loadRoutes]);
 
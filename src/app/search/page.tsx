@@ -1,38 +1,29 @@
 // src/app/search/page.tsx - THE COMPLETE, FINAL, AND CORRECTED VERSION
 "use client";
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { useTheme } from '@/app/context/ThemeContext';
 import ThemeSwitcher from '@/app/components/ThemeSwitcher';
 import AnimatedBackground from '@/app/components/AnimatedBackground';
+import itineraryService, { DEFAULT_MIN_TRANSFER_MINUTES, type ItineraryLeg } from '@/app/services/itineraryService';
+import apiClient from '@/app/services/apiClient';
+import { DecodeError, type Route } from '@/app/domain';
 import { 
-  ShieldCheckIcon, MapPinIcon, StarIcon, ClockIcon, UsersIcon, BuildingOffice2Icon, PhoneIcon, MagnifyingGlassIcon, TruckIcon
+  ShieldCheckIcon, MapPinIcon, StarIcon, ClockIcon, UsersIcon, BuildingOffice2Icon, PhoneIcon, MagnifyingGlassIcon, TruckIcon, ArrowsRightLeftIcon
 } from '@heroicons/react/24/outline';
 
 // --- Data Interfaces ---
-interface Route {
-  _id: string;
-  routeId: string;
-  name: string;
-  startLocation: { name: string; coordinates: [number, number]; address: string; };
-  endLocation: { name:string; coordinates: [number, number]; address: string; };
-  distance: number;
-  estimatedDuration: number;
-  schedules: Array<{ departureTime: string; arrivalTime: string; frequency: number; daysOfWeek: string[]; isActive: boolean; }>;
-  operatorInfo: { companyName: string; contactNumber: string; };
-  vehicleInfo: { type: 'bus' | 'train'; capacity: number; amenities: string[]; };
-  pricing: { basePrice: number; pricePerKm: number; discounts: Array<{ type: string; percentage: number; }>; };
-  avgRating: number;
-  totalReviews: number;
-  status: 'active' | 'inactive' | 'maintenance';
-}
 
 interface SearchFilters {
   from: string;
   to: string;
   date: string;
+  tripType: 'one_way' | 'round_trip';
+  returnDate: string;
+  includeConnections: boolean;
+  minTransferMinutes: number;
   vehicleType: 'all' | 'bus' | 'train';
   maxPrice: number;
   sortBy: 'price' | 'duration' | 'rating' | 'departure';
@@ -50,10 +41,19 @@ export default function RouteSearchPage() {
     from: '',
     to: '',
     date: new Date().toISOString().split('T')[0],
+    tripType: 'one_way',
+    returnDate: '',
+    includeConnections: false,
+    minTransferMinutes: DEFAULT_MIN_TRANSFER_MINUTES,
     vehicleType: 'all',
     maxPrice: 10000,
     sortBy: 'departure'
   });
+  const [connections, setConnections] = useState<ItineraryLeg[][]>([]);
+  const [returnRoutes, setReturnRoutes] = useState<Route[]>([]);
+  const [returnConnections, setReturnConnections] = useState<ItineraryLeg[][]>([]);
+  const [selectedOutbound, setSelectedOutbound] = useState<ItineraryLeg[] | null>(null);
+  const [selectedReturn, setSelectedReturn] = useState<ItineraryLeg[] | null>(null);
 
   // --- Theme and Style Definitions ---
   const lightTheme = { mainBg: '#fffbeb', bgGradient: 'linear-gradient(to bottom right, #fffbeb, #fef3c7, #fde68a)', glassPanelBg: 'rgba(255, 255, 255, 0.92)', glassPanelBorder: '1px solid rgba(251, 191, 36, 0.3)', glassPanelShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.25), 0 10px 20px -5px rgba(0, 0, 0, 0.1)', textPrimary: '#1f2937', textSecondary: '#4B5563', textMuted: '#6B7280', quickActionBg: 'rgba(249, 250, 251, 0.8)', quickActionBorder: '1px solid rgba(209, 213, 219, 0.5)', alertBg: 'rgba(249, 250, 251, 0.6)' };
@@ -62,56 +62,156 @@ export default function RouteSearchPage() {
   const animationStyles = ` @keyframes road-marking { 0% { transform: translateX(-200%); } 100% { transform: translateX(500%); } } .animate-road-marking { animation: road-marking 10s linear infinite; } @keyframes car-right { 0% { transform: translateX(-100%); } 100% { transform: translateX(100vw); } } .animate-car-right { animation: car-right 15s linear infinite; } @keyframes car-left { 0% { transform: translateX(100vw) scaleX(-1); } 100% { transform: translateX(-200px) scaleX(-1); } } .animate-car-left { animation: car-left 16s linear infinite; } @keyframes light-blink { 0%, 100% { opacity: 1; box-shadow: 0 0 15px #fcd34d; } 50% { opacity: 0.6; box-shadow: 0 0 5px #fcd34d; } } .animate-light-blink { animation: light-blink 1s infinite; } @keyframes fade-in-down { from { opacity: 0; transform: translateY(-20px); } to { opacity: 1; transform: translateY(0); } } .animate-fade-in-down { animation: fade-in-down 0.8s ease-out forwards; } @keyframes fade-in-up { from { opacity: 0; transform: translateY(20px); } to { opacity: 1; transform: translateY(0); } } .animate-fade-in-up { animation: fade-in-up 0.8s ease-out forwards; } @keyframes trainMove { from { left: 100%; } to { left: -300px; } } @keyframes slight-bounce { 0%, 100% { transform: translateY(0px); } 50% { transform: translateY(-1px); } } .animate-slight-bounce { animation: slight-bounce 2s ease-in-out infinite; } @keyframes steam { 0% { opacity: 0.8; transform: translateY(0) scale(1); } 100% { opacity: 0; transform: translateY(-20px) scale(2.5); } } .animate-steam { animation: steam 2s ease-out infinite; } @keyframes wheels { 0% { transform: rotate(0deg); } 100% { transform: rotate(-360deg); } } .animate-wheels { animation: wheels 2s linear infinite; } .animation-delay-100 { animation-delay: 0.1s; } .animation-delay-200 { animation-delay: 0.2s; } .animation-delay-300 { animation-delay: 0.3s; } .animation-delay-400 { animation-delay: 0.4s; } .animation-delay-500 { animation-delay: 0.5s; } .animation-delay-600 { animation-delay: 0.6s; } .animation-delay-700 { animation-delay: 0.7s; } .animation-delay-800 { animation-delay: 0.8s; } .animation-delay-1000 { animation-delay: 1s; } .animation-delay-1200 { animation-delay: 1.2s; } .animation-delay-1500 { animation-delay: 1.5s; } .animation-delay-2000 { animation-delay: 2s; } .animation-delay-2500 { animation-delay: 2.5s; } .animation-delay-3000 { animation-delay: 3s; } @media (max-width: 768px) { .animated-vehicle { display: none; } } `;
 
   // --- API and Data Logic ---
-  const getToken = () => typeof window !== 'undefined' ? localStorage.getItem('token') : null;
+  const searchDirect = async (from: string, to: string, date: string): Promise<Route[]> => {
+    const response = await apiClient.routes.search({ from, to, date, maxPrice: filters.maxPrice, sortBy: filters.sortBy, vehicleType: filters.vehicleType === 'all' ? undefined : filters.vehicleType });
+    return response.routes;
+  };
 
-  const apiCall = useCallback(async (endpoint: string, options: RequestInit = {}) => {
-    const token = getToken();
-    if (!token) { router.push('/login'); return null; }
-    const baseURL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000';
-    const fullURL = `${baseURL}${endpoint}`;
-    try {
-      const response = await fetch(fullURL, {
-        ...options,
-        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}`, ...options.headers },
-      });
-      if (!response.ok) {
-        if (response.status === 401) { localStorage.removeItem('token'); localStorage.removeItem('user'); router.push('/login'); return null; }
-        throw new Error(`API Error: ${response.status}`);
-      }
-      return await response.json();
-    } catch (error) { console.error('API call error:', error); return null; }
-  }, [router]);
+  // Connections are chained client-side from the full route list
+  const searchConnections = async (from: string, to: string, date: string): Promise<ItineraryLeg[][]> => {
+    const response = await apiClient.routes.list({ limit: 500, status: 'active' }, { auth: 'required' });
+    const allRoutes = response.routes.filter(r => filters.vehicleType === 'all' || r.vehicleInfo.type === filters.vehicleType);
+    return itineraryService
+      .findConnections(allRoutes, from, to, date, { minTransferMinutes: filters.minTransferMinutes })
+      .filter(legs => legs.reduce((sum, leg) => sum + leg.basePrice, 0) <= filters.maxPrice);
+  };
 
   const handleSearch = async () => {
     if (!filters.from || !filters.to) { setError('Please enter both departure and destination locations'); return; }
+    if (filters.tripType === 'round_trip' && (!filters.returnDate || filters.returnDate < filters.date)) { setError('Please choose a return date on or after the departure date'); return; }
     setLoading(true);
     setError('');
+    setSelectedOutbound(null);
+    setSelectedReturn(null);
     try {
-      const params = new URLSearchParams({ from: filters.from, to: filters.to, date: filters.date, maxPrice: filters.maxPrice.toString(), sortBy: filters.sortBy });
-      if (filters.vehicleType !== 'all') params.append('vehicleType', filters.vehicleType);
-      const response = await apiCall(`/api/routes/search?${params.toString()}`);
-      if (response) { setRoutes(response.routes || []); } else { setError('Failed to search routes'); }
-    } catch (error) { console.error('Search error:', error); setError('Failed to search routes'); } 
+      const isRoundTrip = filters.tripType === 'round_trip';
+      const [outbound, outboundConnections, inbound, inboundConnections] = await Promise.all([
+        searchDirect(filters.from, filters.to, filters.date),
+        filters.includeConnections ? searchConnections(filters.from, filters.to, filters.date) : Promise.resolve([]),
+        isRoundTrip ? searchDirect(filters.to, filters.from, filters.returnDate) : Promise.resolve([]),
+        isRoundTrip && filters.includeConnections ? searchConnections(filters.to, filters.from, filters.returnDate) : Promise.resolve([]),
+      ]);
+      setRoutes(outbound);
+      setConnections(outboundConnections);
+      setReturnRoutes(inbound);
+      setReturnConnections(inboundConnections);
+    } catch (error) { console.error('Search error:', error); setError(error instanceof DecodeError ? error.message : 'Failed to search routes'); } 
     finally { setLoading(false); }
   };
 
+  // Hand the chosen legs to the booking page as one itinerary
+  const bookItinerary = (type: 'round_trip' | 'multi_leg', legs: ItineraryLeg[]) => {
+    const itinerary = itineraryService.create(type, legs);
+    itineraryService.savePending(itinerary);
+    router.push(`/book?itineraryId=${itinerary.itineraryId}`);
+  };
+
+  const selectJourney = (direction: 'outbound' | 'return', legs: ItineraryLeg[]) => {
+    if (direction === 'outbound') setSelectedOutbound(legs); else setSelectedReturn(legs);
+  };
+
   useEffect(() => {
     const loadPopularRoutes = async () => {
       setLoading(true);
-      const response = await apiCall('/api/routes?limit=10&sortBy=totalReviews&sortOrder=desc');
-      if (response) { setRoutes(response.routes || []); }
-      setLoading(false);
+      try {
+        const response = await apiClient.routes.list({ limit: 10, sortBy: 'totalReviews', sortOrder: 'desc' }, { auth: 'required' });
+        setRoutes(response.routes);
+      } catch (error) { console.error('Error loading popular routes:', error); }
+      finally { setLoading(false); }
     };
     loadPopularRoutes();
-  }, [apiCall]);
+  }, []);
 
   // --- Helper Functions ---
   const formatPrice = (price: number) => `Rs. ${price.toLocaleString()}`;
   const formatDuration = (minutes: number) => `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  const isRoundTrip = filters.tripType === 'round_trip';
+  const journeyKey = (legs: ItineraryLeg[]) => legs.map(l => `${l.routeId}:${l.scheduleId || ''}`).join('|');
+  const isSelected = (direction: 'outbound' | 'return', legs: ItineraryLeg[]) => {
+    const selected = direction === 'outbound' ? selectedOutbound : selectedReturn;
+    return !!selected && journeyKey(selected) === journeyKey(legs);
+  };
   const renderStars = (rating: number) => Array.from({ length: 5 }, (_, i) => (
     <StarIcon key={i} width={16} height={16} style={{ color: i < Math.round(rating) ? '#FBBF24' : (theme === 'dark' ? '#4B5563' : '#D1D5DB'), display: 'inline' }} />
   ));
 
+  const renderRouteCard = (route: Route, direction: 'outbound' | 'return', travelDate: string) => (
+    <div key={`${direction}-${route._id}`} style={{ backgroundColor: currentThemeStyles.glassPanelBg, padding: '1.5rem', borderRadius: '1rem', boxShadow: currentThemeStyles.glassPanelShadow, backdropFilter: 'blur(16px)', border: currentThemeStyles.glassPanelBorder }}>
+      <div className="result-card-flex" style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', marginBottom: '1rem' }}>
+        <div style={{ flex: 1 }}>
+          <h3 style={{ fontSize: '1.2rem', fontWeight: '600', color: currentThemeStyles.textPrimary, margin: '0 0 0.5rem 0' }}>{route.name}</h3>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '1rem', color: currentThemeStyles.textSecondary, marginBottom: '0.5rem' }}>
+            <span>{route.startLocation.name}</span><span>→</span><span>{route.endLocation.name}</span>
+          </div>
+          <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '1rem', fontSize: '0.9rem', color: currentThemeStyles.textMuted }}>
+            <span style={{ display: 'flex', alignItems: 'center', gap: '0.25rem' }}><TruckIcon width={16} /> {route.vehicleInfo.type}</span>
+            <span style={{ display: 'flex', alignItems: 'center', gap: '0.25rem' }}><ClockIcon width={16} /> {formatDuration(route.estimatedDuration)}</span>
+            <span style={{ display: 'flex', alignItems: 'center', gap: '0.25rem' }}><MapPinIcon width={16} /> {route.distance}km</span>
+            <span style={{ display: 'flex', alignItems: 'center', gap: '0.25rem' }}><UsersIcon width={16} /> {route.vehicleInfo.capacity} seats</span>
+          </div>
+        </div>
+        <div className="result-card-right" style={{ textAlign: 'right', minWidth: '120px' }}>
+          <div style={{ fontSize: '1.5rem', fontWeight: 'bold', color: '#F59E0B', marginBottom: '0.5rem' }}>{formatPrice(route.pricing.basePrice)}</div>
+          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'flex-end', gap: '0.5rem', fontSize: '0.9rem', color: currentThemeStyles.textSecondary }}>
+            <div>{renderStars(route.avgRating)}</div>
+            <span>({route.totalReviews})</span>
+          </div>
+        </div>
+      </div>
+      <div className="result-card-footer" style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', paddingTop: '1rem', borderTop: `1px solid ${currentThemeStyles.quickActionBorder}` }}>
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '1rem', fontSize: '0.9rem', color: currentThemeStyles.textMuted }}>
+          <span style={{ display: 'flex', alignItems: 'center', gap: '0.25rem' }}><BuildingOffice2Icon width={16} /> {route.operatorInfo.companyName}</span>
+          <span style={{ display: 'flex', alignItems: 'center', gap: '0.25rem' }}><PhoneIcon width={16} /> {route.operatorInfo.contactNumber}</span>
+        </div>
+        <div className="result-card-footer-links" style={{ display: 'flex', gap: '0.5rem' }}>
+          <Link href={`/routes/${route._id}`} style={{ backgroundColor: 'rgba(59, 130, 246, 0.8)', color: 'white', padding: '0.5rem 1rem', borderRadius: '0.5rem', textDecoration: 'none', fontSize: '0.9rem', fontWeight: '500' }}>View Details</Link>
+          {isRoundTrip ? (
+            <button onClick={() => selectJourney(direction, [itineraryService.legFromRoute(route, travelDate)])} style={{ backgroundColor: isSelected(direction, [itineraryService.legFromRoute(route, travelDate)]) ? '#10B981' : '#F59E0B', color: 'white', padding: '0.5rem 1rem', border: 'none', borderRadius: '0.5rem', cursor: 'pointer', fontSize: '0.9rem', fontWeight: '500' }}>{isSelected(direction, [itineraryService.legFromRoute(route, travelDate)]) ? '✓ Selected' : direction === 'outbound' ? 'Select Outbound' : 'Select Return'}</button>
+          ) : (
+            <Link href={`/book?routeId=${route._id}`} style={{ backgroundColor: '#F59E0B', color: 'white', padding: '0.5rem 1rem', borderRadius: '0.5rem', textDecoration: 'none', fontSize: '0.9rem', fontWeight: '500' }}>Book Now</Link>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+
+  // A journey that changes vehicles at a shared stop
+  const renderConnectionCard = (legs: ItineraryLeg[], direction: 'outbound' | 'return') => {
+    const transfer = itineraryService.transferMinutes(legs[0], legs[1]);
+    const total = legs.reduce((sum, leg) => sum + leg.basePrice, 0);
+    return (
+      <div key={`${direction}-${journeyKey(legs)}`} style={{ backgroundColor: currentThemeStyles.glassPanelBg, padding: '1.5rem', borderRadius: '1rem', boxShadow: currentThemeStyles.glassPanelShadow, backdropFilter: 'blur(16px)', border: currentThemeStyles.glassPanelBorder }}>
+        <div className="result-card-flex" style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', marginBottom: '1rem' }}>
+          <div style={{ flex: 1 }}>
+            <h3 style={{ fontSize: '1.2rem', fontWeight: '600', color: currentThemeStyles.textPrimary, margin: '0 0 0.5rem 0' }}>{legs[0].from} → {legs[legs.length - 1].to} <span style={{ fontSize: '0.8rem', fontWeight: '500', color: '#8B5CF6' }}>via {legs[0].to}</span></h3>
+            <div style={{ display: 'grid', gap: '0.5rem', fontSize: '0.9rem', color: currentThemeStyles.textSecondary }}>
+              {legs.map((leg, index) => (
+                <div key={index} style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '0.75rem' }}>
+                  <span style={{ fontWeight: '600', color: currentThemeStyles.textPrimary }}>Leg {index + 1}</span>
+                  <span>{leg.routeName}</span>
+                  <span style={{ display: 'flex', alignItems: 'center', gap: '0.25rem', color: currentThemeStyles.textMuted }}><ClockIcon width={16} /> {leg.departureTime} – {leg.arrivalTime}</span>
+                  <span style={{ color: currentThemeStyles.textMuted }}>{leg.travelDate}</span>
+                </div>
+              ))}
+              {transfer !== null && <div style={{ color: '#8B5CF6' }}>🔁 {formatDuration(transfer)} transfer at {legs[0].to}</div>}
+            </div>
+          </div>
+          <div className="result-card-right" style={{ textAlign: 'right', minWidth: '120px' }}>
+            <div style={{ fontSize: '1.5rem', fontWeight: 'bold', color: '#F59E0B', marginBottom: '0.5rem' }}>{formatPrice(total)}</div>
+            <div style={{ fontSize: '0.9rem', color: currentThemeStyles.textMuted }}>{legs.length} legs</div>
+          </div>
+        </div>
+        <div className="result-card-footer" style={{ display: 'flex', justifyContent: 'flex-end', paddingTop: '1rem', borderTop: `1px solid ${currentThemeStyles.quickActionBorder}` }}>
+          {isRoundTrip ? (
+            <button onClick={() => selectJourney(direction, legs)} style={{ backgroundColor: isSelected(direction, legs) ? '#10B981' : '#F59E0B', color: 'white', padding: '0.5rem 1rem', border: 'none', borderRadius: '0.5rem', cursor: 'pointer', fontSize: '0.9rem', fontWeight: '500' }}>{isSelected(direction, legs) ? '✓ Selected' : direction === 'outbound' ? 'Select Outbound' : 'Select Return'}</button>
+          ) : (
+            <button onClick={() => bookItinerary('multi_leg', legs)} style={{ backgroundColor: '#F59E0B', color: 'white', padding: '0.5rem 1rem', border: 'none', borderRadius: '0.5rem', cursor: 'pointer', fontSize: '0.9rem', fontWeight: '500' }}>Book Journey</button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
   return (
     <div style={{ backgroundColor: currentThemeStyles.mainBg, minHeight: '100vh', position: 'relative', overflowX: 'hidden' }}>
       <style jsx>{animationStyles}</style>
@@ -192,6 +292,25 @@ export default function RouteSearchPage() {
 
             {/* --- Styled Search Form (Glass Panel) --- */}
             <div style={{ backgroundColor: currentThemeStyles.glassPanelBg, padding: '2rem', borderRadius: '1rem', boxShadow: currentThemeStyles.glassPanelShadow, backdropFilter: 'blur(16px)', border: currentThemeStyles.glassPanelBorder, marginBottom: '2rem' }}>
+              <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '1.5rem', marginBottom: '1.5rem' }}>
+                <div style={{ display: 'flex', gap: '0.5rem' }}>
+                  {([['one_way', 'One Way'], ['round_trip', 'Round Trip']] as const).map(([value, label]) => (
+                    <button key={value} type="button" onClick={() => setFilters(prev => ({ ...prev, tripType: value }))} style={{ padding: '0.5rem 1rem', borderRadius: '999px', border: '2px solid', borderColor: filters.tripType === value ? '#F59E0B' : 'rgba(156, 163, 175, 0.5)', backgroundColor: filters.tripType === value ? '#F59E0B' : 'transparent', color: filters.tripType === value ? 'white' : currentThemeStyles.textSecondary, fontWeight: '600', cursor: 'pointer' }}>{label}</button>
+                  ))}
+                </div>
+                <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', color: currentThemeStyles.textSecondary, fontWeight: '500', cursor: 'pointer' }}>
+                  <input type="checkbox" checked={filters.includeConnections} onChange={(e) => setFilters(prev => ({ ...prev, includeConnections: e.target.checked }))} />
+                  Include connections
+                </label>
+                {filters.includeConnections && (
+                  <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', color: currentThemeStyles.textSecondary, fontWeight: '500' }}>
+                    Min. transfer
+                    <select value={filters.minTransferMinutes} onChange={(e) => setFilters(prev => ({ ...prev, minTransferMinutes: parseInt(e.target.value) }))} className="form-select" style={{ width: 'auto', padding: '0.4rem 0.75rem', backgroundColor: currentThemeStyles.alertBg, color: currentThemeStyles.textPrimary, border: `1px solid ${currentThemeStyles.quickActionBorder}` }}>
+                      {[15, 30, 45, 60, 90, 120].map(m => <option key={m} value={m}>{m} min</option>)}
+                    </select>
+                  </label>
+                )}
+              </div>
               <div className="search-form-grid" style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(220px, 1fr))', gap: '1.5rem', marginBottom: '1.5rem' }}>
                 <div>
                   <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '600', color: currentThemeStyles.textSecondary }}>From</label>
@@ -205,6 +324,12 @@ export default function RouteSearchPage() {
                   <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '600', color: currentThemeStyles.textSecondary }}>Date</label>
                   <input type="date" value={filters.date} onChange={(e) => setFilters(prev => ({ ...prev, date: e.target.value }))} className="form-input" style={{ backgroundColor: currentThemeStyles.alertBg, color: currentThemeStyles.textPrimary, border: `1px solid ${currentThemeStyles.quickActionBorder}` }} />
                 </div>
+                {isRoundTrip && (
+                  <div>
+                    <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '600', color: currentThemeStyles.textSecondary }}>Return Date</label>
+                    <input type="date" value={filters.returnDate} min={filters.date} onChange={(e) => setFilters(prev => ({ ...prev, returnDate: e.target.value }))} className="form-input" style={{ backgroundColor: currentThemeStyles.alertBg, color: currentThemeStyles.textPrimary, border: `1px solid ${currentThemeStyles.quickActionBorder}` }} />
+                  </div>
+                )}
                 <div>
                   <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '600', color: currentThemeStyles.textSecondary }}>Vehicle Type</label>
                   {/* ✅ FIXED: Cast to the specific union type instead of any */}
@@ -244,43 +369,10 @@ export default function RouteSearchPage() {
                 <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', padding: '4rem' }}>
                   <div style={{ width: '40px', height: '40px', border: '4px solid rgba(251, 191, 36, 0.3)', borderTop: '4px solid #F59E0B', borderRadius: '50%', animation: 'spin 1s linear infinite' }}></div>
                 </div>
-              ) : routes.length > 0 ? (
+              ) : routes.length > 0 || connections.length > 0 ? (
                 <div style={{ display: 'grid', gap: '1.5rem' }}>
-                  {routes.map((route) => (
-                    <div key={route._id} style={{ backgroundColor: currentThemeStyles.glassPanelBg, padding: '1.5rem', borderRadius: '1rem', boxShadow: currentThemeStyles.glassPanelShadow, backdropFilter: 'blur(16px)', border: currentThemeStyles.glassPanelBorder }}>
-                      <div className="result-card-flex" style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', marginBottom: '1rem' }}>
-                        <div style={{ flex: 1 }}>
-                          <h3 style={{ fontSize: '1.2rem', fontWeight: '600', color: currentThemeStyles.textPrimary, margin: '0 0 0.5rem 0' }}>{route.name}</h3>
-                          <div style={{ display: 'flex', alignItems: 'center', gap: '1rem', color: currentThemeStyles.textSecondary, marginBottom: '0.5rem' }}>
-                            <span>{route.startLocation.name}</span><span>→</span><span>{route.endLocation.name}</span>
-                          </div>
-                          <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '1rem', fontSize: '0.9rem', color: currentThemeStyles.textMuted }}>
-                            <span style={{ display: 'flex', alignItems: 'center', gap: '0.25rem' }}><TruckIcon width={16} /> {route.vehicleInfo.type}</span>
-                            <span style={{ display: 'flex', alignItems: 'center', gap: '0.25rem' }}><ClockIcon width={16} /> {formatDuration(route.estimatedDuration)}</span>
-                            <span style={{ display: 'flex', alignItems: 'center', gap: '0.25rem' }}><MapPinIcon width={16} /> {route.distance}km</span>
-                            <span style={{ display: 'flex', alignItems: 'center', gap: '0.25rem' }}><UsersIcon width={16} /> {route.vehicleInfo.capacity} seats</span>
-                          </div>
-                        </div>
-                        <div className="result-card-right" style={{ textAlign: 'right', minWidth: '120px' }}>
-                          <div style={{ fontSize: '1.5rem', fontWeight: 'bold', color: '#F59E0B', marginBottom: '0.5rem' }}>{formatPrice(route.pricing.basePrice)}</div>
-                          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'flex-end', gap: '0.5rem', fontSize: '0.9rem', color: currentThemeStyles.textSecondary }}>
-                            <div>{renderStars(route.avgRating)}</div>
-                            <span>({route.totalReviews})</span>
-                          </div>
-                        </div>
-                      </div>
-                      <div className="result-card-footer" style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', paddingTop: '1rem', borderTop: `1px solid ${currentThemeStyles.quickActionBorder}` }}>
-                        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '1rem', fontSize: '0.9rem', color: currentThemeStyles.textMuted }}>
-                          <span style={{ display: 'flex', alignItems: 'center', gap: '0.25rem' }}><BuildingOffice2Icon width={16} /> {route.operatorInfo.companyName}</span>
-                          <span style={{ display: 'flex', alignItems: 'center', gap: '0.25rem' }}><PhoneIcon width={16} /> {route.operatorInfo.contactNumber}</span>
-                        </div>
-                        <div className="result-card-footer-links" style={{ display: 'flex', gap: '0.5rem' }}>
-                          <Link href={`/routes/${route._id}`} style={{ backgroundColor: 'rgba(59, 130, 246, 0.8)', color: 'white', padding: '0.5rem 1rem', borderRadius: '0.5rem', textDecoration: 'none', fontSize: '0.9rem', fontWeight: '500' }}>View Details</Link>
-                          <Link href={`/book?routeId=${route._id}`} style={{ backgroundColor: '#F59E0B', color: 'white', padding: '0.5rem 1rem', borderRadius: '0.5rem', textDecoration: 'none', fontSize: '0.9rem', fontWeight: '500' }}>Book Now</Link>
-                        </div>
-                      </div>
-                    </div>
-                  ))}
+                  {routes.map((route) => renderRouteCard(route, 'outbound', filters.date))}
+                  {connections.map((legs) => renderConnectionCard(legs, 'outbound'))}
                 </div>
               ) : (
                 <div style={{ textAlign: 'center', padding: '4rem', color: currentThemeStyles.textSecondary, backgroundColor: currentThemeStyles.glassPanelBg, borderRadius: '1rem', boxShadow: currentThemeStyles.glassPanelShadow, backdropFilter: 'blur(16px)', border: currentThemeStyles.glassPanelBorder }}>
@@ -290,6 +382,30 @@ export default function RouteSearchPage() {
                 </div>
               )}
             </div>
+
+            {/* --- Return Journey Results --- */}
+            {isRoundTrip && !loading && (returnRoutes.length > 0 || returnConnections.length > 0) && (
+              <div className="animate-fade-in-up" style={{ marginTop: '2.5rem' }}>
+                <h2 style={{ fontSize: '1.5rem', fontWeight: 'bold', color: currentThemeStyles.textPrimary, marginBottom: '1rem', display: 'flex', alignItems: 'center', gap: '0.5rem' }}><ArrowsRightLeftIcon width={24} /> Return: {filters.to} → {filters.from}</h2>
+                <div style={{ display: 'grid', gap: '1.5rem' }}>
+                  {returnRoutes.map((route) => renderRouteCard(route, 'return', filters.returnDate))}
+                  {returnConnections.map((legs) => renderConnectionCard(legs, 'return'))}
+                </div>
+              </div>
+            )}
+
+            {/* --- Selected Round Trip Summary --- */}
+            {isRoundTrip && (selectedOutbound || selectedReturn) && (
+              <div style={{ position: 'sticky', bottom: '1rem', marginTop: '2rem', backgroundColor: currentThemeStyles.glassPanelBg, padding: '1rem 1.5rem', borderRadius: '1rem', boxShadow: currentThemeStyles.glassPanelShadow, backdropFilter: 'blur(16px)', border: '2px solid #F59E0B', display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem', flexWrap: 'wrap' }}>
+                <div style={{ fontSize: '0.9rem', color: currentThemeStyles.textSecondary, lineHeight: '1.6' }}>
+                  <div><strong style={{ color: currentThemeStyles.textPrimary }}>Outbound:</strong> {selectedOutbound ? selectedOutbound.map(l => l.routeName).join(' + ') : 'not selected'}</div>
+                  <div><strong style={{ color: currentThemeStyles.textPrimary }}>Return:</strong> {selectedReturn ? selectedReturn.map(l => l.routeName).join(' + ') : 'not selected'}</div>
+                </div>
+                <button onClick={() => selectedOutbound && selectedReturn && bookItinerary('round_trip', [...selectedOutbound, ...selectedReturn])} disabled={!selectedOutbound || !selectedReturn} style={{ backgroundColor: selectedOutbound && selectedReturn ? '#F59E0B' : '#9CA3AF', color: 'white', padding: '0.75rem 1.5rem', border: 'none', borderRadius: '0.5rem', fontWeight: '600', cursor: selectedOutbound && selectedReturn ? 'pointer' : 'not-allowed' }}>
+                  Book Round Trip ({formatPrice([...(selectedOutbound || []), ...(selectedReturn || [])].reduce((sum, l) => sum + l.basePrice, 0))})
+                </button>
+              </div>
+            )}
           </div>
         </main>
       </div>
@@ -0,0 +1,1165 @@
+// /app/services/apiClient.ts
+// Shared client for the Sri Express backend – one base URL, one error shape, retries and 401 handling
+import requestCache from '@/app/services/requestCache';
+import type { AgentStatus, OverflowAction, RoutingAgent, RoutingSettings } from '@/app/services/chatRouting';
+import type { SeatHold, SeatInventory, SeatQuery } from '@/app/services/seatService';
+import type { SavedTicketView } from '@/app/services/ticketViewService';
+import type { CustomerProfile, CustomerSummary } from '@/app/services/customerService';
+import type { SlaPolicy } from '@/app/services/slaService';
+import type { Macro } from '@/app/services/macroService';
+import {
+  decodeAgentWorkloads, decodeArticle, decodeArticles, decodeBooking, decodeBookings, decodeChatTranscripts, decodePayments, decodeReplySuggestions,
+  decodeRoute, decodeRoutes, decodeSurvey, decodeSurveys, decodeTicket, decodeTickets, decodeVehicleLocations,
+  type Booking, type NewTicket, type Payment, type Route, type SuggestionFeedback, type TicketUpdate, type VehicleLocation,
+} from '@/app/domain';
+
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+type QueryValue = string | number | boolean | undefined | null;
+
+// Which stored token authenticates a request. Customer service has its own session.
+type AuthRealm = 'user' | 'cs';
+
+type ApiErrorCode = 'network' | 'timeout' | 'unauthorized' | 'forbidden' | 'not_found' | 'conflict' | 'validation' | 'rate_limited' | 'server' | 'http';
+
+interface RequestOptions {
+  method?: HttpMethod;
+  query?: Record<string, QueryValue>;
+  body?: unknown;
+  headers?: Record<string, string>;
+  // 'required' redirects to the login page when there is no token, 'optional' sends it when present
+  auth?: 'required' | 'optional' | 'none';
+  realm?: AuthRealm;
+  // Retries for transient failures; idempotent requests retry by default, POST and PATCH do not
+  retries?: number;
+  timeoutMs?: number;
+  // Leave 401s to the caller instead of clearing the session and redirecting
+  skipAuthRedirect?: boolean;
+  signal?: AbortSignal;
+  // Lets the request finish after the page is closed, e.g. giving something back on `pagehide`
+  keepalive?: boolean;
+}
+
+// --- Shared response models ---
+interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  pages: number;
+}
+
+interface RouteSearchParams {
+  from: string;
+  to: string;
+  date: string;
+  vehicleType?: 'bus' | 'train';
+  maxPrice?: number;
+  sortBy?: 'price' | 'duration' | 'rating' | 'departure';
+}
+
+interface RouteListParams {
+  page?: number;
+  limit?: number;
+  status?: 'active' | 'inactive' | 'maintenance';
+  vehicleType?: string;
+  search?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+}
+
+interface RoutesResponse {
+  routes: Route[];
+  total?: number;
+  pagination?: Pagination;
+}
+
+interface BookingListParams {
+  status?: string;
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+  limit?: number;
+  page?: number;
+}
+
+// Counts over all of the passenger's bookings, not just the page returned
+interface BookingStats {
+  totalBookings: number;
+  confirmedBookings: number;
+  completedBookings: number;
+  cancelledBookings: number;
+}
+
+interface BookingsResponse {
+  bookings: Booking[];
+  stats?: BookingStats;
+  pagination?: Pagination;
+}
+
+interface QRCodeRequest {
+  passengerIndex?: number;
+  seatNumber?: string;
+}
+
+interface QRCodeResponse {
+  qrCode: string;
+}
+
+interface PaymentHistoryParams {
+  status?: string;
+  method?: string;
+  page?: number;
+  limit?: number;
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+}
+
+interface PaymentStats {
+  totalPayments: number;
+  totalAmount: number;
+  successfulPayments: number;
+  failedPayments: number;
+  refundedPayments: number;
+  pendingPayments: number;
+}
+
+interface PaymentsResponse {
+  payments: Payment[];
+  stats?: PaymentStats;
+  pagination?: Pagination;
+}
+
+interface PaymentConfirmRequest {
+  bookingId: string;
+  transactionId: string;
+  paymentData: unknown;
+}
+
+// What the simulated payment gateway charges for a booking
+interface GatewayBooking {
+  id: string;
+  bookingId: string;
+  amount: number;
+  currency: string;
+  status: string;
+  paymentStatus: string;
+}
+
+interface GatewayPaymentMethod {
+  id: string;
+  name: string;
+  fee: number;
+  available: boolean;
+}
+
+interface PaymentGatewayResponse {
+  booking: GatewayBooking;
+  paymentMethods?: GatewayPaymentMethod[];
+}
+
+// GET /routes/:id/realtime: how the route is running right now
+interface RouteRealtime {
+  activeVehicles: number;
+  averageDelay: number;
+  nextDeparture: string;
+  occupancyRate: number;
+  lastUpdate: string;
+}
+
+// The part of the map to return vehicles for; omitted, the whole fleet comes back
+interface TrackingBoundsParams {
+  minLat?: number;
+  minLng?: number;
+  maxLat?: number;
+  maxLng?: number;
+}
+
+interface VehiclesResponse {
+  vehicles: VehicleLocation[];
+}
+
+interface SimulationStatus {
+  isRunning: boolean;
+  vehicleCount: number;
+  speedMultiplier: number;
+  routes: number;
+  lastUpdate: string;
+}
+
+interface SimulationResponse {
+  simulation: SimulationStatus;
+}
+
+interface SimulationControl {
+  action: 'start' | 'stop' | 'speed';
+  speed?: number;
+}
+
+interface AdminListParams {
+  page?: number;
+  limit?: number;
+  search?: string;
+  status?: string;
+  role?: string;
+  vehicleType?: string;
+  isActive?: boolean;
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+}
+
+// Admin lists page with their own shape, e.g. { currentPage, totalPages, totalUsers, hasNext, hasPrev }
+interface AdminPagination {
+  currentPage: number;
+  totalPages: number;
+  hasNext: boolean;
+  hasPrev: boolean;
+  totalUsers?: number;
+  totalDevices?: number;
+}
+
+type UserRole = 'client' | 'customer_service' | 'route_admin' | 'company_admin' | 'system_admin';
+
+// The signed-in passenger, as /auth/profile and the dashboard profile form return it
+interface UserProfile {
+  _id: string;
+  name: string;
+  email: string;
+  phone?: string;
+  role: string;
+}
+
+interface DashboardStats {
+  totalTrips: number;
+  totalSpent: number;
+  upcomingTrips: number;
+  onTimeRate: number;
+  totalBookings?: number;
+  confirmedBookings?: number;
+  totalPayments?: number;
+  averagePayment?: number;
+  recentActivity?: number;
+  favoriteRoutes?: string[];
+}
+
+// A trip as the dashboard panels summarise it, not a full booking
+interface DashboardTrip {
+  _id: string;
+  route: string;
+  fromLocation: string;
+  toLocation: string;
+  date: string;
+  time?: string;
+  seat?: string;
+  price: number;
+  status: 'upcoming' | 'completed' | 'cancelled';
+}
+
+interface AdminUser {
+  _id: string;
+  name: string;
+  email: string;
+  role: UserRole;
+  phone?: string;
+  department?: string;
+  company?: string;
+  permissions?: string[];
+  isActive: boolean;
+  lastLogin?: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+interface AdminUserStats {
+  totalUsers: number;
+  activeUsers: number;
+  inactiveUsers: number;
+  recentRegistrations: number;
+  byRole: Record<string, number>;
+}
+
+// One user's usage; the role-specific counts are only there for that role
+interface UserStatistics {
+  userId: string;
+  role: string;
+  accountCreated: string;
+  lastLogin?: string;
+  isActive: boolean;
+  totalLogins: number;
+  totalActivities: number;
+  recentActivities: number;
+  lastActiveDate: string;
+  averageSessionsPerDay: number;
+  activityByCategory: Record<string, number>;
+  tripsBooked?: number;
+  completedTrips?: number;
+  devicesManaged?: number;
+  onlineDevices?: number;
+  ticketsHandled?: number;
+  usersManaged?: number;
+  failedLoginAttempts: number;
+  trends: { loginTrend: number; activityTrend: number };
+}
+
+interface UserActivity {
+  id: string;
+  action: string;
+  description: string;
+  category: string;
+  severity: string;
+  timestamp: string;
+  ipAddress?: string;
+  userAgent?: string;
+  metadata?: Record<string, unknown>;
+}
+
+interface UserActivityResponse {
+  activities: UserActivity[];
+  pagination: { currentPage: number; totalPages: number; totalActivities: number; hasNext: boolean; hasPrev: boolean };
+  summary: { totalActivities: number; categorySummary: Record<string, unknown>; availableActions: string[]; availableCategories: string[] };
+}
+
+interface UsersResponse {
+  users: AdminUser[];
+  pagination?: AdminPagination;
+}
+
+// A GPS unit fitted to a bus or train
+interface AdminDevice {
+  _id: string;
+  deviceId: string;
+  vehicleNumber: string;
+  vehicleType: 'bus' | 'train';
+  status: 'online' | 'offline' | 'maintenance';
+  lastSeen: string;
+  location: { latitude: number; longitude: number; address: string; lastUpdated: string };
+  batteryLevel: number;
+  signalStrength: number;
+  assignedTo: { type: 'route_admin' | 'company_admin' | 'system'; userId: string; name: string };
+  route?: { routeId: string; name: string };
+  firmwareVersion: string;
+  installDate: string;
+  lastMaintenance?: string;
+  alerts: { count: number; messages: string[] };
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface DeviceStats {
+  totalDevices: number;
+  activeDevices: number;
+  offlineDevices: number;
+  maintenanceDevices: number;
+  totalAlerts: number;
+}
+
+interface DevicesResponse {
+  devices: AdminDevice[];
+  pagination?: AdminPagination;
+}
+
+interface EmergencyIncident {
+  _id: string;
+  incidentId: string;
+  type: 'accident' | 'breakdown' | 'security' | 'medical' | 'weather' | 'system' | 'other';
+  priority: 'critical' | 'high' | 'medium' | 'low';
+  status: 'active' | 'responded' | 'resolved' | 'closed';
+  title: string;
+  description: string;
+  location: { latitude: number; longitude: number; address: string; deviceId?: string; vehicleNumber?: string };
+  reportedBy: { name: string; role: string };
+  assignedTeam?: { teamName: string; responseTime?: string };
+  createdAt: string;
+  escalationLevel: number;
+}
+
+interface EmergencyDashboard {
+  overview: { totalEmergencies: number; activeEmergencies: number; resolvedToday: number; criticalCount: number };
+  statistics: { byPriority: Record<string, number>; byType: Record<string, number>; averageResponseTime: number; averageResolutionTime: number };
+  alerts: { deviceAlerts: number; offlineDevices: number; escalatedEmergencies: number };
+  recentEmergencies: EmergencyIncident[];
+  criticalEmergencies: EmergencyIncident[];
+  realTimeStatus?: { connectedUsers: number; websocketActive: boolean };
+}
+
+interface EmergencyTeam {
+  teamId: string;
+  teamName: string;
+  members: { name: string; role: string; contactNumber: string }[];
+  statistics: { assignedIncidents: number; activeIncidents: number; resolvedIncidents: number; status: 'available' | 'busy' };
+}
+
+interface SystemSettings {
+  system: {
+    siteName: string;
+    siteUrl: string;
+    maintenanceMode: boolean;
+    allowRegistration: boolean;
+    defaultUserRole: string;
+    sessionTimeout: number;
+    apiRateLimit: number;
+    maxUploadSize: number;
+  };
+  security: {
+    passwordMinLength: number;
+    passwordRequireSpecial: boolean;
+    passwordRequireNumbers: boolean;
+    passwordRequireUppercase: boolean;
+    maxLoginAttempts: number;
+    lockoutDuration: number;
+    requireEmailVerification: boolean;
+    twoFactorEnabled: boolean;
+  };
+  notifications: {
+    emailEnabled: boolean;
+    smsEnabled: boolean;
+    pushEnabled: boolean;
+    systemAlerts: boolean;
+    userNotifications: boolean;
+    emergencyAlerts: boolean;
+  };
+  integrations: {
+    googleMapsApiKey: string;
+    emailServiceProvider: string;
+    emailApiKey: string;
+    smsProvider: string;
+    smsApiKey: string;
+    paymentGateway: string;
+    paymentApiKey: string;
+  };
+  monitoring: {
+    healthCheckInterval: number;
+    alertThresholds: {
+      cpuUsage: number;
+      memoryUsage: number;
+      diskUsage: number;
+      responseTime: number;
+    };
+    logRetention: number;
+    backupFrequency: string;
+    backupRetention: number;
+  };
+}
+
+// A bus or train operator; system admins approve its application, its company admins keep the profile current
+interface FleetCompany {
+  _id: string;
+  companyName: string;
+  registrationNumber: string;
+  contactPerson: string;
+  email: string;
+  phone: string;
+  address: string;
+  status: 'pending' | 'approved' | 'rejected' | 'suspended';
+  applicationDate: string;
+  approvalDate?: string;
+  totalVehicles: number;
+  activeVehicles: number;
+  operatingRoutes: string[];
+  documents: {
+    businessLicense: boolean;
+    insuranceCertificate: boolean;
+    vehicleRegistrations: boolean;
+    driverLicenses: boolean;
+  };
+  complianceScore: number;
+  lastInspection?: string;
+  notes?: string;
+  operationalInfo?: {
+    yearsInOperation: number;
+    averageFleetAge: number;
+    maintenanceSchedule: string;
+    safetyRating?: number;
+  };
+}
+
+interface FleetApplicationStats {
+  totalApplications: number;
+  pendingApprovals: number;
+  approvedFleets: number;
+  rejectedApplications: number;
+  activeVehicles: number;
+  totalVehicles: number;
+  complianceIssues: number;
+}
+
+// The parts of the profile a company admin may change
+interface FleetProfileUpdate {
+  contactPerson: string;
+  phone: string;
+  address: string;
+  operatingRoutes: string[];
+  operationalInfo: NonNullable<FleetCompany['operationalInfo']>;
+}
+
+// Team-wide jobs that exactly one agent console runs at a time
+type CoordinatedJob = 'chat_routing' | 'sla_escalation';
+
+// Held by one console (a browser tab) per job until it stops renewing it or releases it
+interface CoordinatorLease {
+  job: CoordinatedJob;
+  consoleId: string;
+  agentId: string;
+  expiresAt: string;
+}
+
+// Customer service endpoints wrap their payload as { success, data }
+interface CSResponse<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+}
+
+interface CSQueueItem {
+  _id: string;
+  subject?: string;
+  customerInfo?: { name: string };
+  ticketId?: string;
+  sessionId?: string;
+  priority?: 'urgent' | 'high' | 'normal';
+}
+
+interface CSAlert {
+  priority: 'critical' | 'high' | 'low';
+  message: string;
+  action: string;
+}
+
+interface CSActivity {
+  action: string;
+  userId?: { name: string };
+  timestamp: string;
+  category: string;
+}
+
+// GET /cs/dashboard: the team's queues and totals over the chosen period
+interface CSDashboard {
+  overview: {
+    tickets: { open: number; in_progress: number; resolved: number; closed: number; total: number };
+    chats: { waiting: number; active: number; ended: number; total: number; avgDuration: number };
+    agentWorkload: { assignedTickets: number; activeChats: number };
+    // CSAT from the 1–5 rating; the NPS fields come from the optional recommend question
+    satisfaction: { avgSatisfaction: number; totalRatings: number; nps?: number | null; npsResponses?: number; promoters?: number; detractors?: number };
+  };
+  performance?: {
+    tickets: { totalHandled: number; resolved: number; avgResolutionTime: number; avgSatisfaction: number };
+    chats: { totalChats: number; avgDuration: number; avgResponseTime: number; avgSatisfaction: number };
+  };
+  queues: { urgent: CSQueueItem[]; waiting: CSQueueItem[]; escalated: CSQueueItem[] };
+  alerts: CSAlert[];
+  recentActivity?: CSActivity[];
+}
+
+// A chat as the agent console sees it
+interface AgentChatMessage {
+  _id: string;
+  sender: 'customer' | 'agent' | 'ai' | 'system';
+  message: string;
+  timestamp: string;
+  readBy?: string[];
+}
+
+interface AgentChatSession {
+  _id: string;
+  sessionId: string;
+  customerInfo: { name: string; email: string; id?: string };
+  assignedAgent?: { id: string; name: string };
+  status: 'waiting' | 'active' | 'ended' | 'escalated';
+  priority: 'low' | 'normal' | 'high' | 'urgent';
+  channel: string;
+  startedAt: string;
+  messages: AgentChatMessage[];
+  waitTime?: number;
+  lastMessage?: string;
+  relatedBooking?: { bookingId: string; refundAmount?: number };
+}
+
+interface ChatQueueStats {
+  active: number;
+  waiting: number;
+  ended: number;
+  total: number;
+  avgWaitTime: string;
+  avgResponseTime: string;
+  satisfactionRate: string;
+}
+
+// The same chat from the passenger's widget
+interface SupportChatMessage {
+  messageId: string;
+  sender: 'customer' | 'agent' | 'ai_bot' | 'system';
+  content: string;
+  timestamp: string;
+  isRead: boolean;
+}
+
+interface SupportChatSession {
+  _id: string;
+  sessionId: string;
+  status: 'waiting' | 'active' | 'ended' | 'transferred';
+  messages: SupportChatMessage[];
+  customerInfo: { name: string; email: string };
+  assignedAgent?: { name: string };
+}
+
+// Body of POST /cs/chat/sessions from the widget
+interface SupportChatStart {
+  customerId: string;
+  channel: 'web';
+  initialMessage: string;
+  customerInfo: { name: string; email: string };
+}
+
+// Swaps a CS envelope's payload for its decoded form
+const decodingData = <T, R>(decode: (data: T) => R) => (response: CSResponse<T>): CSResponse<R> => ({ ...response, data: decode(response.data) });
+
+const DEFAULT_TIMEOUT_MS = 20000;
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 400;
+const TRANSIENT_STATUSES = [408, 429, 502, 503, 504];
+
+// Login page for each role, so an expired admin session does not land on the passenger login
+const LOGIN_PATHS: Record<string, string> = {
+  system_admin: '/sysadmin/login',
+  company_admin: '/fleet/login',
+  route_admin: '/fleet/login',
+  customer_service: '/cs/login',
+};
+
+const TOKEN_KEYS: Record<AuthRealm, { token: string; user: string }> = {
+  user: { token: 'token', user: 'user' },
+  cs: { token: 'cs_token', user: 'cs_user' },
+};
+
+// The backend origin. NEXT_PUBLIC_API_URL may be set with or without a trailing `/api`.
+const getApiBaseUrl = (): string => {
+  const url = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000').replace(/\/+$/, '');
+  return url.endsWith('/api') ? url.slice(0, -4) : url;
+};
+
+class ApiError extends Error {
+  status: number;
+  code: ApiErrorCode;
+  details?: unknown;
+
+  constructor(message: string, status: number, code: ApiErrorCode, details?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+
+  get retryable(): boolean {
+    return this.code === 'network' || this.code === 'timeout' || TRANSIENT_STATUSES.includes(this.status);
+  }
+}
+
+class ApiClient {
+  private baseUrl: string;
+
+  constructor() {
+    this.baseUrl = getApiBaseUrl();
+  }
+
+  // Accepts paths with or without the `/api` prefix: '/routes' and '/api/routes' are the same endpoint
+  buildUrl(path: string, query?: Record<string, QueryValue>): string {
+    const normalized = path.startsWith('/') ? path : `/${path}`;
+    const apiPath = normalized === '/api' || normalized.startsWith('/api/') ? normalized : `/api${normalized}`;
+    const params = new URLSearchParams();
+    Object.entries(query || {}).forEach(([key, value]) => {
+      if (value !== undefined && value !== null && value !== '') params.append(key, String(value));
+    });
+    const queryString = params.toString();
+    return `${this.baseUrl}${apiPath}${queryString ? `${apiPath.includes('?') ? '&' : '?'}${queryString}` : ''}`;
+  }
+
+  getToken(realm: AuthRealm = 'user'): string | null {
+    return typeof window !== 'undefined' ? localStorage.getItem(TOKEN_KEYS[realm].token) : null;
+  }
+
+  // Signs out of `realm`. Cached responses go too, so whoever signs in next on this tab never sees them.
+  clearSession(realm: AuthRealm = 'user'): void {
+    if (typeof window === 'undefined') return;
+    localStorage.removeItem(TOKEN_KEYS[realm].token);
+    localStorage.removeItem(TOKEN_KEYS[realm].user);
+    requestCache.clear();
+  }
+
+  async request<T>(path: string, options: RequestOptions = {}): Promise<T> {
+    const method = options.method || 'GET';
+    const realm = options.realm || 'user';
+    const auth = options.auth || 'required';
+    const token = auth === 'none' ? null : this.getToken(realm);
+
+    if (auth === 'required' && !token) {
+      if (!options.skipAuthRedirect) this.redirectToLogin(realm);
+      throw new ApiError('Authentication required', 401, 'unauthorized');
+    }
+
+    // Uploads let the browser set the multipart boundary itself
+    const headers: Record<string, string> = { ...(options.body instanceof FormData ? {} : { 'Content-Type': 'application/json' }), ...options.headers };
+    if (token) headers.Authorization = `Bearer ${token}`;
+
+    const url = this.buildUrl(path, options.query);
+    const maxRetries = options.retries ?? (method === 'POST' || method === 'PATCH' ? 0 : DEFAULT_RETRIES);
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.send<T>(url, method, headers, options);
+      } catch (error) {
+        const apiError = error instanceof ApiError ? error : new ApiError(error instanceof Error ? error.message : 'Request failed', 0, 'network');
+        if (apiError.status === 401 && token && !options.skipAuthRedirect) this.redirectToLogin(realm, true);
+        if (!apiError.retryable || attempt >= maxRetries || options.signal?.aborted) throw apiError;
+        await this.wait(this.retryDelay(attempt, apiError));
+      }
+    }
+  }
+
+  get<T>(path: string, options: Omit<RequestOptions, 'method' | 'body'> = {}): Promise<T> {
+    return this.request<T>(path, { ...options, method: 'GET' });
+  }
+
+  post<T>(path: string, body?: unknown, options: Omit<RequestOptions, 'method' | 'body'> = {}): Promise<T> {
+    return this.request<T>(path, { ...options, method: 'POST', body });
+  }
+
+  put<T>(path: string, body?: unknown, options: Omit<RequestOptions, 'method' | 'body'> = {}): Promise<T> {
+    return this.request<T>(path, { ...options, method: 'PUT', body });
+  }
+
+  patch<T>(path: string, body?: unknown, options: Omit<RequestOptions, 'method' | 'body'> = {}): Promise<T> {
+    return this.request<T>(path, { ...options, method: 'PATCH', body });
+  }
+
+  delete<T>(path: string, options: Omit<RequestOptions, 'method' | 'body'> = {}): Promise<T> {
+    return this.request<T>(path, { ...options, method: 'DELETE' });
+  }
+
+  // --- Backend areas ---
+  auth = {
+    profile: () => this.get<{ user: UserProfile }>('/auth/profile'),
+  };
+
+  // Lists and entities come back decoded into the shared domain types, so a malformed payload fails here with a clear error
+  routes = {
+    search: (params: RouteSearchParams) => this.get<RoutesResponse>('/routes/search', { query: { ...params } })
+      .then(response => ({ ...response, routes: decodeRoutes(response.routes || []) })),
+    list: (params: RouteListParams = {}, options: Pick<RequestOptions, 'auth'> = { auth: 'optional' }) => this.get<RoutesResponse>('/routes', { query: { ...params }, ...options })
+      .then(response => ({ ...response, routes: decodeRoutes(response.routes || []) })),
+    get: (id: string, options: Pick<RequestOptions, 'auth'> = { auth: 'optional' }) => this.get<{ route: unknown }>(`/routes/${id}`, options)
+      .then(response => ({ route: decodeRoute(response.route) })),
+    realtime: (id: string) => this.get<{ realtimeData: RouteRealtime }>(`/routes/${id}/realtime`, { auth: 'optional' }),
+  };
+
+  bookings = {
+    list: (params: BookingListParams = {}) => this.get<BookingsResponse>('/bookings', { query: { ...params } })
+      .then(response => ({ ...response, bookings: decodeBookings(response.bookings || []) })),
+    // Resolves to null when the server has no such booking
+    get: (id: string) => this.get<{ booking?: unknown }>(`/bookings/${id}`)
+      .then(response => ({ booking: response?.booking ? decodeBooking(response.booking) : null })),
+    create: (booking: object) => this.invalidating(this.post<{ booking?: unknown }>('/bookings', booking), '/bookings', '/dashboard')
+      .then(response => ({ booking: response?.booking ? decodeBooking(response.booking) : null })),
+    cancel: (id: string, reason: string) => this.invalidating(this.put<{ message?: string }>(`/bookings/${id}/cancel`, { reason }), '/bookings', '/dashboard', '/payments'),
+    generateQR: (id: string, request: QRCodeRequest = {}) => this.post<QRCodeResponse>(`/bookings/${id}/qr`, request),
+  };
+
+  // Holds work signed out too; the booking flow keeps a hold on the device when these cannot be reached
+  seats = {
+    inventory: (query: SeatQuery) =>
+      this.get<Partial<SeatInventory>>(`/routes/${query.routeId}/seats`, { query: { scheduleId: query.scheduleId, travelDate: query.travelDate }, auth: 'optional', skipAuthRedirect: true }),
+    hold: (query: SeatQuery, seatNumbers: string[], durationMinutes: number) =>
+      this.post<{ hold?: Partial<SeatHold> }>('/seat-holds', { ...query, seatNumbers, durationMinutes }, { auth: 'optional', skipAuthRedirect: true }),
+    // `keepalive` lets the release outlive the page that sends it
+    release: (holdId: string, { keepalive = false }: Pick<RequestOptions, 'keepalive'> = {}) =>
+      this.delete<unknown>(`/seat-holds/${holdId}`, { auth: 'optional', skipAuthRedirect: true, keepalive }),
+  };
+
+  payments = {
+    history: (params: PaymentHistoryParams = {}) => this.get<PaymentsResponse>('/payments/history', { query: { ...params } })
+      .then(response => ({ ...response, payments: decodePayments(response.payments || []) })),
+    confirm: (request: PaymentConfirmRequest) => this.invalidating(this.post<{ message?: string }>('/payments/confirm', request), '/payments', '/bookings', '/dashboard'),
+    // The amount due and the methods the simulated gateway offers for a stored booking
+    gateway: (bookingId: string) => this.get<PaymentGatewayResponse>(`/payment-simulation/gateway/${bookingId}`, { skipAuthRedirect: true }),
+  };
+
+  // A company admin's own operator
+  fleet = {
+    profile: () => this.get<{ fleet: FleetCompany }>('/fleet/profile'),
+    updateProfile: (profile: FleetProfileUpdate) => this.invalidating(this.put<{ fleet: FleetCompany }>('/fleet/profile', profile), '/fleet/profile', '/admin/fleet'),
+  };
+
+  dashboard = {
+    stats: () => this.get<DashboardStats>('/dashboard/stats'),
+    recentTrips: () => this.get<DashboardTrip[]>('/dashboard/recent-trips'),
+    upcomingTrips: () => this.get<DashboardTrip[]>('/dashboard/upcoming-trips'),
+    updateProfile: (profile: object) => this.invalidating(this.put<UserProfile>('/dashboard/profile', profile), '/auth/profile'),
+  };
+
+  tracking = {
+    live: (params: TrackingBoundsParams = {}) => this.get<VehiclesResponse>('/tracking/live', { query: { ...params } })
+      .then(response => ({ vehicles: decodeVehicleLocations(response.vehicles || []) })),
+    route: (routeId: string) => this.get<VehiclesResponse>(`/tracking/route/${routeId}`)
+      .then(response => ({ vehicles: decodeVehicleLocations(response.vehicles || []) })),
+  };
+
+  admin = {
+    simulation: {
+      status: () => this.get<SimulationResponse>('/admin/simulation/status'),
+      control: ({ action, speed }: SimulationControl) =>
+        this.invalidating(this.post<SimulationResponse>(`/admin/simulation/${action}`, action === 'speed' ? { speed } : undefined), '/admin/simulation'),
+    },
+    users: {
+      list: (params: AdminListParams = {}) => this.get<UsersResponse>('/admin/users', { query: { ...params } }),
+      stats: () => this.get<AdminUserStats>('/admin/users/stats'),
+      get: (id: string) => this.get<AdminUser>(`/admin/users/${id}`),
+      userStats: (id: string) => this.get<UserStatistics>(`/admin/users/${id}/stats`),
+      activity: (id: string, params: { page?: number; limit?: number; category?: string; action?: string } = {}) => this.get<UserActivityResponse>(`/admin/users/${id}/activity`, { query: { ...params } }),
+      update: (id: string, changes: object) => this.invalidating(this.put<{ user: AdminUser }>(`/admin/users/${id}`, changes), '/admin/users'),
+      toggleStatus: (id: string) => this.invalidating(this.patch<{ user: AdminUser; message?: string }>(`/admin/users/${id}/toggle-status`), '/admin/users'),
+      remove: (id: string) => this.invalidating(this.delete<{ message?: string }>(`/admin/users/${id}`), '/admin/users'),
+    },
+    devices: {
+      list: (params: AdminListParams = {}) => this.get<DevicesResponse>('/admin/devices', { query: { ...params } }),
+      stats: () => this.get<DeviceStats>('/admin/devices/stats'),
+      get: (id: string) => this.get<AdminDevice>(`/admin/devices/${id}`),
+      create: (device: object) => this.invalidating(this.post<{ device: AdminDevice; message?: string }>('/admin/devices', device), '/admin/devices'),
+      update: (id: string, changes: object) => this.invalidating(this.put<{ device: AdminDevice }>(`/admin/devices/${id}`, changes), '/admin/devices'),
+      remove: (id: string) => this.invalidating(this.delete<{ message?: string }>(`/admin/devices/${id}`), '/admin/devices'),
+      clearAlerts: (id: string) => this.invalidating(this.delete<{ message?: string }>(`/admin/devices/${id}/alerts`), '/admin/devices'),
+    },
+    emergency: {
+      dashboard: () => this.get<EmergencyDashboard>('/admin/emergency'),
+      incidents: (params: { limit?: number } = {}) => this.get<{ incidents: EmergencyIncident[] }>('/admin/emergency/incidents', { query: { ...params } }),
+      teams: () => this.get<{ teams: EmergencyTeam[] }>('/admin/emergency/teams'),
+      alert: (alert: object) => this.invalidating(this.post<{ emergency?: EmergencyIncident; message?: string }>('/admin/emergency/alert', alert), '/admin/emergency'),
+      broadcast: (broadcast: object) => this.post<{ broadcast?: { recipientCount?: number }; message?: string }>('/admin/emergency/broadcast', broadcast),
+    },
+    settings: {
+      update: (settings: SystemSettings) => this.put<{ settings: SystemSettings; message?: string }>('/admin/system/settings', { settings }),
+    },
+    // Operator applications
+    fleet: {
+      list: () => this.get<{ fleets: FleetCompany[] }>('/admin/fleet'),
+      stats: () => this.get<FleetApplicationStats>('/admin/fleet/stats'),
+      approve: (id: string, notes: string) => this.invalidating(this.put<{ fleet?: FleetCompany }>(`/admin/fleet/${id}/approve`, { notes }), '/admin/fleet'),
+      reject: (id: string, reason: string) => this.invalidating(this.put<{ fleet?: FleetCompany }>(`/admin/fleet/${id}/reject`, { reason }), '/admin/fleet'),
+    },
+  };
+
+  cs = {
+    dashboard: {
+      summary: (period: string) => this.get<CSResponse<CSDashboard>>('/cs/dashboard', { query: { period }, realm: 'cs' }),
+      // Each agent's open work and the satisfaction scores from their surveys over the period
+      workload: (period: string) => this.get<CSResponse<{ agents?: unknown[] }>>('/cs/dashboard/workload', { query: { period }, realm: 'cs' })
+        .then(decodingData(data => ({ agents: decodeAgentWorkloads(data.agents || []) }))),
+    },
+    agents: {
+      list: () => this.get<CSResponse<{ agents: RoutingAgent[] }>>('/cs/agents', { realm: 'cs' }),
+      setStatus: (status: AgentStatus) => this.invalidating(this.put<CSResponse<unknown>>('/cs/agents/me/status', { status }, { realm: 'cs' }), '/cs/agents'),
+      // null goes back to the team default
+      setCapacity: (id: string, maxConcurrentChats: number | null) =>
+        this.invalidating(this.put<CSResponse<unknown>>(`/cs/agents/${id}/capacity`, { maxConcurrentChats }, { realm: 'cs' }), '/cs/agents'),
+    },
+    // The server grants a job's lease to the first console that claims it and keeps it there while that
+    // console renews; when the console is closed or loses its connection the lease lapses and the next claim wins
+    coordination: {
+      claim: (job: CoordinatedJob, consoleId: string, ttlSeconds: number) =>
+        this.post<CSResponse<{ lease: CoordinatorLease }>>(`/cs/coordination/${job}/claim`, { consoleId, ttlSeconds }, { realm: 'cs' }),
+      release: (job: CoordinatedJob, consoleId: string) =>
+        this.post<CSResponse<unknown>>(`/cs/coordination/${job}/release`, { consoleId }, { realm: 'cs', keepalive: true, skipAuthRedirect: true }),
+    },
+    routing: {
+      // Settings the team never changed are left out
+      settings: () => this.get<CSResponse<{ settings?: Partial<RoutingSettings> }>>('/cs/routing/settings', { realm: 'cs' }),
+      updateSettings: (settings: RoutingSettings) => this.invalidating(this.put<CSResponse<{ settings: RoutingSettings }>>('/cs/routing/settings', { settings }, { realm: 'cs' }), '/cs/routing'),
+    },
+    tickets: {
+      list: (params: Record<string, QueryValue> = {}) => this.get<CSResponse<{ tickets?: unknown[]; pagination?: unknown }>>('/cs/tickets', { query: params, realm: 'cs' })
+        .then(decodingData(data => ({ ...data, tickets: decodeTickets(data.tickets || []) }))),
+      get: (id: string) => this.get<CSResponse<unknown>>(`/cs/tickets/${id}`, { realm: 'cs' }).then(decodingData(decodeTicket)),
+      create: (ticket: NewTicket) => this.invalidating(this.post<CSResponse<unknown>>('/cs/tickets', ticket, { realm: 'cs' }), '/cs/tickets', '/cs/dashboard')
+        .then(decodingData(decodeTicket)),
+      update: (id: string, changes: TicketUpdate) => this.invalidating(this.put<CSResponse<unknown>>(`/cs/tickets/${id}`, changes, { realm: 'cs' }), '/cs/tickets', '/cs/dashboard'),
+      // Internal notes are for agents only and never reach the customer
+      addNote: (id: string, note: string) => this.invalidating(this.post<CSResponse<unknown>>(`/cs/tickets/${id}/notes`, { note }, { realm: 'cs' }), '/cs/tickets'),
+      resolve: (id: string, solution: string) => this.invalidating(this.put<CSResponse<unknown>>(`/cs/tickets/${id}/resolve`, { solution }, { realm: 'cs' }), '/cs/tickets', '/cs/dashboard'),
+      // With an idempotency key the server escalates once per key, however many consoles send it
+      escalate: (id: string, reason: string, metadata?: Record<string, unknown>, idempotencyKey?: string) =>
+        this.invalidating(this.put<CSResponse<unknown>>(`/cs/tickets/${id}/escalate`, { reason, metadata }, { realm: 'cs', headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined }), '/cs/tickets', '/cs/dashboard'),
+      // `parentId` keeps its ID; the tickets in `merge.ticketIds` are closed into it
+      merge: (parentId: string, merge: object) =>
+        this.invalidating(this.post<CSResponse<{ ticket: unknown }>>(`/cs/tickets/${parentId}/merge`, merge, { realm: 'cs' }), '/cs/tickets', '/cs/dashboard')
+          .then(decodingData(data => ({ ticket: decodeTicket(data.ticket) }))),
+      split: (id: string, split: object) =>
+        this.invalidating(this.post<CSResponse<{ ticket: unknown; children?: unknown[] }>>(`/cs/tickets/${id}/split`, split, { realm: 'cs' }), '/cs/tickets', '/cs/dashboard')
+          .then(decodingData(data => ({ ticket: decodeTicket(data.ticket), children: decodeTickets(data.children || []) }))),
+      // Applies the same changes to every ticket; tickets the agent may not change come back in `failed`
+      bulkUpdate: (update: object) =>
+        this.invalidating(this.post<CSResponse<{ updated: number; failed?: Array<{ ticketId: string; message: string }> }>>('/cs/tickets/bulk', update, { realm: 'cs' }), '/cs/tickets', '/cs/dashboard'),
+    },
+    // Saved ticket list filters; the server returns the agent's own views and any a teammate shared
+    views: {
+      list: () => this.get<CSResponse<{ views?: SavedTicketView[] }>>('/cs/views', { realm: 'cs' }),
+      create: (view: object) => this.invalidating(this.post<CSResponse<{ view: SavedTicketView }>>('/cs/views', view, { realm: 'cs' }), '/cs/views'),
+      remove: (id: string) => this.invalidating(this.delete<CSResponse<unknown>>(`/cs/views/${id}`, { realm: 'cs' }), '/cs/views'),
+    },
+    customers: {
+      // `field` says what the query looks like (email, phone, NIC, booking ID or name)
+      search: (q: string, field?: string) => this.get<CSResponse<{ customers?: CustomerSummary[] }>>('/cs/customers/search', { query: { q, field }, realm: 'cs' }),
+      profile: (id: string) => this.get<CSResponse<CustomerProfile>>(`/cs/customers/${id}/profile`, { realm: 'cs' }),
+    },
+    sla: {
+      policies: () => this.get<CSResponse<{ policies?: SlaPolicy[] }>>('/cs/sla/policies', { realm: 'cs' }),
+    },
+    macros: {
+      list: () => this.get<CSResponse<{ macros?: Macro[] }>>('/cs/macros', { realm: 'cs' }),
+    },
+    // Knowledge base authoring; agents see drafts as well as published articles
+    articles: {
+      list: () => this.get<CSResponse<{ articles?: unknown[] }>>('/cs/kb/articles', { realm: 'cs' })
+        .then(decodingData(data => ({ articles: decodeArticles(data.articles || []) }))),
+      create: (draft: object) => this.invalidating(this.post<CSResponse<{ article: unknown }>>('/cs/kb/articles', draft, { realm: 'cs' }), '/cs/kb')
+        .then(decodingData(data => ({ article: decodeArticle(data.article) }))),
+      update: (id: string, draft: object) => this.invalidating(this.put<CSResponse<{ article: unknown }>>(`/cs/kb/articles/${id}`, draft, { realm: 'cs' }), '/cs/kb')
+        .then(decodingData(data => ({ article: decodeArticle(data.article) }))),
+      remove: (id: string) => this.invalidating(this.delete<CSResponse<unknown>>(`/cs/kb/articles/${id}`, { realm: 'cs' }), '/cs/kb'),
+    },
+    chat: {
+      // The server has answered with either key over time
+      sessions: () => this.get<CSResponse<{ chats?: AgentChatSession[]; sessions?: AgentChatSession[] }>>('/cs/chat/sessions', { realm: 'cs' }),
+      stats: () => this.get<CSResponse<ChatQueueStats>>('/cs/chat/sessions/stats', { realm: 'cs' }),
+      session: (sessionId: string) => this.get<CSResponse<{ messages?: AgentChatMessage[] }>>(`/cs/chat/sessions/${sessionId}`, { realm: 'cs' }),
+      sendMessage: (sessionId: string, message: string) =>
+        this.invalidating(this.post<CSResponse<{ messageId?: string }>>(`/cs/chat/sessions/${sessionId}/messages`, { message, sender: 'agent' }, { realm: 'cs' }), '/cs/chat'),
+      end: (sessionId: string, reason: string = 'resolved') =>
+        this.invalidating(this.put<CSResponse<unknown>>(`/cs/chat/sessions/${sessionId}/end`, { reason }, { realm: 'cs' }), '/cs/chat', '/cs/agents', '/cs/dashboard'),
+      assign: (sessionId: string, agentId: string) =>
+        this.invalidating(this.put<CSResponse<unknown>>(`/cs/chat/sessions/${sessionId}/assign`, { agentId }, { realm: 'cs' }), '/cs/chat', '/cs/agents'),
+      overflow: (sessionId: string, action: Exclude<OverflowAction, 'wait'>) =>
+        this.invalidating(this.put<CSResponse<unknown>>(`/cs/chat/sessions/${sessionId}/overflow`, { action }, { realm: 'cs' }), '/cs/chat'),
+    },
+    ai: {
+      // `context` carries the conversation, the customer's booking/payment and candidate help articles
+      suggestions: (message: string, context?: object) =>
+        this.post<CSResponse<{ suggestions?: unknown[] }>>('/cs/ai/suggestions', { message, context }, { realm: 'cs' })
+          .then(decodingData(data => ({ suggestions: decodeReplySuggestions(data.suggestions || []) }))),
+      // What the agent did with a suggestion, so acceptance can be measured per provider
+      feedback: (feedback: SuggestionFeedback) => this.post<CSResponse<unknown>>('/cs/ai/suggestions/feedback', feedback, { realm: 'cs' }),
+    },
+  };
+
+  // The passenger's side of customer service
+  support = {
+    // Published help articles, searched on the device so suggestions can follow every keystroke
+    articles: {
+      list: () => this.get<CSResponse<{ articles?: unknown[] }>>('/cs/kb/articles', { query: { status: 'published' }, auth: 'none' })
+        .then(decodingData(data => ({ articles: decodeArticles(data.articles || []) }))),
+    },
+    // The contact form works signed out; a session only links the ticket to the passenger's account
+    tickets: {
+      create: (ticket: object) =>
+        this.invalidating(this.post<CSResponse<{ ticket: unknown }>>('/cs/tickets', ticket, { auth: 'optional', skipAuthRedirect: true }), '/cs/tickets', '/cs/dashboard')
+          .then(decodingData(data => ({ ticket: decodeTicket(data.ticket) }))),
+      mine: () => this.get<CSResponse<{ tickets?: unknown[] }>>('/cs/tickets/mine')
+        .then(decodingData(data => ({ tickets: decodeTickets(data.tickets || []) }))),
+      // Passengers address their tickets by the reference number they were given, not the database id
+      track: (reference: string) => this.get<CSResponse<{ ticket: unknown }>>(`/cs/tickets/track/${encodeURIComponent(reference)}`)
+        .then(decodingData(data => ({ ticket: decodeTicket(data.ticket) }))),
+      reply: (reference: string, reply: object) =>
+        this.invalidating(this.post<CSResponse<{ ticket?: unknown }>>(`/cs/tickets/track/${encodeURIComponent(reference)}/replies`, reply), '/cs/tickets'),
+      reopen: (reference: string, reason: string) =>
+        this.invalidating(this.post<CSResponse<{ ticket?: unknown }>>(`/cs/tickets/track/${encodeURIComponent(reference)}/reopen`, { reason }), '/cs/tickets', '/cs/dashboard'),
+    },
+    chats: {
+      mine: () => this.get<CSResponse<{ sessions?: unknown[] }>>('/cs/chat/sessions/mine')
+        .then(decodingData(data => ({ sessions: decodeChatTranscripts(data.sessions || []) }))),
+      // The chat widget works for guests; a signed-in passenger's session links the chat to their account
+      start: (chat: SupportChatStart) =>
+        this.invalidating(this.post<CSResponse<{ chat?: SupportChatSession }>>('/cs/chat/sessions', chat, { auth: 'optional', skipAuthRedirect: true }), '/cs/chat'),
+      get: (sessionId: string) => this.get<CSResponse<{ chat?: SupportChatSession }>>(`/cs/chat/sessions/${sessionId}`, { auth: 'optional', skipAuthRedirect: true }),
+      // `clientMessageId` comes back on the channel's echo so the widget can swap out its pending copy
+      send: (sessionId: string, content: string, clientMessageId: string) =>
+        this.post<CSResponse<unknown>>(`/cs/chat/sessions/${sessionId}/messages`, { content, sender: 'customer', clientMessageId }, { auth: 'optional', skipAuthRedirect: true }),
+    },
+    attachments: {
+      upload: (files: File[]) => {
+        const form = new FormData();
+        files.forEach(file => form.append('files', file));
+        return this.post<CSResponse<{ attachments: Array<{ url: string; name: string }> }>>('/cs/attachments', form, { auth: 'optional', skipAuthRedirect: true });
+      },
+    },
+    // Guests rate their chat without an account, so only the pending list needs a session
+    surveys: {
+      pending: () => this.get<CSResponse<{ surveys?: unknown[] }>>('/cs/surveys/pending')
+        .then(decodingData(data => ({ surveys: decodeSurveys(data.surveys || []) }))),
+      get: (source: string, sourceId: string) => this.get<CSResponse<{ survey: unknown }>>(`/cs/surveys/${source}/${sourceId}`, { auth: 'optional', skipAuthRedirect: true })
+        .then(decodingData(data => ({ survey: decodeSurvey(data.survey) }))),
+      submit: (response: object) =>
+        this.invalidating(this.post<CSResponse<unknown>>('/cs/surveys', response, { auth: 'optional', skipAuthRedirect: true }), '/cs/surveys', '/cs/dashboard'),
+    },
+  };
+
+  // Where to send someone whose session has ended, based on who they were signed in as
+  getLoginPath(realm: AuthRealm = 'user'): string {
+    if (realm === 'cs') return '/cs/login';
+    try {
+      const user = JSON.parse(localStorage.getItem(TOKEN_KEYS.user.user) || 'null');
+      return LOGIN_PATHS[user?.role] || '/login';
+    } catch {
+      return '/login';
+    }
+  }
+
+  private async send<T>(url: string, method: HttpMethod, headers: Record<string, string>, options: RequestOptions): Promise<T> {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    options.signal?.addEventListener('abort', abort);
+    const timeout = setTimeout(abort, options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method,
+        headers,
+        body: options.body instanceof FormData ? options.body : options.body === undefined ? undefined : JSON.stringify(options.body),
+        signal: controller.signal,
+        keepalive: options.keepalive,
+      });
+    } catch (error) {
+      if (controller.signal.aborted && !options.signal?.aborted) throw new ApiError('The server took too long to respond', 0, 'timeout');
+      throw new ApiError(error instanceof Error && error.name === 'AbortError' ? 'Request was cancelled' : 'Network error: could not reach the server', 0, 'network');
+    } finally {
+      clearTimeout(timeout);
+      options.signal?.removeEventListener('abort', abort);
+    }
+
+    const data = await this.parseBody(response);
+    if (!response.ok) {
+      const message = (data && typeof data === 'object' && 'message' in data && typeof data.message === 'string') ? data.message : `API Error: ${response.status}`;
+      const error = new ApiError(message, response.status, this.codeForStatus(response.status), data);
+      const retryAfter = Number(response.headers.get('Retry-After'));
+      if (retryAfter > 0) error.details = { ...(typeof data === 'object' ? data : { body: data }), retryAfterMs: retryAfter * 1000 };
+      throw error;
+    }
+    return data as T;
+  }
+
+  private async parseBody(response: Response): Promise<unknown> {
+    if (response.status === 204) return undefined;
+    const text = await response.text();
+    if (!text) return undefined;
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+
+  private codeForStatus(status: number): ApiErrorCode {
+    if (status === 401) return 'unauthorized';
+    if (status === 403) return 'forbidden';
+    if (status === 404) return 'not_found';
+    if (status === 409) return 'conflict';
+    if (status === 400 || status === 422) return 'validation';
+    if (status === 429) return 'rate_limited';
+    if (status >= 500) return 'server';
+    return 'http';
+  }
+
+  // Exponential backoff with jitter, or whatever the server asked for via Retry-After
+  private retryDelay(attempt: number, error: ApiError): number {
+    const details = error.details as { retryAfterMs?: number } | undefined;
+    if (details?.retryAfterMs) return details.retryAfterMs;
+    return RETRY_BASE_DELAY_MS * 2 ** attempt + Math.random() * RETRY_BASE_DELAY_MS;
+  }
+
+  private wait(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  // Successful writes mark the cached reads they affect as stale, e.g. cancelling a booking refreshes booking lists
+  private async invalidating<T>(request: Promise<T>, ...prefixes: string[]): Promise<T> {
+    const result = await request;
+    requestCache.invalidate(...prefixes);
+    return result;
+  }
+
+  // The login path is read before the session is cleared, since it depends on the stored user's role
+  private redirectToLogin(realm: AuthRealm, clearSession = false): void {
+    if (typeof window === 'undefined') return;
+    const loginPath = this.getLoginPath(realm);
+    if (clearSession) this.clearSession(realm);
+    if (window.location.pathname !== loginPath) window.location.href = loginPath;
+  }
+}
+
+// Export singleton instance
+export const apiClient = new ApiClient();
+export default apiClient;
+export { ApiError, getApiBaseUrl };
+
+// Export types for use in components
+export type {
+  HttpMethod,
+  AuthRealm,
+  ApiErrorCode,
+  RequestOptions,
+  Pagination,
+  RouteSearchParams,
+  RouteListParams,
+  RoutesResponse,
+  RouteRealtime,
+  BookingListParams,
+  BookingStats,
+  BookingsResponse,
+  QRCodeRequest,
+  QRCodeResponse,
+  PaymentHistoryParams,
+  PaymentStats,
+  PaymentsResponse,
+  PaymentConfirmRequest,
+  TrackingBoundsParams,
+  VehiclesResponse,
+  SimulationStatus,
+  SimulationResponse,
+  SimulationControl,
+  AdminListParams,
+  AdminPagination,
+  UserRole,
+  UserProfile,
+  DashboardStats,
+  DashboardTrip,
+  AdminUser,
+  AdminUserStats,
+  UserStatistics,
+  UserActivity,
+  UserActivityResponse,
+  UsersResponse,
+  AdminDevice,
+  DeviceStats,
+  DevicesResponse,
+  EmergencyIncident,
+  EmergencyDashboard,
+  EmergencyTeam,
+  SystemSettings,
+  CoordinatedJob,
+  CoordinatorLease,
+  CSResponse,
+  GatewayBooking,
+  GatewayPaymentMethod,
+  PaymentGatewayResponse,
+  FleetCompany,
+  FleetApplicationStats,
+  FleetProfileUpdate,
+  CSQueueItem,
+  CSAlert,
+  CSActivity,
+  CSDashboard,
+  AgentChatMessage,
+  AgentChatSession,
+  ChatQueueStats,
+  SupportChatMessage,
+  SupportChatSession,
+  SupportChatStart,
+};
@@ -0,0 +1,113 @@
+// /app/services/chatRouting.ts
+// Decides which agent a waiting chat goes to, and what happens to chats nobody can take
+
+type AgentStatus = 'online' | 'busy' | 'away' | 'offline';
+type RoutingStrategy = 'round_robin' | 'least_load';
+// What to do with a chat that has waited past the overflow threshold: keep waiting, hand it to the
+// AI assistant, turn it into a ticket, or escalate it so supervisors see it
+type OverflowAction = 'wait' | 'ai_bot' | 'ticket' | 'escalate';
+
+interface RoutingAgent {
+  id: string;
+  name: string;
+  status: AgentStatus;
+  activeChats: number;
+  // Unset means the team default from RoutingSettings
+  maxConcurrentChats?: number;
+  lastAssignedAt?: string;
+}
+
+interface RoutingSettings {
+  autoAssign: boolean;
+  strategy: RoutingStrategy;
+  defaultMaxConcurrentChats: number;
+  overflowAfterMinutes: number;
+  overflowAction: OverflowAction;
+}
+
+interface QueuedChat {
+  _id: string;
+  status: string;
+  priority: 'low' | 'normal' | 'high' | 'urgent';
+  startedAt: string;
+}
+
+type RoutingDecision =
+  | { chatId: string; type: 'assign'; agentId: string; agentName: string }
+  | { chatId: string; type: 'overflow'; action: Exclude<OverflowAction, 'wait'> }
+  // overflowInMs is null when the chat never overflows
+  | { chatId: string; type: 'wait'; overflowInMs: number | null };
+
+const DEFAULT_ROUTING_SETTINGS: RoutingSettings = {
+  autoAssign: true,
+  strategy: 'least_load',
+  defaultMaxConcurrentChats: 3,
+  overflowAfterMinutes: 5,
+  overflowAction: 'ticket',
+};
+
+const PRIORITY_RANK: Record<QueuedChat['priority'], number> = { urgent: 0, high: 1, normal: 2, low: 3 };
+
+class ChatRouter {
+  capacityOf(agent: RoutingAgent, settings: RoutingSettings): number {
+    return agent.maxConcurrentChats ?? settings.defaultMaxConcurrentChats;
+  }
+
+  // Only online agents with a free slot take new chats; busy and away agents keep the chats they have
+  isAvailable(agent: RoutingAgent, settings: RoutingSettings): boolean {
+    return agent.status === 'online' && agent.activeChats < this.capacityOf(agent, settings);
+  }
+
+  // Decisions for every waiting chat, most urgent and longest waiting first. Agents' loads are
+  // updated as chats are handed out, so one pass never overfills anyone. Every console computes the
+  // same plan; only the one holding the routing lease carries it out, so a chat is never assigned twice.
+  plan(chats: QueuedChat[], agents: RoutingAgent[], settings: RoutingSettings, now: number = Date.now()): RoutingDecision[] {
+    const roster = agents.map(agent => ({ ...agent }));
+    const waiting = chats
+      .filter(chat => chat.status === 'waiting')
+      .sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || Date.parse(a.startedAt) - Date.parse(b.startedAt));
+
+    return waiting.map((chat): RoutingDecision => {
+      const agent = this.pickAgent(roster.filter(candidate => this.isAvailable(candidate, settings)), settings);
+      if (agent) {
+        agent.activeChats += 1;
+        agent.lastAssignedAt = new Date(now).toISOString();
+        return { chatId: chat._id, type: 'assign', agentId: agent.id, agentName: agent.name };
+      }
+
+      if (settings.overflowAction === 'wait') return { chatId: chat._id, type: 'wait', overflowInMs: null };
+      const overflowInMs = settings.overflowAfterMinutes * 60000 - (now - Date.parse(chat.startedAt));
+      return overflowInMs <= 0
+        ? { chatId: chat._id, type: 'overflow', action: settings.overflowAction }
+        : { chatId: chat._id, type: 'wait', overflowInMs };
+    });
+  }
+
+  private pickAgent(candidates: RoutingAgent[], settings: RoutingSettings): RoutingAgent | undefined {
+    const lastAssigned = (agent: RoutingAgent) => (agent.lastAssignedAt ? Date.parse(agent.lastAssignedAt) : 0);
+    // Round robin gives the next chat to whoever has gone longest without one
+    const byRotation = (a: RoutingAgent, b: RoutingAgent) => lastAssigned(a) - lastAssigned(b) || a.id.localeCompare(b.id);
+    const load = (agent: RoutingAgent) => agent.activeChats / Math.max(1, this.capacityOf(agent, settings));
+
+    const sorted = [...candidates].sort(settings.strategy === 'least_load'
+      ? (a, b) => load(a) - load(b) || byRotation(a, b)
+      : byRotation);
+    return sorted[0];
+  }
+}
+
+// Export singleton instance
+export const chatRouter = new ChatRouter();
+export default chatRouter;
+export { DEFAULT_ROUTING_SETTINGS };
+
+// Export types for use in components
+export type {
+  AgentStatus,
+  RoutingStrategy,
+  OverflowAction,
+  RoutingAgent,
+  RoutingSettings,
+  QueuedChat,
+  RoutingDecision,
+};
@@ -0,0 +1,116 @@
+// /app/services/contactService.ts
+// Contact form submissions: turning a message into a web ticket, spam checks and attachment limits
+import type { NewTicket, TicketCategory, TicketPriority } from '@/app/domain';
+
+type ContactCategory = 'general' | 'technical' | 'feedback' | 'partnership' | 'billing' | 'emergency';
+
+interface ContactForm {
+  name: string;
+  email: string;
+  phone: string;
+  subject: string;
+  category: ContactCategory | '';
+  message: string;
+  // Hidden from people; bots that fill in every field fill this one too
+  website: string;
+}
+
+interface ContactCustomer {
+  customerId?: string;
+}
+
+interface SpamCheck {
+  // Bots are told the message was sent so they do not retry with a different payload
+  silent: boolean;
+  reason?: string;
+}
+
+const CONTACT_CATEGORIES: Record<ContactCategory, { label: string; category: TicketCategory; priority: TicketPriority }> = {
+  general: { label: 'General Inquiry', category: 'other', priority: 'medium' },
+  technical: { label: 'Technical Support', category: 'technical_issue', priority: 'medium' },
+  feedback: { label: 'Feedback', category: 'suggestion', priority: 'low' },
+  partnership: { label: 'Partnership', category: 'other', priority: 'low' },
+  billing: { label: 'Billing Issue', category: 'payment_problem', priority: 'high' },
+  emergency: { label: 'Emergency', category: 'complaint', priority: 'urgent' },
+};
+
+const MAX_ATTACHMENTS = 3;
+const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+const ATTACHMENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'];
+// Nobody reads and fills in the form in under a few seconds
+const MIN_FILL_TIME_MS = 3000;
+// The server limits submissions too; this stops a double-clicked or scripted burst before it leaves the device
+const RATE_LIMIT = { submissions: 3, windowMs: 60 * 60000 };
+const SUBMISSIONS_STORAGE_KEY = 'contact_submissions';
+
+class ContactService {
+  toTicket(form: ContactForm, attachments: string[], customer: ContactCustomer = {}): NewTicket {
+    const mapping = CONTACT_CATEGORIES[form.category || 'general'];
+    return {
+      subject: form.subject.trim(),
+      description: form.message.trim(),
+      category: mapping.category,
+      priority: mapping.priority,
+      customerInfo: {
+        name: form.name.trim(),
+        email: form.email.trim(),
+        phone: form.phone.trim() || undefined,
+        customerId: customer.customerId,
+      },
+      source: 'web',
+      tags: ['contact-form', form.category || 'general'],
+      attachments: attachments.length ? attachments : undefined,
+    };
+  }
+
+  checkSpam(form: ContactForm, openedAt: number, now = Date.now()): SpamCheck | null {
+    if (form.website.trim()) return { silent: true };
+    if (now - openedAt < MIN_FILL_TIME_MS) return { silent: true };
+    const waitMs = this.rateLimitWait(now);
+    if (waitMs > 0) return { silent: false, reason: `You have sent several messages recently. Please try again in ${Math.ceil(waitMs / 60000)} minutes.` };
+    return null;
+  }
+
+  // How long until another submission is allowed from this device, 0 when it is
+  rateLimitWait(now = Date.now()): number {
+    const recent = this.recentSubmissions(now);
+    if (recent.length < RATE_LIMIT.submissions) return 0;
+    return recent[0] + RATE_LIMIT.windowMs - now;
+  }
+
+  recordSubmission(now = Date.now()): void {
+    localStorage.setItem(SUBMISSIONS_STORAGE_KEY, JSON.stringify([...this.recentSubmissions(now), now]));
+  }
+
+  // Returns what is wrong with the chosen files, or null when they can be uploaded
+  validateAttachments(files: File[]): string | null {
+    if (files.length > MAX_ATTACHMENTS) return `You can attach up to ${MAX_ATTACHMENTS} files`;
+    const unsupported = files.find(file => !ATTACHMENT_TYPES.includes(file.type));
+    if (unsupported) return `${unsupported.name} is not a supported file type (JPG, PNG, WebP or PDF)`;
+    const tooLarge = files.find(file => file.size > MAX_ATTACHMENT_BYTES);
+    if (tooLarge) return `${tooLarge.name} is larger than ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB`;
+    return null;
+  }
+
+  private recentSubmissions(now: number): number[] {
+    try {
+      const stored: unknown = JSON.parse(localStorage.getItem(SUBMISSIONS_STORAGE_KEY) || '[]');
+      return Array.isArray(stored) ? stored.filter((time): time is number => typeof time === 'number' && now - time < RATE_LIMIT.windowMs).sort((a, b) => a - b) : [];
+    } catch {
+      return [];
+    }
+  }
+}
+
+// Export singleton instance
+export const contactService = new ContactService();
+export default contactService;
+export { CONTACT_CATEGORIES, MAX_ATTACHMENTS, ATTACHMENT_TYPES };
+
+// Export types for use in components
+export type {
+  ContactCategory,
+  ContactForm,
+  ContactCustomer,
+  SpamCheck,
+};
@@ -0,0 +1,137 @@
+// /app/services/customerService.ts
+// Customer lookup for support agents: what a search term is, and the shapes of a customer's history
+import type { RelatedBooking, RelatedPayment } from '@/app/domain';
+
+type CustomerSearchField = 'email' | 'phone' | 'nic' | 'booking' | 'name';
+
+interface CustomerSummary {
+  id: string;
+  name: string;
+  email: string;
+  phone?: string;
+  nic?: string;
+  // Which field the server matched, e.g. a booking ID that belongs to this customer
+  matchedOn?: CustomerSearchField;
+}
+
+interface CustomerBooking {
+  _id: string;
+  bookingId: string;
+  routeName?: string;
+  travelDate?: string;
+  seatNumbers?: string[];
+  status: string;
+  totalAmount: number;
+  createdAt: string;
+}
+
+interface CustomerPayment {
+  _id: string;
+  paymentId: string;
+  bookingId?: string;
+  amount: number;
+  method?: string;
+  status: string;
+  createdAt: string;
+}
+
+interface CustomerRefund {
+  _id: string;
+  refundId: string;
+  bookingId?: string;
+  paymentId?: string;
+  amount: number;
+  status: string;
+  reason?: string;
+  createdAt: string;
+}
+
+interface CustomerTicket {
+  _id: string;
+  ticketId: string;
+  subject: string;
+  status: string;
+  priority: string;
+  createdAt: string;
+}
+
+interface CustomerChat {
+  sessionId: string;
+  status: string;
+  startedAt: string;
+  agentName?: string;
+  messages: Array<{ sender: 'customer' | 'agent' | 'system'; message: string; timestamp: string }>;
+}
+
+interface CustomerProfile {
+  customer: CustomerSummary;
+  bookings: CustomerBooking[];
+  payments: CustomerPayment[];
+  refunds: CustomerRefund[];
+  tickets: CustomerTicket[];
+  chats: CustomerChat[];
+}
+
+// Searches shorter than this match too many customers to be useful
+const MIN_CUSTOMER_QUERY_LENGTH = 3;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]*$/;
+// Old NICs are 9 digits and a V or X; new ones are 12 digits
+const NIC_PATTERN = /^(\d{9}[vVxX]|\d{12})$/;
+// +94 or a leading 0, then nine digits, with optional spaces or dashes
+const PHONE_PATTERN = /^(\+94|0)[\d\s-]{9,12}$/;
+const BOOKING_ID_PATTERN = /^BK[\w-]+$/i;
+
+class CustomerService {
+  // Hints the server at the field to search; anything unrecognised is treated as a name
+  classifyQuery(query: string): CustomerSearchField {
+    const value = query.trim();
+    if (EMAIL_PATTERN.test(value)) return 'email';
+    if (BOOKING_ID_PATTERN.test(value)) return 'booking';
+    if (NIC_PATTERN.test(value)) return 'nic';
+    if (PHONE_PATTERN.test(value)) return 'phone';
+    return 'name';
+  }
+
+  isSearchable(query: string): boolean {
+    return query.trim().length >= MIN_CUSTOMER_QUERY_LENGTH;
+  }
+
+  // Refunds are stored separately from bookings, so the refunded amount is summed from them
+  toRelatedBooking(booking: CustomerBooking, refunds: CustomerRefund[] = []): RelatedBooking {
+    const refunded = refunds.filter(refund => refund.bookingId === booking.bookingId && refund.status !== 'rejected');
+    return {
+      bookingId: booking.bookingId,
+      totalAmount: booking.totalAmount,
+      refundAmount: refunded.length ? refunded.reduce((sum, refund) => sum + refund.amount, 0) : undefined,
+      routeName: booking.routeName,
+      travelDate: booking.travelDate,
+      status: booking.status,
+    };
+  }
+
+  toRelatedPayment(payment: CustomerPayment): RelatedPayment {
+    return { paymentId: payment.paymentId, bookingId: payment.bookingId, amount: payment.amount, method: payment.method, status: payment.status };
+  }
+
+  formatAmount(amount: number): string {
+    return `Rs. ${amount.toLocaleString()}`;
+  }
+}
+
+// Export singleton instance
+export const customerService = new CustomerService();
+export default customerService;
+export { MIN_CUSTOMER_QUERY_LENGTH };
+
+// Export types for use in components
+export type {
+  CustomerSearchField,
+  CustomerSummary,
+  CustomerBooking,
+  CustomerPayment,
+  CustomerRefund,
+  CustomerTicket,
+  CustomerChat,
+  CustomerProfile,
+};
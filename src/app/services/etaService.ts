@@ -0,0 +1,237 @@
+// /app/services/etaService.ts
+// Arrival predictions: each vehicle projected along its route to every stop it has still to reach, and departures boards built from them
+import routeGeometryService, { type PathProjection, type RouteGeometry, type RouteStop, type TravelDirection } from '@/app/services/routeGeometryService';
+import type { VehicleLocation } from '@/app/domain';
+
+// One position fix, placed along the vehicle's route
+interface SpeedSample {
+  // Epoch ms of the fix
+  at: number;
+  // Metres along the route
+  distanceAlong: number;
+  // Which way along the route the vehicle was going at the fix
+  direction: TravelDirection;
+  // km/h as the device reported it
+  reportedSpeed?: number;
+}
+
+// Where a speed estimate came from, best first
+type PredictionBasis = 'observed' | 'reported' | 'scheduled';
+
+interface StopPrediction {
+  stop: RouteStop;
+  // ISO time the vehicle is expected at the stop
+  arrivesAt: string;
+  // Seconds from the moment of prediction
+  secondsAway: number;
+}
+
+interface VehiclePrediction {
+  vehicleId: string;
+  vehicleNumber?: string;
+  // The route's _id
+  routeId: string;
+  routeName: string;
+  distanceAlong: number;
+  direction: TravelDirection;
+  // m/s used for the projection
+  speed: number;
+  basis: PredictionBasis;
+  // Minutes the vehicle is held before it moves on, from `delays.currentDelay`
+  holdMinutes: number;
+  // Remaining stops in the order the vehicle reaches them; the first is the next stop
+  stops: StopPrediction[];
+  predictedAt: string;
+}
+
+interface DepartureBoardEntry {
+  vehicleId: string;
+  vehicleNumber?: string;
+  routeId: string;
+  routeName: string;
+  stop: RouteStop;
+  arrivesAt: string;
+  minutesAway: number;
+  basis: PredictionBasis;
+  // Minutes behind schedule as the vehicle reports it
+  delayMinutes: number;
+  // The stop is the last on this vehicle's trip, so it terminates there rather than departs
+  terminates: boolean;
+}
+
+// A board lists the stops that share a name across routes, e.g. every route calling at Kandy
+interface BoardStop {
+  key: string;
+  name: string;
+  routeNames: string[];
+}
+
+// Fixes older than this no longer describe how the vehicle is moving now
+const HISTORY_WINDOW_MS = 10 * 60000;
+const MAX_SAMPLES = 40;
+// Movement needs at least this much history behind it to be trusted over the reported speed
+const MIN_OBSERVED_SPAN_MS = 60000;
+// Below this the vehicle counts as standing still; predictions then use its cruising speed after any hold
+const STATIONARY_KMH = 3;
+const MIN_SPEED_KMH = 10;
+const MAX_SPEED_KMH = 90;
+// Time spent at each intermediate stop on the way
+const DWELL_SECONDS = 30;
+// A vehicle this close to a stop is treated as having reached it
+const AT_STOP_METRES = 40;
+// Further than this from the line the vehicle is off its route and no prediction is made
+const OFF_ROUTE_METRES = 1000;
+const DEFAULT_BOARD_SIZE = 8;
+
+const kmhToMps = (kmh: number) => kmh / 3.6;
+const clampSpeed = (mps: number) => Math.min(kmhToMps(MAX_SPEED_KMH), Math.max(kmhToMps(MIN_SPEED_KMH), mps));
+const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+class EtaService {
+  // Which way the vehicle at `projection` is going: its reported heading where that settles it, else the way it has
+  // moved since its last fix, else the way it was going before. Vehicles with no history run from the route's start.
+  travelDirection(history: SpeedSample[], projection: PathProjection, at: number, heading?: number): TravelDirection {
+    const byHeading = routeGeometryService.headingDirection(projection, heading);
+    if (byHeading) return byHeading;
+    const last = history[history.length - 1];
+    if (!last) return 1;
+    const moved = projection.distanceAlong - last.distanceAlong;
+    // A jump further than the vehicle could have driven is a new trip or a bad fix, not movement
+    const reachable = kmhToMps(MAX_SPEED_KMH) * Math.max(0, at - last.at) / 1000 + AT_STOP_METRES;
+    if (Math.abs(moved) > AT_STOP_METRES && Math.abs(moved) <= reachable) return moved > 0 ? 1 : -1;
+    return last.direction;
+  }
+
+  // Adds a fix to a vehicle's history and drops what has aged out. The same fix twice is kept once.
+  appendSample(history: SpeedSample[], sample: SpeedSample): SpeedSample[] {
+    const last = history[history.length - 1];
+    if (last && last.at >= sample.at) return history;
+    // Turning round, or going backwards against the direction of travel, means a new trip has started;
+    // the old history says nothing about it
+    const newTrip = last && (sample.direction !== last.direction || (sample.distanceAlong - last.distanceAlong) * sample.direction < -AT_STOP_METRES);
+    const kept = newTrip ? [] : history;
+    return [...kept, sample].filter(entry => sample.at - entry.at <= HISTORY_WINDOW_MS).slice(-MAX_SAMPLES);
+  }
+
+  // Speed in m/s: distance actually covered over the recent window where there is enough of it, then the
+  // device's own readings, then the timetable's average for the route
+  estimateSpeed(history: SpeedSample[], geometry: RouteGeometry, scheduledMinutes: number): { speed: number; basis: PredictionBasis; stationary: boolean } {
+    const first = history[0];
+    const last = history[history.length - 1];
+    const reported = history.map(sample => sample.reportedSpeed).filter((speed): speed is number => typeof speed === 'number' && speed >= 0);
+    const latestReported = reported[reported.length - 1];
+    const scheduled = scheduledMinutes > 0 ? geometry.length / (scheduledMinutes * 60) : kmhToMps(MIN_SPEED_KMH);
+
+    if (first && last && last.at - first.at >= MIN_OBSERVED_SPAN_MS) {
+      const observed = (last.distanceAlong - first.distanceAlong) * last.direction / ((last.at - first.at) / 1000);
+      const stationary = observed < kmhToMps(STATIONARY_KMH) && (latestReported === undefined || latestReported < STATIONARY_KMH);
+      // A stopped vehicle's average says nothing about how fast it will go once moving again
+      if (!stationary) return { speed: clampSpeed(observed), basis: 'observed', stationary };
+      const moving = reported.filter(speed => speed >= STATIONARY_KMH);
+      return moving.length ? { speed: clampSpeed(kmhToMps(average(moving))), basis: 'reported', stationary } : { speed: clampSpeed(scheduled), basis: 'scheduled', stationary };
+    }
+    if (reported.length) {
+      const moving = reported.filter(speed => speed >= STATIONARY_KMH);
+      const stationary = latestReported !== undefined && latestReported < STATIONARY_KMH;
+      if (moving.length) return { speed: clampSpeed(kmhToMps(average(moving))), basis: 'reported', stationary };
+      return { speed: clampSpeed(scheduled), basis: 'scheduled', stationary };
+    }
+    return { speed: clampSpeed(scheduled), basis: 'scheduled', stationary: false };
+  }
+
+  // Arrival at each stop still ahead. `history` must already include the vehicle's latest fix.
+  predict(vehicle: VehicleLocation, geometry: RouteGeometry, scheduledMinutes: number, history: SpeedSample[], now: number = Date.now()): VehiclePrediction | null {
+    const projection = routeGeometryService.project(geometry, [vehicle.location.latitude, vehicle.location.longitude]);
+    if (!projection || projection.offset > OFF_ROUTE_METRES) return null;
+
+    const { speed, basis, stationary } = this.estimateSpeed(history, geometry, scheduledMinutes);
+    // A reported delay on a vehicle that is standing still is time it has yet to lose; on a moving one
+    // it is already behind it and shows in its position
+    const holdMinutes = stationary ? Math.max(0, vehicle.operationalInfo?.delays?.currentDelay || 0) : 0;
+    // Predictions count from the fix, not from when it was fetched
+    const fixedAt = vehicle.timestamp ? Math.min(now, new Date(vehicle.timestamp).getTime()) : now;
+    const start = (fixedAt - now) / 1000 + holdMinutes * 60;
+
+    // The direction of the latest fix; on the return trip the stops come in reverse route order
+    const direction = history[history.length - 1]?.direction ?? 1;
+    const ahead = geometry.stops.filter(stop => (stop.distanceAlong - projection.distanceAlong) * direction > AT_STOP_METRES);
+    if (direction === -1) ahead.reverse();
+    const stops = ahead.map((stop, index): StopPrediction => {
+      const seconds = Math.max(0, start + Math.abs(stop.distanceAlong - projection.distanceAlong) / speed + index * DWELL_SECONDS);
+      return { stop, arrivesAt: new Date(now + seconds * 1000).toISOString(), secondsAway: Math.round(seconds) };
+    });
+
+    return {
+      vehicleId: vehicle.vehicleId,
+      vehicleNumber: vehicle.vehicleNumber,
+      routeId: geometry.id,
+      routeName: geometry.name,
+      distanceAlong: projection.distanceAlong,
+      direction,
+      speed,
+      basis,
+      holdMinutes,
+      stops,
+      predictedAt: new Date(now).toISOString(),
+    };
+  }
+
+  stopKey(name: string): string {
+    return name.trim().toLowerCase().replace(/\s+/g, ' ');
+  }
+
+  // Every stop a board can be shown for, merged by name across routes
+  boardStops(geometries: RouteGeometry[]): BoardStop[] {
+    const stops = new Map<string, BoardStop>();
+    geometries.forEach(geometry => geometry.stops.forEach(stop => {
+      const key = this.stopKey(stop.name);
+      const entry = stops.get(key) || { key, name: stop.name, routeNames: [] };
+      if (!entry.routeNames.includes(geometry.name)) entry.routeNames.push(geometry.name);
+      stops.set(key, entry);
+    }));
+    return Array.from(stops.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  // Upcoming vehicles at a stop, soonest first
+  departures(predictions: VehiclePrediction[], stopKey: string, vehicles: VehicleLocation[] = [], limit: number = DEFAULT_BOARD_SIZE, now: number = Date.now()): DepartureBoardEntry[] {
+    const delays = new Map(vehicles.map(vehicle => [vehicle.vehicleId, vehicle.operationalInfo?.delays?.currentDelay || 0]));
+    return predictions
+      .flatMap(prediction => prediction.stops
+        .filter(entry => this.stopKey(entry.stop.name) === stopKey)
+        .map((entry): DepartureBoardEntry => ({
+          vehicleId: prediction.vehicleId,
+          vehicleNumber: prediction.vehicleNumber,
+          routeId: prediction.routeId,
+          routeName: prediction.routeName,
+          stop: entry.stop,
+          arrivesAt: entry.arrivesAt,
+          minutesAway: Math.max(0, Math.round((new Date(entry.arrivesAt).getTime() - now) / 60000)),
+          basis: prediction.basis,
+          delayMinutes: delays.get(prediction.vehicleId) || 0,
+          terminates: entry.stop.kind === (prediction.direction === 1 ? 'end' : 'start'),
+        })))
+      .sort((a, b) => new Date(a.arrivesAt).getTime() - new Date(b.arrivesAt).getTime())
+      .slice(0, limit);
+  }
+
+  formatMinutesAway(minutes: number): string {
+    if (minutes < 1) return 'Due';
+    if (minutes < 60) return `${minutes} min`;
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  }
+}
+
+// Export singleton instance
+export const etaService = new EtaService();
+export default etaService;
+export { HISTORY_WINDOW_MS, DWELL_SECONDS };
+
+// Export types for use in components
+export type {
+  SpeedSample,
+  PredictionBasis,
+  StopPrediction,
+  VehiclePrediction,
+  DepartureBoardEntry,
+  BoardStop,
+};
@@ -0,0 +1,214 @@
+// /app/services/itineraryService.ts
+// Round-trip and multi-leg itineraries: connection search and the itinerary being booked
+import type { NewBooking } from '@/app/domain';
+import type { SeatHold } from '@/app/services/seatService';
+
+type ItineraryType = 'one_way' | 'round_trip' | 'multi_leg';
+
+// The subset of a route the connection search needs
+interface ConnectableRoute {
+  _id: string;
+  name: string;
+  startLocation: { name: string };
+  endLocation: { name: string };
+  schedules: Array<{ departureTime: string; arrivalTime: string; daysOfWeek: string[]; isActive: boolean }>;
+  pricing: { basePrice: number };
+}
+
+interface ItineraryLeg {
+  routeId: string;
+  routeName: string;
+  from: string;
+  to: string;
+  travelDate: string;
+  // Index into the route's active schedules; left empty when the passenger still has to pick one
+  scheduleId?: string;
+  departureTime?: string;
+  arrivalTime?: string;
+  basePrice: number;
+}
+
+interface Itinerary {
+  itineraryId: string;
+  type: ItineraryType;
+  legs: ItineraryLeg[];
+  createdAt: string;
+}
+
+// One leg waiting on payment, with the seats held for it
+interface PendingLeg extends NewBooking {
+  seatHold: SeatHold | null;
+}
+
+// What the booking form hands the payment page: a single leg, or for an itinerary the first leg's
+// details with every leg in `legs` and the pricing summed over them
+interface PendingBooking extends PendingLeg {
+  itinerary?: Pick<Itinerary, 'itineraryId' | 'type'>;
+  legs?: PendingLeg[];
+}
+
+interface ConnectionOptions {
+  minTransferMinutes: number;
+}
+
+const PENDING_ITINERARY_KEY = 'pendingItinerary';
+const DEFAULT_MIN_TRANSFER_MINUTES = 30;
+const DAY_MINUTES = 24 * 60;
+
+class ItineraryService {
+  // Build an itinerary from the legs picked on the search page
+  create(type: ItineraryType, legs: ItineraryLeg[]): Itinerary {
+    return {
+      itineraryId: `IT${Date.now()}${Math.floor(Math.random() * 1000)}`,
+      type,
+      legs,
+      createdAt: new Date().toISOString(),
+    };
+  }
+
+  // Two-leg journeys from `from` to `to` that change at a shared stop, with at least
+  // `minTransferMinutes` between arriving on the first leg and leaving on the second.
+  findConnections(
+    routes: ConnectableRoute[],
+    from: string,
+    to: string,
+    travelDate: string,
+    options: ConnectionOptions = { minTransferMinutes: DEFAULT_MIN_TRANSFER_MINUTES }
+  ): ItineraryLeg[][] {
+    const firstLegs = routes.filter(r => this.matchesPlace(r.startLocation.name, from) && !this.matchesPlace(r.endLocation.name, to));
+    const connections: ItineraryLeg[][] = [];
+
+    for (const first of firstLegs) {
+      const secondLegs = routes.filter(r =>
+        r._id !== first._id &&
+        this.sameStop(r.startLocation.name, first.endLocation.name) &&
+        this.matchesPlace(r.endLocation.name, to)
+      );
+
+      for (const second of secondLegs) {
+        const pair = this.earliestConnection(first, second, travelDate, options.minTransferMinutes);
+        if (pair) connections.push(pair);
+      }
+    }
+
+    return connections.sort((a, b) => this.arrivalMinutes(a) - this.arrivalMinutes(b));
+  }
+
+  // A leg on a route with no schedule chosen yet (direct bookings, return trips)
+  legFromRoute(route: ConnectableRoute, travelDate: string): ItineraryLeg {
+    return {
+      routeId: route._id,
+      routeName: route.name,
+      from: route.startLocation.name,
+      to: route.endLocation.name,
+      travelDate,
+      basePrice: route.pricing.basePrice,
+    };
+  }
+
+  // Minutes spent waiting at the shared stop between two consecutive legs
+  transferMinutes(arriving: ItineraryLeg, departing: ItineraryLeg): number | null {
+    if (!arriving.arrivalTime || !departing.departureTime) return null;
+    const arrival = this.toMinutes(arriving.arrivalTime) + (this.overnight(arriving) ? DAY_MINUTES : 0);
+    const departure = this.toMinutes(departing.departureTime) + this.dayOffset(arriving.travelDate, departing.travelDate) * DAY_MINUTES;
+    return departure - arrival;
+  }
+
+  savePending(itinerary: Itinerary): void {
+    localStorage.setItem(PENDING_ITINERARY_KEY, JSON.stringify(itinerary));
+  }
+
+  getPending(itineraryId?: string | null): Itinerary | null {
+    if (typeof window === 'undefined') return null;
+    try {
+      const itinerary: Itinerary | null = JSON.parse(localStorage.getItem(PENDING_ITINERARY_KEY) || 'null');
+      if (!itinerary || (itineraryId && itinerary.itineraryId !== itineraryId)) return null;
+      return itinerary;
+    } catch {
+      return null;
+    }
+  }
+
+  clearPending(): void {
+    localStorage.removeItem(PENDING_ITINERARY_KEY);
+  }
+
+  private earliestConnection(first: ConnectableRoute, second: ConnectableRoute, travelDate: string, minTransferMinutes: number): ItineraryLeg[] | null {
+    const firstSchedules = this.runningSchedules(first, travelDate);
+    let best: ItineraryLeg[] | null = null;
+
+    for (const s1 of firstSchedules) {
+      const leg1: ItineraryLeg = { ...this.legFromRoute(first, travelDate), scheduleId: s1.index.toString(), departureTime: s1.departureTime, arrivalTime: s1.arrivalTime };
+      // The second leg runs on the day the first one arrives
+      const secondDate = this.overnight(leg1) ? this.addDays(travelDate, 1) : travelDate;
+
+      for (const s2 of this.runningSchedules(second, secondDate)) {
+        const leg2: ItineraryLeg = { ...this.legFromRoute(second, secondDate), scheduleId: s2.index.toString(), departureTime: s2.departureTime, arrivalTime: s2.arrivalTime };
+        const transfer = this.transferMinutes(leg1, leg2);
+        if (transfer === null || transfer < minTransferMinutes) continue;
+        if (!best || this.arrivalMinutes([leg1, leg2]) < this.arrivalMinutes(best)) best = [leg1, leg2];
+      }
+    }
+    return best;
+  }
+
+  // Schedules that run on the given date, indexed among the active ones as the booking page lists them
+  private runningSchedules(route: ConnectableRoute, travelDate: string) {
+    const weekday = new Date(`${travelDate}T00:00:00`).toLocaleDateString('en-US', { weekday: 'long' }).toLowerCase();
+    return route.schedules
+      .filter(s => s.isActive)
+      .map((schedule, index) => ({ ...schedule, index }))
+      .filter(s => !s.daysOfWeek?.length || s.daysOfWeek.some(day => weekday.startsWith(day.toLowerCase().slice(0, 3))));
+  }
+
+  // Arrival of the last leg, in minutes from the start of the first leg's travel date
+  private arrivalMinutes(legs: ItineraryLeg[]): number {
+    const last = legs[legs.length - 1];
+    const offset = this.dayOffset(legs[0].travelDate, last.travelDate) + (this.overnight(last) ? 1 : 0);
+    return this.toMinutes(last.arrivalTime || '00:00') + offset * DAY_MINUTES;
+  }
+
+  private overnight(leg: ItineraryLeg): boolean {
+    return !!leg.departureTime && !!leg.arrivalTime && this.toMinutes(leg.arrivalTime) < this.toMinutes(leg.departureTime);
+  }
+
+  private toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return (hours || 0) * 60 + (minutes || 0);
+  }
+
+  private dayOffset(fromDate: string, toDate: string): number {
+    return Math.round((new Date(`${toDate}T00:00:00`).getTime() - new Date(`${fromDate}T00:00:00`).getTime()) / 86400000);
+  }
+
+  private addDays(date: string, days: number): string {
+    const next = new Date(`${date}T00:00:00`);
+    next.setDate(next.getDate() + days);
+    return `${next.getFullYear()}-${String(next.getMonth() + 1).padStart(2, '0')}-${String(next.getDate()).padStart(2, '0')}`;
+  }
+
+  private sameStop(a: string, b: string): boolean {
+    return a.trim().toLowerCase() === b.trim().toLowerCase();
+  }
+
+  // Searched places match loosely, e.g. "Colombo" finds "Colombo Fort"
+  private matchesPlace(stop: string, query: string): boolean {
+    return stop.toLowerCase().includes(query.trim().toLowerCase());
+  }
+}
+
+// Export singleton instance
+export const itineraryService = new ItineraryService();
+export default itineraryService;
+export { DEFAULT_MIN_TRANSFER_MINUTES };
+
+// Export types for use in components
+export type {
+  ItineraryType,
+  ConnectableRoute,
+  ItineraryLeg,
+  Itinerary,
+  PendingLeg,
+  PendingBooking,
+  ConnectionOptions,
+};
@@ -0,0 +1,224 @@
+// /app/services/knowledgeBaseService.ts
+// Knowledge base articles: language fallback, full-text search, deflection suggestions and the markdown subset they are written in
+import { ARTICLE_LANGUAGES, TICKET_CATEGORIES, type Article, type ArticleDraft, type ArticleLanguage } from '@/app/domain';
+
+interface LocalizedArticle {
+  language: ArticleLanguage;
+  title: string;
+  body: string;
+}
+
+interface ArticleMatch {
+  article: Article;
+  localized: LocalizedArticle;
+  score: number;
+  excerpt: string;
+}
+
+interface SearchOptions {
+  language?: ArticleLanguage;
+  category?: string;
+  // Every word has to appear (search box) or any will do (suggestions from a message being typed)
+  matchAll?: boolean;
+  limit?: number;
+  // Agents search their drafts too
+  includeDrafts?: boolean;
+}
+
+// Markdown blocks agents can use: headings, paragraphs, bullet and numbered lists, code blocks
+type MarkdownBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'code'; text: string };
+
+type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'bold'; text: string }
+  | { type: 'italic'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'link'; text: string; href: string };
+
+// Sinhala and Tamil vowel signs are combining marks and Sinhala conjuncts use zero-width joiners, so
+// words are runs of letters, marks, digits and joiners. Built with RegExp because the target does not
+// allow the `u` flag in a literal.
+const WORD_SEPARATOR = new RegExp('[^\\p{L}\\p{M}\\p{N}\\u200c\\u200d]+', 'u');
+const STOP_WORDS = new Set(['a', 'an', 'and', 'are', 'at', 'be', 'can', 'do', 'for', 'from', 'have', 'how', 'i', 'in', 'is', 'it', 'me', 'my', 'of', 'on', 'or', 'please', 'the', 'to', 'was', 'what', 'when', 'with', 'you']);
+// Suggestions need a few real words before they are worth showing
+const MIN_SUGGESTION_TERMS = 2;
+const SUGGESTION_LIMIT = 3;
+const EXCERPT_LENGTH = 160;
+const FIELD_WEIGHTS = { title: 5, tags: 3, body: 1 };
+// Links may only point inside the site or to the web, never `javascript:` and the like. A relative link must not
+// start `//` (or `/\`, which browsers read the same way): that is another host dressed up as a path.
+const SAFE_HREF = /^(https?:\/\/|\/(?![\/\\])|#|mailto:|tel:)/i;
+
+const INLINE_PATTERN = /(\*\*[^*]+\*\*|`[^`]+`|\[[^\]]+\]\([^)\s]+\)|\*[^*\s][^*]*\*|_[^_\s][^_]*_)/g;
+
+const normalize = (text: string) => text.toLowerCase().normalize('NFC');
+
+class KnowledgeBaseService {
+  tokenize(text: string): string[] {
+    return normalize(text).split(WORD_SEPARATOR).filter(word => word.length > 1 && !STOP_WORDS.has(word));
+  }
+
+  // The article in the passenger's language, else English, else whichever translation exists
+  localize(article: Article, language: ArticleLanguage): LocalizedArticle | null {
+    const fallbacks: ArticleLanguage[] = [language, 'en', ...ARTICLE_LANGUAGES];
+    const found = fallbacks.find(candidate => article.translations[candidate]?.title);
+    const translation = found ? article.translations[found] : undefined;
+    return found && translation ? { language: found, title: translation.title, body: translation.body } : null;
+  }
+
+  // Scores every translation, so a Sinhala query still finds an article whose English title is shown.
+  // The last word is matched as a prefix because it is usually still being typed.
+  search(articles: Article[], query: string, options: SearchOptions = {}): ArticleMatch[] {
+    const { language = 'en', category, matchAll = true, limit, includeDrafts = false } = options;
+    const terms = this.tokenize(query);
+    const matches = articles
+      .filter(article => (includeDrafts || article.status === 'published') && (!category || article.category === category))
+      .map(article => {
+        const localized = this.localize(article, language);
+        if (!localized) return null;
+        if (terms.length === 0) return { article, localized, score: 0, excerpt: this.excerpt(localized.body, []) };
+        const fields = {
+          title: this.tokenize(ARTICLE_LANGUAGES.map(lang => article.translations[lang]?.title || '').join(' ')),
+          tags: this.tokenize(article.tags.join(' ')),
+          body: this.tokenize(ARTICLE_LANGUAGES.map(lang => article.translations[lang]?.body || '').join(' ')),
+        };
+        let score = 0;
+        let matched = 0;
+        terms.forEach((term, index) => {
+          const isPrefix = index === terms.length - 1;
+          const hits = (words: string[]) => words.some(word => word === term || (isPrefix && word.startsWith(term)));
+          const termScore = (Object.keys(fields) as Array<keyof typeof fields>).reduce((sum, field) => sum + (hits(fields[field]) ? FIELD_WEIGHTS[field] : 0), 0);
+          if (termScore > 0) matched++;
+          score += termScore;
+        });
+        if (matched === 0 || (matchAll && matched < terms.length)) return null;
+        return { article, localized, score, excerpt: this.excerpt(localized.body, terms) };
+      })
+      .filter((match): match is ArticleMatch => match !== null)
+      .sort((a, b) => b.score - a.score || a.localized.title.localeCompare(b.localized.title));
+    return limit ? matches.slice(0, limit) : matches;
+  }
+
+  // Articles that might answer what a passenger is typing into a chat or the contact form
+  suggest(articles: Article[], text: string, language: ArticleLanguage = 'en', category?: string): ArticleMatch[] {
+    if (this.tokenize(text).length < MIN_SUGGESTION_TERMS) return [];
+    const inCategory = category ? this.search(articles, text, { language, category, matchAll: false }) : [];
+    const anywhere = this.search(articles, text, { language, matchAll: false });
+    // Prefer articles in the category they picked, then fill up from the rest
+    const seen = new Set<string>();
+    return [...inCategory, ...anywhere].filter(match => {
+      if (seen.has(match.article._id)) return false;
+      seen.add(match.article._id);
+      return true;
+    }).slice(0, SUGGESTION_LIMIT);
+  }
+
+  // Plain text around the first matching word, for search results
+  excerpt(body: string, terms: string[]): string {
+    const text = this.toPlainText(body);
+    const lower = normalize(text);
+    const position = terms.map(term => lower.indexOf(term)).filter(index => index >= 0).sort((a, b) => a - b)[0] ?? 0;
+    const start = Math.max(0, position - EXCERPT_LENGTH / 4);
+    const slice = text.slice(start, start + EXCERPT_LENGTH).trim();
+    return `${start > 0 ? '…' : ''}${slice}${start + EXCERPT_LENGTH < text.length ? '…' : ''}`;
+  }
+
+  toPlainText(markdown: string): string {
+    return markdown
+      .replace(/```[\s\S]*?```/g, ' ')
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+      .replace(/^\s{0,3}(#{1,3}|[-*]|\d+\.)\s+/gm, '')
+      .replace(/[*_`]/g, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  parseMarkdown(markdown: string): MarkdownBlock[] {
+    const blocks: MarkdownBlock[] = [];
+    const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+    let paragraph: string[] = [];
+    const flushParagraph = () => {
+      if (paragraph.length) blocks.push({ type: 'paragraph', text: paragraph.join(' ') });
+      paragraph = [];
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      const trimmed = line.trim();
+      if (trimmed.startsWith('```')) {
+        flushParagraph();
+        const code: string[] = [];
+        for (i++; i < lines.length && !lines[i].trim().startsWith('```'); i++) code.push(lines[i]);
+        blocks.push({ type: 'code', text: code.join('\n') });
+        continue;
+      }
+      const heading = /^(#{1,3})\s+(.+)$/.exec(trimmed);
+      if (heading) {
+        flushParagraph();
+        blocks.push({ type: 'heading', level: heading[1].length as 1 | 2 | 3, text: heading[2] });
+        continue;
+      }
+      const item = /^([-*]|\d+\.)\s+(.+)$/.exec(trimmed);
+      if (item) {
+        flushParagraph();
+        const ordered = item[1] !== '-' && item[1] !== '*';
+        const previous = blocks[blocks.length - 1];
+        if (previous?.type === 'list' && previous.ordered === ordered) previous.items.push(item[2]);
+        else blocks.push({ type: 'list', ordered, items: [item[2]] });
+        continue;
+      }
+      if (!trimmed) flushParagraph();
+      else paragraph.push(trimmed);
+    }
+    flushParagraph();
+    return blocks;
+  }
+
+  parseInline(text: string): MarkdownInline[] {
+    return text.split(INLINE_PATTERN).filter(Boolean).map((part): MarkdownInline => {
+      if (part.startsWith('**') && part.endsWith('**') && part.length > 4) return { type: 'bold', text: part.slice(2, -2) };
+      if (part.startsWith('`') && part.endsWith('`') && part.length > 2) return { type: 'code', text: part.slice(1, -1) };
+      const link = /^\[([^\]]+)\]\(([^)\s]+)\)$/.exec(part);
+      if (link) return SAFE_HREF.test(link[2]) ? { type: 'link', text: link[1], href: link[2] } : { type: 'text', text: link[1] };
+      if ((part.startsWith('*') && part.endsWith('*') || part.startsWith('_') && part.endsWith('_')) && part.length > 2) return { type: 'italic', text: part.slice(1, -1) };
+      return { type: 'text', text: part };
+    });
+  }
+
+  // Returns what is missing before the article can be saved, or null
+  validate(draft: ArticleDraft): string | null {
+    if (!(TICKET_CATEGORIES as readonly string[]).includes(draft.category)) return 'Choose a category';
+    const written = ARTICLE_LANGUAGES.filter(language => draft.translations[language]?.title.trim() || draft.translations[language]?.body.trim());
+    if (written.length === 0) return 'Write the article in at least one language';
+    const incomplete = written.find(language => !draft.translations[language]?.title.trim() || !draft.translations[language]?.body.trim());
+    if (incomplete) return `The ${incomplete.toUpperCase()} version needs both a title and a body`;
+    return null;
+  }
+
+  // Drops languages that were left empty so they fall back instead of showing a blank article
+  cleanDraft(draft: ArticleDraft): ArticleDraft {
+    const translations: ArticleDraft['translations'] = {};
+    ARTICLE_LANGUAGES.forEach(language => {
+      const translation = draft.translations[language];
+      if (translation?.title.trim()) translations[language] = { title: translation.title.trim(), body: translation.body.trim() };
+    });
+    return { ...draft, tags: draft.tags.map(tag => tag.trim()).filter(Boolean), translations };
+  }
+}
+
+// Export singleton instance
+export const knowledgeBaseService = new KnowledgeBaseService();
+export default knowledgeBaseService;
+
+// Export types for use in components
+export type {
+  LocalizedArticle,
+  ArticleMatch,
+  SearchOptions,
+  MarkdownBlock,
+  MarkdownInline,
+};
@@ -0,0 +1,170 @@
+// /app/services/macroService.ts
+// Canned responses for support agents: templated replies that can also move a ticket along
+
+type MacroCategory = 'refunds' | 'check_in' | 'cancellations' | 'payments' | 'general';
+
+interface MacroActions {
+  status?: 'open' | 'in_progress' | 'pending_customer' | 'resolved' | 'closed';
+  priority?: 'low' | 'medium' | 'high' | 'urgent';
+}
+
+interface Macro {
+  id: string;
+  title: string;
+  // Typed after a slash in the chat box or note editor, e.g. /refund
+  shortcut: string;
+  category: MacroCategory;
+  // Text with {{variables}}, see MACRO_VARIABLES
+  body: string;
+  actions?: MacroActions;
+}
+
+// What the variables are filled from: the open ticket or chat and its booking
+interface MacroContext {
+  customerName?: string;
+  agentName?: string;
+  ticketId?: string;
+  bookingId?: string;
+  refundAmount?: number;
+}
+
+interface RenderedMacro {
+  text: string;
+  // Variables the context had no value for; they are left as [placeholders] for the agent to fill in
+  missing: string[];
+}
+
+const MACRO_CATEGORIES: Record<MacroCategory, string> = {
+  refunds: 'Refunds',
+  check_in: 'QR check-in',
+  cancellations: 'Cancelled trips',
+  payments: 'Payments',
+  general: 'General',
+};
+
+const MACRO_VARIABLES: Record<string, { label: string; resolve: (context: MacroContext) => string | undefined }> = {
+  'customer.name': { label: 'Customer name', resolve: context => context.customerName },
+  'customer.firstName': { label: 'Customer first name', resolve: context => context.customerName?.split(' ')[0] },
+  'agent.name': { label: 'Your name', resolve: context => context.agentName },
+  'ticket.id': { label: 'Ticket ID', resolve: context => context.ticketId },
+  'booking.id': { label: 'Booking ID', resolve: context => context.bookingId },
+  'refund.amount': { label: 'Refund amount', resolve: context => context.refundAmount === undefined ? undefined : `Rs. ${context.refundAmount.toLocaleString()}` },
+};
+
+// Shipped with the console; macros from the server with the same id replace these
+const DEFAULT_MACROS: Macro[] = [
+  {
+    id: 'refund-initiated',
+    title: 'Refund initiated',
+    shortcut: 'refund',
+    category: 'refunds',
+    body: 'Hi {{customer.firstName}}, we have started a refund of {{refund.amount}} for booking {{booking.id}}. It usually reaches your account within 5-7 working days.',
+    actions: { status: 'pending_customer' },
+  },
+  {
+    id: 'refund-completed',
+    title: 'Refund completed',
+    shortcut: 'refunddone',
+    category: 'refunds',
+    body: 'Hi {{customer.firstName}}, your refund of {{refund.amount}} for booking {{booking.id}} has been completed. Please allow your bank a day or two to show it.',
+    actions: { status: 'resolved' },
+  },
+  {
+    id: 'qr-not-scanning',
+    title: 'QR code not scanning',
+    shortcut: 'qr',
+    category: 'check_in',
+    body: 'Hi {{customer.firstName}}, please turn your screen brightness up and open the QR code for booking {{booking.id}} from My Bookings rather than a screenshot. If it still does not scan, show the conductor your booking ID and they can check you in manually.',
+  },
+  {
+    id: 'qr-resend',
+    title: 'Resend QR code',
+    shortcut: 'qrresend',
+    category: 'check_in',
+    body: 'Hi {{customer.firstName}}, I have re-sent the QR code for booking {{booking.id}} to your email. You can also find it any time under My Bookings.',
+    actions: { status: 'resolved' },
+  },
+  {
+    id: 'trip-cancelled',
+    title: 'Trip cancelled by operator',
+    shortcut: 'cancelled',
+    category: 'cancellations',
+    body: 'Hi {{customer.firstName}}, we are sorry that your trip for booking {{booking.id}} was cancelled by the operator. A full refund of {{refund.amount}} is on its way, or we can move you to the next available departure at no extra cost.',
+    actions: { status: 'pending_customer', priority: 'high' },
+  },
+  {
+    id: 'payment-pending',
+    title: 'Payment still pending',
+    shortcut: 'pending',
+    category: 'payments',
+    body: 'Hi {{customer.firstName}}, the payment for booking {{booking.id}} is still being confirmed by your bank. Your seat is held while this happens, and you will get an email as soon as it goes through.',
+  },
+  {
+    id: 'escalate-urgent',
+    title: 'Escalating to a supervisor',
+    shortcut: 'escalate',
+    category: 'general',
+    body: 'Hi {{customer.firstName}}, I have passed ticket {{ticket.id}} to a supervisor so it gets looked at right away. We will update you here shortly.',
+    actions: { priority: 'urgent', status: 'in_progress' },
+  },
+  {
+    id: 'closing',
+    title: 'Anything else?',
+    shortcut: 'thanks',
+    category: 'general',
+    body: 'Thanks for contacting Sri Express, {{customer.firstName}}. Is there anything else I can help you with today?',
+  },
+];
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+class MacroService {
+  // Server macros override built-ins with the same id and are listed after them
+  merge(serverMacros: Macro[]): Macro[] {
+    const byId = new Map(DEFAULT_MACROS.map(macro => [macro.id, macro]));
+    serverMacros.forEach(macro => byId.set(macro.id, macro));
+    return Array.from(byId.values());
+  }
+
+  render(macro: Macro, context: MacroContext): RenderedMacro {
+    const missing = new Set<string>();
+    const text = macro.body.replace(VARIABLE_PATTERN, (match, name: string) => {
+      const variable = MACRO_VARIABLES[name];
+      if (!variable) return match;
+      const value = variable.resolve(context);
+      if (value) return value;
+      missing.add(variable.label);
+      return `[${variable.label}]`;
+    });
+    return { text, missing: Array.from(missing) };
+  }
+
+  // Shortcut prefix matches first, then anything whose title contains the query
+  search(macros: Macro[], query: string, limit: number = 6): Macro[] {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return macros.slice(0, limit);
+    const byShortcut = macros.filter(macro => macro.shortcut.toLowerCase().startsWith(needle));
+    const byTitle = macros.filter(macro => !byShortcut.includes(macro) && macro.title.toLowerCase().includes(needle));
+    return [...byShortcut, ...byTitle].slice(0, limit);
+  }
+
+  groupByCategory(macros: Macro[]): Array<{ category: MacroCategory; label: string; macros: Macro[] }> {
+    return (Object.keys(MACRO_CATEGORIES) as MacroCategory[])
+      .map(category => ({ category, label: MACRO_CATEGORIES[category], macros: macros.filter(macro => macro.category === category) }))
+      .filter(group => group.macros.length > 0);
+  }
+}
+
+// Export singleton instance
+export const macroService = new MacroService();
+export default macroService;
+export { DEFAULT_MACROS, MACRO_CATEGORIES, MACRO_VARIABLES };
+
+// Export types for use in components
+export type {
+  MacroCategory,
+  MacroActions,
+  Macro,
+  MacroContext,
+  RenderedMacro,
+};
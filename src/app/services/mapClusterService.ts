@@ -0,0 +1,142 @@
+// /app/services/mapClusterService.ts
+// Keeping the live map light with a national fleet: grouping nearby vehicles when zoomed out, how much detail each marker gets and which area is worth fetching
+import type { LatLng } from '@/app/services/routeGeometryService';
+
+// [south-west, north-east]
+type LatLngBounds = [LatLng, LatLng];
+
+interface MapViewport {
+  zoom: number;
+  bounds: LatLngBounds;
+}
+
+// dot: a small status-coloured circle; full: the icon with heading, load badge and status label
+type DetailLevel = 'dot' | 'full';
+
+interface ClusterPoint {
+  id: string;
+  position: LatLng;
+  status: string;
+}
+
+interface VehicleCluster {
+  // The grid cell, stable while the map is panned at the same zoom
+  id: string;
+  // Average of the members' positions
+  position: LatLng;
+  count: number;
+  statuses: Record<string, number>;
+  dominantStatus: string;
+  bounds: LatLngBounds;
+  memberIds: string[];
+}
+
+interface ClusterResult<T extends ClusterPoint> {
+  singles: T[];
+  clusters: VehicleCluster[];
+}
+
+const TILE_SIZE = 256;
+// Vehicles sharing a cell this many screen pixels wide are drawn as one cluster
+const CLUSTER_CELL_PX = 60;
+// Clustering stops above this zoom; from there every vehicle is drawn
+const CLUSTER_MAX_ZOOM = 12;
+// Full icons from this zoom; below it single vehicles are dots
+const DETAIL_ZOOM = 13;
+// The fetched area reaches this share of the view beyond each edge, so short pans need no new request
+const FETCH_PADDING = 0.25;
+// Fetched bounds are widened to this grid so nearby views share a cache key
+const FETCH_GRID_DEGREES = 0.1;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const toGrid = (value: number, round: (value: number) => number) => Number((round(value / FETCH_GRID_DEGREES) * FETCH_GRID_DEGREES).toFixed(4));
+
+class MapClusterService {
+  detailLevel(zoom: number): DetailLevel {
+    return zoom >= DETAIL_ZOOM ? 'full' : 'dot';
+  }
+
+  // Web Mercator pixel position at `zoom`, the same space Leaflet draws in
+  project([lat, lng]: LatLng, zoom: number): [number, number] {
+    const scale = TILE_SIZE * 2 ** zoom;
+    const sin = Math.sin(clamp(lat, -85, 85) * Math.PI / 180);
+    return [scale * (lng + 180) / 360, scale * (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI))];
+  }
+
+  // Grid clustering: cheap enough to redo on every poll, and a cell only changes with the zoom.
+  // A cell holding a single vehicle draws it as usual.
+  cluster<T extends ClusterPoint>(points: T[], zoom: number): ClusterResult<T> {
+    if (zoom > CLUSTER_MAX_ZOOM) return { singles: points, clusters: [] };
+
+    const cells = new Map<string, T[]>();
+    points.forEach(point => {
+      const [x, y] = this.project(point.position, zoom);
+      const cell = `${zoom}:${Math.floor(x / CLUSTER_CELL_PX)}:${Math.floor(y / CLUSTER_CELL_PX)}`;
+      const members = cells.get(cell);
+      if (members) members.push(point); else cells.set(cell, [point]);
+    });
+
+    const singles: T[] = [];
+    const clusters: VehicleCluster[] = [];
+    cells.forEach((members, cell) => {
+      if (members.length === 1) {
+        singles.push(members[0]);
+        return;
+      }
+      const statuses: Record<string, number> = {};
+      members.forEach(member => { statuses[member.status] = (statuses[member.status] || 0) + 1; });
+      const lats = members.map(member => member.position[0]);
+      const lngs = members.map(member => member.position[1]);
+      clusters.push({
+        id: cell,
+        position: [lats.reduce((sum, lat) => sum + lat, 0) / members.length, lngs.reduce((sum, lng) => sum + lng, 0) / members.length],
+        count: members.length,
+        statuses,
+        dominantStatus: Object.keys(statuses).reduce((best, status) => statuses[status] > statuses[best] ? status : best),
+        bounds: [[Math.min(...lats), Math.min(...lngs)], [Math.max(...lats), Math.max(...lngs)]],
+        memberIds: members.map(member => member.id),
+      });
+    });
+    return { singles, clusters };
+  }
+
+  // The view grown by `ratio` of its size on every side
+  pad([[south, west], [north, east]]: LatLngBounds, ratio: number): LatLngBounds {
+    const latPad = (north - south) * ratio;
+    const lngPad = (east - west) * ratio;
+    return [[south - latPad, west - lngPad], [north + latPad, east + lngPad]];
+  }
+
+  contains([[south, west], [north, east]]: LatLngBounds, [lat, lng]: LatLng): boolean {
+    return lat >= south && lat <= north && lng >= west && lng <= east;
+  }
+
+  // The area to ask the backend for: the padded view, widened to the grid
+  queryBounds(viewport: MapViewport): LatLngBounds {
+    const [[south, west], [north, east]] = this.pad(viewport.bounds, FETCH_PADDING);
+    return [
+      [toGrid(clamp(south, -90, 90), Math.floor), toGrid(clamp(west, -180, 180), Math.floor)],
+      [toGrid(clamp(north, -90, 90), Math.ceil), toGrid(clamp(east, -180, 180), Math.ceil)],
+    ];
+  }
+
+  sameBounds(a: LatLngBounds | null, b: LatLngBounds | null): boolean {
+    if (!a || !b) return a === b;
+    return a[0][0] === b[0][0] && a[0][1] === b[0][1] && a[1][0] === b[1][0] && a[1][1] === b[1][1];
+  }
+}
+
+// Export singleton instance
+export const mapClusterService = new MapClusterService();
+export default mapClusterService;
+export { CLUSTER_MAX_ZOOM, DETAIL_ZOOM };
+
+// Export types for use in components
+export type {
+  LatLngBounds,
+  MapViewport,
+  DetailLevel,
+  ClusterPoint,
+  VehicleCluster,
+  ClusterResult,
+};
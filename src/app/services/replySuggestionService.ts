@@ -0,0 +1,201 @@
+// /app/services/replySuggestionService.ts
+// Drafting replies for agents: the context a provider gets, the local stand-in provider and how close a sent reply stayed to its draft
+import knowledgeBaseService from '@/app/services/knowledgeBaseService';
+import customerService, { type CustomerProfile } from '@/app/services/customerService';
+import type { Article, RelatedBooking, RelatedPayment, ReplySuggestion, SuggestionProvider, SuggestionSource } from '@/app/domain';
+
+type SuggestionChannel = 'chat' | 'ticket';
+
+interface ConversationTurn {
+  from: 'customer' | 'agent' | 'system';
+  text: string;
+}
+
+// Everything a provider may draw on for one chat or ticket
+interface ReplyContext {
+  channel: SuggestionChannel;
+  // The chat session's or ticket's _id
+  referenceId: string;
+  customerName?: string;
+  agentName?: string;
+  subject?: string;
+  category?: string;
+  history: ConversationTurn[];
+  booking?: RelatedBooking;
+  payment?: RelatedPayment;
+  // Published help articles; the provider picks the relevant ones
+  articles: Article[];
+}
+
+interface ReplySuggestionProvider {
+  name: SuggestionProvider;
+  suggest: (context: ReplyContext) => Promise<ReplySuggestion[]>;
+}
+
+// What a remote model is sent: recent turns only, and articles already narrowed to likely matches
+interface ReplyRequest {
+  message: string;
+  context: Omit<ReplyContext, 'articles'> & { articles: Array<SuggestionSource & { excerpt: string }> };
+}
+
+interface LocalIntent {
+  id: string;
+  keywords: string[];
+  draft: (context: ReplyContext) => string;
+}
+
+const MAX_HISTORY_TURNS = 20;
+const MAX_SUGGESTIONS = 3;
+// How many of the customer's latest messages are read for what they are asking about
+const RECENT_CUSTOMER_TURNS = 3;
+
+const firstName = (context: ReplyContext) => context.customerName?.split(' ')[0] || 'there';
+const bookingRef = (context: ReplyContext) => context.booking ? `booking ${context.booking.bookingId}` : 'your booking';
+const amount = (value: number) => `Rs. ${value.toLocaleString()}`;
+
+// The development stand-in recognises these topics by keyword. Order matters: the first match leads.
+const LOCAL_INTENTS: LocalIntent[] = [
+  {
+    id: 'refund',
+    keywords: ['refund', 'refunded', 'reimburse', 'money'],
+    draft: context => context.booking?.refundAmount
+      ? `A refund of ${amount(context.booking.refundAmount)} for ${bookingRef(context)} is being processed and usually reaches your account within 5-7 working days.`
+      : `I can help with a refund for ${bookingRef(context)}. Could you confirm whether the trip was cancelled or you could not travel?`,
+  },
+  {
+    id: 'cancellation',
+    keywords: ['cancel', 'cancelled', 'canceled', 'cancellation'],
+    draft: context => context.booking?.status === 'cancelled'
+      ? `I can see ${bookingRef(context)} has been cancelled. I can arrange a refund or move you to another departure at no extra cost.`
+      : `I can cancel ${bookingRef(context)} for you${context.booking?.travelDate ? ` (travelling ${new Date(context.booking.travelDate).toLocaleDateString()})` : ''}. Shall I go ahead?`,
+  },
+  {
+    id: 'payment',
+    keywords: ['payment', 'paid', 'charged', 'card', 'deducted', 'transaction'],
+    draft: context => context.payment
+      ? `The payment of ${amount(context.payment.amount)} (${context.payment.paymentId}) is currently ${context.payment.status || 'being checked'}. ${context.payment.status === 'completed' ? 'Your seat is confirmed.' : 'Your seat stays held while the bank confirms it.'}`
+      : 'Could you share the payment reference or the last four digits of the card so I can find the transaction?',
+  },
+  {
+    id: 'qr',
+    keywords: ['qr', 'scan', 'scanning', 'conductor', 'check'],
+    draft: context => `Please open the QR code for ${bookingRef(context)} from My Bookings with your screen brightness turned up. If it still does not scan, the conductor can check you in with the booking ID.`,
+  },
+  {
+    id: 'delay',
+    keywords: ['late', 'delay', 'delayed', 'waiting', 'where', 'arrive', 'eta'],
+    draft: context => `I am sorry for the wait. You can follow the vehicle live from Track Vehicle${context.booking?.routeName ? ` on the ${context.booking.routeName} route` : ''}, and I will let you know if the departure changes.`,
+  },
+  {
+    id: 'lost_item',
+    keywords: ['lost', 'forgot', 'left', 'missing', 'bag'],
+    draft: () => 'I am sorry to hear that. Could you describe the item and tell me roughly where you were sitting? I will pass it to the depot so they can check the vehicle.',
+  },
+];
+
+// A short stable hash so the same conversation always yields the same suggestion ids
+const hash = (text: string): string => {
+  let value = 0;
+  for (let i = 0; i < text.length; i++) value = (value * 31 + text.charCodeAt(i)) | 0;
+  return (value >>> 0).toString(36);
+};
+
+class ReplySuggestionService {
+  // The customer's latest messages, which is what a suggestion answers
+  latestCustomerText(context: ReplyContext): string {
+    return context.history.filter(turn => turn.from === 'customer').slice(-RECENT_CUSTOMER_TURNS).map(turn => turn.text).join(' ');
+  }
+
+  // The booking a conversation is about (or the customer's latest) and its payment, from their profile
+  customerContext(profile: CustomerProfile | undefined, bookingId?: string): Pick<ReplyContext, 'booking' | 'payment'> {
+    if (!profile) return {};
+    const byDate = <T extends { createdAt: string }>(items: T[]) => [...items].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    const booking = (bookingId && profile.bookings.find(item => item.bookingId === bookingId)) || byDate(profile.bookings)[0];
+    const payment = (booking && profile.payments.find(item => item.bookingId === booking.bookingId)) || byDate(profile.payments)[0];
+    return {
+      booking: booking ? customerService.toRelatedBooking(booking, profile.refunds) : undefined,
+      payment: payment ? customerService.toRelatedPayment(payment) : undefined,
+    };
+  }
+
+  relevantArticles(context: ReplyContext) {
+    const text = [context.subject, this.latestCustomerText(context)].filter(Boolean).join(' ');
+    return knowledgeBaseService.suggest(context.articles, text, 'en', context.category);
+  }
+
+  buildRequest(context: ReplyContext): ReplyRequest {
+    const { articles, ...rest } = context;
+    return {
+      message: this.latestCustomerText(context),
+      context: {
+        ...rest,
+        history: context.history.slice(-MAX_HISTORY_TURNS),
+        articles: this.relevantArticles({ ...context, articles }).map(match => ({ slug: match.article.slug, title: match.localized.title, excerpt: match.excerpt })),
+      },
+    };
+  }
+
+  // Deterministic drafts built from keywords, the booking and payment on file and the best matching
+  // article. Used in development so the panel works without a model behind it.
+  draftLocally(context: ReplyContext): ReplySuggestion[] {
+    const text = this.latestCustomerText(context);
+    if (!text.trim()) return [];
+    const words = new Set(knowledgeBaseService.tokenize(`${context.subject || ''} ${text}`));
+    const greeting = `Hi ${firstName(context)}, thanks for getting in touch.`;
+    const seed = hash(`${context.referenceId}:${text}`);
+    const suggestions: ReplySuggestion[] = [];
+
+    LOCAL_INTENTS.filter(intent => intent.keywords.some(keyword => words.has(keyword))).slice(0, 2).forEach(intent => {
+      suggestions.push({ id: `local-${intent.id}-${seed}`, text: `${greeting} ${intent.draft(context)}`, provider: 'local', sources: [] });
+    });
+
+    const [article] = this.relevantArticles(context);
+    if (article) {
+      suggestions.push({
+        id: `local-article-${article.article.slug}-${seed}`,
+        text: `${greeting} This help article explains it step by step: ${article.localized.title} (/help?article=${article.article.slug}). Let me know if anything is unclear.`,
+        provider: 'local',
+        sources: [{ slug: article.article.slug, title: article.localized.title }],
+      });
+    }
+
+    if (suggestions.length === 0) {
+      suggestions.push({ id: `local-clarify-${seed}`, text: `${greeting} Could you tell me a little more${context.booking ? ` about ${bookingRef(context)}` : ', and share your booking ID if this is about a trip'}? I will look into it right away.`, provider: 'local', sources: [] });
+    }
+    return suggestions.slice(0, MAX_SUGGESTIONS);
+  }
+
+  // Word-level overlap (Dice coefficient) between the draft and what was sent: 1 is unchanged, 0 is rewritten
+  similarity(suggested: string, sent: string): number {
+    const a = knowledgeBaseService.tokenize(suggested);
+    const b = knowledgeBaseService.tokenize(sent);
+    if (a.length === 0 && b.length === 0) return 1;
+    const counts = new Map<string, number>();
+    a.forEach(word => counts.set(word, (counts.get(word) || 0) + 1));
+    let shared = 0;
+    b.forEach(word => {
+      const count = counts.get(word) || 0;
+      if (count > 0) { shared++; counts.set(word, count - 1); }
+    });
+    return Math.round((2 * shared / (a.length + b.length)) * 100) / 100;
+  }
+}
+
+// Export singleton instance
+export const replySuggestionService = new ReplySuggestionService();
+export default replySuggestionService;
+
+// The local stand-in, behind the same interface as the model
+export const localSuggestionProvider: ReplySuggestionProvider = {
+  name: 'local',
+  suggest: context => Promise.resolve(replySuggestionService.draftLocally(context)),
+};
+
+// Export types for use in components
+export type {
+  SuggestionChannel,
+  ConversationTurn,
+  ReplyContext,
+  ReplySuggestionProvider,
+  ReplyRequest,
+};
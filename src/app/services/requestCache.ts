@@ -0,0 +1,152 @@
+// /app/services/requestCache.ts
+// Shared cache for API reads: one entry per key, identical in-flight requests share a single fetch,
+// and stale entries keep being served while they revalidate
+
+type Fetcher<T> = () => Promise<T>;
+type Listener = () => void;
+type QueryParams = Record<string, string | number | boolean | null | undefined>;
+
+interface CacheEntry<T = unknown> {
+  data?: T;
+  error?: unknown;
+  // When data last arrived (ms since epoch); 0 until the first successful fetch
+  updatedAt: number;
+  isValidating: boolean;
+  // Set by invalidate(); the next read refetches even if the data is young
+  stale: boolean;
+}
+
+interface FetchOptions {
+  // Data younger than this is returned without a request
+  staleTime?: number;
+  // Ignore freshness and always request (manual refresh, polling)
+  force?: boolean;
+}
+
+const DEFAULT_STALE_TIME_MS = 30000;
+
+// Keys are the API path without `/api` plus its query, so cacheKey('/bookings', { limit: 5 }) is
+// '/bookings?limit=5' and invalidating '/bookings' reaches it.
+const cacheKey = (path: string, params: QueryParams = {}): string => {
+  const query = Object.keys(params)
+    .filter(name => params[name] !== undefined && params[name] !== null && params[name] !== '')
+    .sort()
+    .map(name => `${name}=${encodeURIComponent(String(params[name]))}`)
+    .join('&');
+  return query ? `${path}?${query}` : path;
+};
+
+class RequestCache {
+  private entries = new Map<string, CacheEntry>();
+  private inflight = new Map<string, Promise<unknown>>();
+  private fetchers = new Map<string, Fetcher<unknown>>();
+  private listeners = new Map<string, Set<Listener>>();
+  // Bumped per request so a response that lost a race with a newer one is dropped
+  private generations = new Map<string, number>();
+
+  peek<T>(key: string): CacheEntry<T> | undefined {
+    return this.entries.get(key) as CacheEntry<T> | undefined;
+  }
+
+  fetch<T>(key: string, fetcher: Fetcher<T>, options: FetchOptions = {}): Promise<T> {
+    this.fetchers.set(key, fetcher);
+    const pending = this.inflight.get(key);
+    if (pending) return pending as Promise<T>;
+
+    const entry = this.peek<T>(key);
+    const staleTime = options.staleTime ?? DEFAULT_STALE_TIME_MS;
+    if (!options.force && entry?.data !== undefined && !entry.stale && Date.now() - entry.updatedAt < staleTime) {
+      return Promise.resolve(entry.data);
+    }
+
+    const generation = (this.generations.get(key) || 0) + 1;
+    this.generations.set(key, generation);
+    const isCurrent = () => this.generations.get(key) === generation;
+
+    const request = fetcher().then(
+      data => {
+        if (isCurrent()) {
+          this.inflight.delete(key);
+          this.update(key, { data, error: undefined, updatedAt: Date.now(), isValidating: false, stale: false });
+        }
+        return data;
+      },
+      error => {
+        if (isCurrent()) {
+          this.inflight.delete(key);
+          this.update(key, { error, isValidating: false });
+        }
+        throw error;
+      }
+    );
+    this.inflight.set(key, request);
+    this.update(key, { isValidating: true });
+    return request;
+  }
+
+  // Write data directly, e.g. with the response of a mutation
+  set<T>(key: string, data: T): void {
+    this.generations.set(key, (this.generations.get(key) || 0) + 1);
+    this.inflight.delete(key);
+    this.update(key, { data, error: undefined, updatedAt: Date.now(), isValidating: false, stale: false });
+  }
+
+  // Mark every key under the given prefixes stale ('/bookings' covers '/bookings?limit=5' and '/bookings/123').
+  // Keys a mounted component is watching refetch straight away; the rest refetch on their next read.
+  invalidate(...prefixes: string[]): void {
+    const keys = Array.from(this.entries.keys()).filter(key => prefixes.some(prefix => this.matches(key, prefix)));
+    keys.forEach(key => {
+      // A request started before the mutation may carry old data, so it no longer counts as current
+      this.generations.set(key, (this.generations.get(key) || 0) + 1);
+      this.inflight.delete(key);
+      this.update(key, { stale: true, isValidating: false });
+      const fetcher = this.fetchers.get(key);
+      if (fetcher && this.listeners.get(key)?.size) this.fetch(key, fetcher, { force: true }).catch(() => undefined);
+    });
+  }
+
+  subscribe(key: string, listener: Listener): () => void {
+    const listeners = this.listeners.get(key) || new Set<Listener>();
+    listeners.add(listener);
+    this.listeners.set(key, listeners);
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) this.listeners.delete(key);
+    };
+  }
+
+  // Forget everything, e.g. on logout so the next user never sees the previous user's data
+  clear(): void {
+    const keys = Array.from(this.entries.keys());
+    this.entries.clear();
+    this.inflight.clear();
+    this.fetchers.clear();
+    keys.forEach(key => {
+      this.generations.set(key, (this.generations.get(key) || 0) + 1);
+      this.listeners.get(key)?.forEach(listener => listener());
+    });
+  }
+
+  private update(key: string, changes: Partial<CacheEntry>): void {
+    const previous = this.entries.get(key) || { updatedAt: 0, isValidating: false, stale: false };
+    // Entries are replaced rather than mutated so subscribers can compare snapshots by reference
+    this.entries.set(key, { ...previous, ...changes });
+    this.listeners.get(key)?.forEach(listener => listener());
+  }
+
+  private matches(key: string, prefix: string): boolean {
+    return key === prefix || key.startsWith(`${prefix}/`) || key.startsWith(`${prefix}?`);
+  }
+}
+
+// Export singleton instance
+export const requestCache = new RequestCache();
+export default requestCache;
+export { cacheKey, DEFAULT_STALE_TIME_MS };
+
+// Export types for use in components
+export type {
+  CacheEntry,
+  FetchOptions,
+  QueryParams,
+};
@@ -0,0 +1,240 @@
+// /app/services/routeGeometryService.ts
+// Route shapes for the map: the path through a route's stops, scheduled times at each stop and snapping GPS fixes onto the path
+import type { Route } from '@/app/domain';
+
+// [latitude, longitude], as routes store their coordinates
+type LatLng = [number, number];
+
+type RouteStopKind = 'start' | 'stop' | 'end';
+
+// 1 runs from the route's start towards its end, -1 is the return trip
+type TravelDirection = 1 | -1;
+
+interface RouteStop {
+  name: string;
+  coordinates: LatLng;
+  // 1 for the start, counting up along the route
+  number: number;
+  kind: RouteStopKind;
+  // Metres along the path from the start
+  distanceAlong: number;
+  minutesFromDeparture: number;
+  // False when the operator left the waypoint's time empty and it was spread by distance instead
+  timed: boolean;
+}
+
+interface RouteGeometry {
+  // The route's _id
+  id: string;
+  routeId: string;
+  name: string;
+  path: LatLng[];
+  // Metres along the path at each point of `path`
+  cumulative: number[];
+  length: number;
+  stops: RouteStop[];
+}
+
+interface PathProjection {
+  position: LatLng;
+  distanceAlong: number;
+  // Metres between the fix and the path
+  offset: number;
+  // Direction of travel along the path at that point, degrees clockwise from north
+  heading: number;
+}
+
+const EARTH_RADIUS_M = 6371000;
+// Fixes further than this from the line are left where they are: the vehicle is off its route (or on a detour)
+const SNAP_DISTANCE_M = 250;
+const DAY_MINUTES = 24 * 60;
+// A reported heading within this many degrees of square to the line says nothing about which way the vehicle is going
+const CROSSING_HEADING_DEGREES = 20;
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+// Missing coordinates come back as [0, 0], which is in the Gulf of Guinea rather than Sri Lanka
+const isPlaced = ([lat, lng]: LatLng) => Number.isFinite(lat) && Number.isFinite(lng) && !(lat === 0 && lng === 0);
+
+class RouteGeometryService {
+  // Start, waypoints in order, end; a stop with no usable coordinates is left off the line
+  build(route: Route): RouteGeometry {
+    const waypoints = [...route.waypoints].sort((a, b) => a.order - b.order);
+    const candidates = [
+      { name: route.startLocation.name, coordinates: route.startLocation.coordinates, kind: 'start' as const, minutes: 0 },
+      ...waypoints.map(waypoint => ({ name: waypoint.name, coordinates: waypoint.coordinates, kind: 'stop' as const, minutes: waypoint.estimatedTime })),
+      { name: route.endLocation.name, coordinates: route.endLocation.coordinates, kind: 'end' as const, minutes: route.estimatedDuration },
+    ].filter(candidate => isPlaced(candidate.coordinates));
+
+    const path: LatLng[] = [];
+    const cumulative: number[] = [];
+    const placed = candidates.map(candidate => {
+      const previous = path[path.length - 1];
+      if (!previous) {
+        path.push(candidate.coordinates);
+        cumulative.push(0);
+      } else if (previous[0] !== candidate.coordinates[0] || previous[1] !== candidate.coordinates[1]) {
+        path.push(candidate.coordinates);
+        cumulative.push(cumulative[cumulative.length - 1] + this.distance(previous, candidate.coordinates));
+      }
+      return { ...candidate, distanceAlong: cumulative[cumulative.length - 1] };
+    });
+    const length = cumulative[cumulative.length - 1] || 0;
+
+    const stops = placed.map((stop, index): RouteStop => {
+      const timed = typeof stop.minutes === 'number';
+      return {
+        name: stop.name,
+        coordinates: stop.coordinates,
+        number: index + 1,
+        kind: stop.kind,
+        distanceAlong: stop.distanceAlong,
+        minutesFromDeparture: timed ? stop.minutes! : Math.round(length ? route.estimatedDuration * stop.distanceAlong / length : 0),
+        timed,
+      };
+    });
+
+    return { id: route._id, routeId: route.routeId, name: route.name, path, cumulative, length, stops };
+  }
+
+  // Vehicles name their route by either id, so the lookup answers to both
+  index(geometries: RouteGeometry[]): Map<string, RouteGeometry> {
+    const byId = new Map<string, RouteGeometry>();
+    geometries.forEach(geometry => {
+      byId.set(geometry.id, geometry);
+      byId.set(geometry.routeId, geometry);
+    });
+    return byId;
+  }
+
+  // Great-circle distance in metres
+  distance(a: LatLng, b: LatLng): number {
+    const dLat = toRadians(b[0] - a[0]);
+    const dLng = toRadians(b[1] - a[1]);
+    const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a[0])) * Math.cos(toRadians(b[0])) * Math.sin(dLng / 2) ** 2;
+    return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+  }
+
+  bearing(a: LatLng, b: LatLng): number {
+    const y = Math.sin(toRadians(b[1] - a[1])) * Math.cos(toRadians(b[0]));
+    const x = Math.cos(toRadians(a[0])) * Math.sin(toRadians(b[0])) - Math.sin(toRadians(a[0])) * Math.cos(toRadians(b[0])) * Math.cos(toRadians(b[1] - a[1]));
+    return (Math.atan2(y, x) * 180 / Math.PI + 360) % 360;
+  }
+
+  // The nearest point on the path. Segments are flattened around the fix, which is accurate to
+  // well under a metre over the few kilometres between stops.
+  project(geometry: RouteGeometry, point: LatLng): PathProjection | null {
+    if (geometry.path.length === 0) return null;
+    if (geometry.path.length === 1) return { position: geometry.path[0], distanceAlong: 0, offset: this.distance(point, geometry.path[0]), heading: 0 };
+
+    const metresPerLat = EARTH_RADIUS_M * Math.PI / 180;
+    const metresPerLng = metresPerLat * Math.cos(toRadians(point[0]));
+    const flat = ([lat, lng]: LatLng) => [(lng - point[1]) * metresPerLng, (lat - point[0]) * metresPerLat];
+
+    let best: PathProjection | null = null;
+    for (let i = 0; i < geometry.path.length - 1; i++) {
+      const a = geometry.path[i];
+      const b = geometry.path[i + 1];
+      const [ax, ay] = flat(a);
+      const [bx, by] = flat(b);
+      const dx = bx - ax;
+      const dy = by - ay;
+      const lengthSquared = dx * dx + dy * dy;
+      const t = lengthSquared ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared)) : 0;
+      const offset = Math.hypot(ax + t * dx, ay + t * dy);
+      if (best && offset >= best.offset) continue;
+      best = {
+        position: [a[0] + t * (b[0] - a[0]), a[1] + t * (b[1] - a[1])],
+        distanceAlong: geometry.cumulative[i] + t * (geometry.cumulative[i + 1] - geometry.cumulative[i]),
+        offset,
+        heading: this.bearing(a, b),
+      };
+    }
+    return best;
+  }
+
+  // Which way along the line a reported heading points, or null when there is none or it crosses the line
+  headingDirection(projection: PathProjection, heading?: number): TravelDirection | null {
+    if (typeof heading !== 'number' || !Number.isFinite(heading)) return null;
+    const difference = Math.abs((((heading - projection.heading) % 360) + 540) % 360 - 180);
+    if (difference < 90 - CROSSING_HEADING_DEGREES) return 1;
+    if (difference > 90 + CROSSING_HEADING_DEGREES) return -1;
+    return null;
+  }
+
+  // The point `distanceAlong` metres from the start, clamped to the ends of the path; null when there is no path
+  pointAt(geometry: RouteGeometry, distanceAlong: number): { position: LatLng; heading: number } | null {
+    const { path, cumulative } = geometry;
+    if (path.length === 0) return null;
+    if (path.length === 1) return { position: path[0], heading: 0 };
+    const along = Math.max(0, Math.min(geometry.length, distanceAlong));
+    let low = 0;
+    let high = cumulative.length - 1;
+    while (high - low > 1) {
+      const middle = (low + high) >> 1;
+      if (cumulative[middle] <= along) low = middle; else high = middle;
+    }
+    const a = path[low];
+    const b = path[high];
+    const span = cumulative[high] - cumulative[low];
+    const t = span ? (along - cumulative[low]) / span : 0;
+    return { position: [a[0] + t * (b[0] - a[0]), a[1] + t * (b[1] - a[1])], heading: this.bearing(a, b) };
+  }
+
+  // The point `metres` away from `point` travelling on `bearing`
+  destination(point: LatLng, bearing: number, metres: number): LatLng {
+    const angular = metres / EARTH_RADIUS_M;
+    const heading = toRadians(bearing);
+    const lat = toRadians(point[0]);
+    const lng = toRadians(point[1]);
+    const destinationLat = Math.asin(Math.sin(lat) * Math.cos(angular) + Math.cos(lat) * Math.sin(angular) * Math.cos(heading));
+    const destinationLng = lng + Math.atan2(Math.sin(heading) * Math.sin(angular) * Math.cos(lat), Math.cos(angular) - Math.sin(lat) * Math.sin(destinationLat));
+    return [destinationLat * 180 / Math.PI, destinationLng * 180 / Math.PI];
+  }
+
+  // Where a vehicle is drawn: on the line when the fix is close enough to it, otherwise where the device says
+  snap(geometry: RouteGeometry | undefined, point: LatLng, maxOffset: number = SNAP_DISTANCE_M): PathProjection | null {
+    if (!geometry || !isPlaced(point)) return null;
+    const projection = this.project(geometry, point);
+    return projection && projection.offset <= maxOffset ? projection : null;
+  }
+
+  // "HH:MM" at this stop for each active departure, earliest first
+  scheduledTimes(route: Route, stop: RouteStop): string[] {
+    return route.schedules
+      .filter(schedule => schedule.isActive && schedule.departureTime)
+      .map(schedule => (this.toMinutes(schedule.departureTime) + stop.minutesFromDeparture) % DAY_MINUTES)
+      .sort((a, b) => a - b)
+      .map(minutes => this.formatMinutes(minutes));
+  }
+
+  bounds(geometry: RouteGeometry): [LatLng, LatLng] | null {
+    if (geometry.path.length === 0) return null;
+    const lats = geometry.path.map(point => point[0]);
+    const lngs = geometry.path.map(point => point[1]);
+    return [[Math.min(...lats), Math.min(...lngs)], [Math.max(...lats), Math.max(...lngs)]];
+  }
+
+  private toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return (hours || 0) * 60 + (minutes || 0);
+  }
+
+  private formatMinutes(minutes: number): string {
+    return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+  }
+}
+
+// Export singleton instance
+export const routeGeometryService = new RouteGeometryService();
+export default routeGeometryService;
+export { SNAP_DISTANCE_M };
+
+// Export types for use in components
+export type {
+  LatLng,
+  RouteStopKind,
+  TravelDirection,
+  RouteStop,
+  RouteGeometry,
+  PathProjection,
+};
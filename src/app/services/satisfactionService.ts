@@ -0,0 +1,54 @@
+// /app/services/satisfactionService.ts
+// CSAT/NPS surveys: checking an answer before it is sent and wording the scores for agents
+import { CSAT_MAX, CSAT_MIN, NPS_MAX, NPS_MIN, type SurveyResponse } from '@/app/domain';
+
+type NpsCategory = 'promoter' | 'passive' | 'detractor';
+
+const CSAT_LABELS: Record<number, string> = { 1: 'Very unhappy', 2: 'Unhappy', 3: 'Okay', 4: 'Happy', 5: 'Very happy' };
+const COMMENT_MAX_LENGTH = 1000;
+
+class SatisfactionService {
+  // Standard NPS bands: 9–10 promote, 7–8 are passive, 0–6 detract
+  npsCategory(score: number): NpsCategory {
+    if (score >= 9) return 'promoter';
+    if (score >= 7) return 'passive';
+    return 'detractor';
+  }
+
+  // Returns what is wrong with a response, or null when it can be sent
+  validate(response: SurveyResponse): string | null {
+    if (!Number.isInteger(response.csat) || response.csat < CSAT_MIN || response.csat > CSAT_MAX) return 'Please choose a rating from 1 to 5 stars';
+    if (response.nps !== undefined && (!Number.isInteger(response.nps) || response.nps < NPS_MIN || response.nps > NPS_MAX)) return 'Please choose a score from 0 to 10';
+    if (response.comment && response.comment.length > COMMENT_MAX_LENGTH) return `Please keep your comment under ${COMMENT_MAX_LENGTH} characters`;
+    return null;
+  }
+
+  // The dashboard has always shown CSAT as a percentage of the 5-star maximum
+  formatCsat(average: number | null | undefined): string {
+    return average ? `${(average / CSAT_MAX * 100).toFixed(1)}%` : 'N/A';
+  }
+
+  // NPS runs from -100 to +100, so positive scores get their sign
+  formatNps(score: number | null | undefined): string {
+    if (score === null || score === undefined) return 'N/A';
+    const rounded = Math.round(score);
+    return rounded > 0 ? `+${rounded}` : String(rounded);
+  }
+
+  npsColor(score: number | null | undefined): string {
+    if (score === null || score === undefined) return '#6b7280';
+    if (score >= 30) return '#10b981';
+    if (score >= 0) return '#f59e0b';
+    return '#ef4444';
+  }
+}
+
+// Export singleton instance
+export const satisfactionService = new SatisfactionService();
+export default satisfactionService;
+export { CSAT_LABELS, COMMENT_MAX_LENGTH };
+
+// Export types for use in components
+export type {
+  NpsCategory,
+};
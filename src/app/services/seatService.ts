@@ -0,0 +1,248 @@
+// /app/services/seatService.ts
+// Seat layouts, seat inventory and seat holds for the booking flow
+import apiClient, { ApiError } from '@/app/services/apiClient';
+import { decodeStoredBookings } from '@/app/domain';
+
+type VehicleType = 'bus' | 'train';
+type SeatType = 'window' | 'aisle' | 'middle';
+type SeatStatus = 'free' | 'taken' | 'held' | 'selected';
+
+interface SeatPosition {
+  seatNumber: string;
+  row: number;
+  column: string;
+  seatType: SeatType;
+}
+
+// One block of seats – the whole bus, or a single train carriage.
+// A `null` cell in a row is the aisle.
+interface SeatSection {
+  label: string;
+  rows: Array<Array<SeatPosition | null>>;
+}
+
+interface SeatInventory {
+  taken: string[];
+  held: string[];
+}
+
+interface SeatQuery {
+  routeId: string;
+  scheduleId: string;
+  travelDate: string;
+}
+
+// A time-limited reservation of seats while the passenger pays
+interface SeatHold extends SeatQuery {
+  holdId: string;
+  seatNumbers: string[];
+  createdAt: string;
+  expiresAt: string;
+}
+
+// Column letters with the seat type each position gets. `null` marks the aisle.
+// Buses run a 2+3 layout, train carriages a 2+2 layout.
+const BUS_COLUMNS: Array<{ column: string; seatType: SeatType } | null> = [
+  { column: 'A', seatType: 'window' },
+  { column: 'B', seatType: 'aisle' },
+  null,
+  { column: 'C', seatType: 'aisle' },
+  { column: 'D', seatType: 'middle' },
+  { column: 'E', seatType: 'window' },
+];
+
+const TRAIN_COLUMNS: Array<{ column: string; seatType: SeatType } | null> = [
+  { column: 'A', seatType: 'window' },
+  { column: 'B', seatType: 'aisle' },
+  null,
+  { column: 'C', seatType: 'aisle' },
+  { column: 'D', seatType: 'window' },
+];
+
+const SEATS_PER_CARRIAGE = 48;
+const SEAT_HOLD_MINUTES = 10;
+const LOCAL_HOLDS_KEY = 'seatHolds';
+
+class SeatService {
+  // Build the seat layout for a vehicle from its type and capacity
+  buildLayout(vehicleType: VehicleType, capacity: number): SeatSection[] {
+    const seatCount = Math.max(0, Math.floor(capacity));
+    if (vehicleType === 'train') {
+      const sections: SeatSection[] = [];
+      for (let start = 0, carriage = 1; start < seatCount; start += SEATS_PER_CARRIAGE, carriage++) {
+        const count = Math.min(SEATS_PER_CARRIAGE, seatCount - start);
+        sections.push({
+          label: `Carriage ${carriage}`,
+          rows: this.buildRows(TRAIN_COLUMNS, count, `C${carriage}-`),
+        });
+      }
+      return sections;
+    }
+    return [{ label: 'Bus', rows: this.buildRows(BUS_COLUMNS, seatCount, '') }];
+  }
+
+  // Find a seat in a layout by its number
+  findSeat(sections: SeatSection[], seatNumber: string): SeatPosition | null {
+    for (const section of sections) {
+      for (const row of section.rows) {
+        const seat = row.find(s => s?.seatNumber === seatNumber);
+        if (seat) return seat;
+      }
+    }
+    return null;
+  }
+
+  // Load taken and held seats for a schedule on a travel date.
+  // Seats under `ownHoldId` are the passenger's own and are not reported as held.
+  async getSeatInventory(query: SeatQuery, ownHoldId?: string): Promise<SeatInventory> {
+    const local = this.getLocalTakenSeats(query);
+    const localHeld = this.getLocalHolds()
+      .filter(h => h.holdId !== ownHoldId && this.matchesQuery(h, query))
+      .flatMap(h => h.seatNumbers);
+
+    try {
+      const data = await apiClient.seats.inventory(query);
+      const taken: string[] = Array.isArray(data?.taken) ? data.taken : [];
+      const held: string[] = Array.isArray(data?.held) ? data.held : [];
+      const allTaken = Array.from(new Set([...taken, ...local]));
+      const ownSeats = this.getLocalHolds().find(h => h.holdId === ownHoldId)?.seatNumbers || [];
+      return {
+        taken: allTaken,
+        held: Array.from(new Set([...held, ...localHeld])).filter(seat => !allTaken.includes(seat) && !ownSeats.includes(seat)),
+      };
+    } catch (error) {
+      console.warn('⚠️ Seat inventory unavailable from backend, using local bookings:', error);
+      return { taken: local, held: localHeld.filter(seat => !local.includes(seat)) };
+    }
+  }
+
+  // Reserve seats for SEAT_HOLD_MINUTES while the passenger completes payment
+  async createHold(query: SeatQuery, seatNumbers: string[]): Promise<SeatHold> {
+    const unavailable = `Seat ${seatNumbers.join(', ')} is no longer available`;
+    let hold: SeatHold | null = null;
+
+    try {
+      const stored = (await apiClient.seats.hold(query, seatNumbers, SEAT_HOLD_MINUTES))?.hold;
+      if (stored?.holdId && stored.expiresAt) {
+        hold = { ...query, seatNumbers, holdId: stored.holdId, createdAt: stored.createdAt || new Date().toISOString(), expiresAt: stored.expiresAt };
+      }
+    } catch (error) {
+      if (error instanceof ApiError && error.code === 'conflict') throw new Error(unavailable);
+      console.warn('⚠️ Seat hold service unavailable, holding seat locally:', error);
+    }
+
+    if (!hold) {
+      const clash = this.getLocalHolds().some(h => this.matchesQuery(h, query) && h.seatNumbers.some(seat => seatNumbers.includes(seat)));
+      if (clash) throw new Error(unavailable);
+      const now = Date.now();
+      hold = {
+        ...query,
+        holdId: `HOLD_${now}_${Math.random().toString(36).substr(2, 6)}`,
+        seatNumbers,
+        createdAt: new Date(now).toISOString(),
+        expiresAt: new Date(now + SEAT_HOLD_MINUTES * 60000).toISOString(),
+      };
+    }
+
+    this.saveLocalHolds([...this.getLocalHolds(), hold]);
+    return hold;
+  }
+
+  // Give held seats back, e.g. on cancel, timeout or once the booking is stored.
+  // `keepalive` is for a page that is closing: the request still goes out after it unloads.
+  async releaseHold(hold: SeatHold, { keepalive = false }: { keepalive?: boolean } = {}): Promise<void> {
+    this.saveLocalHolds(this.getLocalHolds().filter(h => h.holdId !== hold.holdId));
+
+    try {
+      await apiClient.seats.release(hold.holdId, { keepalive });
+    } catch (error) {
+      console.warn('⚠️ Failed to release seat hold on backend, it will lapse on its own:', error);
+    }
+  }
+
+  isHoldActive(hold: SeatHold | null | undefined): hold is SeatHold {
+    return !!hold && new Date(hold.expiresAt).getTime() > Date.now();
+  }
+
+  // Seconds left before a hold lapses (0 once expired)
+  getRemainingSeconds(hold: SeatHold): number {
+    return Math.max(0, Math.floor((new Date(hold.expiresAt).getTime() - Date.now()) / 1000));
+  }
+
+  private matchesQuery(hold: SeatHold, query: SeatQuery): boolean {
+    return hold.routeId === query.routeId && hold.scheduleId === query.scheduleId && hold.travelDate === query.travelDate;
+  }
+
+  // Holds made on this device, with lapsed ones dropped
+  private getLocalHolds(): SeatHold[] {
+    if (typeof window === 'undefined') return [];
+    try {
+      const holds: SeatHold[] = JSON.parse(localStorage.getItem(LOCAL_HOLDS_KEY) || '[]');
+      return holds.filter(h => this.isHoldActive(h));
+    } catch {
+      return [];
+    }
+  }
+
+  private saveLocalHolds(holds: SeatHold[]): void {
+    if (typeof window === 'undefined') return;
+    localStorage.setItem(LOCAL_HOLDS_KEY, JSON.stringify(holds.filter(h => this.isHoldActive(h))));
+  }
+
+  private buildRows(
+    columns: Array<{ column: string; seatType: SeatType } | null>,
+    seatCount: number,
+    prefix: string
+  ): Array<Array<SeatPosition | null>> {
+    const rows: Array<Array<SeatPosition | null>> = [];
+    let placed = 0;
+
+    for (let row = 1; placed < seatCount; row++) {
+      const cells: Array<SeatPosition | null> = [];
+      for (const col of columns) {
+        if (!col) { cells.push(null); continue; }
+        if (placed >= seatCount) continue;
+        cells.push({ seatNumber: `${prefix}${row}${col.column}`, row, column: col.column, seatType: col.seatType });
+        placed++;
+      }
+      rows.push(cells);
+    }
+    return rows;
+  }
+
+  // Bookings kept locally as a backup (see payment-gateway) still occupy their seats
+  private getLocalTakenSeats(query: SeatQuery): string[] {
+    if (typeof window === 'undefined') return [];
+    try {
+      const bookings = decodeStoredBookings(JSON.parse(localStorage.getItem('localBookings') || '[]'));
+      return bookings
+        .filter(b =>
+          b.routeId === query.routeId &&
+          b.scheduleId === query.scheduleId &&
+          b.travelDate.split('T')[0] === query.travelDate &&
+          b.status !== 'cancelled'
+        )
+        .flatMap(b => b.passengers ? b.passengers.map(p => p.seatInfo?.seatNumber) : [b.seatInfo?.seatNumber])
+        .filter((seat): seat is string => !!seat);
+    } catch {
+      return [];
+    }
+  }
+}
+
+// Export singleton instance
+export const seatService = new SeatService();
+export default seatService;
+export { SEAT_HOLD_MINUTES };
+
+// Export types for use in components
+export type {
+  VehicleType,
+  SeatType,
+  SeatStatus,
+  SeatPosition,
+  SeatSection,
+  SeatInventory,
+  SeatQuery,
+  SeatHold,
+};
@@ -0,0 +1,131 @@
+// /app/services/slaService.ts
+// Service level targets for support tickets: first-response and resolution deadlines per category and priority
+import type { Ticket, TicketCategory, TicketPriority } from '@/app/domain';
+
+interface SlaPolicy {
+  // '*' matches any category or priority; the most specific matching policy wins
+  category: TicketCategory | '*';
+  priority: TicketPriority | '*';
+  firstResponseMinutes: number;
+  resolutionMinutes: number;
+}
+
+// The ticket fields an SLA is measured from
+type SlaTicket = Pick<Ticket, 'category' | 'priority' | 'status' | 'createdAt' | 'firstResponseAt'> & Partial<Pick<Ticket, 'updatedAt'>> & {
+  resolution?: { resolvedAt: string };
+  escalation?: { escalated: boolean };
+};
+
+type SlaState = 'on_track' | 'at_risk' | 'breached' | 'met' | 'missed';
+
+interface SlaTimer {
+  dueAt: number;
+  // Negative once the deadline has passed
+  remainingMs: number;
+  state: SlaState;
+}
+
+interface SlaEvaluation {
+  policy: SlaPolicy;
+  firstResponse: SlaTimer;
+  resolution: SlaTimer;
+  // The timer that needs attention first: a breach, then the sooner of two running deadlines
+  worst: { timer: 'firstResponse' | 'resolution'; state: SlaState; remainingMs: number } | null;
+}
+
+// Priority targets for every category, tightened where money is involved and relaxed for feedback
+const DEFAULT_SLA_POLICIES: SlaPolicy[] = [
+  { category: '*', priority: 'urgent', firstResponseMinutes: 15, resolutionMinutes: 4 * 60 },
+  { category: '*', priority: 'high', firstResponseMinutes: 60, resolutionMinutes: 8 * 60 },
+  { category: '*', priority: 'medium', firstResponseMinutes: 4 * 60, resolutionMinutes: 24 * 60 },
+  { category: '*', priority: 'low', firstResponseMinutes: 8 * 60, resolutionMinutes: 72 * 60 },
+  { category: 'payment_problem', priority: '*', firstResponseMinutes: 60, resolutionMinutes: 12 * 60 },
+  { category: 'refund_request', priority: '*', firstResponseMinutes: 2 * 60, resolutionMinutes: 48 * 60 },
+  { category: 'suggestion', priority: '*', firstResponseMinutes: 24 * 60, resolutionMinutes: 7 * 24 * 60 },
+];
+
+// Used when no policy matches at all, e.g. a category added on the server before the policies were updated
+const FALLBACK_SLA_POLICY: SlaPolicy = { category: '*', priority: '*', firstResponseMinutes: 4 * 60, resolutionMinutes: 24 * 60 };
+
+// A running timer is "at risk" once less than this share of its window is left
+const AT_RISK_FRACTION = 0.25;
+
+class SlaService {
+  // Exact category + priority beats category-only, which beats priority-only. A category rule never
+  // loosens a priority target: for urgent payment tickets the stricter of the two windows applies.
+  policyFor(ticket: Pick<SlaTicket, 'category' | 'priority'>, policies: SlaPolicy[]): SlaPolicy {
+    const exact = policies.find(policy => policy.category === ticket.category && policy.priority === ticket.priority);
+    if (exact) return exact;
+    const byCategory = policies.find(policy => policy.category === ticket.category && policy.priority === '*');
+    const byPriority = policies.find(policy => policy.category === '*' && policy.priority === ticket.priority);
+    if (byCategory && byPriority) {
+      return {
+        ...byCategory,
+        firstResponseMinutes: Math.min(byCategory.firstResponseMinutes, byPriority.firstResponseMinutes),
+        resolutionMinutes: Math.min(byCategory.resolutionMinutes, byPriority.resolutionMinutes),
+      };
+    }
+    return byCategory || byPriority || policies.find(policy => policy.category === '*' && policy.priority === '*') || FALLBACK_SLA_POLICY;
+  }
+
+  evaluate(ticket: SlaTicket, policies: SlaPolicy[], now: number = Date.now()): SlaEvaluation {
+    const policy = this.policyFor(ticket, policies);
+    const createdAt = Date.parse(ticket.createdAt);
+    // Without server timestamps, moving a ticket on from "open" counts as a timely response and the
+    // last update stands in for the resolution time
+    const respondedAt = ticket.firstResponseAt ? Date.parse(ticket.firstResponseAt) : ticket.status !== 'open' ? createdAt : null;
+    const isClosed = ticket.status === 'resolved' || ticket.status === 'closed';
+    const resolvedAt = ticket.resolution?.resolvedAt ? Date.parse(ticket.resolution.resolvedAt) : isClosed ? Date.parse(ticket.updatedAt || ticket.createdAt) : null;
+
+    const firstResponse = this.timer(createdAt, policy.firstResponseMinutes, respondedAt, now);
+    const resolution = this.timer(createdAt, policy.resolutionMinutes, resolvedAt, now);
+
+    const running = (['firstResponse', 'resolution'] as const)
+      .map(timer => ({ timer, ...(timer === 'firstResponse' ? firstResponse : resolution) }))
+      .filter(entry => entry.state === 'on_track' || entry.state === 'at_risk' || entry.state === 'breached')
+      .sort((a, b) => a.remainingMs - b.remainingMs);
+    const worst = running[0] ? { timer: running[0].timer, state: running[0].state, remainingMs: running[0].remainingMs } : null;
+
+    return { policy, firstResponse, resolution, worst };
+  }
+
+  isBreached(evaluation: SlaEvaluation): boolean {
+    return evaluation.firstResponse.state === 'breached' || evaluation.resolution.state === 'breached';
+  }
+
+  // "2h 05m", "12m", "-35m" for overdue
+  formatRemaining(remainingMs: number): string {
+    const sign = remainingMs < 0 ? '-' : '';
+    const totalMinutes = Math.floor(Math.abs(remainingMs) / 60000);
+    const days = Math.floor(totalMinutes / (24 * 60));
+    const hours = Math.floor((totalMinutes % (24 * 60)) / 60);
+    const minutes = totalMinutes % 60;
+    if (days > 0) return `${sign}${days}d ${hours}h`;
+    if (hours > 0) return `${sign}${hours}h ${String(minutes).padStart(2, '0')}m`;
+    if (totalMinutes > 0) return `${sign}${minutes}m`;
+    return `${sign}${Math.floor(Math.abs(remainingMs) / 1000)}s`;
+  }
+
+  private timer(startedAt: number, windowMinutes: number, completedAt: number | null, now: number): SlaTimer {
+    const windowMs = windowMinutes * 60000;
+    const dueAt = startedAt + windowMs;
+    if (completedAt !== null) return { dueAt, remainingMs: dueAt - completedAt, state: completedAt <= dueAt ? 'met' : 'missed' };
+    const remainingMs = dueAt - now;
+    const state: SlaState = remainingMs < 0 ? 'breached' : remainingMs < windowMs * AT_RISK_FRACTION ? 'at_risk' : 'on_track';
+    return { dueAt, remainingMs, state };
+  }
+}
+
+// Export singleton instance
+export const slaService = new SlaService();
+export default slaService;
+export { DEFAULT_SLA_POLICIES };
+
+// Export types for use in components
+export type {
+  SlaPolicy,
+  SlaTicket,
+  SlaState,
+  SlaTimer,
+  SlaEvaluation,
+};
@@ -0,0 +1,117 @@
+// /app/services/supportRequestService.ts
+// The passenger's side of their tickets and chats: status wording, the visible conversation and the reopen window
+import type { ChatStatus, Ticket, TicketStatus, TicketTimelineEntry } from '@/app/domain';
+
+type ConversationAuthor = 'passenger' | 'agent' | 'system';
+
+interface ConversationEntry {
+  id: string;
+  author: ConversationAuthor;
+  name: string;
+  text: string;
+  timestamp: string;
+  attachments: string[];
+}
+
+interface StatusDisplay {
+  label: string;
+  color: string;
+}
+
+// Worded for passengers rather than agents
+const TICKET_STATUS_DISPLAY: Record<TicketStatus, StatusDisplay> = {
+  open: { label: 'Received', color: '#3b82f6' },
+  in_progress: { label: 'Being worked on', color: '#f59e0b' },
+  pending_customer: { label: 'Waiting for your reply', color: '#8b5cf6' },
+  resolved: { label: 'Resolved', color: '#10b981' },
+  closed: { label: 'Closed', color: '#6b7280' },
+};
+
+const CHAT_STATUS_DISPLAY: Record<ChatStatus, StatusDisplay> = {
+  waiting: { label: 'Waiting for an agent', color: '#f59e0b' },
+  active: { label: 'In progress', color: '#10b981' },
+  transferred: { label: 'Transferred', color: '#3b82f6' },
+  ended: { label: 'Ended', color: '#6b7280' },
+};
+
+// A resolved ticket can be reopened for a week; after that, or once closed, it takes a new request
+const REOPEN_WINDOW_MS = 7 * 24 * 60 * 60000;
+const REPLYABLE_STATUSES: TicketStatus[] = ['open', 'in_progress', 'pending_customer'];
+const REPLY_MAX_LENGTH = 5000;
+
+const stringList = (value: unknown): string[] => Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+class SupportRequestService {
+  // The ticket's description followed by every timeline entry the passenger is allowed to see.
+  // Agents' internal notes are flagged `metadata.internal`; the server leaves them out too.
+  conversation(ticket: Ticket): ConversationEntry[] {
+    const opening: ConversationEntry = {
+      id: `${ticket._id}-description`,
+      author: 'passenger',
+      name: ticket.customerInfo.name,
+      text: ticket.description,
+      timestamp: ticket.createdAt,
+      attachments: [],
+    };
+    const entries = ticket.timeline
+      .filter(entry => entry.metadata?.internal !== true && entry.action !== 'created')
+      .map((entry): ConversationEntry => ({
+        id: entry._id,
+        author: this.authorOf(entry),
+        name: entry.performedBy.name,
+        text: entry.description,
+        timestamp: entry.timestamp,
+        attachments: stringList(entry.metadata?.attachments),
+      }));
+    return [opening, ...entries].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  }
+
+  canReply(ticket: Ticket): boolean {
+    return REPLYABLE_STATUSES.includes(ticket.status) && !ticket.mergedInto;
+  }
+
+  // When the reopen window for a resolved ticket ends, or null when it cannot be reopened at all
+  reopenDeadline(ticket: Ticket): Date | null {
+    if (ticket.status !== 'resolved' || ticket.mergedInto) return null;
+    const resolvedAt = new Date(ticket.resolution?.resolvedAt || ticket.updatedAt).getTime();
+    return new Date(resolvedAt + REOPEN_WINDOW_MS);
+  }
+
+  canReopen(ticket: Ticket, now = Date.now()): boolean {
+    const deadline = this.reopenDeadline(ticket);
+    return deadline !== null && now < deadline.getTime();
+  }
+
+  // Tickets waiting on the passenger first, then the rest by latest activity
+  sortTickets(tickets: Ticket[]): Ticket[] {
+    return [...tickets].sort((a, b) =>
+      Number(b.status === 'pending_customer') - Number(a.status === 'pending_customer') ||
+      new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+    );
+  }
+
+  // Returns what is wrong with a reply, or null when it can be sent
+  validateReply(message: string, attachmentCount: number): string | null {
+    if (!message.trim() && attachmentCount === 0) return 'Write a message or attach a file';
+    if (message.length > REPLY_MAX_LENGTH) return `Please keep your reply under ${REPLY_MAX_LENGTH} characters`;
+    return null;
+  }
+
+  private authorOf(entry: TicketTimelineEntry): ConversationAuthor {
+    if (entry.performedBy.role === 'customer') return 'passenger';
+    if (entry.performedBy.role === 'system') return 'system';
+    return 'agent';
+  }
+}
+
+// Export singleton instance
+export const supportRequestService = new SupportRequestService();
+export default supportRequestService;
+export { TICKET_STATUS_DISPLAY, CHAT_STATUS_DISPLAY, REPLY_MAX_LENGTH };
+
+// Export types for use in components
+export type {
+  ConversationAuthor,
+  ConversationEntry,
+  StatusDisplay,
+};
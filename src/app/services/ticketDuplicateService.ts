@@ -0,0 +1,166 @@
+// /app/services/ticketDuplicateService.ts
+// Finds tickets that are about the same incident, and prepares merges and splits of them
+import type { Ticket, TicketMerge, TicketSplit, TicketTimelineEntry } from '@/app/domain';
+
+type DuplicateReason = 'booking' | 'trip' | 'route' | 'subject';
+
+interface DuplicateCluster {
+  // Stable across refreshes while the earliest ticket stays in the cluster
+  key: string;
+  tickets: Ticket[];
+  reasons: DuplicateReason[];
+}
+
+interface MergePreview {
+  tags: string[];
+  // Every customer who will be told their ticket was merged, the parent's included
+  customers: Array<{ name: string; email: string; ticketId: string }>;
+  timeline: Array<TicketTimelineEntry & { sourceTicketId: string }>;
+}
+
+type SplitPart = TicketSplit['children'][number];
+
+const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  booking: 'Same booking',
+  trip: 'Same trip',
+  route: 'Same route, similar subject',
+  subject: 'Similar subject',
+};
+
+// Subjects this alike are treated as the same complaint on their own
+const SUBJECT_MATCH_THRESHOLD = 0.6;
+// On the same route a looser match is enough: "bus broke down" and "stuck near Kadawatha, bus not moving"
+const ROUTE_SUBJECT_THRESHOLD = 0.2;
+// Tickets further apart than these are separate incidents even when they look alike
+const ROUTE_WINDOW_MS = 6 * 60 * 60000;
+const SUBJECT_WINDOW_MS = 24 * 60 * 60000;
+
+const STOP_WORDS = new Set(['the', 'and', 'for', 'with', 'not', 'was', 'has', 'have', 'this', 'that', 'from', 'about', 'my', 'our', 'you', 'your', 'please', 'help', 'issue', 'problem', 'ticket']);
+
+const tokenize = (text: string): Set<string> => new Set(
+  text.toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+    // Crude stemming so "delayed" and "delay" match
+    .map(word => word.replace(/(ing|ed|es|s)$/, ''))
+);
+
+class TicketDuplicateService {
+  // Jaccard similarity of the subjects' significant words, from 0 (nothing shared) to 1
+  subjectSimilarity(a: string, b: string): number {
+    const left = tokenize(a);
+    const right = tokenize(b);
+    if (!left.size || !right.size) return 0;
+    const shared = Array.from(left).filter(word => right.has(word)).length;
+    return shared / (left.size + right.size - shared);
+  }
+
+  // Why two tickets look like the same incident, strongest reason first, or null if they don't
+  matchReason(a: Ticket, b: Ticket): DuplicateReason | null {
+    const bookingA = a.relatedBooking;
+    const bookingB = b.relatedBooking;
+    if (bookingA && bookingB && bookingA.bookingId === bookingB.bookingId) return 'booking';
+    if (bookingA?.tripId && bookingA.tripId === bookingB?.tripId) return 'trip';
+
+    const apart = Math.abs(new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+    const similarity = this.subjectSimilarity(a.subject, b.subject);
+    const routeA = bookingA?.routeId || bookingA?.routeName?.toLowerCase();
+    const routeB = bookingB?.routeId || bookingB?.routeName?.toLowerCase();
+    if (routeA && routeA === routeB && apart <= ROUTE_WINDOW_MS && similarity >= ROUTE_SUBJECT_THRESHOLD) return 'route';
+    if (apart <= SUBJECT_WINDOW_MS && similarity >= SUBJECT_MATCH_THRESHOLD) return 'subject';
+    return null;
+  }
+
+  // Groups open tickets that match each other directly or through a chain of matches. Closed, resolved
+  // and already-merged tickets are left out. Largest clusters first.
+  findClusters(tickets: Ticket[]): DuplicateCluster[] {
+    const candidates = tickets
+      .filter(ticket => !ticket.mergedInto && ticket.status !== 'resolved' && ticket.status !== 'closed')
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+    const parent = candidates.map((_, index) => index);
+    const root = (index: number): number => parent[index] === index ? index : (parent[index] = root(parent[index]));
+    const reasons = new Map<string, DuplicateReason>();
+
+    candidates.forEach((a, i) => {
+      for (let j = i + 1; j < candidates.length; j++) {
+        const reason = this.matchReason(a, candidates[j]);
+        if (!reason) continue;
+        parent[root(j)] = root(i);
+        reasons.set(`${i}:${j}`, reason);
+      }
+    });
+
+    const groups = new Map<number, number[]>();
+    candidates.forEach((_, index) => groups.set(root(index), [...(groups.get(root(index)) || []), index]));
+
+    return Array.from(groups.values())
+      .filter(members => members.length > 1)
+      .map(members => {
+        const memberSet = new Set(members);
+        const found = new Set<DuplicateReason>();
+        reasons.forEach((reason, pair) => {
+          const [i] = pair.split(':').map(Number);
+          if (memberSet.has(i)) found.add(reason);
+        });
+        const clusterTickets = members.map(index => candidates[index]);
+        return {
+          key: clusterTickets[0]._id,
+          tickets: clusterTickets,
+          reasons: (Object.keys(DUPLICATE_REASON_LABELS) as DuplicateReason[]).filter(reason => found.has(reason)),
+        };
+      })
+      .sort((a, b) => b.tickets.length - a.tickets.length);
+  }
+
+  // The first report usually has the most context, so it becomes the parent
+  suggestParent(cluster: DuplicateCluster): Ticket {
+    return cluster.tickets[0];
+  }
+
+  // What the parent will look like after the merge, for the agent to check before confirming
+  previewMerge(parent: Ticket, duplicates: Ticket[]): MergePreview {
+    const all = [parent, ...duplicates];
+    const customers = new Map<string, MergePreview['customers'][number]>();
+    all.forEach(ticket => {
+      const email = ticket.customerInfo.email.toLowerCase();
+      if (!customers.has(email)) customers.set(email, { name: ticket.customerInfo.name, email: ticket.customerInfo.email, ticketId: ticket.ticketId });
+    });
+    return {
+      tags: Array.from(new Set(all.flatMap(ticket => ticket.tags))).sort(),
+      customers: Array.from(customers.values()),
+      timeline: all
+        .flatMap(ticket => ticket.timeline.map(entry => ({ ...entry, sourceTicketId: ticket.ticketId })))
+        .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()),
+    };
+  }
+
+  buildMerge(parent: Ticket, duplicates: Ticket[], notifyCustomers: boolean): TicketMerge {
+    return {
+      ticketIds: duplicates.map(ticket => ticket._id),
+      tags: this.previewMerge(parent, duplicates).tags,
+      notifyCustomers,
+      note: `Merged ${duplicates.map(ticket => `#${ticket.ticketId}`).join(', ')} into this ticket`,
+    };
+  }
+
+  // A split needs at least two parts, each with a subject and description; returns what is missing
+  validateSplit(parts: SplitPart[]): string | null {
+    if (parts.length < 2) return 'Split into at least two tickets';
+    const incomplete = parts.findIndex(part => !part.subject.trim() || !part.description.trim());
+    return incomplete === -1 ? null : `Part ${incomplete + 1} needs a subject and description`;
+  }
+}
+
+// Export singleton instance
+export const ticketDuplicateService = new TicketDuplicateService();
+export default ticketDuplicateService;
+export { DUPLICATE_REASON_LABELS };
+
+// Export types for use in components
+export type {
+  DuplicateReason,
+  DuplicateCluster,
+  MergePreview,
+  SplitPart,
+};
@@ -0,0 +1,129 @@
+// /app/services/ticketViewService.ts
+// Ticket list filters: turning them into API queries and shareable links, saved views, and CSV export
+import { TICKET_CATEGORY_LABELS, type Ticket } from '@/app/domain';
+
+type AssigneeFilter = '' | 'me' | 'unassigned';
+
+interface TicketViewFilters {
+  status: string;
+  priority: string;
+  category: string;
+  assignee: AssigneeFilter;
+  search: string;
+  // Only tickets at least this old. Kept relative so a saved view means the same thing tomorrow.
+  olderThanHours: number | null;
+}
+
+interface SavedTicketView {
+  id: string;
+  name: string;
+  filters: TicketViewFilters;
+  // Shared views show up for every agent; the rest only for whoever saved them
+  shared: boolean;
+  ownerName?: string;
+  // Views that ship with the app and cannot be deleted
+  builtIn?: boolean;
+}
+
+const EMPTY_TICKET_FILTERS: TicketViewFilters = { status: '', priority: '', category: '', assignee: '', search: '', olderThanHours: null };
+
+const BUILT_IN_VIEWS: SavedTicketView[] = [
+  { id: 'builtin-my-urgent-payments', name: 'My urgent payment tickets', filters: { ...EMPTY_TICKET_FILTERS, assignee: 'me', priority: 'urgent', category: 'payment_problem' }, shared: true, builtIn: true },
+  { id: 'builtin-unassigned-4h', name: 'Unassigned > 4h', filters: { ...EMPTY_TICKET_FILTERS, assignee: 'unassigned', olderThanHours: 4 }, shared: true, builtIn: true },
+];
+
+const FILTER_KEYS = Object.keys(EMPTY_TICKET_FILTERS) as Array<keyof TicketViewFilters>;
+
+const CSV_COLUMNS: Array<[string, (ticket: Ticket) => string | number | undefined]> = [
+  ['Ticket ID', ticket => ticket.ticketId],
+  ['Subject', ticket => ticket.subject],
+  ['Status', ticket => ticket.status],
+  ['Priority', ticket => ticket.priority],
+  ['Category', ticket => TICKET_CATEGORY_LABELS[ticket.category] || ticket.category],
+  ['Customer', ticket => ticket.customerInfo.name],
+  ['Customer Email', ticket => ticket.customerInfo.email],
+  ['Assigned To', ticket => ticket.assignedAgent?.name],
+  ['Tags', ticket => ticket.tags.join('; ')],
+  ['Booking', ticket => ticket.relatedBooking?.bookingId],
+  ['Created', ticket => ticket.createdAt],
+  ['Last Updated', ticket => ticket.updatedAt],
+];
+
+// Subjects and names come from customers; a cell starting like a formula would run when the export is
+// opened in a spreadsheet, so it is prefixed with ' to be read as text
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+// Quotes a value when it holds a comma, quote or line break, doubling any quotes inside
+const csvCell = (value: string | number | undefined): string => {
+  const raw = value === undefined ? '' : String(value);
+  const text = typeof value === 'string' && FORMULA_START.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+class TicketViewService {
+  // Query for GET /cs/tickets. "me" needs the signed-in agent's ID, and the age cut-off is taken from `now`.
+  toQuery(filters: TicketViewFilters, agentId: string | null, now: number = Date.now()): Record<string, string | undefined> {
+    return {
+      status: filters.status || undefined,
+      priority: filters.priority || undefined,
+      category: filters.category || undefined,
+      search: filters.search || undefined,
+      assignedTo: filters.assignee === 'me' ? agentId || undefined : filters.assignee || undefined,
+      createdBefore: filters.olderThanHours ? new Date(now - filters.olderThanHours * 60 * 60000).toISOString() : undefined,
+    };
+  }
+
+  // Query string for a link that opens the ticket list with these filters
+  toSearchParams(filters: TicketViewFilters): string {
+    const params = new URLSearchParams();
+    FILTER_KEYS.forEach(key => {
+      const value = filters[key];
+      if (value !== '' && value !== null) params.set(key, String(value));
+    });
+    return params.toString();
+  }
+
+  fromSearchParams(params: URLSearchParams): TicketViewFilters {
+    const assignee = params.get('assignee');
+    const olderThanHours = Number(params.get('olderThanHours'));
+    return {
+      status: params.get('status') || '',
+      priority: params.get('priority') || '',
+      category: params.get('category') || '',
+      assignee: assignee === 'me' || assignee === 'unassigned' ? assignee : '',
+      search: params.get('search') || '',
+      olderThanHours: olderThanHours > 0 ? olderThanHours : null,
+    };
+  }
+
+  hasFilters(params: URLSearchParams): boolean {
+    return FILTER_KEYS.some(key => params.has(key));
+  }
+
+  isSameFilters(a: TicketViewFilters, b: TicketViewFilters): boolean {
+    return FILTER_KEYS.every(key => a[key] === b[key]);
+  }
+
+  toCsv(tickets: Ticket[]): string {
+    const header = CSV_COLUMNS.map(([label]) => csvCell(label)).join(',');
+    const rows = tickets.map(ticket => CSV_COLUMNS.map(([, value]) => csvCell(value(ticket))).join(','));
+    return [header, ...rows].join('\r\n');
+  }
+
+  csvFileName(viewName: string, now: number = Date.now()): string {
+    const slug = viewName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'tickets';
+    return `${slug}-${new Date(now).toISOString().slice(0, 10)}.csv`;
+  }
+}
+
+// Export singleton instance
+export const ticketViewService = new TicketViewService();
+export default ticketViewService;
+export { EMPTY_TICKET_FILTERS, BUILT_IN_VIEWS };
+
+// Export types for use in components
+export type {
+  AssigneeFilter,
+  TicketViewFilters,
+  SavedTicketView,
+};
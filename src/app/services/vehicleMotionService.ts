@@ -0,0 +1,115 @@
+// /app/services/vehicleMotionService.ts
+// Where to draw a vehicle between GPS fixes: a short glide to each new fix, then dead-reckoning along its route until the next one
+import routeGeometryService, { type LatLng, type RouteGeometry, type TravelDirection } from '@/app/services/routeGeometryService';
+
+// The latest fix for one vehicle, as the map wants to show it
+interface MotionTarget {
+  vehicleId: string;
+  position: LatLng;
+  // Epoch ms of the fix; a new value starts a new glide
+  fixAt: number;
+  // km/h and degrees clockwise from north, as the device reported them
+  speed?: number;
+  heading?: number;
+  // Set when the fix was snapped to a route, so movement follows the line instead of cutting corners
+  geometry?: RouteGeometry;
+  distanceAlong?: number;
+  // Which way along the route it is going; the return trip moves back towards the start
+  direction?: TravelDirection;
+  // Stale or lost fixes stay where they are; guessing further would only add error
+  canDeadReckon: boolean;
+}
+
+interface MotionState {
+  target: MotionTarget;
+  // Where the marker was drawn when the fix arrived
+  from: LatLng;
+  fromAlong?: number;
+  startedAt: number;
+}
+
+interface MotionFrame {
+  position: LatLng;
+  // Metres along the route, when the vehicle is on one
+  distanceAlong?: number;
+  // Nothing further will change until the next fix
+  settled: boolean;
+}
+
+// How long the glide to a new fix takes
+const GLIDE_MS = 1000;
+// Dead-reckoning stops this long after a fix; by then the next fix is overdue and the guess is too loose
+const DEAD_RECKON_LIMIT_MS = 20000;
+const STATIONARY_KMH = 3;
+// A jump longer than this is a new trip or a bad fix, not movement; the marker moves straight there
+const MAX_GLIDE_METRES = 2000;
+
+const lerp = (a: LatLng, b: LatLng, t: number): LatLng => [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t];
+// Eases out so the marker decelerates into the fix instead of stopping dead
+const easeOut = (t: number) => 1 - (1 - t) * (1 - t);
+
+class VehicleMotionService {
+  // A new fix for a vehicle already on the map glides from wherever the marker is now
+  start(target: MotionTarget, previous: MotionState | undefined, now: number): MotionState {
+    if (!previous) return { target, from: target.position, fromAlong: target.distanceAlong, startedAt: now - GLIDE_MS };
+    const current = this.frame(previous, now);
+    const jump = routeGeometryService.distance(current.position, target.position);
+    if (jump > MAX_GLIDE_METRES) return { target, from: target.position, fromAlong: target.distanceAlong, startedAt: now - GLIDE_MS };
+    const sameRoute = previous.target.geometry && previous.target.geometry === target.geometry;
+    return { target, from: current.position, fromAlong: sameRoute ? current.distanceAlong : undefined, startedAt: now };
+  }
+
+  // Same fix, newer flags (e.g. it has just gone stale): keep the motion, change what it may do next
+  update(state: MotionState, target: MotionTarget): MotionState {
+    return { ...state, target };
+  }
+
+  isNewFix(state: MotionState, target: MotionTarget): boolean {
+    return state.target.fixAt !== target.fixAt || state.target.position[0] !== target.position[0] || state.target.position[1] !== target.position[1];
+  }
+
+  frame(state: MotionState, now: number): MotionFrame {
+    const { target } = state;
+    const elapsed = now - state.startedAt;
+
+    if (elapsed < GLIDE_MS) {
+      const t = easeOut(Math.max(0, elapsed / GLIDE_MS));
+      // Onward along the same route the glide follows the line; anything else is a straight slide
+      const direction = target.direction ?? 1;
+      if (target.geometry && state.fromAlong !== undefined && target.distanceAlong !== undefined && (target.distanceAlong - state.fromAlong) * direction >= 0) {
+        const along = state.fromAlong + (target.distanceAlong - state.fromAlong) * t;
+        const point = routeGeometryService.pointAt(target.geometry, along);
+        if (point) return { position: point.position, distanceAlong: along, settled: false };
+      }
+      return { position: lerp(state.from, target.position, t), distanceAlong: target.distanceAlong, settled: false };
+    }
+
+    const speed = target.speed ?? 0;
+    if (!target.canDeadReckon || speed < STATIONARY_KMH) return { position: target.position, distanceAlong: target.distanceAlong, settled: true };
+
+    const reckoned = Math.min(elapsed - GLIDE_MS, DEAD_RECKON_LIMIT_MS);
+    const metres = speed / 3.6 * reckoned / 1000;
+    const settled = elapsed - GLIDE_MS >= DEAD_RECKON_LIMIT_MS;
+    if (target.geometry && target.distanceAlong !== undefined) {
+      const direction = target.direction ?? 1;
+      const along = Math.max(0, Math.min(target.geometry.length, target.distanceAlong + direction * metres));
+      const atEnd = direction === 1 ? along >= target.geometry.length : along <= 0;
+      const point = routeGeometryService.pointAt(target.geometry, along);
+      if (point) return { position: point.position, distanceAlong: along, settled: settled || atEnd };
+    }
+    if (target.heading === undefined) return { position: target.position, settled: true };
+    return { position: routeGeometryService.destination(target.position, target.heading, metres), settled };
+  }
+}
+
+// Export singleton instance
+export const vehicleMotionService = new VehicleMotionService();
+export default vehicleMotionService;
+export { GLIDE_MS, DEAD_RECKON_LIMIT_MS };
+
+// Export types for use in components
+export type {
+  MotionTarget,
+  MotionState,
+  MotionFrame,
+};
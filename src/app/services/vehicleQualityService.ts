@@ -0,0 +1,165 @@
+// /app/services/vehicleQualityService.ts
+// How much of a vehicle's tracking data can be trusted: how old its fix is and which figures were reported, worked out or are unknown
+import type { VehicleLocation } from '@/app/domain';
+import type { PathProjection } from '@/app/services/routeGeometryService';
+import type { VehiclePrediction } from '@/app/services/etaService';
+
+// live: fix within the stale threshold; stale: older, fading on the map; lost: no fix for long enough
+// that the vehicle is no longer drawn; unknown: the fix carries no timestamp
+type Freshness = 'live' | 'stale' | 'lost' | 'unknown';
+
+// reported: sent by the device or backend; derived: worked out here from other reported values
+type FieldSource = 'reported' | 'derived' | 'unknown';
+
+type Confidence = 'high' | 'medium' | 'low';
+
+interface VehicleDataQuality {
+  freshness: Freshness;
+  // Seconds since the fix, when it is timestamped
+  ageSeconds: number | null;
+  hasPosition: boolean;
+  // The drawn position was moved onto the route line
+  snapped: boolean;
+  load: FieldSource;
+  progress: FieldSource;
+  eta: FieldSource;
+  confidence: Confidence;
+  // 1 for a live fix, fading towards MIN_OPACITY as it goes stale
+  opacity: number;
+}
+
+interface QualityThresholds {
+  staleAfterSeconds: number;
+  lostAfterSeconds: number;
+}
+
+// A vehicle as the map draws it: only the figures that are known, and how far to trust them
+interface AssessedVehicle {
+  vehicle: VehicleLocation;
+  position: [number, number] | null;
+  // Degrees clockwise from north: the device's, else the direction of the route line it was snapped to
+  heading?: number;
+  loadPercentage?: number;
+  progressPercentage?: number;
+  nextStop?: string;
+  nextStopETA?: string;
+  quality: VehicleDataQuality;
+}
+
+const DEFAULT_THRESHOLDS: QualityThresholds = { staleAfterSeconds: 60, lostAfterSeconds: 300 };
+const MIN_OPACITY = 0.3;
+
+const isCoordinate = (value: unknown, limit: number): value is number => typeof value === 'number' && Number.isFinite(value) && Math.abs(value) <= limit;
+
+class VehicleQualityService {
+  // A position counts only with both coordinates in range; [0, 0] is what devices send before their first fix
+  hasPosition(vehicle: VehicleLocation): boolean {
+    const { latitude, longitude } = vehicle.location || {};
+    return isCoordinate(latitude, 90) && isCoordinate(longitude, 180) && !(latitude === 0 && longitude === 0);
+  }
+
+  freshness(vehicle: VehicleLocation, now: number, thresholds: QualityThresholds = DEFAULT_THRESHOLDS): { freshness: Freshness; ageSeconds: number | null } {
+    const fixedAt = vehicle.timestamp ? new Date(vehicle.timestamp).getTime() : NaN;
+    if (Number.isNaN(fixedAt)) return { freshness: 'unknown', ageSeconds: null };
+    // Devices stamping fixes a little ahead of the browser's clock count as just now
+    const ageSeconds = Math.max(0, Math.round((now - fixedAt) / 1000));
+    if (ageSeconds <= thresholds.staleAfterSeconds) return { freshness: 'live', ageSeconds };
+    return { freshness: ageSeconds <= thresholds.lostAfterSeconds ? 'stale' : 'lost', ageSeconds };
+  }
+
+  opacity(freshness: Freshness, ageSeconds: number | null, thresholds: QualityThresholds = DEFAULT_THRESHOLDS): number {
+    if (freshness === 'live') return 1;
+    if (freshness === 'unknown' || ageSeconds === null) return MIN_OPACITY + (1 - MIN_OPACITY) / 2;
+    const span = thresholds.lostAfterSeconds - thresholds.staleAfterSeconds;
+    const faded = span > 0 ? (ageSeconds - thresholds.staleAfterSeconds) / span : 1;
+    return Math.max(MIN_OPACITY, 1 - faded * (1 - MIN_OPACITY));
+  }
+
+  // Load as a percentage: reported, else worked out from the passenger counts
+  load(vehicle: VehicleLocation): { value?: number; source: FieldSource } {
+    const load = vehicle.passengerLoad;
+    if (typeof load?.loadPercentage === 'number') return { value: load.loadPercentage, source: 'reported' };
+    if (typeof load?.currentCapacity === 'number' && load.maxCapacity) return { value: Math.round(load.currentCapacity / load.maxCapacity * 100), source: 'derived' };
+    return { source: 'unknown' };
+  }
+
+  // Progress: reported, else from where the vehicle sits on its route line
+  progress(vehicle: VehicleLocation, prediction?: VehiclePrediction, routeLength?: number): { value?: number; source: FieldSource } {
+    if (typeof vehicle.routeProgress?.progressPercentage === 'number') return { value: vehicle.routeProgress.progressPercentage, source: 'reported' };
+    if (prediction && routeLength) {
+      // On the return trip the vehicle has covered the line from the route's end
+      const covered = prediction.direction === 1 ? prediction.distanceAlong : routeLength - prediction.distanceAlong;
+      return { value: Math.min(100, Math.max(0, covered / routeLength * 100)), source: 'derived' };
+    }
+    return { source: 'unknown' };
+  }
+
+  // Next stop and ETA: our own prediction, else what the backend sent
+  eta(vehicle: VehicleLocation, prediction?: VehiclePrediction): { nextStop?: string; nextStopETA?: string; source: FieldSource } {
+    const next = prediction?.stops[0];
+    if (next) return { nextStop: next.stop.name, nextStopETA: next.arrivesAt, source: 'derived' };
+    if (vehicle.routeProgress?.nextStopETA) return { nextStop: vehicle.routeProgress.nextStop, nextStopETA: vehicle.routeProgress.nextStopETA, source: 'reported' };
+    return { nextStop: vehicle.routeProgress?.nextStop, source: 'unknown' };
+  }
+
+  assess(
+    vehicle: VehicleLocation,
+    now: number,
+    options: { snapped?: PathProjection | null; prediction?: VehiclePrediction; routeLength?: number; thresholds?: QualityThresholds } = {}
+  ): AssessedVehicle {
+    const thresholds = options.thresholds || DEFAULT_THRESHOLDS;
+    const hasPosition = this.hasPosition(vehicle);
+    const { freshness, ageSeconds } = this.freshness(vehicle, now, thresholds);
+    const load = this.load(vehicle);
+    const progress = this.progress(vehicle, options.prediction, options.routeLength);
+    const eta = this.eta(vehicle, options.prediction);
+    const snapped = hasPosition && !!options.snapped;
+
+    // Only a live fix is trusted; beyond that it depends on whether we know when the vehicle arrives next
+    const confidence: Confidence = !hasPosition || freshness !== 'live' ? 'low' : eta.source === 'unknown' ? 'medium' : 'high';
+
+    return {
+      vehicle,
+      position: !hasPosition ? null : snapped ? options.snapped!.position : [vehicle.location.latitude, vehicle.location.longitude],
+      // The line's bearing points towards the route's end, so a vehicle on the return trip faces the other way
+      heading: vehicle.location?.heading ?? (snapped ? (options.snapped!.heading + (options.prediction?.direction === -1 ? 180 : 0)) % 360 : undefined),
+      loadPercentage: load.value,
+      progressPercentage: progress.value,
+      nextStop: eta.nextStop,
+      nextStopETA: eta.nextStopETA,
+      quality: {
+        freshness,
+        ageSeconds,
+        hasPosition,
+        snapped,
+        load: load.source,
+        progress: progress.source,
+        eta: eta.source,
+        confidence,
+        opacity: this.opacity(freshness, ageSeconds, thresholds),
+      },
+    };
+  }
+
+  formatAge(ageSeconds: number | null): string {
+    if (ageSeconds === null) return 'time unknown';
+    if (ageSeconds < 60) return `${ageSeconds}s ago`;
+    if (ageSeconds < 3600) return `${Math.floor(ageSeconds / 60)} min ago`;
+    return `${Math.floor(ageSeconds / 3600)}h ago`;
+  }
+}
+
+// Export singleton instance
+export const vehicleQualityService = new VehicleQualityService();
+export default vehicleQualityService;
+export { DEFAULT_THRESHOLDS };
+
+// Export types for use in components
+export type {
+  Freshness,
+  FieldSource,
+  Confidence,
+  VehicleDataQuality,
+  QualityThresholds,
+  AssessedVehicle,
+};
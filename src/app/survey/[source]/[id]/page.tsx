@@ -0,0 +1,106 @@
+// src/app/survey/[source]/[id]/page.tsx
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { ArrowLeftIcon, ChatBubbleLeftRightIcon, CheckCircleIcon } from '@heroicons/react/24/outline';
+import { useTheme } from '@/app/context/ThemeContext';
+import ThemeSwitcher from '@/app/components/ThemeSwitcher';
+import AnimatedBackground from '@/app/components/AnimatedBackground';
+import SatisfactionSurvey from '@/app/components/SatisfactionSurvey';
+import apiClient from '@/app/services/apiClient';
+import { CSAT_LABELS } from '@/app/services/satisfactionService';
+import { SURVEY_SOURCES, type Survey } from '@/app/domain';
+
+export default function SurveyPage() {
+  const params = useParams();
+  const { theme } = useTheme();
+  const source = params.source as string;
+  const sourceId = params.id as string;
+
+  const [survey, setSurvey] = useState<Survey | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  // --- Theme and Style Definitions ---
+  const lightTheme = { mainBg: '#fffbeb', bgGradient: 'linear-gradient(to bottom right, #fffbeb, #fef3c7, #fde68a)', glassPanelBg: 'rgba(255, 255, 255, 0.92)', glassPanelBorder: '1px solid rgba(251, 191, 36, 0.3)', glassPanelShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.25), 0 10px 20px -5px rgba(0, 0, 0, 0.1)', textPrimary: '#1f2937', textSecondary: '#4B5563', textMuted: '#6B7280', inputBg: 'rgba(249, 250, 251, 0.8)', inputBorder: '1px solid rgba(209, 213, 219, 0.5)' };
+  const darkTheme = { mainBg: '#0f172a', bgGradient: 'linear-gradient(to bottom right, #0f172a, #1e293b, #334155)', glassPanelBg: 'rgba(30, 41, 59, 0.8)', glassPanelBorder: '1px solid rgba(251, 191, 36, 0.3)', glassPanelShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.35), 0 10px 20px -5px rgba(0, 0, 0, 0.2)', textPrimary: '#f9fafb', textSecondary: '#9ca3af', textMuted: '#9ca3af', inputBg: 'rgba(51, 65, 85, 0.8)', inputBorder: '1px solid rgba(75, 85, 99, 0.5)' };
+  const currentThemeStyles = theme === 'dark' ? darkTheme : lightTheme;
+
+  const isKnownSource = (SURVEY_SOURCES as readonly string[]).includes(source);
+
+  const loadSurvey = useCallback(async () => {
+    if (!isKnownSource) {
+      setError('This survey link is not valid.');
+      setLoading(false);
+      return;
+    }
+    setLoading(true); setError('');
+    try {
+      const response = await apiClient.support.surveys.get(source, sourceId);
+      setSurvey(response.data.survey);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not load this survey');
+    } finally {
+      setLoading(false);
+    }
+  }, [isKnownSource, source, sourceId]);
+
+  useEffect(() => {
+    loadSurvey();
+  }, [loadSurvey]);
+
+  const panelStyle: React.CSSProperties = { backgroundColor: currentThemeStyles.glassPanelBg, padding: '2rem', borderRadius: '1rem', boxShadow: currentThemeStyles.glassPanelShadow, backdropFilter: 'blur(12px)', border: currentThemeStyles.glassPanelBorder };
+
+  return (
+    <div style={{ backgroundColor: currentThemeStyles.mainBg, minHeight: '100vh', position: 'relative', overflowX: 'hidden' }}>
+      <AnimatedBackground currentThemeStyles={currentThemeStyles} />
+
+      <div style={{ position: 'relative', zIndex: 10 }}>
+        <nav style={{ backgroundColor: theme === 'dark' ? 'rgba(30, 41, 59, 0.92)' : 'rgba(255, 255, 255, 0.95)', backdropFilter: 'blur(12px)', borderBottom: '1px solid rgba(251, 191, 36, 0.3)', padding: '1rem 0' }}>
+          <div style={{ maxWidth: '720px', margin: '0 auto', padding: '0 1.5rem', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <Link href="/notifications" style={{ color: currentThemeStyles.textPrimary, textDecoration: 'none', fontSize: '0.875rem', display: 'flex', alignItems: 'center', gap: '0.5rem', fontWeight: '500' }}>
+              <ArrowLeftIcon width={16} height={16} />
+              Back to Notifications
+            </Link>
+            <ThemeSwitcher />
+          </div>
+        </nav>
+
+        <div style={{ maxWidth: '720px', margin: '0 auto', padding: '2rem 1.5rem' }}>
+          <div style={panelStyle}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', marginBottom: '1.5rem' }}>
+              <ChatBubbleLeftRightIcon width={28} height={28} color="#f59e0b" />
+              <h1 style={{ fontSize: '1.5rem', fontWeight: 'bold', color: currentThemeStyles.textPrimary, margin: 0 }}>Rate your support</h1>
+            </div>
+
+            {loading ? (
+              <p style={{ color: currentThemeStyles.textSecondary, margin: 0 }}>Loading survey...</p>
+            ) : error || !survey ? (
+              <div>
+                <p style={{ color: '#dc2626', margin: '0 0 1rem 0' }}>{error || 'Survey not found'}</p>
+                {isKnownSource && <button onClick={loadSurvey} style={{ padding: '0.5rem 1rem', border: 'none', borderRadius: '0.5rem', backgroundColor: '#3b82f6', color: 'white', cursor: 'pointer' }}>Retry</button>}
+              </div>
+            ) : (
+              <>
+                <div style={{ marginBottom: '1.5rem', color: currentThemeStyles.textSecondary, fontSize: '0.9rem' }}>
+                  <div style={{ color: currentThemeStyles.textPrimary, fontWeight: 600 }}>{survey.subject || (survey.source === 'chat' ? 'Live chat' : 'Support request')}</div>
+                  <div>{survey.source === 'chat' ? 'Chat' : 'Ticket'} #{survey.reference} · {survey.source === 'chat' ? 'ended' : 'resolved'} {new Date(survey.closedAt).toLocaleDateString()}{survey.agentName ? ` · handled by ${survey.agentName}` : ''}</div>
+                </div>
+                {survey.completedAt ? (
+                  <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', color: currentThemeStyles.textPrimary }}>
+                    <CheckCircleIcon width={24} height={24} color="#10b981" />
+                    <span>You already rated this {survey.source === 'chat' ? 'chat' : 'request'}{survey.csat ? ` as "${CSAT_LABELS[survey.csat]}"` : ''}. Thank you!</span>
+                  </div>
+                ) : (
+                  <SatisfactionSurvey source={survey.source} sourceId={survey.sourceId} agentName={survey.agentName} currentThemeStyles={currentThemeStyles} />
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -21,6 +21,7 @@ import {
   EyeIcon,
   WrenchScrewdriverIcon
 } from '@heroicons/react/24/outline';
+import { getApiBaseUrl } from '@/app/services/apiClient';
 
 interface AIModule {
   id: string;
@@ -96,7 +97,7 @@ export default function AIModulePage() {
         }
 
         // Call real backend API
-        const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/admin/ai`, {
+        const response = await fetch(`${getApiBaseUrl()}/api/admin/ai`, {
           method: 'GET',
           headers: {
             'Authorization': `Bearer ${token}`,
@@ -263,7 +264,7 @@ export default function AIModulePage() {
       let body: TrainingRequestBody | ActionRequestBody; // FIX: Replace 'any' with proper union type
 
       if (action === 'train') {
-        endpoint = `${process.env.NEXT_PUBLIC_API_URL}/api/admin/ai/${moduleId}/train`;
+        endpoint = `${getApiBaseUrl()}/api/admin/ai/${moduleId}/train`;
         body = {
           epochs: 100,
           batchSize: 32,
@@ -271,7 +272,7 @@ export default function AIModulePage() {
           validationSplit: 0.2
         };
       } else {
-        endpoint = `${process.env.NEXT_PUBLIC_API_URL}/api/admin/ai/${moduleId}/toggle`;
+        endpoint = `${getApiBaseUrl()}/api/admin/ai/${moduleId}/toggle`;
         body = { action };
       }
 
@@ -1,33 +1,19 @@
 //src/app/sysadmin/dashboard/page.tsx - REFACTORED VERSION
 "use client";
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { UsersIcon, DevicePhoneMobileIcon, TruckIcon, CpuChipIcon, ChartBarIcon, ExclamationTriangleIcon, ShieldCheckIcon, GlobeAltIcon, ServerIcon, CheckCircleIcon, BellIcon } from '@heroicons/react/24/outline';
 import { useTheme } from '@/app/context/ThemeContext';
 import ThemeSwitcher from '@/app/components/ThemeSwitcher';
 import AnimatedBackground from '@/app/sysadmin/components/AnimatedBackground'; // IMPORT THE NEW COMPONENT
+import apiClient, { getApiBaseUrl } from '@/app/services/apiClient';
+import { cacheKey } from '@/app/services/requestCache';
+import { useResource } from '@/app/hooks/useResource';
 
 // API Base URL
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000';
-
-// API utility functions
-const fetchAPI = async (endpoint: string) => {
-  const token = localStorage.getItem('token');
-  const response = await fetch(`${API_BASE_URL}/api${endpoint}`, {
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      'Content-Type': 'application/json',
-    },
-  });
-  
-  if (!response.ok) {
-    throw new Error(`API Error: ${response.status}`);
-  }
-  
-  return response.json();
-};
+const API_BASE_URL = getApiBaseUrl();
 
 // --- Interfaces (Unchanged) ---
 interface SystemStats {
@@ -50,60 +36,41 @@ interface SystemStats {
 interface FleetStats { total: number; approved: number; pending: number; rejected: number; suspended: number; }
 interface Alert { id: string; type: 'warning' | 'error' | 'info'; category: string; title: string; message: string; timestamp: string; priority: 'low' | 'medium' | 'high'; }
 
+const DASHBOARD_REFRESH_MS = 30000;
+
+// Shown when the backend cannot be reached
+const FALLBACK_STATS: SystemStats = { totalUsers: 2847, activeUsers: 1923, totalDevices: 156, activeDevices: 134, offlineDevices: 18, maintenanceDevices: 4, totalAlerts: 12, totalTrips: 8945, todayTrips: 127, systemUptime: 99.7, apiRequests: 45230, errorRate: 0.3, recentActivity: { newUsers: 23, newTrips: 89 }, usersByRole: { system_admin: 3, route_admin: 15, client: 2829 }, devicesByStatus: { online: 134, offline: 18, maintenance: 4 } };
+const FALLBACK_FLEET_STATS: FleetStats = { total: 47, approved: 41, pending: 4, rejected: 1, suspended: 1 };
+const FALLBACK_TIMESTAMP = new Date().toISOString();
+const FALLBACK_ALERTS: Alert[] = [ { id: '1', type: 'warning', category: 'Device', title: 'Low Battery Alert', message: 'Bus LB-2847 battery at 15%', timestamp: FALLBACK_TIMESTAMP, priority: 'medium' }, { id: '2', type: 'error', category: 'System', title: 'API Rate Limit', message: 'High API usage detected', timestamp: FALLBACK_TIMESTAMP, priority: 'high' }, { id: '3', type: 'info', category: 'Fleet', title: 'New Registration', message: 'Ceylon Express submitted application', timestamp: FALLBACK_TIMESTAMP, priority: 'low' } ];
+
 export default function SriExpressAdminDashboard() {
   const router = useRouter();
   const { theme } = useTheme();
   
   // --- State Management (Unchanged) ---
   const [user] = useState({ name: 'Mehara Rothila', email: 'admin@sriexpress.lk', role: 'system_admin' });
-  const [stats, setStats] = useState<SystemStats | null>(null);
-  const [fleetStats, setFleetStats] = useState<FleetStats | null>(null);
-  const [alerts, setAlerts] = useState<Alert[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const [autoRefresh, setAutoRefresh] = useState(true);
 
-  // --- Data Fetching (Unchanged) ---
-  const fetchDashboardData = useCallback(async () => {
-    try {
-      setError(null);
-      const [systemStatsData, fleetStatsData, alertsData] = await Promise.all([
-        fetchAPI('/admin/system/stats'),
-        fetchAPI('/admin/fleet/stats'),
-        fetchAPI('/admin/system/alerts'),
-      ]);
-      setStats(systemStatsData);
-      setFleetStats(fleetStatsData);
-      setAlerts(alertsData.alerts || []);
-    } catch (err) {
-      console.error('Error fetching dashboard data:', err);
-      setError('Failed to load dashboard data. Please check if the backend server is running.');
-      setStats({ totalUsers: 2847, activeUsers: 1923, totalDevices: 156, activeDevices: 134, offlineDevices: 18, maintenanceDevices: 4, totalAlerts: 12, totalTrips: 8945, todayTrips: 127, systemUptime: 99.7, apiRequests: 45230, errorRate: 0.3, recentActivity: { newUsers: 23, newTrips: 89 }, usersByRole: { system_admin: 3, route_admin: 15, client: 2829 }, devicesByStatus: { online: 134, offline: 18, maintenance: 4 } });
-      setFleetStats({ total: 47, approved: 41, pending: 4, rejected: 1, suspended: 1 });
-      setAlerts([ { id: '1', type: 'warning', category: 'Device', title: 'Low Battery Alert', message: 'Bus LB-2847 battery at 15%', timestamp: new Date().toISOString(), priority: 'medium' }, { id: '2', type: 'error', category: 'System', title: 'API Rate Limit', message: 'High API usage detected', timestamp: new Date().toISOString(), priority: 'high' }, { id: '3', type: 'info', category: 'Fleet', title: 'New Registration', message: 'Ceylon Express submitted application', timestamp: new Date().toISOString(), priority: 'low' } ]);
-    }
-  }, []);
-
-  useEffect(() => {
-    const loadInitialData = async () => {
-      setLoading(true);
-      await fetchDashboardData();
-      setLoading(false);
-    };
-    loadInitialData();
-  }, [fetchDashboardData]);
-
-  useEffect(() => {
-    if (!autoRefresh) return;
-    const interval = setInterval(fetchDashboardData, 30000);
-    return () => clearInterval(interval);
-  }, [autoRefresh, fetchDashboardData]);
+  // --- Data Fetching ---
+  // Each panel polls through the shared request cache; polling pauses while the tab is hidden
+  const refreshInterval = autoRefresh ? DASHBOARD_REFRESH_MS : 0;
+  const statsResource = useResource(cacheKey('/admin/system/stats'), () => apiClient.get<SystemStats>('/admin/system/stats'), { refreshInterval });
+  const fleetStatsResource = useResource(cacheKey('/admin/fleet/stats'), () => apiClient.get<FleetStats>('/admin/fleet/stats'), { refreshInterval });
+  const alertsResource = useResource(cacheKey('/admin/system/alerts'), () => apiClient.get<{ alerts?: Alert[] }>('/admin/system/alerts'), { refreshInterval });
+  const resources = [statsResource, fleetStatsResource, alertsResource];
+
+  const failed = resources.some(resource => resource.error);
+  const loading = resources.some(resource => resource.isLoading);
+  const error = failed ? 'Failed to load dashboard data. Please check if the backend server is running.' : null;
+  const stats = failed ? FALLBACK_STATS : statsResource.data ?? null;
+  const fleetStats = failed ? FALLBACK_FLEET_STATS : fleetStatsResource.data ?? null;
+  const alerts = failed ? FALLBACK_ALERTS : alertsResource.data?.alerts || [];
 
   const quickActions = stats && fleetStats ? [ { name: 'User Management', href: '/sysadmin/users', icon: UsersIcon, count: stats.totalUsers, desc: 'Manage system users' }, { name: 'Fleet Control', href: '/sysadmin/fleet', icon: TruckIcon, count: fleetStats.pending, desc: 'Fleet approvals', urgent: fleetStats.pending > 0 }, { name: 'Live Tracking', href: '/sysadmin/devices/monitor', icon: GlobeAltIcon, count: stats.activeDevices, desc: 'Vehicle monitoring' }, { name: 'AI Systems', href: '/sysadmin/ai', icon: CpuChipIcon, desc: 'Neural networks' }, { name: 'Analytics', href: '/sysadmin/analytics', icon: ChartBarIcon, desc: 'Data insights' }, { name: 'Emergency', href: '/sysadmin/emergency', icon: ExclamationTriangleIcon, count: alerts.length, desc: 'Crisis response' } ] : [];
 
   const handleLogout = () => {
-    localStorage.removeItem('token');
-    localStorage.removeItem('user');
+    apiClient.clearSession();
     router.push('/sysadmin/login');
   };
 
@@ -169,7 +136,7 @@ export default function SriExpressAdminDashboard() {
                 <strong>Warning:</strong> {error}
               </div>
               <p style={{ margin: '0.5rem 0 0 0', fontSize: '0.875rem' }}>
-                Displaying fallback data. Please check your backend server at <code>http://localhost:5000</code>
+                Displaying fallback data. Please check your backend server at <code>{API_BASE_URL}</code>
               </p>
             </div>
           )}
@@ -1,15 +1,16 @@
 // src/app/sysadmin/devices/[id]/edit/page.tsx
 "use client";
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { useRouter, useParams } from 'next/navigation';
 import { DevicePhoneMobileIcon, TruckIcon, MapPinIcon, CpuChipIcon, UserIcon, InformationCircleIcon, CheckCircleIcon, ExclamationTriangleIcon, ArrowPathIcon, ChevronLeftIcon } from '@heroicons/react/24/outline';
 import { useTheme } from '@/app/context/ThemeContext';
 import ThemeSwitcher from '@/app/components/ThemeSwitcher';
+import apiClient, { type AdminUser } from '@/app/services/apiClient';
 
 interface EditDeviceForm { deviceId: string; vehicleNumber: string; vehicleType: 'bus' | 'train'; assignedTo: { type: 'route_admin' | 'company_admin' | 'system'; userId: string; name: string; }; firmwareVersion: string; installDate: string; location: { latitude: number; longitude: number; address: string; }; route?: { routeId: string; name: string; }; status: 'online' | 'offline' | 'maintenance'; isActive: boolean; }
-interface User { _id: string; name: string; email: string; role: string; }
+type User = AdminUser;
 
 export default function EditDevicePage() {
   const router = useRouter();
@@ -24,9 +25,7 @@ export default function EditDevicePage() {
   const [saving, setSaving] = useState(false);
   const [loadingUsers, setLoadingUsers] = useState(false);
 
-  const getToken = () => localStorage.getItem('token');
-  const apiCall = useCallback(async (endpoint: string, options: RequestInit = {}) => { const token = getToken(); if (!token) { router.push('/sysadmin/login'); return null; } try { const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}${endpoint}`, { ...options, headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}`, ...options.headers, }, }); if (!response.ok) { if (response.status === 401) { localStorage.removeItem('token'); router.push('/sysadmin/login'); return null; } throw new Error(`API Error: ${response.status}`); } return await response.json(); } catch (error) { console.error('API call error:', error); return null; } }, [router]);
-  useEffect(() => { const loadData = async () => { setLoading(true); try { const deviceResponse = await apiCall(`/admin/devices/${deviceId}`); if (deviceResponse) { const deviceData: EditDeviceForm = { deviceId: deviceResponse.deviceId, vehicleNumber: deviceResponse.vehicleNumber, vehicleType: deviceResponse.vehicleType, assignedTo: deviceResponse.assignedTo, firmwareVersion: deviceResponse.firmwareVersion, installDate: deviceResponse.installDate.split('T')[0], location: deviceResponse.location, route: deviceResponse.route, status: deviceResponse.status, isActive: deviceResponse.isActive }; setFormData(deviceData); setOriginalData(deviceData); } setLoadingUsers(true); const usersResponse = await apiCall('/admin/users?limit=100&role=route_admin,company_admin'); if (usersResponse?.users) { setAvailableUsers(usersResponse.users); } setLoadingUsers(false); } catch (error) { console.error('Error loading data:', error); setErrors({ submit: 'Failed to load device data' }); } finally { setLoading(false); } }; if (deviceId) { loadData(); } }, [deviceId, apiCall]);
+  useEffect(() => { const loadData = async () => { setLoading(true); try { const deviceResponse = await apiClient.admin.devices.get(deviceId); const deviceData: EditDeviceForm = { deviceId: deviceResponse.deviceId, vehicleNumber: deviceResponse.vehicleNumber, vehicleType: deviceResponse.vehicleType, assignedTo: deviceResponse.assignedTo, firmwareVersion: deviceResponse.firmwareVersion, installDate: deviceResponse.installDate.split('T')[0], location: deviceResponse.location, route: deviceResponse.route, status: deviceResponse.status, isActive: deviceResponse.isActive }; setFormData(deviceData); setOriginalData(deviceData); setLoadingUsers(true); const usersResponse = await apiClient.admin.users.list({ limit: 100, role: 'route_admin,company_admin' }); if (usersResponse.users) { setAvailableUsers(usersResponse.users); } setLoadingUsers(false); } catch (error) { console.error('Error loading data:', error); setErrors({ submit: 'Failed to load device data' }); } finally { setLoading(false); } }; if (deviceId) { loadData(); } }, [deviceId]);
   
   // ✅ FIXED: Rewrote handleChange to be fully type-safe and avoid `any`
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
@@ -53,7 +52,7 @@ export default function EditDevicePage() {
   const handleAssignmentChange = (e: React.ChangeEvent<HTMLSelectElement>) => { if (!formData) return; const { name, value } = e.target; if (name === 'assignedTo.type') { if (value === 'system') { setFormData(prev => prev ? ({ ...prev, assignedTo: { type: 'system', userId: '', name: 'System Control' } }) : null); } else { setFormData(prev => prev ? ({ ...prev, assignedTo: { ...prev.assignedTo, type: value as 'route_admin' | 'company_admin', userId: '', name: '' } }) : null); } } else if (name === 'assignedTo.userId') { const selectedUser = availableUsers.find(user => user._id === value); setFormData(prev => prev ? ({ ...prev, assignedTo: { ...prev.assignedTo, userId: value, name: selectedUser?.name || '' } }) : null); } };
   const validateForm = () => { if (!formData) return false; const newErrors: Record<string, string> = {}; if (!formData.deviceId.trim()) { newErrors.deviceId = 'Device ID is required'; } if (!formData.vehicleNumber.trim()) { newErrors.vehicleNumber = 'Vehicle number is required'; } if (!formData.firmwareVersion.trim()) { newErrors.firmwareVersion = 'Firmware version is required'; } if (!formData.installDate) { newErrors.installDate = 'Install date is required'; } if (!formData.location.address.trim()) { newErrors['location.address'] = 'Address is required'; } if (formData.assignedTo.type !== 'system' && !formData.assignedTo.userId) { newErrors['assignedTo.userId'] = 'Please select a user for assignment'; } setErrors(newErrors); return Object.keys(newErrors).length === 0; };
   const hasChanges = () => { if (!formData || !originalData) return false; return JSON.stringify(formData) !== JSON.stringify(originalData); };
-  const handleSubmit = async (e: React.FormEvent) => { e.preventDefault(); if (!formData || !validateForm()) { return; } setSaving(true); try { const response = await apiCall(`/admin/devices/${deviceId}`, { method: 'PUT', body: JSON.stringify(formData), }); if (response) { router.push(`/sysadmin/devices/${deviceId}`); } } catch (error) { console.error('Error updating device:', error); setErrors({ submit: error instanceof Error ? error.message : 'Failed to update device' }); } finally { setSaving(false); } };
+  const handleSubmit = async (e: React.FormEvent) => { e.preventDefault(); if (!formData || !validateForm()) { return; } setSaving(true); try { await apiClient.admin.devices.update(deviceId, formData); router.push(`/sysadmin/devices/${deviceId}`); } catch (error) { console.error('Error updating device:', error); setErrors({ submit: error instanceof Error ? error.message : 'Failed to update device' }); } finally { setSaving(false); } };
   const getStatusColor = (status: string) => { switch (status) { case 'online': return '#10b981'; case 'offline': return '#ef4444'; case 'maintenance': return '#f59e0b'; default: return '#6b7280'; } };
   const filteredUsers = availableUsers.filter(user => formData?.assignedTo.type === 'route_admin' ? user.role === 'route_admin' : formData?.assignedTo.type === 'company_admin' ? user.role === 'company_admin' : false);
 
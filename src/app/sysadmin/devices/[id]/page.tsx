@@ -12,43 +12,10 @@ import {
 } from '@heroicons/react/24/outline';
 import { useTheme } from '@/app/context/ThemeContext';
 import ThemeSwitcher from '@/app/components/ThemeSwitcher';
+import apiClient, { ApiError, type AdminDevice } from '@/app/services/apiClient';
 
 // --- Data Interface ---
-interface Device {
-    _id: string;
-    deviceId: string;
-    vehicleNumber: string;
-    vehicleType: 'bus' | 'train';
-    status: 'online' | 'offline' | 'maintenance';
-    lastSeen: string;
-    location: {
-        latitude: number;
-        longitude: number;
-        address: string;
-        lastUpdated: string;
-    };
-    batteryLevel: number;
-    signalStrength: number; // Assuming 1-5 scale
-    assignedTo: {
-        type: 'route_admin' | 'company_admin' | 'system';
-        name: string;
-        id: string;
-    };
-    route?: {
-        id: string;
-        name: string;
-    };
-    firmwareVersion: string;
-    installDate: string;
-    lastMaintenance?: string;
-    alerts: {
-        count: number;
-        messages: string[];
-    };
-    isActive: boolean;
-    createdAt: string;
-    updatedAt: string;
-}
+type Device = AdminDevice;
 
 export default function DeviceDetailsPage() {
     const router = useRouter();
@@ -64,56 +31,19 @@ export default function DeviceDetailsPage() {
     const [actionLoading, setActionLoading] = useState<string | null>(null);
 
     // --- API and Data Logic ---
-    const getToken = () => localStorage.getItem('token');
-
-    const apiCall = useCallback(async (endpoint: string, options: RequestInit = {}) => {
-        const token = getToken();
-        if (!token) {
-            router.push('/sysadmin/login');
-            return null;
-        }
-        try {
-            const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}${endpoint}`, {
-                ...options,
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`,
-                    ...options.headers,
-                },
-            });
-            if (!response.ok) {
-                if (response.status === 401) {
-                    localStorage.removeItem('token');
-                    router.push('/sysadmin/login');
-                    return null;
-                }
-                throw new Error(`API Error: ${response.status}`);
-            }
-            if (options.method === 'DELETE') return { success: true };
-            return await response.json();
-        } catch (error) {
-            console.error('API call error:', error);
-            return null;
-        }
-    }, [router]);
-
     const loadDevice = useCallback(async () => {
         setLoading(true);
         setError('');
         try {
-            const response = await apiCall(`/api/admin/devices/${deviceId}`);
-            if (response) {
-                setDevice(response);
-            } else {
-                setError('Device not found or failed to load.');
-            }
+            const response = await apiClient.admin.devices.get(deviceId);
+            setDevice(response);
         } catch (err) {
-            setError('Failed to load device details.');
+            setError(err instanceof ApiError && err.code === 'not_found' ? 'Device not found or failed to load.' : 'Failed to load device details.');
             console.error('Error loading device:', err);
         } finally {
             setLoading(false);
         }
-    }, [deviceId, apiCall]);
+    }, [deviceId]);
 
     useEffect(() => {
         if (deviceId) {
@@ -125,7 +55,7 @@ export default function DeviceDetailsPage() {
     const handleDeleteDevice = async () => {
         setActionLoading('delete');
         try {
-            await apiCall(`/api/admin/devices/${deviceId}`, { method: 'DELETE' });
+            await apiClient.admin.devices.remove(deviceId);
             router.push('/sysadmin/devices');
         } catch (error) {
             console.error('Error deleting device:', error);
@@ -139,7 +69,7 @@ export default function DeviceDetailsPage() {
     const handleClearAlerts = async () => {
         setActionLoading('clearAlerts');
         try {
-            await apiCall(`/api/admin/devices/${deviceId}/alerts`, { method: 'DELETE' });
+            await apiClient.admin.devices.clearAlerts(deviceId);
             await loadDevice();
         } catch (error) {
             console.error('Error clearing alerts:', error);
@@ -290,7 +220,7 @@ export default function DeviceDetailsPage() {
                                 <li style={{ display: 'flex', justifyContent: 'space-between' }}><span style={{ color: currentThemeStyles.textSecondary }}>Vehicle Number:</span> <span>{device.vehicleNumber}</span></li>
                                 <li style={{ display: 'flex', justifyContent: 'space-between' }}><span style={{ color: currentThemeStyles.textSecondary }}>Vehicle Type:</span> <span>{device.vehicleType.charAt(0).toUpperCase() + device.vehicleType.slice(1)}</span></li>
                                 {device.route && (
-                                    <li style={{ display: 'flex', justifyContent: 'space-between' }}><span style={{ color: currentThemeStyles.textSecondary }}>Assigned Route:</span> <Link href={`/sysadmin/routes/${device.route.id}`} style={{ color: '#3b82f6', textDecoration: 'underline' }}>{device.route.name}</Link></li>
+                                    <li style={{ display: 'flex', justifyContent: 'space-between' }}><span style={{ color: currentThemeStyles.textSecondary }}>Assigned Route:</span> <Link href={`/sysadmin/routes/${device.route.routeId}`} style={{ color: '#3b82f6', textDecoration: 'underline' }}>{device.route.name}</Link></li>
                                 )}
                             </ul>
                         </div>
@@ -2,16 +2,17 @@
 
 "use client";
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 // ✅ FIXED: Removed unused ArrowPathIcon import
 import { DevicePhoneMobileIcon, TruckIcon, MapPinIcon, CpuChipIcon, UserIcon, InformationCircleIcon, ChevronLeftIcon } from '@heroicons/react/24/outline';
 import { useTheme } from '@/app/context/ThemeContext';
 import ThemeSwitcher from '@/app/components/ThemeSwitcher';
+import apiClient, { type AdminUser } from '@/app/services/apiClient';
 
 interface CreateDeviceForm { deviceId: string; vehicleNumber: string; vehicleType: 'bus' | 'train'; assignedTo: { type: 'route_admin' | 'company_admin' | 'system'; userId: string; name: string; }; firmwareVersion: string; installDate: string; location: { latitude: number; longitude: number; address: string; }; route?: { routeId: string; name: string; }; }
-interface User { _id: string; name: string; email: string; role: string; }
+type User = AdminUser;
 
 interface DevicePayload {
   deviceId: string;
@@ -44,61 +45,7 @@ export default function AddDevicePage() {
   const [loading, setLoading] = useState(false);
   const [loadingUsers, setLoadingUsers] = useState(false);
 
-  const getToken = () => localStorage.getItem('token');
-
-  const apiCall = useCallback(async (endpoint: string, options: RequestInit = {}) => {
-    const token = getToken();
-    if (!token) {
-      router.push('/sysadmin/login');
-      return null;
-    }
-  
-    try {
-      const baseURL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000';
-      const fullURL = `${baseURL}/api${endpoint}`;
-      console.log('API Call URL:', fullURL);
-      
-      const response = await fetch(fullURL, {
-        ...options,
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-          ...options.headers,
-        },
-      });
-  
-      console.log('Response status:', response.status);
-      console.log('Response headers:', response.headers);
-  
-      if (!response.ok) {
-        let errorData;
-        try {
-          errorData = await response.json();
-          console.log('=== BACKEND ERROR RESPONSE ===');
-          console.log(JSON.stringify(errorData, null, 2));
-        } catch {
-          console.log('Could not parse error response as JSON');
-          const errorText = await response.text();
-          console.log('Error response text:', errorText);
-        }
-  
-        if (response.status === 401) {
-          localStorage.removeItem('token');
-          router.push('/sysadmin/login');
-          return null;
-        }
-        
-        throw new Error(`API Error: ${response.status} - ${errorData?.message || response.statusText}`);
-      }
-  
-      return await response.json();
-    } catch (error) {
-      console.error('API call error:', error);
-      throw error;
-    }
-  }, [router]);
-
-  useEffect(() => { const loadUsers = async () => { setLoadingUsers(true); try { const response = await apiCall('/admin/users?limit=100&role=route_admin,company_admin'); if (response?.users) { setAvailableUsers(response.users); } } catch (error) { console.error('Error loading users:', error); } finally { setLoadingUsers(false); } }; loadUsers(); }, [apiCall]);
+  useEffect(() => { const loadUsers = async () => { setLoadingUsers(true); try { const response = await apiClient.admin.users.list({ limit: 100, role: 'route_admin,company_admin' }); if (response.users) { setAvailableUsers(response.users); } } catch (error) { console.error('Error loading users:', error); } finally { setLoadingUsers(false); } }; loadUsers(); }, []);
   
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => { const { name, value } = e.target; if (name.includes('.')) { const [parent, child] = name.split('.'); setFormData(prev => ({ ...prev, [parent]: { ...prev[parent as keyof CreateDeviceForm] as Record<string, string | number>, [child]: value } })); } else { setFormData(prev => ({ ...prev, [name]: value })); } if (errors[name]) { setErrors(prev => ({ ...prev, [name]: '' })); } };
   
@@ -176,17 +123,9 @@ export default function AddDevicePage() {
       console.log('=== SENDING DEVICE DATA ===');
       console.log(JSON.stringify(deviceData, null, 2));
   
-      const response = await apiCall('/admin/devices', {
-        method: 'POST',
-        body: JSON.stringify(deviceData),
-      });
-  
-      if (response) {
-        console.log('✅ Device created successfully:', response);
-        router.push('/sysadmin/devices');
-      } else {
-        setErrors({ submit: 'Failed to create device. Check console for details.' });
-      }
+      const response = await apiClient.admin.devices.create(deviceData);
+      console.log('✅ Device created successfully:', response);
+      router.push('/sysadmin/devices');
     } catch (error) {
       console.error('❌ Error creating device:', error);
       setErrors({ submit: error instanceof Error ? error.message : 'Failed to create device' });
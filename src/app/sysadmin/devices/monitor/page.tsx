@@ -3,39 +3,32 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import Link from 'next/link';
-import { useRouter } from 'next/navigation';
 import dynamic from 'next/dynamic';
 import { GlobeAltIcon, DevicePhoneMobileIcon, MagnifyingGlassIcon, MapPinIcon, SignalIcon, BoltIcon, TruckIcon, CheckCircleIcon, XCircleIcon, ClockIcon, ExclamationTriangleIcon, ArrowPathIcon, ViewColumnsIcon, MapIcon, FunnelIcon, EyeIcon } from '@heroicons/react/24/outline';
+import apiClient, { type AdminDevice, type SimulationStatus } from '@/app/services/apiClient';
+import type { VehicleLocation } from '@/app/domain';
 
 // Dynamic import for the map component (SSR safe)
 const AdvancedMap = dynamic(() => import('../../../components/AdvancedMap'), { ssr: false, loading: () => <div style={{ height: '100%', backgroundColor: '#334155', display: 'flex', alignItems: 'center', justifyContent: 'center', borderRadius: '0.75rem' }}><div style={{ color: '#94a3b8' }}>Loading advanced GPS map...</div></div> });
 
-interface Device { _id: string; deviceId: string; vehicleNumber: string; vehicleType: 'bus' | 'train'; status: 'online' | 'offline' | 'maintenance'; lastSeen: string; location: { latitude: number; longitude: number; address: string; lastUpdated: string; }; batteryLevel: number; signalStrength: number; assignedTo: { type: 'route_admin' | 'company_admin' | 'system'; name: string; id: string; }; route?: { id: string; name: string; }; alerts: { count: number; messages: string[]; }; }
-interface VehicleLocation { _id: string; deviceId: string; routeId: string; vehicleId: string; vehicleNumber: string; location: { latitude: number; longitude: number; accuracy: number; heading: number; speed: number; altitude: number; }; routeProgress: { currentWaypoint: number; distanceCovered: number; estimatedTimeToDestination: number; nextStopETA: string; progressPercentage: number; }; passengerLoad: { currentCapacity: number; maxCapacity: number; loadPercentage: number; }; operationalInfo: { driverInfo: { driverName: string; contactNumber: string; }; tripInfo: { tripId: string; departureTime: string; estimatedArrival: string; }; status: 'on_route' | 'at_stop' | 'delayed' | 'breakdown' | 'off_duty'; delays: { currentDelay: number; reason: string; }; }; environmentalData: { weather: string; temperature: number; trafficCondition: string; }; timestamp: string; }
-interface SimulationStatus { isRunning: boolean; vehicleCount: number; speedMultiplier: number; routes: number; lastUpdate: string; }
+type Device = AdminDevice;
 
 type ViewMode = 'map' | 'grid' | 'hybrid';
 
 export default function AdvancedDeviceMonitorPage() {
-  const router = useRouter(); const [devices, setDevices] = useState<Device[]>([]); const [vehicles, setVehicles] = useState<VehicleLocation[]>([]); const [filteredDevices, setFilteredDevices] = useState<Device[]>([]); const [loading, setLoading] = useState(true); const [viewMode, setViewMode] = useState<ViewMode>('hybrid'); const [searchTerm, setSearchTerm] = useState(''); const [statusFilter, setStatusFilter] = useState('all'); const [typeFilter, setTypeFilter] = useState('all'); const [autoRefresh, setAutoRefresh] = useState(true); const [selectedVehicle, setSelectedVehicle] = useState<string | null>(null); const [simulationStatus, setSimulationStatus] = useState<SimulationStatus | null>(null); const [showSimulationData, setShowSimulationData] = useState(true);
-
-  // Get auth token
-  const getToken = () => localStorage.getItem('token');
-
-  // API call helper
-  const apiCall = useCallback(async (endpoint: string, options: RequestInit = {}) => { const token = getToken(); if (!token) { router.push('/sysadmin/login'); return null; } try { const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api${endpoint}`, { ...options, headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}`, ...options.headers, }, }); if (!response.ok) { if (response.status === 401) { localStorage.removeItem('token'); router.push('/sysadmin/login'); return null; } throw new Error(`API Error: ${response.status}`); } return await response.json(); } catch (error) { console.error('API call error:', error); return null; } }, [router]);
+  const [devices, setDevices] = useState<Device[]>([]); const [vehicles, setVehicles] = useState<VehicleLocation[]>([]); const [filteredDevices, setFilteredDevices] = useState<Device[]>([]); const [loading, setLoading] = useState(true); const [viewMode, setViewMode] = useState<ViewMode>('hybrid'); const [searchTerm, setSearchTerm] = useState(''); const [statusFilter, setStatusFilter] = useState('all'); const [typeFilter, setTypeFilter] = useState('all'); const [autoRefresh, setAutoRefresh] = useState(true); const [selectedVehicle, setSelectedVehicle] = useState<string | null>(null); const [simulationStatus, setSimulationStatus] = useState<SimulationStatus | null>(null); const [showSimulationData, setShowSimulationData] = useState(true);
 
   // Load devices data
-  const loadDevices = useCallback(async () => { try { const response = await apiCall('/admin/devices?limit=1000'); if (response?.devices) { setDevices(response.devices); } } catch (error) { console.error('Error loading devices:', error); } }, [apiCall]);
+  const loadDevices = useCallback(async () => { try { const response = await apiClient.admin.devices.list({ limit: 1000 }); if (response.devices) { setDevices(response.devices); } } catch (error) { console.error('Error loading devices:', error); } }, []);
 
   // Load real-time vehicle locations (GPS simulation data)
-  const loadVehicleLocations = useCallback(async () => { try { const response = await apiCall('/tracking/live'); if (response?.vehicles) { setVehicles(response.vehicles); } } catch (error) { console.error('Error loading vehicle locations:', error); } }, [apiCall]);
+  const loadVehicleLocations = useCallback(async () => { try { const response = await apiClient.tracking.live(); if (response.vehicles) { setVehicles(response.vehicles); } } catch (error) { console.error('Error loading vehicle locations:', error); } }, []);
 
   // Load simulation status
-  const loadSimulationStatus = useCallback(async () => { try { const response = await apiCall('/admin/simulation/status'); if (response?.simulation) { setSimulationStatus(response.simulation); } } catch (error) { console.error('Error loading simulation status:', error); } }, [apiCall]);
+  const loadSimulationStatus = useCallback(async () => { try { const response = await apiClient.admin.simulation.status(); if (response.simulation) { setSimulationStatus(response.simulation); } } catch (error) { console.error('Error loading simulation status:', error); } }, []);
 
   // Control simulation
-  const controlSimulation = useCallback(async (action: 'start' | 'stop' | 'speed', value?: number) => { try { const endpoint = action === 'speed' ? `/admin/simulation/speed` : `/admin/simulation/${action}`; const options = action === 'speed' ? { method: 'POST', body: JSON.stringify({ speed: value }) } : { method: 'POST' }; const response = await apiCall(endpoint, options); if (response) { setSimulationStatus(response.simulation); if (action === 'start') setAutoRefresh(true); } } catch (error) { console.error('Error controlling simulation:', error); } }, [apiCall]);
+  const controlSimulation = useCallback(async (action: 'start' | 'stop' | 'speed', value?: number) => { try { const response = await apiClient.admin.simulation.control({ action, speed: value }); setSimulationStatus(response.simulation); if (action === 'start') setAutoRefresh(true); } catch (error) { console.error('Error controlling simulation:', error); } }, []);
 
   // Initial load
   useEffect(() => { const initialLoad = async () => { setLoading(true); await Promise.all([loadDevices(), loadVehicleLocations(), loadSimulationStatus()]); setLoading(false); }; initialLoad(); }, [loadDevices, loadVehicleLocations, loadSimulationStatus]);
@@ -163,11 +156,11 @@ export default function AdvancedDeviceMonitorPage() {
                         <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start' }}>
                           <div>
                             <h4 style={{ color: '#f1f5f9', fontSize: '1rem', fontWeight: 'bold', margin: '0 0 0.25rem 0', display: 'flex', alignItems: 'center', gap: '0.5rem' }}>{isVehicle ? (vehicle.vehicleId.includes('TRAIN') ? '🚊' : '🚌') : <TruckIcon width={16} height={16} />}{isVehicle ? vehicle.vehicleNumber : device.vehicleNumber}{isVehicle && selectedVehicle === vehicle.vehicleId && <span style={{ fontSize: '0.75rem', color: '#3B82F6' }}>📍</span>}</h4>
-                            <p style={{ color: '#94a3b8', fontSize: '0.875rem', margin: 0 }}>{isVehicle ? `${vehicle.operationalInfo.driverInfo.driverName} • Speed: ${vehicle.location.speed.toFixed(1)} km/h` : `${device.assignedTo.name} • ${device.vehicleType}`}</p>
+                            <p style={{ color: '#94a3b8', fontSize: '0.875rem', margin: 0 }}>{isVehicle ? `${vehicle.operationalInfo?.driverInfo?.driverName || 'Unassigned driver'} • Speed: ${(vehicle.location.speed ?? 0).toFixed(1)} km/h` : `${device.assignedTo.name} • ${device.vehicleType}`}</p>
                           </div>
                           <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
                             {isVehicle ? (
-                              <span style={{ color: vehicle.operationalInfo.status === 'on_route' ? '#10B981' : vehicle.operationalInfo.status === 'delayed' ? '#F59E0B' : '#6B7280', fontSize: '0.75rem', fontWeight: '500', textTransform: 'capitalize' }}>{vehicle.operationalInfo.status.replace('_', ' ')}</span>
+                              <span style={{ color: vehicle.operationalInfo?.status === 'on_route' ? '#10B981' : vehicle.operationalInfo?.status === 'delayed' ? '#F59E0B' : '#6B7280', fontSize: '0.75rem', fontWeight: '500', textTransform: 'capitalize' }}>{(vehicle.operationalInfo?.status || 'unknown').replace('_', ' ')}</span>
                             ) : (
                               <>
                                 <span style={{ color: getStatusColor(device.status) }}>{getStatusIcon(device.status)}</span>
@@ -178,9 +171,9 @@ export default function AdvancedDeviceMonitorPage() {
                         </div>
                         {isVehicle && (
                           <div style={{ marginTop: '0.5rem', display: 'flex', gap: '1rem', fontSize: '0.75rem', color: '#94a3b8' }}>
-                            <span>Load: {vehicle.passengerLoad.loadPercentage.toFixed(0)}%</span>
-                            <span>Progress: {vehicle.routeProgress.progressPercentage.toFixed(0)}%</span>
-                            {vehicle.operationalInfo.delays.currentDelay > 0 && <span style={{ color: '#F59E0B' }}>+{vehicle.operationalInfo.delays.currentDelay}min</span>}
+                            <span>Load: {(vehicle.passengerLoad?.loadPercentage ?? 0).toFixed(0)}%</span>
+                            <span>Progress: {(vehicle.routeProgress?.progressPercentage ?? 0).toFixed(0)}%</span>
+                            {(vehicle.operationalInfo?.delays?.currentDelay ?? 0) > 0 && <span style={{ color: '#F59E0B' }}>+{vehicle.operationalInfo?.delays?.currentDelay}min</span>}
                           </div>
                         )}
                       </div>
@@ -207,11 +200,11 @@ export default function AdvancedDeviceMonitorPage() {
                   <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', marginBottom: '1rem' }}>
                     <div>
                       <h3 style={{ color: '#f1f5f9', fontSize: '1.1rem', fontWeight: 'bold', margin: '0 0 0.25rem 0', display: 'flex', alignItems: 'center', gap: '0.5rem' }}>{isVehicle ? (vehicle.vehicleId.includes('TRAIN') ? '🚊' : '🚌') : device.deviceId}{isVehicle ? vehicle.vehicleNumber : device.vehicleNumber}{isVehicle && selectedVehicle === vehicle.vehicleId && <span style={{ fontSize: '0.875rem', color: '#3B82F6' }}>📍 Selected</span>}</h3>
-                      <p style={{ color: '#94a3b8', fontSize: '0.875rem', margin: 0, display: 'flex', alignItems: 'center', gap: '0.5rem' }}><TruckIcon width={14} height={14} />{isVehicle ? `${vehicle.operationalInfo.driverInfo.driverName} • Speed: ${vehicle.location.speed.toFixed(1)} km/h` : `${device.vehicleNumber} • ${device.vehicleType}`}</p>
+                      <p style={{ color: '#94a3b8', fontSize: '0.875rem', margin: 0, display: 'flex', alignItems: 'center', gap: '0.5rem' }}><TruckIcon width={14} height={14} />{isVehicle ? `${vehicle.operationalInfo?.driverInfo?.driverName || 'Unassigned driver'} • Speed: ${(vehicle.location.speed ?? 0).toFixed(1)} km/h` : `${device.vehicleNumber} • ${device.vehicleType}`}</p>
                     </div>
                     <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
                       {isVehicle ? (
-                        <span style={{ color: vehicle.operationalInfo.status === 'on_route' ? '#10B981' : vehicle.operationalInfo.status === 'delayed' ? '#F59E0B' : '#6B7280', fontSize: '0.875rem', fontWeight: '500', textTransform: 'capitalize' }}>{vehicle.operationalInfo.status.replace('_', ' ')}</span>
+                        <span style={{ color: vehicle.operationalInfo?.status === 'on_route' ? '#10B981' : vehicle.operationalInfo?.status === 'delayed' ? '#F59E0B' : '#6B7280', fontSize: '0.875rem', fontWeight: '500', textTransform: 'capitalize' }}>{(vehicle.operationalInfo?.status || 'unknown').replace('_', ' ')}</span>
                       ) : (
                         <>
                           <span style={{ color: getStatusColor(device.status) }}>{getStatusIcon(device.status)}</span>
@@ -224,9 +217,9 @@ export default function AdvancedDeviceMonitorPage() {
                   {/* Stats Grid */}
                   {isVehicle ? (
                     <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '1rem', marginBottom: '1rem' }}>
-                      <div style={{ textAlign: 'center' }}><div style={{ color: '#3B82F6', fontSize: '0.875rem', fontWeight: '600' }}>{vehicle.location.speed.toFixed(1)}</div><div style={{ color: '#94a3b8', fontSize: '0.75rem' }}>km/h</div></div>
-                      <div style={{ textAlign: 'center' }}><div style={{ color: vehicle.passengerLoad.loadPercentage > 80 ? '#EF4444' : '#10B981', fontSize: '0.875rem', fontWeight: '600' }}>{vehicle.passengerLoad.loadPercentage.toFixed(0)}%</div><div style={{ color: '#94a3b8', fontSize: '0.75rem' }}>Load</div></div>
-                      <div style={{ textAlign: 'center' }}><div style={{ color: '#8B5CF6', fontSize: '0.875rem', fontWeight: '600' }}>{vehicle.routeProgress.progressPercentage.toFixed(0)}%</div><div style={{ color: '#94a3b8', fontSize: '0.75rem' }}>Progress</div></div>
+                      <div style={{ textAlign: 'center' }}><div style={{ color: '#3B82F6', fontSize: '0.875rem', fontWeight: '600' }}>{(vehicle.location.speed ?? 0).toFixed(1)}</div><div style={{ color: '#94a3b8', fontSize: '0.75rem' }}>km/h</div></div>
+                      <div style={{ textAlign: 'center' }}><div style={{ color: (vehicle.passengerLoad?.loadPercentage ?? 0) > 80 ? '#EF4444' : '#10B981', fontSize: '0.875rem', fontWeight: '600' }}>{(vehicle.passengerLoad?.loadPercentage ?? 0).toFixed(0)}%</div><div style={{ color: '#94a3b8', fontSize: '0.75rem' }}>Load</div></div>
+                      <div style={{ textAlign: 'center' }}><div style={{ color: '#8B5CF6', fontSize: '0.875rem', fontWeight: '600' }}>{(vehicle.routeProgress?.progressPercentage ?? 0).toFixed(0)}%</div><div style={{ color: '#94a3b8', fontSize: '0.75rem' }}>Progress</div></div>
                     </div>
                   ) : (
                     <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '1rem', marginBottom: '1rem' }}>
@@ -240,7 +233,7 @@ export default function AdvancedDeviceMonitorPage() {
                   <div style={{ backgroundColor: '#334155', padding: '0.75rem', borderRadius: '0.5rem', marginBottom: '1rem' }}>
                     <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.25rem' }}><MapPinIcon width={14} height={14} color="#94a3b8" /><span style={{ color: '#94a3b8', fontSize: '0.75rem' }}>Location</span></div>
                     <p style={{ color: '#f1f5f9', fontSize: '0.875rem', margin: 0, lineHeight: '1.4' }}>{isVehicle ? `${vehicle.location.latitude.toFixed(4)}, ${vehicle.location.longitude.toFixed(4)}` : device.location.address}</p>
-                    <p style={{ color: '#94a3b8', fontSize: '0.75rem', margin: '0.25rem 0 0 0' }}>Updated {isVehicle ? getTimeSince(vehicle.timestamp) : getTimeSince(device.location.lastUpdated)}</p>
+                    <p style={{ color: '#94a3b8', fontSize: '0.75rem', margin: '0.25rem 0 0 0' }}>Updated {isVehicle ? (vehicle.timestamp ? getTimeSince(vehicle.timestamp) : 'recently') : getTimeSince(device.location.lastUpdated)}</p>
                   </div>
 
                   {/* Actions */}
@@ -3,16 +3,14 @@
 "use client";
 import { useState, useEffect, useCallback } from 'react';
 import Link from 'next/link';
-import { useRouter } from 'next/navigation';
 import { DevicePhoneMobileIcon, PlusIcon, MagnifyingGlassIcon, MapPinIcon, BoltIcon, TruckIcon, ExclamationTriangleIcon, CheckCircleIcon, XCircleIcon, ClockIcon, EyeIcon, PencilIcon, TrashIcon, ArrowPathIcon, ChevronLeftIcon, ChevronRightIcon } from '@heroicons/react/24/outline';
 import { useTheme } from '@/app/context/ThemeContext';
 import ThemeSwitcher from '@/app/components/ThemeSwitcher';
+import apiClient, { type AdminDevice, type DeviceStats } from '@/app/services/apiClient';
 
-interface Device { _id: string; deviceId: string; vehicleNumber: string; vehicleType: 'bus' | 'train'; status: 'online' | 'offline' | 'maintenance'; lastSeen: string; location: { latitude: number; longitude: number; address: string; lastUpdated: string; }; batteryLevel: number; signalStrength: number; assignedTo: { type: 'route_admin' | 'company_admin' | 'system'; userId?: string; name: string; }; route?: { routeId: string; name: string; }; firmwareVersion: string; installDate: string; lastMaintenance?: string; alerts: { count: number; messages: string[]; }; isActive: boolean; createdAt: string; updatedAt: string; }
-interface DeviceStats { totalDevices: number; activeDevices: number; offlineDevices: number; maintenanceDevices: number; totalAlerts: number; }
+type Device = AdminDevice;
 
 export default function SystemAdminDevicesPage() {
-  const router = useRouter();
   const { theme } = useTheme();
   const [devices, setDevices] = useState<Device[]>([]);
   const [stats, setStats] = useState<DeviceStats | null>(null);
@@ -28,17 +26,15 @@ export default function SystemAdminDevicesPage() {
   const [deleting, setDeleting] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
 
-  const getToken = () => localStorage.getItem('token');
-  const apiCall = useCallback(async (endpoint: string, options: RequestInit = {}) => { const token = getToken(); if (!token) { router.push('/sysadmin/login'); return null; } try { const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api${endpoint}`, { ...options, headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}`, ...options.headers, }, }); if (!response.ok) { if (response.status === 401) { localStorage.removeItem('token'); router.push('/sysadmin/login'); return null; } throw new Error(`API Error: ${response.status}`); } return await response.json(); } catch (error) { console.error('API call error:', error); return null; } }, [router]);
-  const loadDevices = useCallback(async (page = 1, search = '', status = 'all', type = 'all') => { setLoading(true); try { const params = new URLSearchParams({ page: page.toString(), limit: '10', sortBy: 'lastSeen', sortOrder: 'desc' }); if (search) params.append('search', search); if (status !== 'all') params.append('status', status); if (type !== 'all') params.append('vehicleType', type); const devicesResponse = await apiCall(`/admin/devices?${params.toString()}`); const statsResponse = await apiCall('/admin/devices/stats'); if (devicesResponse && statsResponse) { setDevices(devicesResponse.devices || []); setPagination(devicesResponse.pagination || { currentPage: 1, totalPages: 1, totalDevices: 0, hasNext: false, hasPrev: false }); setStats(statsResponse); } } catch (error) { console.error('Error loading devices:', error); alert('Failed to load devices. Please try again.'); } finally { setLoading(false); } }, [apiCall]);
+  const loadDevices = useCallback(async (page = 1, search = '', status = 'all', type = 'all') => { setLoading(true); try { const [devicesResponse, statsResponse] = await Promise.all([apiClient.admin.devices.list({ page, limit: 10, sortBy: 'lastSeen', sortOrder: 'desc', search, status: status !== 'all' ? status : undefined, vehicleType: type !== 'all' ? type : undefined }), apiClient.admin.devices.stats()]); setDevices(devicesResponse.devices || []); setPagination({ currentPage: 1, totalPages: 1, totalDevices: 0, hasNext: false, hasPrev: false, ...devicesResponse.pagination }); setStats(statsResponse); } catch (error) { console.error('Error loading devices:', error); alert('Failed to load devices. Please try again.'); } finally { setLoading(false); } }, []);
   useEffect(() => { loadDevices(); }, [loadDevices]);
   useEffect(() => { const timeoutId = setTimeout(() => { loadDevices(1, searchTerm, filterStatus, filterType); setCurrentPage(1); }, 500); return () => clearTimeout(timeoutId); }, [searchTerm, filterStatus, filterType, loadDevices]);
   const handlePageChange = (page: number) => { setCurrentPage(page); loadDevices(page, searchTerm, filterStatus, filterType); };
-  const handleDeleteDevice = async (deviceId: string) => { if (!deviceId) return; setDeleting(true); try { const response = await apiCall(`/admin/devices/${deviceId}`, { method: 'DELETE' }); if (response) { await loadDevices(currentPage, searchTerm, filterStatus, filterType); setShowDeleteModal(false); setDeviceToDelete(null); alert('Device deleted successfully'); } else { alert('Failed to delete device'); } } catch (error) { console.error('Error deleting device:', error); alert('Failed to delete device'); } finally { setDeleting(false); } };
-  const handleUpdateDeviceStatus = async (deviceId: string, newStatus: string) => { try { const response = await apiCall(`/admin/devices/${deviceId}`, { method: 'PUT', body: JSON.stringify({ status: newStatus }) }); if (response) { await loadDevices(currentPage, searchTerm, filterStatus, filterType); alert(`Device status updated to ${newStatus}`); } else { alert('Failed to update device status'); } } catch (error) { console.error('Error updating device status:', error); alert('Failed to update device status'); } };
-  const handleClearAlerts = async (deviceId: string) => { try { const response = await apiCall(`/admin/devices/${deviceId}/alerts`, { method: 'DELETE' }); if (response) { await loadDevices(currentPage, searchTerm, filterStatus, filterType); alert('Device alerts cleared successfully'); } else { alert('Failed to clear device alerts'); } } catch (error) { console.error('Error clearing device alerts:', error); alert('Failed to clear device alerts'); } };
+  const handleDeleteDevice = async (deviceId: string) => { if (!deviceId) return; setDeleting(true); try { await apiClient.admin.devices.remove(deviceId); await loadDevices(currentPage, searchTerm, filterStatus, filterType); setShowDeleteModal(false); setDeviceToDelete(null); alert('Device deleted successfully'); } catch (error) { console.error('Error deleting device:', error); alert('Failed to delete device'); } finally { setDeleting(false); } };
+  const handleUpdateDeviceStatus = async (deviceId: string, newStatus: string) => { try { await apiClient.admin.devices.update(deviceId, { status: newStatus }); await loadDevices(currentPage, searchTerm, filterStatus, filterType); alert(`Device status updated to ${newStatus}`); } catch (error) { console.error('Error updating device status:', error); alert('Failed to update device status'); } };
+  const handleClearAlerts = async (deviceId: string) => { try { await apiClient.admin.devices.clearAlerts(deviceId); await loadDevices(currentPage, searchTerm, filterStatus, filterType); alert('Device alerts cleared successfully'); } catch (error) { console.error('Error clearing device alerts:', error); alert('Failed to clear device alerts'); } };
   const handleRefresh = async () => { setRefreshing(true); await loadDevices(currentPage, searchTerm, filterStatus, filterType); setRefreshing(false); };
-  const handleBulkAction = async (action: string) => { if (selectedDevices.length === 0) { alert('Please select devices first'); return; } try { if (action === 'delete') { const confirmed = confirm(`Are you sure you want to delete ${selectedDevices.length} devices?`); if (confirmed) { for (const deviceId of selectedDevices) { await apiCall(`/admin/devices/${deviceId}`, { method: 'DELETE' }); } setSelectedDevices([]); await loadDevices(currentPage, searchTerm, filterStatus, filterType); alert('Devices deleted successfully'); } } else if (action === 'maintenance' || action === 'online') { for (const deviceId of selectedDevices) { await apiCall(`/admin/devices/${deviceId}`, { method: 'PUT', body: JSON.stringify({ status: action }) }); } setSelectedDevices([]); await loadDevices(currentPage, searchTerm, filterStatus, filterType); alert(`Devices updated to ${action} successfully`); } } catch (error) { console.error('Bulk action error:', error); alert('Failed to perform bulk action'); } };
+  const handleBulkAction = async (action: string) => { if (selectedDevices.length === 0) { alert('Please select devices first'); return; } try { if (action === 'delete') { const confirmed = confirm(`Are you sure you want to delete ${selectedDevices.length} devices?`); if (confirmed) { for (const deviceId of selectedDevices) { await apiClient.admin.devices.remove(deviceId); } setSelectedDevices([]); await loadDevices(currentPage, searchTerm, filterStatus, filterType); alert('Devices deleted successfully'); } } else if (action === 'maintenance' || action === 'online') { for (const deviceId of selectedDevices) { await apiClient.admin.devices.update(deviceId, { status: action }); } setSelectedDevices([]); await loadDevices(currentPage, searchTerm, filterStatus, filterType); alert(`Devices updated to ${action} successfully`); } } catch (error) { console.error('Bulk action error:', error); alert('Failed to perform bulk action'); } };
   const getStatusColor = (status: string) => { switch (status) { case 'online': return '#10b981'; case 'offline': return '#ef4444'; case 'maintenance': return '#f59e0b'; default: return '#6b7280'; } };
   const getStatusIcon = (status: string) => { switch (status) { case 'online': return <CheckCircleIcon width={20} height={20} />; case 'offline': return <XCircleIcon width={20} height={20} />; case 'maintenance': return <ClockIcon width={20} height={20} />; default: return <ExclamationTriangleIcon width={20} height={20} />; } };
   const getSignalBars = (strength: number) => { const bars = []; for (let i = 1; i <= 5; i++) { bars.push(<div key={i} style={{ width: '2px', height: `${4 + i * 2}px`, backgroundColor: i <= strength ? '#10b981' : '#4b5563', margin: '0 1px' }} />); } return <div style={{ display: 'flex', alignItems: 'end' }}>{bars}</div>; };
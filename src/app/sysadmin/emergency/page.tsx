@@ -3,7 +3,6 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import Link from 'next/link';
-import { useRouter } from 'next/navigation';
 import { 
   ExclamationTriangleIcon, SpeakerWaveIcon, UserGroupIcon, BellAlertIcon,
   PlusIcon, ShieldExclamationIcon, FireIcon, TruckIcon, HeartIcon,
@@ -12,29 +11,9 @@ import {
 import RealTimeEmergencyClient, { EmergencyAlert, useEmergencyAlerts, useEmergencyContext } from '../../components/RealTimeEmergencyClient';
 import { useTheme } from '@/app/context/ThemeContext';
 import ThemeSwitcher from '@/app/components/ThemeSwitcher';
+import apiClient, { type EmergencyDashboard, type EmergencyIncident, type EmergencyTeam } from '@/app/services/apiClient';
 
 // Interfaces
-interface EmergencyIncident {
-  _id: string; incidentId: string; type: 'accident' | 'breakdown' | 'security' | 'medical' | 'weather' | 'system' | 'other';
-  priority: 'critical' | 'high' | 'medium' | 'low'; status: 'active' | 'responded' | 'resolved' | 'closed';
-  title: string; description: string;
-  location: { latitude: number; longitude: number; address: string; deviceId?: string; vehicleNumber?: string; };
-  reportedBy: { name: string; role: string; };
-  assignedTeam?: { teamName: string; responseTime?: string; };
-  createdAt: string; escalationLevel: number;
-}
-interface EmergencyDashboard {
-  overview: { totalEmergencies: number; activeEmergencies: number; resolvedToday: number; criticalCount: number; };
-  statistics: { byPriority: Record<string, number>; byType: Record<string, number>; averageResponseTime: number; averageResolutionTime: number; };
-  alerts: { deviceAlerts: number; offlineDevices: number; escalatedEmergencies: number; };
-  recentEmergencies: EmergencyIncident[]; criticalEmergencies: EmergencyIncident[];
-  realTimeStatus?: { connectedUsers: number; websocketActive: boolean; };
-}
-interface EmergencyTeam {
-  teamId: string; teamName: string;
-  members: { name: string; role: string; contactNumber: string; }[];
-  statistics: { assignedIncidents: number; activeIncidents: number; resolvedIncidents: number; status: 'available' | 'busy'; };
-}
 // Specific type for the emergency status payload to avoid 'any'
 interface EmergencyStatusPayload {
   activeCount: number;
@@ -45,7 +24,6 @@ type Priority = 'low' | 'medium' | 'high' | 'critical';
 
 // Main component that includes the real-time client
 function EmergencyPageContent() {
-  const router = useRouter();
   const { theme } = useTheme();
 
   // State management
@@ -69,41 +47,27 @@ function EmergencyPageContent() {
   const [broadcastForm, setBroadcastForm] = useState({ message: '', recipients: 'all', method: 'system', priority: 'high' });
 
   // API and Data Logic
-  const getToken = () => localStorage.getItem('token');
-
-  const apiCall = useCallback(async (endpoint: string, options: RequestInit = {}) => {
-    const token = getToken();
-    if (!token) { router.push('/sysadmin/login'); return null; }
-    let baseURL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000';
-    if (!baseURL.endsWith('/api')) baseURL += '/api';
-    const fullURL = `${baseURL}${endpoint.startsWith('/') ? endpoint : '/' + endpoint}`;
-    try {
-      const response = await fetch(fullURL, { ...options, headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}`, ...options.headers } });
-      if (!response.ok) {
-        if (response.status === 401) { localStorage.removeItem('token'); router.push('/sysadmin/login'); return null; }
-        const errorText = await response.text(); throw new Error(`API Error: ${response.status} - ${errorText}`);
-      }
-      return await response.json();
-    } catch (error) {
-      console.error('API call error:', error);
-      let errorMessage = error instanceof Error ? error.message : 'An unknown API error occurred.';
-      if (errorMessage.includes('Failed to fetch')) errorMessage = 'Network error: Failed to fetch. Is the backend server running?';
-      setApiErrors(prev => [...new Set([...prev, errorMessage])]);
-      return null;
-    }
-  }, [router]);
+  const reportError = useCallback((error: unknown) => {
+    console.error('API call error:', error);
+    let errorMessage = error instanceof Error ? error.message : 'An unknown API error occurred.';
+    if (errorMessage.includes('Failed to fetch')) errorMessage = 'Network error: Failed to fetch. Is the backend server running?';
+    setApiErrors(prev => [...new Set([...prev, errorMessage])]);
+    return null;
+  }, []);
 
   const loadData = useCallback(async () => {
     if (!dashboardData) setLoading(true);
     try {
       const [dashboardResponse, incidentsResponse, teamsResponse] = await Promise.all([
-        apiCall('/admin/emergency'), apiCall('/admin/emergency/incidents?limit=20'), apiCall('/admin/emergency/teams')
+        apiClient.admin.emergency.dashboard().catch(reportError),
+        apiClient.admin.emergency.incidents({ limit: 20 }).catch(reportError),
+        apiClient.admin.emergency.teams().catch(reportError)
       ]);
       if (dashboardResponse) setDashboardData(dashboardResponse);
       if (incidentsResponse) setIncidents(incidentsResponse.incidents || []);
       if (teamsResponse) setTeams(teamsResponse.teams || []);
     } catch (error) { console.error('Error loading emergency data:', error); } finally { setLoading(false); }
-  }, [apiCall, dashboardData]);
+  }, [reportError, dashboardData]);
 
   useEffect(() => { loadData(); }, [loadData]);
 
@@ -149,23 +113,19 @@ function EmergencyPageContent() {
     setCreating(true);
     try {
       const alertData = { ...alertForm, location: { latitude: parseFloat(alertForm.latitude) || 6.9271, longitude: parseFloat(alertForm.longitude) || 79.8612, address: alertForm.address } };
-      const response = await apiCall('/admin/emergency/alert', { method: 'POST', body: JSON.stringify(alertData) });
-      if (response) {
-        setShowCreateAlert(false); setAlertForm({ type: 'system', priority: 'medium', title: '', description: '', latitude: '', longitude: '', address: '', severity: 'medium' });
-        showInAppNotification({ id: 'alert_success', type: 'emergency_created', title: 'Emergency Alert Created', message: `Alert "${response.emergency?.title}" created`, priority: alertData.priority as Priority, timestamp: new Date(), recipients: ['all'] });
-        setTimeout(() => loadData(), 1000);
-      } else { throw new Error('Failed to create alert'); }
+      const response = await apiClient.admin.emergency.alert(alertData);
+      setShowCreateAlert(false); setAlertForm({ type: 'system', priority: 'medium', title: '', description: '', latitude: '', longitude: '', address: '', severity: 'medium' });
+      showInAppNotification({ id: 'alert_success', type: 'emergency_created', title: 'Emergency Alert Created', message: `Alert "${response.emergency?.title}" created`, priority: alertData.priority as Priority, timestamp: new Date(), recipients: ['all'] });
+      setTimeout(() => loadData(), 1000);
     } catch (error) { alert(`Failed to create alert: ${error instanceof Error ? error.message : 'Unknown error'}`); } finally { setCreating(false); }
   };
   const handleBroadcast = async () => {
     if (!broadcastForm.message) { alert('Please enter a broadcast message'); return; }
     setBroadcasting(true);
     try {
-      const response = await apiCall('/admin/emergency/broadcast', { method: 'POST', body: JSON.stringify(broadcastForm) });
-      if (response) {
-        setShowBroadcast(false); setBroadcastForm({ message: '', recipients: 'all', method: 'system', priority: 'high' });
-        showInAppNotification({ id: 'broadcast_success', type: 'broadcast', title: 'Broadcast Sent', message: `Delivered to ${response.broadcast?.recipientCount || 'all'} users`, priority: 'medium', timestamp: new Date(), recipients: ['all'] });
-      } else { throw new Error('Failed to send broadcast'); }
+      const response = await apiClient.admin.emergency.broadcast(broadcastForm);
+      setShowBroadcast(false); setBroadcastForm({ message: '', recipients: 'all', method: 'system', priority: 'high' });
+      showInAppNotification({ id: 'broadcast_success', type: 'broadcast', title: 'Broadcast Sent', message: `Delivered to ${response.broadcast?.recipientCount || 'all'} users`, priority: 'medium', timestamp: new Date(), recipients: ['all'] });
     } catch (error) { showInAppNotification({ id: 'broadcast_error', type: 'critical_alert', title: 'Broadcast Failed', message: error instanceof Error ? error.message : 'Unknown error', priority: 'high', timestamp: new Date(), recipients: ['all'] }); } finally { setBroadcasting(false); }
   };
 
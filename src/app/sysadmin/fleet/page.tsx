@@ -16,46 +16,11 @@ import {
   EnvelopeIcon,
   UsersIcon
 } from '@heroicons/react/24/outline';
-
-// Interface updated to use _id
-interface FleetCompany {
-  _id: string; // Changed from 'id' to '_id' to match backend
-  companyName: string;
-  registrationNumber: string;
-  contactPerson: string;
-  email: string;
-  phone: string;
-  address: string;
-  status: 'pending' | 'approved' | 'rejected' | 'suspended';
-  applicationDate: string;
-  approvalDate?: string;
-  totalVehicles: number;
-  activeVehicles: number;
-  operatingRoutes: string[];
-  documents: {
-    businessLicense: boolean;
-    insuranceCertificate: boolean;
-    vehicleRegistrations: boolean;
-    driverLicenses: boolean;
-  };
-  complianceScore: number;
-  lastInspection?: string;
-  notes?: string;
-}
-
-interface FleetStats {
-  totalApplications: number;
-  pendingApprovals: number;
-  approvedFleets: number;
-  rejectedApplications: number;
-  activeVehicles: number;
-  totalVehicles: number;
-  complianceIssues: number;
-}
+import apiClient, { type FleetApplicationStats, type FleetCompany } from '@/app/services/apiClient';
 
 export default function FleetManagementPage() {
   const [fleets, setFleets] = useState<FleetCompany[]>([]);
-  const [stats, setStats] = useState<FleetStats | null>(null);
+  const [stats, setStats] = useState<FleetApplicationStats | null>(null);
   const [loading, setLoading] = useState(true);
   const [actionLoading, setActionLoading] = useState<string | null>(null);
   const [selectedFleet, setSelectedFleet] = useState<FleetCompany | null>(null);
@@ -70,33 +35,11 @@ export default function FleetManagementPage() {
       setLoading(true);
       
       try {
-        const token = localStorage.getItem('token');
-        const headers = {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        };
-
-        // Get fleet applications
-        const fleetsResponse = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/admin/fleet`, {
-          headers
-        });
-        
-        if (!fleetsResponse.ok) {
-          throw new Error('Failed to fetch fleets');
-        }
-        
-        const fleetsData = await fleetsResponse.json();
-
-        // Get fleet statistics
-        const statsResponse = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/admin/fleet/stats`, {
-          headers
-        });
-        
-        if (!statsResponse.ok) {
-          throw new Error('Failed to fetch stats');
-        }
-        
-        const statsData = await statsResponse.json();
+        // Get fleet applications and statistics
+        const [fleetsData, statsData] = await Promise.all([
+          apiClient.admin.fleet.list(),
+          apiClient.admin.fleet.stats()
+        ]);
 
         setFleets(fleetsData.fleets || []);
         setStats(statsData);
@@ -145,23 +88,7 @@ export default function FleetManagementPage() {
     setActionLoading(`approve-${fleetId}`);
     
     try {
-      const token = localStorage.getItem('token');
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/admin/fleet/${fleetId}/approve`, {
-        method: 'PUT',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          notes: 'Approved via admin panel'
-        })
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to approve fleet');
-      }
-
-      await response.json();
+      await apiClient.admin.fleet.approve(fleetId, 'Approved via admin panel');
       
       // Update fleet status in state
       setFleets(prev => prev.map(fleet => {
@@ -189,23 +116,7 @@ export default function FleetManagementPage() {
     setActionLoading(`reject-${fleetId}`);
     
     try {
-      const token = localStorage.getItem('token');
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/admin/fleet/${fleetId}/reject`, {
-        method: 'PUT',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          reason: reason
-        })
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to reject fleet');
-      }
-
-      await response.json();
+      await apiClient.admin.fleet.reject(fleetId, reason);
       
       // Update fleet status in state
       setFleets(prev => prev.map(fleet => {
@@ -5,6 +5,7 @@ import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { ShieldCheckIcon, EyeIcon, EyeSlashIcon, SunIcon, MoonIcon } from '@heroicons/react/24/outline';
 import { useTheme } from '@/app/context/ThemeContext'; // Make sure this path is correct
+import { getApiBaseUrl } from '@/app/services/apiClient';
 
 // A simple ThemeSwitcher component, now themed for the admin page
 const ThemeSwitcher = () => {
@@ -70,7 +71,7 @@ export default function SystemAdminLoginPage() {
     setError('');
 
     try {
-      const baseURL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000';
+      const baseURL = getApiBaseUrl();
       const apiURL = `${baseURL}/api/auth/login`;
       
       const response = await fetch(apiURL, {
@@ -3,7 +3,6 @@
 
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
-import { useRouter } from 'next/navigation';
 import { 
   Cog6ToothIcon,
   ServerIcon,
@@ -18,106 +17,15 @@ import {
   InformationCircleIcon,
   ArrowPathIcon
 } from '@heroicons/react/24/outline';
-
-interface SystemSettings {
-  system: {
-    siteName: string;
-    siteUrl: string;
-    maintenanceMode: boolean;
-    allowRegistration: boolean;
-    defaultUserRole: string;
-    sessionTimeout: number;
-    apiRateLimit: number;
-    maxUploadSize: number;
-  };
-  security: {
-    passwordMinLength: number;
-    passwordRequireSpecial: boolean;
-    passwordRequireNumbers: boolean;
-    passwordRequireUppercase: boolean;
-    maxLoginAttempts: number;
-    lockoutDuration: number;
-    requireEmailVerification: boolean;
-    twoFactorEnabled: boolean;
-  };
-  notifications: {
-    emailEnabled: boolean;
-    smsEnabled: boolean;
-    pushEnabled: boolean;
-    systemAlerts: boolean;
-    userNotifications: boolean;
-    emergencyAlerts: boolean;
-  };
-  integrations: {
-    googleMapsApiKey: string;
-    emailServiceProvider: string;
-    emailApiKey: string;
-    smsProvider: string;
-    smsApiKey: string;
-    paymentGateway: string;
-    paymentApiKey: string;
-  };
-  monitoring: {
-    healthCheckInterval: number;
-    alertThresholds: {
-      cpuUsage: number;
-      memoryUsage: number;
-      diskUsage: number;
-      responseTime: number;
-    };
-    logRetention: number;
-    backupFrequency: string;
-    backupRetention: number;
-  };
-}
+import apiClient, { type SystemSettings } from '@/app/services/apiClient';
 
 export default function SystemSettingsPage() {
-  const router = useRouter();
   const [settings, setSettings] = useState<SystemSettings | null>(null);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [activeTab, setActiveTab] = useState('system');
   const [hasChanges, setHasChanges] = useState(false);
 
-  // Get auth token
-  const getToken = () => {
-    return localStorage.getItem('token');
-  };
-
-  // API call helper
-  const apiCall = async (endpoint: string, options: RequestInit = {}) => {
-    const token = getToken();
-    if (!token) {
-      router.push('/sysadmin/login');
-      return null;
-    }
-
-    try {
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}${endpoint}`, {
-        ...options,
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-          ...options.headers,
-        },
-      });
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          localStorage.removeItem('token');
-          router.push('/sysadmin/login');
-          return null;
-        }
-        throw new Error(`API Error: ${response.status}`);
-      }
-
-      return await response.json();
-    } catch (error) {
-      console.error('API call error:', error);
-      return null;
-    }
-  };
-
   // Load settings
   useEffect(() => {
     const loadSettings = async () => {
@@ -241,10 +149,7 @@ export default function SystemSettingsPage() {
 
     setSaving(true);
     try {
-      await apiCall('/admin/system/settings', {
-        method: 'PUT',
-        body: JSON.stringify({ settings }),
-      });
+      await apiClient.admin.settings.update(settings);
 
       setHasChanges(false);
       // Show success message
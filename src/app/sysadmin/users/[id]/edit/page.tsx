@@ -1,7 +1,7 @@
 // src/app/sysadmin/users/[id]/edit/page.tsx - REFACTORED VERSION
 "use client";
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { useRouter, useParams } from 'next/navigation';
 import { 
@@ -20,6 +20,7 @@ import {
 import { useTheme } from '@/app/context/ThemeContext';
 import ThemeSwitcher from '@/app/components/ThemeSwitcher';
 import AnimatedBackground from '@/app/sysadmin/components/AnimatedBackground';
+import apiClient from '@/app/services/apiClient';
 
 // --- Interfaces (Unchanged) ---
 interface EditUserForm {
@@ -47,14 +48,12 @@ export default function EditUserPage() {
   const [saving, setSaving] = useState(false);
 
   // --- Logic and Handlers (Unchanged) ---
-  const getToken = () => localStorage.getItem('token');
-  const apiCall = useCallback(async (endpoint: string, options: RequestInit = {}) => { const token = getToken(); if (!token) { router.push('/sysadmin/login'); return null; } try { const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}${endpoint}`, { ...options, headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}`, ...options.headers, }, }); if (!response.ok) { if (response.status === 401) { localStorage.removeItem('token'); router.push('/sysadmin/login'); return null; } throw new Error(`API Error: ${response.status}`); } return await response.json(); } catch (error) { console.error('API call error:', error); return null; } }, [router]);
-  useEffect(() => { const loadUserData = async () => { setLoading(true); try { const userResponse = await apiCall(`/api/admin/users/${userId}`); if (userResponse) { const userData: EditUserForm = { name: userResponse.name, email: userResponse.email, role: userResponse.role, phone: userResponse.phone || '', department: userResponse.department || '', company: userResponse.company || '', permissions: userResponse.permissions || [], isActive: userResponse.isActive }; setFormData(userData); setOriginalData(userData); } } catch (error) { console.error('Error loading user:', error); setErrors({ submit: 'Failed to load user data' }); } finally { setLoading(false); } }; if (userId) { loadUserData(); } }, [userId, apiCall]);
+  useEffect(() => { const loadUserData = async () => { setLoading(true); try { const userResponse = await apiClient.admin.users.get(userId); const userData: EditUserForm = { name: userResponse.name, email: userResponse.email, role: userResponse.role, phone: userResponse.phone || '', department: userResponse.department || '', company: userResponse.company || '', permissions: userResponse.permissions || [], isActive: userResponse.isActive }; setFormData(userData); setOriginalData(userData); } catch (error) { console.error('Error loading user:', error); setErrors({ submit: 'Failed to load user data' }); } finally { setLoading(false); } }; if (userId) { loadUserData(); } }, [userId]);
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => { if (!formData) return; const { name, value, type } = e.target; setFormData(prev => prev ? ({ ...prev, [name]: type === 'checkbox' ? (e.target as HTMLInputElement).checked : value }) : null); if (errors[name]) { setErrors(prev => ({ ...prev, [name]: '' })); } };
   const handlePermissionChange = (permission: string, checked: boolean) => { if (!formData) return; setFormData(prev => prev ? ({ ...prev, permissions: checked ? [...prev.permissions, permission] : prev.permissions.filter(p => p !== permission) }) : null); };
   const validateForm = () => { if (!formData) return false; const newErrors: Record<string, string> = {}; if (!formData.name.trim()) newErrors.name = 'Name is required'; if (!formData.email.trim()) newErrors.email = 'Email is required'; else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.email)) newErrors.email = 'Please enter a valid email address'; if (formData.role === 'company_admin' && !formData.company?.trim()) newErrors.company = 'Company name is required for company administrators'; if (formData.role === 'customer_service' && !formData.department?.trim()) newErrors.department = 'Department is required for customer service agents'; setErrors(newErrors); return Object.keys(newErrors).length === 0; };
   const hasChanges = () => { if (!formData || !originalData) return false; return JSON.stringify(formData) !== JSON.stringify(originalData); };
-  const handleSubmit = async (e: React.FormEvent) => { e.preventDefault(); if (!formData || !validateForm()) return; setSaving(true); try { const response = await apiCall(`/api/admin/users/${userId}`, { method: 'PUT', body: JSON.stringify(formData), }); if (response) router.push(`/sysadmin/users/${userId}`); } catch (error) { console.error('Error updating user:', error); setErrors({ submit: error instanceof Error ? error.message : 'Failed to update user' }); } finally { setSaving(false); } };
+  const handleSubmit = async (e: React.FormEvent) => { e.preventDefault(); if (!formData || !validateForm()) return; setSaving(true); try { await apiClient.admin.users.update(userId, formData); router.push(`/sysadmin/users/${userId}`); } catch (error) { console.error('Error updating user:', error); setErrors({ submit: error instanceof Error ? error.message : 'Failed to update user' }); } finally { setSaving(false); } };
   const getRoleIcon = (role: string) => { switch (role) { case 'client': return <UserIcon width={20} height={20} />; case 'customer_service': return <ChatBubbleLeftRightIcon width={20} height={20} />; case 'route_admin': return <TruckIcon width={20} height={20} />; case 'company_admin': return <BuildingOfficeIcon width={20} height={20} />; case 'system_admin': return <ShieldCheckIcon width={20} height={20} />; default: return <UserIcon width={20} height={20} />; } };
   const getRoleColor = (role: string) => { switch (role) { case 'client': return '#3b82f6'; case 'customer_service': return '#10b981'; case 'route_admin': return '#f59e0b'; case 'company_admin': return '#8b5cf6'; case 'system_admin': return '#ef4444'; default: return '#6b7280'; } };
   const getRoleDescription = (role: string) => { switch (role) { case 'client': return 'Can register, track buses, and book tickets'; case 'customer_service': return 'Handles customer inquiries and support tickets'; case 'route_admin': return 'Manages routes, schedules, and confirms departures'; case 'company_admin': return 'Manages company fleet and private transport'; case 'system_admin': return 'Full system access and administration'; default: return ''; } };
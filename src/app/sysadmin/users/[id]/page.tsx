@@ -8,12 +8,11 @@ import { UserIcon, EnvelopeIcon, PhoneIcon, BuildingOfficeIcon, ShieldCheckIcon
 import { useTheme } from '@/app/context/ThemeContext';
 import ThemeSwitcher from '@/app/components/ThemeSwitcher';
 import AnimatedBackground from '@/app/sysadmin/components/AnimatedBackground';
+import apiClient, { ApiError, type AdminUser, type UserActivity, type UserActivityResponse, type UserStatistics } from '@/app/services/apiClient';
 
 // --- Interfaces (Unchanged) ---
-interface User { _id: string; name: string; email: string; role: 'client' | 'customer_service' | 'route_admin' | 'company_admin' | 'system_admin'; phone?: string; department?: string; company?: string; permissions?: string[]; isActive: boolean; lastLogin?: string; createdAt: string; updatedAt: string; }
-interface UserStatistics { userId: string; role: string; accountCreated: string; lastLogin?: string; isActive: boolean; totalLogins: number; totalActivities: number; recentActivities: number; lastActiveDate: string; averageSessionsPerDay: number; activityByCategory: Record<string, number>; tripsBooked?: number; completedTrips?: number; devicesManaged?: number; onlineDevices?: number; ticketsHandled?: number; usersManaged?: number; failedLoginAttempts: number; trends: { loginTrend: number; activityTrend: number; }; }
-interface UserActivity { id: string; action: string; description: string; category: string; severity: string; timestamp: string; ipAddress?: string; userAgent?: string; metadata?: Record<string, unknown>; }
-interface ActivityResponse { activities: UserActivity[]; pagination: { currentPage: number; totalPages: number; totalActivities: number; hasNext: boolean; hasPrev: boolean; }; summary: { totalActivities: number; categorySummary: Record<string, unknown>; availableActions: string[]; availableCategories: string[]; }; }
+type User = AdminUser;
+type ActivityResponse = UserActivityResponse;
 
 export default function UserDetailsPage() {
   const router = useRouter();
@@ -41,12 +40,10 @@ export default function UserDetailsPage() {
 
   // --- Logic and Handlers (Unchanged) ---
   useEffect(() => { if (params && params.id) { const rawId = Array.isArray(params.id) ? params.id[0] : params.id; if (rawId === '[id]' || rawId === '%5Bid%5D') { setParamError('Invalid user ID parameter - received literal [id]'); return; } const objectIdPattern = /^[0-9a-fA-F]{24}$/; if (!objectIdPattern.test(rawId)) { setParamError(`Invalid user ID format: ${rawId}`); return; } setUserId(rawId); setParamError(''); } else { setParamError('No user ID provided in URL'); } }, [params]);
-  const getToken = () => localStorage.getItem('token');
-  const apiCall = useCallback(async (endpoint: string, options: RequestInit = {}) => { const token = getToken(); if (!token) { router.push('/sysadmin/login'); return null; } try { const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}${endpoint}`, { ...options, headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}`, ...options.headers, }, }); if (!response.ok) { if (response.status === 401) { localStorage.removeItem('token'); router.push('/sysadmin/login'); return null; } let errorMessage = `API Error: ${response.status}`; try { const errorData = await response.json(); errorMessage = errorData.message || errorMessage; } catch { /* empty */ } throw new Error(errorMessage); } return await response.json(); } catch (error) { console.error('API call error:', error); return null; } }, [router]);
-  useEffect(() => { if (!userId) return; const loadUserData = async () => { setLoading(true); setError(''); try { const userResponse = await apiCall(`/api/admin/users/${userId}`); if (userResponse) { setUser(userResponse); } else { setError('User not found or failed to load'); } } catch { setError('Failed to load user details'); } finally { setLoading(false); } }; loadUserData(); }, [userId, apiCall]);
-  useEffect(() => { if (!userId) return; const loadUserStats = async () => { setStatsLoading(true); try { const statsResponse = await apiCall(`/api/admin/users/${userId}/stats`); if (statsResponse) { setUserStats(statsResponse); } } catch { /* empty */ } finally { setStatsLoading(false); } }; loadUserStats(); }, [userId, apiCall]);
-  useEffect(() => { if (!userId) return; const loadUserActivity = async () => { setActivityLoading(true); try { const activityResponse = await apiCall(`/api/admin/users/${userId}/activity?limit=10`); if (activityResponse && activityResponse.activities) { setRecentActivity(activityResponse.activities); } } catch { /* empty */ } finally { setActivityLoading(false); } }; loadUserActivity(); }, [userId, apiCall]);
-  const loadFullActivity = useCallback(async (page = 1, category = 'all', action = 'all') => { if (!userId) return; setFullActivityLoading(true); try { const params = new URLSearchParams({ page: page.toString(), limit: '20', category, action }); const activityResponse = await apiCall(`/api/admin/users/${userId}/activity?${params.toString()}`); if (activityResponse) { setFullActivityData(activityResponse); } else { setFullActivityData(null); } } catch { setFullActivityData(null); } finally { setFullActivityLoading(false); } }, [userId, apiCall]);
+  useEffect(() => { if (!userId) return; const loadUserData = async () => { setLoading(true); setError(''); try { const userResponse = await apiClient.admin.users.get(userId); setUser(userResponse); } catch (error) { setError(error instanceof ApiError && error.code === 'not_found' ? 'User not found or failed to load' : 'Failed to load user details'); } finally { setLoading(false); } }; loadUserData(); }, [userId]);
+  useEffect(() => { if (!userId) return; const loadUserStats = async () => { setStatsLoading(true); try { const statsResponse = await apiClient.admin.users.userStats(userId); setUserStats(statsResponse); } catch { /* empty */ } finally { setStatsLoading(false); } }; loadUserStats(); }, [userId]);
+  useEffect(() => { if (!userId) return; const loadUserActivity = async () => { setActivityLoading(true); try { const activityResponse = await apiClient.admin.users.activity(userId, { limit: 10 }); if (activityResponse.activities) { setRecentActivity(activityResponse.activities); } } catch { /* empty */ } finally { setActivityLoading(false); } }; loadUserActivity(); }, [userId]);
+  const loadFullActivity = useCallback(async (page = 1, category = 'all', action = 'all') => { if (!userId) return; setFullActivityLoading(true); try { const activityResponse = await apiClient.admin.users.activity(userId, { page, limit: 20, category, action }); setFullActivityData(activityResponse); } catch { setFullActivityData(null); } finally { setFullActivityLoading(false); } }, [userId]);
   useEffect(() => { if (activeTab === 'activity') { loadFullActivity(activityPage, activityCategory, activityAction); } }, [activeTab, activityPage, activityCategory, activityAction, loadFullActivity]);
   const getRoleIcon = (role: string) => { switch (role) { case 'client': return <UserIcon width={20} height={20} />; case 'customer_service': return <ChatBubbleLeftRightIcon width={20} height={20} />; case 'route_admin': return <TruckIcon width={20} height={20} />; case 'company_admin': return <BuildingOfficeIcon width={20} height={20} />; case 'system_admin': return <ShieldCheckIconOutline width={20} height={20} />; default: return <UserIcon width={20} height={20} />; } };
   const getRoleColor = (role: string) => { switch (role) { case 'client': return '#3b82f6'; case 'customer_service': return '#10b981'; case 'route_admin': return '#f59e0b'; case 'company_admin': return '#8b5cf6'; case 'system_admin': return '#ef4444'; default: return '#6b7280'; } };
@@ -54,8 +51,8 @@ export default function UserDetailsPage() {
   const getActionIcon = (action: string) => { switch (action) { case 'login': return <CheckCircleIcon width={16} height={16} color="#10b981" />; case 'logout': return <XCircleIcon width={16} height={16} color="#6b7280" />; case 'profile_update': return <PencilIcon width={16} height={16} color="#3b82f6" />; case 'password_change': return <KeyIcon width={16} height={16} color="#f59e0b" />; case 'trip_booking': return <TruckIcon width={16} height={16} color="#06b6d4" />; case 'ticket_resolved': return <ChatBubbleLeftRightIcon width={16} height={16} color="#10b981" />; case 'device_configured': return <Cog6ToothIcon width={16} height={16} color="#8b5cf6" />; case 'user_created': case 'user_updated': case 'user_deleted': return <UserIcon width={16} height={16} color="#3b82f6" />; case 'device_created': case 'device_updated': case 'device_deleted': return <Cog6ToothIcon width={16} height={16} color="#f59e0b" />; case 'users_list_view': case 'devices_list_view': return <EyeIcon width={16} height={16} color="#94a3b8" />; default: return <ClockIcon width={16} height={16} color="#94a3b8" />; } };
   const getCategoryColor = (category: string) => { switch (category) { case 'auth': return '#3b82f6'; case 'profile': return '#10b981'; case 'device': return '#f59e0b'; case 'trip': return '#06b6d4'; case 'system': return '#ef4444'; default: return '#6b7280'; } };
   const getSeverityColor = (severity: string) => { switch (severity) { case 'critical': return '#ef4444'; case 'high': return '#f59e0b'; case 'medium': return '#3b82f6'; case 'low': return '#10b981'; default: return '#6b7280'; } };
-  const handleToggleStatus = async () => { if (!user || !userId) return; setActionLoading('toggle'); try { await apiCall(`/api/admin/users/${userId}/toggle-status`, { method: 'PATCH' }); setUser(prev => prev ? { ...prev, isActive: !prev.isActive } : null); } catch { /* empty */ } finally { setActionLoading(null); } };
-  const handleDeleteUser = async () => { if (!userId) return; setActionLoading('delete'); try { await apiCall(`/api/admin/users/${userId}`, { method: 'DELETE' }); router.push('/sysadmin/users'); } catch { /* empty */ } finally { setActionLoading(null); setShowDeleteModal(false); } };
+  const handleToggleStatus = async () => { if (!user || !userId) return; setActionLoading('toggle'); try { await apiClient.admin.users.toggleStatus(userId); setUser(prev => prev ? { ...prev, isActive: !prev.isActive } : null); } catch { /* empty */ } finally { setActionLoading(null); } };
+  const handleDeleteUser = async () => { if (!userId) return; setActionLoading('delete'); try { await apiClient.admin.users.remove(userId); router.push('/sysadmin/users'); } catch { /* empty */ } finally { setActionLoading(null); setShowDeleteModal(false); } };
   const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString();
   const formatDateTime = (dateString: string) => new Date(dateString).toLocaleString();
   const getTimeSince = (dateString: string) => { const now = new Date(); const past = new Date(dateString); const diffInMinutes = Math.floor((now.getTime() - past.getTime()) / (1000 * 60)); if (diffInMinutes < 1) return 'Just now'; if (diffInMinutes < 60) return `${diffInMinutes}m ago`; if (diffInMinutes < 1440) return `${Math.floor(diffInMinutes / 60)}h ago`; return `${Math.floor(diffInMinutes / 1440)}d ago`; };
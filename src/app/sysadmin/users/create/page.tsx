@@ -11,6 +11,7 @@ import {
 import { useTheme } from '@/app/context/ThemeContext';
 import ThemeSwitcher from '@/app/components/ThemeSwitcher';
 import AnimatedBackground from '@/app/sysadmin/components/AnimatedBackground';
+import { getApiBaseUrl } from '@/app/services/apiClient';
 
 // --- Interfaces (Unchanged) ---
 interface CreateUserForm {
@@ -36,7 +37,7 @@ export default function CreateUserPage() {
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => { const { name, value, type } = e.target; if (type === 'checkbox') { const checked = (e.target as HTMLInputElement).checked; setFormData(prev => ({ ...prev, [name]: checked })); } else { setFormData(prev => ({ ...prev, [name]: value })); } if (errors[name]) { setErrors(prev => ({ ...prev, [name]: '' })); } };
   const handlePermissionChange = (permission: string, checked: boolean) => { setFormData(prev => ({ ...prev, permissions: checked ? [...prev.permissions, permission] : prev.permissions.filter(p => p !== permission) })); };
   const validateForm = () => { const newErrors: Record<string, string> = {}; if (!formData.name.trim()) newErrors.name = 'Name is required'; if (!formData.email.trim()) newErrors.email = 'Email is required'; else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.email)) newErrors.email = 'Please enter a valid email address'; if (!formData.password) newErrors.password = 'Password is required'; else if (formData.password.length < 6) newErrors.password = 'Password must be at least 6 characters'; if (!formData.confirmPassword) newErrors.confirmPassword = 'Please confirm the password'; else if (formData.password !== formData.confirmPassword) newErrors.confirmPassword = 'Passwords do not match'; if (formData.role === 'company_admin' && !formData.company?.trim()) newErrors.company = 'Company name is required for company administrators'; if (formData.role === 'customer_service' && !formData.department?.trim()) newErrors.department = 'Department is required for customer service agents'; setErrors(newErrors); return Object.keys(newErrors).length === 0; };
-  const handleSubmit = async (e: React.FormEvent) => { e.preventDefault(); if (!validateForm()) return; setLoading(true); try { const token = getToken(); if (!token) { router.push('/sysadmin/login'); return; } const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/admin/users`, { method: 'POST', headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` }, body: JSON.stringify({ ...formData }) }); if (!response.ok) { const errorData = await response.json(); throw new Error(errorData.message || 'Failed to create user'); } router.push('/sysadmin/users'); } catch (error) { console.error('Error creating user:', error); setErrors({ submit: error instanceof Error ? error.message : 'Failed to create user' }); } finally { setLoading(false); } };
+  const handleSubmit = async (e: React.FormEvent) => { e.preventDefault(); if (!validateForm()) return; setLoading(true); try { const token = getToken(); if (!token) { router.push('/sysadmin/login'); return; } const response = await fetch(`${getApiBaseUrl()}/api/admin/users`, { method: 'POST', headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` }, body: JSON.stringify({ ...formData }) }); if (!response.ok) { const errorData = await response.json(); throw new Error(errorData.message || 'Failed to create user'); } router.push('/sysadmin/users'); } catch (error) { console.error('Error creating user:', error); setErrors({ submit: error instanceof Error ? error.message : 'Failed to create user' }); } finally { setLoading(false); } };
   const getRoleIcon = (role: string) => { switch (role) { case 'client': return <UserIcon width={20} height={20} />; case 'customer_service': return <ChatBubbleLeftRightIcon width={20} height={20} />; case 'route_admin': return <PhoneIcon width={20} height={20} />; case 'company_admin': return <BuildingOfficeIcon width={20} height={20} />; case 'system_admin': return <ShieldCheckIcon width={20} height={20} />; default: return <UserIcon width={20} height={20} />; } };
   const getRoleDescription = (role: string) => { switch (role) { case 'client': return 'Can register, track buses, and book tickets'; case 'customer_service': return 'Handles customer inquiries and support tickets'; case 'route_admin': return 'Manages routes, schedules, and confirms departures'; case 'company_admin': return 'Manages company fleet and private transport'; case 'system_admin': return 'Full system access and administration'; default: return ''; } };
   const getAvailablePermissions = () => { const basePermissions = ['read_users', 'write_users', 'read_routes', 'write_routes', 'read_vehicles', 'write_vehicles', 'read_analytics', 'write_analytics']; const rolePermissions = { 'client': ['read_routes', 'read_vehicles'], 'customer_service': ['read_users', 'read_routes', 'read_vehicles'], 'route_admin': ['read_routes', 'write_routes', 'read_vehicles', 'write_vehicles'], 'company_admin': ['read_users', 'write_users', 'read_vehicles', 'write_vehicles'], 'system_admin': basePermissions }; return rolePermissions[formData.role as keyof typeof rolePermissions] || []; };
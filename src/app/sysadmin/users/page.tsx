@@ -3,18 +3,17 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import Link from 'next/link';
-import { useRouter } from 'next/navigation';
 import { UsersIcon, PlusIcon, MagnifyingGlassIcon, UserIcon, ShieldCheckIcon as ShieldCheckIconOutline, PhoneIcon, ChatBubbleLeftRightIcon, BuildingOfficeIcon, PencilIcon, TrashIcon, EyeIcon, ChevronLeftIcon, ChevronRightIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
 import { useTheme } from '@/app/context/ThemeContext';
 import ThemeSwitcher from '@/app/components/ThemeSwitcher';
 import AnimatedBackground from '@/app/sysadmin/components/AnimatedBackground'; // IMPORT THE NEW COMPONENT
+import apiClient, { type AdminUser, type AdminUserStats } from '@/app/services/apiClient';
 
 // --- Interfaces (Unchanged) ---
-interface User { _id: string; name: string; email: string; role: 'client' | 'customer_service' | 'route_admin' | 'company_admin' | 'system_admin'; phone?: string; department?: string; company?: string; isActive: boolean; createdAt: string; lastLogin?: string; permissions?: string[]; }
-interface UserStats { totalUsers: number; activeUsers: number; inactiveUsers: number; recentRegistrations: number; byRole: Record<string, number>; }
+type User = AdminUser;
+type UserStats = AdminUserStats;
 
 export default function SystemAdminUsersPage() {
-  const router = useRouter();
   const { theme } = useTheme();
 
   // --- State Management (Unchanged) ---
@@ -32,15 +31,13 @@ export default function SystemAdminUsersPage() {
   const [deleting, setDeleting] = useState(false);
 
   // --- Logic and Handlers (Unchanged) ---
-  const getToken = () => localStorage.getItem('token');
-  const apiCall = useCallback(async (endpoint: string, options: RequestInit = {}) => { const token = getToken(); if (!token) { router.push('/sysadmin/login'); return null; } try { const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}${endpoint}`, { ...options, headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}`, ...options.headers, }, }); if (!response.ok) { if (response.status === 401) { localStorage.removeItem('token'); router.push('/sysadmin/login'); return null; } throw new Error(`API Error: ${response.status}`); } return await response.json(); } catch (error) { console.error('API call error:', error); return null; } }, [router]);
-  const loadUsers = useCallback(async (page = 1, search = '', role = 'all', status = 'all') => { setLoading(true); try { const params = new URLSearchParams({ page: page.toString(), limit: '10', sortBy: 'createdAt', sortOrder: 'desc' }); if (search) params.append('search', search); if (role !== 'all') params.append('role', role); if (status !== 'all') params.append('isActive', status === 'active' ? 'true' : 'false'); const usersResponse = await apiCall(`/api/admin/users?${params.toString()}`); const statsResponse = await apiCall('/api/admin/users/stats'); if (usersResponse && statsResponse) { setUsers(usersResponse.users || []); setPagination(usersResponse.pagination || { currentPage: 1, totalPages: 1, totalUsers: 0, hasNext: false, hasPrev: false }); setStats(statsResponse); } } catch (error) { console.error('Error loading users:', error); alert('Failed to load users. Please try again.'); } finally { setLoading(false); } }, [apiCall]);
+  const loadUsers = useCallback(async (page = 1, search = '', role = 'all', status = 'all') => { setLoading(true); try { const [usersResponse, statsResponse] = await Promise.all([apiClient.admin.users.list({ page, limit: 10, sortBy: 'createdAt', sortOrder: 'desc', search: search || undefined, role: role !== 'all' ? role : undefined, isActive: status !== 'all' ? status === 'active' : undefined }), apiClient.admin.users.stats()]); setUsers(usersResponse.users || []); setPagination({ currentPage: 1, totalPages: 1, totalUsers: 0, hasNext: false, hasPrev: false, ...usersResponse.pagination }); setStats(statsResponse); } catch (error) { console.error('Error loading users:', error); alert('Failed to load users. Please try again.'); } finally { setLoading(false); } }, []);
   useEffect(() => { loadUsers(); }, [loadUsers]);
   useEffect(() => { const timeoutId = setTimeout(() => { loadUsers(1, searchTerm, filterRole, filterStatus); setCurrentPage(1); }, 500); return () => clearTimeout(timeoutId); }, [searchTerm, filterRole, filterStatus, loadUsers]);
   const handlePageChange = (page: number) => { setCurrentPage(page); loadUsers(page, searchTerm, filterRole, filterStatus); };
-  const handleDeleteUser = async (userId: string) => { if (!userId) return; setDeleting(true); try { const response = await apiCall(`/api/admin/users/${userId}`, { method: 'DELETE' }); if (response) { await loadUsers(currentPage, searchTerm, filterRole, filterStatus); setShowDeleteModal(false); setUserToDelete(null); alert('User deleted successfully'); } else { alert('Failed to delete user'); } } catch (error) { console.error('Error deleting user:', error); alert('Failed to delete user'); } finally { setDeleting(false); } };
-  const handleToggleUserStatus = async (userId: string, currentStatus: boolean) => { try { const response = await apiCall(`/api/admin/users/${userId}`, { method: 'PUT', body: JSON.stringify({ isActive: !currentStatus }) }); if (response) { await loadUsers(currentPage, searchTerm, filterRole, filterStatus); alert(`User status updated successfully`); } else { alert('Failed to update user status'); } } catch (error) { console.error('Error toggling user status:', error); alert('Failed to update user status'); } };
-  const handleBulkAction = async (action: string) => { if (selectedUsers.length === 0) { alert('Please select users first'); return; } try { if (action === 'delete') { const confirmed = confirm(`Are you sure you want to delete ${selectedUsers.length} users?`); if (confirmed) { for (const userId of selectedUsers) { await apiCall(`/api/admin/users/${userId}`, { method: 'DELETE' }); } setSelectedUsers([]); await loadUsers(currentPage, searchTerm, filterRole, filterStatus); alert('Users deleted successfully'); } } else if (action === 'activate' || action === 'deactivate') { for (const userId of selectedUsers) { await apiCall(`/api/admin/users/${userId}`, { method: 'PUT', body: JSON.stringify({ isActive: action === 'activate' }) }); } setSelectedUsers([]); await loadUsers(currentPage, searchTerm, filterRole, filterStatus); alert(`Users ${action}d successfully`); } } catch (error) { console.error('Bulk action error:', error); alert('Failed to perform bulk action'); } };
+  const handleDeleteUser = async (userId: string) => { if (!userId) return; setDeleting(true); try { await apiClient.admin.users.remove(userId); await loadUsers(currentPage, searchTerm, filterRole, filterStatus); setShowDeleteModal(false); setUserToDelete(null); alert('User deleted successfully'); } catch (error) { console.error('Error deleting user:', error); alert('Failed to delete user'); } finally { setDeleting(false); } };
+  const handleToggleUserStatus = async (userId: string, currentStatus: boolean) => { try { await apiClient.admin.users.update(userId, { isActive: !currentStatus }); await loadUsers(currentPage, searchTerm, filterRole, filterStatus); alert(`User status updated successfully`); } catch (error) { console.error('Error toggling user status:', error); alert('Failed to update user status'); } };
+  const handleBulkAction = async (action: string) => { if (selectedUsers.length === 0) { alert('Please select users first'); return; } try { if (action === 'delete') { const confirmed = confirm(`Are you sure you want to delete ${selectedUsers.length} users?`); if (confirmed) { for (const userId of selectedUsers) { await apiClient.admin.users.remove(userId); } setSelectedUsers([]); await loadUsers(currentPage, searchTerm, filterRole, filterStatus); alert('Users deleted successfully'); } } else if (action === 'activate' || action === 'deactivate') { for (const userId of selectedUsers) { await apiClient.admin.users.update(userId, { isActive: action === 'activate' }); } setSelectedUsers([]); await loadUsers(currentPage, searchTerm, filterRole, filterStatus); alert(`Users ${action}d successfully`); } } catch (error) { console.error('Bulk action error:', error); alert('Failed to perform bulk action'); } };
   const getRoleIcon = (role: string) => { switch (role) { case 'client': return <UserIcon width={20} height={20} />; case 'customer_service': return <ChatBubbleLeftRightIcon width={20} height={20} />; case 'route_admin': return <PhoneIcon width={20} height={20} />; case 'company_admin': return <BuildingOfficeIcon width={20} height={20} />; case 'system_admin': return <ShieldCheckIconOutline width={20} height={20} />; default: return <UserIcon width={20} height={20} />; } };
   const getRoleColor = (role: string) => { switch (role) { case 'client': return '#3b82f6'; case 'customer_service': return '#10b981'; case 'route_admin': return '#f59e0b'; case 'company_admin': return '#8b5cf6'; case 'system_admin': return '#ef4444'; default: return '#6b7280'; } };
   const getRoleLabel = (role: string) => { switch (role) { case 'client': return 'Client'; case 'customer_service': return 'Customer Service'; case 'route_admin': return 'Route Admin'; case 'company_admin': return 'Company Admin'; case 'system_admin': return 'System Admin'; default: return 'Unknown'; } };
@@ -3,42 +3,40 @@
 
 import { useState, useEffect, useCallback, useMemo } from 'react';
 import Link from 'next/link';
-import { useRouter } from 'next/navigation';
 import dynamic from 'next/dynamic';
 import { TruckIcon, MapPinIcon, ClockIcon, UsersIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
 import { useTheme } from '@/app/context/ThemeContext';
 import ThemeSwitcher from '@/app/components/ThemeSwitcher';
+import DeparturesBoard from '@/app/components/DeparturesBoard';
+import apiClient, { ApiError } from '@/app/services/apiClient';
+import { cacheKey } from '@/app/services/requestCache';
+import vehicleQualityService from '@/app/services/vehicleQualityService';
+import mapClusterService, { type LatLngBounds, type MapViewport } from '@/app/services/mapClusterService';
+import { useResource } from '@/app/hooks/useResource';
+import { useArrivalPredictions } from '@/app/hooks/useArrivalPredictions';
+import type { Route } from '@/app/domain';
 
 // --- DYNAMICALLY IMPORTED COMPONENT ---
 const AdvancedMap = dynamic(() => import('../components/AdvancedMap'), { ssr: false });
 
 // --- TYPE DEFINITIONS ---
-interface VehicleLocation {
-  _id: string; deviceId: string; routeId: string; vehicleId: string; vehicleNumber: string;
-  location: { latitude: number; longitude: number; accuracy: number; heading: number; speed: number; altitude: number; };
-  routeProgress: { currentWaypoint: number; distanceCovered: number; estimatedTimeToDestination: number; nextStopETA: string; progressPercentage: number; };
-  passengerLoad: { currentCapacity: number; maxCapacity: number; loadPercentage: number; };
-  operationalInfo: { driverInfo: { driverName: string; contactNumber: string; }; tripInfo: { tripId: string; departureTime: string; estimatedArrival: string; }; status: 'on_route' | 'at_stop' | 'delayed' | 'breakdown' | 'off_duty'; delays: { currentDelay: number; reason: string; }; };
-  environmentalData: { weather: string; temperature: number; trafficCondition: string; }; timestamp: string;
-}
-interface Route { _id: string; name: string; startLocation: { name: string; address: string; }; endLocation: { name: string; address: string; }; waypoints: Array<{ name: string; coordinates: [number, number]; order: number; }>; }
-interface SimulationStatus { isRunning: boolean; speedMultiplier: number; }
 type ViewMode = 'map' | 'list' | 'both';
 
+const TRACKING_REFRESH_MS = 3000;
+// The national feed only drives predictions and counts, which do not need every marker update
+const FLEET_REFRESH_MS = 15000;
+
 // --- MAIN COMPONENT ---
 export default function AdvancedTrackingPage() {
-  const router = useRouter();
   const { theme } = useTheme();
-  const [vehicles, setVehicles] = useState<VehicleLocation[]>([]);
-  const [routes, setRoutes] = useState<Route[]>([]);
   const [selectedRoute, setSelectedRoute] = useState<string>('all');
   const [selectedVehicle, setSelectedVehicle] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<ViewMode>('both');
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState('');
-  const [lastUpdate, setLastUpdate] = useState<Date>(new Date());
   const [autoRefresh, setAutoRefresh] = useState(true);
-  const [simulationStatus, setSimulationStatus] = useState<SimulationStatus | null>(null);
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [controlError, setControlError] = useState('');
+  const [boardStop, setBoardStop] = useState<string | null>(null);
+  const [liveBounds, setLiveBounds] = useState<LatLngBounds | null>(null);
   
   // --- CONSISTENT THEME STYLING ---
   const lightTheme = {
@@ -88,65 +86,65 @@ export default function AdvancedTrackingPage() {
   const animationStyles = ` @keyframes road-marking { 0% { transform: translateX(-200%); } 100% { transform: translateX(500%); } } .animate-road-marking { animation: road-marking 10s linear infinite; } @keyframes car-right { 0% { transform: translateX(-100%); } 100% { transform: translateX(100vw); } } .animate-car-right { animation: car-right 15s linear infinite; } @keyframes car-left { 0% { transform: translateX(100vw) scaleX(-1); } 100% { transform: translateX(-200px) scaleX(-1); } } .animate-car-left { animation: car-left 16s linear infinite; } @keyframes light-blink { 0%, 100% { opacity: 1; box-shadow: 0 0 15px #fcd34d; } 50% { opacity: 0.6; box-shadow: 0 0 5px #fcd34d; } } .animate-light-blink { animation: light-blink 1s infinite; } @keyframes fade-in-down { from { opacity: 0; transform: translateY(-20px); } to { opacity: 1; transform: translateY(0); } } .animate-fade-in-down { animation: fade-in-down 0.8s ease-out forwards; } @keyframes fade-in-up { from { opacity: 0; transform: translateY(20px); } to { opacity: 1; transform: translateY(0); } } .animate-fade-in-up { animation: fade-in-up 0.8s ease-out forwards; } @keyframes trainMove { from { left: 100%; } to { left: -300px; } } @keyframes slight-bounce { 0%, 100% { transform: translateY(0px); } 50% { transform: translateY(-1px); } } .animate-slight-bounce { animation: slight-bounce 2s ease-in-out infinite; } @keyframes steam { 0% { opacity: 0.8; transform: translateY(0) scale(1); } 100% { opacity: 0; transform: translateY(-20px) scale(2.5); } } .animate-steam { animation: steam 2s ease-out infinite; } @keyframes wheels { 0% { transform: rotate(0deg); } 100% { transform: rotate(-360deg); } } .animate-wheels { animation: wheels 2s linear infinite; } @keyframes connecting-rod { 0% { transform: translateX(-1px) rotate(0deg); } 50% { transform: translateX(1px) rotate(180deg); } 100% { transform: translateX(-1px) rotate(360deg); } } .animate-connecting-rod { animation: connecting-rod 2s linear infinite; } @keyframes piston-move { 0% { transform: translateX(-2px); } 50% { transform: translateX(2px); } 100% { transform: translateX(-2px); } } .animate-piston { animation: piston-move 2s linear infinite; } .animation-delay-100 { animation-delay: 0.1s; } .animation-delay-200 { animation-delay: 0.2s; } .animation-delay-300 { animation-delay: 0.3s; } .animation-delay-400 { animation-delay: 0.4s; } .animation-delay-500 { animation-delay: 0.5s; } .animation-delay-600 { animation-delay: 0.6s; } .animation-delay-700 { animation-delay: 0.7s; } .animation-delay-800 { animation-delay: 0.8s; } .animation-delay-1000 { animation-delay: 1s; } .animation-delay-1200 { animation-delay: 1.2s; } .animation-delay-1500 { animation-delay: 1.5s; } .animation-delay-2000 { animation-delay: 2s; } .animation-delay-2500 { animation-delay: 2.5s; } .animation-delay-3000 { animation-delay: 3s; } @keyframes spin { 0% { transform: rotate(0deg); } 100% { transform: rotate(360deg); } } @keyframes pulse { 0%, 100% { opacity: 1; } 50% { opacity: 0.5; } }`;
 
   // --- API & DATA LOGIC ---
-  const getToken = () => typeof window !== 'undefined' ? localStorage.getItem('token') : null;
-  const isAdmin = () => { try { const user = JSON.parse(localStorage.getItem('user') || '{}'); return user.role === 'system_admin'; } catch { return false; } };
+  useEffect(() => {
+    try { setIsAdmin(JSON.parse(localStorage.getItem('user') || '{}').role === 'system_admin'); } catch { setIsAdmin(false); }
+  }, []);
 
-  const apiCall = useCallback(async (endpoint: string, options: RequestInit = {}) => {
-    const token = getToken();
-    if (!token) { router.push('/login'); return null; }
-    const baseURL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000';
-    try {
-      const response = await fetch(`${baseURL}/api${endpoint}`, { ...options, headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}`, ...options.headers, } });
-      if (!response.ok) {
-        if (response.status === 401) { localStorage.removeItem('token'); localStorage.removeItem('user'); router.push('/login'); return null; }
-        if (response.status === 403 && endpoint.includes('/admin/')) { console.log('Admin endpoint access denied - user not authorized'); return null; }
-        throw new Error(`API Error: ${response.status} - ${response.statusText}`);
-      }
-      return await response.json();
-    } catch (error) {
-      console.error('API call error:', error);
-      if (!(error instanceof Error && error.message.includes('403') && endpoint.includes('/admin/'))) { if (error instanceof Error) setError(error.message); }
-      return null;
-    }
-  }, [router]);
+  // Live positions poll through the shared request cache, which also pauses polling while the tab is hidden
+  const refreshInterval = autoRefresh ? TRACKING_REFRESH_MS : 0;
+  // Predictions, the vehicle list and the counts use the whole fleet (or the selected route's vehicles)
+  const vehiclesResource = useResource(
+    selectedRoute === 'all' ? cacheKey('/tracking/live') : cacheKey(`/tracking/route/${selectedRoute}`),
+    () => (selectedRoute === 'all' ? apiClient.tracking.live() : apiClient.tracking.route(selectedRoute)).then(response => response.vehicles),
+    { refreshInterval: autoRefresh ? (selectedRoute === 'all' ? FLEET_REFRESH_MS : TRACKING_REFRESH_MS) : 0 }
+  );
+  // Markers for the whole fleet poll only the area around the map's view; a single route is small enough to draw from its own feed
+  const liveParams = useMemo(() => liveBounds ? { minLat: liveBounds[0][0], minLng: liveBounds[0][1], maxLat: liveBounds[1][0], maxLng: liveBounds[1][1] } : null, [liveBounds]);
+  const viewportResource = useResource(
+    selectedRoute === 'all' && liveParams ? cacheKey('/tracking/live', liveParams) : null,
+    () => apiClient.tracking.live(liveParams || {}).then(response => response.vehicles),
+    { refreshInterval, keepPreviousData: true }
+  );
+  const routesResource = useResource(cacheKey('/routes', { status: 'active' }), () => apiClient.routes.list({ status: 'active' }, { auth: 'required' }).then(response => response.routes));
+  // Simulation controls are admin-only; other users never request them
+  const simulationResource = useResource(isAdmin ? cacheKey('/admin/simulation/status') : null, () => apiClient.admin.simulation.status(), { refreshInterval });
 
-  const loadVehicleLocations = useCallback(async () => {
-    const endpoint = selectedRoute === 'all' ? '/tracking/live' : `/tracking/route/${selectedRoute}`;
-    const response = await apiCall(endpoint);
-    if (response?.vehicles) { setVehicles(response.vehicles); setLastUpdate(new Date()); setError(''); }
-  }, [selectedRoute, apiCall]);
+  const vehicles = useMemo(() => vehiclesResource.data || [], [vehiclesResource.data]);
+  const viewportVehicles = selectedRoute === 'all' ? viewportResource.data : undefined;
+  const routes: Route[] = useMemo(() => routesResource.data || [], [routesResource.data]);
+  const simulationStatus = simulationResource.data?.simulation || null;
+  const { predictions, boardStops, departures } = useArrivalPredictions(vehicles, routes);
+  const loading = vehiclesResource.isLoading || routesResource.isLoading;
+  const lastUpdate = (viewportVehicles && viewportResource.updatedAt) || vehiclesResource.updatedAt || new Date();
 
-  const loadRoutes = useCallback(async () => {
-    const response = await apiCall('/routes?status=active');
-    if (response?.routes || Array.isArray(response)) setRoutes(response.routes || response);
-  }, [apiCall]);
+  // Admin-only endpoints answer 403 for passengers; that is expected and not shown as an error
+  const describeError = (error: unknown) => !error || (error instanceof ApiError && error.code === 'forbidden') ? '' : error instanceof Error ? error.message : 'Failed to load tracking data';
+  const error = describeError(vehiclesResource.error) || describeError(viewportResource.error) || describeError(routesResource.error) || describeError(simulationResource.error) || controlError;
 
-  const loadSimulationStatus = useCallback(async () => {
-    if (isAdmin()) { const response = await apiCall('/admin/simulation/status'); if (response?.simulation) setSimulationStatus(response.simulation); }
-  }, [apiCall]);
+  // Small pans stay inside the fetched area and keep the same request
+  const handleViewportChange = useCallback((viewport: MapViewport) => {
+    const next = mapClusterService.queryBounds(viewport);
+    setLiveBounds(current => mapClusterService.sameBounds(current, next) ? current : next);
+  }, []);
 
   const controlSimulation = useCallback(async (action: 'start' | 'stop' | 'speed', value?: number) => {
-    if (!isAdmin()) return;
-    const endpoint = action === 'speed' ? `/admin/simulation/speed` : `/admin/simulation/${action}`;
-    const options = action === 'speed' ? { method: 'POST', body: JSON.stringify({ speed: value }) } : { method: 'POST' };
-    const response = await apiCall(endpoint, options);
-    if (response?.simulation) { setSimulationStatus(response.simulation); if (action === 'start') setAutoRefresh(true); }
-  }, [apiCall]);
-
-  useEffect(() => {
-    const loadData = async () => { setLoading(true); await Promise.all([loadVehicleLocations(), loadRoutes(), loadSimulationStatus()]); setLoading(false); };
-    loadData();
-  }, [loadVehicleLocations, loadRoutes, loadSimulationStatus]);
-
-  useEffect(() => {
-    if (!autoRefresh) return;
-    const interval = setInterval(() => { loadVehicleLocations(); if (isAdmin()) loadSimulationStatus(); }, 3000);
-    return () => clearInterval(interval);
-  }, [autoRefresh, loadVehicleLocations, loadSimulationStatus]);
+    if (!isAdmin) return;
+    try {
+      setControlError('');
+      const response = await apiClient.admin.simulation.control({ action, speed: value });
+      if (response.simulation && action === 'start') setAutoRefresh(true);
+    } catch (error) {
+      console.error('API call error:', error);
+      setControlError(error instanceof Error ? error.message : 'Failed to control simulation');
+    }
+  }, [isAdmin]);
 
   const filteredVehicles = useMemo(() => vehicles.filter(vehicle => selectedRoute === 'all' || vehicle.routeId === selectedRoute), [vehicles, selectedRoute]);
   const getStatusColor = (status: string) => ({ on_route: '#10B981', at_stop: '#3B82F6', delayed: '#F59E0B', breakdown: '#EF4444', off_duty: '#6B7280' }[status] || '#6B7280');
-  const formatSpeed = (speed: number) => `${speed.toFixed(1)} km/h`;
+  // Averaged over the vehicles that report a load; the rest are unknown, not empty
+  const reportedLoads = filteredVehicles.map(vehicle => vehicleQualityService.load(vehicle).value).filter((load): load is number => load !== undefined);
+  const averageLoad = reportedLoads.length ? Math.round(reportedLoads.reduce((sum, load) => sum + load, 0) / reportedLoads.length) : null;
+  const formatSpeed = (speed?: number) => speed === undefined ? '—' : `${speed.toFixed(1)} km/h`;
 
   if (loading) {
     return (
@@ -199,7 +197,7 @@ export default function AdvancedTrackingPage() {
         </div>
 
         <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(280px, 1fr))', gap: '2rem', marginBottom: '2rem' }}>
-          {[ { label: 'Active Vehicles', value: filteredVehicles.length, icon: TruckIcon, color: '#3B82F6' }, { label: 'On Route', value: filteredVehicles.filter(v => v.operationalInfo.status === 'on_route').length, icon: MapPinIcon, color: '#10B981' }, { label: 'Delayed', value: filteredVehicles.filter(v => v.operationalInfo.delays.currentDelay > 0).length, icon: ClockIcon, color: '#F59E0B' }, { label: 'Avg Load', value: `${Math.round(filteredVehicles.reduce((acc, v) => acc + (v.passengerLoad?.loadPercentage || 0), 0) / (filteredVehicles.length || 1))}%`, icon: UsersIcon, color: '#8B5CF6' } ].map((stat, index) => (
+          {[ { label: 'Active Vehicles', value: filteredVehicles.length, icon: TruckIcon, color: '#3B82F6' }, { label: 'On Route', value: filteredVehicles.filter(v => v.operationalInfo?.status === 'on_route').length, icon: MapPinIcon, color: '#10B981' }, { label: 'Delayed', value: filteredVehicles.filter(v => (v.operationalInfo?.delays?.currentDelay || 0) > 0).length, icon: ClockIcon, color: '#F59E0B' }, { label: 'Avg Load', value: averageLoad === null ? '—' : `${averageLoad}%`, icon: UsersIcon, color: '#8B5CF6' } ].map((stat, index) => (
             <div key={stat.label} style={{ backgroundColor: currentThemeStyles.glassPanelBg, padding: '2rem', borderRadius: '1rem', boxShadow: currentThemeStyles.glassPanelShadow, backdropFilter: 'blur(12px)', border: currentThemeStyles.glassPanelBorder, animation: `fade-in-up 0.8s ease-out ${index * 0.1}s both` }}>
               <div style={{ display: 'flex', alignItems: 'center', gap: '1rem' }}>
                 <div style={{ width: '48px', height: '48px', backgroundColor: stat.color, borderRadius: '12px', display: 'flex', alignItems: 'center', justifyContent: 'center', filter: 'brightness(1.1)' }}><stat.icon width={24} height={24} color="white" /></div>
@@ -217,8 +215,8 @@ export default function AdvancedTrackingPage() {
                 {routes.map((route) => (<option key={route._id} value={route._id}>{route.name}</option>))}
               </select>
               <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', color: currentThemeStyles.textSecondary, fontSize: '0.875rem', cursor: 'pointer' }}><input type="checkbox" checked={autoRefresh} onChange={(e) => setAutoRefresh(e.target.checked)} style={{ accentColor: '#3B82F6' }} />Auto Refresh</label>
-              <button onClick={loadVehicleLocations} style={{ backgroundColor: '#10B981', color: 'white', padding: '0.75rem 1.5rem', border: 'none', borderRadius: '0.5rem', cursor: 'pointer', fontWeight: '500' }}>🔄 Refresh</button>
-              {simulationStatus && isAdmin() && (
+              <button onClick={() => { vehiclesResource.refresh(); viewportResource.refresh(); }} style={{ backgroundColor: '#10B981', color: 'white', padding: '0.75rem 1.5rem', border: 'none', borderRadius: '0.5rem', cursor: 'pointer', fontWeight: '500' }}>🔄 Refresh</button>
+              {simulationStatus && isAdmin && (
                 <div style={{ display: 'flex', gap: '0.5rem' }}>
                   <button onClick={() => controlSimulation(simulationStatus.isRunning ? 'stop' : 'start')} style={{ backgroundColor: simulationStatus.isRunning ? '#EF4444' : '#10B981', color: 'white', padding: '0.5rem 1rem', border: 'none', borderRadius: '0.375rem', cursor: 'pointer', fontSize: '0.875rem', fontWeight: '500' }}>{simulationStatus.isRunning ? '⏹️ Stop' : '▶️ Start'}</button>
                   <select onChange={(e) => controlSimulation('speed', parseFloat(e.target.value))} value={simulationStatus.speedMultiplier} style={{ padding: '0.5rem', border: `1px solid ${currentThemeStyles.selectBorder}`, borderRadius: '0.375rem', backgroundColor: currentThemeStyles.selectBg, color: currentThemeStyles.selectText, fontSize: '0.875rem' }}>
@@ -241,7 +239,7 @@ export default function AdvancedTrackingPage() {
         <div style={{ display: 'grid', gridTemplateColumns: viewMode === 'both' ? '1fr 450px' : '1fr', gap: '2rem', height: viewMode === 'map' ? '70vh' : 'auto' }}>
           {(viewMode === 'map' || viewMode === 'both') && (
             <div style={{ backgroundColor: currentThemeStyles.glassPanelBg, borderRadius: '1rem', boxShadow: currentThemeStyles.glassPanelShadow, backdropFilter: 'blur(12px)', border: currentThemeStyles.glassPanelBorder, overflow: 'hidden' }}>
-              <AdvancedMap vehicles={filteredVehicles.length > 0 ? filteredVehicles : vehicles} selectedVehicle={selectedVehicle} onVehicleSelect={setSelectedVehicle} height={viewMode === 'both' ? '650px' : '70vh'} />
+              <AdvancedMap vehicles={viewportVehicles || (filteredVehicles.length > 0 ? filteredVehicles : vehicles)} selectedVehicle={selectedVehicle} onVehicleSelect={setSelectedVehicle} height={viewMode === 'both' ? '650px' : '70vh'} routes={routes} selectedRoute={selectedRoute === 'all' ? null : selectedRoute} predictions={predictions} onViewportChange={handleViewportChange} />
             </div>
           )}
 
@@ -257,14 +255,14 @@ export default function AdvancedTrackingPage() {
                         {selectedVehicle === vehicle.vehicleId && <span style={{ fontSize: '0.875rem', color: '#3B82F6', display: 'flex', alignItems: 'center', gap: '0.25rem' }}><MapPinIcon width={16} height={16} color="#3B82F6" /> Selected</span>}
                       </h3>
                       <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.5rem' }}>
-                        <span style={{ padding: '0.25rem 0.75rem', borderRadius: '99px', fontSize: '0.75rem', fontWeight: '600', backgroundColor: getStatusColor(vehicle.operationalInfo.status), color: 'white' }}>{vehicle.operationalInfo.status.replace('_', ' ').toUpperCase()}</span>
-                        {vehicle.operationalInfo.delays.currentDelay > 0 && (<span style={{ padding: '0.25rem 0.75rem', borderRadius: '99px', fontSize: '0.75rem', fontWeight: '600', backgroundColor: '#F59E0B', color: 'white' }}>+{vehicle.operationalInfo.delays.currentDelay} min</span>)}
+                        <span style={{ padding: '0.25rem 0.75rem', borderRadius: '99px', fontSize: '0.75rem', fontWeight: '600', backgroundColor: getStatusColor(vehicle.operationalInfo?.status || 'unknown'), color: 'white' }}>{(vehicle.operationalInfo?.status || 'unknown').replace('_', ' ').toUpperCase()}</span>
+                        {(vehicle.operationalInfo?.delays?.currentDelay || 0) > 0 && (<span style={{ padding: '0.25rem 0.75rem', borderRadius: '99px', fontSize: '0.75rem', fontWeight: '600', backgroundColor: '#F59E0B', color: 'white' }}>+{vehicle.operationalInfo?.delays?.currentDelay} min</span>)}
                       </div>
                       <div style={{ fontSize: '0.875rem', color: currentThemeStyles.textSecondary, lineHeight: '1.5' }}>
-                        <div>Driver: {vehicle.operationalInfo.driverInfo.driverName}</div>
-                        <div>Speed: {formatSpeed(vehicle.location.speed)} • Load: {vehicle.passengerLoad.loadPercentage.toFixed(0)}% • Progress: {vehicle.routeProgress.progressPercentage.toFixed(1)}%</div>
+                        <div>Driver: {vehicle.operationalInfo?.driverInfo?.driverName || 'Unknown'}</div>
+                        <div>Speed: {formatSpeed(vehicle.location.speed)} • Load: {vehicle.passengerLoad?.loadPercentage?.toFixed(0) ?? '—'}% • Progress: {vehicle.routeProgress?.progressPercentage?.toFixed(1) ?? '—'}%</div>
                       </div>
-                      {vehicle.operationalInfo.delays.reason && (
+                      {vehicle.operationalInfo?.delays?.reason && (
                         <div style={{ marginTop: '1rem', padding: '1rem', backgroundColor: theme === 'dark' ? '#7C2D12' : '#FEF2F2', borderRadius: '0.5rem', border: `1px solid ${theme === 'dark' ? '#DC2626' : '#FCA5A5'}` }}>
                           <div style={{ fontSize: '0.875rem', color: theme === 'dark' ? '#FCA5A5' : '#991B1B', fontWeight: '500', display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
                             <ExclamationTriangleIcon width={16} height={16} color={theme === 'dark' ? '#FCA5A5' : '#991B1B'} /> 
@@ -285,6 +283,11 @@ export default function AdvancedTrackingPage() {
             </div>
           )}
         </div>
+        <div style={{ backgroundColor: currentThemeStyles.glassPanelBg, padding: '2rem', borderRadius: '1rem', boxShadow: currentThemeStyles.glassPanelShadow, backdropFilter: 'blur(12px)', border: currentThemeStyles.glassPanelBorder, marginTop: '2rem', maxWidth: '720px' }}>
+          <h2 style={{ fontSize: '1.5rem', fontWeight: '600', color: currentThemeStyles.textPrimary, margin: '0 0 0.25rem 0', display: 'flex', alignItems: 'center', gap: '0.5rem' }}><ClockIcon width={24} height={24} /> Departures Board</h2>
+          <p style={{ color: currentThemeStyles.textSecondary, margin: '0 0 1rem 0', fontSize: '0.9rem' }}>Predicted arrivals from live positions, updated with every GPS fix</p>
+          <DeparturesBoard stops={boardStops} stopKey={boardStop} onStopChange={setBoardStop} entries={boardStop ? departures(boardStop) : []} selectedVehicle={selectedVehicle} onVehicleSelect={setSelectedVehicle} currentThemeStyles={currentThemeStyles} />
+        </div>
       </main>
     </div>
   );